@@ -13,33 +13,84 @@
  * - /dashboard - Role-based dashboard home
  * - /teachers - Teacher management
  * - /allocations - Leave allocation policies
+ * - /leave-accruals - Monthly and pro-rated leave credits (admins)
+ * - /leave-rollover - Year-end leave carry-forward (admins)
  * - /organization - Holiday calendar
  * - /preferences - Organization settings
+ * - /attendance - Staff attendance register (admins)
+ * - /my-attendance - Personal check-in/out and history (admins, teachers)
+ * - /regularization-reviews - Attendance regularization approvals
+ * - /mark-attendance - Class roll call (teachers)
+ * - /timetable - Section timetable builder (admins)
+ * - /substitutions - Cover for teachers on approved leave (admins)
+ * - /schedule - Weekly teaching schedule (teachers)
+ * - /child-timetable - Children's class timetables (parents)
+ * - /exams - Exam terms, grade scales and result publishing (admins)
+ * - /report-cards - Printable term report cards (admins, class teachers)
+ * - /marks-entry - Marks entry for the teacher's exam papers (teachers)
+ * - /progress - Published exam results of children (parents)
+ * - /assignments - Homework, submissions and grading (teachers)
+ * - /homework - Children's homework and submissions (parents)
+ * - /child-profile - School record of each child (parents)
+ * - /child-attendance - Children's class attendance and leave (parents)
+ * - /child-reports - Children's published report cards (parents)
+ * - /messages - Parent–teacher conversations (parents, teachers)
+ * - /announcements - Notices and circulars with read receipts (admins, school leadership)
+ *
+ * Access to each route is governed by ROUTE_PERMISSIONS in core/permissions;
+ * ProtectedRoute renders the 403 page when the signed-in user lacks it.
  */
 
 import { QueryClientProvider } from "@tanstack/react-query";
 import { useEffect } from "react";
 import { Route, Switch, useLocation } from "wouter";
+import { SessionTimeoutManager } from "@/common/components";
 import { Toaster as SonnerToaster } from "@/components/ui/sonner";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { MyAttendancePage } from "@/features/attendance/pages/my-attendance-page";
 import { ProtectedRoute } from "@/features/auth";
+import { MessagesPage } from "@/features/messages/pages/messages-page";
+import { NotificationStreamManager } from "@/features/notifications";
 import { ProfileSettingsPage } from "@/features/profile/pages/profile-settings-page";
 import {
   AllocationsPage,
+  AnnouncementsPage,
+  AttendancePage,
   ClassesPage,
+  ExamsPage,
   ExceptionalWorkPage,
+  LeaveAccrualsPage,
   LeaveRequestFormPage,
   LeaveRequestReviewsPage,
   LeaveRequestsPage,
+  LeaveRolloverPage,
   ManageLeaveBalancesPage,
   OrganizationPage,
   OverviewPage,
   PreferencesPage,
+  RegularizationReviewsPage,
+  ReportCardsPage,
   StudentsPage,
   SubjectsPage,
+  SubstitutionsPage,
   TeachersPage,
+  TimetablePage,
 } from "@/modules/admin/pages";
+import {
+  AcademicProgressPage,
+  ChildAttendancePage,
+  ChildProfilePage,
+  ChildReportCardsPage,
+  ChildTimetablePage,
+  HomeworkPage,
+} from "@/modules/parent/pages";
+import {
+  AssignmentsPage,
+  MarkAttendancePage,
+  MarksEntryPage,
+  SchedulePage,
+} from "@/modules/teacher/pages";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import NotFound from "@/pages/not-found";
@@ -79,6 +130,16 @@ function Router() {
           <AllocationsPage />
         </ProtectedRoute>
       </Route>
+      <Route path="/leave-accruals">
+        <ProtectedRoute>
+          <LeaveAccrualsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/leave-rollover">
+        <ProtectedRoute>
+          <LeaveRolloverPage />
+        </ProtectedRoute>
+      </Route>
       <Route path="/organization">
         <ProtectedRoute>
           <OrganizationPage />
@@ -184,6 +245,131 @@ function Router() {
           <LeaveRequestFormPage />
         </ProtectedRoute>
       </Route>
+      <Route path="/attendance">
+        <ProtectedRoute>
+          <AttendancePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/regularization-reviews">
+        <ProtectedRoute>
+          <RegularizationReviewsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/my-attendance">
+        <ProtectedRoute>
+          <MyAttendancePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/mark-attendance">
+        <ProtectedRoute>
+          <MarkAttendancePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/timetable">
+        <ProtectedRoute>
+          <TimetablePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/substitutions">
+        <ProtectedRoute>
+          <SubstitutionsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/schedule">
+        <ProtectedRoute>
+          <SchedulePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/child-timetable">
+        <ProtectedRoute>
+          <ChildTimetablePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/exams">
+        <ProtectedRoute>
+          <ExamsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/exams/:id">
+        <ProtectedRoute>
+          <ExamsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/exams/:id/papers/:paperId">
+        <ProtectedRoute>
+          <ExamsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/report-cards">
+        <ProtectedRoute>
+          <ReportCardsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/marks-entry">
+        <ProtectedRoute>
+          <MarksEntryPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/marks-entry/:paperId">
+        <ProtectedRoute>
+          <MarksEntryPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/progress">
+        <ProtectedRoute>
+          <AcademicProgressPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/assignments">
+        <ProtectedRoute>
+          <AssignmentsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/assignments/:id">
+        <ProtectedRoute>
+          <AssignmentsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/homework">
+        <ProtectedRoute>
+          <HomeworkPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/child-profile">
+        <ProtectedRoute>
+          <ChildProfilePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/child-attendance">
+        <ProtectedRoute>
+          <ChildAttendancePage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/child-reports">
+        <ProtectedRoute>
+          <ChildReportCardsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/messages">
+        <ProtectedRoute>
+          <MessagesPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/messages/:id">
+        <ProtectedRoute>
+          <MessagesPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/announcements">
+        <ProtectedRoute>
+          <AnnouncementsPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/announcements/:id">
+        <ProtectedRoute>
+          <AnnouncementsPage />
+        </ProtectedRoute>
+      </Route>
       <Route path="/organization-pending">
         <ProtectedRoute>
           <OrganizationPendingPage />
@@ -200,6 +386,8 @@ function App() {
       <TooltipProvider>
         <Toaster />
         <SonnerToaster />
+        <SessionTimeoutManager />
+        <NotificationStreamManager />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
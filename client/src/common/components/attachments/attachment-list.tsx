@@ -0,0 +1,57 @@
+/**
+ * Attachment List
+ * Files attached to an assignment, a submission or a message, each a download link.
+ * Pass `onRemove` to offer removing them, e.g. while editing an assignment.
+ */
+
+import { Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Attachment } from "@/lib/api/schemas/common-schema";
+import { cn } from "@/lib/utils";
+import { formatFileSize } from "@/lib/utils/file-utils";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (attachment: Attachment) => void;
+  className?: string;
+}
+
+export function AttachmentList({ attachments, onRemove, className }: AttachmentListProps) {
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={cn("space-y-1", className)}>
+      {attachments.map((attachment) => (
+        <li key={attachment.public_id} className="flex items-center gap-2 text-sm">
+          <Paperclip className="text-muted-foreground h-3.5 w-3.5 shrink-0" />
+          <a
+            href={attachment.url}
+            download={attachment.file_name}
+            target="_blank"
+            rel="noreferrer"
+            className="truncate text-indigo-600 hover:underline"
+          >
+            {attachment.file_name}
+          </a>
+          <span className="text-muted-foreground shrink-0 text-xs">
+            {formatFileSize(attachment.file_size)}
+          </span>
+          {onRemove && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => onRemove(attachment)}
+              aria-label={`Remove ${attachment.file_name}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Attachment Picker
+ * Choose files to upload with an assignment, a submission or a message. Selected files
+ * are listed with their size and can be dropped again before saving.
+ */
+
+import { Paperclip, Upload, X } from "lucide-react";
+import { useRef, type ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { MAX_ATTACHMENT_SIZE_MB, MAX_ATTACHMENTS } from "@/constants/attachments";
+import { formatFileSize, getAttachmentError } from "@/lib/utils/file-utils";
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  existingCount?: number; // Attachments already saved, counted towards the limit
+  disabled?: boolean;
+}
+
+export function AttachmentPicker({
+  files,
+  onChange,
+  existingCount = 0,
+  disabled,
+}: AttachmentPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const error = getAttachmentError(files, existingCount);
+
+  const handleSelect = (event: ChangeEvent<HTMLInputElement>) => {
+    onChange([...files, ...Array.from(event.target.files ?? [])]);
+    // Allow picking the same file again after removing it
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-2">
+      <input ref={inputRef} type="file" multiple className="hidden" onChange={handleSelect} />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || existingCount + files.length >= MAX_ATTACHMENTS}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Attach Files
+      </Button>
+      <p className="text-muted-foreground text-xs">
+        Up to {MAX_ATTACHMENTS} files, {MAX_ATTACHMENT_SIZE_MB} MB each
+      </p>
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm">
+              <Paperclip className="text-muted-foreground h-3.5 w-3.5 shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <span className="text-muted-foreground shrink-0 text-xs">
+                {formatFileSize(file.size)}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Attachment Components
+ *
+ * Picking files to upload and listing uploaded ones as download links.
+ */
+
+export { AttachmentList } from "./attachment-list";
+export { AttachmentPicker } from "./attachment-picker";
@@ -0,0 +1,50 @@
+/**
+ * Child Switcher Component
+ * Tabs for parents with several children enrolled, or the only child's name
+ * and class otherwise. Pair with useSelectedChildId so every parent page
+ * shows the same child.
+ */
+
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export interface ChildOption {
+  public_id: string;
+  full_name: string;
+  class_label: string; // e.g. "Class 4 - A"
+  roll_number: string;
+}
+
+interface ChildSwitcherProps {
+  students: ChildOption[];
+  value: string;
+  onValueChange: (publicId: string) => void;
+}
+
+export function ChildSwitcher({ students, value, onValueChange }: ChildSwitcherProps) {
+  const selected = students.find((student) => student.public_id === value) ?? students[0];
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      {students.length > 1 ? (
+        <Tabs value={selected.public_id} onValueChange={onValueChange}>
+          <TabsList>
+            {students.map((student) => (
+              <TabsTrigger key={student.public_id} value={student.public_id}>
+                {student.full_name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      ) : (
+        <p className="font-semibold">{selected.full_name}</p>
+      )}
+      <p className="text-muted-foreground text-sm">
+        {selected.class_label} • Roll No. {selected.roll_number}
+      </p>
+    </div>
+  );
+}
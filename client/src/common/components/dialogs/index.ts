@@ -10,6 +10,7 @@ export type { BulkUploadError, BulkUploadResult, BulkUploadResponse } from './bu
 export { ConfirmationDialog } from './confirmation-dialog';
 export { SuccessMessage } from './success-message';
 export { SuccessDialog } from './success-dialog';
+export { SessionTimeoutDialog } from './session-timeout-dialog';
 export { DeleteConfirmationDialog } from './delete-confirmation-dialog';
 export { DeletedDuplicateDialog } from './deleted-duplicate-dialog';
 export type { DeletedDuplicateDialogProps } from './deleted-duplicate-dialog';
@@ -0,0 +1,48 @@
+/**
+ * Session Timeout Dialog Component
+ * Warns an idle user that they are about to be signed out and counts down
+ */
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface SessionTimeoutDialogProps {
+  open: boolean;
+  secondsRemaining: number;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+}
+
+export function SessionTimeoutDialog({
+  open,
+  secondsRemaining,
+  onStaySignedIn,
+  onSignOut,
+}: SessionTimeoutDialogProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You will be logged out in{" "}
+            <span className="font-semibold text-gray-900 tabular-nums">{secondsRemaining}s</span>{" "}
+            due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>Sign out now</AlertDialogCancel>
+          <AlertDialogAction onClick={onStaySignedIn}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
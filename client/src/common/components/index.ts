@@ -8,8 +8,11 @@
 export * from "./forms";
 export * from "./dialogs";
 export * from "./filters";
+export * from "./attachments";
 export { RoleDashboard } from "./role-dashboard";
 export { DeletedViewToggle } from "./deleted-view-toggle";
 export { PageWrapper } from "./page-wrapper";
 export { LoadingSpinner } from "./loading-spinner";
 export { ViewModeTabs } from "./view-mode-tabs";
+export { SessionTimeoutManager } from "./session-timeout-manager";
+export { ChildSwitcher, type ChildOption } from "./child-switcher";
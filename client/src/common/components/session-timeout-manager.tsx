@@ -0,0 +1,94 @@
+/**
+ * Session Timeout Manager
+ * Signs idle users out after the organization's configured idle timeout, with a
+ * countdown warning first, and refreshes the access token shortly before its
+ * `exp` so active users never hit an expired token.
+ * Rendered once at the app root; renders nothing until the warning is due.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useIdleTimeout } from "@/common/hooks/use-idle-timeout";
+import { useUser } from "@/core/contexts";
+import { useToast } from "@/hooks/use-toast";
+import { refreshAccessToken } from "@/lib/api";
+import { fetchGroupedPreferences, findPreferenceValue } from "@/lib/api/preferences-api";
+import { SESSION_CONFIG, STALE_TIMES } from "@/lib/constants";
+import { getTokenExpiry } from "@/lib/utils/jwt-utils";
+import { SessionTimeoutDialog } from "./dialogs";
+
+export function SessionTimeoutManager() {
+  const { user, tokens, logout } = useUser();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: preferencesResponse } = useQuery({
+    queryKey: ["organization-preferences"],
+    queryFn: fetchGroupedPreferences,
+    enabled: !!user,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const timeoutMinutes = Number(
+    findPreferenceValue(preferencesResponse?.data, SESSION_CONFIG.IDLE_TIMEOUT_PREFERENCE_KEY)
+  );
+  const timeoutMs = user && timeoutMinutes > 0 ? timeoutMinutes * 60 * 1000 : 0;
+
+  const handleSignOut = useCallback(() => {
+    logout();
+    setLocation("/auth");
+  }, [logout, setLocation]);
+
+  const handleTimeout = useCallback(() => {
+    toast({
+      title: "Session expired",
+      description: `You were logged out after ${timeoutMinutes} minutes of inactivity.`,
+    });
+    handleSignOut();
+  }, [handleSignOut, timeoutMinutes, toast]);
+
+  const { isWarning, secondsRemaining, staySignedIn, isActive } = useIdleTimeout({
+    timeoutMs,
+    warningMs: Math.min(SESSION_CONFIG.WARNING_SECONDS * 1000, timeoutMs),
+    onTimeout: handleTimeout,
+  });
+
+  // Refresh the access token just before it expires (immediately if it already has)
+  useEffect(() => {
+    if (!tokens?.access) {
+      return;
+    }
+
+    const expiry = getTokenExpiry(tokens.access);
+    if (!expiry) {
+      return;
+    }
+
+    const delay = Math.max(
+      expiry - SESSION_CONFIG.TOKEN_REFRESH_LEEWAY_SECONDS * 1000 - Date.now(),
+      0
+    );
+    const timer = setTimeout(() => {
+      // Idle sessions are left to expire; the idle timeout signs them out
+      if (isActive()) {
+        void refreshAccessToken();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [tokens?.access, isActive]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <SessionTimeoutDialog
+      open={isWarning}
+      secondsRemaining={secondsRemaining}
+      onStaySignedIn={staySignedIn}
+      onSignOut={handleSignOut}
+    />
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Track user inactivity across all open tabs.
+ * Activity (pointer, keyboard, scroll, touch) resets the idle clock and is
+ * broadcast to other tabs. Once the warning window starts, only an explicit
+ * `staySignedIn()` resets it, so a stray mouse move can't hide the warning.
+ * Usage: const { isWarning, secondsRemaining, staySignedIn } = useIdleTimeout({...});
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SESSION_CONFIG } from "@/lib/constants";
+import { broadcastSessionEvent, subscribeToSessionEvents } from "@/lib/session-channel";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const;
+
+interface UseIdleTimeoutOptions {
+  /** Idle time before sign-out, in ms; 0 disables the timeout */
+  timeoutMs: number;
+  /** How long before sign-out the warning is shown, in ms */
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+export function useIdleTimeout({ timeoutMs, warningMs, onTimeout }: UseIdleTimeoutOptions) {
+  const [secondsRemaining, setSecondsRemaining] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const lastBroadcastRef = useRef(0);
+  const isWarningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const isEnabled = timeoutMs > 0;
+
+  const recordActivity = useCallback((at: number = Date.now()) => {
+    lastActivityRef.current = Math.max(lastActivityRef.current, at);
+    isWarningRef.current = false;
+    setSecondsRemaining(null);
+  }, []);
+
+  const staySignedIn = useCallback(() => {
+    const now = Date.now();
+    recordActivity(now);
+    lastBroadcastRef.current = now;
+    broadcastSessionEvent({ type: "activity", at: now });
+  }, [recordActivity]);
+
+  // Local activity, throttled before it is shared with other tabs
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    const handleActivity = () => {
+      if (isWarningRef.current) {
+        return;
+      }
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastBroadcastRef.current >= SESSION_CONFIG.ACTIVITY_THROTTLE_MS) {
+        lastBroadcastRef.current = now;
+        broadcastSessionEvent({ type: "activity", at: now });
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [isEnabled]);
+
+  // Activity in another tab keeps this one alive too
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    return subscribeToSessionEvents((event) => {
+      if (event.type === "activity") {
+        recordActivity(event.at);
+      }
+    });
+  }, [isEnabled, recordActivity]);
+
+  // Tick once a second to drive the warning countdown and the sign-out
+  useEffect(() => {
+    if (!isEnabled) {
+      setSecondsRemaining(null);
+      return;
+    }
+
+    lastActivityRef.current = Date.now();
+
+    const interval = setInterval(() => {
+      const remainingMs = lastActivityRef.current + timeoutMs - Date.now();
+
+      if (remainingMs <= 0) {
+        clearInterval(interval);
+        isWarningRef.current = false;
+        setSecondsRemaining(null);
+        onTimeoutRef.current();
+        return;
+      }
+
+      if (remainingMs <= warningMs) {
+        isWarningRef.current = true;
+        setSecondsRemaining(Math.ceil(remainingMs / 1000));
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isEnabled, timeoutMs, warningMs]);
+
+  /**
+   * Whether the user has been active within the timeout window
+   */
+  const isActive = useCallback(
+    () => !isEnabled || Date.now() - lastActivityRef.current < timeoutMs,
+    [isEnabled, timeoutMs]
+  );
+
+  return {
+    isWarning: secondsRemaining !== null,
+    secondsRemaining: secondsRemaining ?? 0,
+    staySignedIn,
+    isActive,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Selected Child Hook
+ * The child a parent is looking at across the parent portal. The choice is
+ * kept for the browser session, so switching child on one page carries over
+ * to the next one the parent opens.
+ * Usage: const [selectedId, setSelectedId] = useSelectedChildId();
+ */
+
+import { useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "selectedChildId";
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getSelectedChildId(): string {
+  return sessionStorage.getItem(STORAGE_KEY) ?? "";
+}
+
+function setSelectedChildId(publicId: string): void {
+  sessionStorage.setItem(STORAGE_KEY, publicId);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Public id of the selected child, or "" before the parent picks one.
+ * Callers fall back to the first child when it is not one of theirs.
+ */
+export function useSelectedChildId(): [string, (publicId: string) => void] {
+  const selectedId = useSyncExternalStore(subscribe, getSelectedChildId);
+  return [selectedId, setSelectedChildId];
+}
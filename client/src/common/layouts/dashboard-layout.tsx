@@ -1,6 +1,8 @@
 /**
  * Dashboard Layout Component
- * Provides the common layout structure (sidebar + topbar) for all dashboard pages
+ * Provides the common layout structure (sidebar + topbar) for all dashboard pages.
+ * The topbar carries the notification bell, which keeps the live notification
+ * stream open for the signed-in user.
  */
 
 import { Building2, LogOut, Settings, User as UserIcon, ChevronDown } from "lucide-react";
@@ -16,6 +18,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useUser } from "@/core/contexts";
+import { UnreadMessagesButton } from "@/features/messages";
+import { NotificationBell } from "@/features/notifications";
 import { useToast } from "@/hooks/use-toast";
 import { AdminSidebar } from "@/modules/admin";
 import { ParentSidebar } from "@/modules/parent";
@@ -152,6 +156,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </div>
         <div className="flex items-center space-x-4">
+          <NotificationBell />
+          <UnreadMessagesButton />
           <div className="hidden text-right sm:block">
             <p className="text-sm font-medium text-white">{user.full_name}</p>
             <p className="text-xs text-white/70 capitalize">{user.role}</p>
@@ -17,7 +17,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useUser, type User, type Organization } from "@/core/contexts";
 import { useToast } from "@/hooks/use-toast";
-import { api, API_ENDPOINTS, saveTokens } from "@/lib/api";
+import { api, API_ENDPOINTS } from "@/lib/api";
 import { ErrorMessages, SuccessMessages, ValidationErrorMessages } from "@/lib/constants";
 
 const loginSchema = z.object({
@@ -53,11 +53,6 @@ export function LoginForm({ onForgotPassword }: LoginFormProps) {
         organization: unknown;
       };
 
-      // Save tokens to localStorage
-      if (result.tokens) {
-        saveTokens(result.tokens.access, result.tokens.refresh);
-      }
-
       setAuth(result.user as unknown as User, result.organization as Organization, result.tokens);
 
       toast({
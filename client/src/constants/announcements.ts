@@ -0,0 +1,75 @@
+/**
+ * Announcements Module Constants
+ * Centralized constants for announcements, circulars and their read receipts.
+ * Matches backend constants from edusphere.announcements.constants
+ */
+
+/**
+ * Where an announcement is in its lifetime, derived from its publish and
+ * expiry times
+ * Matches backend AnnouncementStatus enum
+ */
+export const AnnouncementStatus = {
+  SCHEDULED: "SCHEDULED", // Publish time still ahead
+  PUBLISHED: "PUBLISHED", // Visible to its audience
+  EXPIRED: "EXPIRED", // Past its expiry time
+} as const;
+
+export type AnnouncementStatusValue = (typeof AnnouncementStatus)[keyof typeof AnnouncementStatus];
+
+/**
+ * Announcement status display labels
+ */
+export const AnnouncementStatusLabels: Record<AnnouncementStatusValue, string> = {
+  [AnnouncementStatus.SCHEDULED]: "Scheduled",
+  [AnnouncementStatus.PUBLISHED]: "Published",
+  [AnnouncementStatus.EXPIRED]: "Expired",
+};
+
+/**
+ * Announcement status badge colors
+ */
+export const AnnouncementStatusColors: Record<AnnouncementStatusValue, string> = {
+  [AnnouncementStatus.SCHEDULED]: "bg-blue-100 text-blue-800",
+  [AnnouncementStatus.PUBLISHED]: "bg-green-100 text-green-800",
+  [AnnouncementStatus.EXPIRED]: "bg-gray-100 text-gray-800",
+};
+
+/**
+ * How far a recipient has got with an announcement
+ * Matches backend ReceiptStatus enum
+ */
+export const ReceiptStatus = {
+  UNREAD: "UNREAD", // Not opened yet
+  READ: "READ", // Opened, not acknowledged
+  ACKNOWLEDGED: "ACKNOWLEDGED",
+} as const;
+
+export type ReceiptStatusValue = (typeof ReceiptStatus)[keyof typeof ReceiptStatus];
+
+/**
+ * Receipt status display labels
+ */
+export const ReceiptStatusLabels: Record<ReceiptStatusValue, string> = {
+  [ReceiptStatus.UNREAD]: "Not Opened",
+  [ReceiptStatus.READ]: "Opened",
+  [ReceiptStatus.ACKNOWLEDGED]: "Acknowledged",
+};
+
+/**
+ * Receipt status badge colors
+ */
+export const ReceiptStatusColors: Record<ReceiptStatusValue, string> = {
+  [ReceiptStatus.UNREAD]: "bg-red-100 text-red-800",
+  [ReceiptStatus.READ]: "bg-yellow-100 text-yellow-800",
+  [ReceiptStatus.ACKNOWLEDGED]: "bg-green-100 text-green-800",
+};
+
+/**
+ * App roles an announcement can be addressed to
+ */
+export const AnnouncementAudienceRoles = [
+  { value: "admin", label: "Admins" },
+  { value: "teacher", label: "Teachers" },
+  { value: "parent", label: "Parents" },
+] as const;
@@ -0,0 +1,41 @@
+/**
+ * Assignments Module Constants
+ * Centralized constants for homework assignments and student submissions.
+ * Matches backend constants from edusphere.assignments.constants
+ */
+
+/**
+ * Where a student stands on an assignment
+ * Matches backend SubmissionStatus enum
+ */
+export const SubmissionStatus = {
+  PENDING: "PENDING", // Not handed in, due date not yet passed
+  OVERDUE: "OVERDUE", // Not handed in, past the due date
+  SUBMITTED: "SUBMITTED", // Handed in on time, awaiting grading
+  LATE: "LATE", // Handed in after the due date, awaiting grading
+  GRADED: "GRADED", // Marks or feedback given
+} as const;
+
+export type SubmissionStatusValue = (typeof SubmissionStatus)[keyof typeof SubmissionStatus];
+
+/**
+ * Submission status display labels
+ */
+export const SubmissionStatusLabels: Record<SubmissionStatusValue, string> = {
+  [SubmissionStatus.PENDING]: "Pending",
+  [SubmissionStatus.OVERDUE]: "Overdue",
+  [SubmissionStatus.SUBMITTED]: "Submitted",
+  [SubmissionStatus.LATE]: "Submitted Late",
+  [SubmissionStatus.GRADED]: "Graded",
+};
+
+/**
+ * Submission status badge colors
+ */
+export const SubmissionStatusColors: Record<SubmissionStatusValue, string> = {
+  [SubmissionStatus.PENDING]: "bg-blue-100 text-blue-800",
+  [SubmissionStatus.OVERDUE]: "bg-red-100 text-red-800",
+  [SubmissionStatus.SUBMITTED]: "bg-yellow-100 text-yellow-800",
+  [SubmissionStatus.LATE]: "bg-orange-100 text-orange-800",
+  [SubmissionStatus.GRADED]: "bg-green-100 text-green-800",
+};
@@ -0,0 +1,8 @@
+/**
+ * Attachment Constants
+ * Upload limits for files attached to homework, submissions and messages.
+ * Matches backend constants from edusphere.core.constants
+ */
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE_MB = 10;
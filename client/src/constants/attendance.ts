@@ -15,7 +15,7 @@ export const SaturdayOffPattern = {
   NONE: "NONE",
 } as const;
 
-export type SaturdayOffPatternType = typeof SaturdayOffPattern[keyof typeof SaturdayOffPattern];
+export type SaturdayOffPatternType = (typeof SaturdayOffPattern)[keyof typeof SaturdayOffPattern];
 
 /**
  * Saturday off pattern display labels
@@ -41,7 +41,7 @@ export const HolidayType = {
   OTHER: "OTHER",
 } as const;
 
-export type HolidayTypeValue = typeof HolidayType[keyof typeof HolidayType];
+export type HolidayTypeValue = (typeof HolidayType)[keyof typeof HolidayType];
 
 /**
  * Holiday type display labels
@@ -65,7 +65,8 @@ export const AttendancePreferenceType = {
   ANY_TEACHER: "ANY_TEACHER",
 } as const;
 
-export type AttendancePreferenceTypeValue = typeof AttendancePreferenceType[keyof typeof AttendancePreferenceType];
+export type AttendancePreferenceTypeValue =
+  (typeof AttendancePreferenceType)[keyof typeof AttendancePreferenceType];
 
 /**
  * Attendance preference type display labels
@@ -74,3 +75,116 @@ export const AttendancePreferenceTypeLabels: Record<AttendancePreferenceTypeValu
   [AttendancePreferenceType.CLASS_TEACHER_ONLY]: "Class Teacher Only",
   [AttendancePreferenceType.ANY_TEACHER]: "Any Teacher from Organization",
 };
+
+/**
+ * Student attendance statuses used when a teacher marks the class roll
+ * Matches backend StudentAttendanceStatus enum
+ */
+export const StudentAttendanceStatus = {
+  PRESENT: "PRESENT",
+  ABSENT: "ABSENT",
+  LATE: "LATE",
+  ON_LEAVE: "ON_LEAVE",
+} as const;
+
+export type StudentAttendanceStatusValue =
+  (typeof StudentAttendanceStatus)[keyof typeof StudentAttendanceStatus];
+
+/**
+ * Student attendance status display labels
+ */
+export const StudentAttendanceStatusLabels: Record<StudentAttendanceStatusValue, string> = {
+  [StudentAttendanceStatus.PRESENT]: "Present",
+  [StudentAttendanceStatus.ABSENT]: "Absent",
+  [StudentAttendanceStatus.LATE]: "Late",
+  [StudentAttendanceStatus.ON_LEAVE]: "On Leave",
+};
+
+/**
+ * Student attendance status badge colors
+ */
+export const StudentAttendanceStatusColors: Record<StudentAttendanceStatusValue, string> = {
+  [StudentAttendanceStatus.PRESENT]: "bg-green-100 text-green-800",
+  [StudentAttendanceStatus.ABSENT]: "bg-red-100 text-red-800",
+  [StudentAttendanceStatus.LATE]: "bg-yellow-100 text-yellow-800",
+  [StudentAttendanceStatus.ON_LEAVE]: "bg-blue-100 text-blue-800",
+};
+
+/**
+ * Staff attendance record statuses
+ * Matches backend AttendanceStatus enum
+ */
+export const AttendanceStatus = {
+  PRESENT: "PRESENT",
+  ABSENT: "ABSENT",
+  HALF_DAY: "HALF_DAY",
+  ON_LEAVE: "ON_LEAVE",
+} as const;
+
+export type AttendanceStatusValue = (typeof AttendanceStatus)[keyof typeof AttendanceStatus];
+
+/**
+ * Staff attendance status display labels
+ */
+export const AttendanceStatusLabels: Record<AttendanceStatusValue, string> = {
+  [AttendanceStatus.PRESENT]: "Present",
+  [AttendanceStatus.ABSENT]: "Absent",
+  [AttendanceStatus.HALF_DAY]: "Half Day",
+  [AttendanceStatus.ON_LEAVE]: "On Leave",
+};
+
+/**
+ * Staff attendance status badge colors
+ */
+export const AttendanceStatusColors: Record<AttendanceStatusValue, string> = {
+  [AttendanceStatus.PRESENT]: "bg-green-100 text-green-800",
+  [AttendanceStatus.ABSENT]: "bg-red-100 text-red-800",
+  [AttendanceStatus.HALF_DAY]: "bg-yellow-100 text-yellow-800",
+  [AttendanceStatus.ON_LEAVE]: "bg-blue-100 text-blue-800",
+};
+
+/**
+ * Attendance regularization request types
+ * Matches backend RegularizationType enum
+ */
+export const RegularizationType = {
+  MISSED_CHECK_IN: "MISSED_CHECK_IN",
+  MISSED_CHECK_OUT: "MISSED_CHECK_OUT",
+  WRONG_PUNCH_TIME: "WRONG_PUNCH_TIME",
+  STATUS_CHANGE: "STATUS_CHANGE",
+} as const;
+
+export type RegularizationTypeValue = (typeof RegularizationType)[keyof typeof RegularizationType];
+
+/**
+ * Regularization type display labels
+ */
+export const RegularizationTypeLabels: Record<RegularizationTypeValue, string> = {
+  [RegularizationType.MISSED_CHECK_IN]: "Missed Check-in",
+  [RegularizationType.MISSED_CHECK_OUT]: "Missed Check-out",
+  [RegularizationType.WRONG_PUNCH_TIME]: "Wrong Punch Time",
+  [RegularizationType.STATUS_CHANGE]: "Status Change",
+};
+
+/**
+ * Attendance regularization request statuses
+ */
+export const RegularizationStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  CANCELLED: "cancelled",
+} as const;
+
+export type RegularizationStatusValue =
+  (typeof RegularizationStatus)[keyof typeof RegularizationStatus];
+
+/**
+ * Regularization status display labels
+ */
+export const RegularizationStatusLabels: Record<RegularizationStatusValue, string> = {
+  [RegularizationStatus.PENDING]: "Pending",
+  [RegularizationStatus.APPROVED]: "Approved",
+  [RegularizationStatus.REJECTED]: "Rejected",
+  [RegularizationStatus.CANCELLED]: "Cancelled",
+};
@@ -0,0 +1,41 @@
+/**
+ * Exams Module Constants
+ * Centralized constants for exam terms, marks entry and grade scales.
+ * Matches backend constants from edusphere.exams.constants
+ */
+
+/**
+ * Lifecycle of an exam term
+ * Matches backend ExamStatus enum
+ */
+export const ExamStatus = {
+  DRAFT: "DRAFT", // Marks entry open
+  LOCKED: "LOCKED", // Marks frozen for review
+  PUBLISHED: "PUBLISHED", // Results visible to parents
+} as const;
+
+export type ExamStatusValue = (typeof ExamStatus)[keyof typeof ExamStatus];
+
+/**
+ * Exam status display labels
+ */
+export const ExamStatusLabels: Record<ExamStatusValue, string> = {
+  [ExamStatus.DRAFT]: "Marks Entry Open",
+  [ExamStatus.LOCKED]: "Locked",
+  [ExamStatus.PUBLISHED]: "Published",
+};
+
+/**
+ * Exam status badge colors
+ */
+export const ExamStatusColors: Record<ExamStatusValue, string> = {
+  [ExamStatus.DRAFT]: "bg-blue-100 text-blue-800",
+  [ExamStatus.LOCKED]: "bg-yellow-100 text-yellow-800",
+  [ExamStatus.PUBLISHED]: "bg-green-100 text-green-800",
+};
+
+/**
+ * Defaults applied to every paper when an exam term is created
+ */
+export const DEFAULT_MAX_MARKS = 100;
+export const DEFAULT_PASS_PERCENTAGE = 33;
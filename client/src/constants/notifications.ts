@@ -0,0 +1,26 @@
+/**
+ * Notifications Module Constants
+ * Centralized constants for in-app notifications and their live stream.
+ * Matches backend constants from edusphere.notifications.constants
+ */
+
+/**
+ * What a notification is about; decides its icon and which cached data is
+ * refreshed when it arrives
+ * Matches backend NotificationType enum
+ */
+export const NotificationType = {
+  LEAVE_APPROVED: "LEAVE_APPROVED", // Your leave request was approved
+  LEAVE_REJECTED: "LEAVE_REJECTED", // Your leave request was rejected
+  LEAVE_REVIEW_REQUESTED: "LEAVE_REVIEW_REQUESTED", // Someone you supervise applied for leave
+  LEAVE_BALANCE_CHANGED: "LEAVE_BALANCE_CHANGED", // An admin changed one of your leave balances
+  ANNOUNCEMENT: "ANNOUNCEMENT", // An announcement addressed to you went live
+  SUBSTITUTION_ASSIGNED: "SUBSTITUTION_ASSIGNED", // You were assigned to cover a period
+} as const;
+
+export type NotificationTypeValue = (typeof NotificationType)[keyof typeof NotificationType];
+
+/**
+ * Server-sent event name the stream uses for new notifications
+ */
+export const NOTIFICATION_STREAM_EVENT = "notification";
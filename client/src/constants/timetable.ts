@@ -0,0 +1,82 @@
+/**
+ * Timetable Module Constants
+ * Centralized constants for the weekly timetable builder and views.
+ * Matches backend constants from edusphere.timetable.constants
+ */
+
+/**
+ * Days a timetable can be scheduled on (ISO weekday numbers)
+ * Matches backend DayOfWeek enum
+ */
+export const DayOfWeek = {
+  MONDAY: 1,
+  TUESDAY: 2,
+  WEDNESDAY: 3,
+  THURSDAY: 4,
+  FRIDAY: 5,
+  SATURDAY: 6,
+} as const;
+
+export type DayOfWeekValue = (typeof DayOfWeek)[keyof typeof DayOfWeek];
+
+/**
+ * Day display labels
+ */
+export const DayOfWeekLabels: Record<DayOfWeekValue, string> = {
+  [DayOfWeek.MONDAY]: "Monday",
+  [DayOfWeek.TUESDAY]: "Tuesday",
+  [DayOfWeek.WEDNESDAY]: "Wednesday",
+  [DayOfWeek.THURSDAY]: "Thursday",
+  [DayOfWeek.FRIDAY]: "Friday",
+  [DayOfWeek.SATURDAY]: "Saturday",
+};
+
+/**
+ * Days shown as timetable columns, in order
+ */
+export const TIMETABLE_DAYS: DayOfWeekValue[] = Object.values(DayOfWeek);
+
+/**
+ * Kinds of scheduling clash detected by the timetable builder
+ */
+export const TimetableConflictType = {
+  TEACHER_DOUBLE_BOOKED: "TEACHER_DOUBLE_BOOKED",
+  ROOM_DOUBLE_BOOKED: "ROOM_DOUBLE_BOOKED",
+  SUBJECT_OVER_SCHEDULED: "SUBJECT_OVER_SCHEDULED",
+} as const;
+
+export type TimetableConflictTypeValue =
+  (typeof TimetableConflictType)[keyof typeof TimetableConflictType];
+
+/**
+ * Conflict type display labels
+ */
+export const TimetableConflictTypeLabels: Record<TimetableConflictTypeValue, string> = {
+  [TimetableConflictType.TEACHER_DOUBLE_BOOKED]: "Teacher double-booked",
+  [TimetableConflictType.ROOM_DOUBLE_BOOKED]: "Room double-booked",
+  [TimetableConflictType.SUBJECT_OVER_SCHEDULED]: "Subject over-scheduled",
+};
+
+/**
+ * Most periods a section may have of the same subject on one day
+ */
+export const MAX_SUBJECT_PERIODS_PER_DAY = 2;
+
+/**
+ * Cover status of a period left uncovered by an approved teacher leave
+ * Matches backend SubstitutionStatus enum
+ */
+export const SubstitutionStatus = {
+  UNCOVERED: "UNCOVERED",
+  ASSIGNED: "ASSIGNED",
+} as const;
+
+export type SubstitutionStatusValue = (typeof SubstitutionStatus)[keyof typeof SubstitutionStatus];
+
+/**
+ * Substitution status display labels
+ */
+export const SubstitutionStatusLabels: Record<SubstitutionStatusValue, string> = {
+  [SubstitutionStatus.UNCOVERED]: "Uncovered",
+  [SubstitutionStatus.ASSIGNED]: "Cover Assigned",
+};
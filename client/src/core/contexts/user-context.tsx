@@ -1,5 +1,8 @@
-import { createContext, useContext, useState, useEffect } from "react";
+import { createContext, useContext, useState, useEffect, useRef } from "react";
+import { api, API_ENDPOINTS } from "@/lib/api";
 import { ERROR_MESSAGES } from "@/lib/constants";
+import { broadcastSessionEvent, subscribeToSessionEvents } from "@/lib/session-channel";
+import { clearTokens, getTokens, saveTokens, subscribeToTokens } from "@/lib/token-store";
 import type { ReactNode } from "react";
 
 export type UserRole = "admin" | "teacher" | "parent";
@@ -24,6 +27,8 @@ export interface User {
   email: string;
   role: UserRole;
   full_name: string;
+  organization_role_code?: string | null; // e.g. PRINCIPAL, HOD (see ORGANIZATION_ROLE_CODES)
+  teacher_public_id?: string | null; // Teacher record public_id, set for teachers only
 }
 
 export interface AuthTokens {
@@ -46,51 +51,69 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [tokens, setTokens] = useState<AuthTokens | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  // Whether this tab holds a session, so a cleared token store means "signed out elsewhere"
+  const hasSessionRef = useRef(false);
 
   // Restore auth state from localStorage on mount
   useEffect(() => {
     const storedUser = localStorage.getItem("user");
     const storedOrg = localStorage.getItem("organization");
-    const accessToken = localStorage.getItem("accessToken");
-    const refreshToken = localStorage.getItem("refreshToken");
+    const storedTokens = getTokens();
 
-    if (storedUser && storedOrg && accessToken && refreshToken) {
+    if (storedUser && storedOrg && storedTokens) {
       try {
         setUser(JSON.parse(storedUser));
         setOrganization(JSON.parse(storedOrg));
-        setTokens({ access: accessToken, refresh: refreshToken });
+        setTokens(storedTokens);
+        hasSessionRef.current = true;
       } catch (error) {
         console.error("Failed to restore auth state:", error);
         // Clear corrupted data
         localStorage.removeItem("user");
         localStorage.removeItem("organization");
-        localStorage.removeItem("accessToken");
-        localStorage.removeItem("refreshToken");
+        clearTokens();
       }
     }
     setIsInitialized(true);
   }, []);
 
-  // Listen for storage changes in other tabs (cross-tab logout)
+  // Follow the token store and the session channel: refreshed tokens update
+  // state, while cleared tokens (failed refresh) or a logout broadcast from
+  // another tab sign this tab out
   useEffect(() => {
-    const handleStorageChange = (event: StorageEvent) => {
-      // If accessToken is removed in another tab, logout this tab too
-      if (event.key === "accessToken" && event.newValue === null) {
-        // Clear state in this tab
-        setUser(null);
-        setOrganization(null);
-        setTokens(null);
-
-        // Redirect to login page
-        window.location.href = "/auth";
+    const endSession = () => {
+      if (!hasSessionRef.current) {
+        return;
       }
+
+      // Clear state in this tab
+      hasSessionRef.current = false;
+      setUser(null);
+      setOrganization(null);
+      setTokens(null);
+      localStorage.removeItem("user");
+      localStorage.removeItem("organization");
+
+      // Redirect to login page
+      window.location.href = "/auth";
     };
 
-    // Listen for storage events from other tabs
-    window.addEventListener("storage", handleStorageChange);
+    const unsubscribeTokens = subscribeToTokens((nextTokens) => {
+      if (nextTokens) {
+        setTokens(nextTokens);
+        return;
+      }
+      endSession();
+    });
+    const unsubscribeSession = subscribeToSessionEvents((event) => {
+      if (event.type === "logout") {
+        endSession();
+      }
+    });
 
     return () => {
-      window.removeEventListener("storage", handleStorageChange);
+      unsubscribeTokens();
+      unsubscribeSession();
     };
   }, []);
 
@@ -100,30 +123,20 @@ export function UserProvider({ children }: { children: ReactNode }) {
     setTokens(tokens);
     localStorage.setItem("user", JSON.stringify(user));
     localStorage.setItem("organization", JSON.stringify(organization));
-    localStorage.setItem("accessToken", tokens.access);
-    localStorage.setItem("refreshToken", tokens.refresh);
+    saveTokens(tokens.access, tokens.refresh);
+    hasSessionRef.current = true;
   };
 
   const logout = async () => {
+    // Signing out on purpose; don't treat the cleared token store as a remote logout
+    hasSessionRef.current = false;
+    broadcastSessionEvent({ type: "logout" });
+
     // Call backend logout API to invalidate token
     try {
-      const accessToken = localStorage.getItem("accessToken");
-      const refreshToken = localStorage.getItem("refreshToken");
-      if (accessToken && refreshToken) {
-        await fetch(
-          `${import.meta.env.VITE_API_BASE_URL || "http://localhost:8000"}/api/auth/logout/`,
-          {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              access: accessToken,
-              refresh: refreshToken,
-            }),
-          }
-        );
+      const storedTokens = getTokens();
+      if (storedTokens) {
+        await api.post(API_ENDPOINTS.auth.logout, storedTokens);
       }
     } catch (error) {
       // Ignore errors, proceed with logout anyway
@@ -136,8 +149,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
     setTokens(null);
     localStorage.removeItem("user");
     localStorage.removeItem("organization");
-    localStorage.removeItem("accessToken");
-    localStorage.removeItem("refreshToken");
+    clearTokens();
 
     // Clear history to prevent back navigation
     window.history.pushState(null, "", "/auth");
@@ -0,0 +1,19 @@
+/**
+ * Can Component
+ * Renders its children only when the signed-in user holds the permission
+ */
+
+import { usePermissions } from "./use-permissions";
+import type { Permission } from "./permission-map";
+import type { ReactNode } from "react";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export function Can({ permission, children, fallback = null }: CanProps) {
+  const { can } = usePermissions();
+  return <>{can(permission) ? children : fallback}</>;
+}
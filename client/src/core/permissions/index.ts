@@ -0,0 +1,19 @@
+/**
+ * Core Permissions
+ *
+ * Declarative role and organization-role based access control shared by the
+ * router, sidebars and action buttons.
+ */
+
+export {
+  canAccessRoute,
+  filterMenuItems,
+  getRoutePermission,
+  hasPermission,
+  PERMISSION_RULES,
+  PERMISSIONS,
+  ROUTE_PERMISSIONS,
+} from "./permission-map";
+export type { Permission } from "./permission-map";
+export { usePermissions } from "./use-permissions";
+export { Can } from "./can";
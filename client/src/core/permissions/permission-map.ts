@@ -0,0 +1,209 @@
+/**
+ * Permission Map
+ * Declarative source of truth for who can do what. Each permission is granted
+ * to app roles (`UserRole`) and/or organization role codes
+ * (`ORGANIZATION_ROLE_CODES`), so a teacher who is also an HOD can review leave
+ * without being an admin. Routes, sidebars and action buttons all read from here.
+ */
+
+import type { User, UserRole } from "@/core/contexts";
+import { ORGANIZATION_ROLE_CODES, type OrganizationRoleCode } from "@/lib/constants";
+
+export const PERMISSIONS = {
+  ORGANIZATION_CALENDAR_MANAGE: "organization_calendar.manage",
+  PREFERENCES_MANAGE: "preferences.manage",
+  LEAVE_ALLOCATIONS_MANAGE: "leave_allocations.manage",
+  EXCEPTIONAL_WORK_MANAGE: "exceptional_work.manage",
+  TEACHERS_VIEW: "teachers.view",
+  TEACHERS_MANAGE: "teachers.manage",
+  CLASSES_VIEW: "classes.view",
+  CLASSES_MANAGE: "classes.manage",
+  SUBJECTS_VIEW: "subjects.view",
+  SUBJECTS_MANAGE: "subjects.manage",
+  STUDENTS_VIEW: "students.view",
+  STUDENTS_MANAGE: "students.manage",
+  STAFF_ATTENDANCE_VIEW: "staff_attendance.view",
+  STAFF_ATTENDANCE_MANAGE: "staff_attendance.manage",
+  REGULARIZATIONS_REVIEW: "regularizations.review",
+  MY_ATTENDANCE: "my_attendance.access",
+  STUDENT_ATTENDANCE_MARK: "student_attendance.mark",
+  LEAVE_REQUESTS_REVIEW: "leave_requests.review",
+  LEAVE_BALANCES_MANAGE: "leave_balances.manage",
+  MY_LEAVE_REQUESTS: "my_leave_requests.access",
+  TIMETABLE_MANAGE: "timetable.manage",
+  SUBSTITUTIONS_MANAGE: "substitutions.manage",
+  MY_SCHEDULE: "my_schedule.access",
+  CHILD_TIMETABLE: "child_timetable.access",
+  EXAMS_MANAGE: "exams.manage",
+  MARKS_ENTRY: "marks_entry.access",
+  ACADEMIC_PROGRESS: "academic_progress.access",
+  REPORT_CARDS: "report_cards.access",
+  REPORT_CARD_LAYOUT_MANAGE: "report_card_layout.manage",
+  ASSIGNMENTS_MANAGE: "assignments.manage",
+  CHILD_HOMEWORK: "child_homework.access",
+  CHILD_PROFILE: "child_profile.access",
+  CHILD_ATTENDANCE: "child_attendance.access",
+  CHILD_REPORT_CARDS: "child_report_cards.access",
+  MESSAGES: "messages.access",
+  ANNOUNCEMENTS_MANAGE: "announcements.manage",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+interface PermissionRule {
+  roles: UserRole[];
+  organizationRoles?: OrganizationRoleCode[];
+}
+
+const SCHOOL_LEADERSHIP: OrganizationRoleCode[] = [
+  ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+];
+
+const ACADEMIC_LEADERSHIP: OrganizationRoleCode[] = [
+  ...SCHOOL_LEADERSHIP,
+  ORGANIZATION_ROLE_CODES.HOD,
+  ORGANIZATION_ROLE_CODES.COORDINATOR,
+];
+
+export const PERMISSION_RULES: Record<Permission, PermissionRule> = {
+  [PERMISSIONS.ORGANIZATION_CALENDAR_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.PREFERENCES_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.LEAVE_ALLOCATIONS_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.EXCEPTIONAL_WORK_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.TEACHERS_VIEW]: { roles: ["admin"], organizationRoles: ACADEMIC_LEADERSHIP },
+  [PERMISSIONS.TEACHERS_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.CLASSES_VIEW]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.CLASSES_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.SUBJECTS_VIEW]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.SUBJECTS_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.STUDENTS_VIEW]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.STUDENTS_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.STAFF_ATTENDANCE_VIEW]: { roles: ["admin"], organizationRoles: SCHOOL_LEADERSHIP },
+  [PERMISSIONS.STAFF_ATTENDANCE_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.REGULARIZATIONS_REVIEW]: {
+    roles: ["admin"],
+    organizationRoles: ACADEMIC_LEADERSHIP,
+  },
+  [PERMISSIONS.MY_ATTENDANCE]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.STUDENT_ATTENDANCE_MARK]: { roles: ["teacher"] },
+  [PERMISSIONS.LEAVE_REQUESTS_REVIEW]: {
+    roles: ["admin"],
+    organizationRoles: ACADEMIC_LEADERSHIP,
+  },
+  [PERMISSIONS.LEAVE_BALANCES_MANAGE]: {
+    roles: ["admin"],
+    organizationRoles: [ORGANIZATION_ROLE_CODES.ACCOUNTANT],
+  },
+  [PERMISSIONS.MY_LEAVE_REQUESTS]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.TIMETABLE_MANAGE]: { roles: ["admin"], organizationRoles: ACADEMIC_LEADERSHIP },
+  [PERMISSIONS.SUBSTITUTIONS_MANAGE]: {
+    roles: ["admin"],
+    organizationRoles: ACADEMIC_LEADERSHIP,
+  },
+  [PERMISSIONS.MY_SCHEDULE]: { roles: ["teacher"] },
+  [PERMISSIONS.CHILD_TIMETABLE]: { roles: ["parent"] },
+  [PERMISSIONS.EXAMS_MANAGE]: { roles: ["admin"], organizationRoles: ACADEMIC_LEADERSHIP },
+  [PERMISSIONS.MARKS_ENTRY]: { roles: ["teacher"] },
+  [PERMISSIONS.ACADEMIC_PROGRESS]: { roles: ["parent"] },
+  [PERMISSIONS.REPORT_CARDS]: { roles: ["admin", "teacher"] },
+  [PERMISSIONS.REPORT_CARD_LAYOUT_MANAGE]: { roles: ["admin"] },
+  [PERMISSIONS.ASSIGNMENTS_MANAGE]: { roles: ["teacher"] },
+  [PERMISSIONS.CHILD_HOMEWORK]: { roles: ["parent"] },
+  [PERMISSIONS.CHILD_PROFILE]: { roles: ["parent"] },
+  [PERMISSIONS.CHILD_ATTENDANCE]: { roles: ["parent"] },
+  [PERMISSIONS.CHILD_REPORT_CARDS]: { roles: ["parent"] },
+  [PERMISSIONS.MESSAGES]: { roles: ["parent", "teacher"] },
+  [PERMISSIONS.ANNOUNCEMENTS_MANAGE]: { roles: ["admin"], organizationRoles: SCHOOL_LEADERSHIP },
+};
+
+/**
+ * Permission required to open a route, keyed by its first path segment.
+ * Routes not listed here only require a signed-in user.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  organization: PERMISSIONS.ORGANIZATION_CALENDAR_MANAGE,
+  preferences: PERMISSIONS.PREFERENCES_MANAGE,
+  allocations: PERMISSIONS.LEAVE_ALLOCATIONS_MANAGE,
+  "leave-accruals": PERMISSIONS.LEAVE_ALLOCATIONS_MANAGE,
+  "leave-rollover": PERMISSIONS.LEAVE_ALLOCATIONS_MANAGE,
+  "exceptional-work": PERMISSIONS.EXCEPTIONAL_WORK_MANAGE,
+  teachers: PERMISSIONS.TEACHERS_VIEW,
+  classes: PERMISSIONS.CLASSES_VIEW,
+  subjects: PERMISSIONS.SUBJECTS_VIEW,
+  students: PERMISSIONS.STUDENTS_VIEW,
+  attendance: PERMISSIONS.STAFF_ATTENDANCE_VIEW,
+  "regularization-reviews": PERMISSIONS.REGULARIZATIONS_REVIEW,
+  "my-attendance": PERMISSIONS.MY_ATTENDANCE,
+  "mark-attendance": PERMISSIONS.STUDENT_ATTENDANCE_MARK,
+  "leave-request-reviews": PERMISSIONS.LEAVE_REQUESTS_REVIEW,
+  "manage-leave-balances": PERMISSIONS.LEAVE_BALANCES_MANAGE,
+  "leave-requests": PERMISSIONS.MY_LEAVE_REQUESTS,
+  timetable: PERMISSIONS.TIMETABLE_MANAGE,
+  substitutions: PERMISSIONS.SUBSTITUTIONS_MANAGE,
+  schedule: PERMISSIONS.MY_SCHEDULE,
+  "child-timetable": PERMISSIONS.CHILD_TIMETABLE,
+  exams: PERMISSIONS.EXAMS_MANAGE,
+  "marks-entry": PERMISSIONS.MARKS_ENTRY,
+  progress: PERMISSIONS.ACADEMIC_PROGRESS,
+  "report-cards": PERMISSIONS.REPORT_CARDS,
+  assignments: PERMISSIONS.ASSIGNMENTS_MANAGE,
+  homework: PERMISSIONS.CHILD_HOMEWORK,
+  "child-profile": PERMISSIONS.CHILD_PROFILE,
+  "child-attendance": PERMISSIONS.CHILD_ATTENDANCE,
+  "child-reports": PERMISSIONS.CHILD_REPORT_CARDS,
+  messages: PERMISSIONS.MESSAGES,
+  announcements: PERMISSIONS.ANNOUNCEMENTS_MANAGE,
+};
+
+/**
+ * Check whether a user holds a permission
+ */
+export function hasPermission(user: User | null, permission: Permission): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const rule = PERMISSION_RULES[permission];
+  if (rule.roles.includes(user.role)) {
+    return true;
+  }
+
+  const roleCode = user.organization_role_code as OrganizationRoleCode | null | undefined;
+  return !!roleCode && !!rule.organizationRoles?.includes(roleCode);
+}
+
+/**
+ * Get the permission required for a path or sidebar menu id, if any
+ */
+export function getRoutePermission(path: string): Permission | undefined {
+  const segment = path.replace(/^\/+/, "").split("/")[0];
+  return ROUTE_PERMISSIONS[segment];
+}
+
+/**
+ * Check whether a user may open a path or sidebar menu id
+ */
+export function canAccessRoute(user: User | null, path: string): boolean {
+  const permission = getRoutePermission(path);
+  return !permission || hasPermission(user, permission);
+}
+
+/**
+ * Drop menu items the user can't open, along with section dividers that end
+ * up with no items under them
+ */
+export function filterMenuItems<T extends { id?: string; divider?: boolean }>(
+  items: T[],
+  user: User | null
+): T[] {
+  const visible = items.filter((item) => item.divider || !item.id || canAccessRoute(user, item.id));
+
+  return visible.filter((item, index) => {
+    if (!item.divider) {
+      return true;
+    }
+    const next = visible[index + 1];
+    return !!next && !next.divider;
+  });
+}
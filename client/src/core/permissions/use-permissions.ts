@@ -0,0 +1,18 @@
+/**
+ * Permission checks for the signed-in user
+ * Usage: const { can } = usePermissions(); if (can(PERMISSIONS.TEACHERS_MANAGE)) ...
+ */
+
+import { useCallback } from "react";
+import { useUser } from "@/core/contexts";
+import { canAccessRoute, hasPermission, type Permission } from "./permission-map";
+
+export function usePermissions() {
+  const { user } = useUser();
+
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+
+  const canAccess = useCallback((path: string) => canAccessRoute(user, path), [user]);
+
+  return { can, canAccess };
+}
@@ -0,0 +1,349 @@
+/**
+ * Announcement Form Dialog
+ * Compose or edit an announcement: who it is for (roles, organization roles,
+ * whole classes or single sections), whether recipients must acknowledge it,
+ * and when it is published and expires
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Megaphone } from "lucide-react";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { useOrganizationRoles } from "@/common/components/forms";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AnnouncementAudienceRoles } from "@/constants/announcements";
+import type { Announcement } from "@/lib/api/announcement-api";
+import { useClasses } from "@/lib/hooks/use-shared-queries";
+import { fromDateTimeInput, toDateTimeInput } from "../../helpers/announcement-helpers";
+import { useSaveAnnouncement } from "../../hooks/use-announcements";
+import {
+  announcementFormSchema,
+  type AnnouncementFormValues,
+} from "../../schemas/announcement-form-schema";
+
+interface AnnouncementFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  announcement: Announcement | null; // null when creating
+}
+
+interface AudienceOptionsProps<T extends string | number> {
+  idPrefix: string;
+  label: string;
+  options: { value: T; label: string }[];
+  value: T[];
+  onChange: (value: T[]) => void;
+}
+
+function AudienceOptions<T extends string | number>({
+  idPrefix,
+  label,
+  options,
+  value,
+  onChange,
+}: AudienceOptionsProps<T>) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-muted-foreground text-xs uppercase">{label}</Label>
+      <div className="grid max-h-40 grid-cols-2 gap-2 overflow-y-auto sm:grid-cols-3">
+        {options.map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${option.value}`}
+              checked={value.includes(option.value)}
+              onCheckedChange={(checked) =>
+                onChange(
+                  checked ? [...value, option.value] : value.filter((item) => item !== option.value)
+                )
+              }
+            />
+            <Label htmlFor={`${idPrefix}-${option.value}`} className="text-sm font-normal">
+              {option.label}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function toFormValues(announcement: Announcement | null): AnnouncementFormValues {
+  return {
+    title: announcement?.title ?? "",
+    body: announcement?.body ?? "",
+    roles: announcement?.audience.roles ?? [],
+    organization_role_codes: announcement?.audience.organization_role_codes ?? [],
+    class_master_ids: announcement?.audience.class_master_ids ?? [],
+    class_ids: announcement?.audience.class_ids ?? [],
+    requires_acknowledgement: announcement?.requires_acknowledgement ?? false,
+    publish_at: toDateTimeInput(announcement?.publish_at),
+    expires_at: toDateTimeInput(announcement?.expires_at),
+  };
+}
+
+export function AnnouncementFormDialog({
+  open,
+  onOpenChange,
+  announcement,
+}: AnnouncementFormDialogProps) {
+  const isEditMode = !!announcement;
+  const submitLabel = isEditMode ? "Save Announcement" : "Send Announcement";
+  const { data: classesData } = useClasses();
+  const { data: organizationRoles = [] } = useOrganizationRoles();
+  const saveMutation = useSaveAnnouncement(() => onOpenChange(false));
+
+  const classes = [...(classesData?.data || [])].sort(
+    (a, b) =>
+      a.class_master.display_order - b.class_master.display_order || a.name.localeCompare(b.name)
+  );
+  const classMasters = classes
+    .map((item) => item.class_master)
+    .filter((master, index, all) => all.findIndex((item) => item.id === master.id) === index);
+
+  const form = useForm<AnnouncementFormValues>({
+    resolver: zodResolver(announcementFormSchema),
+    defaultValues: toFormValues(announcement),
+  });
+
+  // Reset the form whenever the dialog opens for a different announcement
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(announcement));
+    }
+  }, [open, announcement, form]);
+
+  const handleSubmit = (data: AnnouncementFormValues) => {
+    saveMutation.mutate({
+      publicId: announcement?.public_id,
+      payload: {
+        title: data.title,
+        body: data.body,
+        audience: {
+          roles: data.roles,
+          organization_role_codes: data.organization_role_codes,
+          class_master_ids: data.class_master_ids,
+          class_ids: data.class_ids,
+        },
+        requires_acknowledgement: data.requires_acknowledgement,
+        publish_at: fromDateTimeInput(data.publish_at),
+        expires_at: fromDateTimeInput(data.expires_at),
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5 text-blue-600" />
+            {isEditMode ? "Edit Announcement" : "New Announcement"}
+          </DialogTitle>
+          <DialogDescription>
+            Recipients see it on their dashboard from the publish time until it expires
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Parent–Teacher Meeting" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message *</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3 rounded-lg border p-3">
+              <div>
+                <p className="text-sm font-medium">Audience *</p>
+                <p className="text-muted-foreground text-xs">
+                  Anyone matching one of the choices receives it. Classes and sections reach their
+                  teachers and the parents of their students.
+                </p>
+              </div>
+              <FormField
+                control={form.control}
+                name="roles"
+                render={({ field }) => (
+                  <FormItem>
+                    <AudienceOptions
+                      idPrefix="announcement-role"
+                      label="Roles"
+                      options={AnnouncementAudienceRoles.map((role) => ({ ...role }))}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="organization_role_codes"
+                render={({ field }) => (
+                  <AudienceOptions
+                    idPrefix="announcement-org-role"
+                    label="Organization Roles"
+                    options={organizationRoles.map((role) => ({
+                      value: role.code,
+                      label: role.name,
+                    }))}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="class_master_ids"
+                render={({ field }) => (
+                  <AudienceOptions
+                    idPrefix="announcement-class-master"
+                    label="Classes (all sections)"
+                    options={classMasters.map((master) => ({
+                      value: master.id,
+                      label: master.name,
+                    }))}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="class_ids"
+                render={({ field }) => (
+                  <AudienceOptions
+                    idPrefix="announcement-class"
+                    label="Sections"
+                    options={classes.map((item) => ({
+                      value: item.public_id,
+                      label: `${item.class_master.name} - ${item.name}`,
+                    }))}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="publish_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Publish At</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave blank to publish now</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expires_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires At</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave blank to keep it up</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="requires_acknowledgement"
+              render={({ field }) => (
+                <FormItem className="flex items-start gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1">
+                    <FormLabel className="font-normal">Ask recipients to acknowledge</FormLabel>
+                    <FormDescription>
+                      For circulars that need a confirmation, such as consent forms
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  submitLabel
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
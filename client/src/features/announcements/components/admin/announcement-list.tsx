@@ -0,0 +1,199 @@
+/**
+ * Announcement List (Admin)
+ * Announcements and circulars with their audience, schedule and how many
+ * recipients have opened them; opens an announcement's read receipts on click
+ */
+
+import { AlertCircle, Loader2, Megaphone, Plus, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import { AnnouncementStatus, AnnouncementStatusLabels } from "@/constants/announcements";
+import type { Announcement } from "@/lib/api/announcement-api";
+import { useAnnouncements, useDeleteAnnouncement } from "../../hooks/use-announcements";
+import { AnnouncementFormDialog } from "./announcement-form-dialog";
+import { getAnnouncementColumns } from "./announcement-table-columns";
+
+export function AnnouncementList() {
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [formDialog, setFormDialog] = useState<{
+    open: boolean;
+    announcement: Announcement | null;
+  }>({
+    open: false,
+    announcement: null,
+  });
+  const [deletingAnnouncement, setDeletingAnnouncement] = useState<Announcement | null>(null);
+
+  const {
+    data: announcementsData,
+    isLoading,
+    error,
+    refetch,
+  } = useAnnouncements({ page, page_size: pageSize, ...filters });
+  const deleteMutation = useDeleteAnnouncement(() => setDeletingAnnouncement(null));
+
+  const announcements = announcementsData?.data || [];
+  const totalCount = announcementsData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const openAnnouncement = (announcement: Announcement) =>
+    setLocation(`/announcements/${announcement.public_id}`);
+
+  const columns = getAnnouncementColumns({
+    onView: openAnnouncement,
+    onEdit: (announcement) => setFormDialog({ open: true, announcement }),
+    onDelete: setDeletingAnnouncement,
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "search",
+      label: "Search",
+      type: "text",
+      placeholder: "Search by title or message...",
+    },
+    {
+      name: "status",
+      label: "Status",
+      type: "select",
+      placeholder: "All Statuses",
+      options: Object.values(AnnouncementStatus).map((status) => ({
+        value: status,
+        label: AnnouncementStatusLabels[status],
+      })),
+    },
+  ];
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !announcementsData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-blue-600" />
+          <p className="text-muted-foreground">Loading announcements...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load announcements. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Announcements</h2>
+        <p className="text-gray-600">
+          Send notices and circulars, and see who has read and acknowledged them
+        </p>
+      </div>
+
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              Notices & Circulars
+            </CardTitle>
+            <CardDescription>Latest publish time first</CardDescription>
+          </div>
+          <Button onClick={() => setFormDialog({ open: true, announcement: null })}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Announcement
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={announcements}
+            isLoading={isLoading}
+            emptyMessage="No announcements found"
+            getRowKey={(row: Announcement) => row.public_id}
+            onRowClick={openAnnouncement}
+          />
+
+          {announcements.length > 0 && (
+            <div className="mt-4">
+              <TablePagination
+                currentPage={page}
+                totalPages={totalPages}
+                totalRecords={totalCount}
+                pageSize={pageSize}
+                onPageChange={setPage}
+                onPageSizeChange={handlePageSizeChange}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AnnouncementFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) =>
+          !open && setFormDialog({ open: false, announcement: null })
+        }
+        announcement={formDialog.announcement}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingAnnouncement}
+        title="Delete Announcement?"
+        description={`"${deletingAnnouncement?.title}" will be removed from every recipient's dashboard along with its read receipts. This cannot be undone.`}
+        onConfirm={() =>
+          deletingAnnouncement && deleteMutation.mutate(deletingAnnouncement.public_id)
+        }
+        onCancel={() => setDeletingAnnouncement(null)}
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
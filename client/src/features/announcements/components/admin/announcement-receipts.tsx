@@ -0,0 +1,211 @@
+/**
+ * Announcement Receipts (Admin)
+ * One announcement's message and audience, and every recipient with whether
+ * they have opened and acknowledged it. Filter by status to chase up those
+ * who haven't opened it yet.
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, ArrowLeft, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Column } from "@/components/ui/data-table";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  AnnouncementStatusColors,
+  AnnouncementStatusLabels,
+  ReceiptStatus,
+  ReceiptStatusColors,
+  ReceiptStatusLabels,
+  type ReceiptStatusValue,
+} from "@/constants/announcements";
+import type { AnnouncementReceipt } from "@/lib/api/announcement-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn } from "@/lib/utils";
+import { formatAnnouncementTime } from "../../helpers/announcement-helpers";
+import { useAnnouncementReceipts } from "../../hooks/use-announcements";
+
+const STATUS_ORDER: ReceiptStatusValue[] = [
+  ReceiptStatus.UNREAD,
+  ReceiptStatus.READ,
+  ReceiptStatus.ACKNOWLEDGED,
+];
+
+function formatReceiptTime(value: string | null): string {
+  return value ? format(parseISO(value), "MMM dd, h:mm a") : "-";
+}
+
+interface AnnouncementReceiptsProps {
+  announcementId: string;
+}
+
+export function AnnouncementReceipts({ announcementId }: AnnouncementReceiptsProps) {
+  const [, setLocation] = useLocation();
+  const [statusFilter, setStatusFilter] = useState<ReceiptStatusValue | null>(null);
+  const { data, isLoading, error } = useAnnouncementReceipts(announcementId);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-blue-600" />
+          <p className="text-muted-foreground">Loading read receipts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          {error ? getApiErrorMessage(error) : "Announcement not found."}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { announcement, receipts } = data;
+  const statusCounts = receipts.reduce<Partial<Record<ReceiptStatusValue, number>>>(
+    (counts, receipt) => ({
+      ...counts,
+      [receipt.status]: (counts[receipt.status] || 0) + 1,
+    }),
+    {}
+  );
+  const visibleReceipts = statusFilter
+    ? receipts.filter((receipt) => receipt.status === statusFilter)
+    : receipts;
+
+  const columns: Column<AnnouncementReceipt>[] = [
+    {
+      header: "Recipient",
+      accessor: (row) => (
+        <div>
+          <div className="font-medium">{row.user.full_name}</div>
+          {row.user.detail && (
+            <div className="text-muted-foreground text-xs">{row.user.detail}</div>
+          )}
+        </div>
+      ),
+      minWidth: 220,
+    },
+    {
+      header: "Role",
+      accessor: (row) => <span className="capitalize">{row.user.role}</span>,
+      width: 100,
+    },
+    {
+      header: "Status",
+      accessor: (row) => (
+        <Badge className={ReceiptStatusColors[row.status]}>{ReceiptStatusLabels[row.status]}</Badge>
+      ),
+      width: 140,
+    },
+    {
+      header: "Opened",
+      accessor: (row) => <span className="text-sm">{formatReceiptTime(row.read_at)}</span>,
+      width: 150,
+    },
+    ...(announcement.requires_acknowledgement
+      ? [
+          {
+            header: "Acknowledged",
+            accessor: (row: AnnouncementReceipt) => (
+              <span className="text-sm">{formatReceiptTime(row.acknowledged_at)}</span>
+            ),
+            width: 150,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="space-y-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="-ml-2"
+          onClick={() => setLocation("/announcements")}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Announcements
+        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="text-3xl font-bold text-gray-900">{announcement.title}</h2>
+          <Badge className={AnnouncementStatusColors[announcement.status]}>
+            {AnnouncementStatusLabels[announcement.status]}
+          </Badge>
+        </div>
+        <p className="text-gray-600">
+          To {announcement.audience_labels.join(", ")} • Published{" "}
+          {formatAnnouncementTime(announcement.publish_at)}
+          {announcement.expires_at &&
+            ` • Expires ${formatAnnouncementTime(announcement.expires_at)}`}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Message</CardTitle>
+          {announcement.created_by_name && (
+            <CardDescription>Sent by {announcement.created_by_name}</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm whitespace-pre-wrap text-gray-700">{announcement.body}</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="space-y-1.5">
+            <CardTitle>Read Receipts</CardTitle>
+            <CardDescription>
+              {announcement.read_count} of {announcement.recipient_count} recipients have opened it
+              {announcement.requires_acknowledgement &&
+                `, ${announcement.acknowledged_count} acknowledged`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_ORDER.filter((status) => statusCounts[status]).map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+              >
+                <Badge
+                  className={cn(
+                    ReceiptStatusColors[status],
+                    statusFilter === status && "ring-2 ring-current ring-offset-1"
+                  )}
+                >
+                  {ReceiptStatusLabels[status]}: {statusCounts[status]}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={visibleReceipts}
+            emptyMessage={
+              announcement.recipient_count === 0
+                ? "Nobody matches this announcement's audience"
+                : "No recipients with this status"
+            }
+            getRowKey={(row: AnnouncementReceipt) => row.user.public_id}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
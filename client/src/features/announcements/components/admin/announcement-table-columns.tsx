@@ -0,0 +1,128 @@
+/**
+ * Announcement Table Columns
+ * Column definitions for the announcements data table
+ */
+
+import { Edit, Eye, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { Progress } from "@/components/ui/progress";
+import { AnnouncementStatusColors, AnnouncementStatusLabels } from "@/constants/announcements";
+import type { Announcement } from "@/lib/api/announcement-api";
+import { formatAnnouncementTime } from "../../helpers/announcement-helpers";
+
+interface GetAnnouncementColumnsProps {
+  onView: (announcement: Announcement) => void;
+  onEdit: (announcement: Announcement) => void;
+  onDelete: (announcement: Announcement) => void;
+}
+
+function toPercentage(count: number, total: number): number {
+  return total > 0 ? (count / total) * 100 : 0;
+}
+
+export function getAnnouncementColumns({
+  onView,
+  onEdit,
+  onDelete,
+}: GetAnnouncementColumnsProps): Column<Announcement>[] {
+  return [
+    {
+      header: "Announcement",
+      accessor: (announcement) => (
+        <div>
+          <div className="font-medium">{announcement.title}</div>
+          <div className="text-muted-foreground text-xs">
+            To {announcement.audience_labels.join(", ")}
+          </div>
+        </div>
+      ),
+      minWidth: 260,
+    },
+    {
+      header: "Status",
+      accessor: (announcement) => (
+        <div className="space-y-1">
+          <Badge className={AnnouncementStatusColors[announcement.status]}>
+            {AnnouncementStatusLabels[announcement.status]}
+          </Badge>
+          <div className="text-muted-foreground text-xs">
+            {formatAnnouncementTime(announcement.publish_at)}
+          </div>
+          {announcement.expires_at && (
+            <div className="text-muted-foreground text-xs">
+              Until {formatAnnouncementTime(announcement.expires_at)}
+            </div>
+          )}
+        </div>
+      ),
+      width: 170,
+    },
+    {
+      header: "Opened",
+      accessor: (announcement) => (
+        <div className="space-y-1">
+          <div className="text-xs">
+            {announcement.read_count} / {announcement.recipient_count} recipients
+          </div>
+          <Progress
+            value={toPercentage(announcement.read_count, announcement.recipient_count)}
+            className="h-1.5"
+          />
+        </div>
+      ),
+      width: 150,
+    },
+    {
+      header: "Acknowledged",
+      accessor: (announcement) =>
+        announcement.requires_acknowledgement
+          ? `${announcement.acknowledged_count} / ${announcement.recipient_count}`
+          : "-",
+      width: 120,
+    },
+    {
+      header: "Actions",
+      accessor: (announcement) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onView(announcement);
+            }}
+            aria-label="View read receipts"
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit(announcement);
+            }}
+            aria-label="Edit announcement"
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(announcement);
+            }}
+            aria-label="Delete announcement"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+      width: 150,
+    },
+  ];
+}
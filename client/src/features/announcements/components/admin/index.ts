@@ -0,0 +1,10 @@
+/**
+ * Announcements - Admin Components
+ *
+ * Components for composing announcements and circulars and tracking who has
+ * read and acknowledged them.
+ */
+
+export { AnnouncementList } from "./announcement-list";
+export { AnnouncementFormDialog } from "./announcement-form-dialog";
+export { AnnouncementReceipts } from "./announcement-receipts";
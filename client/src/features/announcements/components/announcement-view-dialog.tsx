@@ -0,0 +1,88 @@
+/**
+ * Announcement View Dialog
+ * The full text of a received announcement. Opening it records a read
+ * receipt; circulars that ask for it can be acknowledged from here.
+ */
+
+import { CheckCircle2, Loader2, Megaphone } from "lucide-react";
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ReceivedAnnouncement } from "@/lib/api/announcement-api";
+import { formatAnnouncementTime } from "../helpers/announcement-helpers";
+import { useAcknowledgeAnnouncement, useMarkAnnouncementRead } from "../hooks/use-announcements";
+
+interface AnnouncementViewDialogProps {
+  announcement: ReceivedAnnouncement | null;
+  onClose: () => void;
+}
+
+export function AnnouncementViewDialog({ announcement, onClose }: AnnouncementViewDialogProps) {
+  const { mutate: markRead } = useMarkAnnouncementRead();
+  const acknowledgeMutation = useAcknowledgeAnnouncement();
+
+  const publicId = announcement?.public_id;
+  const isUnread = !!announcement && !announcement.read_at;
+
+  useEffect(() => {
+    if (publicId && isUnread) {
+      markRead(publicId);
+    }
+  }, [publicId, isUnread, markRead]);
+
+  const needsAcknowledgement =
+    !!announcement?.requires_acknowledgement && !announcement.acknowledged_at;
+
+  return (
+    <Dialog open={!!announcement} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5 text-blue-600" />
+            {announcement?.title}
+          </DialogTitle>
+          {announcement && (
+            <DialogDescription>
+              {announcement.sender_name} • {formatAnnouncementTime(announcement.publish_at)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <p className="text-sm whitespace-pre-wrap text-gray-700">{announcement?.body}</p>
+
+        {announcement?.acknowledged_at && (
+          <p className="flex items-center gap-1 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            You acknowledged this on {formatAnnouncementTime(announcement.acknowledged_at)}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {needsAcknowledgement && (
+            <Button
+              onClick={() => announcement && acknowledgeMutation.mutate(announcement.public_id)}
+              disabled={acknowledgeMutation.isPending}
+            >
+              {acknowledgeMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+              )}
+              Acknowledge
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Announcements Card
+ * Dashboard card with the published announcements addressed to the signed-in
+ * user, unread ones highlighted and circulars awaiting acknowledgement flagged
+ */
+
+import { Megaphone } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { formatAnnouncementTime } from "../helpers/announcement-helpers";
+import { useReceivedAnnouncements } from "../hooks/use-announcements";
+import { AnnouncementViewDialog } from "./announcement-view-dialog";
+
+export function AnnouncementsCard() {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data: announcements = [], isLoading } = useReceivedAnnouncements();
+
+  const unreadCount = announcements.filter((announcement) => !announcement.read_at).length;
+  const openAnnouncement = announcements.find((item) => item.public_id === openId) ?? null;
+
+  return (
+    <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
+      <CardHeader className="border-b border-blue-100 bg-gradient-to-r from-blue-50 to-indigo-50">
+        <CardTitle className="flex items-center gap-2 text-blue-900">
+          <Megaphone className="h-5 w-5" />
+          Announcements
+        </CardTitle>
+        <CardDescription className="text-blue-700">
+          {unreadCount > 0 ? `${unreadCount} unread` : "Notices and circulars from the school"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-6">
+        {!isLoading && announcements.length === 0 && (
+          <p className="text-sm text-gray-500">No announcements right now</p>
+        )}
+        {announcements.map((announcement) => {
+          const isUnread = !announcement.read_at;
+          return (
+            <button
+              key={announcement.public_id}
+              type="button"
+              onClick={() => setOpenId(announcement.public_id)}
+              className="flex w-full items-start gap-3 border-b border-gray-100 pb-4 text-left last:border-0"
+            >
+              <span
+                className={cn(
+                  "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                  isUnread ? "bg-blue-500" : "bg-transparent"
+                )}
+              />
+              <div className="min-w-0 flex-1">
+                <p
+                  className={cn(
+                    "text-sm text-gray-900",
+                    isUnread ? "font-semibold" : "font-medium"
+                  )}
+                >
+                  {announcement.title}
+                </p>
+                <p className="mt-1 line-clamp-2 text-xs text-gray-500">{announcement.body}</p>
+                <p className="mt-1 text-xs text-gray-400">
+                  {announcement.sender_name} • {formatAnnouncementTime(announcement.publish_at)}
+                </p>
+              </div>
+              {announcement.requires_acknowledgement && !announcement.acknowledged_at && (
+                <Badge variant="outline" className="shrink-0 border-amber-200 text-amber-700">
+                  Please acknowledge
+                </Badge>
+              )}
+            </button>
+          );
+        })}
+      </CardContent>
+
+      <AnnouncementViewDialog announcement={openAnnouncement} onClose={() => setOpenId(null)} />
+    </Card>
+  );
+}
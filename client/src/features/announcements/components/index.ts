@@ -0,0 +1,10 @@
+/**
+ * Announcements Feature - Component Exports
+ */
+
+// Admin components
+export * from "./admin";
+
+// Recipient components
+export { AnnouncementsCard } from "./announcements-card";
+export { AnnouncementViewDialog } from "./announcement-view-dialog";
@@ -0,0 +1,27 @@
+/**
+ * Announcement Helpers
+ * Conversions between API timestamps and the datetime inputs of the form.
+ */
+
+import { format, parseISO } from "date-fns";
+
+/**
+ * ISO timestamp to a `datetime-local` input value in local time
+ */
+export function toDateTimeInput(value: string | null | undefined): string {
+  return value ? format(parseISO(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+/**
+ * `datetime-local` input value to an ISO timestamp, or null when blank
+ */
+export function fromDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Short timestamp for announcement lists, e.g. "Oct 19, 2026 08:00"
+ */
+export function formatAnnouncementTime(value: string): string {
+  return format(parseISO(value), "MMM dd, yyyy HH:mm");
+}
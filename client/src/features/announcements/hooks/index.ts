@@ -0,0 +1,5 @@
+/**
+ * Announcements Feature - Hooks Export
+ */
+
+export * from "./use-announcements";
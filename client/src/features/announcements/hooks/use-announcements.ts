@@ -0,0 +1,127 @@
+/**
+ * Announcement Hooks
+ * React Query hooks for composing announcements, tracking their read
+ * receipts, and the announcements the signed-in user has received
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  acknowledgeAnnouncement,
+  deleteAnnouncement,
+  fetchAnnouncementReceipts,
+  fetchAnnouncements,
+  fetchReceivedAnnouncements,
+  markAnnouncementRead,
+  saveAnnouncement,
+  type AnnouncementFilters,
+  type AnnouncementPayload,
+} from "@/lib/api/announcement-api";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+function useInvalidateAnnouncements() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.ANNOUNCEMENTS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.ANNOUNCEMENT_RECEIPTS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.RECEIVED_ANNOUNCEMENTS] });
+  };
+}
+
+// ============================================================================
+// Senders
+// ============================================================================
+
+export function useAnnouncements(filters: AnnouncementFilters) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.ANNOUNCEMENTS, filters],
+    queryFn: () => fetchAnnouncements(filters),
+  });
+}
+
+/**
+ * Create an announcement, or update the one with `publicId`
+ */
+export function useSaveAnnouncement(onSuccess?: () => void) {
+  const invalidate = useInvalidateAnnouncements();
+
+  return useMutation({
+    mutationFn: ({ payload, publicId }: { payload: AnnouncementPayload; publicId?: string }) =>
+      saveAnnouncement(payload, publicId),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Announcement saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useDeleteAnnouncement(onSuccess?: () => void) {
+  const invalidate = useInvalidateAnnouncements();
+
+  return useMutation({
+    mutationFn: (publicId: string) => deleteAnnouncement(publicId),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Announcement deleted");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useAnnouncementReceipts(publicId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.ANNOUNCEMENT_RECEIPTS, publicId],
+    queryFn: () => fetchAnnouncementReceipts(publicId),
+    enabled: !!publicId,
+    select: (response) => response.data,
+  });
+}
+
+// ============================================================================
+// Recipients
+// ============================================================================
+
+/**
+ * Published announcements addressed to the signed-in user, newest first
+ */
+export function useReceivedAnnouncements() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.RECEIVED_ANNOUNCEMENTS],
+    queryFn: fetchReceivedAnnouncements,
+    select: (response) => response.data,
+  });
+}
+
+export function useMarkAnnouncementRead() {
+  const invalidate = useInvalidateAnnouncements();
+
+  return useMutation({
+    mutationFn: (publicId: string) => markAnnouncementRead(publicId),
+    onSuccess: () => invalidate(),
+  });
+}
+
+export function useAcknowledgeAnnouncement(onSuccess?: () => void) {
+  const invalidate = useInvalidateAnnouncements();
+
+  return useMutation({
+    mutationFn: (publicId: string) => acknowledgeAnnouncement(publicId),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Announcement acknowledged");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,6 @@
+/**
+ * Announcements Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
@@ -0,0 +1,38 @@
+import * as z from "zod";
+
+export const announcementFormSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(150, "Title is too long"),
+    body: z.string().trim().min(1, "Message is required").max(5000, "Message is too long"),
+    roles: z.array(z.string()),
+    organization_role_codes: z.array(z.string()),
+    class_master_ids: z.array(z.number()),
+    class_ids: z.array(z.string()),
+    requires_acknowledgement: z.boolean(),
+    publish_at: z.string(), // datetime-local value; blank publishes straight away
+    expires_at: z.string(), // datetime-local value; blank never expires
+  })
+  .refine(
+    (announcement) =>
+      announcement.roles.length +
+        announcement.organization_role_codes.length +
+        announcement.class_master_ids.length +
+        announcement.class_ids.length >
+      0,
+    {
+      message: "Choose at least one role, organization role, class or section",
+      path: ["roles"],
+    }
+  )
+  .refine(
+    (announcement) =>
+      !announcement.expires_at ||
+      new Date(announcement.expires_at) >
+        (announcement.publish_at ? new Date(announcement.publish_at) : new Date()),
+    {
+      message: "Must expire after it is published",
+      path: ["expires_at"],
+    }
+  );
+
+export type AnnouncementFormValues = z.infer<typeof announcementFormSchema>;
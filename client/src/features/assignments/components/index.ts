@@ -0,0 +1,9 @@
+/**
+ * Assignments Feature - Component Exports
+ */
+
+// Teacher components
+export * from "./teacher";
+
+// Parent components
+export * from "./parent";
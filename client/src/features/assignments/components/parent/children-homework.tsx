@@ -0,0 +1,212 @@
+/**
+ * Children Homework (Parent)
+ * Homework set for each child linked to the signed-in parent: what is still
+ * to do, and what was handed in with the teacher's marks and feedback
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, CalendarClock, Loader2, MessageSquare, Send } from "lucide-react";
+import { useState } from "react";
+import { ChildSwitcher } from "@/common/components";
+import { AttachmentList } from "@/common/components/attachments";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  SubmissionStatus,
+  SubmissionStatusColors,
+  SubmissionStatusLabels,
+} from "@/constants/assignments";
+import type { ChildAssignment } from "@/lib/api/assignment-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { isOutstanding } from "../../helpers/assignment-helpers";
+import { useChildrenAssignments } from "../../hooks/use-assignments";
+import { SubmitHomeworkDialog } from "./submit-homework-dialog";
+
+interface HomeworkCardProps {
+  item: ChildAssignment;
+  onSubmit: (item: ChildAssignment) => void;
+}
+
+function HomeworkCard({ item, onSubmit }: HomeworkCardProps) {
+  const { assignment, submission } = item;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">{assignment.title}</CardTitle>
+          <CardDescription className="flex items-center gap-1.5">
+            <CalendarClock className="h-3.5 w-3.5" />
+            {assignment.subject_info.name} • Due{" "}
+            {format(parseISO(assignment.due_date), "EEE, MMM dd")} •{" "}
+            {assignment.teacher_info.full_name}
+          </CardDescription>
+        </div>
+        <Badge className={SubmissionStatusColors[submission.status]}>
+          {SubmissionStatusLabels[submission.status]}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {assignment.instructions && (
+          <p className="text-sm whitespace-pre-wrap text-gray-700">{assignment.instructions}</p>
+        )}
+        <AttachmentList attachments={assignment.attachments} />
+
+        {submission.submitted_at && (
+          <div className="space-y-2 rounded-lg border bg-gray-50 p-3">
+            <p className="text-muted-foreground text-xs">
+              Handed in {format(parseISO(submission.submitted_at), "MMM dd, yyyy 'at' h:mm a")}
+            </p>
+            {submission.content && (
+              <p className="text-sm whitespace-pre-wrap">{submission.content}</p>
+            )}
+            <AttachmentList attachments={submission.attachments} />
+          </div>
+        )}
+
+        {submission.status === SubmissionStatus.GRADED && (
+          <div className="space-y-1 rounded-lg border border-green-200 bg-green-50 p-3">
+            {submission.marks_obtained !== null && assignment.max_marks !== null && (
+              <p className="text-sm font-semibold text-green-800">
+                {submission.marks_obtained} / {assignment.max_marks} marks
+              </p>
+            )}
+            {submission.feedback && (
+              <p className="flex items-start gap-1.5 text-sm text-green-900">
+                <MessageSquare className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                {submission.feedback}
+              </p>
+            )}
+          </div>
+        )}
+
+        {submission.status !== SubmissionStatus.GRADED && (
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant={submission.submitted_at ? "outline" : "default"}
+              onClick={() => onSubmit(item)}
+            >
+              <Send className="mr-2 h-4 w-4" />
+              {submission.submitted_at ? "Resubmit" : "Submit Homework"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ChildrenHomework() {
+  const [selectedStudentId, setSelectedStudentId] = useSelectedChildId();
+  const [submittingItem, setSubmittingItem] = useState<ChildAssignment | null>(null);
+  const { data: children = [], isLoading, error } = useChildrenAssignments();
+
+  const selected =
+    children.find((child) => child.student.public_id === selectedStudentId) ?? children[0];
+  const toDo = (selected?.assignments || []).filter((item) =>
+    isOutstanding(item.submission.status)
+  );
+  // Most recently due first once handed in
+  const handedIn = (selected?.assignments || [])
+    .filter((item) => !isOutstanding(item.submission.status))
+    .reverse();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-amber-600" />
+          <p className="text-muted-foreground">Loading homework...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Homework</h2>
+        <p className="text-gray-600">Assignments set for your child and how they were graded</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && !selected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selected && (
+        <>
+          <ChildSwitcher
+            students={children.map((child) => ({
+              public_id: child.student.public_id,
+              full_name: child.student.full_name,
+              class_label: `${child.class_info.class_master_name} - ${child.class_info.name}`,
+              roll_number: child.student.roll_number,
+            }))}
+            value={selected.student.public_id}
+            onValueChange={setSelectedStudentId}
+          />
+
+          <Tabs defaultValue="to-do">
+            <TabsList>
+              <TabsTrigger value="to-do">To Do ({toDo.length})</TabsTrigger>
+              <TabsTrigger value="handed-in">Handed In ({handedIn.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="to-do" className="space-y-4">
+              {toDo.length === 0 && (
+                <p className="text-muted-foreground py-8 text-center text-sm">
+                  Nothing due. All homework has been handed in.
+                </p>
+              )}
+              {toDo.map((item) => (
+                <HomeworkCard
+                  key={item.assignment.public_id}
+                  item={item}
+                  onSubmit={setSubmittingItem}
+                />
+              ))}
+            </TabsContent>
+            <TabsContent value="handed-in" className="space-y-4">
+              {handedIn.length === 0 && (
+                <p className="text-muted-foreground py-8 text-center text-sm">
+                  No homework handed in yet.
+                </p>
+              )}
+              {handedIn.map((item) => (
+                <HomeworkCard
+                  key={item.assignment.public_id}
+                  item={item}
+                  onSubmit={setSubmittingItem}
+                />
+              ))}
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      <SubmitHomeworkDialog
+        open={!!submittingItem}
+        onOpenChange={(open: boolean) => !open && setSubmittingItem(null)}
+        item={submittingItem}
+      />
+    </div>
+  );
+}
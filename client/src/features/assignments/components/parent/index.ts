@@ -0,0 +1,6 @@
+/**
+ * Assignments - Parent Components
+ */
+
+export { ChildrenHomework } from "./children-homework";
+export { SubmitHomeworkDialog } from "./submit-homework-dialog";
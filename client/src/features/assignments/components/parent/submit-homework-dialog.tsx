@@ -0,0 +1,124 @@
+/**
+ * Submit Homework Dialog
+ * Hand in a child's homework with an answer and photos or scans of their
+ * work. Submitting again before it is graded replaces the earlier submission.
+ */
+
+import { Loader2, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { AttachmentPicker } from "@/common/components/attachments";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { ChildAssignment } from "@/lib/api/assignment-api";
+import { getAttachmentError } from "@/lib/utils/file-utils";
+import { useSubmitHomework } from "../../hooks/use-assignments";
+
+const MAX_CONTENT_LENGTH = 2000;
+
+interface SubmitHomeworkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: ChildAssignment | null;
+}
+
+export function SubmitHomeworkDialog({ open, onOpenChange, item }: SubmitHomeworkDialogProps) {
+  const [content, setContent] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const submitMutation = useSubmitHomework(() => onOpenChange(false));
+
+  useEffect(() => {
+    if (open && item) {
+      setContent(item.submission.content);
+      setFiles([]);
+    }
+  }, [open, item]);
+
+  if (!item) {
+    return null;
+  }
+
+  const { assignment, submission } = item;
+  const attachmentError = getAttachmentError(files);
+  const isEmpty = !content.trim() && files.length === 0;
+
+  const handleSubmit = () => {
+    submitMutation.mutate({
+      publicId: assignment.public_id,
+      studentId: submission.student.public_id,
+      payload: { content: content.trim(), attachments: files },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-amber-600" />
+            {assignment.title}
+          </DialogTitle>
+          <DialogDescription>
+            {submission.submitted_at
+              ? `Replaces what was handed in earlier for ${submission.student.full_name}`
+              : `Hand in ${submission.student.full_name}'s ${assignment.subject_info.name} homework`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="homework-content">Answer</Label>
+            <Textarea
+              id="homework-content"
+              rows={5}
+              maxLength={MAX_CONTENT_LENGTH}
+              value={content}
+              onChange={(event) => setContent(event.target.value)}
+              placeholder="Type the answer, or attach photos of the work below"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            <AttachmentPicker
+              files={files}
+              onChange={setFiles}
+              disabled={submitMutation.isPending}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitMutation.isPending || isEmpty || !!attachmentError}
+          >
+            {submitMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              "Submit"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
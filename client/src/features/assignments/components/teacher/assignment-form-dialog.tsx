@@ -0,0 +1,254 @@
+/**
+ * Assignment Form Dialog
+ * Create or edit homework for one of the teacher's sections and subjects,
+ * with instructions and attached worksheets
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FileText, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { AttachmentList, AttachmentPicker } from "@/common/components/attachments";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { Assignment } from "@/lib/api/assignment-api";
+import { getAttachmentError } from "@/lib/utils/file-utils";
+import { useAssignmentSubjects, useSaveAssignment } from "../../hooks/use-assignments";
+import {
+  assignmentFormSchema,
+  type AssignmentFormValues,
+} from "../../schemas/assignment-form-schema";
+
+interface AssignmentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assignment: Assignment | null; // null when creating
+}
+
+function toFormValues(assignment: Assignment | null): AssignmentFormValues {
+  return {
+    subject_id: assignment?.subject_info.public_id ?? "",
+    title: assignment?.title ?? "",
+    instructions: assignment?.instructions ?? "",
+    due_date: assignment?.due_date ?? "",
+    max_marks: assignment?.max_marks != null ? String(assignment.max_marks) : "",
+  };
+}
+
+export function AssignmentFormDialog({
+  open,
+  onOpenChange,
+  assignment,
+}: AssignmentFormDialogProps) {
+  const isEditMode = !!assignment;
+  const [files, setFiles] = useState<File[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const { data: subjects = [] } = useAssignmentSubjects();
+  const saveMutation = useSaveAssignment(() => onOpenChange(false));
+
+  const form = useForm<AssignmentFormValues>({
+    resolver: zodResolver(assignmentFormSchema),
+    defaultValues: toFormValues(assignment),
+  });
+
+  // Reset the form whenever the dialog opens for a different assignment
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(assignment));
+      setFiles([]);
+      setRemovedIds([]);
+    }
+  }, [open, assignment, form]);
+
+  const keptAttachments = (assignment?.attachments || []).filter(
+    (item) => !removedIds.includes(item.public_id)
+  );
+  const attachmentError = getAttachmentError(files, keptAttachments.length);
+
+  const handleSubmit = (data: AssignmentFormValues) => {
+    if (attachmentError) {
+      return;
+    }
+    saveMutation.mutate({
+      publicId: assignment?.public_id,
+      payload: {
+        subject_id: data.subject_id,
+        title: data.title,
+        instructions: data.instructions,
+        due_date: data.due_date,
+        max_marks: data.max_marks ? parseFloat(data.max_marks) : null,
+        attachments: files,
+        removed_attachment_ids: removedIds,
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-purple-600" />
+            {isEditMode ? "Edit Assignment" : "New Assignment"}
+          </DialogTitle>
+          <DialogDescription>
+            Every student of the section sees it, and parents see it on their dashboard
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="subject_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Class & Subject *</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a class and subject" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {subjects.map((subject) => (
+                        <SelectItem key={subject.public_id} value={subject.public_id}>
+                          {subject.class_info.class_master_name} - {subject.class_info.name} •{" "}
+                          {subject.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Fractions Practice" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="instructions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Instructions</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={4}
+                      placeholder="What students should do and how to hand it in"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="due_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Date *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="max_marks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Marks</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={1} {...field} />
+                    </FormControl>
+                    <FormDescription>Leave blank to grade with feedback only</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Attachments</Label>
+              <AttachmentList
+                attachments={keptAttachments}
+                onRemove={(attachment) => setRemovedIds([...removedIds, attachment.public_id])}
+              />
+              <AttachmentPicker
+                files={files}
+                onChange={setFiles}
+                existingCount={keptAttachments.length}
+                disabled={saveMutation.isPending}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending || !!attachmentError}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Assignment"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * Assignment List (Teacher)
+ * Homework the signed-in teacher has set, with how many students have handed
+ * it in; opens an assignment's submissions on click
+ */
+
+import { AlertCircle, FileText, Loader2, Plus, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import type { Assignment } from "@/lib/api/assignment-api";
+import {
+  useAssignments,
+  useAssignmentSubjects,
+  useDeleteAssignment,
+} from "../../hooks/use-assignments";
+import { AssignmentFormDialog } from "./assignment-form-dialog";
+import { getAssignmentColumns } from "./assignment-table-columns";
+
+export function AssignmentList() {
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [formDialog, setFormDialog] = useState<{ open: boolean; assignment: Assignment | null }>({
+    open: false,
+    assignment: null,
+  });
+  const [deletingAssignment, setDeletingAssignment] = useState<Assignment | null>(null);
+
+  const {
+    data: assignmentsData,
+    isLoading,
+    error,
+    refetch,
+  } = useAssignments({ page, page_size: pageSize, ...filters });
+  const { data: subjects = [] } = useAssignmentSubjects();
+  const deleteMutation = useDeleteAssignment(() => setDeletingAssignment(null));
+
+  const assignments = assignmentsData?.data || [];
+  const totalCount = assignmentsData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const openAssignment = (assignment: Assignment) =>
+    setLocation(`/assignments/${assignment.public_id}`);
+
+  const columns = getAssignmentColumns({
+    onView: openAssignment,
+    onEdit: (assignment) => setFormDialog({ open: true, assignment }),
+    onDelete: setDeletingAssignment,
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "search",
+      label: "Search",
+      type: "text",
+      placeholder: "Search by title...",
+    },
+    {
+      name: "subject_id",
+      label: "Class & Subject",
+      type: "select",
+      placeholder: "All Classes",
+      searchPlaceholder: "Search class...",
+      options: subjects.map((subject) => ({
+        value: subject.public_id,
+        label: `${subject.class_info.class_master_name} - ${subject.class_info.name} • ${subject.name}`,
+      })),
+    },
+  ];
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !assignmentsData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-purple-600" />
+          <p className="text-muted-foreground">Loading assignments...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load assignments. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Assignments</h2>
+        <p className="text-gray-600">Set homework, track who has handed it in and grade it</p>
+      </div>
+
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Homework
+            </CardTitle>
+            <CardDescription>Latest due date first</CardDescription>
+          </div>
+          <Button
+            onClick={() => setFormDialog({ open: true, assignment: null })}
+            disabled={subjects.length === 0}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Assignment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={assignments}
+            isLoading={isLoading}
+            emptyMessage="No assignments found"
+            getRowKey={(row: Assignment) => row.public_id}
+            onRowClick={openAssignment}
+          />
+
+          {assignments.length > 0 && (
+            <div className="mt-4">
+              <TablePagination
+                currentPage={page}
+                totalPages={totalPages}
+                totalRecords={totalCount}
+                pageSize={pageSize}
+                onPageChange={setPage}
+                onPageSizeChange={handlePageSizeChange}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AssignmentFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) => !open && setFormDialog({ open: false, assignment: null })}
+        assignment={formDialog.assignment}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingAssignment}
+        title="Delete Assignment?"
+        description={`"${deletingAssignment?.title}" and every submission and grade for it will be removed. This cannot be undone.`}
+        onConfirm={() => deletingAssignment && deleteMutation.mutate(deletingAssignment.public_id)}
+        onCancel={() => setDeletingAssignment(null)}
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
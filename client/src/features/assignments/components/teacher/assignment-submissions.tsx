@@ -0,0 +1,213 @@
+/**
+ * Assignment Submissions (Teacher)
+ * One assignment's instructions and attachments, and every student of the
+ * section with whether they handed it in, their marks and feedback
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, ArrowLeft, ClipboardCheck, Loader2, Paperclip } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { AttachmentList } from "@/common/components/attachments";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Column } from "@/components/ui/data-table";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  SubmissionStatus,
+  SubmissionStatusColors,
+  SubmissionStatusLabels,
+  type SubmissionStatusValue,
+} from "@/constants/assignments";
+import type { Submission } from "@/lib/api/assignment-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useAssignmentSubmissions } from "../../hooks/use-assignments";
+import { GradeSubmissionDialog } from "./grade-submission-dialog";
+
+const STATUS_ORDER: SubmissionStatusValue[] = [
+  SubmissionStatus.SUBMITTED,
+  SubmissionStatus.LATE,
+  SubmissionStatus.GRADED,
+  SubmissionStatus.PENDING,
+  SubmissionStatus.OVERDUE,
+];
+
+interface AssignmentSubmissionsProps {
+  assignmentId: string;
+}
+
+export function AssignmentSubmissions({ assignmentId }: AssignmentSubmissionsProps) {
+  const [, setLocation] = useLocation();
+  const [gradingSubmission, setGradingSubmission] = useState<Submission | null>(null);
+  const { data, isLoading, error } = useAssignmentSubmissions(assignmentId);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-purple-600" />
+          <p className="text-muted-foreground">Loading submissions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          {error ? getApiErrorMessage(error) : "Assignment not found."}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { assignment, submissions } = data;
+  const statusCounts = submissions.reduce<Partial<Record<SubmissionStatusValue, number>>>(
+    (counts, submission) => ({
+      ...counts,
+      [submission.status]: (counts[submission.status] || 0) + 1,
+    }),
+    {}
+  );
+
+  const columns: Column<Submission>[] = [
+    {
+      header: "Roll",
+      accessor: (row) => <span className="text-muted-foreground">{row.student.roll_number}</span>,
+      width: 70,
+    },
+    {
+      header: "Student",
+      accessor: (row) => <span className="font-medium">{row.student.full_name}</span>,
+    },
+    {
+      header: "Status",
+      accessor: (row) => (
+        <Badge className={SubmissionStatusColors[row.status]}>
+          {SubmissionStatusLabels[row.status]}
+        </Badge>
+      ),
+    },
+    {
+      header: "Handed In",
+      accessor: (row) => (
+        <div className="space-y-0.5">
+          <span className="text-sm">
+            {row.submitted_at ? format(parseISO(row.submitted_at), "MMM dd, h:mm a") : "-"}
+          </span>
+          {row.attachments.length > 0 && (
+            <p className="text-muted-foreground flex items-center gap-1 text-xs">
+              <Paperclip className="h-3 w-3" />
+              {row.attachments.length} {row.attachments.length === 1 ? "file" : "files"}
+            </p>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Marks",
+      accessor: (row) =>
+        row.marks_obtained !== null && assignment.max_marks !== null ? (
+          <span className="font-medium">
+            {row.marks_obtained} / {assignment.max_marks}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        ),
+    },
+    {
+      header: "Feedback",
+      accessor: (row) => (
+        <span className="text-muted-foreground line-clamp-2 max-w-xs text-sm">
+          {row.feedback || "-"}
+        </span>
+      ),
+    },
+    {
+      header: "Actions",
+      accessor: (row) => (
+        <Button variant="outline" size="sm" onClick={() => setGradingSubmission(row)}>
+          <ClipboardCheck className="mr-1 h-4 w-4" />
+          {row.status === SubmissionStatus.GRADED ? "Edit" : "Grade"}
+        </Button>
+      ),
+      width: 110,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="space-y-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="-ml-2"
+          onClick={() => setLocation("/assignments")}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Assignments
+        </Button>
+        <h2 className="text-3xl font-bold text-gray-900">{assignment.title}</h2>
+        <p className="text-gray-600">
+          {assignment.class_info.class_master_name} - {assignment.class_info.name} •{" "}
+          {assignment.subject_info.name} • Due{" "}
+          {format(parseISO(assignment.due_date), "MMM dd, yyyy")}
+          {assignment.max_marks !== null && ` • Out of ${assignment.max_marks}`}
+        </p>
+      </div>
+
+      {(assignment.instructions || assignment.attachments.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Instructions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {assignment.instructions && (
+              <p className="text-sm whitespace-pre-wrap text-gray-700">{assignment.instructions}</p>
+            )}
+            <AttachmentList attachments={assignment.attachments} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="space-y-1.5">
+            <CardTitle>Submissions</CardTitle>
+            <CardDescription>
+              {assignment.submitted_count} of {assignment.student_count} students have handed it in,{" "}
+              {assignment.graded_count} graded
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_ORDER.filter((status) => statusCounts[status]).map((status) => (
+              <Badge key={status} className={SubmissionStatusColors[status]}>
+                {SubmissionStatusLabels[status]}: {statusCounts[status]}
+              </Badge>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={submissions}
+            emptyMessage="No students in this section"
+            getRowKey={(row: Submission) => row.student.public_id}
+          />
+        </CardContent>
+      </Card>
+
+      <GradeSubmissionDialog
+        open={!!gradingSubmission}
+        onOpenChange={(open: boolean) => !open && setGradingSubmission(null)}
+        assignment={assignment}
+        submission={gradingSubmission}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Assignment Table Columns
+ * Column definitions for the teacher's assignments data table
+ */
+
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Edit, Eye, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { Progress } from "@/components/ui/progress";
+import type { Assignment } from "@/lib/api/assignment-api";
+import { cn } from "@/lib/utils";
+
+interface GetAssignmentColumnsProps {
+  onView: (assignment: Assignment) => void;
+  onEdit: (assignment: Assignment) => void;
+  onDelete: (assignment: Assignment) => void;
+}
+
+function getDueLabel(dueDate: string): { label: string; className: string } {
+  const days = differenceInCalendarDays(parseISO(dueDate), new Date());
+  if (days < 0) {
+    return { label: "Past due", className: "text-gray-500" };
+  }
+  if (days === 0) {
+    return { label: "Due today", className: "text-red-600" };
+  }
+  return {
+    label: days === 1 ? "Due tomorrow" : `Due in ${days} days`,
+    className: days <= 2 ? "text-amber-600" : "text-green-600",
+  };
+}
+
+export function getAssignmentColumns({
+  onView,
+  onEdit,
+  onDelete,
+}: GetAssignmentColumnsProps): Column<Assignment>[] {
+  return [
+    {
+      header: "Assignment",
+      accessor: (assignment) => (
+        <div>
+          <div className="flex items-center gap-1.5 font-medium">
+            {assignment.title}
+            {assignment.attachments.length > 0 && (
+              <Paperclip className="text-muted-foreground h-3.5 w-3.5" />
+            )}
+          </div>
+          <div className="text-muted-foreground text-xs">
+            {assignment.class_info.class_master_name} - {assignment.class_info.name} •{" "}
+            {assignment.subject_info.name}
+          </div>
+        </div>
+      ),
+      minWidth: 240,
+    },
+    {
+      header: "Due",
+      accessor: (assignment) => {
+        const due = getDueLabel(assignment.due_date);
+        return (
+          <div>
+            <div>{format(parseISO(assignment.due_date), "MMM dd, yyyy")}</div>
+            <div className={cn("text-xs", due.className)}>{due.label}</div>
+          </div>
+        );
+      },
+      width: 150,
+    },
+    {
+      header: "Handed In",
+      accessor: (assignment) => (
+        <div className="space-y-1">
+          <div className="text-xs">
+            {assignment.submitted_count} / {assignment.student_count} students
+          </div>
+          <Progress
+            value={
+              assignment.student_count > 0
+                ? (assignment.submitted_count / assignment.student_count) * 100
+                : 0
+            }
+            className="h-1.5"
+          />
+        </div>
+      ),
+      width: 150,
+    },
+    {
+      header: "Graded",
+      accessor: (assignment) =>
+        assignment.submitted_count > 0
+          ? `${assignment.graded_count} / ${assignment.submitted_count}`
+          : "-",
+      width: 90,
+    },
+    {
+      header: "Actions",
+      accessor: (assignment) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onView(assignment);
+            }}
+            aria-label="View submissions"
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit(assignment);
+            }}
+            aria-label="Edit assignment"
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(assignment);
+            }}
+            aria-label="Delete assignment"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+      width: 150,
+    },
+  ];
+}
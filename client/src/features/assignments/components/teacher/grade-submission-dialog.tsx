@@ -0,0 +1,181 @@
+/**
+ * Grade Submission Dialog
+ * Review what a student handed in and give marks and feedback. Work handed
+ * in on paper is recorded here too, by ticking "Handed in".
+ */
+
+import { format, parseISO } from "date-fns";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { AttachmentList } from "@/common/components/attachments";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { SubmissionStatusColors, SubmissionStatusLabels } from "@/constants/assignments";
+import type { Assignment, Submission } from "@/lib/api/assignment-api";
+import { useGradeSubmission } from "../../hooks/use-assignments";
+
+const MAX_FEEDBACK_LENGTH = 500;
+
+interface GradeSubmissionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assignment: Assignment;
+  submission: Submission | null;
+}
+
+export function GradeSubmissionDialog({
+  open,
+  onOpenChange,
+  assignment,
+  submission,
+}: GradeSubmissionDialogProps) {
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [marks, setMarks] = useState("");
+  const [feedback, setFeedback] = useState("");
+  const gradeMutation = useGradeSubmission(assignment.public_id, () => onOpenChange(false));
+
+  useEffect(() => {
+    if (open && submission) {
+      setIsSubmitted(!!submission.submitted_at);
+      setMarks(submission.marks_obtained !== null ? String(submission.marks_obtained) : "");
+      setFeedback(submission.feedback);
+    }
+  }, [open, submission]);
+
+  if (!submission) {
+    return null;
+  }
+
+  const maxMarks = assignment.max_marks;
+  const marksValue = marks === "" ? null : parseFloat(marks);
+  const marksError =
+    marksValue !== null &&
+    maxMarks !== null &&
+    (isNaN(marksValue) || marksValue < 0 || marksValue > maxMarks)
+      ? `Marks must be between 0 and ${maxMarks}`
+      : null;
+  const isHandedInOnline = !!submission.content || submission.attachments.length > 0;
+
+  const handleSave = () => {
+    gradeMutation.mutate({
+      studentId: submission.student.public_id,
+      payload: {
+        is_submitted: isSubmitted,
+        marks_obtained: isSubmitted ? marksValue : null,
+        feedback: isSubmitted ? feedback.trim() : "",
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-purple-600" />
+            {submission.student.full_name}
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            Roll {submission.student.roll_number}
+            <Badge className={SubmissionStatusColors[submission.status]}>
+              {SubmissionStatusLabels[submission.status]}
+            </Badge>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {submission.submitted_at && (
+            <div className="space-y-2 rounded-lg border bg-gray-50 p-3">
+              <p className="text-muted-foreground text-xs">
+                Handed in {format(parseISO(submission.submitted_at), "MMM dd, yyyy 'at' h:mm a")}
+              </p>
+              {submission.content && (
+                <p className="text-sm whitespace-pre-wrap">{submission.content}</p>
+              )}
+              <AttachmentList attachments={submission.attachments} />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="submission-handed-in">Handed in</Label>
+              <p className="text-muted-foreground text-xs">
+                {isHandedInOnline
+                  ? "Submitted online by the parent"
+                  : "Tick for work handed in on paper"}
+              </p>
+            </div>
+            <Switch
+              id="submission-handed-in"
+              checked={isSubmitted}
+              onCheckedChange={setIsSubmitted}
+              disabled={isHandedInOnline}
+            />
+          </div>
+
+          {maxMarks !== null && (
+            <div className="space-y-2">
+              <Label htmlFor="submission-marks">Marks (out of {maxMarks})</Label>
+              <Input
+                id="submission-marks"
+                type="number"
+                step="any"
+                min={0}
+                max={maxMarks}
+                value={marks}
+                onChange={(event) => setMarks(event.target.value)}
+                disabled={!isSubmitted}
+              />
+              {marksError && <p className="text-destructive text-sm">{marksError}</p>}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="submission-feedback">Feedback</Label>
+            <Textarea
+              id="submission-feedback"
+              rows={3}
+              maxLength={MAX_FEEDBACK_LENGTH}
+              value={feedback}
+              onChange={(event) => setFeedback(event.target.value)}
+              disabled={!isSubmitted}
+              placeholder="e.g. Well done, neat and complete."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={gradeMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={gradeMutation.isPending || !!marksError}>
+            {gradeMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
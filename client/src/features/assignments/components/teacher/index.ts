@@ -0,0 +1,11 @@
+/**
+ * Assignments - Teacher Components
+ *
+ * Components for teachers setting homework, tracking who has handed it in
+ * and grading submissions.
+ */
+
+export { AssignmentList } from "./assignment-list";
+export { AssignmentFormDialog } from "./assignment-form-dialog";
+export { AssignmentSubmissions } from "./assignment-submissions";
+export { GradeSubmissionDialog } from "./grade-submission-dialog";
@@ -0,0 +1,13 @@
+/**
+ * Assignment Helpers
+ * Status lookups shared by the teacher and parent homework views.
+ */
+
+import { SubmissionStatus, type SubmissionStatusValue } from "@/constants/assignments";
+
+/**
+ * Homework the student still has to hand in
+ */
+export function isOutstanding(status: SubmissionStatusValue): boolean {
+  return status === SubmissionStatus.PENDING || status === SubmissionStatus.OVERDUE;
+}
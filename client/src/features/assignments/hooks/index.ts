@@ -0,0 +1,5 @@
+/**
+ * Assignments Feature - Hooks Export
+ */
+
+export * from "./use-assignments";
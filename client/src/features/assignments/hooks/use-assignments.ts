@@ -0,0 +1,162 @@
+/**
+ * Assignment Hooks
+ * React Query hooks for homework assignments, submission tracking and grading,
+ * and the homework of a parent's children
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteAssignment,
+  fetchAssignments,
+  fetchAssignmentSubjects,
+  fetchAssignmentSubmissions,
+  fetchChildrenAssignments,
+  gradeSubmission,
+  saveAssignment,
+  submitHomework,
+  type AssignmentFilters,
+  type AssignmentPayload,
+  type GradeSubmissionPayload,
+  type HomeworkSubmissionPayload,
+} from "@/lib/api/assignment-api";
+import { QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+function useInvalidateAssignments() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.ASSIGNMENTS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.ASSIGNMENT_SUBMISSIONS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CHILDREN_ASSIGNMENTS] });
+  };
+}
+
+// ============================================================================
+// Assignments
+// ============================================================================
+
+export function useAssignments(filters: AssignmentFilters) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.ASSIGNMENTS, filters],
+    queryFn: () => fetchAssignments(filters),
+  });
+}
+
+/**
+ * Subject assignments the signed-in teacher can set homework for
+ */
+export function useAssignmentSubjects() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.ASSIGNMENT_SUBJECTS],
+    queryFn: fetchAssignmentSubjects,
+    staleTime: STALE_TIMES.STATIC,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Create an assignment, or update the one with `publicId`
+ */
+export function useSaveAssignment(onSuccess?: () => void) {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({ payload, publicId }: { payload: AssignmentPayload; publicId?: string }) =>
+      saveAssignment(payload, publicId),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Assignment saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useDeleteAssignment(onSuccess?: () => void) {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: (publicId: string) => deleteAssignment(publicId),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Assignment deleted");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Submissions
+// ============================================================================
+
+export function useAssignmentSubmissions(publicId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.ASSIGNMENT_SUBMISSIONS, publicId],
+    queryFn: () => fetchAssignmentSubmissions(publicId),
+    enabled: !!publicId,
+    select: (response) => response.data,
+  });
+}
+
+export function useGradeSubmission(publicId: string, onSuccess?: () => void) {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({ studentId, payload }: { studentId: string; payload: GradeSubmissionPayload }) =>
+      gradeSubmission(publicId, studentId, payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Submission saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Parents
+// ============================================================================
+
+/**
+ * Homework of the signed-in parent's children, due soonest first
+ */
+export function useChildrenAssignments() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN_ASSIGNMENTS],
+    queryFn: fetchChildrenAssignments,
+    select: (response) => response.data,
+  });
+}
+
+export function useSubmitHomework(onSuccess?: () => void) {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({
+      publicId,
+      studentId,
+      payload,
+    }: {
+      publicId: string;
+      studentId: string;
+      payload: HomeworkSubmissionPayload;
+    }) => submitHomework(publicId, studentId, payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Homework submitted");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
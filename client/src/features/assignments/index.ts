@@ -0,0 +1,7 @@
+/**
+ * Assignments Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
+export { isOutstanding } from "./helpers/assignment-helpers";
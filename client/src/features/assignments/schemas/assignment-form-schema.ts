@@ -0,0 +1,17 @@
+import * as z from "zod";
+
+export const assignmentFormSchema = z.object({
+  subject_id: z.string().min(1, "Class and subject are required"),
+  title: z.string().trim().min(1, "Title is required").max(150, "Title is too long"),
+  instructions: z.string().max(2000, "Instructions are too long"),
+  due_date: z.string().min(1, "Due date is required"),
+  max_marks: z.string().refine((val) => {
+    if (!val) {
+      return true;
+    }
+    const num = parseFloat(val);
+    return !isNaN(num) && num > 0 && num <= 1000;
+  }, "Max marks must be between 1 and 1000"),
+});
+
+export type AssignmentFormValues = z.infer<typeof assignmentFormSchema>;
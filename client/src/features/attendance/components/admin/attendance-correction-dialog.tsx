@@ -0,0 +1,175 @@
+/**
+ * Attendance Correction Dialog
+ * Lets an admin manually correct a staff member's status and punch times
+ */
+
+import { format } from "date-fns";
+import { Loader2, PencilLine } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AttendanceStatus,
+  AttendanceStatusLabels,
+  type AttendanceStatusValue,
+} from "@/constants/attendance";
+import type { AttendanceCorrectionPayload, AttendanceRecord } from "@/lib/api/attendance-api";
+import { toPunchDateTime, toTimeInputValue } from "../../helpers/attendance-time-helpers";
+
+interface AttendanceCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  record: AttendanceRecord | null;
+  onSubmit: (payload: AttendanceCorrectionPayload) => void;
+  isSubmitting: boolean;
+}
+
+export function AttendanceCorrectionDialog({
+  open,
+  onOpenChange,
+  record,
+  onSubmit,
+  isSubmitting,
+}: AttendanceCorrectionDialogProps) {
+  const [status, setStatus] = useState<AttendanceStatusValue>(AttendanceStatus.PRESENT);
+  const [checkIn, setCheckIn] = useState("");
+  const [checkOut, setCheckOut] = useState("");
+  const [remarks, setRemarks] = useState("");
+
+  // Seed the form from the record whenever the dialog opens
+  useEffect(() => {
+    if (open && record) {
+      setStatus(record.status);
+      setCheckIn(toTimeInputValue(record.check_in_time));
+      setCheckOut(toTimeInputValue(record.check_out_time));
+      setRemarks("");
+    }
+  }, [open, record]);
+
+  if (!record) {
+    return null;
+  }
+
+  const hasInvalidTimes = !!checkIn && !!checkOut && checkOut <= checkIn;
+
+  const handleSubmit = () => {
+    onSubmit({
+      status,
+      check_in_time: toPunchDateTime(record.date, checkIn),
+      check_out_time: toPunchDateTime(record.date, checkOut),
+      remarks: remarks.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PencilLine className="h-5 w-5 text-indigo-600" />
+            Correct Attendance
+          </DialogTitle>
+          <DialogDescription>
+            {record.user.name} · {format(new Date(record.date), "EEEE, MMM dd, yyyy")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="correction-status">Status</Label>
+            <Select
+              value={status}
+              onValueChange={(value) => setStatus(value as AttendanceStatusValue)}
+            >
+              <SelectTrigger id="correction-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(AttendanceStatus).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {AttendanceStatusLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="correction-check-in">Check In</Label>
+              <Input
+                id="correction-check-in"
+                type="time"
+                value={checkIn}
+                onChange={(e) => setCheckIn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction-check-out">Check Out</Label>
+              <Input
+                id="correction-check-out"
+                type="time"
+                value={checkOut}
+                onChange={(e) => setCheckOut(e.target.value)}
+              />
+            </div>
+          </div>
+          {hasInvalidTimes && (
+            <p className="text-sm text-red-600">Check out must be after check in.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-remarks">Reason for Correction *</Label>
+            <Textarea
+              id="correction-remarks"
+              placeholder="e.g. Biometric device was offline, confirmed with supervisor..."
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+            <p className="text-muted-foreground text-xs">
+              The reason is stored with the record for audit purposes.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || hasInvalidTimes || !remarks.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Correction"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Geofence Form Dialog
+ * Create or edit a campus geofence, either drawn on the map or entered as centre plus radius
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Crosshair, Loader2, MapPin } from "lucide-react";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { CampusGeofence, CampusGeofencePayload } from "@/lib/api/geofence-api";
+import { useGeolocation } from "../../hooks/use-geolocation";
+import { geofenceSchema, type GeofenceFormValues } from "../../schemas/geofence-schema";
+import { GeofenceMapPicker, isGeofenceMapEnabled } from "./geofence-map-picker";
+
+const DEFAULT_RADIUS_METERS = "200";
+
+interface GeofenceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  geofence: CampusGeofence | null; // null when creating
+  onSubmit: (payload: CampusGeofencePayload) => void;
+  isSubmitting: boolean;
+}
+
+function toFormValues(geofence: CampusGeofence | null): GeofenceFormValues {
+  return {
+    name: geofence?.name ?? "",
+    latitude: geofence ? String(geofence.latitude) : "",
+    longitude: geofence ? String(geofence.longitude) : "",
+    radius_meters: geofence ? String(geofence.radius_meters) : DEFAULT_RADIUS_METERS,
+    is_active: geofence?.is_active ?? true,
+  };
+}
+
+function toNumberOrNull(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function GeofenceFormDialog({
+  open,
+  onOpenChange,
+  geofence,
+  onSubmit,
+  isSubmitting,
+}: GeofenceFormDialogProps) {
+  const isEditMode = !!geofence;
+  const { requestPosition, isLocating, error: locationError } = useGeolocation();
+
+  const form = useForm<GeofenceFormValues>({
+    resolver: zodResolver(geofenceSchema),
+    defaultValues: toFormValues(geofence),
+  });
+
+  // Reset the form whenever the dialog opens for a different geofence
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(geofence));
+    }
+  }, [open, geofence, form]);
+
+  const [latitude, longitude, radiusMeters] = form.watch([
+    "latitude",
+    "longitude",
+    "radius_meters",
+  ]);
+
+  const handleUseCurrentLocation = async () => {
+    const reading = await requestPosition();
+    if (reading) {
+      form.setValue("latitude", reading.latitude.toFixed(6), { shouldValidate: true });
+      form.setValue("longitude", reading.longitude.toFixed(6), { shouldValidate: true });
+    }
+  };
+
+  const handleSubmit = (data: GeofenceFormValues) => {
+    onSubmit({
+      name: data.name,
+      latitude: parseFloat(data.latitude),
+      longitude: parseFloat(data.longitude),
+      radius_meters: parseInt(data.radius_meters, 10),
+      is_active: data.is_active,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-indigo-600" />
+            {isEditMode ? "Edit Campus Geofence" : "Add Campus Geofence"}
+          </DialogTitle>
+          <DialogDescription>
+            Staff check-ins outside every active geofence are flagged for review
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Main Campus" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isGeofenceMapEnabled && (
+              <GeofenceMapPicker
+                value={{
+                  latitude: toNumberOrNull(latitude),
+                  longitude: toNumberOrNull(longitude),
+                  radiusMeters: toNumberOrNull(radiusMeters) ?? parseInt(DEFAULT_RADIUS_METERS, 10),
+                }}
+                onChange={(shape) => {
+                  form.setValue("latitude", String(shape.latitude), { shouldValidate: true });
+                  form.setValue("longitude", String(shape.longitude), { shouldValidate: true });
+                  form.setValue("radius_meters", String(shape.radiusMeters), {
+                    shouldValidate: true,
+                  });
+                }}
+              />
+            )}
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="latitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Centre Latitude *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="12.971599" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="longitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Centre Longitude *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" placeholder="77.594566" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="radius_meters"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Radius (meters) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min={25} max={5000} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleUseCurrentLocation}
+                disabled={isLocating}
+              >
+                {isLocating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Crosshair className="mr-2 h-4 w-4" />
+                )}
+                Use My Current Location
+              </Button>
+              {locationError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{locationError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <FormLabel className="text-base font-medium">Active</FormLabel>
+                    <FormDescription>
+                      Only active geofences are used to validate check-ins
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Geofence"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
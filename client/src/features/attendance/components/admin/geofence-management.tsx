@@ -0,0 +1,178 @@
+/**
+ * Geofence Management Component
+ * Lets admins define the campus geofences used to validate staff check-ins
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Loader2, MapPin, Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ConfirmationDialog, SuccessDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  createGeofence,
+  deleteGeofence,
+  fetchGeofences,
+  updateGeofence,
+  type CampusGeofence,
+  type CampusGeofencePayload,
+} from "@/lib/api/geofence-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { GeofenceFormDialog } from "./geofence-form-dialog";
+import { getGeofenceColumns } from "./geofence-table-columns";
+
+export function GeofenceManagement() {
+  const queryClient = useQueryClient();
+  const [formDialog, setFormDialog] = useState<{
+    open: boolean;
+    geofence: CampusGeofence | null;
+  }>({
+    open: false,
+    geofence: null,
+  });
+  const [deletingGeofence, setDeletingGeofence] = useState<CampusGeofence | null>(null);
+  const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+  const [successMessage, setSuccessMessage] = useState({ title: "", description: "" });
+
+  const {
+    data: geofencesData,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: [QUERY_KEYS.CAMPUS_GEOFENCES, "admin"],
+    queryFn: fetchGeofences,
+  });
+
+  const geofences = geofencesData?.data || [];
+
+  const onMutationSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CAMPUS_GEOFENCES] });
+    setSuccessMessage({ title, description });
+    setShowSuccessDialog(true);
+  };
+
+  // Create/Update mutation
+  const saveMutation = useMutation({
+    mutationFn: (payload: CampusGeofencePayload) =>
+      formDialog.geofence
+        ? updateGeofence(formDialog.geofence.public_id, payload)
+        : createGeofence(payload),
+    onSuccess: () => {
+      const isEdit = !!formDialog.geofence;
+      setFormDialog({ open: false, geofence: null });
+      onMutationSuccess(
+        isEdit ? "Geofence Updated!" : "Geofence Created!",
+        isEdit
+          ? "The campus geofence has been updated successfully."
+          : "The campus geofence has been created successfully."
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: (publicId: string) => deleteGeofence(publicId),
+    onSuccess: () => {
+      setDeletingGeofence(null);
+      onMutationSuccess("Geofence Deleted!", "The campus geofence has been removed.");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  const columns = getGeofenceColumns({
+    onEdit: (geofence) => setFormDialog({ open: true, geofence }),
+    onDelete: setDeletingGeofence,
+  });
+
+  const hasActiveGeofence = geofences.some((geofence) => geofence.is_active);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Campus Geofences
+            </CardTitle>
+            <CardDescription>
+              Check-ins captured outside every active geofence are flagged in the attendance
+              register
+            </CardDescription>
+          </div>
+          <Button onClick={() => setFormDialog({ open: true, geofence: null })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Geofence
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && !hasActiveGeofence && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No active geofences. Check-in locations are recorded but not validated.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && geofences.length > 0 && (
+            <DataTable
+              columns={columns}
+              data={geofences}
+              isLoading={isLoading}
+              emptyMessage="No geofences found"
+              getRowKey={(row: CampusGeofence) => row.public_id}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <GeofenceFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) => !open && setFormDialog({ open: false, geofence: null })}
+        geofence={formDialog.geofence}
+        onSubmit={(payload) => saveMutation.mutate(payload)}
+        isSubmitting={saveMutation.isPending}
+      />
+
+      <ConfirmationDialog
+        open={!!deletingGeofence}
+        onOpenChange={(open: boolean) => !open && setDeletingGeofence(null)}
+        title="Delete Geofence"
+        description={`Are you sure you want to delete "${deletingGeofence?.name}"? Existing attendance flags are not affected.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => deletingGeofence && deleteMutation.mutate(deletingGeofence.public_id)}
+      />
+
+      <SuccessDialog
+        open={showSuccessDialog}
+        onClose={() => setShowSuccessDialog(false)}
+        title={successMessage.title}
+        description={successMessage.description}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Geofence Map Picker Component
+ * Draw a circular geofence on a Google Map: click to place the centre,
+ * drag the circle to move it and drag its edge to resize.
+ * Only available when the Google Maps API is enabled; callers fall back to manual entry.
+ */
+
+import { Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { loadGoogleMapsScript } from "@/lib/google-places";
+
+export interface GeofenceShape {
+  latitude: number | null;
+  longitude: number | null;
+  radiusMeters: number;
+}
+
+interface GeofenceMapPickerProps {
+  value: GeofenceShape;
+  onChange: (value: GeofenceShape) => void;
+}
+
+// Geographic centre of India, used until a centre has been chosen
+const DEFAULT_CENTER = { lat: 20.5937, lng: 78.9629 };
+
+export const isGeofenceMapEnabled = !!import.meta.env.VITE_GOOGLE_API_KEY && import.meta.env.DEV;
+
+export function GeofenceMapPicker({ value, onChange }: GeofenceMapPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<google.maps.Map | null>(null);
+  const circleRef = useRef<google.maps.Circle | null>(null);
+  const onChangeRef = useRef(onChange);
+  const valueRef = useRef(value);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  onChangeRef.current = onChange;
+  valueRef.current = value;
+
+  // Initialize the map once
+  useEffect(() => {
+    let mounted = true;
+    const listeners: google.maps.MapsEventListener[] = [];
+
+    const emitFromCircle = () => {
+      const circle = circleRef.current;
+      const center = circle?.getCenter();
+      if (!circle || !center) {
+        return;
+      }
+      onChangeRef.current({
+        latitude: Number(center.lat().toFixed(6)),
+        longitude: Number(center.lng().toFixed(6)),
+        radiusMeters: Math.round(circle.getRadius()),
+      });
+    };
+
+    const placeCircle = (center: google.maps.LatLngLiteral, radius: number) => {
+      if (!mapRef.current) {
+        return;
+      }
+      if (circleRef.current) {
+        circleRef.current.setCenter(center);
+        circleRef.current.setRadius(radius);
+        return;
+      }
+      circleRef.current = new google.maps.Circle({
+        map: mapRef.current,
+        center,
+        radius,
+        editable: true,
+        draggable: true,
+        fillColor: "#6366f1",
+        fillOpacity: 0.2,
+        strokeColor: "#4f46e5",
+        strokeWeight: 2,
+      });
+      listeners.push(circleRef.current.addListener("center_changed", emitFromCircle));
+      listeners.push(circleRef.current.addListener("radius_changed", emitFromCircle));
+    };
+
+    const initMap = async () => {
+      try {
+        await loadGoogleMapsScript();
+        if (!mounted || !containerRef.current) {
+          return;
+        }
+
+        const { latitude, longitude, radiusMeters } = valueRef.current;
+        const hasCenter = latitude !== null && longitude !== null;
+
+        mapRef.current = new google.maps.Map(containerRef.current, {
+          center: hasCenter ? { lat: latitude, lng: longitude } : DEFAULT_CENTER,
+          zoom: hasCenter ? 16 : 5,
+          mapTypeControl: false,
+          streetViewControl: false,
+          fullscreenControl: false,
+        });
+
+        if (hasCenter) {
+          placeCircle({ lat: latitude, lng: longitude }, radiusMeters);
+        }
+
+        listeners.push(
+          mapRef.current.addListener("click", (event) => {
+            if (!event.latLng) {
+              return;
+            }
+            placeCircle(
+              { lat: event.latLng.lat(), lng: event.latLng.lng() },
+              valueRef.current.radiusMeters
+            );
+            emitFromCircle();
+          })
+        );
+
+        setIsLoading(false);
+      } catch (error) {
+        console.error("Failed to load Google Maps:", error);
+        if (mounted) {
+          setLoadError(true);
+          setIsLoading(false);
+        }
+      }
+    };
+
+    initMap();
+
+    return () => {
+      mounted = false;
+      listeners.forEach((listener) => listener.remove());
+      circleRef.current?.setMap(null);
+      circleRef.current = null;
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Keep the circle in sync with values typed into the form
+  useEffect(() => {
+    const circle = circleRef.current;
+    const center = circle?.getCenter();
+    if (!circle || !center || value.latitude === null || value.longitude === null) {
+      return;
+    }
+    if (
+      Math.abs(center.lat() - value.latitude) > 1e-6 ||
+      Math.abs(center.lng() - value.longitude) > 1e-6
+    ) {
+      circle.setCenter({ lat: value.latitude, lng: value.longitude });
+      mapRef.current?.panTo({ lat: value.latitude, lng: value.longitude });
+    }
+    if (Math.round(circle.getRadius()) !== value.radiusMeters && value.radiusMeters > 0) {
+      circle.setRadius(value.radiusMeters);
+    }
+  }, [value.latitude, value.longitude, value.radiusMeters]);
+
+  if (loadError) {
+    return (
+      <p className="text-destructive text-sm">
+        Failed to load the map. Please enter the centre coordinates and radius manually.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-64 w-full overflow-hidden rounded-lg border">
+        <div ref={containerRef} className="h-full w-full" />
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/70">
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+          </div>
+        )}
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Click the map to place the campus centre, then drag the circle or its edge to adjust.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Geofence Table Columns
+ * Column definitions for the campus geofence data table
+ */
+
+import { Edit, ExternalLink, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import type { CampusGeofence } from "@/lib/api/geofence-api";
+import { formatDistance } from "../../helpers/geofence-helpers";
+
+interface GetGeofenceColumnsProps {
+  onEdit: (geofence: CampusGeofence) => void;
+  onDelete: (geofence: CampusGeofence) => void;
+}
+
+export function getGeofenceColumns({
+  onEdit,
+  onDelete,
+}: GetGeofenceColumnsProps): Column<CampusGeofence>[] {
+  return [
+    {
+      header: "Name",
+      accessor: (geofence) => <div className="font-medium">{geofence.name}</div>,
+      sortable: true,
+      sortKey: "name",
+      width: 200,
+    },
+    {
+      header: "Centre",
+      accessor: (geofence) => (
+        <a
+          href={`https://www.google.com/maps?q=${geofence.latitude},${geofence.longitude}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {geofence.latitude.toFixed(5)}, {geofence.longitude.toFixed(5)}
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      ),
+      width: 220,
+    },
+    {
+      header: "Radius",
+      accessor: (geofence) => (
+        <div className="text-sm">{formatDistance(geofence.radius_meters)}</div>
+      ),
+      sortable: true,
+      sortKey: "radius_meters",
+      width: 110,
+    },
+    {
+      header: "Status",
+      accessor: (geofence) =>
+        geofence.is_active ? (
+          <Badge className="bg-green-100 text-green-800">Active</Badge>
+        ) : (
+          <Badge variant="secondary">Inactive</Badge>
+        ),
+      width: 110,
+    },
+    {
+      header: "Actions",
+      accessor: (geofence) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit(geofence);
+            }}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(geofence);
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+      width: 120,
+    },
+  ];
+}
@@ -0,0 +1,20 @@
+/**
+ * Attendance - Admin Components
+ *
+ * Components for administrators managing the staff attendance register
+ * and the campus geofences used to validate check-ins, and for supervisors
+ * reviewing attendance regularization requests.
+ */
+
+export { StaffAttendanceRegister } from "./staff-attendance-register";
+export { StaffAttendanceDetailDialog } from "./staff-attendance-detail-dialog";
+export { AttendanceCorrectionDialog } from "./attendance-correction-dialog";
+export { getStaffAttendanceColumns } from "./staff-attendance-table-columns";
+export { OutOfGeofenceBadge } from "./out-of-geofence-badge";
+export { GeofenceManagement } from "./geofence-management";
+export { GeofenceFormDialog } from "./geofence-form-dialog";
+export { GeofenceMapPicker } from "./geofence-map-picker";
+export { getGeofenceColumns } from "./geofence-table-columns";
+export { RegularizationReview } from "./regularization-review";
+export { RegularizationReviewDialog } from "./regularization-review-dialog";
+export { getRegularizationReviewColumns } from "./regularization-review-table-columns";
@@ -0,0 +1,26 @@
+/**
+ * Out of Geofence Badge
+ * Flags a punch that was captured outside every active campus geofence
+ */
+
+import { MapPinOff } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatDistance } from "../../helpers/geofence-helpers";
+
+interface OutOfGeofenceBadgeProps {
+  distanceMeters?: number | null;
+}
+
+export function OutOfGeofenceBadge({ distanceMeters }: OutOfGeofenceBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 border-red-200 bg-red-50 text-xs text-red-700"
+      title="Punch location was outside all active campus geofences"
+    >
+      <MapPinOff className="h-3 w-3" />
+      Off-campus
+      {distanceMeters ? ` (${formatDistance(distanceMeters)})` : ""}
+    </Badge>
+  );
+}
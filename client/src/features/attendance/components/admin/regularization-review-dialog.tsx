@@ -0,0 +1,158 @@
+/**
+ * Regularization Review Dialog
+ * Dialog for approving/rejecting attendance regularization requests with comments
+ */
+
+import { format } from "date-fns";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RegularizationTypeLabels } from "@/constants/attendance";
+import type { AttendanceRegularization } from "@/lib/api/regularization-api";
+import { RegularizationChangeSummary } from "../regularization-change-summary";
+
+interface RegularizationReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: AttendanceRegularization | null;
+  action: "approve" | "reject" | null;
+  onSubmit: (comments: string) => void;
+  isSubmitting: boolean;
+}
+
+export function RegularizationReviewDialog({
+  open,
+  onOpenChange,
+  request,
+  action,
+  onSubmit,
+  isSubmitting,
+}: RegularizationReviewDialogProps) {
+  const [comments, setComments] = useState("");
+
+  // Reset comments when dialog opens/closes
+  useEffect(() => {
+    if (!open) {
+      setComments("");
+    }
+  }, [open]);
+
+  if (!request || !action) {
+    return null;
+  }
+
+  const isApprove = action === "approve";
+  const ActionIcon = isApprove ? CheckCircle : XCircle;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ActionIcon className={isApprove ? "h-5 w-5 text-green-600" : "h-5 w-5 text-red-600"} />
+            {isApprove ? "Approve" : "Reject"} Regularization Request
+          </DialogTitle>
+          <DialogDescription>
+            {isApprove
+              ? "Approving updates the attendance record; the original values are kept for audit"
+              : "Reject this regularization request and provide a reason"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Request Details */}
+          <div className="bg-muted space-y-3 rounded-lg p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-muted-foreground text-sm">Employee</p>
+                <p className="font-medium">{request.user_name}</p>
+                <p className="text-muted-foreground text-xs">{request.email}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground text-sm">Date</p>
+                <p className="font-medium">
+                  {format(new Date(request.date), "EEEE, MMM dd, yyyy")}
+                </p>
+                <Badge variant="outline" className="mt-1">
+                  {RegularizationTypeLabels[request.regularization_type]}
+                </Badge>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-muted-foreground mb-1 text-sm">Original → Requested</p>
+              <RegularizationChangeSummary request={request} />
+            </div>
+
+            <div>
+              <p className="text-muted-foreground text-sm">Reason</p>
+              <p className="mt-1 text-sm whitespace-pre-wrap">{request.reason}</p>
+            </div>
+
+            <div>
+              <p className="text-muted-foreground text-sm">Applied At</p>
+              <p className="text-sm">
+                {format(new Date(request.applied_at), "MMM dd, yyyy hh:mm a")}
+              </p>
+            </div>
+          </div>
+
+          {/* Comments Input */}
+          <div className="space-y-2">
+            <Label htmlFor="regularization-comments">
+              {isApprove ? "Comments (Optional)" : "Rejection Reason *"}
+            </Label>
+            <Textarea
+              id="regularization-comments"
+              placeholder={
+                isApprove
+                  ? "Add any additional comments..."
+                  : "Please provide a reason for rejection..."
+              }
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={4}
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit(comments)}
+            disabled={isSubmitting || (!isApprove && !comments.trim())}
+            className={
+              isApprove ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"
+            }
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isApprove ? "Approving..." : "Rejecting..."}
+              </>
+            ) : (
+              <>
+                <ActionIcon className="mr-2 h-4 w-4" />
+                {isApprove ? "Approve Request" : "Reject Request"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Regularization Review Table Columns
+ * Column definitions for the attendance regularization review data table
+ */
+
+import { format } from "date-fns";
+import { CheckCircle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { RegularizationStatus, RegularizationTypeLabels } from "@/constants/attendance";
+import type { AttendanceRegularization } from "@/lib/api/regularization-api";
+import {
+  RegularizationChangeSummary,
+  RegularizationStatusBadge,
+} from "../regularization-change-summary";
+
+interface GetRegularizationReviewColumnsProps {
+  onApprove: (request: AttendanceRegularization) => void;
+  onReject: (request: AttendanceRegularization) => void;
+  onViewUser: (userPublicId: string, userName: string) => void;
+}
+
+export function getRegularizationReviewColumns({
+  onApprove,
+  onReject,
+  onViewUser,
+}: GetRegularizationReviewColumnsProps): Column<AttendanceRegularization>[] {
+  return [
+    {
+      header: "Employee",
+      accessor: (request) => (
+        <div className="min-w-[200px]">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onViewUser(request.user_public_id, request.user_name);
+            }}
+            className="w-full text-left transition-colors hover:text-indigo-600"
+          >
+            <div className="truncate font-medium hover:underline">{request.user_name}</div>
+            <div className="text-muted-foreground truncate text-xs">{request.user_role}</div>
+            <div className="text-muted-foreground truncate text-xs" title={request.email}>
+              {request.email}
+            </div>
+          </button>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "user_name",
+      width: 220,
+      minWidth: 200,
+    },
+    {
+      header: "Date",
+      accessor: (request) => (
+        <div>
+          <div className="text-sm">{format(new Date(request.date), "EEE, MMM dd, yyyy")}</div>
+          <Badge variant="outline" className="mt-1">
+            {RegularizationTypeLabels[request.regularization_type]}
+          </Badge>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "date",
+      width: 180,
+    },
+    {
+      header: "Correction",
+      accessor: (request) => <RegularizationChangeSummary request={request} />,
+      width: 240,
+    },
+    {
+      header: "Status",
+      accessor: (request) => <RegularizationStatusBadge status={request.status} />,
+      sortable: true,
+      sortKey: "status",
+    },
+    {
+      header: "Reason",
+      accessor: (request) => (
+        <div className="max-w-xs truncate" title={request.reason}>
+          {request.reason}
+        </div>
+      ),
+    },
+    {
+      header: "Applied At",
+      accessor: (request) => (
+        <div className="text-sm">
+          {format(new Date(request.applied_at), "MMM dd, yyyy")}
+          <div className="text-muted-foreground text-xs">
+            {format(new Date(request.applied_at), "hh:mm a")}
+          </div>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "applied_at",
+    },
+    {
+      header: "Supervisor",
+      accessor: (request) => request.supervisor_name || "N/A",
+      sortable: true,
+      sortKey: "supervisor_name",
+    },
+    {
+      header: "Actions",
+      accessor: (request) =>
+        request.status === RegularizationStatus.PENDING ? (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="default"
+              className="bg-green-600 hover:bg-green-700"
+              onClick={(e) => {
+                e.stopPropagation();
+                onApprove(request);
+              }}
+            >
+              <CheckCircle className="mr-1 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                onReject(request);
+              }}
+            >
+              <XCircle className="mr-1 h-4 w-4" />
+              Reject
+            </Button>
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-xs">
+            {request.reviewed_by_name ? `Reviewed by ${request.reviewed_by_name}` : "—"}
+          </div>
+        ),
+      width: 220,
+      minWidth: 200,
+    },
+  ];
+}
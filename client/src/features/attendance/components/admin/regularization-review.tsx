@@ -0,0 +1,355 @@
+/**
+ * Regularization Review Component
+ * For supervisors/admins to review and approve/reject attendance regularization requests
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { SuccessDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import {
+  RegularizationStatus,
+  RegularizationStatusLabels,
+  RegularizationType,
+  RegularizationTypeLabels,
+} from "@/constants/attendance";
+import { fetchManageableUsersWithBalances } from "@/lib/api/leave-api";
+import {
+  approveRegularization,
+  fetchRegularizationReviews,
+  rejectRegularization,
+  type AttendanceRegularization,
+  type RegularizationReviewPayload,
+} from "@/lib/api/regularization-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { RegularizationReviewDialog } from "./regularization-review-dialog";
+import { getRegularizationReviewColumns } from "./regularization-review-table-columns";
+import { StaffAttendanceDetailDialog } from "./staff-attendance-detail-dialog";
+
+export function RegularizationReview() {
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<Record<string, string>>({
+    status: RegularizationStatus.PENDING,
+  });
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [reviewDialog, setReviewDialog] = useState<{
+    open: boolean;
+    request: AttendanceRegularization | null;
+    action: "approve" | "reject" | null;
+  }>({
+    open: false,
+    request: null,
+    action: null,
+  });
+  const [detailDialog, setDetailDialog] = useState<{
+    open: boolean;
+    userPublicId: string;
+    userName: string;
+  }>({
+    open: false,
+    userPublicId: "",
+    userName: "",
+  });
+  const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+  const [successMessage, setSuccessMessage] = useState({ title: "", description: "" });
+
+  // Fetch manageable users for the dropdown
+  const { data: usersData } = useQuery({
+    queryKey: ["manageable-users", "staff", ""],
+    queryFn: () => fetchManageableUsersWithBalances({ role: "staff" }),
+    staleTime: 300000, // 5 minutes
+  });
+
+  const users = usersData?.data?.users || [];
+
+  // Fetch regularization requests for review
+  const {
+    data: requestsData,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [QUERY_KEYS.REGULARIZATION_REVIEWS, filters, page, pageSize],
+    queryFn: () =>
+      fetchRegularizationReviews({
+        page,
+        page_size: pageSize,
+        ...filters,
+      }),
+    refetchOnMount: "always",
+    refetchOnWindowFocus: true,
+  });
+
+  const requests = requestsData?.data || [];
+  const totalCount = requestsData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const handleReviewSuccess = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.REGULARIZATION_REVIEWS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.STAFF_ATTENDANCE] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER_ATTENDANCE] });
+    setReviewDialog({ open: false, request: null, action: null });
+    setSuccessMessage({ title, description });
+    setShowSuccessDialog(true);
+  };
+
+  // Approve mutation
+  const approveMutation = useMutation({
+    mutationFn: ({
+      publicId,
+      payload,
+    }: {
+      publicId: string;
+      payload: RegularizationReviewPayload;
+    }) => approveRegularization(publicId, payload),
+    onSuccess: () => {
+      handleReviewSuccess(
+        "Regularization Approved!",
+        "The attendance record has been updated. Original values are retained for audit."
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  // Reject mutation
+  const rejectMutation = useMutation({
+    mutationFn: ({
+      publicId,
+      payload,
+    }: {
+      publicId: string;
+      payload: RegularizationReviewPayload;
+    }) => rejectRegularization(publicId, payload),
+    onSuccess: () => {
+      handleReviewSuccess(
+        "Regularization Rejected!",
+        "The regularization request has been rejected successfully."
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  const handleSubmitReview = (comments: string) => {
+    if (!reviewDialog.request || !reviewDialog.action) {
+      return;
+    }
+
+    const payload: RegularizationReviewPayload = { comments };
+    const publicId = reviewDialog.request.public_id;
+
+    if (reviewDialog.action === "approve") {
+      approveMutation.mutate({ publicId, payload });
+    } else {
+      rejectMutation.mutate({ publicId, payload });
+    }
+  };
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const columns = getRegularizationReviewColumns({
+    onApprove: (request) => setReviewDialog({ open: true, request, action: "approve" }),
+    onReject: (request) => setReviewDialog({ open: true, request, action: "reject" }),
+    onViewUser: (userPublicId, userName) => setDetailDialog({ open: true, userPublicId, userName }),
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "status",
+      label: "Status",
+      type: "select",
+      placeholder: "All Statuses",
+      searchPlaceholder: "Search status...",
+      options: Object.values(RegularizationStatus).map((status) => ({
+        value: status,
+        label: RegularizationStatusLabels[status],
+      })),
+    },
+    {
+      name: "regularization_type",
+      label: "Request Type",
+      type: "select",
+      placeholder: "All Types",
+      searchPlaceholder: "Search type...",
+      options: Object.values(RegularizationType).map((type) => ({
+        value: type,
+        label: RegularizationTypeLabels[type],
+      })),
+    },
+    {
+      name: "user",
+      label: "Search User",
+      type: "combobox",
+      placeholder: "Select user",
+      searchPlaceholder: "Search by name or email...",
+      emptyText: "No users found.",
+      options: users.map((user) => ({
+        value: user.public_id,
+        label: `${user.full_name} (${user.email})`,
+      })),
+    },
+    {
+      name: "date_range",
+      label: "Attendance Date",
+      type: "daterange",
+      startDateName: "date__gte",
+      endDateName: "date__lte",
+    },
+  ];
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !requestsData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading regularization requests for review...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load regularization requests. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Attendance Regularizations</h2>
+          <p className="text-gray-600">Review correction requests for missed or wrong punches</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      {/* Regularization Requests Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Regularization Requests</CardTitle>
+          <CardDescription>Staff attendance corrections awaiting your review</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && requestsData && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="mr-2 h-6 w-6 animate-spin text-indigo-600" />
+              <span className="text-muted-foreground text-sm">Refreshing requests...</span>
+            </div>
+          )}
+          {!isLoading && requests.length === 0 && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                {filters.status === RegularizationStatus.PENDING || !filters.status
+                  ? "No pending regularization requests found to review."
+                  : "No regularization requests found matching the selected filters."}
+              </AlertDescription>
+            </Alert>
+          )}
+          {!isLoading && requests.length > 0 && (
+            <>
+              <DataTable
+                columns={columns}
+                data={requests}
+                isLoading={isLoading}
+                emptyMessage="No regularization requests found"
+                getRowKey={(row: AttendanceRegularization) => row.public_id}
+              />
+
+              {totalCount > 0 && (
+                <div className="mt-4">
+                  <TablePagination
+                    currentPage={page}
+                    totalPages={totalPages}
+                    totalRecords={totalCount}
+                    pageSize={pageSize}
+                    onPageChange={setPage}
+                    onPageSizeChange={handlePageSizeChange}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <RegularizationReviewDialog
+        open={reviewDialog.open}
+        onOpenChange={(open: boolean) =>
+          !open && setReviewDialog({ open: false, request: null, action: null })
+        }
+        request={reviewDialog.request}
+        action={reviewDialog.action}
+        onSubmit={handleSubmitReview}
+        isSubmitting={approveMutation.isPending || rejectMutation.isPending}
+      />
+
+      {/* Employee Attendance Drill-down */}
+      <StaffAttendanceDetailDialog
+        open={detailDialog.open}
+        onClose={() => setDetailDialog({ open: false, userPublicId: "", userName: "" })}
+        userPublicId={detailDialog.userPublicId}
+        userName={detailDialog.userName}
+      />
+
+      {/* Success Dialog */}
+      <SuccessDialog
+        open={showSuccessDialog}
+        onClose={() => setShowSuccessDialog(false)}
+        title={successMessage.title}
+        description={successMessage.description}
+      />
+    </div>
+  );
+}
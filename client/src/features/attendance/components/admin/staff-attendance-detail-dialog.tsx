@@ -0,0 +1,182 @@
+/**
+ * Staff Attendance Detail Dialog
+ * Per-person drill-down showing attendance summary and day-by-day history
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/data-table";
+import type { Column } from "@/components/ui/data-table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  type AttendanceStatusValue,
+} from "@/constants/attendance";
+import { fetchUserAttendance, type AttendanceRecord } from "@/lib/api/attendance-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { formatPunchTime } from "../../helpers/attendance-time-helpers";
+import { OutOfGeofenceBadge } from "./out-of-geofence-badge";
+
+interface StaffAttendanceDetailDialogProps {
+  open: boolean;
+  onClose: () => void;
+  userPublicId: string;
+  userName: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export function StaffAttendanceDetailDialog({
+  open,
+  onClose,
+  userPublicId,
+  userName,
+  startDate,
+  endDate,
+}: StaffAttendanceDetailDialogProps) {
+  // Default to the current month when the register has no date range applied
+  const rangeStart = startDate || format(startOfMonth(new Date()), "yyyy-MM-dd");
+  const rangeEnd = endDate || format(new Date(), "yyyy-MM-dd");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [QUERY_KEYS.USER_ATTENDANCE, userPublicId, rangeStart, rangeEnd],
+    queryFn: () =>
+      fetchUserAttendance(userPublicId, { start_date: rangeStart, end_date: rangeEnd }),
+    enabled: open && !!userPublicId,
+    staleTime: 30000, // 30 seconds
+  });
+
+  const records = data?.data?.records || [];
+  const summary = data?.data?.summary;
+
+  const columns: Column<AttendanceRecord>[] = [
+    {
+      header: "Date",
+      accessor: (record) => (
+        <div className="text-sm">{format(new Date(record.date), "EEE, MMM dd, yyyy")}</div>
+      ),
+      width: 170,
+    },
+    {
+      header: "In / Out",
+      accessor: (record) => (
+        <div className="flex flex-col items-start gap-1">
+          <span className="text-sm">
+            {formatPunchTime(record.check_in_time)} – {formatPunchTime(record.check_out_time)}
+          </span>
+          {(record.check_in_within_geofence === false ||
+            record.check_out_within_geofence === false) && (
+            <OutOfGeofenceBadge distanceMeters={record.check_in_distance_meters} />
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Hours",
+      accessor: (record) => (
+        <div className="text-sm">{record.work_hours > 0 ? record.work_hours.toFixed(2) : "—"}</div>
+      ),
+    },
+    {
+      header: "Status",
+      accessor: (record) => {
+        const status = record.status as AttendanceStatusValue;
+        return (
+          <Badge className={AttendanceStatusColors[status]}>
+            {AttendanceStatusLabels[status] ?? record.status}
+          </Badge>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="flex max-h-[85vh] max-w-4xl flex-col">
+        <DialogHeader>
+          <DialogTitle>{userName}&apos;s Attendance</DialogTitle>
+          <DialogDescription>
+            {format(new Date(rangeStart), "MMM dd, yyyy")} –{" "}
+            {format(new Date(rangeEnd), "MMM dd, yyyy")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && summary && (
+            <div className="space-y-6 pb-4">
+              {/* Summary Cards */}
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                <div className="rounded-lg border p-4">
+                  <div className="text-muted-foreground text-sm">Working Days</div>
+                  <div className="text-2xl font-bold">{summary.total_days}</div>
+                </div>
+                <div className="rounded-lg border border-green-200 bg-green-50 p-4">
+                  <div className="text-muted-foreground text-sm">Present</div>
+                  <div className="text-2xl font-bold text-green-700">{summary.present_days}</div>
+                </div>
+                <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+                  <div className="text-muted-foreground text-sm">Absent</div>
+                  <div className="text-2xl font-bold text-red-700">{summary.absent_days}</div>
+                </div>
+                <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+                  <div className="text-muted-foreground text-sm">Half Days</div>
+                  <div className="text-2xl font-bold text-yellow-700">{summary.half_days}</div>
+                </div>
+                <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-4">
+                  <div className="text-muted-foreground text-sm">Attendance</div>
+                  <div className="text-2xl font-bold text-indigo-700">
+                    {summary.attendance_percentage.toFixed(1)}%
+                  </div>
+                </div>
+              </div>
+
+              {records.length === 0 ? (
+                <Alert>
+                  <AlertDescription>No attendance records found for this period.</AlertDescription>
+                </Alert>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={records}
+                  isLoading={isLoading}
+                  emptyMessage="No attendance records found"
+                  getRowKey={(row: AttendanceRecord) => row.public_id}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-shrink-0 justify-end border-t pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * Staff Attendance Register Component
+ * Admin console for the daily staff attendance register with filters,
+ * per-person drill-down and manual corrections
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, CalendarCheck, Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { SuccessDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import { AttendanceStatus, AttendanceStatusLabels } from "@/constants/attendance";
+import { PERMISSIONS, usePermissions } from "@/core/permissions";
+import {
+  correctAttendanceRecord,
+  fetchStaffAttendance,
+  type AttendanceCorrectionPayload,
+  type AttendanceRecord,
+} from "@/lib/api/attendance-api";
+import { fetchOrganizationRoles } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { AttendanceCorrectionDialog } from "./attendance-correction-dialog";
+import { StaffAttendanceDetailDialog } from "./staff-attendance-detail-dialog";
+import { getStaffAttendanceColumns } from "./staff-attendance-table-columns";
+
+function getDefaultFilters(): Record<string, string> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return { start_date: today, end_date: today };
+}
+
+export function StaffAttendanceRegister() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [filters, setFilters] = useState<Record<string, string>>(getDefaultFilters);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [detailDialog, setDetailDialog] = useState<{
+    open: boolean;
+    userPublicId: string;
+    userName: string;
+  }>({
+    open: false,
+    userPublicId: "",
+    userName: "",
+  });
+  const [correctionDialog, setCorrectionDialog] = useState<{
+    open: boolean;
+    record: AttendanceRecord | null;
+  }>({
+    open: false,
+    record: null,
+  });
+  const [showSuccessDialog, setShowSuccessDialog] = useState(false);
+
+  // Fetch organization roles for filter
+  const { data: rolesData } = useQuery({
+    queryKey: ["organization-roles"],
+    queryFn: fetchOrganizationRoles,
+    staleTime: 300000, // 5 minutes
+  });
+
+  const roles = rolesData?.data || [];
+
+  // Fetch staff attendance register
+  const {
+    data: attendanceData,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [QUERY_KEYS.STAFF_ATTENDANCE, filters, page, pageSize],
+    queryFn: () =>
+      fetchStaffAttendance({
+        page,
+        page_size: pageSize,
+        ordering: "-date",
+        ...filters,
+      }),
+    refetchOnMount: "always",
+    refetchOnWindowFocus: true,
+  });
+
+  const records = attendanceData?.data || [];
+  const totalCount = attendanceData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  // Correction mutation
+  const correctMutation = useMutation({
+    mutationFn: ({
+      publicId,
+      payload,
+    }: {
+      publicId: string;
+      payload: AttendanceCorrectionPayload;
+    }) => correctAttendanceRecord(publicId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.STAFF_ATTENDANCE] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER_ATTENDANCE] });
+      setCorrectionDialog({ open: false, record: null });
+      setShowSuccessDialog(true);
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(getDefaultFilters());
+    setPage(1);
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const handleViewUser = (userPublicId: string, userName: string) => {
+    setDetailDialog({ open: true, userPublicId, userName });
+  };
+
+  const handleCloseDetailDialog = () => {
+    setDetailDialog({ open: false, userPublicId: "", userName: "" });
+  };
+
+  const handleCorrect = (record: AttendanceRecord) => {
+    setCorrectionDialog({ open: true, record });
+  };
+
+  const handleSubmitCorrection = (payload: AttendanceCorrectionPayload) => {
+    if (!correctionDialog.record) {
+      return;
+    }
+    correctMutation.mutate({ publicId: correctionDialog.record.public_id, payload });
+  };
+
+  const columns = getStaffAttendanceColumns({
+    onViewUser: handleViewUser,
+    onCorrect: can(PERMISSIONS.STAFF_ATTENDANCE_MANAGE) ? handleCorrect : undefined,
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "date_range",
+      label: "Date Range",
+      type: "daterange",
+      startDateName: "start_date",
+      endDateName: "end_date",
+    },
+    {
+      name: "role",
+      label: "Role",
+      type: "select",
+      placeholder: "All Roles",
+      searchPlaceholder: "Search role...",
+      options: roles.map((role) => ({
+        value: role.code,
+        label: role.name,
+      })),
+    },
+    {
+      name: "status",
+      label: "Status",
+      type: "select",
+      placeholder: "All Statuses",
+      searchPlaceholder: "Search status...",
+      options: Object.values(AttendanceStatus).map((status) => ({
+        value: status,
+        label: AttendanceStatusLabels[status],
+      })),
+    },
+    {
+      name: "outside_geofence",
+      label: "Location",
+      type: "select",
+      placeholder: "All Locations",
+      options: [
+        { value: "true", label: "Off-campus punches" },
+        { value: "false", label: "On-campus punches" },
+      ],
+    },
+    {
+      name: "search",
+      label: "Search",
+      type: "text",
+      placeholder: "Search by name or email...",
+    },
+  ];
+
+  const isSingleDay = !!filters.start_date && filters.start_date === filters.end_date;
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !attendanceData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading staff attendance...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load staff attendance. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Staff Attendance</h2>
+          <p className="text-gray-600">Monitor daily attendance and correct staff records</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      {/* Attendance Register Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Attendance Register</CardTitle>
+          <CardDescription>
+            {isSingleDay
+              ? `Staff attendance for ${format(new Date(filters.start_date), "EEEE, MMM dd, yyyy")}`
+              : "Staff attendance for the selected period"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && attendanceData && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="mr-2 h-6 w-6 animate-spin text-indigo-600" />
+              <span className="text-muted-foreground text-sm">Refreshing attendance...</span>
+            </div>
+          )}
+          {!isLoading && records.length === 0 && (
+            <Alert>
+              <CalendarCheck className="h-4 w-4" />
+              <AlertDescription>
+                No attendance records found matching the selected filters.
+              </AlertDescription>
+            </Alert>
+          )}
+          {!isLoading && records.length > 0 && (
+            <>
+              <DataTable
+                columns={columns}
+                data={records}
+                isLoading={isLoading}
+                emptyMessage="No attendance records found"
+                getRowKey={(row: AttendanceRecord) => row.public_id}
+              />
+
+              {totalCount > 0 && (
+                <div className="mt-4">
+                  <TablePagination
+                    currentPage={page}
+                    totalPages={totalPages}
+                    totalRecords={totalCount}
+                    pageSize={pageSize}
+                    onPageChange={handlePageChange}
+                    onPageSizeChange={handlePageSizeChange}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-person Drill-down */}
+      <StaffAttendanceDetailDialog
+        open={detailDialog.open}
+        onClose={handleCloseDetailDialog}
+        userPublicId={detailDialog.userPublicId}
+        userName={detailDialog.userName}
+        startDate={filters.start_date}
+        endDate={filters.end_date}
+      />
+
+      {/* Correction Dialog */}
+      <AttendanceCorrectionDialog
+        open={correctionDialog.open}
+        onOpenChange={(open: boolean) =>
+          !open && setCorrectionDialog({ open: false, record: null })
+        }
+        record={correctionDialog.record}
+        onSubmit={handleSubmitCorrection}
+        isSubmitting={correctMutation.isPending}
+      />
+
+      {/* Success Dialog */}
+      <SuccessDialog
+        open={showSuccessDialog}
+        onClose={() => setShowSuccessDialog(false)}
+        title="Attendance Corrected!"
+        description="The attendance record has been updated successfully."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Staff Attendance Table Columns
+ * Column definitions for the admin staff attendance register
+ */
+
+import { format } from "date-fns";
+import { History, PencilLine } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import {
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  type AttendanceStatusValue,
+} from "@/constants/attendance";
+import type { AttendanceRecord } from "@/lib/api/attendance-api";
+import { formatPunchTime } from "../../helpers/attendance-time-helpers";
+import { OutOfGeofenceBadge } from "./out-of-geofence-badge";
+
+interface GetStaffAttendanceColumnsProps {
+  onViewUser: (userPublicId: string, userName: string) => void;
+  onCorrect?: (record: AttendanceRecord) => void;
+}
+
+export function getStaffAttendanceColumns({
+  onViewUser,
+  onCorrect,
+}: GetStaffAttendanceColumnsProps): Column<AttendanceRecord>[] {
+  return [
+    {
+      header: "Staff Member",
+      accessor: (record) => (
+        <div className="min-w-[200px]">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onViewUser(record.user.public_id, record.user.name);
+            }}
+            className="w-full text-left transition-colors hover:text-indigo-600"
+          >
+            <div className="truncate font-medium hover:underline">{record.user.name}</div>
+            <div className="text-muted-foreground truncate text-xs">{record.user.role}</div>
+            <div className="text-muted-foreground truncate text-xs" title={record.user.email}>
+              {record.user.email}
+            </div>
+          </button>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "user__first_name",
+      width: 240,
+      minWidth: 200,
+    },
+    {
+      header: "Date",
+      accessor: (record) => (
+        <div className="text-sm">{format(new Date(record.date), "EEE, MMM dd, yyyy")}</div>
+      ),
+      sortable: true,
+      sortKey: "date",
+      width: 170,
+    },
+    {
+      header: "Check In",
+      accessor: (record) => (
+        <div className="flex flex-col items-start gap-1">
+          <span className="text-sm">{formatPunchTime(record.check_in_time)}</span>
+          {record.check_in_within_geofence === false && (
+            <OutOfGeofenceBadge distanceMeters={record.check_in_distance_meters} />
+          )}
+        </div>
+      ),
+      width: 140,
+    },
+    {
+      header: "Check Out",
+      accessor: (record) => (
+        <div className="flex flex-col items-start gap-1">
+          <span className="text-sm">{formatPunchTime(record.check_out_time)}</span>
+          {record.check_out_within_geofence === false && <OutOfGeofenceBadge />}
+        </div>
+      ),
+      width: 140,
+    },
+    {
+      header: "Work Hours",
+      accessor: (record) => (
+        <div className="text-sm">
+          {record.work_hours > 0 ? `${record.work_hours.toFixed(2)} hrs` : "—"}
+        </div>
+      ),
+      sortable: true,
+      sortKey: "work_hours",
+      width: 120,
+    },
+    {
+      header: "Status",
+      accessor: (record) => {
+        const status = record.status as AttendanceStatusValue;
+        return (
+          <div className="flex flex-col items-start gap-1">
+            <Badge className={AttendanceStatusColors[status]}>
+              {AttendanceStatusLabels[status] ?? record.status}
+            </Badge>
+            {record.is_regularized && (
+              <span className="text-muted-foreground text-xs">Regularized</span>
+            )}
+            {record.is_corrected && (
+              <span className="text-muted-foreground text-xs" title={record.remarks ?? undefined}>
+                Corrected{record.corrected_by_name ? ` by ${record.corrected_by_name}` : ""}
+              </span>
+            )}
+          </div>
+        );
+      },
+      sortable: true,
+      sortKey: "status",
+      width: 150,
+    },
+    {
+      header: "Actions",
+      accessor: (record) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onViewUser(record.user.public_id, record.user.name);
+            }}
+            title="View attendance history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          {onCorrect && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCorrect(record);
+              }}
+            >
+              <PencilLine className="mr-1 h-4 w-4" />
+              Correct
+            </Button>
+          )}
+        </div>
+      ),
+      width: 180,
+      minWidth: 160,
+    },
+  ];
+}
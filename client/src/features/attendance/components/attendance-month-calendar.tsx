@@ -0,0 +1,117 @@
+/**
+ * Attendance Month Calendar Component
+ * Month grid showing the attendance status recorded for each day
+ */
+
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  getDay,
+  isAfter,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AttendanceStatus,
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  type AttendanceStatusValue,
+} from "@/constants/attendance";
+import type { AttendanceRecord } from "@/lib/api/attendance-api";
+import { cn } from "@/lib/utils";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface AttendanceMonthCalendarProps {
+  month: Date;
+  records: AttendanceRecord[];
+  onMonthChange: (month: Date) => void;
+}
+
+export function AttendanceMonthCalendar({
+  month,
+  records,
+  onMonthChange,
+}: AttendanceMonthCalendarProps) {
+  const recordsByDate = new Map(records.map((record) => [record.date, record]));
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+  const leadingBlanks = getDay(days[0]);
+  const isCurrentMonth = isSameMonth(month, new Date());
+
+  return (
+    <div className="space-y-4">
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onMonthChange(subMonths(month, 1))}
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="text-lg font-semibold">{format(month, "MMMM yyyy")}</div>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onMonthChange(addMonths(month, 1))}
+          disabled={isCurrentMonth}
+          aria-label="Next month"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Calendar Grid */}
+      <div className="grid grid-cols-7 gap-2">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-muted-foreground text-center text-xs font-semibold">
+            {weekday}
+          </div>
+        ))}
+        {Array.from({ length: leadingBlanks }).map((_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {days.map((day) => {
+          const record = recordsByDate.get(format(day, "yyyy-MM-dd"));
+          const status = record?.status as AttendanceStatusValue | undefined;
+          const isFutureDay = isAfter(day, new Date());
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "flex aspect-square flex-col items-center justify-center rounded-lg border text-sm",
+                status ? AttendanceStatusColors[status] : "bg-white text-gray-700",
+                isFutureDay && "text-gray-300",
+                isToday(day) && "ring-2 ring-blue-500"
+              )}
+              title={status ? AttendanceStatusLabels[status] : undefined}
+            >
+              <span className="font-medium">{format(day, "d")}</span>
+              {record && record.work_hours > 0 && (
+                <span className="text-[10px] opacity-75">{record.work_hours.toFixed(1)}h</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-xs">
+        {Object.values(AttendanceStatus).map((status) => (
+          <div key={status} className="flex items-center gap-2">
+            <span className={cn("h-3 w-3 rounded", AttendanceStatusColors[status])} />
+            {AttendanceStatusLabels[status]}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Check-in Location Status Component
+ * Shows whether the user's current position is inside a campus geofence
+ */
+
+import { AlertTriangle, Loader2, MapPin, MapPinOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { formatDistance, type GeofenceCheckResult } from "../helpers/geofence-helpers";
+
+interface CheckInLocationStatusProps {
+  result: GeofenceCheckResult | null;
+  locationError: string | null;
+  isLocating: boolean;
+  onCheckLocation: () => void;
+}
+
+export function CheckInLocationStatus({
+  result,
+  locationError,
+  isLocating,
+  onCheckLocation,
+}: CheckInLocationStatusProps) {
+  if (locationError) {
+    return (
+      <Alert className="border-yellow-200 bg-yellow-50">
+        <AlertTriangle className="h-4 w-4 text-yellow-600" />
+        <AlertTitle className="text-yellow-900">Location unavailable</AlertTitle>
+        <AlertDescription className="text-yellow-800">
+          {locationError} Punches without a location are flagged for review.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (result && !result.isInside) {
+    return (
+      <Alert variant="destructive">
+        <MapPinOff className="h-4 w-4" />
+        <AlertTitle>You are outside the campus geofence</AlertTitle>
+        <AlertDescription>
+          {result.geofence && result.distanceMeters !== null
+            ? `You are ${formatDistance(result.distanceMeters)} away from ${result.geofence.name}. `
+            : ""}
+          You can still punch, but it will be flagged for admin review.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (result?.isInside) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700">
+        <MapPin className="h-4 w-4" />
+        {result.geofence ? `You are within ${result.geofence.name}` : "Location captured"}
+      </div>
+    );
+  }
+
+  return (
+    <Button variant="ghost" size="sm" onClick={onCheckLocation} disabled={isLocating}>
+      {isLocating ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <MapPin className="mr-2 h-4 w-4" />
+      )}
+      Check my location
+    </Button>
+  );
+}
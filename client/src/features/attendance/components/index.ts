@@ -6,3 +6,21 @@ export { CalendarExceptionManagement } from "./calendar-exception-management";
 export { CalendarExceptionForm } from "./calendar-exception-form";
 export { getCalendarExceptionColumns } from "./calendar-exception-table-columns";
 export { MyAttendance } from "./my-attendance";
+export { AttendanceMonthCalendar } from "./attendance-month-calendar";
+export { WorkHoursChart } from "./work-hours-chart";
+export { CheckInLocationStatus } from "./check-in-location-status";
+export { MyRegularizationRequests } from "./my-regularization-requests";
+export { RegularizationRequestDialog } from "./regularization-request-dialog";
+export {
+  RegularizationChangeSummary,
+  RegularizationStatusBadge,
+} from "./regularization-change-summary";
+
+// Admin components
+export * from "./admin";
+
+// Teacher components
+export * from "./teacher";
+
+// Parent components
+export * from "./parent";
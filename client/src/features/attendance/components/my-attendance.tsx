@@ -1,40 +1,69 @@
 /**
  * My Attendance Component
- * Allows users to check in/out and view their attendance history
+ * Allows users to check in/out and view their monthly attendance history.
+ * Punches capture the browser location and warn when outside the campus geofence.
  */
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { format } from "date-fns";
+import { endOfMonth, format, isSameMonth, startOfMonth } from "date-fns";
 import {
   AlertCircle,
+  BarChart3,
   Calendar,
   CheckCircle,
   Clock,
+  FileClock,
   Loader2,
   LogIn,
   LogOut,
   RefreshCw,
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  type AttendanceStatusValue,
+} from "@/constants/attendance";
 import { useToast } from "@/hooks/use-toast";
-import { checkIn, checkOut, getMyAttendance, getTodayAttendance } from "@/lib/api/attendance-api";
+import {
+  checkIn,
+  checkOut,
+  getMyAttendance,
+  getTodayAttendance,
+  type AttendanceRecord,
+  type CheckInPayload,
+} from "@/lib/api/attendance-api";
+import { fetchActiveGeofences } from "@/lib/api/geofence-api";
+import { QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { checkGeofences } from "../helpers/geofence-helpers";
+import { useCreateRegularization } from "../hooks/use-create-regularization";
+import { useGeolocation, type GeolocationReading } from "../hooks/use-geolocation";
+import { AttendanceMonthCalendar } from "./attendance-month-calendar";
+import { CheckInLocationStatus } from "./check-in-location-status";
+import { RegularizationRequestDialog } from "./regularization-request-dialog";
+import { WorkHoursChart } from "./work-hours-chart";
 
 export function MyAttendance() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [selectedMonth, setSelectedMonth] = useState(() => startOfMonth(new Date()));
+  const [regularizingRecord, setRegularizingRecord] = useState<AttendanceRecord | null>(null);
 
   // Update current time every second
-  useState(() => {
+  useEffect(() => {
     const interval = setInterval(() => {
       setCurrentTime(new Date());
     }, 1000);
     return () => clearInterval(interval);
-  });
+  }, []);
+
+  const monthStart = format(selectedMonth, "yyyy-MM-dd");
+  const monthEnd = format(endOfMonth(selectedMonth), "yyyy-MM-dd");
 
   // Fetch today's attendance status
   const {
@@ -54,13 +83,25 @@ export function MyAttendance() {
     isLoading: historyLoading,
     refetch: refetchHistory,
   } = useQuery({
-    queryKey: ["my-attendance"],
-    queryFn: () => getMyAttendance(),
+    queryKey: ["my-attendance", monthStart],
+    queryFn: () => getMyAttendance({ start_date: monthStart, end_date: monthEnd }),
     staleTime: 30000,
+    placeholderData: (previousData) => previousData,
   });
 
+  // Fetch active campus geofences for check-in validation
+  const { data: geofencesData } = useQuery({
+    queryKey: [QUERY_KEYS.CAMPUS_GEOFENCES, "active"],
+    queryFn: fetchActiveGeofences,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const { position, error: locationError, isLocating, requestPosition } = useGeolocation();
+
   const today = todayData?.data;
   const history = historyData?.data;
+  const geofences = geofencesData?.data || [];
+  const geofenceCheck = position ? checkGeofences(geofences, position) : null;
 
   // Check-in mutation
   const checkInMutation = useMutation({
@@ -70,7 +111,9 @@ export function MyAttendance() {
       queryClient.invalidateQueries({ queryKey: ["my-attendance"] });
       toast({
         title: "Checked In Successfully",
-        description: `You checked in at ${format(new Date(), "hh:mm a")}`,
+        description: `You checked in at ${format(new Date(), "hh:mm a")}${
+          geofenceCheck && !geofenceCheck.isInside ? " (flagged as off-campus)" : ""
+        }`,
       });
     },
     onError: (error: Error) => {
@@ -90,7 +133,9 @@ export function MyAttendance() {
       queryClient.invalidateQueries({ queryKey: ["my-attendance"] });
       toast({
         title: "Checked Out Successfully",
-        description: `You checked out at ${format(new Date(), "hh:mm a")}`,
+        description: `You checked out at ${format(new Date(), "hh:mm a")}${
+          geofenceCheck && !geofenceCheck.isInside ? " (flagged as off-campus)" : ""
+        }`,
       });
     },
     onError: (error: Error) => {
@@ -102,12 +147,21 @@ export function MyAttendance() {
     },
   });
 
-  const handleCheckIn = () => {
-    checkInMutation.mutate({});
+  const regularizationMutation = useCreateRegularization(() => setRegularizingRecord(null));
+
+  const toLocationPayload = (reading: GeolocationReading | null): CheckInPayload =>
+    reading
+      ? { latitude: reading.latitude, longitude: reading.longitude, accuracy: reading.accuracy }
+      : {};
+
+  const handleCheckIn = async () => {
+    const reading = await requestPosition();
+    checkInMutation.mutate(toLocationPayload(reading));
   };
 
-  const handleCheckOut = () => {
-    checkOutMutation.mutate({});
+  const handleCheckOut = async () => {
+    const reading = await requestPosition();
+    checkOutMutation.mutate(toLocationPayload(reading));
   };
 
   // Show full loading only on initial load when there's no data
@@ -137,20 +191,10 @@ export function MyAttendance() {
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "PRESENT":
-        return "bg-green-100 text-green-800";
-      case "ABSENT":
-        return "bg-red-100 text-red-800";
-      case "HALF_DAY":
-        return "bg-yellow-100 text-yellow-800";
-      case "ON_LEAVE":
-        return "bg-blue-100 text-blue-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
+  const todayStatus = today?.status as AttendanceStatusValue | undefined;
+  const monthLabel = isSameMonth(selectedMonth, new Date())
+    ? "this month"
+    : format(selectedMonth, "MMMM yyyy");
 
   return (
     <div className="space-y-6">
@@ -179,6 +223,11 @@ export function MyAttendance() {
           <CardTitle className="flex items-center gap-2">
             <Calendar className="h-5 w-5" />
             Today&apos;s Attendance
+            {todayStatus && (
+              <Badge className={AttendanceStatusColors[todayStatus]}>
+                {AttendanceStatusLabels[todayStatus] ?? today?.status}
+              </Badge>
+            )}
           </CardTitle>
           <CardDescription>{format(currentTime, "EEEE, MMMM d, yyyy")}</CardDescription>
         </CardHeader>
@@ -210,16 +259,23 @@ export function MyAttendance() {
               ) : (
                 <Button
                   onClick={handleCheckIn}
-                  disabled={checkInMutation.isPending}
+                  disabled={checkInMutation.isPending || isLocating}
                   className="h-auto w-full bg-green-600 py-6 hover:bg-green-700"
                   size="lg"
                 >
-                  {checkInMutation.isPending ? (
+                  {isLocating && !checkInMutation.isPending && (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Getting Location...
+                    </>
+                  )}
+                  {checkInMutation.isPending && (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                       Checking In...
                     </>
-                  ) : (
+                  )}
+                  {!isLocating && !checkInMutation.isPending && (
                     <>
                       <LogIn className="mr-2 h-5 w-5" />
                       Check In
@@ -231,16 +287,23 @@ export function MyAttendance() {
               {today?.has_checked_in && !today?.has_checked_out && (
                 <Button
                   onClick={handleCheckOut}
-                  disabled={checkOutMutation.isPending}
+                  disabled={checkOutMutation.isPending || isLocating}
                   className="h-auto w-full bg-orange-600 py-6 hover:bg-orange-700"
                   size="lg"
                 >
-                  {checkOutMutation.isPending ? (
+                  {isLocating && !checkOutMutation.isPending && (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Getting Location...
+                    </>
+                  )}
+                  {checkOutMutation.isPending && (
                     <>
                       <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                       Checking Out...
                     </>
-                  ) : (
+                  )}
+                  {!isLocating && !checkOutMutation.isPending && (
                     <>
                       <LogOut className="mr-2 h-5 w-5" />
                       Check Out
@@ -263,6 +326,22 @@ export function MyAttendance() {
                 </div>
               )}
 
+              {!today?.has_checked_out && (
+                <CheckInLocationStatus
+                  result={geofenceCheck}
+                  locationError={locationError}
+                  isLocating={isLocating}
+                  onCheckLocation={requestPosition}
+                />
+              )}
+
+              {today?.check_in_within_geofence === false && (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4" />
+                  Today&apos;s check-in was recorded outside the campus geofence
+                </div>
+              )}
+
               {today?.work_hours !== null && today?.work_hours !== undefined && (
                 <div className="rounded-lg bg-blue-50 p-4">
                   <div className="text-sm text-blue-700">Today&apos;s Work Hours</div>
@@ -290,7 +369,7 @@ export function MyAttendance() {
         history && (
           <>
             <div>
-              <h3 className="mb-4 text-lg font-semibold">Attendance Summary</h3>
+              <h3 className="mb-4 text-lg font-semibold">Attendance Summary ({monthLabel})</h3>
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
                 <div className="rounded-lg bg-blue-100 p-6">
                   <div className="text-5xl font-bold">{history.summary.total_days}</div>
@@ -317,11 +396,47 @@ export function MyAttendance() {
               </div>
             </div>
 
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Monthly Calendar */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Monthly Calendar
+                  </CardTitle>
+                  <CardDescription>Daily attendance status at a glance</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AttendanceMonthCalendar
+                    month={selectedMonth}
+                    records={history.records}
+                    onMonthChange={setSelectedMonth}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Worked Hours Chart */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="h-5 w-5" />
+                    Worked Hours
+                  </CardTitle>
+                  <CardDescription>
+                    Hours worked each day in {format(selectedMonth, "MMMM")}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WorkHoursChart month={selectedMonth} records={history.records} />
+                </CardContent>
+              </Card>
+            </div>
+
             {/* Attendance History */}
             <Card>
               <CardHeader>
                 <CardTitle>Recent Attendance</CardTitle>
-                <CardDescription>Your attendance records for this month</CardDescription>
+                <CardDescription>Your attendance records for {monthLabel}</CardDescription>
               </CardHeader>
               <CardContent>
                 {history.records.length === 0 ? (
@@ -357,9 +472,24 @@ export function MyAttendance() {
                               {record.work_hours.toFixed(2)}h
                             </div>
                           )}
-                          <Badge className={getStatusColor(record.status)}>
-                            {record.status.replace("_", " ")}
+                          <Badge
+                            className={
+                              AttendanceStatusColors[record.status as AttendanceStatusValue]
+                            }
+                          >
+                            {AttendanceStatusLabels[record.status as AttendanceStatusValue] ??
+                              record.status}
                           </Badge>
+                          {record.date < format(new Date(), "yyyy-MM-dd") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRegularizingRecord(record)}
+                              title="Request a correction for this day"
+                            >
+                              <FileClock className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -370,6 +500,15 @@ export function MyAttendance() {
           </>
         )
       )}
+
+      {/* Regularization Request Dialog */}
+      <RegularizationRequestDialog
+        open={!!regularizingRecord}
+        onOpenChange={(open: boolean) => !open && setRegularizingRecord(null)}
+        record={regularizingRecord}
+        onSubmit={(payload) => regularizationMutation.mutate(payload)}
+        isSubmitting={regularizationMutation.isPending}
+      />
     </div>
   );
 }
@@ -0,0 +1,215 @@
+/**
+ * My Regularization Requests Component
+ * Lists the current user's attendance regularization requests with their review status
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, FileClock, Loader2, Plus, XCircle } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { ConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import type { Column } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import { RegularizationStatus, RegularizationTypeLabels } from "@/constants/attendance";
+import {
+  cancelRegularization,
+  fetchMyRegularizations,
+  type AttendanceRegularization,
+} from "@/lib/api/regularization-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useCreateRegularization } from "../hooks/use-create-regularization";
+import {
+  RegularizationChangeSummary,
+  RegularizationStatusBadge,
+} from "./regularization-change-summary";
+import { RegularizationRequestDialog } from "./regularization-request-dialog";
+
+export function MyRegularizationRequests() {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+  const [cancellingRequest, setCancellingRequest] = useState<AttendanceRegularization | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [QUERY_KEYS.MY_REGULARIZATIONS, page, pageSize],
+    queryFn: () => fetchMyRegularizations({ page, page_size: pageSize, ordering: "-applied_at" }),
+  });
+
+  const requests = data?.data || [];
+  const totalCount = data?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const createMutation = useCreateRegularization(() => setShowRequestDialog(false));
+
+  const cancelMutation = useMutation({
+    mutationFn: (publicId: string) => cancelRegularization(publicId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_REGULARIZATIONS] });
+      setCancellingRequest(null);
+      toast.success("Regularization request cancelled");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  const columns: Column<AttendanceRegularization>[] = [
+    {
+      header: "Date",
+      accessor: (request) => (
+        <div className="text-sm">{format(new Date(request.date), "EEE, MMM dd, yyyy")}</div>
+      ),
+      width: 160,
+    },
+    {
+      header: "Type",
+      accessor: (request) => (
+        <div className="text-sm">{RegularizationTypeLabels[request.regularization_type]}</div>
+      ),
+      width: 150,
+    },
+    {
+      header: "Correction",
+      accessor: (request) => <RegularizationChangeSummary request={request} />,
+      width: 240,
+    },
+    {
+      header: "Reason",
+      accessor: (request) => (
+        <div className="max-w-xs truncate" title={request.reason}>
+          {request.reason}
+        </div>
+      ),
+    },
+    {
+      header: "Status",
+      accessor: (request) => (
+        <div className="flex flex-col items-start gap-1">
+          <RegularizationStatusBadge status={request.status} />
+          {request.review_comments && (
+            <span
+              className="text-muted-foreground max-w-[180px] truncate text-xs"
+              title={request.review_comments}
+            >
+              {request.reviewed_by_name ? `${request.reviewed_by_name}: ` : ""}
+              {request.review_comments}
+            </span>
+          )}
+        </div>
+      ),
+      width: 200,
+    },
+    {
+      header: "Actions",
+      accessor: (request) =>
+        request.status === RegularizationStatus.PENDING ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={(e) => {
+              e.stopPropagation();
+              setCancellingRequest(request);
+            }}
+          >
+            <XCircle className="mr-1 h-4 w-4" />
+            Cancel
+          </Button>
+        ) : null,
+      width: 120,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileClock className="h-5 w-5" />
+            Regularization Requests
+          </CardTitle>
+          <CardDescription>
+            Request corrections for missed or wrong punches on past dates
+          </CardDescription>
+        </div>
+        <Button onClick={() => setShowRequestDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Request
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && requests.length === 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>You have not raised any regularization requests.</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && requests.length > 0 && (
+          <>
+            <DataTable
+              columns={columns}
+              data={requests}
+              isLoading={isLoading}
+              emptyMessage="No regularization requests found"
+              getRowKey={(row: AttendanceRegularization) => row.public_id}
+            />
+            {totalCount > 0 && (
+              <div className="mt-4">
+                <TablePagination
+                  currentPage={page}
+                  totalPages={totalPages}
+                  totalRecords={totalCount}
+                  pageSize={pageSize}
+                  onPageChange={setPage}
+                  onPageSizeChange={(newPageSize) => {
+                    setPageSize(newPageSize);
+                    setPage(1);
+                  }}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <RegularizationRequestDialog
+        open={showRequestDialog}
+        onOpenChange={setShowRequestDialog}
+        onSubmit={(payload) => createMutation.mutate(payload)}
+        isSubmitting={createMutation.isPending}
+      />
+
+      <ConfirmationDialog
+        open={!!cancellingRequest}
+        onOpenChange={(open: boolean) => !open && setCancellingRequest(null)}
+        title="Cancel Regularization Request"
+        description="Are you sure you want to cancel this regularization request?"
+        confirmLabel="Cancel Request"
+        cancelLabel="Keep Request"
+        variant="destructive"
+        onConfirm={() => cancellingRequest && cancelMutation.mutate(cancellingRequest.public_id)}
+      />
+    </Card>
+  );
+}
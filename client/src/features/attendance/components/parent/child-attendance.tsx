@@ -0,0 +1,250 @@
+/**
+ * Child Attendance (Parent)
+ * Class roll calls of each child linked to the signed-in parent: the overall
+ * rate, the weekly trend, leave and absences, and every marked day
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, CalendarCheck, CalendarX, Clock, Loader2, Plane } from "lucide-react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChildSwitcher } from "@/common/components";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Column } from "@/components/ui/data-table";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  StudentAttendanceStatus,
+  StudentAttendanceStatusColors,
+  StudentAttendanceStatusLabels,
+} from "@/constants/attendance";
+import type { ChildAttendance as ChildAttendanceData } from "@/lib/api/attendance-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { getWeeklyAttendance } from "../../helpers/child-attendance-helpers";
+import { useChildrenAttendance } from "../../hooks/use-children-attendance";
+
+type DayRecord = ChildAttendanceData["records"][number];
+
+const columns: Column<DayRecord>[] = [
+  {
+    header: "Date",
+    accessor: (record) => format(parseISO(record.date), "EEE, MMM dd, yyyy"),
+    width: 180,
+  },
+  {
+    header: "Status",
+    accessor: (record) => (
+      <Badge className={StudentAttendanceStatusColors[record.status]}>
+        {StudentAttendanceStatusLabels[record.status]}
+      </Badge>
+    ),
+    width: 120,
+  },
+  {
+    header: "Remarks",
+    accessor: (record) => record.remarks || "-",
+    minWidth: 200,
+  },
+  {
+    header: "Marked By",
+    accessor: (record) => record.marked_by_name || "-",
+    width: 180,
+  },
+];
+
+export function ChildAttendance() {
+  const [selectedId, setSelectedId] = useSelectedChildId();
+  const { data: children = [], isLoading, error } = useChildrenAttendance();
+
+  const selected = children.find((child) => child.student.public_id === selectedId) ?? children[0];
+  const weeklyData = getWeeklyAttendance(selected?.records || []);
+  const missedDays = (selected?.records || []).filter(
+    (record) =>
+      record.status === StudentAttendanceStatus.ABSENT ||
+      record.status === StudentAttendanceStatus.ON_LEAVE
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-amber-600" />
+          <p className="text-muted-foreground">Loading attendance...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Attendance</h2>
+        <p className="text-gray-600">Your child&apos;s daily class attendance and leave</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && !selected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selected && (
+        <>
+          <ChildSwitcher
+            students={children.map((child) => ({
+              public_id: child.student.public_id,
+              full_name: child.student.full_name,
+              class_label: `${child.class_info.class_master_name} - ${child.class_info.name}`,
+              roll_number: child.student.roll_number,
+            }))}
+            value={selected.student.public_id}
+            onValueChange={setSelectedId}
+          />
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-700">Attendance</CardTitle>
+                <CalendarCheck className="h-5 w-5 text-amber-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {selected.summary.attendance_rate !== null
+                    ? `${selected.summary.attendance_rate}%`
+                    : "-"}
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {selected.summary.present_days + selected.summary.late_days} of{" "}
+                  {selected.summary.marked_days} school days
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-700">Late</CardTitle>
+                <Clock className="h-5 w-5 text-amber-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{selected.summary.late_days}</div>
+                <p className="text-muted-foreground text-xs">Arrived after the roll call</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-700">Absent</CardTitle>
+                <CalendarX className="h-5 w-5 text-amber-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{selected.summary.absent_days}</div>
+                <p className="text-muted-foreground text-xs">Missed without leave</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-700">On Leave</CardTitle>
+                <Plane className="h-5 w-5 text-amber-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{selected.summary.leave_days}</div>
+                <p className="text-muted-foreground text-xs">Leave informed by a guardian</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Weekly Attendance</CardTitle>
+                <CardDescription>Share of school days attended each week</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={weeklyData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#fef3c7" />
+                    <XAxis dataKey="week" />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <Tooltip />
+                    <Line
+                      type="monotone"
+                      dataKey="attendance"
+                      stroke="#d97706"
+                      strokeWidth={2}
+                      dot={{ fill: "#d97706" }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Leave & Absences</CardTitle>
+                <CardDescription>Days your child missed class</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {missedDays.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">No days missed. Well done!</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {missedDays.map((record) => (
+                      <li key={record.date} className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="text-sm font-medium">
+                            {format(parseISO(record.date), "EEE, MMM dd")}
+                          </p>
+                          {record.remarks && (
+                            <p className="text-muted-foreground text-xs">{record.remarks}</p>
+                          )}
+                        </div>
+                        <Badge className={StudentAttendanceStatusColors[record.status]}>
+                          {StudentAttendanceStatusLabels[record.status]}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Record</CardTitle>
+              <CardDescription>Every roll call, most recent first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DataTable
+                columns={columns}
+                data={selected.records}
+                emptyMessage="No attendance has been marked yet"
+                getRowKey={(row: DayRecord) => row.date}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
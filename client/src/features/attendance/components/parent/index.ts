@@ -0,0 +1,5 @@
+/**
+ * Attendance - Parent Components
+ */
+
+export { ChildAttendance } from "./child-attendance";
@@ -0,0 +1,84 @@
+/**
+ * Regularization Change Summary
+ * Side-by-side view of the original attendance values and the requested correction
+ */
+
+import { ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  RegularizationStatus,
+  RegularizationStatusLabels,
+  type RegularizationStatusValue,
+} from "@/constants/attendance";
+import type { AttendanceRegularization } from "@/lib/api/regularization-api";
+import { formatPunchTime } from "../helpers/attendance-time-helpers";
+
+const STATUS_BADGE_CLASSES: Record<RegularizationStatusValue, string> = {
+  [RegularizationStatus.PENDING]: "bg-yellow-500 hover:bg-yellow-600",
+  [RegularizationStatus.APPROVED]: "bg-green-500 hover:bg-green-600",
+  [RegularizationStatus.REJECTED]: "bg-red-500 hover:bg-red-600",
+  [RegularizationStatus.CANCELLED]: "bg-gray-400 hover:bg-gray-500",
+};
+
+export function RegularizationStatusBadge({ status }: { status: RegularizationStatusValue }) {
+  return (
+    <Badge className={STATUS_BADGE_CLASSES[status]}>
+      {RegularizationStatusLabels[status].toUpperCase()}
+    </Badge>
+  );
+}
+
+interface RegularizationChangeSummaryProps {
+  request: AttendanceRegularization;
+}
+
+export function RegularizationChangeSummary({ request }: RegularizationChangeSummaryProps) {
+  const rows: Array<{ label: string; original: React.ReactNode; requested: React.ReactNode }> = [];
+
+  if (request.requested_check_in_time) {
+    rows.push({
+      label: "In",
+      original: formatPunchTime(request.original_check_in_time),
+      requested: formatPunchTime(request.requested_check_in_time),
+    });
+  }
+  if (request.requested_check_out_time) {
+    rows.push({
+      label: "Out",
+      original: formatPunchTime(request.original_check_out_time),
+      requested: formatPunchTime(request.requested_check_out_time),
+    });
+  }
+  if (request.requested_status) {
+    rows.push({
+      label: "Status",
+      original: request.original_status ? (
+        <Badge className={AttendanceStatusColors[request.original_status]}>
+          {AttendanceStatusLabels[request.original_status]}
+        </Badge>
+      ) : (
+        "—"
+      ),
+      requested: (
+        <Badge className={AttendanceStatusColors[request.requested_status]}>
+          {AttendanceStatusLabels[request.requested_status]}
+        </Badge>
+      ),
+    });
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {rows.map((row) => (
+        <div key={row.label} className="flex items-center gap-2">
+          <span className="text-muted-foreground w-10 text-xs">{row.label}</span>
+          <span className="text-muted-foreground line-through">{row.original}</span>
+          <ArrowRight className="h-3 w-3 text-gray-400" />
+          <span className="font-medium">{row.requested}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
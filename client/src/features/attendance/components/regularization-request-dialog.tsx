@@ -0,0 +1,280 @@
+/**
+ * Regularization Request Dialog
+ * Lets staff request a corrected punch time or status for a past date
+ */
+
+import { format, parseISO } from "date-fns";
+import { FileClock, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AttendanceStatus,
+  AttendanceStatusColors,
+  AttendanceStatusLabels,
+  RegularizationType,
+  RegularizationTypeLabels,
+  type AttendanceStatusValue,
+  type RegularizationTypeValue,
+} from "@/constants/attendance";
+import type { AttendanceRecord } from "@/lib/api/attendance-api";
+import type { RegularizationRequestPayload } from "@/lib/api/regularization-api";
+import {
+  formatPunchTime,
+  toPunchDateTime,
+  toTimeInputValue,
+} from "../helpers/attendance-time-helpers";
+
+interface RegularizationRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  record?: AttendanceRecord | null; // Existing record when raised from the history list
+  onSubmit: (payload: RegularizationRequestPayload) => void;
+  isSubmitting: boolean;
+}
+
+function getDefaultType(record?: AttendanceRecord | null): RegularizationTypeValue {
+  if (record?.check_in_time && !record.check_out_time) {
+    return RegularizationType.MISSED_CHECK_OUT;
+  }
+  if (record && !record.check_in_time) {
+    return RegularizationType.MISSED_CHECK_IN;
+  }
+  return RegularizationType.WRONG_PUNCH_TIME;
+}
+
+export function RegularizationRequestDialog({
+  open,
+  onOpenChange,
+  record,
+  onSubmit,
+  isSubmitting,
+}: RegularizationRequestDialogProps) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [date, setDate] = useState("");
+  const [type, setType] = useState<RegularizationTypeValue>(RegularizationType.WRONG_PUNCH_TIME);
+  const [checkIn, setCheckIn] = useState("");
+  const [checkOut, setCheckOut] = useState("");
+  const [status, setStatus] = useState<AttendanceStatusValue>(AttendanceStatus.PRESENT);
+  const [reason, setReason] = useState("");
+
+  // Seed the form from the selected record whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDate(record?.date ?? "");
+      setType(getDefaultType(record));
+      setCheckIn(toTimeInputValue(record?.check_in_time ?? null));
+      setCheckOut(toTimeInputValue(record?.check_out_time ?? null));
+      setStatus(record?.status ?? AttendanceStatus.PRESENT);
+      setReason("");
+    }
+  }, [open, record]);
+
+  const needsCheckIn =
+    type === RegularizationType.MISSED_CHECK_IN || type === RegularizationType.WRONG_PUNCH_TIME;
+  const needsCheckOut =
+    type === RegularizationType.MISSED_CHECK_OUT || type === RegularizationType.WRONG_PUNCH_TIME;
+  const needsStatus = type === RegularizationType.STATUS_CHANGE;
+
+  const validationError = (() => {
+    if (!date) {
+      return "Select the date to regularize.";
+    }
+    if (date > today) {
+      return "Regularization can only be requested for past dates.";
+    }
+    if (type === RegularizationType.MISSED_CHECK_IN && !checkIn) {
+      return "Enter the correct check-in time.";
+    }
+    if (type === RegularizationType.MISSED_CHECK_OUT && !checkOut) {
+      return "Enter the correct check-out time.";
+    }
+    if (type === RegularizationType.WRONG_PUNCH_TIME && !checkIn && !checkOut) {
+      return "Enter at least one corrected punch time.";
+    }
+    if (needsCheckIn && needsCheckOut && checkIn && checkOut && checkOut <= checkIn) {
+      return "Check out must be after check in.";
+    }
+    return null;
+  })();
+
+  const handleSubmit = () => {
+    onSubmit({
+      date,
+      regularization_type: type,
+      requested_check_in_time: needsCheckIn ? toPunchDateTime(date, checkIn) : null,
+      requested_check_out_time: needsCheckOut ? toPunchDateTime(date, checkOut) : null,
+      requested_status: needsStatus ? status : null,
+      reason: reason.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileClock className="h-5 w-5 text-blue-600" />
+            Request Attendance Regularization
+          </DialogTitle>
+          <DialogDescription>
+            Your supervisor will review the request before your attendance is updated
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {record && (
+            <div className="bg-muted space-y-1 rounded-lg p-4 text-sm">
+              <p className="text-muted-foreground">Current record</p>
+              <div className="flex items-center justify-between">
+                <span>
+                  In: {formatPunchTime(record.check_in_time)} | Out:{" "}
+                  {formatPunchTime(record.check_out_time)}
+                </span>
+                <Badge className={AttendanceStatusColors[record.status]}>
+                  {AttendanceStatusLabels[record.status]}
+                </Badge>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="regularization-date">Date *</Label>
+              <Input
+                id="regularization-date"
+                type="date"
+                value={date}
+                max={today}
+                onChange={(e) => setDate(e.target.value)}
+                disabled={!!record}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="regularization-type">Request Type *</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as RegularizationTypeValue)}
+              >
+                <SelectTrigger id="regularization-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(RegularizationType).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {RegularizationTypeLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {(needsCheckIn || needsCheckOut) && (
+            <div className="grid grid-cols-2 gap-4">
+              {needsCheckIn && (
+                <div className="space-y-2">
+                  <Label htmlFor="regularization-check-in">Correct Check In</Label>
+                  <Input
+                    id="regularization-check-in"
+                    type="time"
+                    value={checkIn}
+                    onChange={(e) => setCheckIn(e.target.value)}
+                  />
+                </div>
+              )}
+              {needsCheckOut && (
+                <div className="space-y-2">
+                  <Label htmlFor="regularization-check-out">Correct Check Out</Label>
+                  <Input
+                    id="regularization-check-out"
+                    type="time"
+                    value={checkOut}
+                    onChange={(e) => setCheckOut(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {needsStatus && (
+            <div className="space-y-2">
+              <Label htmlFor="regularization-status">Correct Status</Label>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as AttendanceStatusValue)}
+              >
+                <SelectTrigger id="regularization-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(AttendanceStatus).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {AttendanceStatusLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="regularization-reason">Reason *</Label>
+            <Textarea
+              id="regularization-reason"
+              placeholder="e.g. Forgot to check out after the parent-teacher meeting..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+
+          {date && validationError && <p className="text-sm text-red-600">{validationError}</p>}
+          {date && (
+            <p className="text-muted-foreground text-xs">
+              Requesting a correction for {format(parseISO(date), "EEEE, MMM d, yyyy")}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !!validationError || !reason.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              "Submit Request"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
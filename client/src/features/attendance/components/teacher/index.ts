@@ -0,0 +1,8 @@
+/**
+ * Attendance - Teacher Components
+ *
+ * Components for teachers taking the daily class roll call.
+ */
+
+export { MarkAttendance } from "./mark-attendance";
+export { getMarkAttendanceColumns, type RollCallEntry } from "./mark-attendance-table-columns";
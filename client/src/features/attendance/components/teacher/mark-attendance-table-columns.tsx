@@ -0,0 +1,105 @@
+/**
+ * Mark Attendance Table Columns
+ * Column definitions for the class roll call data table
+ */
+
+import type { Column } from "@/components/ui/data-table";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  StudentAttendanceStatus,
+  StudentAttendanceStatusLabels,
+  type StudentAttendanceStatusValue,
+} from "@/constants/attendance";
+import type { Student } from "@/lib/api/student-api";
+import { cn } from "@/lib/utils";
+
+export interface RollCallEntry {
+  status?: StudentAttendanceStatusValue;
+  remarks: string;
+}
+
+const STATUS_ACTIVE_CLASSES: Record<StudentAttendanceStatusValue, string> = {
+  [StudentAttendanceStatus.PRESENT]: "data-[state=on]:bg-green-600 data-[state=on]:text-white",
+  [StudentAttendanceStatus.ABSENT]: "data-[state=on]:bg-red-600 data-[state=on]:text-white",
+  [StudentAttendanceStatus.LATE]: "data-[state=on]:bg-yellow-500 data-[state=on]:text-white",
+  [StudentAttendanceStatus.ON_LEAVE]: "data-[state=on]:bg-blue-600 data-[state=on]:text-white",
+};
+
+interface GetMarkAttendanceColumnsOptions {
+  entries: Record<string, RollCallEntry>;
+  disabled: boolean;
+  onStatusChange: (studentId: string, status: StudentAttendanceStatusValue) => void;
+  onRemarksChange: (studentId: string, remarks: string) => void;
+}
+
+export function getMarkAttendanceColumns({
+  entries,
+  disabled,
+  onStatusChange,
+  onRemarksChange,
+}: GetMarkAttendanceColumnsOptions): Column<Student>[] {
+  return [
+    {
+      header: "Roll No.",
+      accessor: "roll_number",
+      sortable: true,
+      sortKey: "roll_number",
+      width: 110,
+      minWidth: 90,
+    },
+    {
+      header: "Student",
+      accessor: (student) => (
+        <div className="font-medium text-gray-900">{student.user_info.full_name}</div>
+      ),
+      width: 220,
+      minWidth: 180,
+    },
+    {
+      header: "Status",
+      accessor: (student) => (
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          className="justify-start"
+          value={entries[student.public_id]?.status ?? ""}
+          onValueChange={(value) => {
+            if (value) {
+              onStatusChange(student.public_id, value as StudentAttendanceStatusValue);
+            }
+          }}
+          disabled={disabled}
+        >
+          {Object.values(StudentAttendanceStatus).map((status) => (
+            <ToggleGroupItem
+              key={status}
+              value={status}
+              className={cn("px-3", STATUS_ACTIVE_CLASSES[status])}
+              aria-label={StudentAttendanceStatusLabels[status]}
+            >
+              {StudentAttendanceStatusLabels[status]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      ),
+      width: 380,
+      minWidth: 340,
+    },
+    {
+      header: "Remarks",
+      accessor: (student) => (
+        <Input
+          value={entries[student.public_id]?.remarks ?? ""}
+          onChange={(e) => onRemarksChange(student.public_id, e.target.value)}
+          placeholder="Optional"
+          disabled={disabled}
+          className="h-8"
+        />
+      ),
+      width: 220,
+      minWidth: 160,
+    },
+  ];
+}
@@ -0,0 +1,363 @@
+/**
+ * Mark Attendance Component
+ * Class-wise student roll call for class teachers.
+ * Respects the organization holiday calendar and class-level calendar exceptions.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, CalendarOff, CheckCheck, Info, Loader2, RefreshCw, Save } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  StudentAttendanceStatus,
+  StudentAttendanceStatusLabels,
+  type StudentAttendanceStatusValue,
+} from "@/constants/attendance";
+import { useUser } from "@/core/contexts";
+import { getClassAttendance, submitStudentAttendance } from "@/lib/api/attendance-api";
+import { fetchCalendarExceptions } from "@/lib/api/calendar-exception-api";
+import { fetchHolidayCalendar } from "@/lib/api/holiday-api";
+import { getStudents, type Student } from "@/lib/api/student-api";
+import { PAGE_SIZES, QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useClasses } from "@/lib/hooks/use-shared-queries";
+import { getCurrentDateString } from "@/lib/utils/date-utils";
+import { getClassDayStatus } from "../../helpers/attendance-day-helpers";
+import { getMarkAttendanceColumns, type RollCallEntry } from "./mark-attendance-table-columns";
+
+export function MarkAttendance() {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [selectedClassId, setSelectedClassId] = useState<string>("");
+  const [date, setDate] = useState<string>(getCurrentDateString());
+  const [entries, setEntries] = useState<Record<string, RollCallEntry>>({});
+
+  // Sections where the current user is the class teacher
+  const { data: classesData, isLoading: isLoadingClasses } = useClasses();
+  const myClasses = useMemo(
+    () =>
+      (classesData?.data || []).filter(
+        (cls) =>
+          !!user?.teacher_public_id && cls.class_teacher?.public_id === user.teacher_public_id
+      ),
+    [classesData, user]
+  );
+
+  const classId = selectedClassId || myClasses[0]?.public_id || "";
+  const selectedClass = myClasses.find((cls) => cls.public_id === classId);
+
+  // Roster for the selected section
+  const { data: studentsData, isLoading: isLoadingStudents } = useQuery({
+    queryKey: [QUERY_KEYS.STUDENTS, { class_id: classId }],
+    queryFn: () => getStudents({ class_id: classId, page_size: PAGE_SIZES.LARGE }),
+    enabled: !!classId,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const students = useMemo(
+    () =>
+      [...(studentsData?.data || [])].sort((a, b) =>
+        a.roll_number.localeCompare(b.roll_number, undefined, { numeric: true })
+      ),
+    [studentsData]
+  );
+
+  // Attendance already marked for this section/date
+  const {
+    data: attendanceData,
+    isLoading: isLoadingAttendance,
+    refetch: refetchAttendance,
+  } = useQuery({
+    queryKey: [QUERY_KEYS.STUDENT_ATTENDANCE, classId, date],
+    queryFn: () => getClassAttendance(classId, date),
+    enabled: !!classId && !!date,
+  });
+
+  // Holidays and calendar exceptions covering the selected date
+  const { data: holidaysData } = useQuery({
+    queryKey: [QUERY_KEYS.HOLIDAY_CALENDAR, { from_date: date, to_date: date }],
+    queryFn: () => fetchHolidayCalendar({ from_date: date, to_date: date }),
+    enabled: !!date,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const { data: exceptionsData } = useQuery({
+    queryKey: [QUERY_KEYS.CALENDAR_EXCEPTIONS, { from_date: date, to_date: date }],
+    queryFn: () =>
+      fetchCalendarExceptions({ from_date: date, to_date: date, page_size: PAGE_SIZES.LARGE }),
+    enabled: !!date,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const dayStatus = getClassDayStatus(
+    holidaysData?.data || [],
+    exceptionsData?.data || [],
+    classId,
+    date
+  );
+
+  // Reset roll call whenever the section, date or saved attendance changes
+  useEffect(() => {
+    const saved = attendanceData?.data?.records || [];
+    const next: Record<string, RollCallEntry> = {};
+    saved.forEach((record) => {
+      next[record.student.public_id] = { status: record.status, remarks: record.remarks || "" };
+    });
+    setEntries(next);
+  }, [attendanceData, classId, date]);
+
+  const submitMutation = useMutation({
+    mutationFn: submitStudentAttendance,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.STUDENT_ATTENDANCE, classId] });
+      toast.success(
+        `Attendance saved for ${selectedClass?.class_master.name} - ${selectedClass?.name} on ${format(
+          new Date(`${date}T00:00:00`),
+          "MMM dd, yyyy"
+        )}`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+
+  const handleStatusChange = (studentId: string, status: StudentAttendanceStatusValue) => {
+    setEntries((prev) => ({
+      ...prev,
+      [studentId]: { remarks: prev[studentId]?.remarks || "", status },
+    }));
+  };
+
+  const handleRemarksChange = (studentId: string, remarks: string) => {
+    setEntries((prev) => ({ ...prev, [studentId]: { ...prev[studentId], remarks } }));
+  };
+
+  // Leave students already marked On Leave untouched
+  const handleMarkAllPresent = () => {
+    setEntries((prev) => {
+      const next = { ...prev };
+      students.forEach((student) => {
+        if (next[student.public_id]?.status !== StudentAttendanceStatus.ON_LEAVE) {
+          next[student.public_id] = {
+            remarks: next[student.public_id]?.remarks || "",
+            status: StudentAttendanceStatus.PRESENT,
+          };
+        }
+      });
+      return next;
+    });
+  };
+
+  const unmarkedCount = students.filter((student) => !entries[student.public_id]?.status).length;
+
+  const statusCounts = Object.values(StudentAttendanceStatus).map((status) => ({
+    status,
+    count: students.filter((student) => entries[student.public_id]?.status === status).length,
+  }));
+
+  const handleSubmit = () => {
+    if (!classId || unmarkedCount > 0) {
+      return;
+    }
+    submitMutation.mutate({
+      class_id: classId,
+      date,
+      records: students.map((student) => ({
+        student: student.public_id,
+        status: entries[student.public_id].status as StudentAttendanceStatusValue,
+        remarks: entries[student.public_id].remarks || undefined,
+      })),
+    });
+  };
+
+  const isLocked = !dayStatus.isWorkingDay || submitMutation.isPending;
+
+  const columns = getMarkAttendanceColumns({
+    entries,
+    disabled: isLocked,
+    onStatusChange: handleStatusChange,
+    onRemarksChange: handleRemarksChange,
+  });
+
+  if (isLoadingClasses) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-purple-600" />
+          <p className="text-muted-foreground">Loading your classes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Mark Attendance</h2>
+          <p className="text-gray-600">Take the daily roll call for the sections you lead</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetchAttendance()} disabled={!classId}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {myClasses.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            You are not assigned as the class teacher of any section. Contact your administrator to
+            get a section assigned.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {/* Section and Date Selection */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="attendance-class">Class/Section</Label>
+                  <Select value={classId} onValueChange={setSelectedClassId}>
+                    <SelectTrigger id="attendance-class">
+                      <SelectValue placeholder="Select a section" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {myClasses.map((cls) => (
+                        <SelectItem key={cls.public_id} value={cls.public_id}>
+                          {cls.class_master.name} - {cls.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="attendance-date">Date</Label>
+                  <Input
+                    id="attendance-date"
+                    type="date"
+                    value={date}
+                    max={getCurrentDateString()}
+                    onChange={(e) => e.target.value && setDate(e.target.value)}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Holiday / Exception Notices */}
+          {!dayStatus.isWorkingDay && (
+            <Alert className="border-amber-200 bg-amber-50">
+              <CalendarOff className="h-4 w-4 text-amber-700" />
+              <AlertTitle className="text-amber-900">Not a working day</AlertTitle>
+              <AlertDescription className="text-amber-800">
+                {dayStatus.exception
+                  ? `Holiday declared for this section: ${dayStatus.exception.reason}`
+                  : dayStatus.holiday?.description || "This date is a holiday."}{" "}
+                Attendance cannot be marked.
+              </AlertDescription>
+            </Alert>
+          )}
+          {dayStatus.isWorkingDay && dayStatus.holiday && dayStatus.exception && (
+            <Alert className="border-blue-200 bg-blue-50">
+              <Info className="h-4 w-4 text-blue-700" />
+              <AlertTitle className="text-blue-900">Working day override</AlertTitle>
+              <AlertDescription className="text-blue-800">
+                {dayStatus.holiday.description} is overridden for this section:{" "}
+                {dayStatus.exception.reason}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Roll Call */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    Roll Call
+                    {attendanceData?.data?.is_marked && (
+                      <Badge className="bg-green-100 text-green-800">Already Marked</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {students.length} student{students.length === 1 ? "" : "s"}
+                    {unmarkedCount > 0 && ` • ${unmarkedCount} not yet marked`}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleMarkAllPresent}
+                    disabled={isLocked || students.length === 0}
+                  >
+                    <CheckCheck className="mr-2 h-4 w-4" />
+                    Mark All Present
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSubmit}
+                    disabled={isLocked || students.length === 0 || unmarkedCount > 0}
+                  >
+                    {submitMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Attendance
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                {statusCounts.map(({ status, count }) => (
+                  <Badge key={status} variant="outline">
+                    {StudentAttendanceStatusLabels[status]}: {count}
+                  </Badge>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingStudents || isLoadingAttendance ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="mr-2 h-6 w-6 animate-spin text-purple-600" />
+                  <span className="text-muted-foreground text-sm">Loading roster...</span>
+                </div>
+              ) : (
+                <DataTable
+                  columns={columns}
+                  data={students}
+                  emptyMessage="No students enrolled in this section"
+                  getRowKey={(row: Student) => row.public_id}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
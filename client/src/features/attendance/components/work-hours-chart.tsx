@@ -0,0 +1,58 @@
+/**
+ * Work Hours Chart Component
+ * Bar chart of hours worked per day for the selected month
+ */
+
+import { eachDayOfInterval, endOfMonth, format, startOfMonth } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { AttendanceRecord } from "@/lib/api/attendance-api";
+
+interface WorkHoursChartProps {
+  month: Date;
+  records: AttendanceRecord[];
+}
+
+export function WorkHoursChart({ month, records }: WorkHoursChartProps) {
+  const hoursByDate = new Map(records.map((record) => [record.date, record.work_hours || 0]));
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+
+  const data = days.map((day) => ({
+    day: format(day, "d"),
+    hours: Number((hoursByDate.get(format(day, "yyyy-MM-dd")) ?? 0).toFixed(2)),
+  }));
+
+  const workedDays = records.filter((record) => record.work_hours > 0);
+  const averageHours =
+    workedDays.length > 0
+      ? workedDays.reduce((sum, record) => sum + record.work_hours, 0) / workedDays.length
+      : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-muted-foreground text-sm">
+        Average {averageHours.toFixed(2)} hours across {workedDays.length} worked day(s)
+      </div>
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#dbeafe" />
+          <XAxis dataKey="day" interval={1} fontSize={12} />
+          <YAxis allowDecimals={false} fontSize={12} />
+          <Tooltip formatter={(value: number) => [`${value} hrs`, "Worked"]} />
+          {averageHours > 0 && (
+            <ReferenceLine y={averageHours} stroke="#f97316" strokeDasharray="4 4" />
+          )}
+          <Bar dataKey="hours" fill="#3b82f6" name="Hours" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
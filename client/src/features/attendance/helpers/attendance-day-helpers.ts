@@ -0,0 +1,62 @@
+/**
+ * Attendance Day Helpers
+ * Resolve whether a date is a working day for a specific class, combining the
+ * organization holiday calendar with class-level calendar exceptions.
+ */
+
+import type { CalendarException } from "@/lib/api/calendar-exception-types";
+import type { Holiday } from "@/lib/api/holiday-api";
+
+export interface ClassDayStatus {
+  isWorkingDay: boolean;
+  holiday: Holiday | null;
+  exception: CalendarException | null;
+}
+
+/**
+ * Find the holiday (if any) that covers the given date (YYYY-MM-DD)
+ */
+export function findHolidayForDate(holidays: Holiday[], date: string): Holiday | null {
+  return holidays.find((holiday) => holiday.start_date <= date && holiday.end_date >= date) ?? null;
+}
+
+/**
+ * Find the calendar exception (if any) that applies to the class on the given date
+ */
+export function findExceptionForClass(
+  exceptions: CalendarException[],
+  classId: string,
+  date: string
+): CalendarException | null {
+  return (
+    exceptions.find(
+      (exception) =>
+        exception.date === date &&
+        (exception.is_applicable_to_all_classes || exception.classes.includes(classId))
+    ) ?? null
+  );
+}
+
+/**
+ * Resolve the working-day status of a class on a date.
+ * Calendar exceptions take precedence over the holiday calendar.
+ */
+export function getClassDayStatus(
+  holidays: Holiday[],
+  exceptions: CalendarException[],
+  classId: string,
+  date: string
+): ClassDayStatus {
+  const holiday = findHolidayForDate(holidays, date);
+  const exception = findExceptionForClass(exceptions, classId, date);
+
+  if (exception) {
+    return {
+      isWorkingDay: exception.override_type === "FORCE_WORKING",
+      holiday,
+      exception,
+    };
+  }
+
+  return { isWorkingDay: !holiday, holiday, exception: null };
+}
@@ -0,0 +1,27 @@
+/**
+ * Attendance Time Helpers
+ * Convert between ISO punch timestamps and the HH:mm values used by time inputs
+ */
+
+import { format } from "date-fns";
+
+/**
+ * ISO datetime -> "HH:mm" for <input type="time" />
+ */
+export function toTimeInputValue(value: string | null): string {
+  return value ? format(new Date(value), "HH:mm") : "";
+}
+
+/**
+ * Date (YYYY-MM-DD) + "HH:mm" -> ISO datetime, or null when no time is set
+ */
+export function toPunchDateTime(date: string, time: string): string | null {
+  return time ? new Date(`${date}T${time}`).toISOString() : null;
+}
+
+/**
+ * Format an ISO punch timestamp for display
+ */
+export function formatPunchTime(value: string | null): string {
+  return value ? format(new Date(value), "hh:mm a") : "—";
+}
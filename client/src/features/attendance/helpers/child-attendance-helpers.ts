@@ -0,0 +1,40 @@
+/**
+ * Child Attendance Helpers
+ * Summaries of a child's class roll calls for the parent portal.
+ */
+
+import { format, parseISO, startOfWeek } from "date-fns";
+import { StudentAttendanceStatus } from "@/constants/attendance";
+import type { ChildAttendance } from "@/lib/api/attendance-api";
+
+export interface WeeklyAttendance {
+  week: string; // e.g. "Mar 03", the Monday of the week
+  attendance: number; // Present or late, as a percentage of marked days
+}
+
+/**
+ * Attendance rate per school week, oldest week first
+ */
+export function getWeeklyAttendance(records: ChildAttendance["records"]): WeeklyAttendance[] {
+  const weeks = new Map<string, { attended: number; marked: number }>();
+
+  [...records]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((record) => {
+      const week = format(startOfWeek(parseISO(record.date), { weekStartsOn: 1 }), "MMM dd");
+      const totals = weeks.get(week) ?? { attended: 0, marked: 0 };
+      totals.marked += 1;
+      if (
+        record.status === StudentAttendanceStatus.PRESENT ||
+        record.status === StudentAttendanceStatus.LATE
+      ) {
+        totals.attended += 1;
+      }
+      weeks.set(week, totals);
+    });
+
+  return Array.from(weeks, ([week, totals]) => ({
+    week,
+    attendance: Math.round((totals.attended / totals.marked) * 1000) / 10,
+  }));
+}
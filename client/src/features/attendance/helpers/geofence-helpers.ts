@@ -0,0 +1,76 @@
+/**
+ * Geofence Helpers
+ * Distance calculations used to check whether a position lies inside a campus geofence.
+ * The backend re-validates every punch; these helpers only drive the UI warnings.
+ */
+
+import type { CampusGeofence } from "@/lib/api/geofence-api";
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceCheckResult {
+  isInside: boolean;
+  geofence: CampusGeofence | null; // Containing geofence, or the nearest one when outside
+  distanceMeters: number | null; // Distance outside the nearest fence edge (0 when inside)
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two coordinates (haversine formula)
+ */
+export function getDistanceInMeters(from: Coordinates, to: Coordinates): number {
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Check a position against the active geofences.
+ * When no geofences are configured every position is treated as inside.
+ */
+export function checkGeofences(
+  geofences: CampusGeofence[],
+  position: Coordinates
+): GeofenceCheckResult {
+  const active = geofences.filter((geofence) => geofence.is_active);
+
+  if (active.length === 0) {
+    return { isInside: true, geofence: null, distanceMeters: null };
+  }
+
+  let nearest: GeofenceCheckResult = { isInside: false, geofence: null, distanceMeters: null };
+
+  for (const geofence of active) {
+    const distanceToEdge = getDistanceInMeters(position, geofence) - geofence.radius_meters;
+
+    if (distanceToEdge <= 0) {
+      return { isInside: true, geofence, distanceMeters: 0 };
+    }
+    if (nearest.distanceMeters === null || distanceToEdge < nearest.distanceMeters) {
+      nearest = { isInside: false, geofence, distanceMeters: distanceToEdge };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Format a distance for display (e.g. "350 m", "1.2 km")
+ */
+export function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { getChildrenAttendance } from "@/lib/api/attendance-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+/**
+ * Class attendance of the signed-in parent's children, newest day first
+ */
+export function useChildrenAttendance() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN_ATTENDANCE],
+    queryFn: getChildrenAttendance,
+    select: (response) => response.data,
+  });
+}
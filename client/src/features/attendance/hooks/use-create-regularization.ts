@@ -0,0 +1,27 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  createRegularization,
+  type RegularizationRequestPayload,
+} from "@/lib/api/regularization-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+/**
+ * Submit an attendance regularization request and refresh the user's request list
+ */
+export function useCreateRegularization(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: RegularizationRequestPayload) => createRegularization(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_REGULARIZATIONS] });
+      toast.success("Regularization request submitted for review");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { useCallback, useState } from "react";
+
+export interface GeolocationReading {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+const GEOLOCATION_ERROR_MESSAGES: Record<number, string> = {
+  1: "Location permission was denied. Allow location access in your browser to verify your check-in.",
+  2: "Your location could not be determined. Check that location services are turned on.",
+  3: "Timed out while trying to get your location. Please try again.",
+};
+
+/**
+ * Capture the browser's current position on demand.
+ * Resolves with null (and sets `error`) instead of rejecting so punches can still go through.
+ */
+export function useGeolocation() {
+  const [position, setPosition] = useState<GeolocationReading | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const isSupported = typeof navigator !== "undefined" && "geolocation" in navigator;
+
+  const requestPosition = useCallback((): Promise<GeolocationReading | null> => {
+    if (!isSupported) {
+      setError("Location is not supported by this browser.");
+      return Promise.resolve(null);
+    }
+
+    setIsLocating(true);
+    setError(null);
+
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        ({ coords }) => {
+          const reading = {
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            accuracy: coords.accuracy,
+          };
+          setPosition(reading);
+          setIsLocating(false);
+          resolve(reading);
+        },
+        (geolocationError) => {
+          setError(GEOLOCATION_ERROR_MESSAGES[geolocationError.code] || geolocationError.message);
+          setIsLocating(false);
+          resolve(null);
+        },
+        { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+      );
+    });
+  }, [isSupported]);
+
+  return {
+    position,
+    error,
+    isLocating,
+    isSupported,
+    requestPosition,
+  };
+}
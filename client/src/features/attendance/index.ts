@@ -3,3 +3,5 @@
  */
 
 export * from './components';
+export { useChildrenAttendance } from './hooks/use-children-attendance';
+export { getWeeklyAttendance } from './helpers/child-attendance-helpers';
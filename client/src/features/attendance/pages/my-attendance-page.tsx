@@ -0,0 +1,36 @@
+/**
+ * My Attendance Page
+ * Self-service check-in/check-out, attendance history and regularization requests
+ * for staff (admins and teachers)
+ * @route /my-attendance
+ */
+
+import { useState } from "react";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { MyAttendance } from "../components/my-attendance";
+import { MyRegularizationRequests } from "../components/my-regularization-requests";
+
+export function MyAttendancePage() {
+  const [activeTab, setActiveTab] = useState("attendance");
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="attendance">Attendance</TabsTrigger>
+            <TabsTrigger value="regularizations">Regularization Requests</TabsTrigger>
+          </TabsList>
+          <TabsContent value="attendance">
+            <MyAttendance />
+          </TabsContent>
+          <TabsContent value="regularizations">
+            <MyRegularizationRequests />
+          </TabsContent>
+        </Tabs>
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
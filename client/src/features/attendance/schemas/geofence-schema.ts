@@ -0,0 +1,25 @@
+import * as z from "zod";
+
+function isNumberInRange(value: string, min: number, max: number): boolean {
+  const num = parseFloat(value);
+  return !isNaN(num) && num >= min && num <= max;
+}
+
+export const geofenceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  latitude: z
+    .string()
+    .min(1, "Latitude is required")
+    .refine((val) => isNumberInRange(val, -90, 90), "Latitude must be between -90 and 90"),
+  longitude: z
+    .string()
+    .min(1, "Longitude is required")
+    .refine((val) => isNumberInRange(val, -180, 180), "Longitude must be between -180 and 180"),
+  radius_meters: z
+    .string()
+    .min(1, "Radius is required")
+    .refine((val) => isNumberInRange(val, 25, 5000), "Radius must be between 25 m and 5 km"),
+  is_active: z.boolean(),
+});
+
+export type GeofenceFormValues = z.infer<typeof geofenceSchema>;
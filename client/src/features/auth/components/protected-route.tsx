@@ -1,5 +1,7 @@
 import { Redirect, useLocation } from "wouter";
 import { useUser } from "@/core/contexts";
+import { canAccessRoute } from "@/core/permissions";
+import Forbidden from "@/pages/forbidden";
 import type { ReactNode } from "react";
 
 interface ProtectedRouteProps {
@@ -9,6 +11,7 @@ interface ProtectedRouteProps {
 /**
  * ProtectedRoute component that redirects to /auth if user is not authenticated
  * Stores the attempted URL to redirect back after login
+ * Renders the 403 page when the route's permission (see ROUTE_PERMISSIONS) is missing
  */
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
   const { user } = useUser();
@@ -20,5 +23,9 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Redirect to="/auth" />;
   }
 
+  if (!canAccessRoute(user, location)) {
+    return <Forbidden />;
+  }
+
   return <>{children}</>;
 }
@@ -21,6 +21,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
 import { TablePagination } from "@/components/ui/table-pagination";
+import { Can, PERMISSIONS, usePermissions } from "@/core/permissions";
 import { useDeletedView } from "@/hooks/use-deleted-view";
 import {
   fetchClasses,
@@ -50,6 +51,8 @@ export function ClassesList({
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.CLASSES_MANAGE);
 
   const {
     showDeleted,
@@ -107,7 +110,7 @@ export function ClassesList({
         onDelete: onReactivate || (() => {}),
         isDeletedView: true,
       })
-    : getClassColumns({ onView, onEdit, onDelete });
+    : getClassColumns(canManage ? { onView, onEdit, onDelete } : { onView });
 
   const classMasters = classMastersData?.data || [];
   const teachers = teachersData?.data || [];
@@ -187,20 +190,22 @@ export function ClassesList({
           <p className="text-base text-gray-600">{getListDescription("Classes", showDeleted)}</p>
         </div>
         <div className="flex flex-wrap gap-3">
-          <DeletedViewToggle
-            showDeleted={showDeleted}
-            onToggle={toggleDeletedView}
-            resourceName="classes"
-          />
-          {!showDeleted && (
-            <>
-              <BulkUploadClasses />
-              <Button onClick={onCreateNew} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Sections
-              </Button>
-            </>
-          )}
+          <Can permission={PERMISSIONS.CLASSES_MANAGE}>
+            <DeletedViewToggle
+              showDeleted={showDeleted}
+              onToggle={toggleDeletedView}
+              resourceName="classes"
+            />
+            {!showDeleted && (
+              <>
+                <BulkUploadClasses />
+                <Button onClick={onCreateNew} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Sections
+                </Button>
+              </>
+            )}
+          </Can>
         </div>
       </div>
 
@@ -229,7 +234,7 @@ export function ClassesList({
               showDeleted
             )}
             emptyAction={
-              !showDeleted
+              !showDeleted && canManage
                 ? {
                     label: "Add Your First Section",
                     onClick: onCreateNew,
@@ -7,8 +7,8 @@ import type { MasterClass } from "@/lib/api/class-api";
 
 interface GetClassColumnsOptions {
   onView: (classData: MasterClass) => void;
-  onEdit: (classData: MasterClass) => void;
-  onDelete: (classData: MasterClass) => void;
+  onEdit?: (classData: MasterClass) => void;
+  onDelete?: (classData: MasterClass) => void;
   isDeletedView?: boolean;
 }
 
@@ -87,7 +87,7 @@ export function getClassColumns({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => onDelete(classData)}
+                  onClick={() => onDelete?.(classData)}
                   className="text-green-600 hover:text-green-700"
                 >
                   <RotateCcw className="mr-2 h-4 w-4" />
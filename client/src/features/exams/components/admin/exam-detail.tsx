@@ -0,0 +1,242 @@
+/**
+ * Exam Detail Component
+ * Papers of one exam term with their marks entry progress, plus the
+ * lock / publish workflow for its results
+ */
+
+import { format, parseISO } from "date-fns";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Loader2,
+  Lock,
+  LockOpen,
+  ScrollText,
+  Send,
+  Undo2,
+} from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { ConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExamStatus, ExamStatusColors, ExamStatusLabels } from "@/constants/exams";
+import type { ExamPaper, ExamTransition } from "@/lib/api/exam-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useExam, useExamPapers, useTransitionExam } from "../../hooks/use-exams";
+import { ExamPaperDialog } from "./exam-paper-dialog";
+import { getExamPaperColumns } from "./exam-paper-table-columns";
+
+const ALL_CLASSES = "all";
+
+const TRANSITION_CONFIRMATIONS: Record<ExamTransition, { title: string; description: string }> = {
+  lock: {
+    title: "Lock Marks?",
+    description:
+      "Teachers will no longer be able to enter or change marks for this exam. You can unlock it again before publishing.",
+  },
+  unlock: {
+    title: "Reopen Marks Entry?",
+    description: "Teachers will be able to enter and change marks for this exam again.",
+  },
+  publish: {
+    title: "Publish Results?",
+    description:
+      "Parents will see every child's marks, grades and GPA for this exam on their dashboard.",
+  },
+  unpublish: {
+    title: "Withdraw Results?",
+    description: "Parents will no longer see the results of this exam. Marks stay locked.",
+  },
+};
+
+interface ExamDetailProps {
+  examId: string;
+}
+
+export function ExamDetail({ examId }: ExamDetailProps) {
+  const [, setLocation] = useLocation();
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [editingPaper, setEditingPaper] = useState<ExamPaper | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<ExamTransition | null>(null);
+
+  const { data: exam, isLoading: isLoadingExam, error } = useExam(examId);
+  const { data: papers = [], isLoading: isLoadingPapers } = useExamPapers(examId);
+  const transitionMutation = useTransitionExam();
+
+  if (isLoadingExam) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading exam...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !exam) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error ? getApiErrorMessage(error) : "Exam not found."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const isDraft = exam.status === ExamStatus.DRAFT;
+  const filteredPapers =
+    classFilter === ALL_CLASSES
+      ? papers
+      : papers.filter((paper) => paper.class_info.public_id === classFilter);
+  const incompletePapers = exam.paper_count - exam.completed_paper_count;
+
+  const columns = getExamPaperColumns({
+    canEdit: isDraft,
+    onEdit: setEditingPaper,
+    onOpenMarks: (paper) => setLocation(`/exams/${exam.public_id}/papers/${paper.public_id}`),
+  });
+
+  const handleConfirmTransition = () => {
+    if (!pendingTransition) {
+      return;
+    }
+    transitionMutation.mutate(
+      { publicId: exam.public_id, action: pendingTransition },
+      { onSettled: () => setPendingTransition(null) }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setLocation("/exams")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Exams
+          </Button>
+          <div className="flex items-center gap-3">
+            <h2 className="text-3xl font-bold text-gray-900">{exam.name}</h2>
+            <Badge className={ExamStatusColors[exam.status]}>{ExamStatusLabels[exam.status]}</Badge>
+          </div>
+          <p className="text-gray-600">
+            {format(parseISO(exam.start_date), "MMM dd")} -{" "}
+            {format(parseISO(exam.end_date), "MMM dd, yyyy")} • {exam.grade_scale.name}
+            {exam.published_at &&
+              ` • Published ${format(parseISO(exam.published_at), "MMM dd, yyyy")}`}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {!isDraft && (
+            <Button
+              variant="outline"
+              onClick={() => setLocation(`/report-cards?exam=${exam.public_id}`)}
+            >
+              <ScrollText className="mr-2 h-4 w-4" />
+              Report Cards
+            </Button>
+          )}
+          {isDraft && (
+            <Button onClick={() => setPendingTransition("lock")}>
+              <Lock className="mr-2 h-4 w-4" />
+              Lock Marks
+            </Button>
+          )}
+          {exam.status === ExamStatus.LOCKED && (
+            <>
+              <Button variant="outline" onClick={() => setPendingTransition("unlock")}>
+                <LockOpen className="mr-2 h-4 w-4" />
+                Reopen Entry
+              </Button>
+              <Button onClick={() => setPendingTransition("publish")}>
+                <Send className="mr-2 h-4 w-4" />
+                Publish Results
+              </Button>
+            </>
+          )}
+          {exam.status === ExamStatus.PUBLISHED && (
+            <Button variant="outline" onClick={() => setPendingTransition("unpublish")}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Withdraw Results
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isDraft && incompletePapers > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {incompletePapers} of {exam.paper_count} papers are still missing marks for some
+            students.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Papers</CardTitle>
+            <CardDescription>
+              {isDraft
+                ? "Teachers enter marks for their own papers. Adjust max marks and dates here."
+                : "Marks are locked. Reopen marks entry to make changes."}
+            </CardDescription>
+          </div>
+          <Select value={classFilter} onValueChange={setClassFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CLASSES}>All Classes</SelectItem>
+              {exam.classes.map((item) => (
+                <SelectItem key={item.public_id} value={item.public_id}>
+                  {item.class_master_name} - {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={filteredPapers}
+            isLoading={isLoadingPapers}
+            emptyMessage="No papers found"
+            getRowKey={(row: ExamPaper) => row.public_id}
+          />
+        </CardContent>
+      </Card>
+
+      <ExamPaperDialog
+        open={!!editingPaper}
+        onOpenChange={(open: boolean) => !open && setEditingPaper(null)}
+        paper={editingPaper}
+      />
+
+      <ConfirmationDialog
+        open={!!pendingTransition}
+        onOpenChange={(open: boolean) => !open && setPendingTransition(null)}
+        title={pendingTransition ? TRANSITION_CONFIRMATIONS[pendingTransition].title : ""}
+        description={
+          pendingTransition ? TRANSITION_CONFIRMATIONS[pendingTransition].description : ""
+        }
+        confirmLabel="Confirm"
+        variant={pendingTransition === "unpublish" ? "destructive" : "default"}
+        onConfirm={handleConfirmTransition}
+      />
+    </div>
+  );
+}
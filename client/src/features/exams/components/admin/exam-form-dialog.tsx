@@ -0,0 +1,312 @@
+/**
+ * Exam Form Dialog
+ * Create or edit an exam term. Saving creates a paper for every subject
+ * assigned to the selected classes.
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ClipboardList, Loader2 } from "lucide-react";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_MAX_MARKS, DEFAULT_PASS_PERCENTAGE } from "@/constants/exams";
+import type { Exam } from "@/lib/api/exam-api";
+import { useClasses } from "@/lib/hooks/use-shared-queries";
+import { useGradeScales, useSaveExam } from "../../hooks/use-exams";
+import { examFormSchema, type ExamFormValues } from "../../schemas/exam-form-schema";
+
+interface ExamFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exam: Exam | null; // null when creating
+}
+
+function toFormValues(exam: Exam | null): ExamFormValues {
+  return {
+    name: exam?.name ?? "",
+    start_date: exam?.start_date ?? "",
+    end_date: exam?.end_date ?? "",
+    grade_scale_id: exam?.grade_scale.public_id ?? "",
+    class_ids: exam?.classes.map((item) => item.public_id) ?? [],
+    max_marks: String(DEFAULT_MAX_MARKS),
+    pass_marks: String(Math.ceil((DEFAULT_MAX_MARKS * DEFAULT_PASS_PERCENTAGE) / 100)),
+  };
+}
+
+export function ExamFormDialog({ open, onOpenChange, exam }: ExamFormDialogProps) {
+  const isEditMode = !!exam;
+  const { data: gradeScales = [] } = useGradeScales();
+  const { data: classesData } = useClasses();
+  const saveMutation = useSaveExam(() => onOpenChange(false));
+
+  const classes = [...(classesData?.data || [])].sort(
+    (a, b) =>
+      a.class_master.display_order - b.class_master.display_order || a.name.localeCompare(b.name)
+  );
+
+  const form = useForm<ExamFormValues>({
+    resolver: zodResolver(examFormSchema),
+    defaultValues: toFormValues(exam),
+  });
+
+  // Reset the form whenever the dialog opens for a different exam
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(exam));
+    }
+  }, [open, exam, form]);
+
+  // New exams start on the default scale, once the scales have loaded
+  useEffect(() => {
+    if (open && !form.getValues("grade_scale_id")) {
+      const defaultScale = gradeScales.find((scale) => scale.is_default);
+      if (defaultScale) {
+        form.setValue("grade_scale_id", defaultScale.public_id);
+      }
+    }
+  }, [open, gradeScales, form]);
+
+  const selectedClassIds = form.watch("class_ids");
+  const allSelected = classes.length > 0 && selectedClassIds.length === classes.length;
+
+  const handleSubmit = (data: ExamFormValues) => {
+    saveMutation.mutate({
+      publicId: exam?.public_id,
+      payload: {
+        name: data.name,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        grade_scale_id: data.grade_scale_id,
+        class_ids: data.class_ids,
+        max_marks: parseFloat(data.max_marks),
+        pass_marks: parseFloat(data.pass_marks),
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-indigo-600" />
+            {isEditMode ? "Edit Exam" : "Create Exam"}
+          </DialogTitle>
+          <DialogDescription>
+            Every subject assigned to the selected classes gets a paper for its teacher to enter
+            marks
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Half-Yearly Examination" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="grade_scale_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Grade Scale *</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a grade scale" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {gradeScales.map((scale) => (
+                        <SelectItem key={scale.public_id} value={scale.public_id}>
+                          {scale.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="max_marks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Marks *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pass_marks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pass Marks *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={0} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-muted-foreground -mt-2 text-xs">
+              {isEditMode
+                ? "Applied to papers of newly added classes. Change existing papers from the exam page."
+                : "Applied to every paper. Adjust individual papers afterwards from the exam page."}
+            </p>
+
+            <FormField
+              control={form.control}
+              name="class_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Classes *</FormLabel>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() =>
+                        field.onChange(allSelected ? [] : classes.map((item) => item.public_id))
+                      }
+                    >
+                      {allSelected ? "Clear all" : "Select all"}
+                    </Button>
+                  </div>
+                  <div className="grid max-h-48 grid-cols-2 gap-2 overflow-y-auto rounded-lg border p-3 sm:grid-cols-3">
+                    {classes.map((item) => {
+                      const checked = field.value.includes(item.public_id);
+                      return (
+                        <div key={item.public_id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`exam-class-${item.public_id}`}
+                            checked={checked}
+                            onCheckedChange={(value) =>
+                              field.onChange(
+                                value
+                                  ? [...field.value, item.public_id]
+                                  : field.value.filter((id) => id !== item.public_id)
+                              )
+                            }
+                          />
+                          <Label
+                            htmlFor={`exam-class-${item.public_id}`}
+                            className="text-sm font-normal"
+                          >
+                            {item.class_master.name} - {item.name}
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {isEditMode && (
+                    <FormDescription>
+                      Removing a class deletes its papers along with any marks entered.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Exam"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
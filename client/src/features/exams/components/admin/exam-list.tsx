@@ -0,0 +1,185 @@
+/**
+ * Exam List Component
+ * Exam terms with their marks entry progress; opens an exam's papers on click
+ */
+
+import { AlertCircle, ClipboardList, Loader2, Plus, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import { ExamStatus, ExamStatusLabels } from "@/constants/exams";
+import type { Exam } from "@/lib/api/exam-api";
+import { useDeleteExam, useExams } from "../../hooks/use-exams";
+import { ExamFormDialog } from "./exam-form-dialog";
+import { getExamColumns } from "./exam-table-columns";
+
+export function ExamList() {
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [formDialog, setFormDialog] = useState<{ open: boolean; exam: Exam | null }>({
+    open: false,
+    exam: null,
+  });
+  const [deletingExam, setDeletingExam] = useState<Exam | null>(null);
+
+  const {
+    data: examsData,
+    isLoading,
+    error,
+    refetch,
+  } = useExams({ page, page_size: pageSize, ...filters });
+  const deleteMutation = useDeleteExam(() => setDeletingExam(null));
+
+  const exams = examsData?.data || [];
+  const totalCount = examsData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const openExam = (exam: Exam) => setLocation(`/exams/${exam.public_id}`);
+
+  const columns = getExamColumns({
+    onView: openExam,
+    onEdit: (exam) => setFormDialog({ open: true, exam }),
+    onDelete: setDeletingExam,
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "search",
+      label: "Search",
+      type: "text",
+      placeholder: "Search by exam name...",
+    },
+    {
+      name: "status",
+      label: "Status",
+      type: "select",
+      placeholder: "All Statuses",
+      searchPlaceholder: "Search status...",
+      options: Object.values(ExamStatus).map((status) => ({
+        value: status,
+        label: ExamStatusLabels[status],
+      })),
+    },
+  ];
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !examsData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading exams...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load exams. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Exam Terms
+            </CardTitle>
+            <CardDescription>
+              Lock an exam once every paper has marks, then publish its results to parents
+            </CardDescription>
+          </div>
+          <Button onClick={() => setFormDialog({ open: true, exam: null })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Exam
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={exams}
+            isLoading={isLoading}
+            emptyMessage="No exams found"
+            getRowKey={(row: Exam) => row.public_id}
+            onRowClick={openExam}
+          />
+
+          {exams.length > 0 && (
+            <div className="mt-4">
+              <TablePagination
+                currentPage={page}
+                totalPages={totalPages}
+                totalRecords={totalCount}
+                pageSize={pageSize}
+                onPageChange={setPage}
+                onPageSizeChange={handlePageSizeChange}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ExamFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) => !open && setFormDialog({ open: false, exam: null })}
+        exam={formDialog.exam}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingExam}
+        title="Delete Exam?"
+        description={`"${deletingExam?.name}" and every mark entered for it will be removed. This cannot be undone.`}
+        onConfirm={() => deletingExam && deleteMutation.mutate(deletingExam.public_id)}
+        onCancel={() => setDeletingExam(null)}
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
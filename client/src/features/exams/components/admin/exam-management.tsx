@@ -0,0 +1,44 @@
+/**
+ * Exam Management Component
+ * Admin landing view for the gradebook: exam terms and the grade scales
+ * their results are graded on
+ */
+
+import { Award, ClipboardList } from "lucide-react";
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ExamList } from "./exam-list";
+import { GradeScaleList } from "./grade-scale-list";
+
+export function ExamManagement() {
+  const [activeTab, setActiveTab] = useState("exams");
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Exams & Grades</h2>
+        <p className="text-gray-600">Create exam terms, track marks entry and publish results</p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="exams" className="gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Exams
+          </TabsTrigger>
+          <TabsTrigger value="grade-scales" className="gap-2">
+            <Award className="h-4 w-4" />
+            Grade Scales
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="exams" className="mt-6">
+          <ExamList />
+        </TabsContent>
+        <TabsContent value="grade-scales" className="mt-6">
+          <GradeScaleList />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Exam Paper Dialog
+ * Adjust one paper's max marks, pass marks and date while marks entry is open
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FileText, Loader2 } from "lucide-react";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import type { ExamPaper } from "@/lib/api/exam-api";
+import { useUpdateExamPaper } from "../../hooks/use-exams";
+import { examPaperFormSchema, type ExamPaperFormValues } from "../../schemas/exam-form-schema";
+
+interface ExamPaperDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  paper: ExamPaper | null;
+}
+
+function toFormValues(paper: ExamPaper | null): ExamPaperFormValues {
+  return {
+    max_marks: paper ? String(paper.max_marks) : "",
+    pass_marks: paper ? String(paper.pass_marks) : "",
+    exam_date: paper?.exam_date ?? "",
+  };
+}
+
+export function ExamPaperDialog({ open, onOpenChange, paper }: ExamPaperDialogProps) {
+  const updateMutation = useUpdateExamPaper(() => onOpenChange(false));
+
+  const form = useForm<ExamPaperFormValues>({
+    resolver: zodResolver(examPaperFormSchema),
+    defaultValues: toFormValues(paper),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(paper));
+    }
+  }, [open, paper, form]);
+
+  if (!paper) {
+    return null;
+  }
+
+  const handleSubmit = (data: ExamPaperFormValues) => {
+    updateMutation.mutate({
+      paperId: paper.public_id,
+      payload: {
+        max_marks: parseFloat(data.max_marks),
+        pass_marks: parseFloat(data.pass_marks),
+        exam_date: data.exam_date || null,
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-indigo-600" />
+            {paper.subject_info.name}
+          </DialogTitle>
+          <DialogDescription>
+            {paper.class_info.class_master_name} - {paper.class_info.name} •{" "}
+            {paper.teacher_info.full_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="max_marks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Marks *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pass_marks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pass Marks *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" min={0} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="exam_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Exam Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={updateMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Paper"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
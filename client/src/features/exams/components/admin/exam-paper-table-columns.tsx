@@ -0,0 +1,116 @@
+/**
+ * Exam Paper Table Columns
+ * Column definitions for the papers of an exam term
+ */
+
+import { format, parseISO } from "date-fns";
+import { Edit, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { Progress } from "@/components/ui/progress";
+import type { ExamPaper } from "@/lib/api/exam-api";
+
+interface GetExamPaperColumnsProps {
+  canEdit: boolean;
+  onEdit: (paper: ExamPaper) => void;
+  onOpenMarks: (paper: ExamPaper) => void;
+}
+
+export function getExamPaperColumns({
+  canEdit,
+  onEdit,
+  onOpenMarks,
+}: GetExamPaperColumnsProps): Column<ExamPaper>[] {
+  return [
+    {
+      header: "Class",
+      accessor: (paper) => `${paper.class_info.class_master_name} - ${paper.class_info.name}`,
+      width: 130,
+    },
+    {
+      header: "Subject",
+      accessor: (paper) => (
+        <div>
+          <div className="font-medium">{paper.subject_info.name}</div>
+          <div className="text-muted-foreground text-xs">{paper.teacher_info.full_name}</div>
+        </div>
+      ),
+      minWidth: 180,
+    },
+    {
+      header: "Date",
+      accessor: (paper) =>
+        paper.exam_date ? format(parseISO(paper.exam_date), "EEE, MMM dd") : "-",
+      sortable: true,
+      sortKey: "exam_date",
+      width: 120,
+    },
+    {
+      header: "Max / Pass",
+      accessor: (paper) => `${paper.max_marks} / ${paper.pass_marks}`,
+      width: 100,
+    },
+    {
+      header: "Marks Entered",
+      accessor: (paper) => (
+        <div className="space-y-1">
+          <div className="text-xs">
+            {paper.marks_entered} / {paper.student_count}
+          </div>
+          <Progress
+            value={paper.student_count > 0 ? (paper.marks_entered / paper.student_count) * 100 : 0}
+            className="h-1.5"
+          />
+        </div>
+      ),
+      width: 130,
+    },
+    {
+      header: "Average",
+      accessor: (paper) =>
+        paper.average_percentage !== null ? `${paper.average_percentage}%` : "-",
+      sortable: true,
+      sortKey: "average_percentage",
+      width: 100,
+    },
+    {
+      header: "Passed",
+      accessor: (paper) => (paper.pass_percentage !== null ? `${paper.pass_percentage}%` : "-"),
+      sortable: true,
+      sortKey: "pass_percentage",
+      width: 100,
+    },
+    {
+      header: "Actions",
+      accessor: (paper) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenMarks(paper);
+            }}
+            aria-label="Open marks sheet"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+          </Button>
+          {canEdit && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit(paper);
+              }}
+              aria-label="Edit paper"
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+      width: 110,
+    },
+  ];
+}
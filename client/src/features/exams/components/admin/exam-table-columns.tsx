@@ -0,0 +1,119 @@
+/**
+ * Exam Table Columns
+ * Column definitions for the exam terms data table
+ */
+
+import { format, parseISO } from "date-fns";
+import { Edit, Eye, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { Progress } from "@/components/ui/progress";
+import { ExamStatus, ExamStatusColors, ExamStatusLabels } from "@/constants/exams";
+import type { Exam } from "@/lib/api/exam-api";
+
+interface GetExamColumnsProps {
+  onView: (exam: Exam) => void;
+  onEdit: (exam: Exam) => void;
+  onDelete: (exam: Exam) => void;
+}
+
+export function getExamColumns({ onView, onEdit, onDelete }: GetExamColumnsProps): Column<Exam>[] {
+  return [
+    {
+      header: "Exam",
+      accessor: (exam) => (
+        <div>
+          <div className="font-medium">{exam.name}</div>
+          <div className="text-muted-foreground text-xs">{exam.grade_scale.name}</div>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "name",
+      minWidth: 200,
+    },
+    {
+      header: "Dates",
+      accessor: (exam) =>
+        `${format(parseISO(exam.start_date), "MMM dd")} - ${format(parseISO(exam.end_date), "MMM dd, yyyy")}`,
+      sortable: true,
+      sortKey: "start_date",
+      width: 190,
+    },
+    {
+      header: "Classes",
+      accessor: (exam) => exam.classes.length,
+      width: 90,
+    },
+    {
+      header: "Marks Entered",
+      accessor: (exam) => (
+        <div className="space-y-1">
+          <div className="text-xs">
+            {exam.completed_paper_count} / {exam.paper_count} papers
+          </div>
+          <Progress
+            value={exam.paper_count > 0 ? (exam.completed_paper_count / exam.paper_count) * 100 : 0}
+            className="h-1.5"
+          />
+        </div>
+      ),
+      width: 150,
+    },
+    {
+      header: "Status",
+      accessor: (exam) => (
+        <Badge className={ExamStatusColors[exam.status]}>{ExamStatusLabels[exam.status]}</Badge>
+      ),
+      sortable: true,
+      sortKey: "status",
+      width: 150,
+    },
+    {
+      header: "Actions",
+      accessor: (exam) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onView(exam);
+            }}
+            aria-label="View papers"
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+          {exam.status === ExamStatus.DRAFT && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit(exam);
+                }}
+                aria-label="Edit exam"
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(exam);
+                }}
+                aria-label="Delete exam"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+      width: 150,
+    },
+  ];
+}
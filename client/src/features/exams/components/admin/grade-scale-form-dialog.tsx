@@ -0,0 +1,301 @@
+/**
+ * Grade Scale Form Dialog
+ * Create or edit the bands that turn a percentage into a grade and grade point
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Award, Loader2, Plus, Trash2 } from "lucide-react";
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { GradeScale } from "@/lib/api/exam-api";
+import { useSaveGradeScale } from "../../hooks/use-exams";
+import { gradeScaleFormSchema, type GradeScaleFormValues } from "../../schemas/grade-scale-schema";
+
+interface GradeScaleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gradeScale: GradeScale | null; // null when creating
+}
+
+function toFormValues(gradeScale: GradeScale | null): GradeScaleFormValues {
+  return {
+    name: gradeScale?.name ?? "",
+    is_default: gradeScale?.is_default ?? false,
+    bands: gradeScale
+      ? gradeScale.bands.map((band) => ({
+          min_percentage: String(band.min_percentage),
+          grade: band.grade,
+          grade_point: String(band.grade_point),
+          description: band.description,
+        }))
+      : [
+          { min_percentage: "90", grade: "A", grade_point: "4", description: "Excellent" },
+          { min_percentage: "75", grade: "B", grade_point: "3", description: "Good" },
+          { min_percentage: "50", grade: "C", grade_point: "2", description: "Average" },
+          { min_percentage: "33", grade: "D", grade_point: "1", description: "Pass" },
+          { min_percentage: "0", grade: "F", grade_point: "0", description: "Fail" },
+        ],
+  };
+}
+
+export function GradeScaleFormDialog({
+  open,
+  onOpenChange,
+  gradeScale,
+}: GradeScaleFormDialogProps) {
+  const isEditMode = !!gradeScale;
+  const saveMutation = useSaveGradeScale(() => onOpenChange(false));
+
+  const form = useForm<GradeScaleFormValues>({
+    resolver: zodResolver(gradeScaleFormSchema),
+    defaultValues: toFormValues(gradeScale),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "bands" });
+
+  // Reset the form whenever the dialog opens for a different scale
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(gradeScale));
+    }
+  }, [open, gradeScale, form]);
+
+  const handleSubmit = (data: GradeScaleFormValues) => {
+    saveMutation.mutate({
+      publicId: gradeScale?.public_id,
+      payload: {
+        name: data.name,
+        is_default: data.is_default,
+        bands: data.bands
+          .map((band) => ({
+            min_percentage: parseFloat(band.min_percentage),
+            grade: band.grade.trim(),
+            grade_point: parseFloat(band.grade_point),
+            description: band.description.trim(),
+          }))
+          .sort((a, b) => b.min_percentage - a.min_percentage),
+      },
+    });
+  };
+
+  const rootError =
+    form.formState.errors.bands?.root?.message ?? form.formState.errors.bands?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5 text-indigo-600" />
+            {isEditMode ? "Edit Grade Scale" : "Add Grade Scale"}
+          </DialogTitle>
+          <DialogDescription>
+            A score gets the grade of the highest band whose minimum it reaches
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. CBSE 9-Point Scale" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3">
+              <div className="text-muted-foreground hidden grid-cols-12 gap-3 px-3 text-xs font-medium md:grid">
+                <span className="col-span-3">From (%)</span>
+                <span className="col-span-2">Grade</span>
+                <span className="col-span-2">Grade Point</span>
+                <span className="col-span-4">Description</span>
+              </div>
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="grid grid-cols-12 items-start gap-3 rounded-lg border p-3"
+                >
+                  <FormField
+                    control={form.control}
+                    name={`bands.${index}.min_percentage`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-6 md:col-span-3">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            min={0}
+                            max={100}
+                            aria-label="Minimum percentage"
+                            {...inputField}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`bands.${index}.grade`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-6 md:col-span-2">
+                        <FormControl>
+                          <Input placeholder="A1" aria-label="Grade" {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`bands.${index}.grade_point`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-6 md:col-span-2">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            min={0}
+                            aria-label="Grade point"
+                            {...inputField}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`bands.${index}.description`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-5 md:col-span-4">
+                        <FormControl>
+                          <Input
+                            placeholder="e.g. Outstanding"
+                            aria-label="Description"
+                            {...inputField}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="col-span-1 flex justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label="Remove band"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                append({ min_percentage: "", grade: "", grade_point: "", description: "" })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Band
+            </Button>
+
+            {rootError && (
+              <Alert variant="destructive">
+                <AlertDescription>{rootError}</AlertDescription>
+              </Alert>
+            )}
+
+            {isEditMode && gradeScale.exam_count > 0 && (
+              <Alert>
+                <AlertDescription>
+                  {gradeScale.exam_count === 1
+                    ? "One exam uses"
+                    : `${gradeScale.exam_count} exams use`}{" "}
+                  this scale. Their grades, including published results, are recalculated with the
+                  new bands.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_default"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <FormLabel className="text-base font-medium">Default Scale</FormLabel>
+                    <FormDescription>Preselected when a new exam is created</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={gradeScale?.is_default}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Grade Scale"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Grade Scale List Component
+ * Shows each grade scale's bands and lets admins add, edit or delete scales
+ */
+
+import { AlertCircle, Award, Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { GradeScale } from "@/lib/api/exam-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useDeleteGradeScale, useGradeScales } from "../../hooks/use-exams";
+import { GradeScaleFormDialog } from "./grade-scale-form-dialog";
+
+/** "91 - 100", "81 - 90.9", ... from the bands, highest first */
+function getBandRanges(scale: GradeScale): string[] {
+  return scale.bands.map((band, index) => {
+    const upper = index === 0 ? 100 : scale.bands[index - 1].min_percentage;
+    return index === 0 ? `${band.min_percentage} - 100` : `${band.min_percentage} - < ${upper}`;
+  });
+}
+
+export function GradeScaleList() {
+  const [formDialog, setFormDialog] = useState<{ open: boolean; gradeScale: GradeScale | null }>({
+    open: false,
+    gradeScale: null,
+  });
+  const [deletingScale, setDeletingScale] = useState<GradeScale | null>(null);
+
+  const { data: gradeScales = [], isLoading, error } = useGradeScales();
+  const deleteMutation = useDeleteGradeScale();
+
+  const handleDelete = () => {
+    if (!deletingScale) {
+      return;
+    }
+    deleteMutation.mutate(deletingScale.public_id, {
+      onSettled: () => setDeletingScale(null),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5" />
+              Grade Scales
+            </CardTitle>
+            <CardDescription>
+              Convert percentages to grades and grade points on marks sheets and report cards
+            </CardDescription>
+          </div>
+          <Button onClick={() => setFormDialog({ open: true, gradeScale: null })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Grade Scale
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && gradeScales.length === 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No grade scales yet. Add one before creating an exam.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {gradeScales.map((scale) => {
+              const ranges = getBandRanges(scale);
+              return (
+                <div key={scale.public_id} className="rounded-lg border">
+                  <div className="flex items-start justify-between gap-2 border-b p-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold">{scale.name}</h3>
+                        {scale.is_default && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                      <p className="text-muted-foreground text-xs">
+                        Used by {scale.exam_count} {scale.exam_count === 1 ? "exam" : "exams"}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setFormDialog({ open: true, gradeScale: scale })}
+                        aria-label={`Edit ${scale.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => setDeletingScale(scale)}
+                        disabled={scale.is_default || scale.exam_count > 0}
+                        aria-label={`Delete ${scale.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Percentage</TableHead>
+                        <TableHead>Grade</TableHead>
+                        <TableHead>Grade Point</TableHead>
+                        <TableHead>Description</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {scale.bands.map((band, index) => (
+                        <TableRow key={band.grade}>
+                          <TableCell className="text-sm">{ranges[index]}</TableCell>
+                          <TableCell className="font-semibold">{band.grade}</TableCell>
+                          <TableCell>{band.grade_point}</TableCell>
+                          <TableCell className="text-muted-foreground text-sm">
+                            {band.description || "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <GradeScaleFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) => !open && setFormDialog({ open: false, gradeScale: null })}
+        gradeScale={formDialog.gradeScale}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingScale}
+        title="Delete Grade Scale?"
+        description={`"${deletingScale?.name}" will be removed. This cannot be undone.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingScale(null)}
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Exams - Admin Components
+ *
+ * Components for administrators running exam terms, reviewing marks entry
+ * progress and maintaining grade scales.
+ */
+
+export { ExamManagement } from "./exam-management";
+export { ExamList } from "./exam-list";
+export { ExamFormDialog } from "./exam-form-dialog";
+export { ExamDetail } from "./exam-detail";
+export { ExamPaperDialog } from "./exam-paper-dialog";
+export { GradeScaleList } from "./grade-scale-list";
+export { GradeScaleFormDialog } from "./grade-scale-form-dialog";
+export { ReportCardGenerator } from "./report-card-generator";
+export { ReportCardTemplateDialog } from "./report-card-template-dialog";
+export { ReportCardRemarksDialog } from "./report-card-remarks-dialog";
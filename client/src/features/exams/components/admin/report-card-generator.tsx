@@ -0,0 +1,380 @@
+/**
+ * Report Card Generator
+ * Report cards of a section for a locked or published exam: a student list
+ * with the class teacher's remarks, a preview of one card, and printing of a
+ * single card or the whole section. Printing renders the cards into a
+ * print-only root, so the browser's "Save as PDF" produces the PDF copy.
+ */
+
+import {
+  AlertCircle,
+  Eye,
+  FileText,
+  Loader2,
+  MessageSquareText,
+  Palette,
+  Printer,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExamStatus, ExamStatusColors, ExamStatusLabels } from "@/constants/exams";
+import { useUser } from "@/core/contexts";
+import { Can, PERMISSIONS, usePermissions } from "@/core/permissions";
+import type { ReportCard } from "@/lib/api/report-card-api";
+import { PAGE_SIZES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useClasses } from "@/lib/hooks/use-shared-queries";
+import { cn } from "@/lib/utils";
+import { useExams } from "../../hooks/use-exams";
+import { useReportCards, useReportCardTemplate } from "../../hooks/use-report-cards";
+import { ReportCardDocument } from "../report-card-document";
+import { ReportCardRemarksDialog } from "./report-card-remarks-dialog";
+import { ReportCardTemplateDialog } from "./report-card-template-dialog";
+
+/** Print every card of the section, or only one student's */
+type PrintTarget = { scope: "all" } | { scope: "student"; studentId: string };
+
+interface ReportCardGeneratorProps {
+  initialExamId?: string;
+}
+
+export function ReportCardGenerator({ initialExamId }: ReportCardGeneratorProps) {
+  const { user } = useUser();
+  const { can } = usePermissions();
+  const [selectedExamId, setSelectedExamId] = useState(initialExamId ?? "");
+  const [selectedClassId, setSelectedClassId] = useState("");
+  const [previewStudentId, setPreviewStudentId] = useState("");
+  const [editingCard, setEditingCard] = useState<ReportCard | null>(null);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const [printTarget, setPrintTarget] = useState<PrintTarget | null>(null);
+
+  // Report cards need final marks, so only locked and published exams
+  const { data: examsData, isLoading: isLoadingExams } = useExams({
+    page_size: PAGE_SIZES.LARGE,
+  });
+  const exams = (examsData?.data || []).filter((exam) => exam.status !== ExamStatus.DRAFT);
+  const exam = exams.find((item) => item.public_id === selectedExamId) ?? exams[0];
+
+  // Teachers outside academic leadership only print for sections they are class teacher of
+  const canViewAllClasses = can(PERMISSIONS.EXAMS_MANAGE);
+  const { data: classesData } = useClasses();
+  const sections = useMemo(() => {
+    const examClasses = exam?.classes || [];
+    if (canViewAllClasses) {
+      return examClasses;
+    }
+    const myClassIds = new Set(
+      (classesData?.data || [])
+        .filter(
+          (cls) =>
+            !!user?.teacher_public_id && cls.class_teacher?.public_id === user.teacher_public_id
+        )
+        .map((cls) => cls.public_id)
+    );
+    return examClasses.filter((cls) => myClassIds.has(cls.public_id));
+  }, [exam, canViewAllClasses, classesData, user]);
+  const section = sections.find((item) => item.public_id === selectedClassId) ?? sections[0];
+
+  const {
+    data: batch,
+    isLoading: isLoadingCards,
+    error,
+  } = useReportCards(exam?.public_id ?? "", { class_id: section?.public_id ?? "" });
+  const { data: template } = useReportCardTemplate();
+
+  const cards = batch?.cards || [];
+  const previewCard = cards.find((card) => card.student.public_id === previewStudentId) ?? cards[0];
+  const printCards =
+    printTarget?.scope === "student"
+      ? cards.filter((card) => card.student.public_id === printTarget.studentId)
+      : cards;
+  const sectionLabel = section ? `${section.class_master_name} - ${section.name}` : "";
+
+  // Print once the cards are in the print root, then tear it down
+  useEffect(() => {
+    if (!printTarget) {
+      return;
+    }
+    window.print();
+    setPrintTarget(null);
+  }, [printTarget]);
+
+  const handleExamChange = (examId: string) => {
+    setSelectedExamId(examId);
+    setPreviewStudentId("");
+  };
+
+  const handleClassChange = (classId: string) => {
+    setSelectedClassId(classId);
+    setPreviewStudentId("");
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Report Cards</h2>
+          <p className="text-gray-600">
+            Generate and print term report cards for a student or a whole class
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Can permission={PERMISSIONS.REPORT_CARD_LAYOUT_MANAGE}>
+            <Button variant="outline" onClick={() => setIsTemplateOpen(true)}>
+              <Palette className="mr-2 h-4 w-4" />
+              Layout
+            </Button>
+          </Can>
+          <Button
+            onClick={() => setPrintTarget({ scope: "all" })}
+            disabled={cards.length === 0 || !!printTarget}
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            {sectionLabel ? `Print All for ${sectionLabel}` : "Print All"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Exam</Label>
+            <Select
+              value={exam?.public_id ?? ""}
+              onValueChange={handleExamChange}
+              disabled={exams.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={isLoadingExams ? "Loading exams..." : "Select exam"} />
+              </SelectTrigger>
+              <SelectContent>
+                {exams.map((item) => (
+                  <SelectItem key={item.public_id} value={item.public_id}>
+                    {item.name} ({ExamStatusLabels[item.status]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Class</Label>
+            <Select
+              value={section?.public_id ?? ""}
+              onValueChange={handleClassChange}
+              disabled={sections.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select class" />
+              </SelectTrigger>
+              <SelectContent>
+                {sections.map((item) => (
+                  <SelectItem key={item.public_id} value={item.public_id}>
+                    {item.class_master_name} - {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isLoadingExams && exams.length === 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Report cards are available once an exam&apos;s marks are locked.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {exam && sections.length === 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            You are not the class teacher of any class that sat {exam.name}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {section && !error && (
+        <div className="grid gap-6 xl:grid-cols-5">
+          <Card className="xl:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {sectionLabel}
+                {exam && (
+                  <Badge className={ExamStatusColors[exam.status]}>
+                    {ExamStatusLabels[exam.status]}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {batch?.class_info.class_teacher_name
+                  ? `Class teacher: ${batch.class_info.class_teacher_name}`
+                  : "No class teacher assigned"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingCards && (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="mr-2 h-6 w-6 animate-spin text-indigo-600" />
+                  <span className="text-muted-foreground text-sm">Generating report cards...</span>
+                </div>
+              )}
+              {!isLoadingCards && cards.length === 0 && (
+                <p className="text-muted-foreground py-8 text-center text-sm">
+                  No students in this class
+                </p>
+              )}
+              {!isLoadingCards && cards.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Roll</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead className="text-right">Result</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cards.map((card) => (
+                      <TableRow
+                        key={card.student.public_id}
+                        className={cn(
+                          card.student.public_id === previewCard?.student.public_id &&
+                            "bg-indigo-50"
+                        )}
+                      >
+                        <TableCell>{card.student.roll_number}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{card.student.full_name}</div>
+                          {!card.class_teacher_remarks && (
+                            <div className="text-xs text-amber-600">No remarks yet</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {card.result.percentage}% ({card.result.grade})
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Preview"
+                              onClick={() => setPreviewStudentId(card.student.public_id)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={
+                                exam?.status === ExamStatus.PUBLISHED
+                                  ? "Withdraw the results to change remarks"
+                                  : "Edit remarks"
+                              }
+                              disabled={exam?.status === ExamStatus.PUBLISHED}
+                              onClick={() => setEditingCard(card)}
+                            >
+                              <MessageSquareText className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Print"
+                              disabled={!!printTarget}
+                              onClick={() =>
+                                setPrintTarget({
+                                  scope: "student",
+                                  studentId: card.student.public_id,
+                                })
+                              }
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="xl:col-span-3">
+            {batch && previewCard ? (
+              <div className="overflow-x-auto rounded-lg border bg-gray-100 p-4">
+                <ReportCardDocument batch={batch} card={previewCard} className="shadow-lg" />
+              </div>
+            ) : (
+              !isLoadingCards && (
+                <div className="text-muted-foreground flex h-full min-h-[200px] flex-col items-center justify-center rounded-lg border border-dashed">
+                  <FileText className="mb-2 h-8 w-8" />
+                  <p className="text-sm">Select a student to preview their report card</p>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+
+      <ReportCardTemplateDialog
+        open={isTemplateOpen}
+        onOpenChange={setIsTemplateOpen}
+        template={template}
+      />
+
+      <ReportCardRemarksDialog
+        open={!!editingCard}
+        onOpenChange={(open: boolean) => !open && setEditingCard(null)}
+        examId={exam?.public_id ?? ""}
+        card={editingCard}
+      />
+
+      {printTarget &&
+        batch &&
+        createPortal(
+          <div className="print-root">
+            {printCards.map((card) => (
+              <ReportCardDocument
+                key={card.student.public_id}
+                batch={batch}
+                card={card}
+                className="print-page p-0"
+              />
+            ))}
+          </div>,
+          document.body
+        )}
+    </div>
+  );
+}
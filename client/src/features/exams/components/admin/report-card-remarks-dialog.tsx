@@ -0,0 +1,107 @@
+/**
+ * Report Card Remarks Dialog
+ * The class teacher's remarks printed on one student's report card
+ */
+
+import { Loader2, MessageSquareText } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { ReportCard } from "@/lib/api/report-card-api";
+import { useSaveReportCardRemarks } from "../../hooks/use-report-cards";
+
+/** Remarks longer than this no longer fit the box on the printed card */
+const MAX_REMARKS_LENGTH = 300;
+
+interface ReportCardRemarksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  examId: string;
+  card: ReportCard | null;
+}
+
+export function ReportCardRemarksDialog({
+  open,
+  onOpenChange,
+  examId,
+  card,
+}: ReportCardRemarksDialogProps) {
+  const [remarks, setRemarks] = useState("");
+  const saveMutation = useSaveReportCardRemarks(examId, () => onOpenChange(false));
+
+  useEffect(() => {
+    if (open) {
+      setRemarks(card?.class_teacher_remarks ?? "");
+    }
+  }, [open, card]);
+
+  if (!card) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquareText className="h-5 w-5 text-indigo-600" />
+            Class Teacher&apos;s Remarks
+          </DialogTitle>
+          <DialogDescription>
+            {card.student.full_name} • Roll {card.student.roll_number} • {card.result.percentage}% (
+            {card.result.grade})
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-card-remarks">Remarks</Label>
+          <Textarea
+            id="report-card-remarks"
+            rows={4}
+            maxLength={MAX_REMARKS_LENGTH}
+            value={remarks}
+            onChange={(event) => setRemarks(event.target.value)}
+            placeholder="e.g. Consistent effort. Can aim higher with regular revision."
+          />
+          <p className="text-muted-foreground text-right text-xs">
+            {remarks.length}/{MAX_REMARKS_LENGTH}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saveMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              saveMutation.mutate({ studentId: card.student.public_id, remarks: remarks.trim() })
+            }
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Remarks"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * Report Card Template Dialog
+ * Edit the organization's report card layout: title, branding and which
+ * optional sections are printed
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Palette } from "lucide-react";
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { ReportCardTemplate } from "@/lib/api/report-card-api";
+import { useSaveReportCardTemplate } from "../../hooks/use-report-cards";
+import {
+  reportCardTemplateFormSchema,
+  type ReportCardTemplateFormValues,
+} from "../../schemas/report-card-template-schema";
+
+const SECTION_TOGGLES: Array<{
+  name: keyof Pick<
+    ReportCardTemplateFormValues,
+    "show_grade_point" | "show_subject_remarks" | "show_attendance" | "show_grade_scale"
+  >;
+  label: string;
+  description: string;
+}> = [
+  { name: "show_grade_point", label: "Grade Points", description: "Per subject and the GPA" },
+  {
+    name: "show_subject_remarks",
+    label: "Subject Remarks",
+    description: "Remarks teachers entered with the marks",
+  },
+  {
+    name: "show_attendance",
+    label: "Attendance",
+    description: "Days present up to the end of the exam",
+  },
+  {
+    name: "show_grade_scale",
+    label: "Grading Key",
+    description: "Percentage range of every grade",
+  },
+];
+
+interface ReportCardTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: ReportCardTemplate | undefined;
+}
+
+function toFormValues(template: ReportCardTemplate | undefined): ReportCardTemplateFormValues {
+  return {
+    title: template?.title ?? "Progress Report",
+    logo_url: template?.logo_url ?? "",
+    address_line: template?.address_line ?? "",
+    accent_color: template?.accent_color ?? "#4f46e5",
+    show_grade_point: template?.show_grade_point ?? true,
+    show_subject_remarks: template?.show_subject_remarks ?? true,
+    show_attendance: template?.show_attendance ?? true,
+    show_grade_scale: template?.show_grade_scale ?? true,
+    signatory_title: template?.signatory_title ?? "Principal",
+    footer_note: template?.footer_note ?? "",
+  };
+}
+
+export function ReportCardTemplateDialog({
+  open,
+  onOpenChange,
+  template,
+}: ReportCardTemplateDialogProps) {
+  const saveMutation = useSaveReportCardTemplate(() => onOpenChange(false));
+
+  const form = useForm<ReportCardTemplateFormValues>({
+    resolver: zodResolver(reportCardTemplateFormSchema),
+    defaultValues: toFormValues(template),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(template));
+    }
+  }, [open, template, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5 text-indigo-600" />
+            Report Card Layout
+          </DialogTitle>
+          <DialogDescription>
+            Applies to every report card printed for your organization
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Progress Report" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="accent_color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Accent Color *</FormLabel>
+                    <div className="flex gap-2">
+                      <Input
+                        type="color"
+                        className="w-14 p-1"
+                        value={field.value}
+                        onChange={field.onChange}
+                        aria-label="Pick accent color"
+                      />
+                      <FormControl>
+                        <Input placeholder="#4f46e5" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="logo_url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Logo URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://..." {...field} />
+                  </FormControl>
+                  <FormDescription>Printed beside the school name</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address_line"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address Line</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Printed under the school name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-3 md:grid-cols-2">
+              {SECTION_TOGGLES.map((toggle) => (
+                <FormField
+                  key={toggle.name}
+                  control={form.control}
+                  name={toggle.name}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel className="font-medium">{toggle.label}</FormLabel>
+                        <FormDescription>{toggle.description}</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="signatory_title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Signatory</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Principal" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="footer_note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Footer Note</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Layout"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Exams Feature - Component Exports
+ */
+
+export { MarksEntrySheet } from "./marks-entry-sheet";
+export { ReportCardDocument } from "./report-card-document";
+
+// Admin components
+export * from "./admin";
+
+// Teacher components
+export * from "./teacher";
+
+// Parent components
+export * from "./parent";
@@ -0,0 +1,442 @@
+/**
+ * Marks Entry Sheet
+ * Spreadsheet-like marks entry for one paper. Enter and the arrow keys move
+ * between students, and a column copied from a spreadsheet can be pasted
+ * into the marks cells in one go ("AB" marks a student absent). Grades are
+ * shown live from the exam's grade scale. Read-only once marks are locked.
+ */
+
+import { AlertCircle, ArrowLeft, Loader2, Lock, RotateCcw, Save } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExamStatus, ExamStatusColors, ExamStatusLabels } from "@/constants/exams";
+import type { MarkEntry, MarkEntryPayload } from "@/lib/api/exam-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn } from "@/lib/utils";
+import { getGradeBand, getGradeColor, toPercentage } from "../helpers/grade-helpers";
+import { useMarksSheet, useSaveMarks } from "../hooks/use-exams";
+import type { ClipboardEvent, KeyboardEvent } from "react";
+
+/** Pasted or typed values that mark a student absent */
+const ABSENT_CODES = ["AB", "ABS", "ABSENT"];
+
+interface DraftRow {
+  marks: string;
+  is_absent: boolean;
+  remarks: string;
+}
+
+type DraftRows = Record<string, DraftRow>;
+
+function toDraftRows(entries: MarkEntry[]): DraftRows {
+  const rows: DraftRows = {};
+  entries.forEach((entry) => {
+    rows[entry.student.public_id] = {
+      marks: entry.marks_obtained !== null ? String(entry.marks_obtained) : "",
+      is_absent: entry.is_absent,
+      remarks: entry.remarks,
+    };
+  });
+  return rows;
+}
+
+function isSameRow(a: DraftRow | undefined, b: DraftRow | undefined): boolean {
+  return (
+    a?.marks.trim() === b?.marks.trim() &&
+    a?.is_absent === b?.is_absent &&
+    a?.remarks.trim() === b?.remarks.trim()
+  );
+}
+
+/**
+ * Error for a row's marks, if any
+ */
+function getMarksError(row: DraftRow, maxMarks: number): string | null {
+  const value = row.marks.trim();
+  if (row.is_absent || value === "") {
+    return null;
+  }
+  const marks = Number(value);
+  if (Number.isNaN(marks)) {
+    return "Enter a number";
+  }
+  if (marks < 0 || marks > maxMarks) {
+    return `Must be 0 - ${maxMarks}`;
+  }
+  return null;
+}
+
+interface MarksEntrySheetProps {
+  paperId: string;
+  backLabel: string;
+  onBack: () => void;
+}
+
+export function MarksEntrySheet({ paperId, backLabel, onBack }: MarksEntrySheetProps) {
+  const [draft, setDraft] = useState<DraftRows>({});
+  const inputRefs = useRef<Array<HTMLInputElement | null>>([]);
+
+  const { data: sheet, isLoading, error } = useMarksSheet(paperId);
+  const saveMutation = useSaveMarks(paperId);
+
+  const savedRows = useMemo(() => toDraftRows(sheet?.entries || []), [sheet]);
+
+  // Start from the saved marks whenever they are (re)loaded
+  useEffect(() => {
+    setDraft(savedRows);
+  }, [savedRows]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading marks sheet...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !sheet) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" className="-ml-2" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {backLabel}
+        </Button>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error ? getApiErrorMessage(error) : "Marks sheet not found."}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { paper, entries, grade_scale: gradeScale } = sheet;
+  const isEditable = paper.exam.status === ExamStatus.DRAFT;
+
+  const dirtyIds = entries
+    .map((entry) => entry.student.public_id)
+    .filter((studentId) => !isSameRow(draft[studentId], savedRows[studentId]));
+  const invalidCount = entries.filter((entry) => {
+    const row = draft[entry.student.public_id];
+    return row && getMarksError(row, paper.max_marks) !== null;
+  }).length;
+
+  const scored = entries
+    .map((entry) => draft[entry.student.public_id])
+    .filter(
+      (row): row is DraftRow =>
+        !!row &&
+        !row.is_absent &&
+        row.marks.trim() !== "" &&
+        getMarksError(row, paper.max_marks) === null
+    )
+    .map((row) => Number(row.marks));
+  const enteredCount = entries.filter((entry) => {
+    const row = draft[entry.student.public_id];
+    return row && (row.is_absent || row.marks.trim() !== "");
+  }).length;
+  const average =
+    scored.length > 0
+      ? toPercentage(scored.reduce((sum, marks) => sum + marks, 0) / scored.length, paper.max_marks)
+      : null;
+  const passedCount = scored.filter((marks) => marks >= paper.pass_marks).length;
+
+  const updateRow = (studentId: string, changes: Partial<DraftRow>) => {
+    setDraft((prev) => ({ ...prev, [studentId]: { ...prev[studentId], ...changes } }));
+  };
+
+  const focusRow = (index: number) => {
+    const input = inputRefs.current[index];
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>, index: number) => {
+    if (event.key === "Enter" || event.key === "ArrowDown") {
+      event.preventDefault();
+      focusRow(index + 1);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      focusRow(index - 1);
+    }
+  };
+
+  // A multi-line paste fills this row and the ones below it
+  const handlePaste = (event: ClipboardEvent<HTMLInputElement>, index: number) => {
+    const values = event.clipboardData
+      .getData("text")
+      .split(/\r?\n/)
+      .map((line) => line.split("\t")[0].trim());
+    if (values[values.length - 1] === "") {
+      values.pop();
+    }
+    if (values.length <= 1) {
+      return;
+    }
+
+    event.preventDefault();
+    setDraft((prev) => {
+      const next = { ...prev };
+      values.forEach((value, offset) => {
+        const entry = entries[index + offset];
+        if (!entry) {
+          return;
+        }
+        const isAbsent = ABSENT_CODES.includes(value.toUpperCase());
+        next[entry.student.public_id] = {
+          ...next[entry.student.public_id],
+          marks: isAbsent ? "" : value,
+          is_absent: isAbsent,
+        };
+      });
+      return next;
+    });
+  };
+
+  const handleMarksChange = (studentId: string, value: string) => {
+    if (ABSENT_CODES.includes(value.trim().toUpperCase())) {
+      updateRow(studentId, { marks: "", is_absent: true });
+    } else {
+      updateRow(studentId, { marks: value, is_absent: false });
+    }
+  };
+
+  const handleSave = () => {
+    const payload: MarkEntryPayload[] = dirtyIds.map((studentId) => {
+      const row = draft[studentId];
+      return {
+        student_id: studentId,
+        marks_obtained: row.is_absent || row.marks.trim() === "" ? null : Number(row.marks),
+        is_absent: row.is_absent,
+        remarks: row.remarks.trim(),
+      };
+    });
+    saveMutation.mutate(payload);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Button variant="ghost" size="sm" className="-ml-2" onClick={onBack}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {backLabel}
+          </Button>
+          <div className="flex items-center gap-3">
+            <h2 className="text-3xl font-bold text-gray-900">{paper.subject_info.name}</h2>
+            <Badge className={ExamStatusColors[paper.exam.status]}>
+              {ExamStatusLabels[paper.exam.status]}
+            </Badge>
+          </div>
+          <p className="text-gray-600">
+            {paper.exam.name} • {paper.class_info.class_master_name} - {paper.class_info.name} • Max{" "}
+            {paper.max_marks}, Pass {paper.pass_marks}
+          </p>
+        </div>
+
+        {isEditable && (
+          <div className="flex items-center gap-2">
+            {dirtyIds.length > 0 && (
+              <span className="text-sm text-amber-700">
+                {dirtyIds.length} unsaved {dirtyIds.length === 1 ? "change" : "changes"}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setDraft(savedRows)}
+              disabled={dirtyIds.length === 0 || saveMutation.isPending}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={dirtyIds.length === 0 || invalidCount > 0 || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Marks
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!isEditable && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            Marks for this exam are locked. Ask an administrator to reopen marks entry to make
+            changes.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Entered</p>
+            <p className="text-2xl font-bold">
+              {enteredCount} / {entries.length}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Class Average</p>
+            <p className="text-2xl font-bold">{average !== null ? `${average}%` : "-"}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Passed</p>
+            <p className="text-2xl font-bold">
+              {scored.length > 0 ? `${passedCount} / ${scored.length}` : "-"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Grade Scale</p>
+            <p className="truncate text-lg font-semibold">{gradeScale.name}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Marks</CardTitle>
+          <CardDescription>
+            {isEditable
+              ? "Press Enter or the arrow keys to move between students. Paste a column from a spreadsheet to fill several rows; type AB for absent."
+              : `${paper.teacher_info.full_name}'s marks for ${paper.subject_info.name}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>No students are enrolled in this class.</AlertDescription>
+            </Alert>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Roll No.</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead className="w-36">Marks / {paper.max_marks}</TableHead>
+                  <TableHead className="w-24">Absent</TableHead>
+                  <TableHead className="w-20">%</TableHead>
+                  <TableHead className="w-20">Grade</TableHead>
+                  <TableHead>Remarks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry, index) => {
+                  const studentId = entry.student.public_id;
+                  const row = draft[studentId] ?? savedRows[studentId];
+                  if (!row) {
+                    return null;
+                  }
+                  const marksError = getMarksError(row, paper.max_marks);
+                  const hasScore = !row.is_absent && row.marks.trim() !== "" && !marksError;
+                  const percentage = hasScore
+                    ? toPercentage(Number(row.marks), paper.max_marks)
+                    : null;
+                  const band =
+                    percentage !== null ? getGradeBand(gradeScale.bands, percentage) : undefined;
+                  const isDirty = !isSameRow(row, savedRows[studentId]);
+
+                  return (
+                    <TableRow key={studentId} className={cn(isDirty && "bg-amber-50/60")}>
+                      <TableCell className="font-mono text-sm">
+                        {entry.student.roll_number}
+                      </TableCell>
+                      <TableCell className="font-medium">{entry.student.full_name}</TableCell>
+                      <TableCell>
+                        <Input
+                          ref={(element) => {
+                            inputRefs.current[index] = element;
+                          }}
+                          inputMode="decimal"
+                          value={row.is_absent ? "AB" : row.marks}
+                          onChange={(e) => handleMarksChange(studentId, e.target.value)}
+                          onKeyDown={(e) => handleKeyDown(e, index)}
+                          onPaste={(e) => handlePaste(e, index)}
+                          onFocus={(e) => e.target.select()}
+                          disabled={!isEditable}
+                          aria-label={`Marks for ${entry.student.full_name}`}
+                          aria-invalid={!!marksError}
+                          className={cn(
+                            "h-8",
+                            marksError && "border-red-500 focus-visible:ring-red-500",
+                            !hasScore && !row.is_absent && "text-muted-foreground"
+                          )}
+                        />
+                        {marksError && <p className="mt-1 text-xs text-red-600">{marksError}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.is_absent}
+                          onCheckedChange={(checked) =>
+                            updateRow(studentId, { is_absent: checked === true, marks: "" })
+                          }
+                          disabled={!isEditable}
+                          aria-label={`${entry.student.full_name} was absent`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {percentage !== null ? `${percentage}%` : "-"}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "font-semibold",
+                          getGradeColor(band?.grade_point ?? null, gradeScale.bands)
+                        )}
+                      >
+                        {band?.grade ?? "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.remarks}
+                          onChange={(e) => updateRow(studentId, { remarks: e.target.value })}
+                          disabled={!isEditable}
+                          placeholder={isEditable ? "Optional" : ""}
+                          aria-label={`Remarks for ${entry.student.full_name}`}
+                          className="h-8"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+/**
+ * Academic Progress (Parent)
+ * Published exam results of each child linked to the signed-in parent:
+ * subject-wise marks and grades, plus the trend across exams
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Award, Loader2, Percent, TrendingUp } from "lucide-react";
+import { useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChildSwitcher } from "@/common/components";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useChildrenResults } from "../../hooks/use-exams";
+
+export function AcademicProgress() {
+  const [selectedStudentId, setSelectedStudentId] = useSelectedChildId();
+  const [selectedExamId, setSelectedExamId] = useState("");
+  const { data: children = [], isLoading, error } = useChildrenResults();
+
+  const selected =
+    children.find((child) => child.student.public_id === selectedStudentId) ?? children[0];
+  const result =
+    selected?.results.find((item) => item.exam.public_id === selectedExamId) ??
+    selected?.results[0];
+
+  // Oldest exam first so the line reads left to right
+  const trendData = [...(selected?.results || [])].reverse().map((item) => ({
+    exam: item.exam.name,
+    percentage: item.percentage,
+  }));
+  const subjectData = (result?.subjects || []).map((subject) => ({
+    subject: subject.subject_name,
+    percentage: subject.percentage ?? 0,
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-amber-600" />
+          <p className="text-muted-foreground">Loading results...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Academic Progress</h2>
+        <p className="text-gray-600">Published exam results of your child</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && !selected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selected && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <ChildSwitcher
+              students={children.map((child) => ({
+                public_id: child.student.public_id,
+                full_name: child.student.full_name,
+                class_label: `${child.class_info.class_master_name} - ${child.class_info.name}`,
+                roll_number: child.student.roll_number,
+              }))}
+              value={selected.student.public_id}
+              onValueChange={(value) => {
+                setSelectedStudentId(value);
+                setSelectedExamId("");
+              }}
+            />
+
+            {result && (
+              <Select value={result.exam.public_id} onValueChange={setSelectedExamId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.results.map((item) => (
+                    <SelectItem key={item.exam.public_id} value={item.exam.public_id}>
+                      {item.exam.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {!result ? (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No exam results have been published for {selected.student.full_name} yet.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-700">Overall</CardTitle>
+                    <Percent className="h-5 w-5 text-amber-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{result.percentage}%</div>
+                    <p className="text-muted-foreground text-xs">
+                      {result.total_obtained} / {result.total_max} marks
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-700">Grade</CardTitle>
+                    <Award className="h-5 w-5 text-amber-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{result.grade || "-"}</div>
+                    <p className="text-muted-foreground text-xs">
+                      {result.exam.published_at &&
+                        `Published ${format(parseISO(result.exam.published_at), "MMM dd, yyyy")}`}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-700">GPA</CardTitle>
+                    <TrendingUp className="h-5 w-5 text-amber-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{result.gpa}</div>
+                    <p className="text-muted-foreground text-xs">Average of subject grade points</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Subject Results */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>{result.exam.name}</CardTitle>
+                  <CardDescription>
+                    {format(parseISO(result.exam.start_date), "MMM dd")} -{" "}
+                    {format(parseISO(result.exam.end_date), "MMM dd, yyyy")}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Subject</TableHead>
+                        <TableHead>Marks</TableHead>
+                        <TableHead>%</TableHead>
+                        <TableHead>Grade</TableHead>
+                        <TableHead>Remarks</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.subjects.map((subject) => (
+                        <TableRow key={subject.subject_code || subject.subject_name}>
+                          <TableCell className="font-medium">{subject.subject_name}</TableCell>
+                          <TableCell>
+                            {subject.is_absent ? (
+                              <Badge variant="secondary">Absent</Badge>
+                            ) : (
+                              `${subject.marks_obtained ?? "-"} / ${subject.max_marks}`
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {subject.percentage !== null ? `${subject.percentage}%` : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={
+                                subject.marks_obtained !== null &&
+                                subject.marks_obtained < subject.pass_marks
+                                  ? "font-semibold text-red-700"
+                                  : "font-semibold"
+                              }
+                            >
+                              {subject.grade ?? "-"}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground text-sm">
+                            {subject.remarks || "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Charts */}
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Subject-wise Scores</CardTitle>
+                    <CardDescription>Percentage in each subject</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={280}>
+                      <BarChart data={subjectData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#fef3c7" />
+                        <XAxis dataKey="subject" />
+                        <YAxis domain={[0, 100]} />
+                        <Tooltip />
+                        <Bar dataKey="percentage" fill="#d97706" radius={[8, 8, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Progress Across Exams</CardTitle>
+                    <CardDescription>Overall percentage in each published exam</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={280}>
+                      <LineChart data={trendData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#fef3c7" />
+                        <XAxis dataKey="exam" />
+                        <YAxis domain={[0, 100]} />
+                        <Tooltip />
+                        <Line
+                          type="monotone"
+                          dataKey="percentage"
+                          stroke="#d97706"
+                          strokeWidth={2}
+                          dot={{ fill: "#d97706" }}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
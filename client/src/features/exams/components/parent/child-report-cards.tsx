@@ -0,0 +1,176 @@
+/**
+ * Child Report Cards (Parent)
+ * Report card of each published exam for the children linked to the
+ * signed-in parent, in the school's layout, ready to print or save as PDF
+ */
+
+import { AlertCircle, Loader2, Printer } from "lucide-react";
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { ChildSwitcher } from "@/common/components";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useChildrenResults } from "../../hooks/use-exams";
+import { useReportCards } from "../../hooks/use-report-cards";
+import { ReportCardDocument } from "../report-card-document";
+
+export function ChildReportCards() {
+  const [selectedId, setSelectedId] = useSelectedChildId();
+  const [selectedExamId, setSelectedExamId] = useState("");
+  const [isPrinting, setIsPrinting] = useState(false);
+  const { data: children = [], isLoading, error } = useChildrenResults();
+
+  const selected = children.find((child) => child.student.public_id === selectedId) ?? children[0];
+  const exam = (
+    selected?.results.find((item) => item.exam.public_id === selectedExamId) ?? selected?.results[0]
+  )?.exam;
+
+  const {
+    data: batch,
+    isLoading: isLoadingCard,
+    error: cardError,
+  } = useReportCards(exam?.public_id ?? "", {
+    class_id: selected?.class_info.public_id ?? "",
+    student_id: selected?.student.public_id,
+  });
+  const card = batch?.cards[0];
+
+  // Print once the card is in the print root, then tear it down
+  useEffect(() => {
+    if (!isPrinting) {
+      return;
+    }
+    window.print();
+    setIsPrinting(false);
+  }, [isPrinting]);
+
+  const handleChildChange = (publicId: string) => {
+    setSelectedId(publicId);
+    setSelectedExamId("");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-amber-600" />
+          <p className="text-muted-foreground">Loading report cards...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Report Cards</h2>
+          <p className="text-gray-600">
+            Term report cards of your child, available once results are published
+          </p>
+        </div>
+        <Button onClick={() => setIsPrinting(true)} disabled={!card || isPrinting}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && !selected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selected && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <ChildSwitcher
+              students={children.map((child) => ({
+                public_id: child.student.public_id,
+                full_name: child.student.full_name,
+                class_label: `${child.class_info.class_master_name} - ${child.class_info.name}`,
+                roll_number: child.student.roll_number,
+              }))}
+              value={selected.student.public_id}
+              onValueChange={handleChildChange}
+            />
+
+            {exam && (
+              <Select value={exam.public_id} onValueChange={setSelectedExamId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.results.map((item) => (
+                    <SelectItem key={item.exam.public_id} value={item.exam.public_id}>
+                      {item.exam.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {!exam && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No exam results have been published for {selected.student.full_name} yet.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {exam && isLoadingCard && (
+            <div className="flex min-h-[300px] items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-amber-600" />
+            </div>
+          )}
+
+          {cardError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{getApiErrorMessage(cardError)}</AlertDescription>
+            </Alert>
+          )}
+
+          {batch && card && (
+            <div className="overflow-x-auto rounded-lg border bg-gray-100 p-4">
+              <ReportCardDocument batch={batch} card={card} className="shadow-lg" />
+            </div>
+          )}
+        </>
+      )}
+
+      {isPrinting &&
+        batch &&
+        card &&
+        createPortal(
+          <div className="print-root">
+            <ReportCardDocument batch={batch} card={card} className="print-page p-0" />
+          </div>,
+          document.body
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Exams - Parent Components
+ */
+
+export { AcademicProgress } from "./academic-progress";
+export { ChildReportCards } from "./child-report-cards";
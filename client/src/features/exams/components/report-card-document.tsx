@@ -0,0 +1,212 @@
+/**
+ * Report Card Document
+ * One student's printable report card in the organization's layout: school
+ * branding, student details, subject marks, attendance, class teacher remarks
+ * and signature lines. Sized for an A4 page; used for both the on-screen
+ * preview and the printed copy.
+ */
+
+import { format, parseISO } from "date-fns";
+import type { ReportCard, ReportCardBatch } from "@/lib/api/report-card-api";
+import { cn } from "@/lib/utils";
+
+interface ReportCardDocumentProps {
+  batch: ReportCardBatch;
+  card: ReportCard;
+  className?: string;
+}
+
+function formatMarks(marks: number | null, isAbsent: boolean): string {
+  if (isAbsent) {
+    return "AB";
+  }
+  return marks === null ? "-" : String(marks);
+}
+
+export function ReportCardDocument({ batch, card, className }: ReportCardDocumentProps) {
+  const { organization, template, class_info: classInfo } = batch;
+  const { student, result, attendance } = card;
+  const accent = { color: template.accent_color };
+  const headerCell = "border px-2 py-1.5 text-left font-semibold text-white";
+  const cell = "border px-2 py-1.5";
+
+  const details: Array<[string, string]> = [
+    ["Student Name", student.full_name],
+    ["Class", `${classInfo.class_master_name} - ${classInfo.name}`],
+    ["Roll Number", student.roll_number],
+    ["Admission No.", student.admission_number],
+    [
+      "Date of Birth",
+      student.date_of_birth ? format(parseISO(student.date_of_birth), "dd MMM yyyy") : "-",
+    ],
+    ["Parent / Guardian", student.guardian_name || "-"],
+    ["Class Teacher", classInfo.class_teacher_name ?? "-"],
+  ];
+
+  return (
+    <div
+      className={cn(
+        "mx-auto flex min-h-[270mm] w-full max-w-[210mm] flex-col bg-white p-8 text-sm text-gray-900",
+        className
+      )}
+    >
+      {/* School Branding */}
+      <div
+        className="flex items-center gap-4 border-b-2 pb-4"
+        style={{ borderColor: accent.color }}
+      >
+        {template.logo_url && (
+          <img src={template.logo_url} alt="" className="h-16 w-16 object-contain" />
+        )}
+        <div className="flex-1 text-center">
+          <div className="font-serif text-2xl font-bold" style={accent}>
+            {organization.name}
+          </div>
+          {template.address_line && <div className="text-gray-600">{template.address_line}</div>}
+          <div className="text-xs text-gray-500">
+            {[
+              organization.board_affiliation && `Affiliated to ${organization.board_affiliation}`,
+              organization.phone,
+              organization.email,
+            ]
+              .filter(Boolean)
+              .join(" • ")}
+          </div>
+        </div>
+        {template.logo_url && <div className="w-16" />}
+      </div>
+
+      <div
+        className="mt-4 rounded py-2 text-center text-base font-semibold tracking-wide text-white uppercase"
+        style={{ backgroundColor: template.accent_color }}
+      >
+        {template.title} - {result.exam.name}
+      </div>
+
+      {/* Student Details */}
+      <div className="mt-4 grid grid-cols-2 gap-x-8 gap-y-1">
+        {details.map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <span className="w-32 shrink-0 text-gray-500">{label}</span>
+            <span className="font-medium">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Subject Marks */}
+      <table className="mt-5 w-full border-collapse">
+        <thead>
+          <tr style={{ backgroundColor: template.accent_color }}>
+            <th className={headerCell}>Subject</th>
+            <th className={cn(headerCell, "text-right")}>Max</th>
+            <th className={cn(headerCell, "text-right")}>Obtained</th>
+            <th className={cn(headerCell, "text-right")}>%</th>
+            <th className={cn(headerCell, "text-center")}>Grade</th>
+            {template.show_grade_point && <th className={cn(headerCell, "text-right")}>GP</th>}
+            {template.show_subject_remarks && <th className={headerCell}>Remarks</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {result.subjects.map((subject) => (
+            <tr key={subject.subject_code || subject.subject_name}>
+              <td className={cell}>{subject.subject_name}</td>
+              <td className={cn(cell, "text-right")}>{subject.max_marks}</td>
+              <td
+                className={cn(
+                  cell,
+                  "text-right",
+                  subject.marks_obtained !== null &&
+                    subject.marks_obtained < subject.pass_marks &&
+                    "font-semibold text-red-700"
+                )}
+              >
+                {formatMarks(subject.marks_obtained, subject.is_absent)}
+              </td>
+              <td className={cn(cell, "text-right")}>{subject.percentage ?? "-"}</td>
+              <td className={cn(cell, "text-center font-semibold")}>{subject.grade ?? "-"}</td>
+              {template.show_grade_point && (
+                <td className={cn(cell, "text-right")}>{subject.grade_point ?? "-"}</td>
+              )}
+              {template.show_subject_remarks && (
+                <td className={cn(cell, "text-gray-600")}>{subject.remarks}</td>
+              )}
+            </tr>
+          ))}
+          <tr className="bg-gray-50 font-semibold">
+            <td className={cell}>Total</td>
+            <td className={cn(cell, "text-right")}>{result.total_max}</td>
+            <td className={cn(cell, "text-right")}>{result.total_obtained}</td>
+            <td className={cn(cell, "text-right")}>{result.percentage}</td>
+            <td className={cn(cell, "text-center")}>{result.grade}</td>
+            {template.show_grade_point && <td className={cn(cell, "text-right")}>{result.gpa}</td>}
+            {template.show_subject_remarks && <td className={cell} />}
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Summary */}
+      <div className="mt-4 grid grid-cols-3 gap-3 text-center">
+        <div className="rounded border p-2">
+          <div className="text-xs text-gray-500">Overall</div>
+          <div className="text-lg font-bold" style={accent}>
+            {result.percentage}% • {result.grade}
+          </div>
+        </div>
+        {template.show_grade_point && (
+          <div className="rounded border p-2">
+            <div className="text-xs text-gray-500">GPA</div>
+            <div className="text-lg font-bold" style={accent}>
+              {result.gpa}
+            </div>
+          </div>
+        )}
+        {template.show_attendance && (
+          <div className="rounded border p-2">
+            <div className="text-xs text-gray-500">Attendance</div>
+            <div className="text-lg font-bold" style={accent}>
+              {attendance
+                ? `${attendance.present_days}/${attendance.working_days} (${attendance.percentage}%)`
+                : "-"}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Class Teacher Remarks */}
+      <div className="mt-4 rounded border p-3">
+        <div className="text-xs font-semibold text-gray-500 uppercase">
+          Class Teacher&apos;s Remarks
+        </div>
+        <p className="mt-1 min-h-[2.5rem]">{card.class_teacher_remarks}</p>
+      </div>
+
+      {/* Grade Scale */}
+      {template.show_grade_scale && batch.grade_bands.length > 0 && (
+        <div className="mt-4 text-xs text-gray-600">
+          <span className="font-semibold">Grading: </span>
+          {batch.grade_bands
+            .map((band, index) => {
+              const upper = index === 0 ? 100 : batch.grade_bands[index - 1].min_percentage;
+              const range =
+                index === 0
+                  ? `${band.min_percentage}-${upper}`
+                  : `${band.min_percentage}-<${upper}`;
+              return `${band.grade} (${range}%)`;
+            })
+            .join(", ")}
+        </div>
+      )}
+
+      {/* Signatures */}
+      <div className="mt-auto grid grid-cols-3 gap-8 pt-16 text-center text-xs text-gray-600">
+        <div className="border-t pt-1">Class Teacher</div>
+        <div className="border-t pt-1">Parent / Guardian</div>
+        <div className="border-t pt-1">{template.signatory_title || "Principal"}</div>
+      </div>
+
+      {template.footer_note && (
+        <p className="mt-4 text-center text-[10px] text-gray-400">{template.footer_note}</p>
+      )}
+    </div>
+  );
+}
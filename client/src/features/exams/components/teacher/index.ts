@@ -0,0 +1,5 @@
+/**
+ * Exams - Teacher Components
+ */
+
+export { MyExamPapers } from "./my-exam-papers";
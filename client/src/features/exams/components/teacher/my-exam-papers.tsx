@@ -0,0 +1,163 @@
+/**
+ * My Exam Papers (Teacher)
+ * Papers of the signed-in teacher's subject assignments, grouped by exam,
+ * with a shortcut into each paper's marks sheet
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Eye, FileSpreadsheet, Loader2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExamStatus, ExamStatusColors, ExamStatusLabels } from "@/constants/exams";
+import type { ExamPaper } from "@/lib/api/exam-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useMyExamPapers } from "../../hooks/use-exams";
+
+function groupByExam(papers: ExamPaper[]): Array<{ exam: ExamPaper["exam"]; papers: ExamPaper[] }> {
+  const groups: Array<{ exam: ExamPaper["exam"]; papers: ExamPaper[] }> = [];
+  papers.forEach((paper) => {
+    const group = groups.find((item) => item.exam.public_id === paper.exam.public_id);
+    if (group) {
+      group.papers.push(paper);
+    } else {
+      groups.push({ exam: paper.exam, papers: [paper] });
+    }
+  });
+  return groups;
+}
+
+export function MyExamPapers() {
+  const [, setLocation] = useLocation();
+  const { data: papers = [], isLoading, error } = useMyExamPapers();
+
+  const groups = groupByExam(papers);
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Marks Entry</h2>
+        <p className="text-gray-600">Enter marks for the exam papers of your subjects</p>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="mr-2 h-6 w-6 animate-spin text-purple-600" />
+          <span className="text-muted-foreground text-sm">Loading exam papers...</span>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isLoading && !error && groups.length === 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            None of your subjects has an exam paper yet. Papers appear here once an exam is created
+            for your classes.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {groups.map(({ exam, papers: examPapers }) => {
+        const isOpen = exam.status === ExamStatus.DRAFT;
+        const pending = examPapers.filter((paper) => paper.marks_entered < paper.student_count);
+
+        return (
+          <Card key={exam.public_id}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>{exam.name}</CardTitle>
+                <CardDescription>
+                  Starts {format(parseISO(exam.start_date), "MMM dd, yyyy")}
+                  {isOpen &&
+                    pending.length > 0 &&
+                    ` • ${pending.length} ${pending.length === 1 ? "paper needs" : "papers need"} marks`}
+                </CardDescription>
+              </div>
+              <Badge className={ExamStatusColors[exam.status]}>
+                {ExamStatusLabels[exam.status]}
+              </Badge>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="w-40">Marks Entered</TableHead>
+                    <TableHead>Average</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {examPapers.map((paper) => (
+                    <TableRow key={paper.public_id}>
+                      <TableCell>
+                        {paper.class_info.class_master_name} - {paper.class_info.name}
+                      </TableCell>
+                      <TableCell className="font-medium">{paper.subject_info.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {paper.exam_date ? format(parseISO(paper.exam_date), "EEE, MMM dd") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="text-xs">
+                            {paper.marks_entered} / {paper.student_count}
+                          </div>
+                          <Progress
+                            value={
+                              paper.student_count > 0
+                                ? (paper.marks_entered / paper.student_count) * 100
+                                : 0
+                            }
+                            className="h-1.5"
+                          />
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {paper.average_percentage !== null ? `${paper.average_percentage}%` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={isOpen ? "default" : "outline"}
+                          onClick={() => setLocation(`/marks-entry/${paper.public_id}`)}
+                        >
+                          {isOpen ? (
+                            <FileSpreadsheet className="mr-2 h-4 w-4" />
+                          ) : (
+                            <Eye className="mr-2 h-4 w-4" />
+                          )}
+                          {isOpen ? "Enter Marks" : "View"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Grade Helpers
+ * Percentage and grade lookups shared by the marks entry sheet and the
+ * results views, matching how the backend grades a score.
+ */
+
+import type { GradeBand, MarkEntry } from "@/lib/api/exam-api";
+
+/**
+ * Percentage of max marks, to one decimal place
+ */
+export function toPercentage(marks: number, maxMarks: number): number {
+  return maxMarks > 0 ? Math.round((marks / maxMarks) * 1000) / 10 : 0;
+}
+
+/**
+ * The band a percentage falls in. Bands may arrive in any order; the highest
+ * band whose minimum the percentage reaches wins.
+ */
+export function getGradeBand(bands: GradeBand[], percentage: number): GradeBand | undefined {
+  return [...bands]
+    .sort((a, b) => b.min_percentage - a.min_percentage)
+    .find((band) => percentage >= band.min_percentage);
+}
+
+/**
+ * Text color for a grade point relative to the scale's best grade point
+ */
+export function getGradeColor(gradePoint: number | null, bands: GradeBand[]): string {
+  const best = Math.max(0, ...bands.map((band) => band.grade_point));
+  if (gradePoint === null || best === 0) {
+    return "text-gray-500";
+  }
+  if (gradePoint / best >= 0.7) {
+    return "text-green-700";
+  }
+  if (gradePoint / best >= 0.4) {
+    return "text-amber-700";
+  }
+  return "text-red-700";
+}
+
+/**
+ * Students with marks entered or marked absent
+ */
+export function countEnteredMarks(entries: MarkEntry[]): number {
+  return entries.filter((entry) => entry.is_absent || entry.marks_obtained !== null).length;
+}
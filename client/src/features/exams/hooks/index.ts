@@ -0,0 +1,6 @@
+/**
+ * Exams Feature - Hooks Export
+ */
+
+export * from "./use-exams";
+export * from "./use-report-cards";
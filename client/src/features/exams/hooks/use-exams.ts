@@ -0,0 +1,256 @@
+/**
+ * Exam Hooks
+ * React Query hooks for grade scales, exam terms, marks entry and results
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteExam,
+  deleteGradeScale,
+  fetchChildrenResults,
+  fetchExam,
+  fetchExamPapers,
+  fetchExams,
+  fetchGradeScales,
+  fetchMarksSheet,
+  fetchMyExamPapers,
+  saveExam,
+  saveGradeScale,
+  saveMarks,
+  transitionExam,
+  updateExamPaper,
+  type ExamFilters,
+  type ExamPaperPayload,
+  type ExamPayload,
+  type ExamTransition,
+  type GradeScalePayload,
+  type MarkEntryPayload,
+} from "@/lib/api/exam-api";
+import { QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+function useInvalidateExams() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.EXAMS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.EXAM_DETAILS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.EXAM_PAPERS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_EXAM_PAPERS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MARKS_SHEET] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CHILDREN_RESULTS] });
+  };
+}
+
+// ============================================================================
+// Grade Scales
+// ============================================================================
+
+export function useGradeScales() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.GRADE_SCALES],
+    queryFn: fetchGradeScales,
+    staleTime: STALE_TIMES.STATIC,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Create a grade scale, or update the one with `publicId`
+ */
+export function useSaveGradeScale(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ payload, publicId }: { payload: GradeScalePayload; publicId?: string }) =>
+      saveGradeScale(payload, publicId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.GRADE_SCALES] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MARKS_SHEET] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CHILDREN_RESULTS] });
+      toast.success(response.message || "Grade scale saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useDeleteGradeScale() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicId: string) => deleteGradeScale(publicId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.GRADE_SCALES] });
+      toast.success("Grade scale deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Exam Terms
+// ============================================================================
+
+export function useExams(filters: ExamFilters) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.EXAMS, filters],
+    queryFn: () => fetchExams(filters),
+  });
+}
+
+export function useExam(publicId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.EXAM_DETAILS, publicId],
+    queryFn: () => fetchExam(publicId),
+    enabled: !!publicId,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Create an exam term, or update the one with `publicId`
+ */
+export function useSaveExam(onSuccess?: () => void) {
+  const invalidate = useInvalidateExams();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ payload, publicId }: { payload: ExamPayload; publicId?: string }) =>
+      saveExam(payload, publicId),
+    onSuccess: (response) => {
+      invalidate();
+      // Exam counts on the grade scales change with the exam's scale
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.GRADE_SCALES] });
+      toast.success(response.message || "Exam saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useDeleteExam(onSuccess?: () => void) {
+  const invalidate = useInvalidateExams();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicId: string) => deleteExam(publicId),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.GRADE_SCALES] });
+      toast.success("Exam deleted");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Lock marks entry, publish results to parents, or step back
+ */
+export function useTransitionExam() {
+  const invalidate = useInvalidateExams();
+
+  return useMutation({
+    mutationFn: ({ publicId, action }: { publicId: string; action: ExamTransition }) =>
+      transitionExam(publicId, action),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Exam updated");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Papers & Marks
+// ============================================================================
+
+export function useExamPapers(examId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.EXAM_PAPERS, examId],
+    queryFn: () => fetchExamPapers(examId),
+    enabled: !!examId,
+    select: (response) => response.data,
+  });
+}
+
+export function useUpdateExamPaper(onSuccess?: () => void) {
+  const invalidate = useInvalidateExams();
+
+  return useMutation({
+    mutationFn: ({ paperId, payload }: { paperId: string; payload: ExamPaperPayload }) =>
+      updateExamPaper(paperId, payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Paper updated");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Papers of the signed-in teacher's subject assignments, latest exam first
+ */
+export function useMyExamPapers() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MY_EXAM_PAPERS],
+    queryFn: fetchMyExamPapers,
+    select: (response) => response.data,
+  });
+}
+
+export function useMarksSheet(paperId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MARKS_SHEET, paperId],
+    queryFn: () => fetchMarksSheet(paperId),
+    enabled: !!paperId,
+    // Never refetch under a teacher who is halfway through typing marks
+    refetchOnWindowFocus: false,
+    select: (response) => response.data,
+  });
+}
+
+export function useSaveMarks(paperId: string) {
+  const invalidate = useInvalidateExams();
+
+  return useMutation({
+    mutationFn: (entries: MarkEntryPayload[]) => saveMarks(paperId, entries),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Marks saved");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Published results of the signed-in parent's children
+ */
+export function useChildrenResults() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN_RESULTS],
+    queryFn: fetchChildrenResults,
+    select: (response) => response.data,
+  });
+}
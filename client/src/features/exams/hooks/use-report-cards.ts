@@ -0,0 +1,73 @@
+/**
+ * Report Card Hooks
+ * React Query hooks for the report card layout, generated report cards and
+ * class teacher remarks
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  fetchReportCards,
+  fetchReportCardTemplate,
+  saveReportCardRemarks,
+  saveReportCardTemplate,
+  type ReportCardFilters,
+  type ReportCardTemplatePayload,
+} from "@/lib/api/report-card-api";
+import { QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+export function useReportCardTemplate() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.REPORT_CARD_TEMPLATE],
+    queryFn: fetchReportCardTemplate,
+    staleTime: STALE_TIMES.STATIC,
+    select: (response) => response.data,
+  });
+}
+
+export function useSaveReportCardTemplate(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: ReportCardTemplatePayload) => saveReportCardTemplate(payload),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.REPORT_CARD_TEMPLATE] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.REPORT_CARDS] });
+      toast.success(response.message || "Report card layout saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Report cards of a section for an exam; waits until both are selected
+ */
+export function useReportCards(examId: string, filters: ReportCardFilters) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.REPORT_CARDS, examId, filters],
+    queryFn: () => fetchReportCards(examId, filters),
+    enabled: !!examId && !!filters.class_id,
+    select: (response) => response.data,
+  });
+}
+
+export function useSaveReportCardRemarks(examId: string, onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ studentId, remarks }: { studentId: string; remarks: string }) =>
+      saveReportCardRemarks(examId, studentId, remarks),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.REPORT_CARDS, examId] });
+      toast.success(response.message || "Remarks saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
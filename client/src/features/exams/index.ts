@@ -0,0 +1,7 @@
+/**
+ * Exams Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
+export { getGradeBand, toPercentage } from "./helpers/grade-helpers";
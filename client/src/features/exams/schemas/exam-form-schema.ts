@@ -0,0 +1,51 @@
+import * as z from "zod";
+
+function isNumberInRange(value: string, min: number, max: number): boolean {
+  const num = parseFloat(value);
+  return !isNaN(num) && num >= min && num <= max;
+}
+
+export const examFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+    start_date: z.string().min(1, "Start date is required"),
+    end_date: z.string().min(1, "End date is required"),
+    grade_scale_id: z.string().min(1, "Grade scale is required"),
+    class_ids: z.array(z.string()).min(1, "Select at least one class"),
+    max_marks: z
+      .string()
+      .min(1, "Max marks is required")
+      .refine((val) => isNumberInRange(val, 1, 1000), "Max marks must be between 1 and 1000"),
+    pass_marks: z
+      .string()
+      .min(1, "Pass marks is required")
+      .refine((val) => isNumberInRange(val, 0, 1000), "Pass marks must be 0 or more"),
+  })
+  .refine((exam) => exam.end_date >= exam.start_date, {
+    message: "Must end on or after the start date",
+    path: ["end_date"],
+  })
+  .refine((exam) => parseFloat(exam.pass_marks) <= parseFloat(exam.max_marks), {
+    message: "Cannot be more than the max marks",
+    path: ["pass_marks"],
+  });
+
+export const examPaperFormSchema = z
+  .object({
+    max_marks: z
+      .string()
+      .min(1, "Max marks is required")
+      .refine((val) => isNumberInRange(val, 1, 1000), "Max marks must be between 1 and 1000"),
+    pass_marks: z
+      .string()
+      .min(1, "Pass marks is required")
+      .refine((val) => isNumberInRange(val, 0, 1000), "Pass marks must be 0 or more"),
+    exam_date: z.string(),
+  })
+  .refine((paper) => parseFloat(paper.pass_marks) <= parseFloat(paper.max_marks), {
+    message: "Cannot be more than the max marks",
+    path: ["pass_marks"],
+  });
+
+export type ExamFormValues = z.infer<typeof examFormSchema>;
+export type ExamPaperFormValues = z.infer<typeof examPaperFormSchema>;
@@ -0,0 +1,56 @@
+import * as z from "zod";
+
+function isNumberInRange(value: string, min: number, max: number): boolean {
+  const num = parseFloat(value);
+  return !isNaN(num) && num >= min && num <= max;
+}
+
+export const gradeBandFormSchema = z.object({
+  min_percentage: z
+    .string()
+    .min(1, "Required")
+    .refine((val) => isNumberInRange(val, 0, 100), "Use 0 - 100"),
+  grade: z.string().trim().min(1, "Required").max(5, "Too long"),
+  grade_point: z
+    .string()
+    .min(1, "Required")
+    .refine((val) => isNumberInRange(val, 0, 100), "Use 0 - 100"),
+  description: z.string().trim().max(50, "Too long"),
+});
+
+export const gradeScaleFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+    is_default: z.boolean(),
+    bands: z.array(gradeBandFormSchema).min(1, "Add at least one grade band"),
+  })
+  .superRefine(({ bands }, ctx) => {
+    const minimums = bands.map((band) => parseFloat(band.min_percentage));
+    if (!minimums.includes(0)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "The lowest band must start at 0% so every score gets a grade",
+        path: ["bands"],
+      });
+    }
+    bands.forEach((band, index) => {
+      if (minimums.indexOf(minimums[index]) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Another band starts here",
+          path: ["bands", index, "min_percentage"],
+        });
+      }
+      const grade = band.grade.trim().toUpperCase();
+      if (bands.findIndex((other) => other.grade.trim().toUpperCase() === grade) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Duplicate grade",
+          path: ["bands", index, "grade"],
+        });
+      }
+    });
+  });
+
+export type GradeBandFormValues = z.infer<typeof gradeBandFormSchema>;
+export type GradeScaleFormValues = z.infer<typeof gradeScaleFormSchema>;
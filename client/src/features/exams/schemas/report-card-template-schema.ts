@@ -0,0 +1,19 @@
+import * as z from "zod";
+
+export const reportCardTemplateFormSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(60, "Title is too long"),
+  logo_url: z
+    .string()
+    .trim()
+    .refine((val) => !val || /^https?:\/\//.test(val), "Enter a URL starting with http(s)://"),
+  address_line: z.string().trim().max(120, "Address is too long"),
+  accent_color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Enter a color such as #4f46e5"),
+  show_grade_point: z.boolean(),
+  show_subject_remarks: z.boolean(),
+  show_attendance: z.boolean(),
+  show_grade_scale: z.boolean(),
+  signatory_title: z.string().trim().max(40, "Title is too long"),
+  footer_note: z.string().trim().max(200, "Note is too long"),
+});
+
+export type ReportCardTemplateFormValues = z.infer<typeof reportCardTemplateFormSchema>;
@@ -0,0 +1,417 @@
+/**
+ * Approval Workflow Form Dialog
+ * Create or edit an approval chain: which requests it applies to and the
+ * approvers each request passes through, in order
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowDown, Loader2, Plus, Trash2, Workflow } from "lucide-react";
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  fetchLeaveTypes,
+  fetchOrganizationRoles,
+  type LeaveApprovalWorkflow,
+} from "@/lib/api/leave-api";
+import { APPROVER_TYPE_LABELS, ApproverType, type ApproverTypeValue } from "../../constants";
+import { useSaveApprovalWorkflow } from "../../hooks/use-approval-workflows";
+import {
+  approvalWorkflowFormSchema,
+  type ApprovalWorkflowFormValues,
+} from "../../schemas/approval-workflow-schema";
+
+interface ApprovalWorkflowFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflow: LeaveApprovalWorkflow | null; // null when creating
+}
+
+function toFormValues(workflow: LeaveApprovalWorkflow | null): ApprovalWorkflowFormValues {
+  return {
+    name: workflow?.name ?? "",
+    description: workflow?.description ?? "",
+    role_ids: workflow?.role_ids ?? [],
+    leave_type_ids: workflow?.leave_type_ids ?? [],
+    min_days: String(workflow?.min_days ?? 0),
+    steps: workflow
+      ? workflow.steps.map((step) => ({
+          approver_type: step.approver_type,
+          organization_role_code: step.organization_role_code ?? "",
+        }))
+      : [{ approver_type: ApproverType.SUPERVISOR, organization_role_code: "" }],
+    is_active: workflow?.is_active ?? true,
+  };
+}
+
+/**
+ * Checkbox grid for picking ids; nothing picked means "all"
+ */
+function IdCheckboxGroup({
+  options,
+  value,
+  onChange,
+}: {
+  options: { id: number; name: string }[];
+  value: number[];
+  onChange: (value: number[]) => void;
+}) {
+  return (
+    <div className="grid max-h-40 grid-cols-1 gap-3 overflow-y-auto rounded-lg border p-3 md:grid-cols-2">
+      {options.map((option) => (
+        <label key={option.id} className="flex cursor-pointer items-center gap-2 text-sm">
+          <Checkbox
+            checked={value.includes(option.id)}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...value, option.id] : value.filter((id) => id !== option.id))
+            }
+          />
+          {option.name}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export function ApprovalWorkflowFormDialog({
+  open,
+  onOpenChange,
+  workflow,
+}: ApprovalWorkflowFormDialogProps) {
+  const isEditMode = !!workflow;
+  const saveMutation = useSaveApprovalWorkflow(() => onOpenChange(false));
+
+  const { data: rolesData } = useQuery({
+    queryKey: ["organization-roles"],
+    queryFn: fetchOrganizationRoles,
+    enabled: open,
+  });
+  const { data: leaveTypesData } = useQuery({
+    queryKey: ["leave-types"],
+    queryFn: fetchLeaveTypes,
+    enabled: open,
+  });
+  const roles = rolesData?.data || [];
+  const leaveTypes = leaveTypesData?.data || [];
+
+  const form = useForm<ApprovalWorkflowFormValues>({
+    resolver: zodResolver(approvalWorkflowFormSchema),
+    defaultValues: toFormValues(workflow),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "steps" });
+  const steps = form.watch("steps");
+
+  // Reset the form whenever the dialog opens for a different workflow
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(workflow));
+    }
+  }, [open, workflow, form]);
+
+  const handleSubmit = (data: ApprovalWorkflowFormValues) => {
+    saveMutation.mutate({
+      publicId: workflow?.public_id,
+      payload: {
+        name: data.name,
+        description: data.description,
+        role_ids: data.role_ids,
+        leave_type_ids: data.leave_type_ids,
+        min_days: parseFloat(data.min_days || "0"),
+        steps: data.steps.map((step) => ({
+          approver_type: step.approver_type,
+          organization_role_code:
+            step.approver_type === ApproverType.ORGANIZATION_ROLE
+              ? step.organization_role_code
+              : null,
+        })),
+        is_active: data.is_active,
+      },
+    });
+  };
+
+  const stepsError =
+    form.formState.errors.steps?.root?.message ?? form.formState.errors.steps?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5 text-indigo-600" />
+            {isEditMode ? "Edit Approval Workflow" : "Add Approval Workflow"}
+          </DialogTitle>
+          <DialogDescription>
+            Requests this workflow applies to need every step approved, in order
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Teaching staff" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="role_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applicant Roles</FormLabel>
+                  <FormDescription>Leave empty to apply to every role</FormDescription>
+                  <FormControl>
+                    <IdCheckboxGroup
+                      options={roles}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="leave_type_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Leave Types</FormLabel>
+                  <FormDescription>Leave empty to apply to every leave type</FormDescription>
+                  <FormControl>
+                    <IdCheckboxGroup
+                      options={leaveTypes}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="min_days"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum Days</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.5" min={0} className="max-w-40" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Only requests at least this long follow the workflow; 0 for any length
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <FormLabel>Approval Steps *</FormLabel>
+              {fields.map((field, index) => (
+                <div key={field.id} className="space-y-2">
+                  {index > 0 && <ArrowDown className="mx-auto h-4 w-4 text-gray-400" />}
+                  <div className="grid grid-cols-12 items-start gap-3 rounded-lg border p-3">
+                    <span className="col-span-1 pt-2 text-sm font-semibold text-gray-500">
+                      {index + 1}.
+                    </span>
+                    <FormField
+                      control={form.control}
+                      name={`steps.${index}.approver_type`}
+                      render={({ field: selectField }) => (
+                        <FormItem className="col-span-11 md:col-span-5">
+                          <Select
+                            value={selectField.value}
+                            onValueChange={(value) =>
+                              selectField.onChange(value as ApproverTypeValue)
+                            }
+                          >
+                            <FormControl>
+                              <SelectTrigger aria-label="Approver">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.values(ApproverType).map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {APPROVER_TYPE_LABELS[type]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {steps[index]?.approver_type === ApproverType.ORGANIZATION_ROLE ? (
+                      <FormField
+                        control={form.control}
+                        name={`steps.${index}.organization_role_code`}
+                        render={({ field: selectField }) => (
+                          <FormItem className="col-span-10 md:col-span-5">
+                            <Select value={selectField.value} onValueChange={selectField.onChange}>
+                              <FormControl>
+                                <SelectTrigger aria-label="Organization role">
+                                  <SelectValue placeholder="Select role" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {roles.map((role) => (
+                                  <SelectItem key={role.id} value={role.code}>
+                                    {role.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ) : (
+                      <div className="col-span-10 md:col-span-5" />
+                    )}
+                    <div className="col-span-2 flex justify-end md:col-span-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => remove(index)}
+                        disabled={fields.length === 1}
+                        aria-label="Remove step"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                append({
+                  approver_type: ApproverType.ORGANIZATION_ROLE,
+                  organization_role_code: "",
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Step
+            </Button>
+
+            {stepsError && (
+              <Alert variant="destructive">
+                <AlertDescription>{stepsError}</AlertDescription>
+              </Alert>
+            )}
+
+            {isEditMode && (
+              <Alert>
+                <AlertDescription>
+                  Requests already submitted keep the steps they started with.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <FormLabel className="text-base font-medium">Active</FormLabel>
+                    <FormDescription>
+                      Inactive workflows are not used for new requests
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Workflow"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Approval Workflow List Component (Admin)
+ * Shows the organization's leave approval chains and what each applies to.
+ * Requests no active workflow matches are reviewed by the applicant's
+ * supervisor alone.
+ */
+
+import { AlertCircle, ChevronRight, Edit, Loader2, Plus, Trash2, Workflow } from "lucide-react";
+import { useState } from "react";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { LeaveApprovalWorkflow } from "@/lib/api/leave-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import {
+  useApprovalWorkflows,
+  useDeleteApprovalWorkflow,
+} from "../../hooks/use-approval-workflows";
+import { ApprovalWorkflowFormDialog } from "./approval-workflow-form-dialog";
+
+/** e.g. "Teacher · Earned Leave · 5+ days" */
+function describeScope(workflow: LeaveApprovalWorkflow): string {
+  return [
+    workflow.role_names.length > 0 ? workflow.role_names.join(", ") : "All roles",
+    workflow.leave_type_names.length > 0 ? workflow.leave_type_names.join(", ") : "All leave types",
+    workflow.min_days > 0 ? `${workflow.min_days}+ days` : "Any length",
+  ].join(" · ");
+}
+
+export function ApprovalWorkflowList() {
+  const [formDialog, setFormDialog] = useState<{
+    open: boolean;
+    workflow: LeaveApprovalWorkflow | null;
+  }>({
+    open: false,
+    workflow: null,
+  });
+  const [deletingWorkflow, setDeletingWorkflow] = useState<LeaveApprovalWorkflow | null>(null);
+
+  const { data: workflows = [], isLoading, error } = useApprovalWorkflows();
+  const deleteMutation = useDeleteApprovalWorkflow();
+
+  const handleDelete = () => {
+    if (!deletingWorkflow) {
+      return;
+    }
+    deleteMutation.mutate(deletingWorkflow.public_id, {
+      onSettled: () => setDeletingWorkflow(null),
+    });
+  };
+
+  return (
+    <>
+      <Card className="shadow-sm">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-xl">
+              <Workflow className="h-5 w-5" />
+              Approval Workflows
+            </CardTitle>
+            <CardDescription>
+              Each request follows the most specific active workflow that matches it. Requests no
+              workflow matches are approved by the applicant&apos;s supervisor.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setFormDialog({ open: true, workflow: null })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Workflow
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && workflows.length === 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No approval workflows yet. Every request is approved by the applicant&apos;s
+                supervisor.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-3">
+            {workflows.map((workflow) => (
+              <div
+                key={workflow.public_id}
+                className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-start md:justify-between"
+              >
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-gray-900">{workflow.name}</h3>
+                    {!workflow.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  {workflow.description && (
+                    <p className="text-sm text-gray-600">{workflow.description}</p>
+                  )}
+                  <p className="text-muted-foreground text-xs">{describeScope(workflow)}</p>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {workflow.steps.map((step, index) => (
+                      <span key={index} className="flex items-center gap-1">
+                        {index > 0 && <ChevronRight className="h-3 w-3 text-gray-400" />}
+                        <Badge
+                          variant="secondary"
+                          className="border-indigo-200 bg-indigo-50 text-xs text-indigo-700"
+                        >
+                          {step.label}
+                        </Badge>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setFormDialog({ open: true, workflow })}
+                    aria-label={`Edit ${workflow.name}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setDeletingWorkflow(workflow)}
+                    aria-label={`Delete ${workflow.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ApprovalWorkflowFormDialog
+        open={formDialog.open}
+        onOpenChange={(open: boolean) => !open && setFormDialog({ open: false, workflow: null })}
+        workflow={formDialog.workflow}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!deletingWorkflow}
+        title="Delete Approval Workflow?"
+        description={`"${deletingWorkflow?.name}" will be removed. New requests it covered will follow another workflow or go to the applicant's supervisor.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingWorkflow(null)}
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </>
+  );
+}
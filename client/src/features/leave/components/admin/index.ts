@@ -6,9 +6,14 @@
  */
 
 export { AddHolidaysForm } from './add-holidays-form';
+export { ApprovalWorkflowFormDialog } from './approval-workflow-form-dialog';
+export { ApprovalWorkflowList } from './approval-workflow-list';
 export { BulkUploadHolidays } from './bulk-upload-holidays';
 export { EditHolidayDialog } from './edit-holiday-dialog';
 export { HolidayFormFields } from './holiday-form-fields';
+export { LeaveAccrualRun } from './leave-accrual-run';
 export { LeaveAllocationForm } from './leave-allocation-form';
 export { LeaveAllocationsList } from './leave-allocations-list';
+export { LeaveRolloverWizard } from './leave-rollover-wizard';
 export { OrganizationHolidayCalendar } from './organization-holiday-calendar';
+export { TeamLeaveCalendar } from './team-leave-calendar';
@@ -0,0 +1,220 @@
+/**
+ * Leave Accrual Run (Admin)
+ * Shows what each user on a monthly, quarterly or pro-rated allocation has
+ * earned by a date against what their balance holds, and posts the
+ * difference as credits. Balances raised by hand beyond their accrual are
+ * left as they are.
+ */
+
+import { format } from "date-fns";
+import { AlertCircle, Coins, History, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { ConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn, formatDate } from "@/lib/utils";
+import { ACCRUAL_FREQUENCY_LABELS } from "../../constants";
+import {
+  useLeaveAccrualPreview,
+  useLeaveAccrualRuns,
+  useRunLeaveAccruals,
+} from "../../hooks/use-leave-accruals";
+
+function AccrualRunHistory() {
+  const { data: runs = [], isLoading } = useLeaveAccrualRuns();
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <History className="h-5 w-5" />
+          Past Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        )}
+
+        {!isLoading && runs.length === 0 && (
+          <p className="text-muted-foreground text-sm">No accruals have been posted yet.</p>
+        )}
+
+        {runs.length > 0 && (
+          <div className="space-y-3">
+            {runs.map((run) => (
+              <div key={run.public_id} className="rounded-lg border p-4">
+                <p className="font-semibold text-gray-900">As of {formatDate(run.as_of)}</p>
+                <p className="text-muted-foreground text-xs">
+                  {run.run_by_name || "System"} on {formatDate(run.run_at)} · {run.days_credited}{" "}
+                  day(s) credited to {run.credits_posted} balance(s)
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function LeaveAccrualRun() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [asOf, setAsOf] = useState(today);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const { data: preview, isLoading, error } = useLeaveAccrualPreview(asOf);
+  const runMutation = useRunLeaveAccruals();
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-sm">
+        <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-end md:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-xl">
+              <Coins className="h-5 w-5" />
+              Leave Accruals
+            </CardTitle>
+            <CardDescription>
+              Monthly and quarterly allocations credit their days at the start of each period.
+              Pro-rated allocations skip the months before a teacher joined.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="accrual-as-of">As of</Label>
+              <Input
+                id="accrual-as-of"
+                type="date"
+                max={today}
+                value={asOf}
+                onChange={(event) => setAsOf(event.target.value)}
+                className="w-44"
+              />
+            </div>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={!preview || preview.credits_due === 0 || runMutation.isPending}
+            >
+              {runMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Credits
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && preview.rows.length === 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No monthly, quarterly or pro-rated allocations are in effect on this date.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {preview && preview.rows.length > 0 && (
+            <>
+              <p className="text-sm text-gray-700">
+                {preview.credits_due > 0
+                  ? `${preview.days_due} day(s) due across ${preview.credits_due} balance(s).`
+                  : "Every balance is up to date."}
+              </p>
+              <div className="max-h-[32rem] overflow-auto rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Staff</TableHead>
+                      <TableHead>Allocation</TableHead>
+                      <TableHead>Accrual</TableHead>
+                      <TableHead className="text-right">Entitlement</TableHead>
+                      <TableHead className="text-right">Accrued</TableHead>
+                      <TableHead className="text-right">Credited</TableHead>
+                      <TableHead className="text-right">Due</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.balance_public_id}>
+                        <TableCell>
+                          <div className="font-medium">{row.user_name}</div>
+                          {row.joining_date && (
+                            <div className="text-muted-foreground text-xs">
+                              Joined {formatDate(row.joining_date)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{row.leave_type_code}</Badge>{" "}
+                          {row.allocation_name}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {ACCRUAL_FREQUENCY_LABELS[row.accrual_frequency]}
+                          {row.is_prorated && (
+                            <span className="text-muted-foreground text-xs"> · pro-rated</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{row.entitlement}</TableCell>
+                        <TableCell className="text-right">{row.accrued}</TableCell>
+                        <TableCell className="text-right">{row.credited}</TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right",
+                            row.credit > 0 && "font-semibold text-green-700"
+                          )}
+                        >
+                          {row.credit > 0 ? `+${row.credit}` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AccrualRunHistory />
+
+      <ConfirmationDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="Post accrued leave?"
+        description={
+          preview
+            ? `${preview.days_due} day(s) will be credited to ${preview.credits_due} balance(s) as of ${formatDate(preview.as_of)}. Staff are notified of their new balances.`
+            : ""
+        }
+        confirmLabel="Post Credits"
+        onConfirm={() => runMutation.mutate(asOf)}
+      />
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * Leave Allocation Policy Form
  *
  * Comprehensive form for creating and editing leave allocation policies.
- * Supports custom leave types, date ranges, carryover rules, and role-based policies.
+ * Supports custom leave types, date ranges, accrual and carryover rules, and
+ * role-based policies.
  */
 
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -21,11 +22,20 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import type { LeaveAllocation, LeaveAllocationPayload } from "@/lib/api/leave-api";
 import { LeaveMessages } from "@/lib/constants";
 import { formatDateForDisplay } from "@/lib/utils/date-utils";
+import { ACCRUAL_FREQUENCY_LABELS, AccrualFrequency } from "../../constants";
 import {
   formatDateForApi,
   getDefaultFormValues,
@@ -114,6 +124,12 @@ export function LeaveAllocationForm({
         roles: data.roles,
         effective_from: formatDateForApi(data.effective_from),
         effective_to: data.effective_to ? formatDateForApi(data.effective_to) : undefined,
+        accrual_frequency: data.accrual_frequency,
+        is_prorated: data.is_prorated,
+        attachment_required_above_days:
+          data.attachment_required_above_days === ""
+            ? null
+            : parseFloat(data.attachment_required_above_days),
       };
       updateMutation.mutate({ publicId: initialData.public_id, data: updatePayload });
     } else {
@@ -136,6 +152,12 @@ export function LeaveAllocationForm({
         roles: data.roles,
         effective_from: formatDateForApi(data.effective_from),
         effective_to: data.effective_to ? formatDateForApi(data.effective_to) : undefined,
+        accrual_frequency: data.accrual_frequency,
+        is_prorated: data.is_prorated,
+        attachment_required_above_days:
+          data.attachment_required_above_days === ""
+            ? null
+            : parseFloat(data.attachment_required_above_days),
       };
       createMutation.mutate(createPayload);
     }
@@ -269,6 +291,83 @@ export function LeaveAllocationForm({
                     />
                   </div>
 
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    {/* Accrual Frequency */}
+                    <FormField
+                      control={form.control}
+                      name="accrual_frequency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Accrual *</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            disabled={isViewMode}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Object.values(AccrualFrequency).map((frequency) => (
+                                <SelectItem key={frequency} value={frequency}>
+                                  {ACCRUAL_FREQUENCY_LABELS[frequency]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Monthly and quarterly credits spread the total evenly over the period
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {/* Pro-rating */}
+                    <FormField
+                      control={form.control}
+                      name="is_prorated"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-1">
+                            <FormLabel>Pro-rate for Joiners</FormLabel>
+                            <FormDescription>
+                              Only credit the months from a teacher&apos;s joining date
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={isViewMode}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {/* Supporting Documents */}
+                  <FormField
+                    control={form.control}
+                    name="attachment_required_above_days"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Require a Document Above (Days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.5" min="0" placeholder="2" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Longer requests must attach a supporting document, such as a medical
+                          certificate. Leave blank if none is needed.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <DateRangeFields
                     control={
                       form.control as unknown as Control<{
@@ -295,6 +394,14 @@ export function LeaveAllocationForm({
           leaveTypeName={getLeaveTypeName()}
           totalDays={form.watch("total_days")}
           carryForwardDays={form.watch("max_carry_forward_days")}
+          accrualRule={`${ACCRUAL_FREQUENCY_LABELS[form.watch("accrual_frequency")]}${
+            form.watch("is_prorated") ? ", pro-rated" : ""
+          }`}
+          documentRule={
+            form.watch("attachment_required_above_days")
+              ? `Required above ${form.watch("attachment_required_above_days")} days`
+              : "Not required"
+          }
           effectiveFrom={formatDateForDisplay(form.watch("effective_from"))}
           effectiveTo={
             form.watch("effective_to")
@@ -20,6 +20,7 @@ import {
   fetchOrganizationRoles,
   type LeaveAllocation,
 } from "@/lib/api/leave-api";
+import { ACCRUAL_FREQUENCY_LABELS } from "../../constants";
 
 interface LeaveAllocationsListProps {
   onCreateNew: () => void;
@@ -127,6 +128,15 @@ export function LeaveAllocationsList({
       sortable: true,
       sortKey: "total_days",
     },
+    {
+      header: "Accrual",
+      accessor: (row) => (
+        <span className="text-gray-700">
+          {ACCRUAL_FREQUENCY_LABELS[row.accrual_frequency]}
+          {row.is_prorated && <span className="text-muted-foreground text-xs"> · pro-rated</span>}
+        </span>
+      ),
+    },
     {
       header: "Carry Forward",
       accessor: (row) => <span className="text-gray-700">{row.max_carry_forward_days} days</span>,
@@ -0,0 +1,146 @@
+/**
+ * Leave Balance Ledger Dialog
+ * Every credit and debit posted to a leave balance, newest first, with the
+ * balance left after each one
+ */
+
+import { Loader2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn, formatDate } from "@/lib/utils";
+import { LEDGER_ENTRY_TYPE_CONFIG } from "../../constants";
+import { useLeaveBalanceLedger } from "../../hooks/use-leave-balance-ledger";
+
+interface LeaveBalanceLedgerDialogProps {
+  /** Balance to show; the dialog is closed while null */
+  balancePublicId: string | null;
+  onClose: () => void;
+}
+
+export function LeaveBalanceLedgerDialog({
+  balancePublicId,
+  onClose,
+}: LeaveBalanceLedgerDialogProps) {
+  const { data: ledger, isLoading, error } = useLeaveBalanceLedger(balancePublicId);
+
+  return (
+    <Dialog open={!!balancePublicId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex max-h-[85vh] max-w-4xl flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Balance History
+            {ledger && <Badge variant="outline">{ledger.leave_type_code}</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {ledger
+              ? `${ledger.leave_type_name} for ${ledger.user_name}`
+              : "Credits and debits on this leave balance"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto">
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+            </Alert>
+          )}
+
+          {ledger && ledger.entries.length === 0 && (
+            <Alert>
+              <AlertDescription>Nothing has been posted to this balance yet.</AlertDescription>
+            </Alert>
+          )}
+
+          {ledger && ledger.entries.length > 0 && (
+            <>
+              {ledger.pending > 0 && (
+                <p className="text-muted-foreground text-sm">
+                  {ledger.pending} day(s) in pending requests are not shown until approved.
+                </p>
+              )}
+              <div className="rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Days</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ledger.entries.map((entry) => {
+                      const config = LEDGER_ENTRY_TYPE_CONFIG[entry.entry_type];
+                      return (
+                        <TableRow key={entry.public_id}>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {formatDate(entry.created_at)}
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={cn(
+                                "rounded px-1.5 py-0.5 text-xs whitespace-nowrap",
+                                config.className
+                              )}
+                            >
+                              {config.label}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div>{entry.note}</div>
+                            {entry.request_summary && (
+                              <div className="text-muted-foreground text-xs">
+                                Request: {entry.request_summary}
+                              </div>
+                            )}
+                            <div className="text-muted-foreground text-xs">
+                              By {entry.actor_name || "System"}
+                            </div>
+                          </TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right font-medium",
+                              entry.days > 0 ? "text-green-700" : "text-red-600"
+                            )}
+                          >
+                            {entry.days > 0 ? `+${entry.days}` : entry.days}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {entry.balance_after}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,15 @@
 /**
  * Leave Request Review Dialog Component
- * Dialog for approving/rejecting leave requests with comments
+ * Dialog for approving/rejecting leave requests with comments. Supporting
+ * documents are previewed, and approval is blocked while a required one is
+ * missing.
  */
 
 import { format } from "date-fns";
-import { CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { AlertCircle, CheckCircle, XCircle, Loader2 } from "lucide-react";
 import { useState, useEffect } from "react";
+import { AttachmentList } from "@/common/components/attachments";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -19,6 +23,8 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import type { LeaveRequest } from "@/lib/api/leave-api";
+import type { Attachment } from "@/lib/api/schemas/common-schema";
+import { ApprovalSteps } from "../common/approval-steps";
 
 interface LeaveRequestReviewDialogProps {
   open: boolean;
@@ -29,6 +35,31 @@ interface LeaveRequestReviewDialogProps {
   isSubmitting: boolean;
 }
 
+/**
+ * Inline preview of images and PDFs; other files are only listed for download
+ */
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  if (attachment.content_type.startsWith("image/")) {
+    return (
+      <img
+        src={attachment.url}
+        alt={attachment.file_name}
+        className="max-h-64 w-full rounded-md border bg-white object-contain"
+      />
+    );
+  }
+  if (attachment.content_type === "application/pdf") {
+    return (
+      <iframe
+        src={attachment.url}
+        title={attachment.file_name}
+        className="h-64 w-full rounded-md border bg-white"
+      />
+    );
+  }
+  return null;
+}
+
 export function LeaveRequestReviewDialog({
   open,
   onOpenChange,
@@ -55,12 +86,15 @@ export function LeaveRequestReviewDialog({
   }
 
   const isApprove = action === "approve";
+  const isAttachmentMissing = request.attachment_required && request.attachments.length === 0;
+  const hasNextStep =
+    request.current_step !== null && request.current_step < request.approval_steps.length;
   const actionColor = isApprove ? "green" : "red";
   const ActionIcon = isApprove ? CheckCircle : XCircle;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ActionIcon className={`h-5 w-5 text-${actionColor}-600`} />
@@ -118,6 +152,40 @@ export function LeaveRequestReviewDialog({
             </div>
           </div>
 
+          {/* Supporting Documents */}
+          {request.attachments.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Supporting Documents</p>
+              <AttachmentList attachments={request.attachments} />
+              {request.attachments.map((attachment) => (
+                <AttachmentPreview key={attachment.public_id} attachment={attachment} />
+              ))}
+            </div>
+          )}
+
+          {isAttachmentMissing && (
+            <Alert variant={isApprove ? "destructive" : "default"}>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                This leave policy requires a supporting document for a request of this length, and
+                none is attached. It can be rejected but not approved.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Approval Chain */}
+          {request.approval_steps.length > 1 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Approval Steps</p>
+              <ApprovalSteps steps={request.approval_steps} workflowName={request.workflow_name} />
+              {isApprove && hasNextStep && (
+                <p className="text-muted-foreground text-xs">
+                  Approving sends the request on to step {(request.current_step ?? 0) + 1}.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Comments Input */}
           <div className="space-y-2">
             <Label htmlFor="comments">
@@ -149,7 +217,9 @@ export function LeaveRequestReviewDialog({
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={isSubmitting || (!isApprove && !comments.trim())}
+            disabled={
+              isSubmitting || (!isApprove && !comments.trim()) || (isApprove && isAttachmentMissing)
+            }
             className={
               isApprove ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"
             }
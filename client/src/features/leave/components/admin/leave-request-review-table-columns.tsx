@@ -93,9 +93,16 @@ export function getLeaveRequestReviewColumns({
         const config = statusConfig[request.status] || statusConfig.pending;
 
         return (
-          <Badge variant={config.variant} className={config.className}>
-            {request.status.toUpperCase()}
-          </Badge>
+          <div className="space-y-1">
+            <Badge variant={config.variant} className={config.className}>
+              {request.status.toUpperCase()}
+            </Badge>
+            {request.current_step && request.approval_steps.length > 1 && (
+              <p className="text-muted-foreground text-xs">
+                Step {request.current_step} of {request.approval_steps.length}
+              </p>
+            )}
+          </div>
         );
       },
       sortable: true,
@@ -7,6 +7,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { AlertCircle, CheckCircle, RefreshCw, Loader2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
+import { useLocation } from "wouter";
 import { ViewModeTabs } from "@/common/components";
 import { SuccessDialog } from "@/common/components/dialogs";
 import { ResourceFilter } from "@/common/components/filters/resource-filter";
@@ -24,6 +25,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { TablePagination } from "@/components/ui/table-pagination";
+import { PERMISSIONS, usePermissions } from "@/core/permissions";
 import { LeaveRequestStatus } from "@/features/leave/constants";
 import { fetchClasses } from "@/lib/api/class-api";
 import {
@@ -35,15 +37,19 @@ import {
   type LeaveRequest,
   type LeaveRequestReviewPayload,
 } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
 import { getApiErrorMessage } from "@/lib/error-utils";
 import { LeaveRequestReviewDialog } from "./leave-request-review-dialog";
 import { getLeaveRequestReviewColumns } from "./leave-request-review-table-columns";
+import { TeamLeaveCalendar } from "./team-leave-calendar";
 import { UserLeaveBalanceDialog } from "./user-leave-balance-dialog";
 
 type ViewMode = "staff" | "student";
 
 export function LeaveRequestReview() {
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { can } = usePermissions();
   const [viewMode, setViewMode] = useState<ViewMode>("staff");
   const [selectedClassId, setSelectedClassId] = useState<string>("");
   const [filters, setFilters] = useState<Record<string, string>>({
@@ -140,15 +146,41 @@ export function LeaveRequestReview() {
   const approveMutation = useMutation({
     mutationFn: ({ publicId, payload }: { publicId: string; payload: LeaveRequestReviewPayload }) =>
       approveLeaveRequest(publicId, payload),
-    onSuccess: () => {
+    onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ["leave-request-reviews"] });
       queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TEAM_LEAVE_CALENDAR] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       setReviewDialog({ open: false, request: null, action: null });
+
+      // Approving an earlier step of the chain hands the request to the next approver
+      const nextStep = response.data.current_step
+        ? response.data.approval_steps[response.data.current_step - 1]
+        : undefined;
+      if (response.data.status === LeaveRequestStatus.PENDING && nextStep) {
+        setSuccessMessage({
+          title: "Step Approved!",
+          description: `The leave request has been sent on to the next approver (${nextStep.label}).`,
+        });
+        setShowSuccessDialog(true);
+        return;
+      }
+
+      // A teacher's approved leave leaves their timetabled periods without a teacher
+      const isTeacherLeave = reviewDialog.request?.user_role.toLowerCase() === "teacher";
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SUBSTITUTIONS] });
       setSuccessMessage({
         title: "Leave Request Approved!",
-        description: "The leave request has been approved successfully.",
+        description: isTeacherLeave
+          ? "The leave request has been approved. The teacher's periods on these dates now need cover."
+          : "The leave request has been approved successfully.",
       });
       setShowSuccessDialog(true);
+      if (isTeacherLeave && can(PERMISSIONS.SUBSTITUTIONS_MANAGE)) {
+        toast.info("Assign substitutes for the teacher's periods", {
+          action: { label: "Substitution Board", onClick: () => setLocation("/substitutions") },
+        });
+      }
     },
     onError: (error: Error) => {
       toast.error(getApiErrorMessage(error));
@@ -162,6 +194,8 @@ export function LeaveRequestReview() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-request-reviews"] });
       queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TEAM_LEAVE_CALENDAR] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       setReviewDialog({ open: false, request: null, action: null });
       setSuccessMessage({
         title: "Leave Request Rejected!",
@@ -348,7 +382,9 @@ export function LeaveRequestReview() {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-3xl font-bold text-gray-900">Leave Request Reviews</h2>
-          <p className="text-gray-600">Review and approve/reject leave requests from your team</p>
+          <p className="text-gray-600">
+            Review and approve/reject leave requests waiting on your approval step
+          </p>
         </div>
         <Button variant="outline" size="sm" onClick={() => refetch()}>
           <RefreshCw className="mr-2 h-4 w-4" />
@@ -406,6 +442,9 @@ export function LeaveRequestReview() {
         </Card>
       )}
 
+      {/* Who else is off around the requested dates */}
+      {viewMode === "staff" && <TeamLeaveCalendar />}
+
       {/* Show filters and table only when class is selected for student view, or always for staff view */}
       {(viewMode === "staff" || (viewMode === "student" && selectedClassId)) && (
         <>
@@ -0,0 +1,452 @@
+/**
+ * Leave Rollover Wizard (Admin)
+ * Closes a leave year in three steps: pick the year, review every balance's
+ * unused, carried forward and lapsed days, then confirm. The year just ended
+ * is preselected; closing the year still in progress needs an explicit
+ * acknowledgement. Confirming creates
+ * next year's balances in one batch; the summary of each run stays available
+ * for download.
+ */
+
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  CalendarSync,
+  CheckCircle,
+  Download,
+  History,
+  Loader2,
+} from "lucide-react";
+import { useState } from "react";
+import { ConfirmationDialog } from "@/common/components/dialogs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LeaveRollover, LeaveRolloverTotals } from "@/lib/api/leave-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn, formatDate } from "@/lib/utils";
+import {
+  useDownloadLeaveRolloverSummary,
+  useLeaveRolloverPreview,
+  useLeaveRollovers,
+  useProcessLeaveRollover,
+} from "../../hooks/use-leave-rollover";
+
+type WizardStep = "year" | "preview" | "done";
+
+const WIZARD_STEPS: { id: WizardStep; label: string }[] = [
+  { id: "year", label: "Select Year" },
+  { id: "preview", label: "Review" },
+  { id: "done", label: "Done" },
+];
+
+/** The year just ended, closed by default, and the one in progress */
+function getClosableYears(): number[] {
+  const year = new Date().getFullYear();
+  return [year - 1, year];
+}
+
+/** Whether the leave year has not ended yet */
+function isYearInProgress(year: number): boolean {
+  return year >= new Date().getFullYear();
+}
+
+function TotalsSummary({ totals }: { totals: LeaveRolloverTotals }) {
+  const items = [
+    { label: "Staff", value: totals.users, className: "text-gray-900" },
+    { label: "Unused Days", value: totals.unused, className: "text-gray-900" },
+    { label: "Carried Forward", value: totals.carry_forward, className: "text-green-700" },
+    { label: "Lapsed", value: totals.lapsed, className: "text-red-600" },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-lg border p-3">
+          <p className="text-muted-foreground text-xs">{item.label}</p>
+          <p className={cn("text-2xl font-semibold", item.className)}>{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RolloverHistory() {
+  const { data: rollovers = [], isLoading } = useLeaveRollovers();
+  const downloadMutation = useDownloadLeaveRolloverSummary();
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <History className="h-5 w-5" />
+          Past Rollovers
+        </CardTitle>
+        <CardDescription>Summaries are kept as they were when each year was closed</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        )}
+
+        {!isLoading && rollovers.length === 0 && (
+          <p className="text-muted-foreground text-sm">No leave year has been rolled over yet.</p>
+        )}
+
+        {rollovers.length > 0 && (
+          <div className="space-y-3">
+            {rollovers.map((rollover) => (
+              <div
+                key={rollover.public_id}
+                className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between"
+              >
+                <div className="space-y-1">
+                  <p className="font-semibold text-gray-900">
+                    {rollover.from_year} → {rollover.to_year}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {rollover.processed_by_name || "System"} on {formatDate(rollover.processed_at)}{" "}
+                    · {rollover.balances_created} balance(s) created ·{" "}
+                    {rollover.totals.carry_forward} day(s) carried forward ·{" "}
+                    {rollover.totals.lapsed} lapsed
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadMutation.mutate(rollover)}
+                  disabled={downloadMutation.isPending}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Summary
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function LeaveRolloverWizard() {
+  const [step, setStep] = useState<WizardStep>("year");
+  const [year, setYear] = useState<number>(getClosableYears()[0]);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  // Closing the year in progress must be acknowledged each time it is picked
+  const [earlyCloseAcknowledged, setEarlyCloseAcknowledged] = useState(false);
+  const [result, setResult] = useState<LeaveRollover | null>(null);
+
+  const {
+    data: preview,
+    isLoading: isPreviewLoading,
+    error: previewError,
+  } = useLeaveRolloverPreview(step === "preview" ? year : null);
+  const processMutation = useProcessLeaveRollover((rollover) => {
+    setResult(rollover);
+    setStep("done");
+  });
+  const downloadMutation = useDownloadLeaveRolloverSummary();
+
+  const isEarlyClose = isYearInProgress(year);
+  const canProcess =
+    !!preview &&
+    !preview.already_processed &&
+    preview.rows.length > 0 &&
+    (!isEarlyClose || earlyCloseAcknowledged);
+
+  const handleYearChange = (value: string) => {
+    setYear(Number(value));
+    setEarlyCloseAcknowledged(false);
+  };
+
+  const handleStartOver = () => {
+    setResult(null);
+    setEarlyCloseAcknowledged(false);
+    setStep("year");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <CalendarSync className="h-5 w-5" />
+            Year-End Leave Rollover
+          </CardTitle>
+          <CardDescription>
+            Unused days carry forward up to each allocation&apos;s limit; the rest lapse. Pending
+            requests count as used.
+          </CardDescription>
+          <ol className="flex flex-wrap items-center gap-2 pt-2 text-sm">
+            {WIZARD_STEPS.map((item, index) => (
+              <li key={item.id} className="flex items-center gap-2">
+                {index > 0 && <span className="text-gray-300">—</span>}
+                <span
+                  className={cn(
+                    "flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold",
+                    item.id === step ? "bg-indigo-600 text-white" : "bg-gray-100 text-gray-500"
+                  )}
+                >
+                  {index + 1}
+                </span>
+                <span className={item.id === step ? "font-medium" : "text-muted-foreground"}>
+                  {item.label}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step === "year" && (
+            <div className="flex flex-col gap-4 md:flex-row md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="rollover-year">Leave year to close</Label>
+                <Select value={String(year)} onValueChange={handleYearChange}>
+                  <SelectTrigger id="rollover-year" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getClosableYears().map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={() => setStep("preview")}>Preview Rollover</Button>
+            </div>
+          )}
+
+          {step === "preview" && (
+            <>
+              {isPreviewLoading && (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                </div>
+              )}
+
+              {previewError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{getApiErrorMessage(previewError)}</AlertDescription>
+                </Alert>
+              )}
+
+              {preview && (
+                <>
+                  <TotalsSummary totals={preview.totals} />
+
+                  {preview.already_processed && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        {preview.from_year} has already been rolled over. Its summary is under Past
+                        Rollovers.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {isEarlyClose && !preview.already_processed && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>{year} has not ended yet</AlertTitle>
+                      <AlertDescription className="space-y-3">
+                        <p>
+                          Leave taken for the rest of {year} will no longer count against these
+                          balances, and the year can&apos;t be rolled over again.
+                        </p>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="rollover-early-close"
+                            checked={earlyCloseAcknowledged}
+                            onCheckedChange={(checked) =>
+                              setEarlyCloseAcknowledged(checked === true)
+                            }
+                          />
+                          <Label htmlFor="rollover-early-close" className="cursor-pointer">
+                            I understand and want to close {year} early
+                          </Label>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {preview.pending_requests > 0 && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>
+                        {preview.pending_requests} request(s) still awaiting review
+                      </AlertTitle>
+                      <AlertDescription>
+                        Their days are counted as used. Review them first if rejecting any should
+                        carry days forward.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {preview.skipped_allocations.length > 0 && (
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        Not rolled over because they have no end date:{" "}
+                        {preview.skipped_allocations.join(", ")}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {preview.rows.length === 0 ? (
+                    <p className="text-muted-foreground py-4 text-center text-sm">
+                      No leave balances close in {preview.from_year}.
+                    </p>
+                  ) : (
+                    <div className="max-h-[28rem] overflow-auto rounded-lg border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Staff</TableHead>
+                            <TableHead>Leave Type</TableHead>
+                            <TableHead className="text-right">Allocated</TableHead>
+                            <TableHead className="text-right">Used</TableHead>
+                            <TableHead className="text-right">Pending</TableHead>
+                            <TableHead className="text-right">Unused</TableHead>
+                            <TableHead className="text-right">Max Carry</TableHead>
+                            <TableHead className="text-right">Carry Forward</TableHead>
+                            <TableHead className="text-right">Lapsed</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {preview.rows.map((row) => (
+                            <TableRow key={row.balance_public_id}>
+                              <TableCell>
+                                <div className="font-medium">{row.user_name}</div>
+                                <div className="text-muted-foreground text-xs">
+                                  {row.organization_role}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="secondary">{row.leave_type_code}</Badge>{" "}
+                                {row.leave_type_name}
+                              </TableCell>
+                              <TableCell className="text-right">{row.allocated}</TableCell>
+                              <TableCell className="text-right">{row.used}</TableCell>
+                              <TableCell className="text-right">{row.pending}</TableCell>
+                              <TableCell className="text-right">{row.unused}</TableCell>
+                              <TableCell className="text-right">{row.max_carry_forward}</TableCell>
+                              <TableCell className="text-right font-semibold text-green-700">
+                                {row.carry_forward}
+                              </TableCell>
+                              <TableCell
+                                className={cn(
+                                  "text-right",
+                                  row.lapsed > 0 && "font-semibold text-red-600"
+                                )}
+                              >
+                                {row.lapsed}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </>
+              )}
+
+              <div className="flex justify-between">
+                <Button
+                  variant="outline"
+                  onClick={() => setStep("year")}
+                  disabled={processMutation.isPending}
+                >
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back
+                </Button>
+                <Button
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={!canProcess || processMutation.isPending}
+                >
+                  {processMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    `Roll Over to ${year + 1}`
+                  )}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === "done" && result && (
+            <>
+              <Alert>
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertTitle>
+                  Leave rolled over from {result.from_year} to {result.to_year}
+                </AlertTitle>
+                <AlertDescription>
+                  {result.balances_created} balance(s) and {result.allocations_created}{" "}
+                  allocation(s) created for {result.to_year}. Staff have been notified of their new
+                  balances.
+                </AlertDescription>
+              </Alert>
+              <TotalsSummary totals={result.totals} />
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={handleStartOver}>
+                  Close Another Year
+                </Button>
+                <Button
+                  onClick={() => downloadMutation.mutate(result)}
+                  disabled={downloadMutation.isPending}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Summary
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <RolloverHistory />
+
+      <ConfirmationDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={isEarlyClose ? `Close ${year} before it ends?` : `Roll over leave to ${year + 1}?`}
+        description={
+          preview
+            ? `${isEarlyClose ? `${year} is still in progress. ` : ""}${preview.totals.carry_forward} day(s) will be carried forward and ${preview.totals.lapsed} will lapse across ${preview.totals.users} staff. A year can only be rolled over once.`
+            : ""
+        }
+        variant={isEarlyClose ? "destructive" : "default"}
+        confirmLabel="Roll Over"
+        onConfirm={() => processMutation.mutate(year)}
+      />
+    </div>
+  );
+}
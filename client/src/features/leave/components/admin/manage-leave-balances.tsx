@@ -4,7 +4,7 @@
  */
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { Edit, History, Loader2, Plus, Trash2 } from "lucide-react";
 import { useState } from "react";
 import { ViewModeTabs } from "@/common/components";
 import { SuccessDialog } from "@/common/components/dialogs";
@@ -26,8 +26,10 @@ import {
   fetchUserLeaveBalances,
   type LeaveBalance,
 } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
 import { getApiErrorMessage } from "@/lib/error-utils";
 import { LeaveBalanceDialog } from "./leave-balance-dialog";
+import { LeaveBalanceLedgerDialog } from "./leave-balance-ledger-dialog";
 
 type ViewMode = "staff" | "student";
 
@@ -47,6 +49,7 @@ export function ManageLeaveBalances() {
     balance: null,
     mode: "create",
   });
+  const [ledgerBalanceId, setLedgerBalanceId] = useState<string | null>(null);
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
   const [successMessage, setSuccessMessage] = useState({ title: "", description: "" });
   const [showErrorDialog, setShowErrorDialog] = useState(false);
@@ -136,6 +139,7 @@ export function ManageLeaveBalances() {
     mutationFn: (publicId: string) => deleteLeaveBalance(publicId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["user-leave-balances", effectiveUserId] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       setSuccessMessage({
         title: "Leave Balance Deleted!",
         description: "The leave balance has been deleted successfully.",
@@ -241,6 +245,7 @@ export function ManageLeaveBalances() {
   const handleDialogSuccess = () => {
     handleDialogClose();
     queryClient.invalidateQueries({ queryKey: ["user-leave-balances", effectiveUserId] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
     setSuccessMessage({
       title: balanceDialog.mode === "create" ? "Leave Balance Created!" : "Leave Balance Updated!",
       description: `The leave balance has been ${balanceDialog.mode === "create" ? "created" : "updated"} successfully.`,
@@ -340,6 +345,14 @@ export function ManageLeaveBalances() {
       header: "Actions",
       accessor: (balance) => (
         <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            title="History"
+            onClick={() => setLedgerBalanceId(balance.public_id)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button variant="outline" size="sm" onClick={() => handleEditBalance(balance)}>
             <Edit className="h-4 w-4" />
           </Button>
@@ -353,7 +366,7 @@ export function ManageLeaveBalances() {
           </Button>
         </div>
       ),
-      width: 120,
+      width: 160,
     },
   ];
 
@@ -636,6 +649,12 @@ export function ManageLeaveBalances() {
         isLoadingAllocations={isLoadingAllocations}
       />
 
+      {/* Balance History Dialog */}
+      <LeaveBalanceLedgerDialog
+        balancePublicId={ledgerBalanceId}
+        onClose={() => setLedgerBalanceId(null)}
+      />
+
       {/* Success Dialog */}
       <SuccessDialog
         open={showSuccessDialog}
@@ -61,6 +61,7 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { useDeleteHoliday } from "@/hooks/use-holiday-mutations";
 import { useToast } from "@/hooks/use-toast";
+import { createCalendarException } from "@/lib/api/calendar-exception-api";
 import { fetchClasses } from "@/lib/api/class-api";
 import type { Holiday } from "@/lib/api/holiday-api";
 import {
@@ -71,6 +72,7 @@ import {
   getHolidayTypeColor,
   isNthWeekdayOfMonth,
 } from "@/lib/api/holiday-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
 import { cn } from "@/lib/utils";
 import {
   filterNonWeekendHolidays,
@@ -794,23 +796,7 @@ function ExceptionFormDialog({ open, onOpenChange, date, onSuccess }: ExceptionF
   const classes = classesResponse?.data || [];
 
   const createMutation = useMutation({
-    mutationFn: async (data: {
-      date: string;
-      override_type: "FORCE_WORKING" | "FORCE_HOLIDAY";
-      is_applicable_to_all_classes: boolean;
-      classes: string[];
-      reason: string;
-    }) => {
-      const response = await fetch("/api/calendar-exceptions/", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) {
-        throw new Error("Failed to create exception");
-      }
-      return response.json();
-    },
+    mutationFn: createCalendarException,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["calendar-exceptions"] });
       queryClient.invalidateQueries({ queryKey: ["holiday-calendar"] });
@@ -820,10 +806,10 @@ function ExceptionFormDialog({ open, onOpenChange, date, onSuccess }: ExceptionF
       });
       onSuccess();
     },
-    onError: (error: Error) => {
+    onError: (error: unknown) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create exception",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       });
     },
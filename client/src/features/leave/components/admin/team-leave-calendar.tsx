@@ -0,0 +1,319 @@
+/**
+ * Team Leave Calendar
+ * Month view of the approved and pending leave of the staff the user manages,
+ * over the organization's holidays. Working days with more people of one role
+ * or department off than the organization allows are flagged, so reviewers
+ * can see what approving a request would leave behind.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  addMonths,
+  endOfMonth,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { AlertCircle, AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Holiday, WorkingDayPolicy } from "@/lib/api/holiday-api";
+import {
+  fetchHolidayCalendar,
+  fetchWorkingDayPolicy,
+  getHolidayTypeColor,
+  isNthWeekdayOfMonth,
+} from "@/lib/api/holiday-api";
+import type { TeamLeave } from "@/lib/api/leave-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn } from "@/lib/utils";
+import { filterNonWeekendHolidays } from "@/lib/utils/holiday-utils";
+import { describeShortage, findShortages } from "../../helpers/team-leave-helpers";
+import { useTeamLeaveCalendar } from "../../hooks/use-team-leave-calendar";
+import type { Shortage } from "../../helpers/team-leave-helpers";
+
+interface CalendarDay {
+  date: Date;
+  isCurrentMonth: boolean;
+  isToday: boolean;
+  /** Weekly off under the working day policy, or a holiday */
+  isOff: boolean;
+  holidays: Holiday[];
+  leaves: TeamLeave[];
+  shortages: Shortage[];
+}
+
+const MAX_LEAVES_PER_CELL = 3;
+
+function isWeeklyOff(date: Date, policy: WorkingDayPolicy | undefined): boolean {
+  if (!policy) {
+    return false;
+  }
+  if (date.getDay() === 0) {
+    return policy.sunday_off;
+  }
+  if (date.getDay() !== 6) {
+    return false;
+  }
+  switch (policy.saturday_off_pattern) {
+    case "ALL":
+      return true;
+    case "SECOND_ONLY":
+      return isNthWeekdayOfMonth(date, 6, [2]);
+    case "SECOND_AND_FOURTH":
+      return isNthWeekdayOfMonth(date, 6, [2, 4]);
+    default:
+      return false;
+  }
+}
+
+export function TeamLeaveCalendar() {
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const fromDate = format(startOfMonth(currentDate), "yyyy-MM-dd");
+  const toDate = format(endOfMonth(currentDate), "yyyy-MM-dd");
+
+  const { data: calendar, isLoading, error } = useTeamLeaveCalendar(fromDate, toDate);
+
+  const { data: holidayData } = useQuery({
+    queryKey: [
+      "holiday-calendar",
+      currentDate.getFullYear().toString(),
+      currentDate.getMonth().toString(),
+    ],
+    queryFn: () =>
+      fetchHolidayCalendar({
+        from_date: fromDate,
+        to_date: toDate,
+        ordering: "start_date",
+        page_size: 365,
+      }),
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const { data: workingDayPolicyData } = useQuery({
+    queryKey: ["working-day-policy"],
+    queryFn: fetchWorkingDayPolicy,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const workingDayPolicy = workingDayPolicyData?.data?.[0];
+  const maxAbsences = calendar?.max_concurrent_absences ?? null;
+
+  const calendarDays = useMemo(() => {
+    const holidays = filterNonWeekendHolidays(holidayData?.data ?? []);
+    const leaves = calendar?.leaves ?? [];
+    const today = startOfDay(new Date());
+
+    const start = startOfMonth(currentDate);
+    const firstDayOfMonth = start.getDay();
+    const totalCells = Math.ceil((firstDayOfMonth + endOfMonth(currentDate).getDate()) / 7) * 7;
+
+    const days: CalendarDay[] = [];
+    for (let i = 0; i < totalCells; i++) {
+      const date = new Date(start);
+      date.setDate(date.getDate() + i - firstDayOfMonth);
+      const key = format(date, "yyyy-MM-dd");
+      const isCurrentMonth = isSameMonth(date, currentDate);
+
+      const dayHolidays = holidays.filter(
+        (holiday) => holiday.start_date <= key && holiday.end_date >= key
+      );
+      const dayLeaves = isCurrentMonth
+        ? leaves.filter((leave) => leave.start_date <= key && leave.end_date >= key)
+        : [];
+      const isOff = isWeeklyOff(date, workingDayPolicy) || dayHolidays.length > 0;
+
+      days.push({
+        date,
+        isCurrentMonth,
+        isToday: isSameDay(date, today),
+        isOff,
+        holidays: dayHolidays,
+        leaves: dayLeaves,
+        shortages: calendar && !isOff ? findShortages(dayLeaves, maxAbsences) : [],
+      });
+    }
+    return days;
+  }, [currentDate, calendar, holidayData, workingDayPolicy, maxAbsences]);
+
+  const shortDays = calendarDays.filter((day) => day.shortages.length > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Team Leave Calendar</CardTitle>
+          <CardDescription>
+            Approved and pending leave of the staff you manage.
+            {calendar &&
+              (maxAbsences === null
+                ? " No limit on staff off together is configured, so short-staffed days are not flagged."
+                : ` Working days with more than ${maxAbsences} people of one role or department off are flagged.`)}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="mr-2 text-sm font-semibold">{format(currentDate, "MMMM yyyy")}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setCurrentDate((prev) => subMonths(prev, 1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentDate(new Date())}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setCurrentDate((prev) => addMonths(prev, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        )}
+
+        {calendar && (
+          <>
+            {/* Legend */}
+            <div className="bg-muted/50 flex flex-wrap items-center gap-3 rounded-lg px-3 py-2 text-xs">
+              <div className="font-semibold">Legend:</div>
+              <div className="flex items-center gap-1.5">
+                <div className="h-2.5 w-2.5 rounded bg-green-500" />
+                Approved
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div className="h-2.5 w-2.5 rounded border border-dashed border-amber-500 bg-amber-100" />
+                Pending
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div className="bg-muted h-2.5 w-2.5 rounded" />
+                Holiday or weekly off
+              </div>
+              <div className="flex items-center gap-1.5">
+                <AlertTriangle className="h-3 w-3 text-red-600" />
+                Short-staffed
+              </div>
+            </div>
+
+            {/* Calendar Grid */}
+            <div className="overflow-hidden rounded-lg border">
+              <div className="bg-muted/30 grid grid-cols-7">
+                {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
+                  <div
+                    key={day}
+                    className="text-muted-foreground border-b px-1 py-1 text-center text-[10px] font-semibold"
+                  >
+                    {day}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-7">
+                {calendarDays.map((day) => {
+                  const holiday = day.holidays[0];
+                  const holidayColors = holiday ? getHolidayTypeColor(holiday.holiday_type) : null;
+                  const isShort = day.shortages.length > 0;
+
+                  return (
+                    <div
+                      key={day.date.toISOString()}
+                      className={cn(
+                        "min-h-[90px] border-r border-b p-1.5",
+                        !day.isCurrentMonth && "bg-muted/20 text-muted-foreground",
+                        day.isCurrentMonth && day.isOff && "bg-muted/40",
+                        day.isToday && "border-indigo-300 bg-blue-50",
+                        isShort && "bg-red-50 ring-1 ring-red-300 ring-inset"
+                      )}
+                      title={day.shortages.map(describeShortage).join("\n")}
+                    >
+                      <div className="mb-0.5 flex items-center justify-between text-xs font-medium">
+                        <span className={cn(day.isToday && "font-bold text-indigo-600")}>
+                          {format(day.date, "d")}
+                        </span>
+                        {isShort && <AlertTriangle className="h-3 w-3 text-red-600" />}
+                      </div>
+                      {day.isCurrentMonth && (
+                        <div className="space-y-0.5">
+                          {holiday && holidayColors && (
+                            <div
+                              className={cn(
+                                "truncate rounded border px-1 py-0.5 text-[10px] leading-tight",
+                                holidayColors.text,
+                                holidayColors.border
+                              )}
+                              title={holiday.description}
+                            >
+                              {holiday.description}
+                            </div>
+                          )}
+                          {day.leaves.slice(0, MAX_LEAVES_PER_CELL).map((leave) => (
+                            <div
+                              key={leave.request_public_id}
+                              className={cn(
+                                "truncate rounded px-1 py-0.5 text-[10px] leading-tight",
+                                leave.status === "approved"
+                                  ? "bg-green-100 text-green-800"
+                                  : "border border-dashed border-amber-500 bg-amber-50 text-amber-800"
+                              )}
+                              title={`${leave.user_name} · ${leave.leave_name}${
+                                leave.status === "pending" ? " (pending)" : ""
+                              }`}
+                            >
+                              {leave.user_name}
+                              {leave.is_half_day && " (½)"}
+                            </div>
+                          ))}
+                          {day.leaves.length > MAX_LEAVES_PER_CELL && (
+                            <div className="text-muted-foreground text-[9px]">
+                              +{day.leaves.length - MAX_LEAVES_PER_CELL} more
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {shortDays.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Short-staffed days</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-1 space-y-1">
+                    {shortDays.map((day) => (
+                      <li key={day.date.toISOString()}>
+                        <span className="font-medium">{format(day.date, "EEE, d MMM")}:</span>{" "}
+                        {day.shortages.map(describeShortage).join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,7 +5,7 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Loader2 } from "lucide-react";
+import { History, Loader2 } from "lucide-react";
 import { useState } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -26,6 +26,7 @@ import {
   type LeaveRequest,
 } from "@/lib/api/leave-api";
 import { getApiErrorMessage } from "@/lib/error-utils";
+import { LeaveBalanceLedgerDialog } from "./leave-balance-ledger-dialog";
 
 interface UserLeaveBalanceDialogProps {
   open: boolean;
@@ -41,6 +42,7 @@ export function UserLeaveBalanceDialog({
   userName,
 }: UserLeaveBalanceDialogProps) {
   const [activeTab, setActiveTab] = useState("balances");
+  const [ledgerBalanceId, setLedgerBalanceId] = useState<string | null>(null);
 
   const {
     data: balancesData,
@@ -241,6 +243,17 @@ export function UserLeaveBalanceDialog({
                             </div>
                           </div>
                         </div>
+
+                        <div className="mt-3 flex justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLedgerBalanceId(balance.public_id)}
+                          >
+                            <History className="mr-2 h-4 w-4" />
+                            History
+                          </Button>
+                        </div>
                       </div>
                     );
                   })}
@@ -291,6 +304,11 @@ export function UserLeaveBalanceDialog({
             Close
           </Button>
         </div>
+
+        <LeaveBalanceLedgerDialog
+          balancePublicId={ledgerBalanceId}
+          onClose={() => setLedgerBalanceId(null)}
+        />
       </DialogContent>
     </Dialog>
   );
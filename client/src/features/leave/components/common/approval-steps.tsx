@@ -0,0 +1,76 @@
+/**
+ * Approval Steps Component
+ * Timeline of a leave request's approval chain: each step's approver, its
+ * status, and who acted on it and when
+ */
+
+import { CheckCircle, Circle, Clock, MinusCircle, XCircle } from "lucide-react";
+import type { LeaveApprovalStep } from "@/lib/api/leave-api";
+import { cn, formatDate } from "@/lib/utils";
+import { APPROVAL_STEP_STATUS_CONFIG } from "../../constants";
+
+interface ApprovalStepsProps {
+  steps: LeaveApprovalStep[];
+  workflowName?: string | null;
+}
+
+const STEP_ICONS: Record<LeaveApprovalStep["status"], typeof Circle> = {
+  waiting: Circle,
+  pending: Clock,
+  approved: CheckCircle,
+  rejected: XCircle,
+  skipped: MinusCircle,
+};
+
+export function ApprovalSteps({ steps, workflowName }: ApprovalStepsProps) {
+  if (steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-xs">
+        {workflowName ? `${workflowName} workflow` : "Supervisor approval"}
+      </p>
+      <ol className="space-y-3">
+        {steps.map((step) => {
+          const config = APPROVAL_STEP_STATUS_CONFIG[step.status];
+          const Icon = STEP_ICONS[step.status];
+          return (
+            <li key={step.order} className="flex items-start gap-3">
+              <span
+                className={cn(
+                  "flex h-7 w-7 shrink-0 items-center justify-center rounded-full",
+                  config.className
+                )}
+              >
+                <Icon className="h-4 w-4" />
+              </span>
+              <div className="min-w-0 flex-1 space-y-0.5 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">
+                    {step.order}. {step.label}
+                  </span>
+                  <span className={cn("rounded px-1.5 py-0.5 text-xs", config.className)}>
+                    {config.label}
+                  </span>
+                </div>
+                {step.acted_by_name && step.acted_at && (
+                  <p className="text-muted-foreground text-xs">
+                    {step.acted_by_name} on {formatDate(step.acted_at)}
+                  </p>
+                )}
+                {step.approvers.length > 0 && (
+                  <p className="text-muted-foreground text-xs">
+                    Approvers: {step.approvers.join(", ")}
+                  </p>
+                )}
+                {step.comments && <p className="text-sm">{step.comments}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { cancelLeaveRequest } from "@/lib/api/leave-api";
 import type { LeaveRequest } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
 import { formatDate } from "@/lib/utils";
 
 interface CancelLeaveDialogProps {
@@ -38,6 +39,7 @@ export function CancelLeaveDialog({ request, open, onOpenChange }: CancelLeaveDi
     onSuccess: () => {
       // Invalidate all related queries to refresh data
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       queryClient.invalidateQueries({ queryKey: ["leave-balances-summary"] });
       queryClient.invalidateQueries({ queryKey: ["leave-requests"] });
 
@@ -17,3 +17,4 @@ export { ApplyLeaveDialog } from "./apply-leave-dialog";
 export { LeaveRequestDetailDialog } from "./leave-request-detail-dialog";
 export { CancelLeaveDialog } from "./cancel-leave-dialog";
 export { LeaveRequestForm } from "./leave-request-form";
+export { ApprovalSteps } from "./approval-steps";
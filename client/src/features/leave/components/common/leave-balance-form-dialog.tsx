@@ -44,6 +44,7 @@ import {
   fetchManageableUsers,
 } from "@/lib/api/leave-api";
 import type { LeaveBalance, LeaveBalancePayload } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
 
 const leaveBalanceSchema = z.object({
   user: z.string().min(1, "Please select a user"),
@@ -118,6 +119,7 @@ export function LeaveBalanceFormDialog({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       toast({
         title: "Success!",
         description: "Leave balance has been created successfully.",
@@ -145,6 +147,7 @@ export function LeaveBalanceFormDialog({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       toast({
         title: "Success!",
         description: "Leave balance has been updated successfully.",
@@ -327,7 +330,8 @@ export function LeaveBalanceFormDialog({
                       />
                     </FormControl>
                     <FormDescription className="text-xs">
-                      Leave empty to use allocation default
+                      Leave empty to use the allocation&apos;s days, or what has accrued so far for
+                      monthly and quarterly allocations
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
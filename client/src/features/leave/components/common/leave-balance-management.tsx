@@ -38,6 +38,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { fetchMyLeaveBalances, deleteLeaveBalance } from "@/lib/api/leave-api";
 import type { LeaveBalance } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
 import { LeaveBalanceFormDialog } from "./leave-balance-form-dialog";
 
 export function LeaveBalanceManagement() {
@@ -68,6 +69,7 @@ export function LeaveBalanceManagement() {
     mutationFn: (publicId: string) => deleteLeaveBalance(publicId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
       toast({
         title: "Leave Balance Deleted",
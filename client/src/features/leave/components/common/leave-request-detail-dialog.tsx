@@ -4,7 +4,7 @@
  * Reusable across Admin, Teacher, and Student dashboards
  */
 
-import { Calendar, Clock, User, FileText, MessageSquare } from "lucide-react";
+import { Calendar, Clock, FileText, ListChecks, MessageSquare } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
@@ -16,6 +16,7 @@ import {
 import { Separator } from "@/components/ui/separator";
 import type { LeaveRequest } from "@/lib/api/leave-api";
 import { formatDate } from "@/lib/utils";
+import { ApprovalSteps } from "./approval-steps";
 
 interface LeaveRequestDetailDialogProps {
   request: LeaveRequest | null;
@@ -50,7 +51,7 @@ export function LeaveRequestDetailDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
         <DialogHeader>
           <DialogTitle>Leave Request Details</DialogTitle>
           <DialogDescription>View complete information about this leave request</DialogDescription>
@@ -135,31 +136,19 @@ export function LeaveRequestDetailDialog({
             <p className="text-sm font-medium">{formatDate(request.applied_at)}</p>
           </div>
 
-          {/* Review Information */}
-          {request.reviewed_at && request.reviewed_by && (
+          {/* Approval Chain */}
+          {request.approval_steps.length > 0 && (
             <>
               <Separator />
               <div className="bg-muted space-y-3 rounded-lg p-4">
                 <div className="flex items-center space-x-2">
-                  <User className="text-muted-foreground h-4 w-4" />
-                  <span className="text-sm font-medium">Review Information</span>
-                </div>
-                <div className="space-y-2 text-sm">
-                  <div>
-                    <span className="text-muted-foreground">Reviewed By: </span>
-                    <span className="font-medium">{request.reviewed_by_name || "Unknown"}</span>
-                  </div>
-                  <div>
-                    <span className="text-muted-foreground">Reviewed On: </span>
-                    <span className="font-medium">{formatDate(request.reviewed_at)}</span>
-                  </div>
-                  {request.review_comments && (
-                    <div>
-                      <span className="text-muted-foreground">Comments: </span>
-                      <p className="mt-1">{request.review_comments}</p>
-                    </div>
-                  )}
+                  <ListChecks className="text-muted-foreground h-4 w-4" />
+                  <span className="text-sm font-medium">Approval</span>
                 </div>
+                <ApprovalSteps
+                  steps={request.approval_steps}
+                  workflowName={request.workflow_name}
+                />
               </div>
             </>
           )}
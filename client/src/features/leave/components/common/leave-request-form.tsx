@@ -1,6 +1,6 @@
 /**
  * Leave Request Form Component
- * Form for creating/viewing/editing leave requests
+ * Form for creating/viewing/editing leave requests, with supporting documents
  * Used as a standalone page instead of dialog
  */
 
@@ -11,6 +11,7 @@ import { useEffect, useRef, useState, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { useLocation } from "wouter";
 import * as z from "zod";
+import { AttachmentList, AttachmentPicker } from "@/common/components/attachments";
 import { SuccessDialog } from "@/common/components/dialogs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -55,8 +56,10 @@ import {
   type HolidayInfo,
   type LeaveRequestPayload,
 } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
 import { getApiErrorMessage } from "@/lib/error-utils";
 import { formatDate } from "@/lib/utils";
+import { getAttachmentError } from "@/lib/utils/file-utils";
 
 const leaveRequestSchema = z
   .object({
@@ -108,6 +111,8 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
   const [successMessage, setSuccessMessage] = useState({ title: "", description: "" });
   const [holidays, setHolidays] = useState<HolidayInfo[]>([]);
   const [dateRangeError, setDateRangeError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([]);
 
   // Track initial form population to avoid unnecessary API calls in edit mode
   const isInitialMount = useRef(true);
@@ -275,6 +280,7 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
     mutationFn: createLeaveRequest,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       queryClient.invalidateQueries({ queryKey: ["leave-requests"] });
       setSuccessMessage({
         title: "Leave Request Submitted!",
@@ -298,6 +304,7 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
       updateLeaveRequest(data.publicId, data.payload),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
       queryClient.invalidateQueries({ queryKey: ["leave-requests"] });
       queryClient.invalidateQueries({ queryKey: ["leave-request", publicId] });
       setSuccessMessage({
@@ -324,10 +331,14 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
     if (isEditMode && publicId) {
       updateMutation.mutate({
         publicId,
-        payload,
+        payload: {
+          ...payload,
+          attachments: files,
+          removed_attachment_ids: removedAttachmentIds,
+        },
       });
     } else if (isCreateMode) {
-      createMutation.mutate(payload);
+      createMutation.mutate({ ...payload, attachments: files });
     }
   };
 
@@ -352,6 +363,19 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
   const availableBalances =
     isEditMode || isViewMode ? balances : balances.filter((b) => b.available > 0);
 
+  // Supporting documents: the chosen allocation may require one for longer leave
+  const savedAttachments = (request?.attachments ?? []).filter(
+    (attachment) => !removedAttachmentIds.includes(attachment.public_id)
+  );
+  const attachmentThreshold =
+    balances.find((b) => b.public_id === form.watch("leave_balance"))?.leave_allocation
+      .attachment_required_above_days ?? null;
+  const isAttachmentMissing =
+    attachmentThreshold !== null &&
+    form.watch("number_of_days") > attachmentThreshold &&
+    savedAttachments.length + files.length === 0;
+  const attachmentError = getAttachmentError(files, savedAttachments.length);
+
   const getStatusBadge = (status: string) => {
     const statusConfig: Record<
       string,
@@ -471,6 +495,16 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
                 </p>
               </div>
 
+              {request.attachments.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Supporting Documents</p>
+                    <AttachmentList attachments={request.attachments} />
+                  </div>
+                </>
+              )}
+
               {/* Approval Info - Removed as fields don't exist in interface */}
             </div>
           ) : (
@@ -693,6 +727,35 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
                   )}
                 />
 
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">
+                    Supporting Documents{isAttachmentMissing && " *"}
+                  </p>
+                  {attachmentThreshold !== null && (
+                    <p className="text-muted-foreground text-sm">
+                      Leave longer than {attachmentThreshold} day(s) needs a supporting document,
+                      such as a medical certificate.
+                    </p>
+                  )}
+                  <AttachmentList
+                    attachments={savedAttachments}
+                    onRemove={(attachment) =>
+                      setRemovedAttachmentIds((ids) => [...ids, attachment.public_id])
+                    }
+                  />
+                  <AttachmentPicker
+                    files={files}
+                    onChange={setFiles}
+                    existingCount={savedAttachments.length}
+                    disabled={isSubmitting}
+                  />
+                  {isAttachmentMissing && (
+                    <p className="text-destructive text-sm">
+                      Attach a document to submit this request.
+                    </p>
+                  )}
+                </div>
+
                 <div className="flex flex-wrap justify-end gap-3">
                   <Button
                     type="button"
@@ -708,7 +771,9 @@ export function LeaveRequestForm({ mode, publicId }: LeaveRequestFormProps) {
                       isSubmitting ||
                       availableBalances.length === 0 ||
                       (dateRangeError !== null && !dateRangeError.startsWith("Warning")) ||
-                      form.watch("number_of_days") <= 0
+                      form.watch("number_of_days") <= 0 ||
+                      isAttachmentMissing ||
+                      attachmentError !== null
                     }
                   >
                     {isSubmitting && (
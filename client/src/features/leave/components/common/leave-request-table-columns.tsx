@@ -22,12 +22,23 @@ export function getLeaveRequestColumns({
   onEdit,
   onDelete,
 }: GetLeaveRequestColumnsOptions): Column<LeaveRequest>[] {
-  const getStatusBadge = (status: LeaveRequest["status"]) => {
-    const config = LEAVE_STATUS_CONFIG[status] || LEAVE_STATUS_CONFIG[LeaveRequestStatus.PENDING];
+  const getStatusBadge = (request: LeaveRequest) => {
+    const config =
+      LEAVE_STATUS_CONFIG[request.status] || LEAVE_STATUS_CONFIG[LeaveRequestStatus.PENDING];
+    const currentStep = request.current_step
+      ? request.approval_steps[request.current_step - 1]
+      : undefined;
     return (
-      <Badge variant={config.variant} className={config.className}>
-        {config.label.toUpperCase()}
-      </Badge>
+      <div className="space-y-1">
+        <Badge variant={config.variant} className={config.className}>
+          {config.label.toUpperCase()}
+        </Badge>
+        {currentStep && request.approval_steps.length > 1 && (
+          <p className="text-muted-foreground text-xs">
+            Step {currentStep.order} of {request.approval_steps.length}: {currentStep.label}
+          </p>
+        )}
+      </div>
     );
   };
 
@@ -59,7 +70,7 @@ export function getLeaveRequestColumns({
     },
     {
       header: "Status",
-      accessor: (request) => getStatusBadge(request.status),
+      accessor: (request) => getStatusBadge(request),
       sortable: true,
       sortKey: "status",
     },
@@ -8,6 +8,8 @@ interface PolicySummaryCardProps {
   leaveTypeName: string;
   totalDays: string;
   carryForwardDays: string;
+  accrualRule: string;
+  documentRule: string;
   effectiveFrom: string;
   effectiveTo?: string;
   selectedRoles: OrganizationRole[];
@@ -22,6 +24,8 @@ export function PolicySummaryCard({
   leaveTypeName,
   totalDays,
   carryForwardDays,
+  accrualRule,
+  documentRule,
   effectiveFrom,
   effectiveTo,
   selectedRoles,
@@ -54,6 +58,16 @@ export function PolicySummaryCard({
           <p className="text-base font-semibold text-gray-900">{carryForwardDays || "0"} days</p>
         </div>
 
+        <div>
+          <p className="text-sm font-medium text-gray-500">Accrual:</p>
+          <p className="text-base font-semibold text-gray-900">{accrualRule}</p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-500">Supporting Document:</p>
+          <p className="text-base font-semibold text-gray-900">{documentRule}</p>
+        </div>
+
         <div>
           <p className="text-sm font-medium text-gray-500">Effective Period:</p>
           <p className="text-base font-semibold text-gray-900">
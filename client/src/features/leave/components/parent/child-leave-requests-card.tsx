@@ -0,0 +1,91 @@
+/**
+ * Child Leave Requests Card (Parent)
+ * Leave requests of the child picked in the child switcher, newest first, with
+ * their dates and review status
+ */
+
+import { AlertCircle, CalendarOff, Loader2 } from "lucide-react";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { formatDate } from "@/lib/utils";
+import { LEAVE_STATUS_CONFIG, LeaveRequestStatus } from "../../constants";
+import { useChildrenLeaveRequests } from "../../hooks/use-children-leave-requests";
+
+interface ChildLeaveRequestsCardProps {
+  /** Show only the most recent requests, e.g. on the dashboard */
+  limit?: number;
+}
+
+export function ChildLeaveRequestsCard({ limit }: ChildLeaveRequestsCardProps) {
+  const [selectedId] = useSelectedChildId();
+  const { data: children = [], isLoading, error } = useChildrenLeaveRequests();
+
+  const selected = children.find((child) => child.student.public_id === selectedId) ?? children[0];
+  const requests = (selected?.requests || []).slice(0, limit);
+
+  return (
+    <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
+      <CardHeader className="border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50">
+        <CardTitle className="flex items-center gap-2 text-amber-900">
+          <CalendarOff className="h-5 w-5 text-amber-600" />
+          Leave
+        </CardTitle>
+        <CardDescription className="text-amber-700">
+          Leave requested for your child and whether the school approved it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !error && requests.length === 0 && (
+          <p className="text-sm text-gray-500">No leave has been requested for your child.</p>
+        )}
+
+        {requests.length > 0 && (
+          <div className="space-y-4">
+            {requests.map((request) => {
+              const config =
+                LEAVE_STATUS_CONFIG[request.status] ||
+                LEAVE_STATUS_CONFIG[LeaveRequestStatus.PENDING];
+              return (
+                <div
+                  key={request.public_id}
+                  className="flex items-start justify-between gap-4 border-b border-gray-100 pb-4 last:border-0"
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-900">
+                      {formatDate(request.start_date)}
+                      {request.end_date !== request.start_date &&
+                        ` – ${formatDate(request.end_date)}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {request.leave_name} • {request.number_of_days} day(s)
+                    </p>
+                    {request.reason && <p className="text-sm text-gray-700">{request.reason}</p>}
+                  </div>
+                  <Badge variant={config.variant} className={config.className}>
+                    {config.label.toUpperCase()}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
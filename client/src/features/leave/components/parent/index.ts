@@ -0,0 +1,7 @@
+/**
+ * Leave Management - Parent Components
+ *
+ * Read-only views of the leave taken by a parent's children.
+ */
+
+export { ChildLeaveRequestsCard } from './child-leave-requests-card';
@@ -34,3 +34,48 @@ export const LEAVE_STATUS_CONFIG = {
     label: "Cancelled",
   },
 } as const;
+
+export const AccrualFrequency = {
+  UPFRONT: "upfront",
+  MONTHLY: "monthly",
+  QUARTERLY: "quarterly",
+} as const;
+
+export type AccrualFrequencyValue = (typeof AccrualFrequency)[keyof typeof AccrualFrequency];
+
+export const ACCRUAL_FREQUENCY_LABELS: Record<AccrualFrequencyValue, string> = {
+  [AccrualFrequency.UPFRONT]: "Upfront",
+  [AccrualFrequency.MONTHLY]: "Monthly",
+  [AccrualFrequency.QUARTERLY]: "Quarterly",
+};
+
+export const ApproverType = {
+  SUPERVISOR: "supervisor",
+  ORGANIZATION_ROLE: "organization_role",
+  ADMIN: "admin",
+} as const;
+
+export type ApproverTypeValue = (typeof ApproverType)[keyof typeof ApproverType];
+
+export const APPROVER_TYPE_LABELS: Record<ApproverTypeValue, string> = {
+  [ApproverType.SUPERVISOR]: "Applicant's supervisor",
+  [ApproverType.ORGANIZATION_ROLE]: "Organization role",
+  [ApproverType.ADMIN]: "Any admin",
+};
+
+export const APPROVAL_STEP_STATUS_CONFIG = {
+  waiting: { label: "Waiting", className: "bg-gray-100 text-gray-600" },
+  pending: { label: "Awaiting review", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-500" },
+} as const;
+
+export const LEDGER_ENTRY_TYPE_CONFIG = {
+  allocation: { label: "Allocation", className: "bg-indigo-100 text-indigo-800" },
+  accrual: { label: "Accrual", className: "bg-green-100 text-green-800" },
+  carry_forward: { label: "Carry-forward", className: "bg-teal-100 text-teal-800" },
+  approval: { label: "Leave taken", className: "bg-red-100 text-red-800" },
+  cancellation: { label: "Cancellation", className: "bg-blue-100 text-blue-800" },
+  adjustment: { label: "Adjustment", className: "bg-amber-100 text-amber-800" },
+} as const;
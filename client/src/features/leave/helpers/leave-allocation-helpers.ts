@@ -34,6 +34,9 @@ export function getDefaultFormValues(): Partial<LeaveAllocationFormValues> {
     max_carry_forward_days: "0",
     roles: [],
     effective_from: new Date(),
+    accrual_frequency: "upfront",
+    is_prorated: false,
+    attachment_required_above_days: "",
   };
 }
 
@@ -53,6 +56,9 @@ export function getFormValuesFromAllocation(
     roles: roleIds,
     effective_from: parseLocalDate(allocation.effective_from) || new Date(),
     effective_to: parseLocalDate(allocation.effective_to),
+    accrual_frequency: allocation.accrual_frequency,
+    is_prorated: allocation.is_prorated,
+    attachment_required_above_days: allocation.attachment_required_above_days?.toString() ?? "",
   };
 }
 
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { TeamLeave } from "@/lib/api/leave-api";
+import { describeShortage, findShortages } from "./team-leave-helpers";
+
+function leave(userName: string, overrides: Partial<TeamLeave> = {}): TeamLeave {
+  return {
+    request_public_id: `request-${userName}`,
+    user_public_id: `user-${userName}`,
+    user_name: userName,
+    user_role: "teacher",
+    organization_role: "Teacher",
+    department: "Mathematics",
+    leave_name: "Casual Leave",
+    leave_type_code: "CL",
+    start_date: "2026-10-19",
+    end_date: "2026-10-19",
+    is_half_day: false,
+    status: "approved",
+    ...overrides,
+  };
+}
+
+describe("findShortages", () => {
+  it("keeps only the groups with more people off than allowed", () => {
+    const leaves = [leave("anita"), leave("bala"), leave("chitra", { department: "Science" })];
+
+    expect(findShortages(leaves, 2)).toEqual([{ group: "Teacher", leaves }]);
+    expect(findShortages(leaves, 3)).toEqual([]);
+  });
+
+  it("groups by department as well as by role", () => {
+    const leaves = [leave("anita"), leave("bala", { organization_role: "Head of Department" })];
+
+    expect(findShortages(leaves, 1)).toEqual([{ group: "Mathematics department", leaves }]);
+  });
+
+  it("falls back to the user role, then to staff, when no organization role is set", () => {
+    const leaves = [
+      leave("anita", { organization_role: "", user_role: "admin", department: null }),
+      leave("bala", { organization_role: "", user_role: "admin", department: null }),
+      leave("chitra", { organization_role: "", user_role: "", department: null }),
+      leave("dev", { organization_role: "", user_role: "", department: null }),
+    ];
+
+    expect(findShortages(leaves, 1)).toEqual([
+      { group: "admin", leaves: leaves.slice(0, 2) },
+      { group: "Staff", leaves: leaves.slice(2) },
+    ]);
+  });
+
+  it("counts pending leave towards the limit", () => {
+    const leaves = [leave("anita"), leave("bala", { status: "pending" })];
+
+    expect(findShortages(leaves, 1).map((shortage) => shortage.group)).toEqual([
+      "Teacher",
+      "Mathematics department",
+    ]);
+  });
+
+  it("flags nothing when no limit is configured", () => {
+    const leaves = [leave("anita"), leave("bala"), leave("chitra")];
+
+    expect(findShortages(leaves, null)).toEqual([]);
+  });
+
+  it("treats a limit of zero as allowing nobody off", () => {
+    expect(findShortages([leave("anita")], 0)).toHaveLength(2);
+  });
+});
+
+describe("describeShortage", () => {
+  it("lists the people off and marks pending requests", () => {
+    const shortage = {
+      group: "Teacher",
+      leaves: [leave("Anita Rao"), leave("Bala K", { status: "pending" })],
+    };
+
+    expect(describeShortage(shortage)).toBe("Teacher: 2 off (Anita Rao, Bala K (pending))");
+  });
+});
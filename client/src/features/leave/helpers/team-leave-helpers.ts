@@ -0,0 +1,46 @@
+/**
+ * Team Leave Helpers
+ * Understaffing checks behind the team leave calendar.
+ */
+
+import type { TeamLeave } from "@/lib/api/leave-api";
+
+/** People of one role or department off on the same day */
+export interface Shortage {
+  group: string;
+  leaves: TeamLeave[];
+}
+
+/**
+ * Group the day's leave by the role and by the department of the people on
+ * it, keeping the groups over the limit. Nothing is flagged when the
+ * organization has not set a limit.
+ */
+export function findShortages(leaves: TeamLeave[], maxAbsences: number | null): Shortage[] {
+  if (maxAbsences === null) {
+    return [];
+  }
+
+  const groups = new Map<string, TeamLeave[]>();
+  const addTo = (group: string, leave: TeamLeave) => {
+    groups.set(group, [...(groups.get(group) ?? []), leave]);
+  };
+
+  leaves.forEach((leave) => {
+    addTo(leave.organization_role || leave.user_role || "Staff", leave);
+    if (leave.department) {
+      addTo(`${leave.department} department`, leave);
+    }
+  });
+
+  return Array.from(groups, ([group, groupLeaves]) => ({ group, leaves: groupLeaves })).filter(
+    (shortage) => shortage.leaves.length > maxAbsences
+  );
+}
+
+export function describeShortage(shortage: Shortage): string {
+  const people = shortage.leaves
+    .map((leave) => (leave.status === "pending" ? `${leave.user_name} (pending)` : leave.user_name))
+    .join(", ");
+  return `${shortage.group}: ${shortage.leaves.length} off (${people})`;
+}
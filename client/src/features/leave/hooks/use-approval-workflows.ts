@@ -0,0 +1,63 @@
+/**
+ * Approval Workflow Hooks
+ * React Query hooks for the leave approval chains admins configure
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteApprovalWorkflow,
+  fetchApprovalWorkflows,
+  saveApprovalWorkflow,
+  type LeaveApprovalWorkflowPayload,
+} from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+export function useApprovalWorkflows() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_APPROVAL_WORKFLOWS],
+    queryFn: fetchApprovalWorkflows,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Create an approval workflow, or update the one with `publicId`
+ */
+export function useSaveApprovalWorkflow(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      payload,
+      publicId,
+    }: {
+      payload: LeaveApprovalWorkflowPayload;
+      publicId?: string;
+    }) => saveApprovalWorkflow(payload, publicId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_APPROVAL_WORKFLOWS] });
+      toast.success(response.message || "Approval workflow saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useDeleteApprovalWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicId: string) => deleteApprovalWorkflow(publicId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_APPROVAL_WORKFLOWS] });
+      toast.success("Approval workflow deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Children Leave Requests Hook
+ * React Query hook for the leave requests of each child linked to the signed-in
+ * parent
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchChildrenLeaveRequests } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+
+export function useChildrenLeaveRequests() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN_LEAVE_REQUESTS],
+    queryFn: fetchChildrenLeaveRequests,
+    select: (response) => response.data,
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Leave Accrual Hooks
+ * React Query hooks for previewing and posting monthly and quarterly leave
+ * credits
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  fetchLeaveAccrualPreview,
+  fetchLeaveAccrualRuns,
+  runLeaveAccruals,
+} from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+export function useLeaveAccrualPreview(asOf: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_ACCRUAL_PREVIEW, asOf],
+    queryFn: () => fetchLeaveAccrualPreview(asOf),
+    select: (response) => response.data,
+    enabled: !!asOf,
+  });
+}
+
+export function useLeaveAccrualRuns() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_ACCRUAL_RUNS],
+    queryFn: fetchLeaveAccrualRuns,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Post the credits due on a date; balances change, so leave views refresh
+ */
+export function useRunLeaveAccruals() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (asOf: string) => runLeaveAccruals(asOf),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_ACCRUAL_RUNS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_ACCRUAL_PREVIEW] });
+      queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
+      queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
+      toast.success(response.message || "Leave credited");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Leave Balance Ledger Hook
+ * React Query hook for a balance's credit and debit history
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchLeaveBalanceLedger } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+
+export function useLeaveBalanceLedger(balancePublicId: string | null) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER, balancePublicId],
+    queryFn: () => fetchLeaveBalanceLedger(balancePublicId as string),
+    select: (response) => response.data,
+    enabled: !!balancePublicId,
+  });
+}
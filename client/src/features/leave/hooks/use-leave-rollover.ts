@@ -0,0 +1,80 @@
+/**
+ * Leave Rollover Hooks
+ * React Query hooks for closing a leave year and carrying unused days forward
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  downloadLeaveRolloverSummary,
+  fetchLeaveRolloverPreview,
+  fetchLeaveRollovers,
+  processLeaveRollover,
+  type LeaveRollover,
+} from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+export function useLeaveRolloverPreview(year: number | null) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_ROLLOVER_PREVIEW, year],
+    queryFn: () => fetchLeaveRolloverPreview(year as number),
+    select: (response) => response.data,
+    enabled: year !== null,
+  });
+}
+
+export function useLeaveRollovers() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.LEAVE_ROLLOVERS],
+    queryFn: fetchLeaveRollovers,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Process the rollover for a year. Next year's allocations and balances are
+ * created in one batch, so every leave view is refreshed afterwards.
+ */
+export function useProcessLeaveRollover(onSuccess?: (rollover: LeaveRollover) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (year: number) => processLeaveRollover(year),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_ROLLOVERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_ROLLOVER_PREVIEW] });
+      queryClient.invalidateQueries({ queryKey: ["leave-allocations"] });
+      queryClient.invalidateQueries({ queryKey: ["leave-balances"] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.LEAVE_BALANCE_LEDGER] });
+      queryClient.invalidateQueries({ queryKey: ["leave-dashboard"] });
+      toast.success(response.message || "Leave rolled over");
+      onSuccess?.(response.data);
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Download a rollover's summary as CSV
+ */
+export function useDownloadLeaveRolloverSummary() {
+  return useMutation({
+    mutationFn: (rollover: LeaveRollover) => downloadLeaveRolloverSummary(rollover.public_id),
+    onSuccess: (blob, rollover) => {
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `leave_rollover_${rollover.from_year}_${rollover.to_year}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
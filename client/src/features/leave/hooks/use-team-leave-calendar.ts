@@ -0,0 +1,17 @@
+/**
+ * Team Leave Calendar Hook
+ * React Query hook for the approved and pending leave of the staff the user
+ * manages
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchTeamLeaveCalendar } from "@/lib/api/leave-api";
+import { QUERY_KEYS } from "@/lib/constants";
+
+export function useTeamLeaveCalendar(fromDate: string, toDate: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.TEAM_LEAVE_CALENDAR, fromDate, toDate],
+    queryFn: () => fetchTeamLeaveCalendar({ from_date: fromDate, to_date: toDate }),
+    select: (response) => response.data,
+  });
+}
@@ -0,0 +1,32 @@
+import * as z from "zod";
+import { ApproverType } from "../constants";
+
+export const approvalWorkflowStepFormSchema = z
+  .object({
+    approver_type: z.enum([
+      ApproverType.SUPERVISOR,
+      ApproverType.ORGANIZATION_ROLE,
+      ApproverType.ADMIN,
+    ]),
+    organization_role_code: z.string(),
+  })
+  .refine(
+    (step) =>
+      step.approver_type !== ApproverType.ORGANIZATION_ROLE || !!step.organization_role_code,
+    { message: "Choose a role", path: ["organization_role_code"] }
+  );
+
+export const approvalWorkflowFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(255, "Description is too long"),
+  role_ids: z.array(z.number()),
+  leave_type_ids: z.array(z.number()),
+  min_days: z.string().refine((val) => {
+    const num = parseFloat(val || "0");
+    return !isNaN(num) && num >= 0;
+  }, "Use 0 or more days"),
+  steps: z.array(approvalWorkflowStepFormSchema).min(1, "Add at least one approval step"),
+  is_active: z.boolean(),
+});
+
+export type ApprovalWorkflowFormValues = z.infer<typeof approvalWorkflowFormSchema>;
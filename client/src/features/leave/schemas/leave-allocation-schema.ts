@@ -32,6 +32,15 @@ export const createLeaveAllocationSchema = (mode: "create" | "view" | "edit") =>
       required_error: LeaveMessages.Validation.EFFECTIVE_FROM_REQUIRED,
     }),
     effective_to: z.date().optional(),
+    accrual_frequency: z.enum(["upfront", "monthly", "quarterly"]),
+    is_prorated: z.boolean(),
+    attachment_required_above_days: z
+      .string()
+      .refine((val) => {
+        if (val === "") {return true;}
+        const num = parseFloat(val);
+        return !isNaN(num) && num >= 0;
+      }, LeaveMessages.Validation.ATTACHMENT_DAYS_POSITIVE),
   })
   .refine((data) => {
     const totalDays = parseFloat(data.total_days);
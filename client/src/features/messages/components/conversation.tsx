@@ -0,0 +1,167 @@
+/**
+ * Conversation
+ * Messages of one conversation, oldest first, with a reply box. Opening it
+ * marks the other participant's messages read; messages held for quiet
+ * hours show when they will be delivered.
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Check, CheckCheck, Clock, Loader2, Send } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { AttachmentList, AttachmentPicker } from "@/common/components/attachments";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { Message } from "@/lib/api/message-api";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { cn } from "@/lib/utils";
+import { getAttachmentError } from "@/lib/utils/file-utils";
+import { formatMessageTime, getCounterpart } from "../helpers/message-helpers";
+import { useMarkMessageThreadRead, useMessageThread, useSendMessage } from "../hooks/use-messages";
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+function MessageStatus({ message }: { message: Message }) {
+  if (!message.is_delivered) {
+    return (
+      <span className="flex items-center gap-1">
+        <Clock className="h-3 w-3" />
+        Held for quiet hours, delivers at {format(parseISO(message.delivered_at), "HH:mm")}
+      </span>
+    );
+  }
+  return message.read_at ? (
+    <span className="flex items-center gap-1">
+      <CheckCheck className="h-3 w-3" />
+      Read
+    </span>
+  ) : (
+    <span className="flex items-center gap-1">
+      <Check className="h-3 w-3" />
+      Delivered
+    </span>
+  );
+}
+
+interface ConversationProps {
+  threadId: string;
+  isParent: boolean;
+}
+
+export function Conversation({ threadId, isParent }: ConversationProps) {
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { data, isLoading, error } = useMessageThread(threadId);
+  const { mutate: markRead } = useMarkMessageThreadRead();
+  const sendMutation = useSendMessage(threadId, () => {
+    setBody("");
+    setFiles([]);
+  });
+
+  const unreadCount = data?.thread.unread_count ?? 0;
+  const messageCount = data?.messages.length ?? 0;
+
+  useEffect(() => {
+    if (unreadCount > 0) {
+      markRead(threadId);
+    }
+  }, [threadId, unreadCount, markRead]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [threadId, messageCount]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[300px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { thread, messages } = data;
+  const counterpart = getCounterpart(thread, isParent);
+  const attachmentError = getAttachmentError(files);
+  const isEmpty = !body.trim() && files.length === 0;
+
+  const handleSend = () => {
+    sendMutation.mutate({ body: body.trim(), attachments: files });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b px-4 py-3">
+        <p className="font-semibold">{thread.subject}</p>
+        <p className="text-muted-foreground text-sm">
+          {counterpart.name} • {counterpart.detail}
+        </p>
+        <p className="text-muted-foreground text-xs">
+          About {thread.student.full_name} ({thread.class_info.class_master_name} -{" "}
+          {thread.class_info.name})
+        </p>
+      </div>
+
+      <div className="max-h-[480px] min-h-[240px] flex-1 space-y-4 overflow-y-auto p-4">
+        {messages.map((message) => (
+          <div
+            key={message.public_id}
+            className={cn("flex flex-col", message.is_own ? "items-end" : "items-start")}
+          >
+            <div
+              className={cn(
+                "max-w-[80%] space-y-2 rounded-lg px-3 py-2 text-sm",
+                message.is_own ? "bg-indigo-50 text-gray-900" : "bg-gray-100 text-gray-900",
+                !message.is_delivered && "opacity-70"
+              )}
+            >
+              {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+              <AttachmentList attachments={message.attachments} />
+            </div>
+            <div className="text-muted-foreground mt-1 flex items-center gap-2 text-xs">
+              {!message.is_own && <span>{message.sender.full_name}</span>}
+              <span>{formatMessageTime(message.sent_at)}</span>
+              {message.is_own && <MessageStatus message={message} />}
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-3 border-t p-4">
+        <Textarea
+          rows={3}
+          maxLength={MAX_MESSAGE_LENGTH}
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Write a reply"
+          disabled={sendMutation.isPending}
+        />
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <AttachmentPicker files={files} onChange={setFiles} disabled={sendMutation.isPending} />
+          <Button
+            onClick={handleSend}
+            disabled={sendMutation.isPending || isEmpty || !!attachmentError}
+          >
+            {sendMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
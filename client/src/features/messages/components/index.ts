@@ -0,0 +1,6 @@
+/**
+ * Messages Feature - Component Exports
+ */
+
+export { MessageInbox } from "./message-inbox";
+export { UnreadMessagesButton } from "./unread-messages-button";
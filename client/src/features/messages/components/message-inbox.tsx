@@ -0,0 +1,110 @@
+/**
+ * Message Inbox
+ * Conversations between parents and their children's teachers: the list on
+ * the left and the open conversation on the right. Parents start new
+ * conversations; teachers reply to them.
+ */
+
+import { AlertCircle, Loader2, MessageSquare, MoonStar, PenSquare } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useUser } from "@/core/contexts";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { describeQuietHours } from "../helpers/message-helpers";
+import { useMessageThreads, useQuietHours } from "../hooks/use-messages";
+import { Conversation } from "./conversation";
+import { NewMessageDialog } from "./new-message-dialog";
+import { ThreadList } from "./thread-list";
+
+interface MessageInboxProps {
+  threadId?: string;
+}
+
+export function MessageInbox({ threadId }: MessageInboxProps) {
+  const [, setLocation] = useLocation();
+  const { user } = useUser();
+  const [isComposing, setIsComposing] = useState(false);
+  const { data: threads = [], isLoading, error } = useMessageThreads();
+  const { data: quietHours } = useQuietHours();
+
+  const isParent = user?.role === "parent";
+  const quietHoursNote = describeQuietHours(quietHours);
+  const openThread = (publicId: string) => setLocation(`/messages/${publicId}`);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-gray-400" />
+          <p className="text-muted-foreground">Loading messages...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Messages</h2>
+          <p className="text-gray-600">
+            {isParent
+              ? "Conversations with your child's teachers"
+              : "Conversations with the parents of your students"}
+          </p>
+        </div>
+        {isParent && (
+          <Button onClick={() => setIsComposing(true)}>
+            <PenSquare className="mr-2 h-4 w-4" />
+            New Message
+          </Button>
+        )}
+      </div>
+
+      {quietHoursNote && (
+        <Alert>
+          <MoonStar className="h-4 w-4" />
+          <AlertDescription>{quietHoursNote}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="overflow-hidden p-0">
+        <CardContent className="grid grid-cols-1 p-0 lg:grid-cols-3">
+          <div className="max-h-[640px] overflow-y-auto border-b lg:border-r lg:border-b-0">
+            <ThreadList
+              threads={threads}
+              selectedId={threadId}
+              isParent={isParent}
+              onSelect={openThread}
+            />
+          </div>
+          <div className="lg:col-span-2">
+            {threadId ? (
+              <Conversation key={threadId} threadId={threadId} isParent={isParent} />
+            ) : (
+              <div className="text-muted-foreground flex min-h-[300px] flex-col items-center justify-center text-sm">
+                <MessageSquare className="mb-2 h-8 w-8 text-gray-300" />
+                Select a conversation to read it
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isParent && (
+        <NewMessageDialog open={isComposing} onOpenChange={setIsComposing} onCreated={openThread} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * New Message Dialog
+ * Start a conversation with the class teacher or a subject teacher of one of
+ * the parent's children.
+ */
+
+import { Loader2, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { AttachmentPicker } from "@/common/components/attachments";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { getAttachmentError } from "@/lib/utils/file-utils";
+import { useMessageContacts, useStartMessageThread } from "../hooks/use-messages";
+
+const MAX_SUBJECT_LENGTH = 120;
+const MAX_MESSAGE_LENGTH = 2000;
+
+interface NewMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (threadId: string) => void;
+}
+
+export function NewMessageDialog({ open, onOpenChange, onCreated }: NewMessageDialogProps) {
+  const [selectedChildId] = useSelectedChildId();
+  const [studentId, setStudentId] = useState("");
+  const [teacherId, setTeacherId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const { data: contacts = [], isLoading } = useMessageContacts(open);
+  const startMutation = useStartMessageThread((threadId) => {
+    onOpenChange(false);
+    onCreated(threadId);
+  });
+
+  useEffect(() => {
+    if (open) {
+      setStudentId(selectedChildId);
+      setTeacherId("");
+      setSubject("");
+      setBody("");
+      setFiles([]);
+    }
+  }, [open, selectedChildId]);
+
+  const child =
+    contacts.find((item) => item.student.public_id === studentId) ?? contacts[0] ?? null;
+  const attachmentError = getAttachmentError(files);
+  const canSend = !!child && !!teacherId && !!subject.trim() && (!!body.trim() || files.length > 0);
+
+  const handleSend = () => {
+    if (!child) {
+      return;
+    }
+    startMutation.mutate({
+      student_id: child.student.public_id,
+      teacher_id: teacherId,
+      subject: subject.trim(),
+      body: body.trim(),
+      attachments: files,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-amber-600" />
+            New Message
+          </DialogTitle>
+          <DialogDescription>Write to your child&apos;s class or subject teacher</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {contacts.length > 1 && (
+              <div className="space-y-2">
+                <Label>Child</Label>
+                <Select
+                  value={child?.student.public_id ?? ""}
+                  onValueChange={(value) => {
+                    setStudentId(value);
+                    setTeacherId("");
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select child" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contacts.map((item) => (
+                      <SelectItem key={item.student.public_id} value={item.student.public_id}>
+                        {item.student.full_name} ({item.class_info.class_master_name} -{" "}
+                        {item.class_info.name})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Teacher</Label>
+              <Select value={teacherId} onValueChange={setTeacherId} disabled={!child}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select teacher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {child?.teachers.map((teacher) => (
+                    <SelectItem key={teacher.public_id} value={teacher.public_id}>
+                      {teacher.full_name} – {teacher.roles.join(", ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="message-subject">Subject</Label>
+              <Input
+                id="message-subject"
+                maxLength={MAX_SUBJECT_LENGTH}
+                value={subject}
+                onChange={(event) => setSubject(event.target.value)}
+                placeholder="e.g. Absence next week"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="message-body">Message</Label>
+              <Textarea
+                id="message-body"
+                rows={5}
+                maxLength={MAX_MESSAGE_LENGTH}
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Attachments</Label>
+              <AttachmentPicker
+                files={files}
+                onChange={setFiles}
+                disabled={startMutation.isPending}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={startMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={startMutation.isPending || !canSend || !!attachmentError}
+          >
+            {startMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Send"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Thread List
+ * The signed-in user's conversations, latest activity first, with who they
+ * are with, the last message and how many are unread.
+ */
+
+import { MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { MessageThread } from "@/lib/api/message-api";
+import { cn } from "@/lib/utils";
+import { formatMessageTime, getCounterpart } from "../helpers/message-helpers";
+
+interface ThreadListProps {
+  threads: MessageThread[];
+  selectedId?: string;
+  isParent: boolean;
+  onSelect: (publicId: string) => void;
+}
+
+export function ThreadList({ threads, selectedId, isParent, onSelect }: ThreadListProps) {
+  if (threads.length === 0) {
+    return (
+      <div className="text-muted-foreground py-12 text-center text-sm">
+        <MessageSquare className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+        {isParent
+          ? "No conversations yet. Start one with your child's teacher."
+          : "No conversations yet. Parents' messages will appear here."}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {threads.map((thread) => {
+        const counterpart = getCounterpart(thread, isParent);
+        const isUnread = thread.unread_count > 0;
+
+        return (
+          <li key={thread.public_id}>
+            <button
+              type="button"
+              onClick={() => onSelect(thread.public_id)}
+              className={cn(
+                "w-full space-y-1 px-4 py-3 text-left transition-colors hover:bg-gray-50",
+                thread.public_id === selectedId && "bg-gray-100 hover:bg-gray-100"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className={cn("truncate text-sm", isUnread ? "font-bold" : "font-medium")}>
+                  {counterpart.name}
+                </p>
+                <span className="text-muted-foreground shrink-0 text-xs">
+                  {formatMessageTime(thread.updated_at)}
+                </span>
+              </div>
+              <p className="text-muted-foreground truncate text-xs">{counterpart.detail}</p>
+              <div className="flex items-center justify-between gap-2">
+                <p className={cn("truncate text-sm", isUnread ? "text-gray-900" : "text-gray-600")}>
+                  <span className="font-medium">{thread.subject}</span>
+                  {thread.last_message && (
+                    <>
+                      {" – "}
+                      {thread.last_message.is_own && "You: "}
+                      {thread.last_message.body || "Sent an attachment"}
+                    </>
+                  )}
+                </p>
+                {isUnread && (
+                  <Badge className="shrink-0 bg-red-500 text-white hover:bg-red-500">
+                    {thread.unread_count}
+                  </Badge>
+                )}
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
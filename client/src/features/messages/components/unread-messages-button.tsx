@@ -0,0 +1,40 @@
+/**
+ * Unread Messages Button
+ * Envelope in the dashboard header with the number of unread messages,
+ * opening the inbox. Hidden for users who can't use messaging.
+ */
+
+import { Mail } from "lucide-react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { PERMISSIONS, usePermissions } from "@/core/permissions";
+import { useUnreadMessageCount } from "../hooks/use-messages";
+
+export function UnreadMessagesButton() {
+  const [, setLocation] = useLocation();
+  const { can } = usePermissions();
+  const canMessage = can(PERMISSIONS.MESSAGES);
+  const { data: unreadCount = 0 } = useUnreadMessageCount(canMessage);
+
+  if (!canMessage) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="relative rounded-full text-white hover:bg-white/20"
+      onClick={() => setLocation("/messages")}
+      title={unreadCount > 0 ? `${unreadCount} unread messages` : "Messages"}
+      data-testid="button-messages"
+    >
+      <Mail className="h-5 w-5" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs font-semibold text-white">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Message Helpers
+ * Labels shared by the inbox, the conversation view and the composer.
+ */
+
+import { format, isToday, parseISO } from "date-fns";
+import type { MessageThread, QuietHours } from "@/lib/api/message-api";
+
+/**
+ * Short timestamp for a message: the time today, the date otherwise
+ */
+export function formatMessageTime(value: string): string {
+  const date = parseISO(value);
+  return isToday(date) ? format(date, "HH:mm") : format(date, "MMM dd, HH:mm");
+}
+
+/**
+ * Who the signed-in user is talking to in a conversation, and in what role
+ */
+export function getCounterpart(thread: MessageThread, isParent: boolean) {
+  return isParent
+    ? { name: thread.teacher.full_name, detail: thread.teacher.roles.join(", ") }
+    : { name: thread.parent.full_name, detail: `Parent of ${thread.student.full_name}` };
+}
+
+/**
+ * The quiet hours rule as a sentence, or null when they are switched off
+ */
+export function describeQuietHours(quietHours: QuietHours | undefined): string | null {
+  if (!quietHours?.enabled) {
+    return null;
+  }
+  const range = `${quietHours.start_time} – ${quietHours.end_time}`;
+  return quietHours.is_active && quietHours.resumes_at
+    ? `Quiet hours (${range}) are on. Messages you send now are delivered at ${format(parseISO(quietHours.resumes_at), "HH:mm")}.`
+    : `Messages sent during quiet hours (${range}) are delivered when they end.`;
+}
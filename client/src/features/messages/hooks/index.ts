@@ -0,0 +1,5 @@
+/**
+ * Messages Feature - Hooks Export
+ */
+
+export * from "./use-messages";
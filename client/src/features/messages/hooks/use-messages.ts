@@ -0,0 +1,144 @@
+/**
+ * Message Hooks
+ * React Query hooks for parent–teacher conversations, the unread count shown
+ * in the header and the organization's messaging quiet hours
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  fetchMessageContacts,
+  fetchMessageThread,
+  fetchMessageThreads,
+  fetchQuietHours,
+  fetchUnreadMessageCount,
+  markMessageThreadRead,
+  sendMessage,
+  startMessageThread,
+  type MessagePayload,
+  type StartThreadPayload,
+} from "@/lib/api/message-api";
+import { QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+// Conversations and the unread count refresh on this interval to pick up new messages
+const MESSAGE_POLL_INTERVAL = 30000;
+
+function useInvalidateMessages() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MESSAGE_THREADS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MESSAGE_THREAD_DETAILS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.UNREAD_MESSAGES] });
+  };
+}
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+export function useMessageThreads() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MESSAGE_THREADS],
+    queryFn: fetchMessageThreads,
+    refetchInterval: MESSAGE_POLL_INTERVAL,
+    select: (response) => response.data,
+  });
+}
+
+export function useMessageThread(publicId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MESSAGE_THREAD_DETAILS, publicId],
+    queryFn: () => fetchMessageThread(publicId),
+    enabled: !!publicId,
+    refetchInterval: MESSAGE_POLL_INTERVAL,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Start a conversation with one of a child's teachers
+ */
+export function useStartMessageThread(onSuccess?: (threadId: string) => void) {
+  const invalidate = useInvalidateMessages();
+
+  return useMutation({
+    mutationFn: (payload: StartThreadPayload) => startMessageThread(payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Message sent");
+      onSuccess?.(response.data.thread.public_id);
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+export function useSendMessage(publicId: string, onSuccess?: () => void) {
+  const invalidate = useInvalidateMessages();
+
+  return useMutation({
+    mutationFn: (payload: MessagePayload) => sendMessage(publicId, payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Message sent");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Mark a conversation read. Silent: it runs whenever one is opened.
+ */
+export function useMarkMessageThreadRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicId: string) => markMessageThreadRead(publicId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MESSAGE_THREADS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.UNREAD_MESSAGES] });
+    },
+  });
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Teachers the signed-in parent can write to, per child
+ */
+export function useMessageContacts(enabled = true) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MESSAGE_CONTACTS],
+    queryFn: fetchMessageContacts,
+    enabled,
+    staleTime: STALE_TIMES.STATIC,
+    select: (response) => response.data,
+  });
+}
+
+export function useUnreadMessageCount(enabled = true) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.UNREAD_MESSAGES],
+    queryFn: fetchUnreadMessageCount,
+    enabled,
+    refetchInterval: MESSAGE_POLL_INTERVAL,
+    select: (response) => response.data.unread_count,
+  });
+}
+
+export function useQuietHours() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.QUIET_HOURS],
+    queryFn: fetchQuietHours,
+    staleTime: STALE_TIMES.SHORT,
+    select: (response) => response.data,
+  });
+}
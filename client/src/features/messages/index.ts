@@ -0,0 +1,6 @@
+/**
+ * Messages Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
@@ -0,0 +1,23 @@
+/**
+ * Messages Page
+ * Parent–teacher conversations for parents and teachers
+ * @route /messages - Conversation list
+ * @route /messages/:id - Conversation list with one conversation open
+ */
+
+import { useParams } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { MessageInbox } from "../components/message-inbox";
+
+export function MessagesPage() {
+  const params = useParams();
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <MessageInbox threadId={params.id} />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Notifications Feature - Component Exports
+ */
+
+export { NotificationBell } from "./notification-bell";
+export { NotificationStreamManager } from "./notification-stream-manager";
@@ -0,0 +1,150 @@
+/**
+ * Notification Bell
+ * Bell in the dashboard header with the number of unread notifications,
+ * opening the latest ones. The live stream that keeps it current is opened
+ * once at the app root by NotificationStreamManager.
+ */
+
+import { formatDistanceToNow } from "date-fns";
+import {
+  Bell,
+  CalendarCheck,
+  CalendarX,
+  ClipboardList,
+  Megaphone,
+  UserRoundCheck,
+  Wallet,
+} from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { NotificationType } from "@/constants/notifications";
+import type { NotificationTypeValue } from "@/constants/notifications";
+import type { AppNotification } from "@/lib/api/notification-api";
+import { cn } from "@/lib/utils";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+} from "../hooks/use-notifications";
+
+const NOTIFICATION_ICONS: Record<NotificationTypeValue, typeof Bell> = {
+  [NotificationType.LEAVE_APPROVED]: CalendarCheck,
+  [NotificationType.LEAVE_REJECTED]: CalendarX,
+  [NotificationType.LEAVE_REVIEW_REQUESTED]: ClipboardList,
+  [NotificationType.LEAVE_BALANCE_CHANGED]: Wallet,
+  [NotificationType.ANNOUNCEMENT]: Megaphone,
+  [NotificationType.SUBSTITUTION_ASSIGNED]: UserRoundCheck,
+};
+
+const NOTIFICATION_ICON_COLORS: Record<NotificationTypeValue, string> = {
+  [NotificationType.LEAVE_APPROVED]: "bg-green-100 text-green-700",
+  [NotificationType.LEAVE_REJECTED]: "bg-red-100 text-red-700",
+  [NotificationType.LEAVE_REVIEW_REQUESTED]: "bg-amber-100 text-amber-700",
+  [NotificationType.LEAVE_BALANCE_CHANGED]: "bg-purple-100 text-purple-700",
+  [NotificationType.ANNOUNCEMENT]: "bg-blue-100 text-blue-700",
+  [NotificationType.SUBSTITUTION_ASSIGNED]: "bg-indigo-100 text-indigo-700",
+};
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const { data: feed } = useNotifications();
+  const markReadMutation = useMarkNotificationRead();
+  const markAllReadMutation = useMarkAllNotificationsRead();
+
+  const notifications = feed?.notifications ?? [];
+  const unreadCount = feed?.unread_count ?? 0;
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markReadMutation.mutate(notification.public_id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative rounded-full text-white hover:bg-white/20"
+          title={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+          data-testid="button-notifications"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs font-semibold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="text-sm font-semibold text-gray-900">Notifications</p>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">You&apos;re all caught up</p>
+          )}
+          {notifications.map((notification) => {
+            const Icon = NOTIFICATION_ICONS[notification.type];
+            const isUnread = !notification.read_at;
+            return (
+              <button
+                key={notification.public_id}
+                type="button"
+                onClick={() => handleOpenNotification(notification)}
+                className={cn(
+                  "flex w-full items-start gap-3 border-b px-4 py-3 text-left last:border-0 hover:bg-gray-50",
+                  isUnread && "bg-blue-50/50"
+                )}
+              >
+                <span
+                  className={cn(
+                    "flex h-8 w-8 shrink-0 items-center justify-center rounded-full",
+                    NOTIFICATION_ICON_COLORS[notification.type]
+                  )}
+                >
+                  <Icon className="h-4 w-4" />
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p
+                    className={cn(
+                      "text-sm text-gray-900",
+                      isUnread ? "font-semibold" : "font-medium"
+                    )}
+                  >
+                    {notification.title}
+                  </p>
+                  <p className="mt-0.5 line-clamp-2 text-xs text-gray-500">{notification.body}</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {isUnread && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-500" />}
+              </button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Notification Stream Manager
+ * Keeps the live notification stream open while signed in, so new
+ * notifications arrive as toasts on every page.
+ * Rendered once at the app root; renders nothing.
+ */
+
+import { useNotificationStream } from "../hooks/use-notifications";
+
+export function NotificationStreamManager() {
+  useNotificationStream();
+  return null;
+}
@@ -0,0 +1,5 @@
+/**
+ * Notifications Feature - Hooks Export
+ */
+
+export * from "./use-notifications";
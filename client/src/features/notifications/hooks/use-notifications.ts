@@ -0,0 +1,202 @@
+/**
+ * Notification Hooks
+ * React Query hooks for the header notification list, plus the live stream
+ * that pushes new notifications and refreshes the data they affect
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { NOTIFICATION_STREAM_EVENT, NotificationType } from "@/constants/notifications";
+import type { NotificationTypeValue } from "@/constants/notifications";
+import {
+  createNotificationStreamTicket,
+  fetchNotifications,
+  getNotificationStreamUrl,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/lib/api/notification-api";
+import { notificationSchema } from "@/lib/api/schemas/notification-schema";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { getAccessToken, subscribeToTokens } from "@/lib/token-store";
+
+/** Wait before reopening a stream the server closed, doubling up to the max */
+const STREAM_RETRY_DELAY = 5000;
+const STREAM_MAX_RETRY_DELAY = 60000;
+
+const LEAVE_REQUEST_KEYS = [
+  "leave-requests",
+  "leave-request",
+  "user-leave-requests",
+  QUERY_KEYS.CHILDREN_LEAVE_REQUESTS,
+  QUERY_KEYS.TEAM_LEAVE_CALENDAR,
+];
+const LEAVE_BALANCE_KEYS = [
+  "leave-balances",
+  "leave-balances-summary",
+  "user-leave-balances",
+  "user-leave-balances-summary",
+  QUERY_KEYS.LEAVE_BALANCE_LEDGER,
+];
+
+/**
+ * Cached queries that go stale when a notification of each type arrives
+ */
+const AFFECTED_QUERY_KEYS: Record<NotificationTypeValue, string[]> = {
+  [NotificationType.LEAVE_APPROVED]: [
+    ...LEAVE_REQUEST_KEYS,
+    ...LEAVE_BALANCE_KEYS,
+    "leave-dashboard",
+  ],
+  [NotificationType.LEAVE_REJECTED]: [
+    ...LEAVE_REQUEST_KEYS,
+    ...LEAVE_BALANCE_KEYS,
+    "leave-dashboard",
+  ],
+  [NotificationType.LEAVE_REVIEW_REQUESTED]: [
+    "leave-request-reviews",
+    "leave-dashboard",
+    QUERY_KEYS.TEAM_LEAVE_CALENDAR,
+  ],
+  [NotificationType.LEAVE_BALANCE_CHANGED]: [...LEAVE_BALANCE_KEYS, "leave-dashboard"],
+  [NotificationType.ANNOUNCEMENT]: [QUERY_KEYS.RECEIVED_ANNOUNCEMENTS],
+  [NotificationType.SUBSTITUTION_ASSIGNED]: [QUERY_KEYS.MY_SUBSTITUTIONS, QUERY_KEYS.MY_SCHEDULE],
+};
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.NOTIFICATIONS],
+    queryFn: fetchNotifications,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Mark a notification read. Silent: it runs whenever one is opened.
+ */
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicId: string) => markNotificationRead(publicId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.NOTIFICATIONS] });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.NOTIFICATIONS] });
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+// ============================================================================
+// Live Stream
+// ============================================================================
+
+/**
+ * Keep the notification stream open while signed in. Each notification is
+ * shown as a toast and refreshes the notification list and the cached data
+ * it affects. Every connection is opened with a fresh stream ticket, so it
+ * reopens whenever the tokens change or the server closes it.
+ * Mounted once at the app root so page navigation doesn't reconnect it.
+ */
+export function useNotificationStream() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: number | undefined;
+    let retryDelay = STREAM_RETRY_DELAY;
+    // Bumped on every (re)connect and on unmount so stale ticket requests are dropped
+    let attempt = 0;
+
+    const handleNotification = (event: MessageEvent<string>) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      const parsed = notificationSchema.safeParse(data);
+      if (!parsed.success) {
+        return;
+      }
+
+      const notification = parsed.data;
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.NOTIFICATIONS] });
+      AFFECTED_QUERY_KEYS[notification.type].forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      toast.info(notification.title, { description: notification.body });
+    };
+
+    const scheduleRetry = () => {
+      retryTimer = window.setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, STREAM_MAX_RETRY_DELAY);
+    };
+
+    const connect = async () => {
+      source?.close();
+      window.clearTimeout(retryTimer);
+      source = null;
+      const current = ++attempt;
+
+      if (!getAccessToken()) {
+        return;
+      }
+
+      let ticket: string;
+      try {
+        ticket = (await createNotificationStreamTicket()).data.ticket;
+      } catch {
+        if (current === attempt) {
+          scheduleRetry();
+        }
+        return;
+      }
+      if (current !== attempt) {
+        return;
+      }
+
+      const stream = new EventSource(getNotificationStreamUrl(ticket));
+      stream.addEventListener(NOTIFICATION_STREAM_EVENT, handleNotification);
+      stream.addEventListener("open", () => {
+        retryDelay = STREAM_RETRY_DELAY;
+        // Catch up on anything that happened while disconnected
+        queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.NOTIFICATIONS] });
+      });
+      stream.addEventListener("error", () => {
+        // EventSource retries dropped connections itself; a closed one was refused
+        if (stream.readyState === stream.CLOSED) {
+          scheduleRetry();
+        }
+      });
+      source = stream;
+    };
+
+    connect();
+    const unsubscribe = subscribeToTokens(connect);
+
+    return () => {
+      attempt += 1;
+      unsubscribe();
+      window.clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [queryClient]);
+}
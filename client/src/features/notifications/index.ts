@@ -0,0 +1,6 @@
+/**
+ * Notifications Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
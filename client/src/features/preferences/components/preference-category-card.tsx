@@ -78,6 +78,7 @@ export function PreferenceCategoryCard({
       authentication: "🔐",
       email: "📧",
       student_management: "👨‍🎓",
+      messaging: "💬",
       general: "⚙️",
     };
     return icons[category] || "⚙️";
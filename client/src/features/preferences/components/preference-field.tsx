@@ -101,10 +101,11 @@ export function PreferenceField({
 
   switch (preference.field_type) {
     case "string": {
-      // Check if this is the time field for student absence notification
+      // Check if this is the time field for student absence notification or quiet hours
       const isTimeField =
-        preference.display_name.includes("Preferred Time") &&
-        preference.display_name.includes("Student Absence");
+        (preference.display_name.includes("Preferred Time") &&
+          preference.display_name.includes("Student Absence")) ||
+        preference.key.startsWith("message_quiet_hours_");
 
       const handleStringChange = (newValue: string) => {
         if (isTimeField) {
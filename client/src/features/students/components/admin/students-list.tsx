@@ -19,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
 import { TablePagination } from "@/components/ui/table-pagination";
+import { Can, PERMISSIONS, usePermissions } from "@/core/permissions";
 import { useDeletedView } from "@/hooks/use-deleted-view";
 import { fetchClasses, fetchCoreClasses } from "@/lib/api/class-api";
 import { getStudents, reactivateStudent, type Student } from "@/lib/api/student-api";
@@ -45,6 +46,8 @@ export function StudentsList({
   const [formFilters, setFormFilters] = useState<Record<string, string>>({});
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.STUDENTS_MANAGE);
 
   const { showDeleted, toggleDeletedView } = useDeletedView({
     resourceName: "Student",
@@ -208,11 +211,11 @@ export function StudentsList({
     ? getStudentColumns({
         onReactivate: handleReactivate,
       })
-    : getStudentColumns({
-        onView: handleView,
-        onEdit: handleEdit,
-        onDelete: handleDelete,
-      });
+    : getStudentColumns(
+        canManage
+          ? { onView: handleView, onEdit: handleEdit, onDelete: handleDelete }
+          : { onView: handleView }
+      );
 
   return (
     <>
@@ -226,17 +229,19 @@ export function StudentsList({
         </div>
 
         <div className="flex flex-wrap gap-3">
-          <DeletedViewToggle showDeleted={showDeleted} onToggle={toggleDeletedView} />
-
-          {!showDeleted && (
-            <>
-              <BulkUploadStudents />
-              <Button onClick={handleCreateClick}>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Student
-              </Button>
-            </>
-          )}
+          <Can permission={PERMISSIONS.STUDENTS_MANAGE}>
+            <DeletedViewToggle showDeleted={showDeleted} onToggle={toggleDeletedView} />
+
+            {!showDeleted && (
+              <>
+                <BulkUploadStudents />
+                <Button onClick={handleCreateClick}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Student
+                </Button>
+              </>
+            )}
+          </Can>
         </div>
       </div>
 
@@ -0,0 +1,175 @@
+/**
+ * Child Profile (Parent)
+ * School record of each child linked to the signed-in parent: admission and
+ * class details, guardian and emergency contacts, and medical notes
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, GraduationCap, HeartPulse, Loader2, MapPin, Users } from "lucide-react";
+import { ChildSwitcher } from "@/common/components";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getApiErrorMessage } from "@/lib/error-utils";
+import { useChildren } from "../../hooks/use-children";
+import type { ReactNode } from "react";
+
+function formatDate(value: string | undefined): string {
+  return value ? format(parseISO(value), "MMM dd, yyyy") : "";
+}
+
+function DetailRow({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 border-b border-gray-100 py-2 text-sm last:border-0">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right font-medium">{value || "-"}</span>
+    </div>
+  );
+}
+
+export function ChildProfile() {
+  const [selectedId, setSelectedId] = useSelectedChildId();
+  const { data: children = [], isLoading, error } = useChildren();
+
+  const selected = children.find((child) => child.public_id === selectedId) ?? children[0];
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-amber-600" />
+          <p className="text-muted-foreground">Loading profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Child Profile</h2>
+        <p className="text-gray-600">
+          Your child&apos;s school record. Contact the school office to correct anything.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{getApiErrorMessage(error)}</AlertDescription>
+        </Alert>
+      )}
+
+      {!error && !selected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selected && (
+        <>
+          <ChildSwitcher
+            students={children.map((child) => ({
+              public_id: child.public_id,
+              full_name: child.full_name,
+              class_label: `${child.class_info.class_master.name} - ${child.class_info.name}`,
+              roll_number: child.roll_number,
+            }))}
+            value={selected.public_id}
+            onValueChange={setSelectedId}
+          />
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GraduationCap className="h-5 w-5 text-amber-600" />
+                  School
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DetailRow
+                  label="Class"
+                  value={`${selected.class_info.class_master.name} - ${selected.class_info.name}`}
+                />
+                <DetailRow label="Roll Number" value={selected.roll_number} />
+                <DetailRow label="Admission Number" value={selected.admission_number} />
+                <DetailRow label="Admitted On" value={formatDate(selected.admission_date)} />
+                <DetailRow
+                  label="Class Teacher"
+                  value={
+                    selected.class_info.class_teacher && (
+                      <>
+                        {selected.class_info.class_teacher.full_name}
+                        <span className="text-muted-foreground block text-xs font-normal">
+                          {selected.class_info.class_teacher.email}
+                        </span>
+                      </>
+                    )
+                  }
+                />
+                <DetailRow label="Previous School" value={selected.previous_school_name} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-amber-600" />
+                  Personal & Guardian
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DetailRow
+                  label="Date of Birth"
+                  value={formatDate(selected.user_info.date_of_birth)}
+                />
+                <DetailRow label="Gender" value={selected.user_info.gender} />
+                <DetailRow label="Guardian" value={selected.guardian_name} />
+                <DetailRow label="Relationship" value={selected.guardian_relationship} />
+                <DetailRow label="Guardian Phone" value={selected.guardian_phone} />
+                <DetailRow label="Guardian Email" value={selected.guardian_email} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <HeartPulse className="h-5 w-5 text-amber-600" />
+                  Health & Emergency
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DetailRow label="Blood Group" value={selected.user_info.blood_group} />
+                <DetailRow label="Medical Conditions" value={selected.medical_conditions} />
+                <DetailRow label="Emergency Contact" value={selected.emergency_contact_name} />
+                <DetailRow label="Emergency Phone" value={selected.emergency_contact_phone} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5 text-amber-600" />
+                  Address
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm">
+                  {selected.user_info.address?.full_address ||
+                    selected.user_info.full_address ||
+                    "No address on record"}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * Student Components - Parent
+ */
+
+export { ChildProfile } from "./child-profile";
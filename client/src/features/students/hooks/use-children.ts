@@ -0,0 +1,18 @@
+/**
+ * Children Hooks
+ * React Query hooks for the students linked to the signed-in parent
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { getChildren } from "@/lib/api/student-api";
+import { QUERY_KEYS } from "@/lib/constants";
+
+/**
+ * Full records of the parent's children, as the school holds them
+ */
+export function useChildren() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN],
+    queryFn: getChildren,
+  });
+}
@@ -30,6 +30,7 @@ export {
   useCreateStudent,
   useUpdateStudent,
 } from "./hooks/use-student-form";
+export { useChildren } from "./hooks/use-children";
 
 // Constants
 export {
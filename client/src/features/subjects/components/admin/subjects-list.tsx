@@ -31,6 +31,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
 import { TablePagination } from "@/components/ui/table-pagination";
+import { Can, PERMISSIONS, usePermissions } from "@/core/permissions";
 import { useDeleteMutation } from "@/hooks/use-delete-mutation";
 import { useDeletedView } from "@/hooks/use-deleted-view";
 import { api, API_ENDPOINTS } from "@/lib/api";
@@ -58,6 +59,8 @@ export function SubjectsList({ onCreateNew, onEdit: onEditProp }: SubjectsListPr
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.SUBJECTS_MANAGE);
 
   const { showDeleted, toggleDeletedView, handleReactivate } = useDeletedView({
     resourceName: "Subject",
@@ -216,10 +219,7 @@ export function SubjectsList({ onCreateNew, onEdit: onEditProp }: SubjectsListPr
     ? getSubjectColumns({
         onReactivate: handleReactivate,
       })
-    : getSubjectColumns({
-        onEdit: handleEdit,
-        onDelete: handleDelete,
-      });
+    : getSubjectColumns(canManage ? { onEdit: handleEdit, onDelete: handleDelete } : {});
 
   return (
     <div className="space-y-6">
@@ -233,17 +233,19 @@ export function SubjectsList({ onCreateNew, onEdit: onEditProp }: SubjectsListPr
         </div>
 
         <div className="flex flex-wrap gap-3">
-          <DeletedViewToggle showDeleted={showDeleted} onToggle={toggleDeletedView} />
+          <Can permission={PERMISSIONS.SUBJECTS_MANAGE}>
+            <DeletedViewToggle showDeleted={showDeleted} onToggle={toggleDeletedView} />
 
-          {!showDeleted && (
-            <>
-              <BulkUploadSubjects />
-              <Button onClick={handleCreateClick}>
-                <Plus className="mr-2 h-4 w-4" />
-                Assign Subject
-              </Button>
-            </>
-          )}
+            {!showDeleted && (
+              <>
+                <BulkUploadSubjects />
+                <Button onClick={handleCreateClick}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Assign Subject
+                </Button>
+              </>
+            )}
+          </Can>
         </div>
       </div>
 
@@ -14,6 +14,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
 import { TablePagination } from "@/components/ui/table-pagination";
+import { Can, PERMISSIONS, usePermissions } from "@/core/permissions";
 import { useDeletedView } from "@/hooks/use-deleted-view";
 import { fetchTeachers, reactivateTeacher, type Teacher } from "@/lib/api/teacher-api";
 import { BulkUploadTeachers } from "./bulk-upload-teachers";
@@ -37,6 +38,8 @@ export function TeachersList({
   const [filters, setFilters] = useState<Record<string, string>>({});
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const { can } = usePermissions();
+  const canManage = can(PERMISSIONS.TEACHERS_MANAGE);
 
   const {
     showDeleted,
@@ -78,7 +81,7 @@ export function TeachersList({
         onDelete: onReactivate || (() => {}),
         isDeletedView: true,
       })
-    : getTeacherColumns({ onView, onEdit, onDelete });
+    : getTeacherColumns(canManage ? { onView, onEdit, onDelete } : { onView });
 
   const filterFields: FilterField[] = [
     {
@@ -132,20 +135,22 @@ export function TeachersList({
           <p className="text-base text-gray-600">{getListDescription("Teachers", showDeleted)}</p>
         </div>
         <div className="flex flex-wrap gap-3">
-          <DeletedViewToggle
-            showDeleted={showDeleted}
-            onToggle={toggleDeletedView}
-            resourceName="teachers"
-          />
-          {!showDeleted && (
-            <>
-              <BulkUploadTeachers />
-              <Button onClick={onCreateNew} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Teacher
-              </Button>
-            </>
-          )}
+          <Can permission={PERMISSIONS.TEACHERS_MANAGE}>
+            <DeletedViewToggle
+              showDeleted={showDeleted}
+              onToggle={toggleDeletedView}
+              resourceName="teachers"
+            />
+            {!showDeleted && (
+              <>
+                <BulkUploadTeachers />
+                <Button onClick={onCreateNew} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Teacher
+                </Button>
+              </>
+            )}
+          </Can>
         </div>
       </div>
 
@@ -170,7 +175,10 @@ export function TeachersList({
             isLoading={isLoading}
             emptyMessage={getEmptyMessage("Teachers", Object.keys(filters).length > 0, showDeleted)}
             emptyAction={
-              !showDeleted && Object.keys(filters).length === 0 && teachers.length === 0
+              canManage &&
+              !showDeleted &&
+              Object.keys(filters).length === 0 &&
+              teachers.length === 0
                 ? {
                     label: "Add First Teacher",
                     onClick: onCreateNew,
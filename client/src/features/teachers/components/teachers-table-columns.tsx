@@ -7,8 +7,8 @@ import type { Teacher } from "@/lib/api/teacher-api";
 
 interface GetTeacherColumnsOptions {
   onView: (teacher: Teacher) => void;
-  onEdit: (teacher: Teacher) => void;
-  onDelete: (teacher: Teacher) => void;
+  onEdit?: (teacher: Teacher) => void;
+  onDelete?: (teacher: Teacher) => void;
   isDeletedView?: boolean;
 }
 
@@ -105,7 +105,7 @@ export function getTeacherColumns({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => onDelete(teacher)}
+                  onClick={() => onDelete?.(teacher)}
                   className="text-green-600 hover:text-green-700"
                   title="Restore Teacher"
                 >
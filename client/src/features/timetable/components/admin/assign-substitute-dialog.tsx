@@ -0,0 +1,190 @@
+/**
+ * Assign Substitute Dialog
+ * Pick a free teacher to cover a period. Teachers of the same subject are
+ * listed first, then the ones with the lightest load that day.
+ */
+
+import { format, parseISO } from "date-fns";
+import { AlertCircle, Loader2, UserCheck } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import type { Substitution } from "@/lib/api/substitution-api";
+import { cn } from "@/lib/utils";
+import { formatPeriodTime, getClassLabel } from "../../helpers/timetable-helpers";
+import { useSubstituteSuggestions } from "../../hooks/use-substitutions";
+
+interface AssignSubstituteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  substitution: Substitution | null;
+  onSubmit: (substituteTeacherId: string, notes: string) => void;
+  isSubmitting: boolean;
+}
+
+export function AssignSubstituteDialog({
+  open,
+  onOpenChange,
+  substitution,
+  onSubmit,
+  isSubmitting,
+}: AssignSubstituteDialogProps) {
+  const [teacherId, setTeacherId] = useState("");
+  const [notes, setNotes] = useState("");
+  const { data: suggestions = [], isLoading } = useSubstituteSuggestions(
+    open ? (substitution?.entry_id ?? "") : "",
+    substitution?.date ?? ""
+  );
+
+  // Start from the current substitute, if any, each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTeacherId(substitution?.substitute_teacher?.public_id ?? "");
+      setNotes(substitution?.notes ?? "");
+    }
+  }, [open, substitution]);
+
+  if (!substitution) {
+    return null;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-indigo-600" />
+            Assign Substitute
+          </DialogTitle>
+          <DialogDescription>
+            The selected teacher is notified and the cover shows on their dashboard
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Period Details */}
+          <div className="bg-muted grid grid-cols-2 gap-4 rounded-lg p-4">
+            <div>
+              <p className="text-muted-foreground text-sm">Period</p>
+              <p className="font-medium">
+                {format(parseISO(substitution.date), "EEE, MMM dd")} • {substitution.period.name}
+              </p>
+              <p className="text-muted-foreground text-xs">
+                {formatPeriodTime(substitution.period)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground text-sm">Class</p>
+              <p className="font-medium">{substitution.subject_info.name}</p>
+              <p className="text-muted-foreground text-xs">
+                {getClassLabel(substitution.class_info)}
+                {substitution.room && ` • ${substitution.room}`}
+              </p>
+            </div>
+            <div className="col-span-2">
+              <p className="text-muted-foreground text-sm">On Leave</p>
+              <p className="font-medium">{substitution.absent_teacher.full_name}</p>
+            </div>
+          </div>
+
+          {/* Suggestions */}
+          <div className="space-y-2">
+            <Label>Available Teachers</Label>
+            {isLoading && (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin text-indigo-600" />
+                <span className="text-muted-foreground text-sm">Finding free teachers...</span>
+              </div>
+            )}
+            {!isLoading && suggestions.length === 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>No teacher is free during this period.</AlertDescription>
+              </Alert>
+            )}
+            {!isLoading && suggestions.length > 0 && (
+              <ScrollArea className="h-60 rounded-md border">
+                <RadioGroup value={teacherId} onValueChange={setTeacherId} className="gap-0">
+                  {suggestions.map((suggestion) => (
+                    <Label
+                      key={suggestion.teacher.public_id}
+                      htmlFor={`substitute-${suggestion.teacher.public_id}`}
+                      className={cn(
+                        "flex cursor-pointer items-center gap-3 border-b px-3 py-2.5 font-normal last:border-b-0 hover:bg-gray-50",
+                        teacherId === suggestion.teacher.public_id && "bg-indigo-50"
+                      )}
+                    >
+                      <RadioGroupItem
+                        id={`substitute-${suggestion.teacher.public_id}`}
+                        value={suggestion.teacher.public_id}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">
+                          {suggestion.teacher.full_name}
+                        </p>
+                        <p className="text-muted-foreground text-xs">
+                          {suggestion.teacher.employee_id} • {suggestion.periods_that_day}{" "}
+                          {suggestion.periods_that_day === 1 ? "period" : "periods"} that day
+                        </p>
+                      </div>
+                      {suggestion.teaches_subject && (
+                        <Badge variant="secondary" className="shrink-0">
+                          Teaches {substitution.subject_info.name}
+                        </Badge>
+                      )}
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </ScrollArea>
+            )}
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="substitution-notes">Notes for the substitute (Optional)</Label>
+            <Textarea
+              id="substitution-notes"
+              placeholder="e.g. Continue with chapter 5 exercises"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSubmit(teacherId, notes)} disabled={isSubmitting || !teacherId}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Assigning...
+              </>
+            ) : (
+              <>
+                <UserCheck className="mr-2 h-4 w-4" />
+                Assign & Notify
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
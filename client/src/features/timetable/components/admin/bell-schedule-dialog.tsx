@@ -0,0 +1,239 @@
+/**
+ * Bell Schedule Dialog
+ * Edit the periods of the school day shared by every section's timetable
+ */
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { BellRing, Loader2, Plus, Trash2 } from "lucide-react";
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { TimetablePeriod } from "@/lib/api/timetable-api";
+import { useSaveTimetablePeriods } from "../../hooks/use-timetable";
+import {
+  bellScheduleSchema,
+  type BellScheduleFormValues,
+  type BellSchedulePeriodValues,
+} from "../../schemas/bell-schedule-schema";
+
+const DEFAULT_PERIOD_MINUTES = 45;
+
+interface BellScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  periods: TimetablePeriod[];
+}
+
+function toFormValues(periods: TimetablePeriod[]): BellScheduleFormValues {
+  return {
+    periods: periods.map((period) => ({
+      public_id: period.public_id,
+      name: period.name,
+      start_time: period.start_time.slice(0, 5),
+      end_time: period.end_time.slice(0, 5),
+      is_break: period.is_break,
+    })),
+  };
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(":").map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export function BellScheduleDialog({ open, onOpenChange, periods }: BellScheduleDialogProps) {
+  const saveMutation = useSaveTimetablePeriods(() => onOpenChange(false));
+
+  const form = useForm<BellScheduleFormValues>({
+    resolver: zodResolver(bellScheduleSchema),
+    defaultValues: toFormValues(periods),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "periods" });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(periods));
+    }
+  }, [open, periods, form]);
+
+  const handleAddPeriod = () => {
+    const current = form.getValues("periods");
+    const start = current.length > 0 ? current[current.length - 1].end_time : "09:00";
+    const teachingPeriods = current.filter((period) => !period.is_break).length;
+    const period: BellSchedulePeriodValues = {
+      name: `Period ${teachingPeriods + 1}`,
+      start_time: start,
+      end_time: addMinutes(start, DEFAULT_PERIOD_MINUTES),
+      is_break: false,
+    };
+    append(period);
+  };
+
+  const handleSubmit = (data: BellScheduleFormValues) => {
+    saveMutation.mutate(data.periods);
+  };
+
+  const removedCount = periods.filter(
+    (period) => !fields.some((field) => field.public_id === period.public_id)
+  ).length;
+  const rootError =
+    form.formState.errors.periods?.root?.message ?? form.formState.errors.periods?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-indigo-600" />
+            Bell Schedule
+          </DialogTitle>
+          <DialogDescription>
+            Periods of the school day, in order. Every section&apos;s timetable uses these periods.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="space-y-3">
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="grid grid-cols-12 items-start gap-3 rounded-lg border p-3"
+                >
+                  <FormField
+                    control={form.control}
+                    name={`periods.${index}.name`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-12 md:col-span-4">
+                        <FormLabel>Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Period 1" {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`periods.${index}.start_time`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-6 md:col-span-3">
+                        <FormLabel>Starts *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`periods.${index}.end_time`}
+                    render={({ field: inputField }) => (
+                      <FormItem className="col-span-6 md:col-span-3">
+                        <FormLabel>Ends *</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...inputField} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="col-span-12 flex items-end justify-between gap-2 md:col-span-2 md:flex-col md:items-end">
+                    <FormField
+                      control={form.control}
+                      name={`periods.${index}.is_break`}
+                      render={({ field: inputField }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Switch
+                              checked={inputField.value}
+                              onCheckedChange={inputField.onChange}
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm font-normal">Break</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label="Remove period"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button type="button" variant="outline" size="sm" onClick={handleAddPeriod}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Period
+            </Button>
+
+            {rootError && (
+              <Alert variant="destructive">
+                <AlertDescription>{rootError}</AlertDescription>
+              </Alert>
+            )}
+
+            {removedCount > 0 && (
+              <Alert>
+                <AlertDescription>
+                  Removing {removedCount === 1 ? "a period" : `${removedCount} periods`} also
+                  removes the lessons scheduled in {removedCount === 1 ? "it" : "them"} from every
+                  timetable.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Bell Schedule"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Timetable - Admin Components
+ *
+ * Components for administrators building section timetables, maintaining
+ * the bell schedule and arranging cover for teachers on leave.
+ */
+
+export { TimetableBuilder } from "./timetable-builder";
+export { SubjectPalette } from "./subject-palette";
+export { TimetableConflictsPanel } from "./timetable-conflicts-panel";
+export { BellScheduleDialog } from "./bell-schedule-dialog";
+export { SubstitutionBoard } from "./substitution-board";
+export { AssignSubstituteDialog } from "./assign-substitute-dialog";
+export { TodaysSubstitutions } from "./todays-substitutions";
@@ -0,0 +1,72 @@
+/**
+ * Subject Palette
+ * Subject assignments of the selected section, dragged onto the timetable grid.
+ * Clicking a card selects it so it can be placed by clicking a slot instead.
+ */
+
+import { GripVertical } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { Subject } from "@/lib/api/subject-api";
+import { cn } from "@/lib/utils";
+import { setTimetableDragData } from "../../helpers/timetable-helpers";
+
+interface SubjectPaletteProps {
+  subjects: Subject[];
+  /** Periods already scheduled per subject assignment public_id */
+  periodCounts: Record<string, number>;
+  selectedSubjectId: string | null;
+  onSelect: (subjectId: string | null) => void;
+}
+
+export function SubjectPalette({
+  subjects,
+  periodCounts,
+  selectedSubjectId,
+  onSelect,
+}: SubjectPaletteProps) {
+  if (subjects.length === 0) {
+    return (
+      <p className="rounded-lg border border-dashed p-4 text-center text-sm text-gray-500">
+        No subjects are assigned to this section yet. Assign subjects and teachers on the Subjects
+        page first.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {subjects.map((subject) => {
+        const isSelected = subject.public_id === selectedSubjectId;
+        return (
+          <button
+            key={subject.public_id}
+            type="button"
+            draggable
+            onDragStart={(event) =>
+              setTimetableDragData(event.dataTransfer, {
+                kind: "subject",
+                subjectId: subject.public_id,
+              })
+            }
+            onClick={() => onSelect(isSelected ? null : subject.public_id)}
+            className={cn(
+              "flex w-full cursor-grab items-center gap-2 rounded-md border bg-white px-3 py-2 text-left transition-colors hover:border-indigo-300 active:cursor-grabbing",
+              isSelected && "border-indigo-500 ring-2 ring-indigo-200"
+            )}
+          >
+            <GripVertical className="h-4 w-4 shrink-0 text-gray-400" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium text-gray-900">
+                {subject.subject_info.name}
+              </p>
+              <p className="truncate text-xs text-gray-500">{subject.teacher_info.full_name}</p>
+            </div>
+            <Badge variant="secondary" className="shrink-0">
+              {periodCounts[subject.public_id] ?? 0}/wk
+            </Badge>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * Substitution Board Component
+ * Lists the periods of teachers on approved leave and lets admins assign a
+ * free teacher to cover each one
+ */
+
+import { addDays } from "date-fns";
+import { AlertCircle, CheckCircle, Loader2, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { DeleteConfirmationDialog } from "@/common/components/dialogs";
+import { ResourceFilter } from "@/common/components/filters/resource-filter";
+import type { FilterField } from "@/common/components/filters/resource-filter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataTable } from "@/components/ui/data-table";
+import { TablePagination } from "@/components/ui/table-pagination";
+import { SubstitutionStatus, SubstitutionStatusLabels } from "@/constants/timetable";
+import type { Substitution } from "@/lib/api/substitution-api";
+import { formatDateForAPI, getCurrentDateString } from "@/lib/utils/date-utils";
+import {
+  useAssignSubstitute,
+  useRemoveSubstitute,
+  useSubstitutions,
+} from "../../hooks/use-substitutions";
+import { AssignSubstituteDialog } from "./assign-substitute-dialog";
+import { getSubstitutionColumns } from "./substitution-table-columns";
+
+/** The coming week, so cover can be arranged before the day starts */
+function getDefaultFilters(): Record<string, string> {
+  return {
+    from_date: getCurrentDateString(),
+    to_date: formatDateForAPI(addDays(new Date(), 6)),
+  };
+}
+
+export function SubstitutionBoard() {
+  const [filters, setFilters] = useState<Record<string, string>>(getDefaultFilters);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(20);
+  const [assignTarget, setAssignTarget] = useState<Substitution | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<Substitution | null>(null);
+
+  const {
+    data: substitutionsData,
+    isLoading,
+    error,
+    refetch,
+  } = useSubstitutions({ page, page_size: pageSize, ...filters });
+  const assignMutation = useAssignSubstitute(() => setAssignTarget(null));
+  const removeMutation = useRemoveSubstitute();
+
+  const substitutions = substitutionsData?.data || [];
+  const totalCount = substitutionsData?.pagination?.count || 0;
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  const handleAssign = (substituteTeacherId: string, notes: string) => {
+    if (!assignTarget) {
+      return;
+    }
+
+    assignMutation.mutate({
+      entry_id: assignTarget.entry_id,
+      date: assignTarget.date,
+      substitute_teacher_id: substituteTeacherId,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  const handleRemove = () => {
+    if (!removeTarget?.public_id) {
+      return;
+    }
+
+    removeMutation.mutate(removeTarget.public_id, {
+      onSettled: () => setRemoveTarget(null),
+    });
+  };
+
+  const handleFilter = (newFilters: Record<string, string>) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(getDefaultFilters());
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const columns = getSubstitutionColumns({
+    onAssign: setAssignTarget,
+    onRemove: setRemoveTarget,
+  });
+
+  // Filter fields configuration
+  const filterFields: FilterField[] = [
+    {
+      name: "status",
+      label: "Status",
+      type: "select",
+      placeholder: "All Statuses",
+      searchPlaceholder: "Search status...",
+      options: Object.values(SubstitutionStatus).map((status) => ({
+        value: status,
+        label: SubstitutionStatusLabels[status],
+      })),
+    },
+    {
+      name: "date_range",
+      label: "Date",
+      type: "daterange",
+      startDateName: "from_date",
+      endDateName: "to_date",
+    },
+  ];
+
+  // Show full-page loading only on initial load (no data yet)
+  if (isLoading && !substitutionsData) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-indigo-600" />
+          <p className="text-muted-foreground">Loading substitution board...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          Failed to load substitutions. {(error as Error).message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-4">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Substitutions</h2>
+          <p className="text-gray-600">Arrange cover for periods of teachers on approved leave</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <ResourceFilter
+        fields={filterFields}
+        onFilter={handleFilter}
+        onReset={handleResetFilters}
+        defaultValues={filters}
+      />
+
+      {/* Affected Periods Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Affected Periods</CardTitle>
+          <CardDescription>
+            Lessons scheduled for teachers on leave in the selected dates
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {substitutions.length === 0 ? (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                {filters.status === SubstitutionStatus.UNCOVERED
+                  ? "Every affected period has cover."
+                  : "No teacher has approved leave on a teaching day in the selected dates."}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <DataTable
+                columns={columns}
+                data={substitutions}
+                isLoading={isLoading}
+                emptyMessage="No affected periods found"
+                getRowKey={(row: Substitution) => `${row.entry_id}:${row.date}`}
+              />
+
+              <div className="mt-4">
+                <TablePagination
+                  currentPage={page}
+                  totalPages={totalPages}
+                  totalRecords={totalCount}
+                  pageSize={pageSize}
+                  onPageChange={setPage}
+                  onPageSizeChange={handlePageSizeChange}
+                />
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Assign Dialog */}
+      <AssignSubstituteDialog
+        open={!!assignTarget}
+        onOpenChange={(open: boolean) => !open && setAssignTarget(null)}
+        substitution={assignTarget}
+        onSubmit={handleAssign}
+        isSubmitting={assignMutation.isPending}
+      />
+
+      {/* Remove Confirmation */}
+      <DeleteConfirmationDialog
+        open={!!removeTarget}
+        title="Remove Substitute?"
+        description={
+          removeTarget?.substitute_teacher
+            ? `${removeTarget.substitute_teacher.full_name} will no longer cover ${removeTarget.subject_info.name} (${removeTarget.period.name}) and the period will show as uncovered.`
+            : ""
+        }
+        onConfirm={handleRemove}
+        onCancel={() => setRemoveTarget(null)}
+        confirmLabel="Remove"
+        isDeleting={removeMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Substitution Table Columns
+ * Column definitions for the substitution board data table
+ */
+
+import { format, parseISO } from "date-fns";
+import { MapPin, UserCheck, UserX } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/ui/data-table";
+import { SubstitutionStatus, SubstitutionStatusLabels } from "@/constants/timetable";
+import type { Substitution } from "@/lib/api/substitution-api";
+import { formatPeriodTime, getClassLabel } from "../../helpers/timetable-helpers";
+
+interface GetSubstitutionColumnsProps {
+  onAssign: (substitution: Substitution) => void;
+  onRemove: (substitution: Substitution) => void;
+}
+
+export function getSubstitutionColumns({
+  onAssign,
+  onRemove,
+}: GetSubstitutionColumnsProps): Column<Substitution>[] {
+  return [
+    {
+      header: "Date",
+      accessor: (substitution) => (
+        <div>
+          <div className="text-sm">{format(parseISO(substitution.date), "EEE, MMM dd, yyyy")}</div>
+          <div className="text-muted-foreground text-xs">
+            {substitution.period.name} • {formatPeriodTime(substitution.period)}
+          </div>
+        </div>
+      ),
+      sortable: true,
+      sortKey: "date",
+      width: 190,
+    },
+    {
+      header: "Class",
+      accessor: (substitution) => (
+        <div>
+          <div className="font-medium">{substitution.subject_info.name}</div>
+          <div className="text-muted-foreground text-xs">
+            {getClassLabel(substitution.class_info)}
+          </div>
+          {substitution.room && (
+            <div className="text-muted-foreground flex items-center gap-1 text-xs">
+              <MapPin className="h-3 w-3" />
+              {substitution.room}
+            </div>
+          )}
+        </div>
+      ),
+      width: 200,
+    },
+    {
+      header: "Teacher on Leave",
+      accessor: (substitution) => substitution.absent_teacher.full_name,
+    },
+    {
+      header: "Status",
+      accessor: (substitution) => (
+        <Badge
+          variant="outline"
+          className={
+            substitution.status === SubstitutionStatus.ASSIGNED
+              ? "border-green-200 bg-green-50 text-green-700"
+              : "border-amber-200 bg-amber-50 text-amber-700"
+          }
+        >
+          {SubstitutionStatusLabels[substitution.status]}
+        </Badge>
+      ),
+      sortable: true,
+      sortKey: "status",
+    },
+    {
+      header: "Substitute",
+      accessor: (substitution) =>
+        substitution.substitute_teacher ? (
+          <div>
+            <div className="font-medium">{substitution.substitute_teacher.full_name}</div>
+            {substitution.assigned_by_name && (
+              <div className="text-muted-foreground text-xs">
+                Assigned by {substitution.assigned_by_name}
+              </div>
+            )}
+            {substitution.notes && (
+              <div
+                className="text-muted-foreground max-w-xs truncate text-xs"
+                title={substitution.notes}
+              >
+                {substitution.notes}
+              </div>
+            )}
+          </div>
+        ) : (
+          <span className="text-muted-foreground text-sm">—</span>
+        ),
+      width: 220,
+    },
+    {
+      header: "Actions",
+      accessor: (substitution) => (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={substitution.substitute_teacher ? "outline" : "default"}
+            onClick={(e) => {
+              e.stopPropagation();
+              onAssign(substitution);
+            }}
+          >
+            <UserCheck className="mr-1 h-4 w-4" />
+            {substitution.substitute_teacher ? "Change" : "Assign"}
+          </Button>
+          {substitution.public_id && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-red-600 hover:text-red-700"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(substitution);
+              }}
+            >
+              <UserX className="mr-1 h-4 w-4" />
+              Remove
+            </Button>
+          )}
+        </div>
+      ),
+      width: 210,
+      minWidth: 190,
+    },
+  ];
+}
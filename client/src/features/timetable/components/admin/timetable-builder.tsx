@@ -0,0 +1,371 @@
+/**
+ * Timetable Builder (Admin)
+ * Weekly period grid per section built from its subject assignments.
+ * Subjects are dragged from the palette onto slots (or selected and clicked
+ * into place), lessons can be dragged between slots, and teacher/room clashes
+ * with other sections are flagged live.
+ */
+
+import { AlertCircle, BellRing, Loader2, RotateCcw, Save, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DayOfWeekLabels, type DayOfWeekValue } from "@/constants/timetable";
+import type { TimetablePeriod } from "@/lib/api/timetable-api";
+import { useClasses } from "@/lib/hooks/use-shared-queries";
+import {
+  detectTimetableConflicts,
+  getSlotKey,
+  getTimetableSignature,
+  subjectToTimetableCell,
+  toEntryPayloads,
+  toTimetableCell,
+  toTimetableCells,
+  type TimetableCell,
+  type TimetableCells,
+  type TimetableDragPayload,
+} from "../../helpers/timetable-helpers";
+import {
+  useAllTimetableEntries,
+  useClassSubjects,
+  useClassTimetable,
+  useSaveClassTimetable,
+  useTimetablePeriods,
+} from "../../hooks/use-timetable";
+import { TimetableGrid } from "../timetable-grid";
+import { BellScheduleDialog } from "./bell-schedule-dialog";
+import { SubjectPalette } from "./subject-palette";
+import { TimetableConflictsPanel } from "./timetable-conflicts-panel";
+
+const NO_PERIODS: TimetablePeriod[] = [];
+
+export function TimetableBuilder() {
+  const [selectedClassId, setSelectedClassId] = useState<string>("");
+  const [draft, setDraft] = useState<TimetableCells>({});
+  const [selectedSubjectId, setSelectedSubjectId] = useState<string | null>(null);
+  const [showBellSchedule, setShowBellSchedule] = useState(false);
+
+  const { data: classesData, isLoading: isLoadingClasses } = useClasses();
+  const classes = classesData?.data || [];
+  const classId = selectedClassId || classes[0]?.public_id || "";
+
+  const { data: periods = NO_PERIODS, isLoading: isLoadingPeriods } = useTimetablePeriods();
+  const { data: subjects = [] } = useClassSubjects(classId);
+  const { data: timetableData, isLoading: isLoadingTimetable } = useClassTimetable(classId);
+  const {
+    data: allEntries,
+    isError: isEntriesError,
+    refetch: refetchEntries,
+  } = useAllTimetableEntries();
+  const saveMutation = useSaveClassTimetable(classId);
+
+  const savedCells = useMemo(() => toTimetableCells(timetableData?.data || []), [timetableData]);
+
+  // Start from the saved timetable whenever the section or saved data changes
+  useEffect(() => {
+    setDraft(savedCells);
+    setSelectedSubjectId(null);
+  }, [savedCells]);
+
+  // Lessons of every other section, checked for teacher and room clashes
+  const otherCells = useMemo(
+    () =>
+      (allEntries || [])
+        .filter((entry) => entry.class_info.public_id !== classId)
+        .map(toTimetableCell),
+    [allEntries, classId]
+  );
+
+  const conflicts = useMemo(() => detectTimetableConflicts(draft, otherCells), [draft, otherCells]);
+
+  const isDirty = getTimetableSignature(draft) !== getTimetableSignature(savedCells);
+  // Clashes can only be ruled out once every other section's lessons are in
+  const canSave = isDirty && !!allEntries && conflicts.size === 0;
+
+  const periodCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(draft).forEach((cell) => {
+      counts[cell.subject_id] = (counts[cell.subject_id] ?? 0) + 1;
+    });
+    return counts;
+  }, [draft]);
+
+  const placeSubject = (subjectId: string, day: DayOfWeekValue, periodId: string) => {
+    const subject = subjects.find((item) => item.public_id === subjectId);
+    if (!subject) {
+      return;
+    }
+    const slotKey = getSlotKey(day, periodId);
+    setDraft((prev) => ({
+      ...prev,
+      [slotKey]: subjectToTimetableCell(subject, day, periodId, prev[slotKey]?.room ?? null),
+    }));
+  };
+
+  // Moving onto an occupied slot swaps the two lessons
+  const moveLesson = (fromKey: string, day: DayOfWeekValue, periodId: string) => {
+    const toKey = getSlotKey(day, periodId);
+    if (fromKey === toKey) {
+      return;
+    }
+    setDraft((prev) => {
+      const moving = prev[fromKey];
+      if (!moving) {
+        return prev;
+      }
+      const next = { ...prev };
+      const displaced = prev[toKey];
+      next[toKey] = { ...moving, day_of_week: day, period_id: periodId };
+      if (displaced) {
+        next[fromKey] = {
+          ...displaced,
+          day_of_week: moving.day_of_week,
+          period_id: moving.period_id,
+        };
+      } else {
+        delete next[fromKey];
+      }
+      return next;
+    });
+  };
+
+  const handleDrop = (payload: TimetableDragPayload, day: DayOfWeekValue, periodId: string) => {
+    if (payload.kind === "subject") {
+      placeSubject(payload.subjectId, day, periodId);
+    } else {
+      moveLesson(payload.slotKey, day, periodId);
+    }
+  };
+
+  const handleSlotClick = (day: DayOfWeekValue, periodId: string) => {
+    if (selectedSubjectId) {
+      placeSubject(selectedSubjectId, day, periodId);
+    }
+  };
+
+  const handleRoomChange = (slotKey: string, room: string) => {
+    setDraft((prev) => ({ ...prev, [slotKey]: { ...prev[slotKey], room: room || null } }));
+  };
+
+  const handleRemove = (slotKey: string) => {
+    setDraft((prev) => {
+      const next = { ...prev };
+      delete next[slotKey];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!classId || !canSave) {
+      return;
+    }
+    saveMutation.mutate(toEntryPayloads(draft));
+  };
+
+  const renderCell = (cell: TimetableCell, content: ReactNode) => {
+    const slotKey = getSlotKey(cell.day_of_week, cell.period_id);
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <div className="h-full">{content}</div>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3" align="start">
+          <div>
+            <p className="text-sm font-semibold">{cell.subject_name}</p>
+            <p className="text-xs text-gray-500">
+              {DayOfWeekLabels[cell.day_of_week]} • {cell.teacher_name}
+            </p>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`room-${slotKey}`}>Room</Label>
+            <Input
+              id={`room-${slotKey}`}
+              placeholder="e.g. Lab 2"
+              value={cell.room ?? ""}
+              onChange={(e) => handleRoomChange(slotKey, e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-red-600 hover:text-red-700"
+            onClick={() => handleRemove(slotKey)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Remove from Timetable
+          </Button>
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  if (isLoadingClasses || isLoadingPeriods) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-purple-600" />
+          <p className="text-muted-foreground">Loading timetable...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">Timetable</h2>
+          <p className="text-gray-600">
+            Build each section&apos;s weekly schedule from its subjects
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setShowBellSchedule(true)}>
+          <BellRing className="mr-2 h-4 w-4" />
+          Bell Schedule
+        </Button>
+      </div>
+
+      {classes.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Create classes and sections before building timetables.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="max-w-sm space-y-2">
+                <Label htmlFor="timetable-class">Class/Section</Label>
+                <Select value={classId} onValueChange={setSelectedClassId}>
+                  <SelectTrigger id="timetable-class">
+                    <SelectValue placeholder="Select a section" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classes.map((cls) => (
+                      <SelectItem key={cls.public_id} value={cls.public_id}>
+                        {cls.class_master.name} - {cls.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-[260px_1fr]">
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="text-base">Subjects</CardTitle>
+                <CardDescription>Drag onto a slot, or select and click a slot</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SubjectPalette
+                  subjects={subjects}
+                  periodCounts={periodCounts}
+                  selectedSubjectId={selectedSubjectId}
+                  onSelect={setSelectedSubjectId}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="min-w-0 space-y-4">
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div>
+                      <CardTitle>Weekly Schedule</CardTitle>
+                      <CardDescription>
+                        {Object.keys(draft).length} lessons scheduled
+                        {isDirty && " • Unsaved changes"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDraft(savedCells)}
+                        disabled={!isDirty || saveMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Discard Changes
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={!canSave || saveMutation.isPending}
+                      >
+                        {saveMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Saving...
+                          </>
+                        ) : (
+                          <>
+                            <Save className="mr-2 h-4 w-4" />
+                            Save Timetable
+                          </>
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isEntriesError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription className="flex items-center justify-between gap-4">
+                        Other sections&apos; timetables could not be loaded, so teacher and room
+                        clashes cannot be checked. Saving is disabled until they load.
+                        <Button variant="outline" size="sm" onClick={() => refetchEntries()}>
+                          Retry
+                        </Button>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {isLoadingTimetable ? (
+                    <div className="flex items-center justify-center py-8">
+                      <Loader2 className="mr-2 h-6 w-6 animate-spin text-purple-600" />
+                      <span className="text-muted-foreground text-sm">Loading timetable...</span>
+                    </div>
+                  ) : (
+                    <TimetableGrid
+                      periods={periods}
+                      cells={draft}
+                      conflicts={conflicts}
+                      editable
+                      onDrop={handleDrop}
+                      onSlotClick={handleSlotClick}
+                      renderCell={renderCell}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              <TimetableConflictsPanel conflicts={conflicts} cells={draft} periods={periods} />
+            </div>
+          </div>
+        </>
+      )}
+
+      <BellScheduleDialog
+        open={showBellSchedule}
+        onOpenChange={setShowBellSchedule}
+        periods={periods}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Timetable Conflicts Panel
+ * Lists the clashes in the draft timetable. Saving is blocked until it is empty.
+ */
+
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { DayOfWeekLabels, TimetableConflictTypeLabels } from "@/constants/timetable";
+import type { TimetablePeriod } from "@/lib/api/timetable-api";
+import type { TimetableCells, TimetableConflict } from "../../helpers/timetable-helpers";
+
+interface TimetableConflictsPanelProps {
+  conflicts: Map<string, TimetableConflict[]>;
+  cells: TimetableCells;
+  periods: TimetablePeriod[];
+}
+
+export function TimetableConflictsPanel({
+  conflicts,
+  cells,
+  periods,
+}: TimetableConflictsPanelProps) {
+  const items = Array.from(conflicts.values()).flat();
+
+  if (items.length === 0) {
+    return (
+      <Alert className="border-green-200 bg-green-50">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        <AlertTitle className="text-green-800">No conflicts</AlertTitle>
+        <AlertDescription className="text-green-700">
+          Every teacher and room is booked at most once per period.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const periodNames = new Map(periods.map((period) => [period.public_id, period.name]));
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {items.length} {items.length === 1 ? "conflict" : "conflicts"} to resolve before saving
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1.5">
+          {items.map((conflict, index) => {
+            const cell = cells[conflict.slotKey];
+            return (
+              <li key={`${conflict.slotKey}-${index}`} className="text-sm">
+                <span className="font-medium">
+                  {DayOfWeekLabels[cell.day_of_week]}, {periodNames.get(cell.period_id)}
+                </span>
+                {" - "}
+                {TimetableConflictTypeLabels[conflict.type]}: {conflict.message}
+              </li>
+            );
+          })}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Today's Substitutions
+ * Dashboard card listing today's periods of teachers on leave and who covers them
+ */
+
+import { AlertCircle, ArrowRight, CheckCircle } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SubstitutionStatus } from "@/constants/timetable";
+import { PAGE_SIZES } from "@/lib/constants";
+import { getCurrentDateString } from "@/lib/utils/date-utils";
+import { formatPeriodTime, getClassLabel } from "../../helpers/timetable-helpers";
+import { useSubstitutions } from "../../hooks/use-substitutions";
+
+export function TodaysSubstitutions() {
+  const today = getCurrentDateString();
+  const { data, isLoading } = useSubstitutions({
+    from_date: today,
+    to_date: today,
+    page_size: PAGE_SIZES.LARGE,
+  });
+
+  const substitutions = data?.data || [];
+  const uncoveredCount = substitutions.filter(
+    (substitution) => substitution.status === SubstitutionStatus.UNCOVERED
+  ).length;
+
+  return (
+    <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50">
+        <div className="space-y-1.5">
+          <CardTitle className="text-amber-900">Today&apos;s Cover</CardTitle>
+          <CardDescription className="text-amber-700">
+            {uncoveredCount > 0
+              ? `${uncoveredCount} of ${substitutions.length} periods still need a substitute`
+              : "Periods of teachers on leave today"}
+          </CardDescription>
+        </div>
+        <Button asChild variant="ghost" size="sm" className="text-amber-800">
+          <Link href="/substitutions">
+            Substitution Board
+            <ArrowRight className="ml-1 h-4 w-4" />
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-6">
+        {!isLoading && substitutions.length === 0 && (
+          <p className="text-sm text-gray-500">No teachers are on leave today</p>
+        )}
+        {substitutions.map((substitution) => (
+          <div
+            key={substitution.entry_id}
+            className="flex items-start space-x-3 border-b border-gray-100 pb-4 last:border-0"
+          >
+            <div className="mt-1">
+              {substitution.substitute_teacher ? (
+                <CheckCircle className="h-5 w-5 text-green-500" />
+              ) : (
+                <AlertCircle className="h-5 w-5 text-yellow-500" />
+              )}
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-gray-900">
+                {getClassLabel(substitution.class_info)} - {substitution.subject_info.name}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                {substitution.period.name} • {formatPeriodTime(substitution.period)} •{" "}
+                {substitution.absent_teacher.full_name} on leave
+              </p>
+            </div>
+            <span className="text-xs font-medium text-gray-700">
+              {substitution.substitute_teacher?.full_name ?? "Uncovered"}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
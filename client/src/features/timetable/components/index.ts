@@ -0,0 +1,14 @@
+/**
+ * Timetable Feature - Component Exports
+ */
+
+export { TimetableGrid } from "./timetable-grid";
+
+// Admin components
+export * from "./admin";
+
+// Teacher components
+export * from "./teacher";
+
+// Parent components
+export * from "./parent";
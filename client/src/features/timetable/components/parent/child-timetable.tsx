@@ -0,0 +1,81 @@
+/**
+ * Child Timetable (Parent)
+ * Read-only weekly class timetable of each child linked to the signed-in parent
+ */
+
+import { AlertCircle, Loader2 } from "lucide-react";
+import { ChildSwitcher } from "@/common/components";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getClassLabel, getTimetableDay, toTimetableCells } from "../../helpers/timetable-helpers";
+import { useChildrenTimetables, useTimetablePeriods } from "../../hooks/use-timetable";
+import { TimetableGrid } from "../timetable-grid";
+
+export function ChildTimetable() {
+  const [selectedStudentId, setSelectedStudentId] = useSelectedChildId();
+  const { data: periods, isLoading: isLoadingPeriods } = useTimetablePeriods();
+  const { data: childrenData, isLoading: isLoadingChildren } = useChildrenTimetables();
+
+  const children = childrenData?.data || [];
+  const selected =
+    children.find((child) => child.student.public_id === selectedStudentId) ?? children[0];
+
+  if (isLoadingPeriods || isLoadingChildren) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-purple-600" />
+          <p className="text-muted-foreground">Loading timetable...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Class Timetable</h2>
+        <p className="text-gray-600">Weekly schedule of your child&apos;s class</p>
+      </div>
+
+      {!selected ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            No students are linked to your account yet. Contact the school office if this is a
+            mistake.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <ChildSwitcher
+            students={children.map((child) => ({
+              public_id: child.student.public_id,
+              full_name: child.student.full_name,
+              class_label: getClassLabel(child.class_info),
+              roll_number: child.student.roll_number,
+            }))}
+            value={selected.student.public_id}
+            onValueChange={setSelectedStudentId}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Weekly Timetable</CardTitle>
+              <CardDescription>{getClassLabel(selected.class_info)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TimetableGrid
+                periods={periods || []}
+                cells={toTimetableCells(selected.entries)}
+                highlightDay={getTimetableDay()}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
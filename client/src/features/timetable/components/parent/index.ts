@@ -0,0 +1,5 @@
+/**
+ * Timetable - Parent Components
+ */
+
+export { ChildTimetable } from "./child-timetable";
@@ -0,0 +1,5 @@
+/**
+ * Timetable - Teacher Components
+ */
+
+export { MySchedule } from "./my-schedule";
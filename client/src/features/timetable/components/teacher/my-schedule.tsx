@@ -0,0 +1,55 @@
+/**
+ * My Schedule (Teacher)
+ * Read-only weekly timetable of the signed-in teacher across all sections
+ */
+
+import { Loader2 } from "lucide-react";
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTimetableDay, toTimetableCells } from "../../helpers/timetable-helpers";
+import { useMySchedule, useTimetablePeriods } from "../../hooks/use-timetable";
+import { TimetableGrid } from "../timetable-grid";
+
+export function MySchedule() {
+  const { data: periods, isLoading: isLoadingPeriods } = useTimetablePeriods();
+  const { data: scheduleData, isLoading: isLoadingSchedule } = useMySchedule();
+
+  const entries = useMemo(() => scheduleData?.data || [], [scheduleData]);
+  const cells = useMemo(() => toTimetableCells(entries), [entries]);
+  const sectionCount = new Set(entries.map((entry) => entry.class_info.public_id)).size;
+
+  return (
+    <div className="space-y-6">
+      {/* Header Section */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Class Schedule</h2>
+        <p className="text-gray-600">Your weekly teaching timetable</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Timetable</CardTitle>
+          <CardDescription>
+            {entries.length} lessons a week across {sectionCount}{" "}
+            {sectionCount === 1 ? "section" : "sections"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingPeriods || isLoadingSchedule ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="mr-2 h-6 w-6 animate-spin text-purple-600" />
+              <span className="text-muted-foreground text-sm">Loading schedule...</span>
+            </div>
+          ) : (
+            <TimetableGrid
+              periods={periods || []}
+              cells={cells}
+              secondaryLabel="class"
+              highlightDay={getTimetableDay()}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * Timetable Grid
+ * Weekly period grid shared by the admin builder and the read-only teacher and
+ * parent views. Periods are rows, days are columns.
+ */
+
+import { AlertTriangle, Coffee, MapPin } from "lucide-react";
+import { useState, type DragEvent, type ReactNode } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { DayOfWeekLabels, TIMETABLE_DAYS, type DayOfWeekValue } from "@/constants/timetable";
+import type { TimetablePeriod } from "@/lib/api/timetable-api";
+import { cn } from "@/lib/utils";
+import {
+  formatPeriodTime,
+  getSlotKey,
+  getTimetableDragData,
+  hasTimetableDragData,
+  setTimetableDragData,
+  type TimetableCell,
+  type TimetableCells,
+  type TimetableConflict,
+  type TimetableDragPayload,
+} from "../helpers/timetable-helpers";
+
+interface TimetableGridProps {
+  periods: TimetablePeriod[];
+  cells: TimetableCells;
+  /** Second line of each lesson: the teacher (section views) or the section (teacher view) */
+  secondaryLabel?: "teacher" | "class";
+  /** Day column to highlight, usually today */
+  highlightDay?: DayOfWeekValue | null;
+  conflicts?: Map<string, TimetableConflict[]>;
+  /** Enables drag and drop and slot clicks */
+  editable?: boolean;
+  onDrop?: (payload: TimetableDragPayload, day: DayOfWeekValue, periodId: string) => void;
+  onSlotClick?: (day: DayOfWeekValue, periodId: string) => void;
+  /** Wraps a placed lesson, e.g. in a popover with edit actions */
+  renderCell?: (cell: TimetableCell, content: ReactNode) => ReactNode;
+}
+
+function LessonContent({
+  cell,
+  secondaryLabel,
+}: {
+  cell: TimetableCell;
+  secondaryLabel: "teacher" | "class";
+}) {
+  return (
+    <div className="space-y-0.5 text-left">
+      <p className="truncate text-sm font-semibold text-gray-900">{cell.subject_name}</p>
+      <p className="truncate text-xs text-gray-600">
+        {secondaryLabel === "teacher" ? cell.teacher_name : cell.class_label}
+      </p>
+      {cell.room && (
+        <p className="flex items-center gap-1 truncate text-xs text-gray-500">
+          <MapPin className="h-3 w-3 shrink-0" />
+          {cell.room}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function TimetableGrid({
+  periods,
+  cells,
+  secondaryLabel = "teacher",
+  highlightDay = null,
+  conflicts,
+  editable = false,
+  onDrop,
+  onSlotClick,
+  renderCell,
+}: TimetableGridProps) {
+  const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+
+  const handleDragOver = (event: DragEvent<HTMLTableCellElement>, slotKey: string) => {
+    if (!editable || !hasTimetableDragData(event.dataTransfer)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDragOverKey(slotKey);
+  };
+
+  const handleDrop = (
+    event: DragEvent<HTMLTableCellElement>,
+    day: DayOfWeekValue,
+    periodId: string
+  ) => {
+    event.preventDefault();
+    setDragOverKey(null);
+    const payload = getTimetableDragData(event.dataTransfer);
+    if (payload) {
+      onDrop?.(payload, day, periodId);
+    }
+  };
+
+  if (periods.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed py-12 text-center text-sm text-gray-500">
+        No periods have been set up in the bell schedule yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full min-w-[900px] table-fixed border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-50">
+            <th className="w-32 border-b px-3 py-2 text-left font-medium text-gray-600">Period</th>
+            {TIMETABLE_DAYS.map((day) => (
+              <th
+                key={day}
+                className={cn(
+                  "border-b border-l px-3 py-2 text-left font-medium text-gray-600",
+                  day === highlightDay && "bg-indigo-50 text-indigo-700"
+                )}
+              >
+                {DayOfWeekLabels[day]}
+                {day === highlightDay && <span className="ml-1 text-xs">(Today)</span>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {periods.map((period) => (
+            <tr key={period.public_id} className="border-b last:border-b-0">
+              <td className="px-3 py-2 align-top">
+                <p className="font-medium text-gray-900">{period.name}</p>
+                <p className="text-xs text-gray-500">{formatPeriodTime(period)}</p>
+              </td>
+
+              {period.is_break ? (
+                <td
+                  colSpan={TIMETABLE_DAYS.length}
+                  className="border-l bg-gray-50 px-3 py-2 text-center text-xs text-gray-500"
+                >
+                  <span className="inline-flex items-center gap-1">
+                    <Coffee className="h-3.5 w-3.5" />
+                    {period.name}
+                  </span>
+                </td>
+              ) : (
+                TIMETABLE_DAYS.map((day) => {
+                  const slotKey = getSlotKey(day, period.public_id);
+                  const cell = cells[slotKey];
+                  const slotConflicts = conflicts?.get(slotKey) ?? [];
+                  const hasConflict = slotConflicts.length > 0;
+
+                  const lesson = cell ? (
+                    <div
+                      draggable={editable}
+                      onDragStart={(event) =>
+                        setTimetableDragData(event.dataTransfer, { kind: "slot", slotKey })
+                      }
+                      className={cn(
+                        "relative h-full rounded-md border px-2 py-1.5",
+                        hasConflict
+                          ? "border-red-300 bg-red-50"
+                          : "border-indigo-100 bg-indigo-50/60",
+                        editable && "cursor-grab active:cursor-grabbing"
+                      )}
+                    >
+                      <LessonContent cell={cell} secondaryLabel={secondaryLabel} />
+                      {hasConflict && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <AlertTriangle className="absolute top-1.5 right-1.5 h-4 w-4 text-red-600" />
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">
+                            <ul className="space-y-1">
+                              {slotConflicts.map((conflict, index) => (
+                                <li key={index}>{conflict.message}</li>
+                              ))}
+                            </ul>
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                    </div>
+                  ) : null;
+
+                  return (
+                    <td
+                      key={day}
+                      onDragOver={(event) => handleDragOver(event, slotKey)}
+                      onDragLeave={() => setDragOverKey(null)}
+                      onDrop={(event) => handleDrop(event, day, period.public_id)}
+                      onClick={() => editable && !cell && onSlotClick?.(day, period.public_id)}
+                      className={cn(
+                        "h-20 border-l p-1.5 align-top",
+                        day === highlightDay && "bg-indigo-50/40",
+                        dragOverKey === slotKey && "bg-indigo-100",
+                        editable && !cell && "cursor-pointer hover:bg-gray-50"
+                      )}
+                    >
+                      {cell && lesson && renderCell ? renderCell(cell, lesson) : lesson}
+                    </td>
+                  );
+                })
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
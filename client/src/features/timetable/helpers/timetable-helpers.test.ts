@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  DayOfWeek,
+  MAX_SUBJECT_PERIODS_PER_DAY,
+  TimetableConflictType,
+} from "@/constants/timetable";
+import { detectTimetableConflicts, getSlotKey } from "./timetable-helpers";
+import type { TimetableCell, TimetableCells } from "./timetable-helpers";
+
+function cell(overrides: Partial<TimetableCell> = {}): TimetableCell {
+  return {
+    day_of_week: DayOfWeek.MONDAY,
+    period_id: "period-1",
+    subject_id: "maths-6a",
+    subject_name: "Mathematics",
+    subject_code: "MATH",
+    teacher_id: "teacher-1",
+    teacher_name: "Anita Rao",
+    class_id: "class-6a",
+    class_label: "Grade 6 - A",
+    room: "Room 101",
+    ...overrides,
+  };
+}
+
+function toDraft(cells: TimetableCell[]): TimetableCells {
+  return Object.fromEntries(
+    cells.map((item) => [getSlotKey(item.day_of_week, item.period_id), item])
+  );
+}
+
+const otherSection = {
+  subject_id: "science-6b",
+  subject_name: "Science",
+  class_id: "class-6b",
+  class_label: "Grade 6 - B",
+};
+
+describe("detectTimetableConflicts", () => {
+  const slotKey = getSlotKey(DayOfWeek.MONDAY, "period-1");
+
+  it("finds nothing in a timetable without clashes", () => {
+    const draft = toDraft([cell(), cell({ period_id: "period-2", room: "Lab 1" })]);
+    const others = [cell({ ...otherSection, teacher_id: "teacher-2", room: "Room 102" })];
+
+    expect(detectTimetableConflicts(draft, others).size).toBe(0);
+  });
+
+  it("flags a teacher booked by another section in the same period", () => {
+    const draft = toDraft([cell()]);
+    const others = [cell({ ...otherSection, room: "Room 102" })];
+
+    const conflicts = detectTimetableConflicts(draft, others);
+
+    expect(conflicts.get(slotKey)).toEqual([
+      {
+        type: TimetableConflictType.TEACHER_DOUBLE_BOOKED,
+        slotKey,
+        message: "Anita Rao already teaches Science to Grade 6 - B in this period",
+      },
+    ]);
+  });
+
+  it("matches rooms ignoring case and surrounding spaces", () => {
+    const draft = toDraft([cell()]);
+    const others = [cell({ ...otherSection, teacher_id: "teacher-2", room: " room 101 " })];
+
+    const conflicts = detectTimetableConflicts(draft, others);
+
+    expect(conflicts.get(slotKey)?.map((conflict) => conflict.type)).toEqual([
+      TimetableConflictType.ROOM_DOUBLE_BOOKED,
+    ]);
+  });
+
+  it("does not treat an empty room as a clash", () => {
+    const draft = toDraft([cell({ room: null })]);
+    const others = [cell({ ...otherSection, teacher_id: "teacher-2", room: "" })];
+
+    expect(detectTimetableConflicts(draft, others).size).toBe(0);
+  });
+
+  it("ignores bookings in other periods and the section's own saved periods", () => {
+    const draft = toDraft([cell()]);
+    const others = [
+      cell({ ...otherSection, period_id: "period-2" }),
+      cell({ ...otherSection, day_of_week: DayOfWeek.TUESDAY }),
+      cell({ class_id: "class-6a" }),
+    ];
+
+    expect(detectTimetableConflicts(draft, others).size).toBe(0);
+  });
+
+  it("flags every period of a subject scheduled too often on one day", () => {
+    const periods = Array.from(
+      { length: MAX_SUBJECT_PERIODS_PER_DAY + 1 },
+      (_, index) => `period-${index + 1}`
+    );
+    const draft = toDraft(periods.map((periodId) => cell({ period_id: periodId })));
+
+    const conflicts = detectTimetableConflicts(draft, []);
+
+    expect(conflicts.size).toBe(periods.length);
+    periods.forEach((periodId) => {
+      expect(conflicts.get(getSlotKey(DayOfWeek.MONDAY, periodId))).toEqual([
+        expect.objectContaining({ type: TimetableConflictType.SUBJECT_OVER_SCHEDULED }),
+      ]);
+    });
+  });
+
+  it("allows a subject up to the daily limit", () => {
+    const periods = Array.from(
+      { length: MAX_SUBJECT_PERIODS_PER_DAY },
+      (_, index) => `period-${index + 1}`
+    );
+    const draft = toDraft(periods.map((periodId) => cell({ period_id: periodId })));
+
+    expect(detectTimetableConflicts(draft, []).size).toBe(0);
+  });
+});
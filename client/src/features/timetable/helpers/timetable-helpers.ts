@@ -0,0 +1,286 @@
+/**
+ * Timetable Helpers
+ * Slot keys, conversions between API entries and grid cells, and the clash
+ * detection the builder runs on every edit.
+ */
+
+import {
+  DayOfWeekLabels,
+  MAX_SUBJECT_PERIODS_PER_DAY,
+  TimetableConflictType,
+  type DayOfWeekValue,
+  type TimetableConflictTypeValue,
+} from "@/constants/timetable";
+import type { Subject } from "@/lib/api/subject-api";
+import type {
+  TimetableEntry,
+  TimetableEntryPayload,
+  TimetablePeriod,
+} from "@/lib/api/timetable-api";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * A scheduled period as the grid renders it
+ */
+export interface TimetableCell {
+  day_of_week: DayOfWeekValue;
+  period_id: string;
+  subject_id: string; // Subject assignment public_id
+  subject_name: string;
+  subject_code: string;
+  teacher_id: string;
+  teacher_name: string;
+  class_id: string;
+  class_label: string;
+  room: string | null;
+}
+
+/** Cells keyed by `getSlotKey` */
+export type TimetableCells = Record<string, TimetableCell>;
+
+export interface TimetableConflict {
+  type: TimetableConflictTypeValue;
+  slotKey: string;
+  message: string;
+}
+
+// ============================================================================
+// Slots & Conversions
+// ============================================================================
+
+export function getSlotKey(day: DayOfWeekValue, periodId: string): string {
+  return `${day}:${periodId}`;
+}
+
+export function getClassLabel(classInfo: { class_master_name: string; name: string }): string {
+  return `${classInfo.class_master_name} - ${classInfo.name}`;
+}
+
+export function toTimetableCell(entry: TimetableEntry): TimetableCell {
+  return {
+    day_of_week: entry.day_of_week,
+    period_id: entry.period_id,
+    subject_id: entry.subject_info.public_id,
+    subject_name: entry.subject_info.name,
+    subject_code: entry.subject_info.code,
+    teacher_id: entry.teacher_info.public_id,
+    teacher_name: entry.teacher_info.full_name,
+    class_id: entry.class_info.public_id,
+    class_label: getClassLabel(entry.class_info),
+    room: entry.room,
+  };
+}
+
+export function toTimetableCells(entries: TimetableEntry[]): TimetableCells {
+  return Object.fromEntries(
+    entries.map((entry) => [getSlotKey(entry.day_of_week, entry.period_id), toTimetableCell(entry)])
+  );
+}
+
+/**
+ * Cell for a subject assignment dropped onto a slot
+ */
+export function subjectToTimetableCell(
+  subject: Subject,
+  day: DayOfWeekValue,
+  periodId: string,
+  room: string | null = null
+): TimetableCell {
+  return {
+    day_of_week: day,
+    period_id: periodId,
+    subject_id: subject.public_id,
+    subject_name: subject.subject_info.name,
+    subject_code: subject.subject_info.code,
+    teacher_id: subject.teacher_info.public_id,
+    teacher_name: subject.teacher_info.full_name,
+    class_id: subject.class_info.public_id,
+    class_label: getClassLabel(subject.class_info),
+    room,
+  };
+}
+
+export function toEntryPayloads(cells: TimetableCells): TimetableEntryPayload[] {
+  return Object.values(cells).map((cell) => ({
+    day_of_week: cell.day_of_week,
+    period_id: cell.period_id,
+    subject_id: cell.subject_id,
+    room: cell.room?.trim() || null,
+  }));
+}
+
+/**
+ * Stable fingerprint of a timetable, used to tell whether the draft has changed
+ */
+export function getTimetableSignature(cells: TimetableCells): string {
+  return Object.keys(cells)
+    .sort()
+    .map((key) => `${key}=${cells[key].subject_id}@${cells[key].room?.trim() ?? ""}`)
+    .join("|");
+}
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+function normalizeRoom(room: string | null): string {
+  return room?.trim().toLowerCase() ?? "";
+}
+
+function addConflict(
+  conflicts: Map<string, TimetableConflict[]>,
+  conflict: TimetableConflict
+): void {
+  conflicts.set(conflict.slotKey, [...(conflicts.get(conflict.slotKey) ?? []), conflict]);
+}
+
+/**
+ * Find clashes in a section's draft timetable. `otherCells` are the scheduled
+ * periods of every other section, so teacher and room bookings can be checked
+ * across the whole school. Returns the conflicts of each slot by slot key.
+ */
+export function detectTimetableConflicts(
+  draft: TimetableCells,
+  otherCells: TimetableCell[]
+): Map<string, TimetableConflict[]> {
+  const conflicts = new Map<string, TimetableConflict[]>();
+
+  const otherBySlot = new Map<string, TimetableCell[]>();
+  otherCells.forEach((cell) => {
+    const key = getSlotKey(cell.day_of_week, cell.period_id);
+    otherBySlot.set(key, [...(otherBySlot.get(key) ?? []), cell]);
+  });
+
+  Object.entries(draft).forEach(([slotKey, cell]) => {
+    const sameSlot = (otherBySlot.get(slotKey) ?? []).filter(
+      (other) => other.class_id !== cell.class_id
+    );
+
+    sameSlot
+      .filter((other) => other.teacher_id === cell.teacher_id)
+      .forEach((other) => {
+        addConflict(conflicts, {
+          type: TimetableConflictType.TEACHER_DOUBLE_BOOKED,
+          slotKey,
+          message: `${cell.teacher_name} already teaches ${other.subject_name} to ${other.class_label} in this period`,
+        });
+      });
+
+    const room = normalizeRoom(cell.room);
+    if (room) {
+      sameSlot
+        .filter((other) => normalizeRoom(other.room) === room)
+        .forEach((other) => {
+          addConflict(conflicts, {
+            type: TimetableConflictType.ROOM_DOUBLE_BOOKED,
+            slotKey,
+            message: `${cell.room} is already booked by ${other.class_label} in this period`,
+          });
+        });
+    }
+  });
+
+  // A section is over-scheduled when one subject fills too many periods of a day
+  const slotsBySubjectDay = new Map<string, string[]>();
+  Object.entries(draft).forEach(([slotKey, cell]) => {
+    const key = `${cell.day_of_week}:${cell.subject_id}`;
+    slotsBySubjectDay.set(key, [...(slotsBySubjectDay.get(key) ?? []), slotKey]);
+  });
+
+  slotsBySubjectDay.forEach((slotKeys) => {
+    if (slotKeys.length <= MAX_SUBJECT_PERIODS_PER_DAY) {
+      return;
+    }
+    const cell = draft[slotKeys[0]];
+    slotKeys.forEach((slotKey) => {
+      addConflict(conflicts, {
+        type: TimetableConflictType.SUBJECT_OVER_SCHEDULED,
+        slotKey,
+        message: `${cell.subject_name} is scheduled ${slotKeys.length} times on ${
+          DayOfWeekLabels[cell.day_of_week]
+        } (limit ${MAX_SUBJECT_PERIODS_PER_DAY})`,
+      });
+    });
+  });
+
+  return conflicts;
+}
+
+/**
+ * Time range label, e.g. "09:00 - 09:45"
+ */
+export function formatPeriodTime(period: { start_time: string; end_time: string }): string {
+  return `${period.start_time.slice(0, 5)} - ${period.end_time.slice(0, 5)}`;
+}
+
+/**
+ * ISO weekday of a date, or null on Sunday (never part of the timetable)
+ */
+export function getTimetableDay(date: Date = new Date()): DayOfWeekValue | null {
+  const day = date.getDay();
+  return day === 0 ? null : (day as DayOfWeekValue);
+}
+
+/**
+ * A lesson on a given day together with its period, in bell-schedule order
+ */
+export interface DayLesson {
+  period: TimetablePeriod;
+  entry: TimetableEntry;
+}
+
+export function getDayLessons(
+  entries: TimetableEntry[],
+  periods: TimetablePeriod[],
+  day: DayOfWeekValue | null
+): DayLesson[] {
+  if (day === null) {
+    return [];
+  }
+  const periodsById = new Map(periods.map((period) => [period.public_id, period]));
+  return entries
+    .filter((entry) => entry.day_of_week === day && periodsById.has(entry.period_id))
+    .map((entry) => ({ period: periodsById.get(entry.period_id) as TimetablePeriod, entry }))
+    .sort((a, b) => a.period.order - b.period.order);
+}
+
+// ============================================================================
+// Drag & Drop
+// ============================================================================
+
+const TIMETABLE_DRAG_TYPE = "application/x-timetable";
+
+/**
+ * What is being dragged onto the grid: a subject from the palette or a
+ * lesson already placed in another slot
+ */
+export type TimetableDragPayload =
+  | { kind: "subject"; subjectId: string }
+  | { kind: "slot"; slotKey: string };
+
+export function setTimetableDragData(
+  dataTransfer: DataTransfer,
+  payload: TimetableDragPayload
+): void {
+  dataTransfer.setData(TIMETABLE_DRAG_TYPE, JSON.stringify(payload));
+  dataTransfer.effectAllowed = "move";
+}
+
+export function hasTimetableDragData(dataTransfer: DataTransfer): boolean {
+  return dataTransfer.types.includes(TIMETABLE_DRAG_TYPE);
+}
+
+export function getTimetableDragData(dataTransfer: DataTransfer): TimetableDragPayload | null {
+  const raw = dataTransfer.getData(TIMETABLE_DRAG_TYPE);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as TimetableDragPayload;
+  } catch {
+    return null;
+  }
+}
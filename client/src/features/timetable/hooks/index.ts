@@ -0,0 +1,6 @@
+/**
+ * Timetable Feature - Hooks Export
+ */
+
+export * from "./use-timetable";
+export * from "./use-substitutions";
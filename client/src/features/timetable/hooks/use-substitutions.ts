@@ -0,0 +1,100 @@
+/**
+ * Substitution Hooks
+ * React Query hooks for covering periods of teachers on approved leave
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  assignSubstitute,
+  fetchMySubstitutions,
+  fetchSubstituteSuggestions,
+  fetchSubstitutions,
+  removeSubstitute,
+  type AssignSubstitutePayload,
+  type SubstitutionFilters,
+} from "@/lib/api/substitution-api";
+import { QUERY_KEYS } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+/**
+ * Periods affected by approved teacher leave, covered or not
+ */
+export function useSubstitutions(filters: SubstitutionFilters) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.SUBSTITUTIONS, filters],
+    queryFn: () => fetchSubstitutions(filters),
+    refetchOnMount: "always",
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * Teachers free to cover a period on a date, best match first
+ */
+export function useSubstituteSuggestions(entryId: string, date: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.SUBSTITUTE_SUGGESTIONS, entryId, date],
+    queryFn: () => fetchSubstituteSuggestions(entryId, date),
+    enabled: !!entryId && !!date,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Signed-in teacher's cover duties, and own periods being covered, in a date range
+ */
+export function useMySubstitutions(fromDate: string, toDate: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MY_SUBSTITUTIONS, fromDate, toDate],
+    queryFn: () => fetchMySubstitutions(fromDate, toDate),
+    select: (response) => response.data,
+  });
+}
+
+function useInvalidateSubstitutions() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SUBSTITUTIONS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SUBSTITUTE_SUGGESTIONS] });
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_SUBSTITUTIONS] });
+  };
+}
+
+/**
+ * Assign or reassign the substitute covering a period
+ */
+export function useAssignSubstitute(onSuccess?: () => void) {
+  const invalidate = useInvalidateSubstitutions();
+
+  return useMutation({
+    mutationFn: (payload: AssignSubstitutePayload) => assignSubstitute(payload),
+    onSuccess: (response) => {
+      invalidate();
+      toast.success(response.message || "Substitute assigned");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Remove a substitute so the period shows as uncovered again
+ */
+export function useRemoveSubstitute() {
+  const invalidate = useInvalidateSubstitutions();
+
+  return useMutation({
+    mutationFn: (publicId: string) => removeSubstitute(publicId),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Substitute removed");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
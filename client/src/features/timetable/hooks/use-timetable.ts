@@ -0,0 +1,138 @@
+/**
+ * Timetable Hooks
+ * React Query hooks for the bell schedule and weekly timetables
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getSubjects } from "@/lib/api/subject-api";
+import {
+  fetchChildrenTimetables,
+  fetchClassTimetable,
+  fetchAllTimetableEntries,
+  fetchMySchedule,
+  fetchTimetablePeriods,
+  saveClassTimetable,
+  saveTimetablePeriods,
+  type TimetableEntryPayload,
+  type TimetablePeriod,
+  type TimetablePeriodPayload,
+} from "@/lib/api/timetable-api";
+import type { ApiResponse } from "@/lib/api/types";
+import { PAGE_SIZES, QUERY_KEYS, STALE_TIMES } from "@/lib/constants";
+import { getApiErrorMessage } from "@/lib/error-utils";
+
+// Kept outside the hook so React Query can reuse the sorted result between renders
+function sortPeriods(response: ApiResponse<TimetablePeriod[]>): TimetablePeriod[] {
+  return [...response.data].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Periods of the school day, in order
+ */
+export function useTimetablePeriods() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.TIMETABLE_PERIODS],
+    queryFn: fetchTimetablePeriods,
+    staleTime: STALE_TIMES.STATIC,
+    select: sortPeriods,
+  });
+}
+
+/**
+ * Weekly timetable of one section
+ */
+export function useClassTimetable(classId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CLASS_TIMETABLE, classId],
+    queryFn: () => fetchClassTimetable(classId),
+    enabled: !!classId,
+  });
+}
+
+/**
+ * Subject assignments of a section - the building blocks of its timetable
+ */
+export function useClassSubjects(classId: string) {
+  return useQuery({
+    queryKey: ["subjects", "timetable", classId],
+    queryFn: () => getSubjects({ class_assigned__public_id: classId, page_size: PAGE_SIZES.LARGE }),
+    enabled: !!classId,
+    select: (response) => response.data,
+  });
+}
+
+/**
+ * Every scheduled period in the school, used to detect teacher and room clashes.
+ * All pages are fetched; the page size only sets how many requests that takes.
+ */
+export function useAllTimetableEntries() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.TIMETABLE_ENTRIES],
+    queryFn: () => fetchAllTimetableEntries(PAGE_SIZES.EXTRA_LARGE),
+  });
+}
+
+/**
+ * Signed-in teacher's weekly schedule
+ */
+export function useMySchedule() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MY_SCHEDULE],
+    queryFn: fetchMySchedule,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Class timetables of the signed-in parent's children
+ */
+export function useChildrenTimetables() {
+  return useQuery({
+    queryKey: [QUERY_KEYS.CHILDREN_TIMETABLES],
+    queryFn: fetchChildrenTimetables,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Save a section's timetable and refresh every view that shows it
+ */
+export function useSaveClassTimetable(classId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entries: TimetableEntryPayload[]) => saveClassTimetable(classId, entries),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CLASS_TIMETABLE, classId] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TIMETABLE_ENTRIES] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_SCHEDULE] });
+      toast.success("Timetable saved");
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
+
+/**
+ * Save the bell schedule. Removing a period also removes its timetable entries,
+ * so all timetables are refreshed.
+ */
+export function useSaveTimetablePeriods(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (periods: TimetablePeriodPayload[]) => saveTimetablePeriods(periods),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TIMETABLE_PERIODS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.CLASS_TIMETABLE] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TIMETABLE_ENTRIES] });
+      toast.success("Bell schedule saved");
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast.error(getApiErrorMessage(error));
+    },
+  });
+}
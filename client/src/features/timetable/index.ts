@@ -0,0 +1,7 @@
+/**
+ * Timetable Feature - Main Exports
+ */
+
+export * from "./components";
+export * from "./hooks";
+export { getDayLessons, formatPeriodTime, getTimetableDay } from "./helpers/timetable-helpers";
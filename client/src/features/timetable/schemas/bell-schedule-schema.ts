@@ -0,0 +1,36 @@
+import * as z from "zod";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const bellSchedulePeriodSchema = z
+  .object({
+    public_id: z.string().optional(), // Missing for periods added in the dialog
+    name: z.string().trim().min(1, "Name is required").max(50, "Name is too long"),
+    start_time: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+    end_time: z.string().regex(TIME_PATTERN, "Use HH:MM"),
+    is_break: z.boolean(),
+  })
+  .refine((period) => period.start_time < period.end_time, {
+    message: "Must end after it starts",
+    path: ["end_time"],
+  });
+
+export const bellScheduleSchema = z
+  .object({
+    periods: z.array(bellSchedulePeriodSchema).min(1, "Add at least one period"),
+  })
+  .superRefine(({ periods }, ctx) => {
+    periods.forEach((period, index) => {
+      const previous = periods[index - 1];
+      if (previous && period.start_time < previous.end_time) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Overlaps ${previous.name || "the previous period"}`,
+          path: ["periods", index, "start_time"],
+        });
+      }
+    });
+  });
+
+export type BellSchedulePeriodValues = z.infer<typeof bellSchedulePeriodSchema>;
+export type BellScheduleFormValues = z.infer<typeof bellScheduleSchema>;
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { API_ENDPOINTS, refreshAccessToken } from "./api";
+import { getAccessToken, saveTokens } from "./token-store";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("refreshAccessToken", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    localStorage.clear();
+    saveTokens("expired-access", "refresh-token");
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it("sends one refresh request for concurrent callers", async () => {
+    let respond: (response: Response) => void = () => {};
+    fetchMock.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+
+    const first = refreshAccessToken();
+    const second = refreshAccessToken();
+    expect(second).toBe(first);
+
+    respond(jsonResponse({ access: "fresh-access" }));
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      API_ENDPOINTS.auth.refresh,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ refresh: "refresh-token" }),
+      })
+    );
+    expect(getAccessToken()).toBe("fresh-access");
+  });
+
+  it("starts a new request once the previous one has settled", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ access: "first-access" }))
+      .mockResolvedValueOnce(jsonResponse({ data: { access: "second-access" } }));
+
+    await expect(refreshAccessToken()).resolves.toBe(true);
+    await expect(refreshAccessToken()).resolves.toBe(true);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getAccessToken()).toBe("second-access");
+  });
+
+  it("shares a failed refresh with every caller and keeps the old token", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ detail: "Token is invalid" }, 401));
+
+    const results = await Promise.all([refreshAccessToken(), refreshAccessToken()]);
+
+    expect(results).toEqual([false, false]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getAccessToken()).toBe("expired-access");
+  });
+
+  it("does not call the server without a refresh token", async () => {
+    localStorage.clear();
+
+    await expect(refreshAccessToken()).resolves.toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -3,11 +3,29 @@
  * Centralizes all API endpoint configurations and request utilities
  */
 
+import {
+  ApiError,
+  isAbortError,
+  NetworkError,
+  RequestTimeoutError,
+  UnauthorizedError,
+} from "./api/errors";
+import { validateResponse } from "./api/response-validation";
 import { ERROR_MESSAGES } from "./constants";
+import { clearTokens, getAccessToken, getRefreshToken, setAccessToken } from "./token-store";
+import type { ZodTypeAny } from "zod";
 
 // Re-export standard types
 export { isPaginatedResponse, isSuccessResponse } from "./api/types";
 export type { ApiErrorResponse, ApiListResponse, ApiResponse, Pagination } from "./api/types";
+export {
+  ApiError,
+  isAbortError,
+  isApiError,
+  NetworkError,
+  RequestTimeoutError,
+  UnauthorizedError,
+} from "./api/errors";
 
 // Get API base URL from environment variables
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
@@ -53,9 +71,22 @@ export const API_ENDPOINTS = {
     allocations: `${API_BASE_URL}/api/leave/leave-allocations/`,
     allocationDetail: (publicId: string) =>
       `${API_BASE_URL}/api/leave/leave-allocations/${publicId}/`,
+    approvalWorkflows: `${API_BASE_URL}/api/leave/approval-workflows/`,
+    approvalWorkflowDetail: (publicId: string) =>
+      `${API_BASE_URL}/api/leave/approval-workflows/${publicId}/`,
     balances: `${API_BASE_URL}/api/leave/leave-balances/`,
+    balanceLedger: (publicId: string) =>
+      `${API_BASE_URL}/api/leave/leave-balances/${publicId}/ledger/`,
+    accruals: `${API_BASE_URL}/api/leave/accruals/`,
+    accrualPreview: `${API_BASE_URL}/api/leave/accruals/preview/`,
+    rollovers: `${API_BASE_URL}/api/leave/rollovers/`,
+    rolloverPreview: `${API_BASE_URL}/api/leave/rollovers/preview/`,
+    rolloverSummary: (publicId: string) =>
+      `${API_BASE_URL}/api/leave/rollovers/${publicId}/summary/`,
     requests: `${API_BASE_URL}/api/leave/leave-requests/`,
     reviews: `${API_BASE_URL}/api/leave/leave-request-reviews/`,
+    teamCalendar: `${API_BASE_URL}/api/leave/team-calendar/`,
+    children: `${API_BASE_URL}/api/leave/children/`,
   },
   attendance: {
     holidayCalendar: `${API_BASE_URL}/api/attendance/admin/holiday-calendar/`,
@@ -65,6 +96,21 @@ export const API_ENDPOINTS = {
       `${API_BASE_URL}/api/attendance/calendar-exception/${publicId}/`,
     calendarExceptionBulkCreate: `${API_BASE_URL}/api/attendance/calendar-exception/bulk_create_exceptions/`,
     myAttendance: `${API_BASE_URL}/api/attendance/my-attendance/`,
+    geofences: `${API_BASE_URL}/api/attendance/geofences/`,
+    adminGeofences: `${API_BASE_URL}/api/attendance/admin/geofences/`,
+    adminGeofenceDetail: (publicId: string) =>
+      `${API_BASE_URL}/api/attendance/admin/geofences/${publicId}/`,
+    staffAttendance: `${API_BASE_URL}/api/attendance/admin/staff-attendance/`,
+    staffAttendanceDetail: (publicId: string) =>
+      `${API_BASE_URL}/api/attendance/admin/staff-attendance/${publicId}/`,
+    staffAttendanceUser: (userPublicId: string) =>
+      `${API_BASE_URL}/api/attendance/admin/staff-attendance/user/${userPublicId}/`,
+    regularizations: `${API_BASE_URL}/api/attendance/regularization-requests/`,
+    regularizationReviews: `${API_BASE_URL}/api/attendance/regularization-reviews/`,
+    studentAttendanceClass: (classId: string) =>
+      `${API_BASE_URL}/api/attendance/student-attendance/classes/${classId}/`,
+    studentAttendanceBulkMark: `${API_BASE_URL}/api/attendance/student-attendance/bulk-mark/`,
+    studentAttendanceChildren: `${API_BASE_URL}/api/attendance/student-attendance/children/`,
   },
   teacher: {
     list: `${API_BASE_URL}/api/teacher/admin/`,
@@ -80,6 +126,7 @@ export const API_ENDPOINTS = {
   },
   students: {
     list: `${API_BASE_URL}/api/students/`,
+    children: `${API_BASE_URL}/api/students/children/`,
     classLevel: (classId: string) => `${API_BASE_URL}/api/students/classes/${classId}/students/`,
     classDetail: (classId: string, publicId: string) =>
       `${API_BASE_URL}/api/students/classes/${classId}/students/${publicId}/`,
@@ -89,164 +136,119 @@ export const API_ENDPOINTS = {
     downloadTemplate: `${API_BASE_URL}/api/students/bulk-operations/download_template/`,
     exportData: `${API_BASE_URL}/api/students/bulk-operations/export_students_data/`,
   },
+  timetable: {
+    periods: `${API_BASE_URL}/api/timetable/periods/`,
+    entries: `${API_BASE_URL}/api/timetable/entries/`,
+    classTimetable: (classId: string) => `${API_BASE_URL}/api/timetable/classes/${classId}/`,
+    mySchedule: `${API_BASE_URL}/api/timetable/my-schedule/`,
+    children: `${API_BASE_URL}/api/timetable/children/`,
+  },
+  substitutions: {
+    list: `${API_BASE_URL}/api/timetable/substitutions/`,
+    suggestions: `${API_BASE_URL}/api/timetable/substitutions/suggestions/`,
+    detail: (publicId: string) => `${API_BASE_URL}/api/timetable/substitutions/${publicId}/`,
+    mine: `${API_BASE_URL}/api/timetable/substitutions/mine/`,
+  },
+  exams: {
+    list: `${API_BASE_URL}/api/exams/`,
+    detail: (publicId: string) => `${API_BASE_URL}/api/exams/${publicId}/`,
+    transition: (publicId: string, action: string) =>
+      `${API_BASE_URL}/api/exams/${publicId}/${action}/`,
+    papers: (publicId: string) => `${API_BASE_URL}/api/exams/${publicId}/papers/`,
+    paperDetail: (paperId: string) => `${API_BASE_URL}/api/exams/papers/${paperId}/`,
+    marks: (paperId: string) => `${API_BASE_URL}/api/exams/papers/${paperId}/marks/`,
+    myPapers: `${API_BASE_URL}/api/exams/my-papers/`,
+    gradeScales: `${API_BASE_URL}/api/exams/grade-scales/`,
+    gradeScaleDetail: (publicId: string) => `${API_BASE_URL}/api/exams/grade-scales/${publicId}/`,
+    childrenResults: `${API_BASE_URL}/api/exams/children-results/`,
+    reportCardTemplate: `${API_BASE_URL}/api/exams/report-card-template/`,
+    reportCards: (publicId: string) => `${API_BASE_URL}/api/exams/${publicId}/report-cards/`,
+    reportCardRemarks: (publicId: string, studentId: string) =>
+      `${API_BASE_URL}/api/exams/${publicId}/report-cards/${studentId}/remarks/`,
+  },
+  assignments: {
+    list: `${API_BASE_URL}/api/assignments/`,
+    detail: (publicId: string) => `${API_BASE_URL}/api/assignments/${publicId}/`,
+    mySubjects: `${API_BASE_URL}/api/assignments/my-subjects/`,
+    submissions: (publicId: string) => `${API_BASE_URL}/api/assignments/${publicId}/submissions/`,
+    submissionDetail: (publicId: string, studentId: string) =>
+      `${API_BASE_URL}/api/assignments/${publicId}/submissions/${studentId}/`,
+    submit: (publicId: string, studentId: string) =>
+      `${API_BASE_URL}/api/assignments/${publicId}/submissions/${studentId}/submit/`,
+    children: `${API_BASE_URL}/api/assignments/children/`,
+  },
+  messages: {
+    threads: `${API_BASE_URL}/api/messages/threads/`,
+    threadDetail: (publicId: string) => `${API_BASE_URL}/api/messages/threads/${publicId}/`,
+    reply: (publicId: string) => `${API_BASE_URL}/api/messages/threads/${publicId}/messages/`,
+    markRead: (publicId: string) => `${API_BASE_URL}/api/messages/threads/${publicId}/read/`,
+    contacts: `${API_BASE_URL}/api/messages/contacts/`,
+    unreadCount: `${API_BASE_URL}/api/messages/unread-count/`,
+    quietHours: `${API_BASE_URL}/api/messages/quiet-hours/`,
+  },
+  announcements: {
+    list: `${API_BASE_URL}/api/announcements/`,
+    detail: (publicId: string) => `${API_BASE_URL}/api/announcements/${publicId}/`,
+    receipts: (publicId: string) => `${API_BASE_URL}/api/announcements/${publicId}/receipts/`,
+    received: `${API_BASE_URL}/api/announcements/received/`,
+    read: (publicId: string) => `${API_BASE_URL}/api/announcements/${publicId}/read/`,
+    acknowledge: (publicId: string) => `${API_BASE_URL}/api/announcements/${publicId}/acknowledge/`,
+  },
+  notifications: {
+    list: `${API_BASE_URL}/api/notifications/`,
+    read: (publicId: string) => `${API_BASE_URL}/api/notifications/${publicId}/read/`,
+    readAll: `${API_BASE_URL}/api/notifications/read-all/`,
+    stream: `${API_BASE_URL}/api/notifications/stream/`,
+    streamTicket: `${API_BASE_URL}/api/notifications/stream-ticket/`,
+  },
   // Add more endpoints as needed
 } as const;
 
-/**
- * Storage keys for tokens
- */
-export const STORAGE_KEYS = {
-  ACCESS_TOKEN: "access_token",
-  REFRESH_TOKEN: "refresh_token",
-} as const;
+export {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  saveTokens,
+  STORAGE_KEYS,
+} from "./token-store";
 
 /**
- * Get access token from storage
+ * Default time a JSON request may take before it is aborted
  */
-export function getAccessToken(): string | null {
-  return localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-}
+export const REQUEST_TIMEOUT_MS = 30_000;
 
 /**
- * Get refresh token from storage
+ * Default for file uploads and downloads, which can legitimately take minutes
  */
-export function getRefreshToken(): string | null {
-  return localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-}
-
-/**
- * Save tokens to storage
- */
-export function saveTokens(accessToken: string, refreshToken: string): void {
-  localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
-  localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
-}
-
-/**
- * Clear tokens from storage
- */
-export function clearTokens(): void {
-  localStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN);
-  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
-}
+export const TRANSFER_TIMEOUT_MS = 10 * 60_000;
 
 export interface ApiRequestOptions extends RequestInit {
   skipAuth?: boolean;
+  /** Milliseconds before the request is aborted; 0 disables the timeout */
+  timeout?: number;
+  /** Schema the successful response is checked against in development */
+  schema?: ZodTypeAny;
 }
 
 /**
- * Make an authenticated API request to Django backend
+ * In-flight refresh shared by every request that hits a 401, so a burst of
+ * expired requests triggers exactly one call to the refresh endpoint
  */
-export async function apiRequest<T = unknown>(
-  url: string,
-  options: ApiRequestOptions = {}
-): Promise<T> {
-  const { skipAuth, ...fetchOptions } = options;
-  const accessToken = getAccessToken();
-
-  // Prepend base URL if the URL is relative (doesn't start with http)
-  const fullUrl = url.startsWith("http") ? url : `${API_BASE_URL}${url}`;
-
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...(fetchOptions.headers as Record<string, string>),
-  };
-
-  // Add authorization header if token exists and skipAuth is not true
-  if (accessToken && !skipAuth) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
+let refreshPromise: Promise<boolean> | null = null;
 
-  try {
-    const response = await fetch(fullUrl, {
-      ...fetchOptions,
-      headers,
+/**
+ * Refresh the access token using the refresh token (single-flight)
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
     });
-
-    // Handle 401 Unauthorized - try to refresh token (skip for public endpoints)
-    if (response.status === 401 && accessToken && !skipAuth) {
-      const refreshed = await refreshAccessToken();
-      if (refreshed) {
-        // Retry the original request with new token
-        headers["Authorization"] = `Bearer ${getAccessToken()}`;
-        const retryResponse = await fetch(fullUrl, {
-          ...fetchOptions,
-          headers,
-        });
-
-        if (!retryResponse.ok) {
-          const errorData = await retryResponse.json().catch(() => null);
-          throw errorData || new Error(`HTTP ${retryResponse.status}: ${retryResponse.statusText}`);
-        }
-
-        return await retryResponse.json();
-      } else {
-        // Refresh failed, clear tokens and throw error
-        clearTokens();
-        throw new Error(ERROR_MESSAGES.AUTH_FAILED);
-      }
-    }
-
-    // Handle 204 No Content - no body to parse (check before trying to parse body)
-    if (response.status === 204) {
-      return {
-        success: true,
-        message: "Success",
-        code: 204,
-        data: null,
-      } as T;
-    }
-
-    // Try to parse response body (even for errors)
-    let responseData;
-    const contentType = response.headers.get("content-type");
-
-    if (contentType && contentType.includes("application/json")) {
-      responseData = await response.json();
-    } else {
-      const text = await response.text();
-      try {
-        responseData = JSON.parse(text);
-      } catch {
-        responseData = text;
-      }
-    }
-
-    // If response is not ok, throw the parsed response data
-    if (!response.ok) {
-      if (responseData && typeof responseData === "object") {
-        throw responseData;
-      }
-      throw {
-        success: false,
-        message: responseData || response.statusText || "Request failed",
-        code: response.status,
-        errors: null,
-        data: null,
-      };
-    }
-
-    return responseData;
-  } catch (error) {
-    // If it's already a structured error, re-throw it
-    if (error && typeof error === "object" && "code" in error) {
-      throw error;
-    }
-
-    throw {
-      success: false,
-      message: error instanceof Error ? error.message : "Network error occurred",
-      code: 0,
-      errors: error,
-      data: null,
-    };
   }
+  return refreshPromise;
 }
 
-/**
- * Refresh the access token using the refresh token
- */
-async function refreshAccessToken(): Promise<boolean> {
+async function performTokenRefresh(): Promise<boolean> {
   const refreshToken = getRefreshToken();
 
   if (!refreshToken) {
@@ -267,9 +269,10 @@ async function refreshAccessToken(): Promise<boolean> {
     }
 
     const data = await response.json();
+    const access = data.access ?? data.data?.access;
 
-    if (data.access) {
-      localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.access);
+    if (access) {
+      setAccessToken(access);
       return true;
     }
 
@@ -280,6 +283,155 @@ async function refreshAccessToken(): Promise<boolean> {
   }
 }
 
+/**
+ * Run a single fetch with the caller's AbortSignal and a timeout.
+ * A caller abort re-throws the native AbortError so React Query can treat it
+ * as a cancellation; a timeout surfaces as RequestTimeoutError.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal | null
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const abortFromCaller = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    abortFromCaller();
+  } else {
+    signal?.addEventListener("abort", abortFromCaller);
+  }
+
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new RequestTimeoutError();
+    }
+    if (isAbortError(error) || signal?.aborted) {
+      throw error;
+    }
+    throw new NetworkError(ERROR_MESSAGES.NETWORK_ERROR, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+}
+
+/**
+ * Make an authenticated request and return the raw Response.
+ * Adds the bearer token, refreshes it once on 401 and retries, and applies the
+ * timeout (TRANSFER_TIMEOUT_MS unless given). Use this for blobs and multipart
+ * uploads; use `apiRequest` for JSON.
+ */
+export async function authorizedFetch(
+  url: string,
+  options: ApiRequestOptions = {}
+): Promise<Response> {
+  const {
+    skipAuth,
+    timeout = TRANSFER_TIMEOUT_MS,
+    signal,
+    schema: _schema,
+    ...fetchOptions
+  } = options;
+
+  // Prepend base URL if the URL is relative (doesn't start with http)
+  const fullUrl = url.startsWith("http") ? url : `${API_BASE_URL}${url}`;
+
+  const headers: Record<string, string> = {
+    ...(fetchOptions.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+    ...(fetchOptions.headers as Record<string, string>),
+  };
+
+  const send = (accessToken: string | null) => {
+    // Add authorization header if token exists and skipAuth is not true
+    if (accessToken && !skipAuth) {
+      headers["Authorization"] = `Bearer ${accessToken}`;
+    }
+    return fetchWithTimeout(fullUrl, { ...fetchOptions, headers }, timeout, signal);
+  };
+
+  const accessToken = getAccessToken();
+  const response = await send(accessToken);
+
+  // Handle 401 Unauthorized - try to refresh token (skip for public endpoints)
+  if (response.status === 401 && accessToken && !skipAuth) {
+    const refreshed = await refreshAccessToken();
+    if (!refreshed) {
+      // Refresh failed, clear tokens so every listener signs the user out
+      clearTokens();
+      throw new UnauthorizedError();
+    }
+    // Retry the original request with new token
+    return send(getAccessToken());
+  }
+
+  return response;
+}
+
+/**
+ * Make an authenticated API request to Django backend. JSON bodies time out
+ * after REQUEST_TIMEOUT_MS; multipart uploads get TRANSFER_TIMEOUT_MS.
+ */
+export async function apiRequest<T = unknown>(
+  url: string,
+  options: ApiRequestOptions = {}
+): Promise<T> {
+  const response = await authorizedFetch(url, {
+    ...options,
+    timeout:
+      options.timeout ??
+      (options.body instanceof FormData ? TRANSFER_TIMEOUT_MS : REQUEST_TIMEOUT_MS),
+  });
+
+  // Handle 204 No Content - no body to parse (check before trying to parse body)
+  if (response.status === 204) {
+    return {
+      success: true,
+      message: "Success",
+      code: 204,
+      data: null,
+    } as T;
+  }
+
+  // Try to parse response body (even for errors)
+  let responseData;
+  const contentType = response.headers.get("content-type");
+
+  if (contentType && contentType.includes("application/json")) {
+    responseData = await response.json();
+  } else {
+    const text = await response.text();
+    try {
+      responseData = JSON.parse(text);
+    } catch {
+      responseData = text;
+    }
+  }
+
+  // If response is not ok, throw a typed error carrying the parsed body
+  if (!response.ok) {
+    throw ApiError.fromResponse(response.status, response.statusText, responseData);
+  }
+
+  if (options.schema) {
+    validateResponse(options.schema, responseData, { url, method: options.method });
+  }
+
+  return responseData;
+}
+
 /**
  * Convenience methods for common HTTP methods
  */
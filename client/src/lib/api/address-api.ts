@@ -4,43 +4,13 @@
  */
 
 import { apiRequest } from "../api";
+import { userWithAddressResponseSchema } from "./schemas/address-schema";
+import type { Address, UserWithAddress } from "./schemas/address-schema";
+import type { ApiResponse } from "./types";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
 
-export interface Address {
-  public_id?: string;
-  id?: number;
-  address_type?: string;
-  street_address: string;
-  address_line_2?: string;
-  city: string;
-  state: string;
-  zip_code?: string;
-  postal_code?: string;
-  country: string;
-  latitude?: number | string | null;
-  longitude?: number | string | null;
-  full_address?: string;
-  location?: unknown | null;
-  is_primary?: boolean;
-  created_at?: string;
-  updated_at?: string;
-}
-
-interface UserWithAddress {
-  public_id: string;
-  username: string;
-  first_name: string;
-  last_name: string;
-  address: Address;
-}
-
-interface ApiResponse {
-  success: boolean;
-  message: string;
-  data: UserWithAddress;
-  code: number;
-}
+export type { Address } from "./schemas/address-schema";
 
 /**
  * Update/Add user address
@@ -53,11 +23,12 @@ export async function updateUserAddress(
 ): Promise<Address> {
   try {
     // Backend expects address data wrapped under "address" key
-    const response = await apiRequest<ApiResponse>(
+    const response = await apiRequest<ApiResponse<UserWithAddress>>(
       `${API_BASE_URL}/api/users/profile/${userPublicId}/update-address/`,
       {
         method: "PATCH",
         body: JSON.stringify({ address: addressData }),
+        schema: userWithAddressResponseSchema,
       }
     );
 
@@ -0,0 +1,216 @@
+/**
+ * Announcement API Functions
+ * Handles announcements and circulars targeted at roles, organization roles,
+ * classes or sections, the announcements a user has received, and the read
+ * and acknowledgement receipts senders track
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import {
+  announcementReceiptsResponseSchema,
+  announcementResponseSchema,
+  announcementsResponseSchema,
+  receivedAnnouncementResponseSchema,
+  receivedAnnouncementsResponseSchema,
+} from "./schemas/announcement-schema";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import type {
+  Announcement,
+  AnnouncementAudience,
+  AnnouncementReceipts,
+  ReceivedAnnouncement,
+} from "./schemas/announcement-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  Announcement,
+  AnnouncementAudience,
+  AnnouncementReceipt,
+  AnnouncementReceipts,
+  ReceivedAnnouncement,
+} from "./schemas/announcement-schema";
+
+export interface AnnouncementPayload {
+  title: string;
+  body: string;
+  audience: AnnouncementAudience;
+  requires_acknowledgement: boolean;
+  publish_at: string | null; // ISO datetime; null publishes straight away
+  expires_at: string | null; // ISO datetime; null never expires
+}
+
+export interface AnnouncementFilters {
+  search?: string;
+  status?: string;
+  page?: number;
+  page_size?: number;
+  [key: string]: string | number | undefined;
+}
+
+// ============================================================================
+// Announcements
+// ============================================================================
+
+/**
+ * Fetch announcements, latest publish time first
+ */
+export async function fetchAnnouncements(
+  filters?: AnnouncementFilters
+): Promise<ApiListResponse<Announcement>> {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const url = `${API_ENDPOINTS.announcements.list}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiListResponse<Announcement>>(url, {
+    method: "GET",
+    schema: announcementsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch announcements");
+  }
+
+  return response;
+}
+
+/**
+ * Create an announcement, or update it when `publicId` is given
+ */
+export async function saveAnnouncement(
+  payload: AnnouncementPayload,
+  publicId?: string
+): Promise<ApiResponse<Announcement>> {
+  const response = await apiRequest<ApiResponse<Announcement>>(
+    publicId ? API_ENDPOINTS.announcements.detail(publicId) : API_ENDPOINTS.announcements.list,
+    {
+      method: publicId ? "PATCH" : "POST",
+      schema: announcementResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save announcement");
+  }
+
+  return response;
+}
+
+/**
+ * Delete an announcement along with its receipts
+ */
+export async function deleteAnnouncement(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(
+    API_ENDPOINTS.announcements.detail(publicId),
+    {
+      method: "DELETE",
+      schema: emptyResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete announcement");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch an announcement with the receipt of every recipient
+ */
+export async function fetchAnnouncementReceipts(
+  publicId: string
+): Promise<ApiResponse<AnnouncementReceipts>> {
+  const response = await apiRequest<ApiResponse<AnnouncementReceipts>>(
+    API_ENDPOINTS.announcements.receipts(publicId),
+    {
+      method: "GET",
+      schema: announcementReceiptsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch read receipts");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Recipients
+// ============================================================================
+
+/**
+ * Fetch the published announcements addressed to the signed-in user, newest first
+ */
+export async function fetchReceivedAnnouncements(): Promise<ApiResponse<ReceivedAnnouncement[]>> {
+  const response = await apiRequest<ApiResponse<ReceivedAnnouncement[]>>(
+    API_ENDPOINTS.announcements.received,
+    {
+      method: "GET",
+      schema: receivedAnnouncementsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch announcements");
+  }
+
+  return response;
+}
+
+/**
+ * Record that the signed-in user opened an announcement
+ */
+export async function markAnnouncementRead(
+  publicId: string
+): Promise<ApiResponse<ReceivedAnnouncement>> {
+  const response = await apiRequest<ApiResponse<ReceivedAnnouncement>>(
+    API_ENDPOINTS.announcements.read(publicId),
+    {
+      method: "POST",
+      schema: receivedAnnouncementResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to mark announcement as read");
+  }
+
+  return response;
+}
+
+/**
+ * Acknowledge a circular that asks for it
+ */
+export async function acknowledgeAnnouncement(
+  publicId: string
+): Promise<ApiResponse<ReceivedAnnouncement>> {
+  const response = await apiRequest<ApiResponse<ReceivedAnnouncement>>(
+    API_ENDPOINTS.announcements.acknowledge(publicId),
+    {
+      method: "POST",
+      schema: receivedAnnouncementResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to acknowledge announcement");
+  }
+
+  return response;
+}
@@ -0,0 +1,280 @@
+/**
+ * Assignment API Functions
+ * Handles homework assignments with their attachments, the per-student
+ * submissions teachers track and grade, and the homework parents see
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import {
+  assignmentResponseSchema,
+  assignmentsResponseSchema,
+  assignmentSubjectsResponseSchema,
+  assignmentSubmissionsResponseSchema,
+  childrenAssignmentsResponseSchema,
+  submissionResponseSchema,
+} from "./schemas/assignment-schema";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import type {
+  Assignment,
+  AssignmentSubject,
+  AssignmentSubmissions,
+  ChildAssignments,
+  Submission,
+} from "./schemas/assignment-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  Assignment,
+  AssignmentSubject,
+  AssignmentSubmissions,
+  Attachment,
+  ChildAssignment,
+  ChildAssignments,
+  Submission,
+} from "./schemas/assignment-schema";
+
+export interface AssignmentPayload {
+  subject_id: string; // Subject assignment public_id
+  title: string;
+  instructions: string;
+  due_date: string; // YYYY-MM-DD
+  max_marks: number | null;
+  attachments: File[]; // New files to upload
+  removed_attachment_ids?: string[]; // Existing attachments to drop on update
+}
+
+export interface AssignmentFilters {
+  search?: string;
+  class_id?: string;
+  subject_id?: string;
+  page?: number;
+  page_size?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface GradeSubmissionPayload {
+  is_submitted: boolean; // Record work handed in on paper
+  marks_obtained: number | null;
+  feedback: string;
+}
+
+export interface HomeworkSubmissionPayload {
+  content: string;
+  attachments: File[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toAssignmentFormData(payload: AssignmentPayload): FormData {
+  const formData = new FormData();
+  formData.append("subject_id", payload.subject_id);
+  formData.append("title", payload.title);
+  formData.append("instructions", payload.instructions);
+  formData.append("due_date", payload.due_date);
+  formData.append("max_marks", payload.max_marks === null ? "" : String(payload.max_marks));
+  payload.attachments.forEach((file) => formData.append("attachments", file));
+  payload.removed_attachment_ids?.forEach((id) => formData.append("removed_attachment_ids", id));
+  return formData;
+}
+
+// ============================================================================
+// Assignments
+// ============================================================================
+
+/**
+ * Fetch assignments, latest due date first. Teachers only get their own.
+ */
+export async function fetchAssignments(
+  filters?: AssignmentFilters
+): Promise<ApiListResponse<Assignment>> {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const url = `${API_ENDPOINTS.assignments.list}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiListResponse<Assignment>>(url, {
+    method: "GET",
+    schema: assignmentsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch assignments");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the signed-in teacher's subject assignments homework can be set for
+ */
+export async function fetchAssignmentSubjects(): Promise<ApiResponse<AssignmentSubject[]>> {
+  const response = await apiRequest<ApiResponse<AssignmentSubject[]>>(
+    API_ENDPOINTS.assignments.mySubjects,
+    {
+      method: "GET",
+      schema: assignmentSubjectsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch your subjects");
+  }
+
+  return response;
+}
+
+/**
+ * Create an assignment, or update it when `publicId` is given. Sent as
+ * multipart so new attachments upload with the rest of the form.
+ */
+export async function saveAssignment(
+  payload: AssignmentPayload,
+  publicId?: string
+): Promise<ApiResponse<Assignment>> {
+  const response = await apiRequest<ApiResponse<Assignment>>(
+    publicId ? API_ENDPOINTS.assignments.detail(publicId) : API_ENDPOINTS.assignments.list,
+    {
+      method: publicId ? "PATCH" : "POST",
+      schema: assignmentResponseSchema,
+      body: toAssignmentFormData(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save assignment");
+  }
+
+  return response;
+}
+
+/**
+ * Delete an assignment along with its submissions
+ */
+export async function deleteAssignment(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.assignments.detail(publicId), {
+    method: "DELETE",
+    schema: emptyResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete assignment");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Submissions
+// ============================================================================
+
+/**
+ * Fetch an assignment with the submission status of every student in its section
+ */
+export async function fetchAssignmentSubmissions(
+  publicId: string
+): Promise<ApiResponse<AssignmentSubmissions>> {
+  const response = await apiRequest<ApiResponse<AssignmentSubmissions>>(
+    API_ENDPOINTS.assignments.submissions(publicId),
+    {
+      method: "GET",
+      schema: assignmentSubmissionsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch submissions");
+  }
+
+  return response;
+}
+
+/**
+ * Grade a student's submission, or record work handed in on paper
+ */
+export async function gradeSubmission(
+  publicId: string,
+  studentId: string,
+  payload: GradeSubmissionPayload
+): Promise<ApiResponse<Submission>> {
+  const response = await apiRequest<ApiResponse<Submission>>(
+    API_ENDPOINTS.assignments.submissionDetail(publicId, studentId),
+    {
+      method: "PUT",
+      schema: submissionResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to grade submission");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Parents
+// ============================================================================
+
+/**
+ * Fetch the homework of the signed-in parent's children
+ */
+export async function fetchChildrenAssignments(): Promise<ApiResponse<ChildAssignments[]>> {
+  const response = await apiRequest<ApiResponse<ChildAssignments[]>>(
+    API_ENDPOINTS.assignments.children,
+    {
+      method: "GET",
+      schema: childrenAssignmentsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch homework");
+  }
+
+  return response;
+}
+
+/**
+ * Hand in a child's homework with an answer and attachments. Rejected once
+ * the submission has been graded.
+ */
+export async function submitHomework(
+  publicId: string,
+  studentId: string,
+  payload: HomeworkSubmissionPayload
+): Promise<ApiResponse<Submission>> {
+  const formData = new FormData();
+  formData.append("content", payload.content);
+  payload.attachments.forEach((file) => formData.append("attachments", file));
+
+  const response = await apiRequest<ApiResponse<Submission>>(
+    API_ENDPOINTS.assignments.submit(publicId, studentId),
+    {
+      method: "POST",
+      schema: submissionResponseSchema,
+      body: formData,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to submit homework");
+  }
+
+  return response;
+}
@@ -3,62 +3,87 @@
  * API functions for attendance management
  */
 
-import { API_ENDPOINTS, apiRequest, type ApiResponse } from "@/lib/api";
+import { API_ENDPOINTS, apiRequest, type ApiListResponse, type ApiResponse } from "@/lib/api";
+import {
+  attendanceRecordResponseSchema,
+  attendanceRecordsResponseSchema,
+  childrenAttendanceResponseSchema,
+  classAttendanceResponseSchema,
+  markStudentAttendanceResponseSchema,
+  myAttendanceResponseSchema,
+  todayAttendanceResponseSchema,
+} from "./schemas/attendance-schema";
+import type {
+  AttendanceRecord,
+  ChildAttendance,
+  ClassAttendanceResponse,
+  MarkStudentAttendanceResponse,
+  MyAttendanceResponse,
+  StudentAttendanceStatus,
+  TodayAttendanceResponse,
+} from "./schemas/attendance-schema";
 
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
 
-export interface AttendanceRecord {
-  public_id: string;
-  user: {
-    public_id: string;
-    name: string;
-    email: string;
-    role: string;
-  };
-  date: string;
-  check_in_time: string | null;
-  check_out_time: string | null;
-  status: "PRESENT" | "ABSENT" | "HALF_DAY" | "ON_LEAVE";
-  work_hours: number;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface AttendanceSummary {
-  total_days: number;
-  present_days: number;
-  absent_days: number;
-  half_days: number;
-  leave_days: number;
-  attendance_percentage: number;
-}
-
-export interface MyAttendanceResponse {
-  records: AttendanceRecord[];
-  summary: AttendanceSummary;
-}
+export type {
+  AttendanceRecord,
+  AttendanceSummary,
+  ChildAttendance,
+  ClassAttendanceResponse,
+  MarkStudentAttendanceResponse,
+  MyAttendanceResponse,
+  StudentAttendanceRecord,
+  StudentAttendanceStatus,
+  TodayAttendanceResponse,
+} from "./schemas/attendance-schema";
 
 export interface CheckInPayload {
   latitude?: number;
   longitude?: number;
+  accuracy?: number; // Reported GPS accuracy in meters
   notes?: string;
 }
 
 export interface CheckOutPayload {
   latitude?: number;
   longitude?: number;
+  accuracy?: number; // Reported GPS accuracy in meters
   notes?: string;
 }
 
-export interface TodayAttendanceResponse {
-  has_checked_in: boolean;
-  has_checked_out: boolean;
-  check_in_time: string | null;
-  check_out_time: string | null;
-  status: string | null;
-  work_hours: number | null;
+export interface StaffAttendanceFilters {
+  page?: number;
+  page_size?: number;
+  start_date?: string;
+  end_date?: string;
+  role?: string;
+  status?: string;
+  user?: string;
+  outside_geofence?: string;
+  search?: string;
+  ordering?: string;
+  [key: string]: string | number | undefined;
+}
+
+export interface AttendanceCorrectionPayload {
+  status?: AttendanceRecord["status"];
+  check_in_time?: string | null; // ISO datetime
+  check_out_time?: string | null; // ISO datetime
+  remarks: string; // Reason for the correction
+}
+
+export interface StudentAttendanceEntry {
+  student: string; // Student public_id
+  status: StudentAttendanceStatus;
+  remarks?: string;
+}
+
+export interface MarkStudentAttendancePayload {
+  class_id: string;
+  date: string; // YYYY-MM-DD
+  records: StudentAttendanceEntry[];
 }
 
 // ============================================================================
@@ -73,6 +98,7 @@ export async function getTodayAttendance(): Promise<ApiResponse<TodayAttendanceR
     `${API_ENDPOINTS.attendance.myAttendance}today/`,
     {
       method: "GET",
+      schema: todayAttendanceResponseSchema,
     }
   );
 
@@ -89,6 +115,7 @@ export async function checkIn(
     `${API_ENDPOINTS.attendance.myAttendance}check-in/`,
     {
       method: "POST",
+      schema: attendanceRecordResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -110,6 +137,7 @@ export async function checkOut(
     `${API_ENDPOINTS.attendance.myAttendance}check-out/`,
     {
       method: "POST",
+      schema: attendanceRecordResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -147,7 +175,166 @@ export async function getMyAttendance(params?: {
 
   const response = await apiRequest<ApiResponse<MyAttendanceResponse>>(url, {
     method: "GET",
+    schema: myAttendanceResponseSchema,
   });
 
   return response;
 }
+
+// ============================================================================
+// Student Attendance Functions
+// ============================================================================
+
+/**
+ * Get attendance already marked for a class (section) on a given date
+ */
+export async function getClassAttendance(
+  classId: string,
+  date: string
+): Promise<ApiResponse<ClassAttendanceResponse>> {
+  const response = await apiRequest<ApiResponse<ClassAttendanceResponse>>(
+    `${API_ENDPOINTS.attendance.studentAttendanceClass(classId)}?date=${date}`,
+    {
+      method: "GET",
+      schema: classAttendanceResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch class attendance");
+  }
+
+  return response;
+}
+
+/**
+ * Submit (create or overwrite) student attendance for a class on a given date
+ */
+export async function submitStudentAttendance(
+  payload: MarkStudentAttendancePayload
+): Promise<ApiResponse<MarkStudentAttendanceResponse>> {
+  const response = await apiRequest<ApiResponse<MarkStudentAttendanceResponse>>(
+    API_ENDPOINTS.attendance.studentAttendanceBulkMark,
+    {
+      method: "POST",
+      schema: markStudentAttendanceResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to submit attendance");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the class attendance of the signed-in parent's children
+ */
+export async function getChildrenAttendance(): Promise<ApiResponse<ChildAttendance[]>> {
+  const response = await apiRequest<ApiResponse<ChildAttendance[]>>(
+    API_ENDPOINTS.attendance.studentAttendanceChildren,
+    {
+      method: "GET",
+      schema: childrenAttendanceResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch attendance");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Staff Attendance Functions (Admin)
+// ============================================================================
+
+/**
+ * Fetch the staff attendance register with filtering and pagination
+ */
+export async function fetchStaffAttendance(
+  filters?: StaffAttendanceFilters
+): Promise<ApiListResponse<AttendanceRecord>> {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const url = `${API_ENDPOINTS.attendance.staffAttendance}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiListResponse<AttendanceRecord>>(url, {
+    method: "GET",
+    schema: attendanceRecordsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch staff attendance");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch attendance history and summary for a single staff member
+ */
+export async function fetchUserAttendance(
+  userPublicId: string,
+  params?: { start_date?: string; end_date?: string }
+): Promise<ApiResponse<MyAttendanceResponse>> {
+  const queryParams = new URLSearchParams();
+
+  if (params?.start_date) {
+    queryParams.append("start_date", params.start_date);
+  }
+  if (params?.end_date) {
+    queryParams.append("end_date", params.end_date);
+  }
+
+  const url = `${API_ENDPOINTS.attendance.staffAttendanceUser(userPublicId)}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiResponse<MyAttendanceResponse>>(url, {
+    method: "GET",
+    schema: myAttendanceResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch user attendance");
+  }
+
+  return response;
+}
+
+/**
+ * Manually correct a staff attendance record
+ */
+export async function correctAttendanceRecord(
+  publicId: string,
+  payload: AttendanceCorrectionPayload
+): Promise<ApiResponse<AttendanceRecord>> {
+  const response = await apiRequest<ApiResponse<AttendanceRecord>>(
+    API_ENDPOINTS.attendance.staffAttendanceDetail(publicId),
+    {
+      method: "PATCH",
+      schema: attendanceRecordResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to correct attendance record");
+  }
+
+  return response;
+}
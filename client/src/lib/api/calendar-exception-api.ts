@@ -4,6 +4,11 @@
  */
 
 import { api, API_ENDPOINTS } from "../api";
+import {
+  bulkCreateCalendarExceptionsResponseSchema,
+  calendarExceptionResponseSchema,
+  calendarExceptionsResponseSchema,
+} from "./schemas/calendar-exception-schema";
 import type {
   BulkCreateCalendarExceptionsRequest,
   BulkCreateCalendarExceptionsResponse,
@@ -69,7 +74,9 @@ export async function fetchCalendarExceptions(
     ? `${API_ENDPOINTS.attendance.calendarException}?${queryString}`
     : API_ENDPOINTS.attendance.calendarException;
 
-  const response = await api.get<ApiListResponse<CalendarException>>(url);
+  const response = await api.get<ApiListResponse<CalendarException>>(url, {
+    schema: calendarExceptionsResponseSchema,
+  });
   return response;
 }
 
@@ -78,7 +85,8 @@ export async function fetchCalendarExceptions(
  */
 export async function fetchCalendarException(publicId: string): Promise<CalendarException> {
   const response = await api.get<ApiResponse<CalendarException>>(
-    API_ENDPOINTS.attendance.calendarExceptionDetail(publicId)
+    API_ENDPOINTS.attendance.calendarExceptionDetail(publicId),
+    { schema: calendarExceptionResponseSchema }
   );
   return response.data;
 }
@@ -91,7 +99,8 @@ export async function createCalendarException(
 ): Promise<CalendarException> {
   const response = await api.post<ApiResponse<CalendarException>>(
     API_ENDPOINTS.attendance.calendarException,
-    data
+    data,
+    { schema: calendarExceptionResponseSchema }
   );
   return response.data;
 }
@@ -105,7 +114,8 @@ export async function updateCalendarException(
 ): Promise<CalendarException> {
   const response = await api.put<ApiResponse<CalendarException>>(
     API_ENDPOINTS.attendance.calendarExceptionDetail(publicId),
-    data
+    data,
+    { schema: calendarExceptionResponseSchema }
   );
   return response.data;
 }
@@ -119,7 +129,8 @@ export async function patchCalendarException(
 ): Promise<CalendarException> {
   const response = await api.patch<ApiResponse<CalendarException>>(
     API_ENDPOINTS.attendance.calendarExceptionDetail(publicId),
-    data
+    data,
+    { schema: calendarExceptionResponseSchema }
   );
   return response.data;
 }
@@ -139,7 +150,8 @@ export async function bulkCreateCalendarExceptions(
 ): Promise<BulkCreateCalendarExceptionsResponse> {
   const response = await api.post<ApiResponse<BulkCreateCalendarExceptionsResponse>>(
     API_ENDPOINTS.attendance.calendarExceptionBulkCreate,
-    data
+    data,
+    { schema: bulkCreateCalendarExceptionsResponseSchema }
   );
   return response.data;
 }
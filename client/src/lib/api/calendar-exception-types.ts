@@ -3,19 +3,13 @@
  * Type definitions for calendar exceptions API
  */
 
-export type OverrideType = "FORCE_WORKING" | "FORCE_HOLIDAY";
+import type { OverrideType } from "./schemas/calendar-exception-schema";
 
-export interface CalendarException {
-  public_id: string;
-  organization: string;
-  is_applicable_to_all_classes: boolean;
-  classes: string[];
-  date: string;
-  override_type: OverrideType;
-  reason: string;
-  created_at: string;
-  updated_at: string;
-}
+export type {
+  BulkCreateCalendarExceptionsResponse,
+  CalendarException,
+  OverrideType,
+} from "./schemas/calendar-exception-schema";
 
 export interface CalendarExceptionCreate {
   is_applicable_to_all_classes: boolean;
@@ -36,8 +30,3 @@ export interface CalendarExceptionUpdate {
 export interface BulkCreateCalendarExceptionsRequest {
   exceptions: CalendarExceptionCreate[];
 }
-
-export interface BulkCreateCalendarExceptionsResponse {
-  created_count: number;
-  exceptions: CalendarException[];
-}
@@ -3,8 +3,16 @@
  * Handles all API calls related to classes (sections) management
  */
 
-import { API_ENDPOINTS, apiRequest, getAccessToken } from "@/lib/api";
+import { API_ENDPOINTS, apiRequest, authorizedFetch } from "@/lib/api";
 import { ERROR_MESSAGES } from "@/lib/constants";
+import {
+  classesResponseSchema,
+  classResponseSchema,
+  coreClassesResponseSchema,
+  createClassResponseSchema,
+} from "./schemas/class-schema";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import type { CoreClass, MasterClass } from "./schemas/class-schema";
 import type { ApiListResponse, ApiResponse } from "./types";
 
 // Re-export for convenience
@@ -14,59 +22,7 @@ export { API_ENDPOINTS, apiRequest };
 // Types & Interfaces
 // ============================================================================
 
-/**
- * Core Class (Grade/Level) from /api/core/classes/
- * These are the base classes like Pre-KG, LKG, Class 1, etc.
- */
-export interface CoreClass {
-  id: number;
-  name: string; // e.g., "Pre-KG", "Class 1", "Class 10"
-  code: string; // e.g., "PRE_KG", "CLASS_1", "CLASS_10"
-  display_order: number;
-  description: string;
-}
-
-/**
- * Master Class (Section) from /api/classes/admin/
- * These are the actual sections like "Class 1 - A", "Class 10 - B"
- */
-export interface MasterClass {
-  public_id: string;
-  class_master: {
-    id: number;
-    name: string;
-    code: string;
-    display_order: number;
-  };
-  name: string;
-  organization: {
-    public_id: string;
-    name: string;
-    email: string;
-    phone: string;
-    admin_name: string;
-    admin_public_id: string;
-  };
-  class_teacher: {
-    public_id: string;
-    email: string;
-    full_name: string;
-    first_name: string;
-    last_name: string;
-    employee_id: string;
-    specialization: string;
-    designation: string;
-  } | null;
-  info: string | null; // Description
-  capacity: number | null;
-  student_count: number;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string | null;
-  created_by_name: string | null;
-  updated_by_public_id: string | null;
-  updated_by_name: string | null;
-}
+export type { CoreClass, MasterClass } from "./schemas/class-schema";
 
 export interface ClassCreatePayload {
   class_master: number;
@@ -116,6 +72,7 @@ export async function fetchCoreClasses(params?: {
 
   const response = await apiRequest<CoreClassesResponse>(url, {
     method: "GET",
+    schema: coreClassesResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -167,6 +124,7 @@ export async function fetchClasses(params?: {
 
   const response = await apiRequest<ClassesResponse>(url, {
     method: "GET",
+    schema: classesResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -182,6 +140,7 @@ export async function fetchClasses(params?: {
 export async function fetchClass(publicId: string): Promise<ClassResponse> {
   const response = await apiRequest<ClassResponse>(API_ENDPOINTS.classes.detail(publicId), {
     method: "GET",
+    schema: classResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -205,6 +164,7 @@ export async function createClass(
 
   const response = await apiRequest<ClassResponse | ApiResponse<MasterClass[]>>(url, {
     method: "POST",
+    schema: createClassResponseSchema,
     body: JSON.stringify(payload),
   });
 
@@ -283,6 +243,7 @@ export async function updateClass(
 ): Promise<ClassResponse> {
   const response = await apiRequest<ClassResponse>(API_ENDPOINTS.classes.detail(publicId), {
     method: "PATCH",
+    schema: classResponseSchema,
     body: JSON.stringify(payload),
   });
 
@@ -312,6 +273,7 @@ export async function updateClass(
 export async function deleteClass(publicId: string): Promise<ApiResponse<null>> {
   const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.classes.detail(publicId), {
     method: "DELETE",
+    schema: emptyResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -327,6 +289,7 @@ export async function deleteClass(publicId: string): Promise<ApiResponse<null>>
 export async function reactivateClass(publicId: string): Promise<ApiResponse<null>> {
   const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.classes.activate(publicId), {
     method: "POST",
+    schema: emptyResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -342,13 +305,8 @@ export async function reactivateClass(publicId: string): Promise<ApiResponse<nul
 export async function downloadClassTemplate(isLimitedFields: boolean = false): Promise<Blob> {
   const queryParams = isLimitedFields ? "?is_limited_fields_only=true" : "";
   const url = `${API_ENDPOINTS.classes.downloadTemplate}${queryParams}`;
-  const accessToken = getAccessToken();
-
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "GET",
-    headers: {
-      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
-    },
     credentials: "include",
   });
 
@@ -366,16 +324,9 @@ export async function downloadClassTemplate(isLimitedFields: boolean = false): P
 export async function bulkUploadClasses(file: File): Promise<unknown> {
   const formData = new FormData();
   formData.append("file", file);
-  const accessToken = getAccessToken();
-
-  const headers: HeadersInit = {};
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
 
-  const response = await fetch(API_ENDPOINTS.classes.bulkUpload, {
+  const response = await authorizedFetch(API_ENDPOINTS.classes.bulkUpload, {
     method: "POST",
-    headers,
     body: formData,
     credentials: "include",
   });
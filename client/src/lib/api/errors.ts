@@ -0,0 +1,118 @@
+/**
+ * API Error Types
+ * Typed errors thrown by the HTTP client. They keep the shape of the standard
+ * error envelope (success, message, code, errors) so existing error parsers
+ * keep working, while callers can now branch with `instanceof`.
+ */
+
+import { ERROR_MESSAGES } from "@/lib/constants";
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base error for any failed API request
+ */
+export class ApiError extends Error {
+  readonly success = false as const;
+  /** HTTP status code, or 0 when no response was received */
+  readonly code: number;
+  /** Field/validation errors from the response body */
+  readonly errors: unknown;
+  readonly data: unknown;
+  /** Raw parsed response body */
+  readonly body: unknown;
+
+  constructor(
+    message: string,
+    options: { code: number; errors?: unknown; data?: unknown; body?: unknown }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = options.code;
+    this.errors = options.errors ?? null;
+    this.data = options.data ?? null;
+    this.body = options.body ?? null;
+  }
+
+  /**
+   * Build an error from a non-2xx response body. Handles both the standard
+   * envelope and plain DRF bodies such as `{ detail }` or field error maps.
+   */
+  static fromResponse(status: number, statusText: string, body: unknown): ApiError {
+    if (body && typeof body === "object") {
+      const envelope = body as {
+        message?: unknown;
+        detail?: unknown;
+        errors?: unknown;
+        data?: unknown;
+      };
+      const message =
+        (typeof envelope.message === "string" && envelope.message) ||
+        (typeof envelope.detail === "string" && envelope.detail) ||
+        statusText ||
+        ERROR_MESSAGES.GENERIC_ERROR;
+
+      return new ApiError(message, {
+        code: status,
+        errors: "message" in envelope ? envelope.errors : body,
+        data: envelope.data,
+        body,
+      });
+    }
+
+    return new ApiError(
+      (typeof body === "string" && body) || statusText || ERROR_MESSAGES.GENERIC_ERROR,
+      {
+        code: status,
+        body,
+      }
+    );
+  }
+}
+
+/**
+ * The session could not be refreshed; the user has to sign in again
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string = ERROR_MESSAGES.AUTH_FAILED) {
+    super(message, { code: 401 });
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * The request did not complete within its timeout
+ */
+export class RequestTimeoutError extends ApiError {
+  constructor(message: string = ERROR_MESSAGES.TIMEOUT) {
+    super(message, { code: 408 });
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * The server could not be reached (offline, DNS, CORS...)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = ERROR_MESSAGES.NETWORK_ERROR, cause?: unknown) {
+    super(message, { code: 0, errors: cause });
+    this.name = "NetworkError";
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Check if an error is the result of the caller aborting the request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,378 @@
+/**
+ * Exam API Functions
+ * Handles grade scales, exam terms and their papers, marks entry, and the
+ * published results parents see
+ */
+
+import type { ExamStatusValue } from "@/constants/exams";
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  childrenResultsResponseSchema,
+  examPaperResponseSchema,
+  examPapersResponseSchema,
+  examResponseSchema,
+  examsResponseSchema,
+  gradeScaleResponseSchema,
+  gradeScalesResponseSchema,
+  marksSheetResponseSchema,
+} from "./schemas/exam-schema";
+import type { ChildResults, Exam, ExamPaper, GradeScale, MarksSheet } from "./schemas/exam-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  ChildResults,
+  Exam,
+  ExamPaper,
+  ExamResult,
+  GradeBand,
+  GradeScale,
+  MarkEntry,
+  MarksSheet,
+  SubjectResult,
+} from "./schemas/exam-schema";
+
+export interface GradeScalePayload {
+  name: string;
+  is_default: boolean;
+  bands: Array<{
+    min_percentage: number;
+    grade: string;
+    grade_point: number;
+    description?: string;
+  }>;
+}
+
+export interface ExamPayload {
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  grade_scale_id: string;
+  class_ids: string[]; // Sections sitting the exam; only editable while marks entry is open
+  max_marks?: number; // Applied to papers created for newly added sections
+  pass_marks?: number;
+}
+
+export interface ExamFilters {
+  search?: string;
+  status?: ExamStatusValue;
+  page?: number;
+  page_size?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface ExamPaperPayload {
+  max_marks: number;
+  pass_marks: number;
+  exam_date: string | null;
+}
+
+export interface MarkEntryPayload {
+  student_id: string; // Student public_id
+  marks_obtained: number | null;
+  is_absent: boolean;
+  remarks?: string;
+}
+
+/**
+ * Status changes of an exam term: DRAFT -lock-> LOCKED -publish-> PUBLISHED,
+ * with unlock and unpublish stepping back
+ */
+export type ExamTransition = "lock" | "unlock" | "publish" | "unpublish";
+
+// ============================================================================
+// Grade Scales
+// ============================================================================
+
+/**
+ * Fetch all grade scales
+ */
+export async function fetchGradeScales(): Promise<ApiResponse<GradeScale[]>> {
+  const response = await apiRequest<ApiResponse<GradeScale[]>>(API_ENDPOINTS.exams.gradeScales, {
+    method: "GET",
+    schema: gradeScalesResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch grade scales");
+  }
+
+  return response;
+}
+
+/**
+ * Create a grade scale, or update it when `publicId` is given
+ */
+export async function saveGradeScale(
+  payload: GradeScalePayload,
+  publicId?: string
+): Promise<ApiResponse<GradeScale>> {
+  const response = await apiRequest<ApiResponse<GradeScale>>(
+    publicId ? API_ENDPOINTS.exams.gradeScaleDetail(publicId) : API_ENDPOINTS.exams.gradeScales,
+    {
+      method: publicId ? "PUT" : "POST",
+      schema: gradeScaleResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save grade scale");
+  }
+
+  return response;
+}
+
+/**
+ * Delete a grade scale that no exam term uses
+ */
+export async function deleteGradeScale(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(
+    API_ENDPOINTS.exams.gradeScaleDetail(publicId),
+    {
+      method: "DELETE",
+      schema: emptyResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete grade scale");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Exam Terms
+// ============================================================================
+
+/**
+ * Fetch exam terms, latest first
+ */
+export async function fetchExams(filters?: ExamFilters): Promise<ApiListResponse<Exam>> {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const url = `${API_ENDPOINTS.exams.list}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiListResponse<Exam>>(url, {
+    method: "GET",
+    schema: examsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch exams");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch a single exam term
+ */
+export async function fetchExam(publicId: string): Promise<ApiResponse<Exam>> {
+  const response = await apiRequest<ApiResponse<Exam>>(API_ENDPOINTS.exams.detail(publicId), {
+    method: "GET",
+    schema: examResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch exam");
+  }
+
+  return response;
+}
+
+/**
+ * Create an exam term, or update it when `publicId` is given. The backend
+ * creates a paper for every subject assigned to the selected sections.
+ */
+export async function saveExam(
+  payload: ExamPayload,
+  publicId?: string
+): Promise<ApiResponse<Exam>> {
+  const response = await apiRequest<ApiResponse<Exam>>(
+    publicId ? API_ENDPOINTS.exams.detail(publicId) : API_ENDPOINTS.exams.list,
+    {
+      method: publicId ? "PUT" : "POST",
+      schema: examResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save exam");
+  }
+
+  return response;
+}
+
+/**
+ * Delete an exam term along with its papers and marks. Only allowed while
+ * marks entry is open.
+ */
+export async function deleteExam(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.exams.detail(publicId), {
+    method: "DELETE",
+    schema: emptyResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete exam");
+  }
+
+  return response;
+}
+
+/**
+ * Lock, unlock, publish or unpublish an exam term's results
+ */
+export async function transitionExam(
+  publicId: string,
+  action: ExamTransition
+): Promise<ApiResponse<Exam>> {
+  const response = await apiRequest<ApiResponse<Exam>>(
+    API_ENDPOINTS.exams.transition(publicId, action),
+    {
+      method: "POST",
+      schema: examResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || `Failed to ${action} exam`);
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Papers & Marks
+// ============================================================================
+
+/**
+ * Fetch the per-subject papers of an exam term
+ */
+export async function fetchExamPapers(examId: string): Promise<ApiResponse<ExamPaper[]>> {
+  const response = await apiRequest<ApiResponse<ExamPaper[]>>(API_ENDPOINTS.exams.papers(examId), {
+    method: "GET",
+    schema: examPapersResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch exam papers");
+  }
+
+  return response;
+}
+
+/**
+ * Update a paper's max marks, pass marks and date
+ */
+export async function updateExamPaper(
+  paperId: string,
+  payload: ExamPaperPayload
+): Promise<ApiResponse<ExamPaper>> {
+  const response = await apiRequest<ApiResponse<ExamPaper>>(
+    API_ENDPOINTS.exams.paperDetail(paperId),
+    {
+      method: "PATCH",
+      schema: examPaperResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to update paper");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the papers of the signed-in teacher's subject assignments, latest exam first
+ */
+export async function fetchMyExamPapers(): Promise<ApiResponse<ExamPaper[]>> {
+  const response = await apiRequest<ApiResponse<ExamPaper[]>>(API_ENDPOINTS.exams.myPapers, {
+    method: "GET",
+    schema: examPapersResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch your exam papers");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch a paper's marks sheet with one row per student of the section
+ */
+export async function fetchMarksSheet(paperId: string): Promise<ApiResponse<MarksSheet>> {
+  const response = await apiRequest<ApiResponse<MarksSheet>>(API_ENDPOINTS.exams.marks(paperId), {
+    method: "GET",
+    schema: marksSheetResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch marks");
+  }
+
+  return response;
+}
+
+/**
+ * Save marks for the given students. Rejected once the exam is locked.
+ */
+export async function saveMarks(
+  paperId: string,
+  entries: MarkEntryPayload[]
+): Promise<ApiResponse<MarksSheet>> {
+  const response = await apiRequest<ApiResponse<MarksSheet>>(API_ENDPOINTS.exams.marks(paperId), {
+    method: "PUT",
+    schema: marksSheetResponseSchema,
+    body: JSON.stringify({ entries }),
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save marks");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Fetch the published results of the signed-in parent's children
+ */
+export async function fetchChildrenResults(): Promise<ApiResponse<ChildResults[]>> {
+  const response = await apiRequest<ApiResponse<ChildResults[]>>(
+    API_ENDPOINTS.exams.childrenResults,
+    {
+      method: "GET",
+      schema: childrenResultsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch results");
+  }
+
+  return response;
+}
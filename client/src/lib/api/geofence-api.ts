@@ -0,0 +1,135 @@
+/**
+ * Campus Geofence API Functions
+ * Handles all API calls related to campus geofences used for check-in validation
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  campusGeofenceResponseSchema,
+  campusGeofencesResponseSchema,
+} from "./schemas/geofence-schema";
+import type { CampusGeofence } from "./schemas/geofence-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type { CampusGeofence } from "./schemas/geofence-schema";
+
+export interface CampusGeofencePayload {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  is_active?: boolean;
+}
+
+export type CampusGeofenceListResponse = ApiListResponse<CampusGeofence>;
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Fetch active campus geofences for check-in validation (available to all staff)
+ */
+export async function fetchActiveGeofences(): Promise<CampusGeofenceListResponse> {
+  const response = await apiRequest<CampusGeofenceListResponse>(
+    API_ENDPOINTS.attendance.geofences,
+    {
+      method: "GET",
+      schema: campusGeofencesResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch campus geofences");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch all campus geofences for administration
+ */
+export async function fetchGeofences(): Promise<CampusGeofenceListResponse> {
+  const response = await apiRequest<CampusGeofenceListResponse>(
+    API_ENDPOINTS.attendance.adminGeofences,
+    {
+      method: "GET",
+      schema: campusGeofencesResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch campus geofences");
+  }
+
+  return response;
+}
+
+/**
+ * Create a campus geofence
+ */
+export async function createGeofence(
+  payload: CampusGeofencePayload
+): Promise<ApiResponse<CampusGeofence>> {
+  const response = await apiRequest<ApiResponse<CampusGeofence>>(
+    API_ENDPOINTS.attendance.adminGeofences,
+    {
+      method: "POST",
+      schema: campusGeofenceResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to create campus geofence");
+  }
+
+  return response;
+}
+
+/**
+ * Update a campus geofence
+ */
+export async function updateGeofence(
+  publicId: string,
+  payload: Partial<CampusGeofencePayload>
+): Promise<ApiResponse<CampusGeofence>> {
+  const response = await apiRequest<ApiResponse<CampusGeofence>>(
+    API_ENDPOINTS.attendance.adminGeofenceDetail(publicId),
+    {
+      method: "PATCH",
+      schema: campusGeofenceResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to update campus geofence");
+  }
+
+  return response;
+}
+
+/**
+ * Delete a campus geofence
+ */
+export async function deleteGeofence(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(
+    API_ENDPOINTS.attendance.adminGeofenceDetail(publicId),
+    {
+      method: "DELETE",
+      schema: emptyResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete campus geofence");
+  }
+
+  return response;
+}
@@ -3,22 +3,35 @@
  * Handles all API calls related to organization holiday calendar
  */
 
-import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { apiRequest, API_ENDPOINTS, authorizedFetch } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  holidayCalendarResponseSchema,
+  holidayResponseSchema,
+  holidaysResponseSchema,
+  workingDayPoliciesResponseSchema,
+  workingDayPolicyResponseSchema,
+} from "./schemas/holiday-schema";
+import type {
+  CreateHolidayResponse,
+  Holiday,
+  HolidayType,
+  SaturdayOffPattern,
+  WorkingDayPolicy,
+} from "./schemas/holiday-schema";
 import type { ApiListResponse, ApiResponse } from "./types";
 
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
 
-export type HolidayType = "SUNDAY" | "SATURDAY" | "SECOND_SATURDAY" | "NATIONAL_HOLIDAY" | "FESTIVAL" | "ORGANIZATION_HOLIDAY" | "OTHER";
-
-export interface Holiday {
-  public_id: string;
-  start_date: string;
-  end_date: string;
-  holiday_type: HolidayType;
-  description: string;
-}
+export type {
+  CreateHolidayResponse,
+  Holiday,
+  HolidayType,
+  SaturdayOffPattern,
+  WorkingDayPolicy,
+} from "./schemas/holiday-schema";
 
 export type HolidayCalendarResponse = ApiListResponse<Holiday>;
 
@@ -37,36 +50,6 @@ export interface CreateHolidayPayload {
   description: string;
 }
 
-export interface CreateHolidayResponse {
-  public_id: string;
-  start_date: string;
-  end_date: string;
-  holiday_type: HolidayType;
-  description: string;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string | null;
-  created_by_name: string | null;
-  updated_by_public_id: string | null;
-  updated_by_name: string | null;
-}
-
-export type SaturdayOffPattern = "NONE" | "SECOND_ONLY" | "SECOND_AND_FOURTH" | "ALL";
-
-export interface WorkingDayPolicy {
-  public_id: string;
-  sunday_off: boolean;
-  saturday_off_pattern: SaturdayOffPattern;
-  effective_from: string;
-  effective_to: string | null;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string | null;
-  created_by_name: string | null;
-  updated_by_public_id: string | null;
-  updated_by_name: string | null;
-}
-
 export type WorkingDayPolicyResponse = ApiListResponse<WorkingDayPolicy>;
 
 // ============================================================================
@@ -93,6 +76,7 @@ export async function fetchHolidayCalendar(
 
   const response = await apiRequest<HolidayCalendarResponse>(url, {
     method: "GET",
+    schema: holidayCalendarResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -110,6 +94,7 @@ export async function fetchWorkingDayPolicy(): Promise<WorkingDayPolicyResponse>
     API_ENDPOINTS.attendance.workingDayPolicy,
     {
       method: "GET",
+      schema: workingDayPoliciesResponseSchema,
     }
   );
 
@@ -137,6 +122,7 @@ export async function createWorkingDayPolicy(
     API_ENDPOINTS.attendance.workingDayPolicy,
     {
       method: "POST",
+      schema: workingDayPolicyResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -159,6 +145,7 @@ export async function updateWorkingDayPolicy(
     `${API_ENDPOINTS.attendance.workingDayPolicy}${publicId}/`,
     {
       method: "PATCH",
+      schema: workingDayPolicyResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -180,6 +167,7 @@ export async function createHoliday(
     API_ENDPOINTS.attendance.holidayCalendar,
     {
       method: "POST",
+      schema: holidayResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -201,6 +189,7 @@ export async function createHolidaysBulk(
     API_ENDPOINTS.attendance.holidayCalendar,
     {
       method: "POST",
+      schema: holidaysResponseSchema,
       body: JSON.stringify(payloads),
     }
   );
@@ -223,6 +212,7 @@ export async function updateHoliday(
     `${API_ENDPOINTS.attendance.holidayCalendar}${publicId}/`,
     {
       method: "PATCH",
+      schema: holidayResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -242,6 +232,7 @@ export async function deleteHoliday(publicId: string): Promise<ApiResponse<null>
     `${API_ENDPOINTS.attendance.holidayCalendar}${publicId}/`,
     {
       method: "DELETE",
+      schema: emptyResponseSchema,
     }
   );
 
@@ -256,12 +247,10 @@ export async function deleteHoliday(publicId: string): Promise<ApiResponse<null>
  * Download holiday calendar template (Excel file)
  */
 export async function downloadHolidayTemplate(): Promise<Blob> {
-  const response = await fetch(`${API_ENDPOINTS.attendance.holidayCalendar}download-template/`, {
-    method: "GET",
-    headers: {
-      Authorization: `Bearer ${localStorage.getItem("accessToken")}`,
-    },
-  });
+  const response = await authorizedFetch(
+    `${API_ENDPOINTS.attendance.holidayCalendar}download-template/`,
+    { method: "GET" }
+  );
 
   if (!response.ok) {
     throw new Error("Failed to download template");
@@ -296,13 +285,13 @@ export async function bulkUploadHolidays(file: File): Promise<ApiResponse<BulkUp
   const formData = new FormData();
   formData.append("file", file);
 
-  const response = await fetch(`${API_ENDPOINTS.attendance.holidayCalendar}bulk-upload/`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${localStorage.getItem("accessToken")}`,
-    },
-    body: formData,
-  });
+  const response = await authorizedFetch(
+    `${API_ENDPOINTS.attendance.holidayCalendar}bulk-upload/`,
+    {
+      method: "POST",
+      body: formData,
+    }
+  );
 
   const data = await response.json();
 
@@ -3,7 +3,57 @@
  * Handles all API calls related to leave allocations, types, and roles
  */
 
-import { API_ENDPOINTS, apiRequest } from "@/lib/api";
+import { API_ENDPOINTS, apiRequest, authorizedFetch } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  calculateWorkingDaysResponseSchema,
+  childrenLeaveRequestsResponseSchema,
+  leaveAccrualPreviewResponseSchema,
+  leaveAccrualRunResponseSchema,
+  leaveAccrualRunsResponseSchema,
+  leaveAllocationResponseSchema,
+  leaveAllocationsResponseSchema,
+  leaveApprovalWorkflowResponseSchema,
+  leaveApprovalWorkflowsResponseSchema,
+  leaveBalanceLedgerResponseSchema,
+  leaveBalanceResponseSchema,
+  leaveBalancesResponseSchema,
+  leaveBalanceSummaryResponseSchema,
+  leaveDashboardResponseSchema,
+  leaveRequestResponseSchema,
+  leaveRequestsResponseSchema,
+  leaveRolloverPreviewResponseSchema,
+  leaveRolloverResponseSchema,
+  leaveRolloversResponseSchema,
+  leaveTypesResponseSchema,
+  leaveUsersResponseSchema,
+  manageableUsersResponseSchema,
+  teamLeaveCalendarResponseSchema,
+  userLeaveBalancesResponseSchema,
+} from "./schemas/leave-schema";
+import type {
+  AccrualFrequency,
+  ApproverType,
+  CalculateWorkingDaysResponse,
+  ChildLeaveRequests,
+  LeaveAccrualPreview,
+  LeaveAccrualRun,
+  LeaveAllocation,
+  LeaveApprovalWorkflow,
+  LeaveBalance,
+  LeaveBalanceLedger,
+  LeaveBalanceSummary,
+  LeaveDashboard,
+  LeaveRequest,
+  LeaveRollover,
+  LeaveRolloverPreview,
+  LeaveType,
+  ManageableUsers,
+  OrganizationRole,
+  TeamLeaveCalendar,
+  User,
+  UserLeaveBalances,
+} from "./schemas/leave-schema";
 import type { ApiListResponse, ApiResponse } from "./types";
 
 // Re-export for convenience
@@ -13,30 +63,42 @@ export { API_ENDPOINTS, apiRequest };
 // Types & Interfaces
 // ============================================================================
 
-export interface LeaveType {
-  id: number;
-  name: string;
-  code: string;
-  description: string;
-  display_order: number;
-  created_at: string;
-  updated_at: string;
-}
+export type {
+  AccrualFrequency,
+  ApprovalWorkflowStep,
+  ApproverType,
+  CalculateWorkingDaysResponse,
+  ChildLeaveRequests,
+  HolidayInfo,
+  LeaveAccrualPreview,
+  LeaveAccrualRow,
+  LeaveAccrualRun,
+  LeaveAllocation,
+  LeaveApprovalStep,
+  LeaveApprovalWorkflow,
+  LeaveBalance,
+  LeaveBalanceLedger,
+  LeaveBalanceSummary,
+  LeaveDashboard,
+  LeaveLedgerEntry,
+  LeaveLedgerEntryType,
+  LeaveRequest,
+  LeaveRollover,
+  LeaveRolloverPreview,
+  LeaveRolloverRow,
+  LeaveRolloverTotals,
+  LeaveType,
+  ManageableUser,
+  ManageableUsers,
+  OrganizationRole,
+  TeamLeave,
+  TeamLeaveCalendar,
+  User,
+  UserLeaveBalances,
+} from "./schemas/leave-schema";
 
 // Using standard API response types
 export type LeaveTypesResponse = ApiListResponse<LeaveType>;
-
-export interface OrganizationRole {
-  id: number;
-  name: string;
-  code: string;
-  description: string;
-  display_order: number;
-  created_at: string;
-  updated_at: string;
-}
-
-// Using standard API response types
 export type OrganizationRolesResponse = ApiListResponse<OrganizationRole>;
 
 export interface LeaveAllocationPayload {
@@ -48,121 +110,20 @@ export interface LeaveAllocationPayload {
   roles: number[];
   effective_from: string;
   effective_to?: string;
+  accrual_frequency: AccrualFrequency;
+  is_prorated: boolean;
+  attachment_required_above_days: number | null;
 }
 
-export interface LeaveAllocation {
-  public_id: string;
-  leave_type_id: number;
-  leave_type_name: string;
-  name: string | null;
-  description: string | null;
-  total_days: string;
-  max_carry_forward_days: string;
-  roles: string; // Comma-separated string of role names
-  role_ids?: number[]; // Array of role IDs
-  effective_from: string | null;
-  effective_to: string | null;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string | null;
-  created_by_name: string | null;
-  updated_by_public_id: string | null;
-  updated_by_name: string | null;
-}
-
-// Leave Balance interfaces
-export interface LeaveBalance {
-  public_id: string;
-  user: {
-    public_id: string;
-    full_name: string;
-    email: string;
-    role: string;
-  };
-  leave_allocation: {
-    public_id: string;
-    name: string;
-    display_name: string;
-    leave_type: {
-      id: number;
-      name: string;
-      code: string;
-    };
-  };
-  total_allocated: number;
-  used: number;
-  pending: number;
-  available: number;
-  carried_forward: number;
-  created_at: string;
-  updated_at: string;
-}
-
-// Lightweight Leave Balance for dashboard
-export interface LeaveBalanceSummary {
-  public_id: string;
-  leave_type_name: string;
-  leave_type_code: string;
-  total_allocated: number;
-  used: number;
-  pending: number;
-  available: number;
-  carried_forward: number;
-}
-
-// Leave Request interfaces
-export interface LeaveRequest {
-  public_id: string;
-  user_public_id: string;
-  user_name: string;
-  user_role: string;
-  organization_role: string;
-  email: string;
-  supervisor_name: string;
-  supervisor_public_id: string;
-  leave_balance_public_id: string;
-  leave_balance: {
-    public_id: string;
-  };
-  leave_type_code: string;
-  leave_name: string;
-  start_date: string;
-  end_date: string;
-  number_of_days: string;
-  total_days: number;
-  is_half_day: boolean;
-  reason: string;
-  remarks?: string;
-  status: "pending" | "approved" | "rejected" | "cancelled";
-  applied_at: string;
-  reviewed_by_name: string | null;
-  reviewed_by: string | null;
-  reviewed_at: string | null;
-  review_comments: string;
-  can_be_cancelled: boolean;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string;
-  created_by_name: string;
-  updated_by_public_id: string;
-  updated_by_name: string;
-}
-
-// Dashboard response interface
-export interface LeaveDashboard {
-  user: {
-    public_id: string;
-    name: string;
-    email: string;
-    role: string;
-  };
-  leave_balances: LeaveBalance[];
-  leave_requests: LeaveRequest[];
-  summary: {
-    total_leave_types: number;
-    total_requests: number;
-    pending_requests: number;
-  };
+// Create/Update Approval Workflow payload
+export interface LeaveApprovalWorkflowPayload {
+  name: string;
+  description: string;
+  role_ids: number[]; // Empty for every role
+  leave_type_ids: number[]; // Empty for every leave type
+  min_days: number;
+  steps: { approver_type: ApproverType; organization_role_code: string | null }[];
+  is_active: boolean;
 }
 
 // Create Leave Request payload
@@ -174,6 +135,8 @@ export interface LeaveRequestPayload {
   is_half_day?: boolean;
   reason: string;
   remarks?: string;
+  attachments?: File[];
+  removed_attachment_ids?: string[]; // Saved attachments to drop when editing
 }
 
 // Create Leave Balance payload
@@ -195,15 +158,6 @@ export interface LeaveRequestReviewPayload {
   comments: string;
 }
 
-// User for selection
-export interface User {
-  public_id: string;
-  full_name: string;
-  email: string;
-  role: string;
-  organization_role?: string;
-}
-
 // Using standard API response types
 export type LeaveAllocationsResponse = ApiListResponse<LeaveAllocation>;
 export type LeaveAllocationResponse = ApiResponse<LeaveAllocation>;
@@ -214,6 +168,32 @@ export type LeaveRequestsResponse = ApiListResponse<LeaveRequest>;
 export type LeaveRequestResponse = ApiResponse<LeaveRequest>;
 export type UsersResponse = ApiListResponse<User>;
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Leave requests are sent as JSON unless files are attached or removed, in
+ * which case they go as multipart so the documents travel with them; fields
+ * left out of a partial update are not sent
+ */
+function toLeaveRequestBody(payload: Partial<LeaveRequestPayload>): FormData | string {
+  const { attachments = [], removed_attachment_ids = [], ...fields } = payload;
+  if (attachments.length === 0 && removed_attachment_ids.length === 0) {
+    return JSON.stringify(fields);
+  }
+
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) {
+      formData.append(key, String(value));
+    }
+  });
+  attachments.forEach((file) => formData.append("attachments", file));
+  removed_attachment_ids.forEach((id) => formData.append("removed_attachment_ids", id));
+  return formData;
+}
+
 // ============================================================================
 // API Functions
 // ============================================================================
@@ -224,6 +204,7 @@ export type UsersResponse = ApiListResponse<User>;
 export async function fetchLeaveTypes(): Promise<LeaveTypesResponse> {
   const response = await apiRequest<LeaveTypesResponse>(API_ENDPOINTS.core.leaveTypes, {
     method: "GET",
+    schema: leaveTypesResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -307,6 +288,7 @@ export async function createLeaveAllocation(
 ): Promise<LeaveAllocationResponse> {
   const response = await apiRequest<LeaveAllocationResponse>(API_ENDPOINTS.leave.allocations, {
     method: "POST",
+    schema: leaveAllocationResponseSchema,
     body: JSON.stringify(payload),
   });
 
@@ -365,6 +347,7 @@ export async function fetchLeaveAllocations(params?: {
 
   const response = await apiRequest<LeaveAllocationsResponse>(url, {
     method: "GET",
+    schema: leaveAllocationsResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -384,6 +367,7 @@ export async function fetchLeaveAllocationsForUser(
 
   const response = await apiRequest<LeaveAllocationsResponse>(url, {
     method: "GET",
+    schema: leaveAllocationsResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -401,6 +385,7 @@ export async function fetchLeaveAllocation(publicId: string): Promise<LeaveAlloc
     API_ENDPOINTS.leave.allocationDetail(publicId),
     {
       method: "GET",
+      schema: leaveAllocationResponseSchema,
     }
   );
 
@@ -422,6 +407,7 @@ export async function updateLeaveAllocation(
     API_ENDPOINTS.leave.allocationDetail(publicId),
     {
       method: "PATCH",
+      schema: leaveAllocationResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -454,6 +440,7 @@ export async function deleteLeaveAllocation(publicId: string): Promise<ApiRespon
     API_ENDPOINTS.leave.allocationDetail(publicId),
     {
       method: "DELETE",
+      schema: emptyResponseSchema,
     }
   );
 
@@ -464,6 +451,71 @@ export async function deleteLeaveAllocation(publicId: string): Promise<ApiRespon
   return response;
 }
 
+// ============================================================================
+// Approval Workflows
+// ============================================================================
+
+/**
+ * Fetch the organization's leave approval workflows
+ */
+export async function fetchApprovalWorkflows(): Promise<ApiResponse<LeaveApprovalWorkflow[]>> {
+  const response = await apiRequest<ApiResponse<LeaveApprovalWorkflow[]>>(
+    API_ENDPOINTS.leave.approvalWorkflows,
+    {
+      method: "GET",
+      schema: leaveApprovalWorkflowsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch approval workflows");
+  }
+
+  return response;
+}
+
+/**
+ * Create an approval workflow, or update the one with `publicId`. Requests
+ * already submitted keep the chain they started with.
+ */
+export async function saveApprovalWorkflow(
+  payload: LeaveApprovalWorkflowPayload,
+  publicId?: string
+): Promise<ApiResponse<LeaveApprovalWorkflow>> {
+  const response = await apiRequest<ApiResponse<LeaveApprovalWorkflow>>(
+    publicId
+      ? API_ENDPOINTS.leave.approvalWorkflowDetail(publicId)
+      : API_ENDPOINTS.leave.approvalWorkflows,
+    {
+      method: publicId ? "PUT" : "POST",
+      schema: leaveApprovalWorkflowResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save approval workflow");
+  }
+
+  return response;
+}
+
+export async function deleteApprovalWorkflow(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(
+    API_ENDPOINTS.leave.approvalWorkflowDetail(publicId),
+    {
+      method: "DELETE",
+      schema: emptyResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to delete approval workflow");
+  }
+
+  return response;
+}
+
 // ============================================================================
 // Leave Balance & Request Functions
 // ============================================================================
@@ -476,6 +528,7 @@ export async function fetchMyLeaveDashboard(): Promise<LeaveDashboardResponse> {
     `${API_ENDPOINTS.leave.balances}my-dashboard/`,
     {
       method: "GET",
+      schema: leaveDashboardResponseSchema,
     }
   );
 
@@ -494,6 +547,7 @@ export async function fetchMyLeaveBalances(): Promise<LeaveBalancesResponse> {
     `${API_ENDPOINTS.leave.balances}my-balance/`,
     {
       method: "GET",
+      schema: leaveBalancesResponseSchema,
     }
   );
 
@@ -512,6 +566,7 @@ export async function fetchMyLeaveBalancesSummary(): Promise<ApiResponse<LeaveBa
     `${API_ENDPOINTS.leave.balances}summary/`,
     {
       method: "GET",
+      schema: leaveBalanceSummaryResponseSchema,
     }
   );
 
@@ -588,6 +643,7 @@ export async function fetchMyLeaveRequests(params?: {
 
   const response = await apiRequest<LeaveRequestsResponse>(url, {
     method: "GET",
+    schema: leaveRequestsResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -607,6 +663,7 @@ export async function fetchUserLeaveBalancesSummary(
     `${API_ENDPOINTS.leave.balances}summary/?user=${userPublicId}`,
     {
       method: "GET",
+      schema: leaveBalanceSummaryResponseSchema,
     }
   );
 
@@ -658,6 +715,7 @@ export async function fetchUserLeaveRequests(
 
   const response = await apiRequest<LeaveRequestsResponse>(url, {
     method: "GET",
+    schema: leaveRequestsResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -675,6 +733,7 @@ export async function fetchLeaveRequestById(publicId: string): Promise<LeaveRequ
     `${API_ENDPOINTS.leave.requests}${publicId}/`,
     {
       method: "GET",
+      schema: leaveRequestResponseSchema,
     }
   );
 
@@ -693,7 +752,8 @@ export async function createLeaveRequest(
 ): Promise<LeaveRequestResponse> {
   const response = await apiRequest<LeaveRequestResponse>(`${API_ENDPOINTS.leave.requests}`, {
     method: "POST",
-    body: JSON.stringify(payload),
+    schema: leaveRequestResponseSchema,
+    body: toLeaveRequestBody(payload),
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -741,7 +801,8 @@ export async function updateLeaveRequest(
     `${API_ENDPOINTS.leave.requests}${publicId}/`,
     {
       method: "PATCH",
-      body: JSON.stringify(payload),
+      schema: leaveRequestResponseSchema,
+      body: toLeaveRequestBody(payload),
     }
   );
 
@@ -787,6 +848,7 @@ export async function cancelLeaveRequest(publicId: string): Promise<LeaveRequest
     `${API_ENDPOINTS.leave.requests}${publicId}/cancel/`,
     {
       method: "POST",
+      schema: leaveRequestResponseSchema,
     }
   );
 
@@ -805,6 +867,7 @@ export async function fetchLeaveRequest(publicId: string): Promise<LeaveRequestR
     `${API_ENDPOINTS.leave.requests}${publicId}/`,
     {
       method: "GET",
+      schema: leaveRequestResponseSchema,
     }
   );
 
@@ -827,6 +890,7 @@ export async function createLeaveBalance(
 ): Promise<LeaveBalanceResponse> {
   const response = await apiRequest<LeaveBalanceResponse>(API_ENDPOINTS.leave.balances, {
     method: "POST",
+    schema: leaveBalanceResponseSchema,
     body: JSON.stringify(payload),
   });
 
@@ -863,6 +927,7 @@ export async function updateLeaveBalance(
     `${API_ENDPOINTS.leave.balances}${publicId}/`,
     {
       method: "PATCH",
+      schema: leaveBalanceResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -895,6 +960,7 @@ export async function deleteLeaveBalance(publicId: string): Promise<ApiResponse<
     `${API_ENDPOINTS.leave.balances}${publicId}/`,
     {
       method: "DELETE",
+      schema: emptyResponseSchema,
     }
   );
 
@@ -905,6 +971,27 @@ export async function deleteLeaveBalance(publicId: string): Promise<ApiResponse<
   return response;
 }
 
+/**
+ * Fetch every credit and debit posted to a leave balance, newest first
+ */
+export async function fetchLeaveBalanceLedger(
+  publicId: string
+): Promise<ApiResponse<LeaveBalanceLedger>> {
+  const response = await apiRequest<ApiResponse<LeaveBalanceLedger>>(
+    API_ENDPOINTS.leave.balanceLedger(publicId),
+    {
+      method: "GET",
+      schema: leaveBalanceLedgerResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch leave balance history");
+  }
+
+  return response;
+}
+
 /**
  * Fetch users for leave balance assignment
  * (For Admin: all org users, For Teacher: their students)
@@ -912,6 +999,7 @@ export async function deleteLeaveBalance(publicId: string): Promise<ApiResponse<
 export async function fetchManageableUsers(params?: {
   role?: string;
   search?: string;
+  page_size?: number;
 }): Promise<UsersResponse> {
   const queryParams = new URLSearchParams();
 
@@ -921,6 +1009,9 @@ export async function fetchManageableUsers(params?: {
   if (params?.search) {
     queryParams.append("search", params.search);
   }
+  if (params?.page_size) {
+    queryParams.append("page_size", params.page_size.toString());
+  }
 
   const url = `${API_ENDPOINTS.users.list}${
     queryParams.toString() ? `?${queryParams.toString()}` : ""
@@ -928,6 +1019,7 @@ export async function fetchManageableUsers(params?: {
 
   const response = await apiRequest<UsersResponse>(url, {
     method: "GET",
+    schema: leaveUsersResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -937,8 +1029,6 @@ export async function fetchManageableUsers(params?: {
   return response;
 }
 
-// ...existing code...
-
 /**
  * Calculate working days between dates based on organization policies
  */
@@ -948,20 +1038,6 @@ export interface CalculateWorkingDaysPayload {
   exclude_leave_public_id?: string; // Optional: exclude this leave request when checking conflicts (used in edit mode)
 }
 
-export interface HolidayInfo {
-  date: string;
-  description: string;
-  type: string;
-}
-
-export interface CalculateWorkingDaysResponse {
-  working_days: number;
-  total_days: number;
-  start_date: string;
-  end_date: string;
-  holidays: HolidayInfo[];
-}
-
 export async function calculateWorkingDays(
   payload: CalculateWorkingDaysPayload
 ): Promise<ApiResponse<CalculateWorkingDaysResponse>> {
@@ -969,6 +1045,7 @@ export async function calculateWorkingDays(
     `${API_ENDPOINTS.leave.requests}calculate-working-days/`,
     {
       method: "POST",
+      schema: calculateWorkingDaysResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -980,6 +1057,185 @@ export async function calculateWorkingDays(
   return response;
 }
 
+// ============================================================================
+// Accruals
+// ============================================================================
+
+/**
+ * Preview what each user on an accruing allocation has earned by `asOf`
+ * (yyyy-MM-dd) and the credits a run would post. Nothing is saved.
+ */
+export async function fetchLeaveAccrualPreview(
+  asOf: string
+): Promise<ApiResponse<LeaveAccrualPreview>> {
+  const response = await apiRequest<ApiResponse<LeaveAccrualPreview>>(
+    `${API_ENDPOINTS.leave.accrualPreview}?as_of=${asOf}`,
+    {
+      method: "GET",
+      schema: leaveAccrualPreviewResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to preview leave accruals");
+  }
+
+  return response;
+}
+
+/**
+ * Post the credits due on `asOf`, raising each balance to its accrued days
+ */
+export async function runLeaveAccruals(asOf: string): Promise<ApiResponse<LeaveAccrualRun>> {
+  const response = await apiRequest<ApiResponse<LeaveAccrualRun>>(API_ENDPOINTS.leave.accruals, {
+    method: "POST",
+    schema: leaveAccrualRunResponseSchema,
+    body: JSON.stringify({ as_of: asOf }),
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to post leave accruals");
+  }
+
+  return response;
+}
+
+export async function fetchLeaveAccrualRuns(): Promise<ApiResponse<LeaveAccrualRun[]>> {
+  const response = await apiRequest<ApiResponse<LeaveAccrualRun[]>>(API_ENDPOINTS.leave.accruals, {
+    method: "GET",
+    schema: leaveAccrualRunsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch leave accrual runs");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Year-End Rollover
+// ============================================================================
+
+/**
+ * Preview closing a leave year: each balance's unused days, carry-forward and
+ * lapsed days. Nothing is saved.
+ */
+export async function fetchLeaveRolloverPreview(
+  year: number
+): Promise<ApiResponse<LeaveRolloverPreview>> {
+  const response = await apiRequest<ApiResponse<LeaveRolloverPreview>>(
+    `${API_ENDPOINTS.leave.rolloverPreview}?year=${year}`,
+    {
+      method: "GET",
+      schema: leaveRolloverPreviewResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to preview leave rollover");
+  }
+
+  return response;
+}
+
+/**
+ * Close a leave year: create next year's allocations and balances with the
+ * carried forward days, all in one batch
+ */
+export async function processLeaveRollover(year: number): Promise<ApiResponse<LeaveRollover>> {
+  const response = await apiRequest<ApiResponse<LeaveRollover>>(API_ENDPOINTS.leave.rollovers, {
+    method: "POST",
+    schema: leaveRolloverResponseSchema,
+    body: JSON.stringify({ year }),
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to process leave rollover");
+  }
+
+  return response;
+}
+
+export async function fetchLeaveRollovers(): Promise<ApiResponse<LeaveRollover[]>> {
+  const response = await apiRequest<ApiResponse<LeaveRollover[]>>(API_ENDPOINTS.leave.rollovers, {
+    method: "GET",
+    schema: leaveRolloversResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch leave rollovers");
+  }
+
+  return response;
+}
+
+/**
+ * Download a processed rollover's per-balance summary (CSV)
+ */
+export async function downloadLeaveRolloverSummary(publicId: string): Promise<Blob> {
+  const response = await authorizedFetch(API_ENDPOINTS.leave.rolloverSummary(publicId), {
+    method: "GET",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to download rollover summary");
+  }
+
+  return await response.blob();
+}
+
+// ============================================================================
+// Children (Parent)
+// ============================================================================
+
+/**
+ * Fetch the leave requests of the signed-in parent's children
+ */
+export async function fetchChildrenLeaveRequests(): Promise<ApiResponse<ChildLeaveRequests[]>> {
+  const response = await apiRequest<ApiResponse<ChildLeaveRequests[]>>(
+    API_ENDPOINTS.leave.children,
+    {
+      method: "GET",
+      schema: childrenLeaveRequestsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch your children's leave requests");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Team Calendar
+// ============================================================================
+
+/**
+ * Fetch the approved and pending leave of the staff the user manages between
+ * two dates (yyyy-MM-dd, inclusive)
+ */
+export async function fetchTeamLeaveCalendar(params: {
+  from_date: string;
+  to_date: string;
+}): Promise<ApiResponse<TeamLeaveCalendar>> {
+  const queryParams = new URLSearchParams(params);
+  const response = await apiRequest<ApiResponse<TeamLeaveCalendar>>(
+    `${API_ENDPOINTS.leave.teamCalendar}?${queryParams.toString()}`,
+    {
+      method: "GET",
+      schema: teamLeaveCalendarResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch team leave calendar");
+  }
+
+  return response;
+}
+
 // ============================================================================
 // Leave Request Reviews
 // ============================================================================
@@ -1014,6 +1270,7 @@ export async function fetchLeaveRequestReviews(params?: {
 
   const response = await apiRequest<LeaveRequestsResponse>(url, {
     method: "GET",
+    schema: leaveRequestsResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -1033,6 +1290,7 @@ export async function fetchLeaveRequestReviewDetails(
     `${API_ENDPOINTS.leave.reviews}/${publicId}/`,
     {
       method: "GET",
+      schema: leaveRequestResponseSchema,
     }
   );
 
@@ -1054,6 +1312,7 @@ export async function approveLeaveRequest(
     `${API_ENDPOINTS.leave.reviews}/${publicId}/approve/`,
     {
       method: "POST",
+      schema: leaveRequestResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -1076,6 +1335,7 @@ export async function rejectLeaveRequest(
     `${API_ENDPOINTS.leave.reviews}/${publicId}/reject/`,
     {
       method: "POST",
+      schema: leaveRequestResponseSchema,
       body: JSON.stringify(payload),
     }
   );
@@ -1090,34 +1350,14 @@ export async function rejectLeaveRequest(
 /**
  * Fetch leave balances for a specific user
  */
-export async function fetchUserLeaveBalances(userPublicId: string): Promise<
-  ApiResponse<{
-    user: {
-      public_id: string;
-      name: string;
-      email: string;
-      role: string;
-      gender?: string;
-    };
-    balances: Array<LeaveBalance>;
-    total_count: number;
-  }>
-> {
+export async function fetchUserLeaveBalances(
+  userPublicId: string
+): Promise<ApiResponse<UserLeaveBalances>> {
   const url = `${API_ENDPOINTS.leave.balances}user/${userPublicId}/`;
 
-  const response = await apiRequest<
-    ApiResponse<{
-      user: {
-        public_id: string;
-        name: string;
-        email: string;
-        role: string;
-      };
-      balances: Array<LeaveBalance>;
-      total_count: number;
-    }>
-  >(url, {
+  const response = await apiRequest<ApiResponse<UserLeaveBalances>>(url, {
     method: "GET",
+    schema: userLeaveBalancesResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -1133,23 +1373,7 @@ export async function fetchUserLeaveBalances(userPublicId: string): Promise<
 export async function fetchManageableUsersWithBalances(filters?: {
   role?: string;
   class_id?: string;
-}): Promise<
-  ApiResponse<{
-    users: Array<{
-      public_id: string;
-      full_name: string;
-      email: string;
-      role: string;
-      role_display: string;
-      organization_role?: string;
-      gender?: string;
-      employee_id?: string;
-      subjects?: string[];
-      roll_number?: string;
-    }>;
-    total_users: number;
-  }>
-> {
+}): Promise<ApiResponse<ManageableUsers>> {
   const params = new URLSearchParams();
 
   if (filters?.role) {
@@ -1162,24 +1386,9 @@ export async function fetchManageableUsersWithBalances(filters?: {
 
   const url = `${API_ENDPOINTS.users.manageableUsers}${params.toString() ? `?${params.toString()}` : ""}`;
 
-  const response = await apiRequest<
-    ApiResponse<{
-      users: Array<{
-        public_id: string;
-        full_name: string;
-        email: string;
-        role: string;
-        role_display: string;
-        organization_role?: string;
-        gender?: string;
-        employee_id?: string;
-        subjects?: string[];
-        roll_number?: string;
-      }>;
-      total_users: number;
-    }>
-  >(url, {
+  const response = await apiRequest<ApiResponse<ManageableUsers>>(url, {
     method: "GET",
+    schema: manageableUsersResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
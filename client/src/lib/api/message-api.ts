@@ -0,0 +1,219 @@
+/**
+ * Message API Functions
+ * Handles parent–teacher conversations with their attachments, unread counts
+ * and the quiet hours during which new messages are held back
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  messageContactsResponseSchema,
+  messageResponseSchema,
+  messageThreadDetailResponseSchema,
+  messageThreadsResponseSchema,
+  quietHoursResponseSchema,
+  unreadMessagesResponseSchema,
+} from "./schemas/message-schema";
+import type {
+  Message,
+  MessageContacts,
+  MessageThread,
+  MessageThreadDetail,
+  QuietHours,
+  UnreadMessages,
+} from "./schemas/message-schema";
+import type { ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  Message,
+  MessageContacts,
+  MessageTeacher,
+  MessageThread,
+  MessageThreadDetail,
+  QuietHours,
+  UnreadMessages,
+} from "./schemas/message-schema";
+
+export interface MessagePayload {
+  body: string;
+  attachments: File[];
+}
+
+export interface StartThreadPayload extends MessagePayload {
+  student_id: string;
+  teacher_id: string; // Teacher public_id
+  subject: string;
+}
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+/**
+ * Fetch the signed-in user's conversations, most recent activity first
+ */
+export async function fetchMessageThreads(): Promise<ApiResponse<MessageThread[]>> {
+  const response = await apiRequest<ApiResponse<MessageThread[]>>(API_ENDPOINTS.messages.threads, {
+    method: "GET",
+    schema: messageThreadsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch conversations");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch a conversation with its messages, oldest first
+ */
+export async function fetchMessageThread(
+  publicId: string
+): Promise<ApiResponse<MessageThreadDetail>> {
+  const response = await apiRequest<ApiResponse<MessageThreadDetail>>(
+    API_ENDPOINTS.messages.threadDetail(publicId),
+    {
+      method: "GET",
+      schema: messageThreadDetailResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch conversation");
+  }
+
+  return response;
+}
+
+/**
+ * Start a conversation with one of a child's teachers (parents only)
+ */
+export async function startMessageThread(
+  payload: StartThreadPayload
+): Promise<ApiResponse<MessageThreadDetail>> {
+  const formData = new FormData();
+  formData.append("student_id", payload.student_id);
+  formData.append("teacher_id", payload.teacher_id);
+  formData.append("subject", payload.subject);
+  formData.append("body", payload.body);
+  payload.attachments.forEach((file) => formData.append("attachments", file));
+
+  const response = await apiRequest<ApiResponse<MessageThreadDetail>>(
+    API_ENDPOINTS.messages.threads,
+    {
+      method: "POST",
+      schema: messageThreadDetailResponseSchema,
+      body: formData,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to send message");
+  }
+
+  return response;
+}
+
+/**
+ * Reply in a conversation. During quiet hours the message is held and
+ * delivered when they end.
+ */
+export async function sendMessage(
+  publicId: string,
+  payload: MessagePayload
+): Promise<ApiResponse<Message>> {
+  const formData = new FormData();
+  formData.append("body", payload.body);
+  payload.attachments.forEach((file) => formData.append("attachments", file));
+
+  const response = await apiRequest<ApiResponse<Message>>(API_ENDPOINTS.messages.reply(publicId), {
+    method: "POST",
+    schema: messageResponseSchema,
+    body: formData,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to send message");
+  }
+
+  return response;
+}
+
+/**
+ * Mark every message the other participant sent in a conversation as read
+ */
+export async function markMessageThreadRead(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.messages.markRead(publicId), {
+    method: "POST",
+    schema: emptyResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to mark conversation as read");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Fetch the teachers the signed-in parent can write to, per child
+ */
+export async function fetchMessageContacts(): Promise<ApiResponse<MessageContacts[]>> {
+  const response = await apiRequest<ApiResponse<MessageContacts[]>>(
+    API_ENDPOINTS.messages.contacts,
+    {
+      method: "GET",
+      schema: messageContactsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch teachers");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch how many delivered messages the signed-in user has not read
+ */
+export async function fetchUnreadMessageCount(): Promise<ApiResponse<UnreadMessages>> {
+  const response = await apiRequest<ApiResponse<UnreadMessages>>(
+    API_ENDPOINTS.messages.unreadCount,
+    {
+      method: "GET",
+      schema: unreadMessagesResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch unread messages");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the organization's messaging quiet hours and whether they apply now
+ */
+export async function fetchQuietHours(): Promise<ApiResponse<QuietHours>> {
+  const response = await apiRequest<ApiResponse<QuietHours>>(API_ENDPOINTS.messages.quietHours, {
+    method: "GET",
+    schema: quietHoursResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch quiet hours");
+  }
+
+  return response;
+}
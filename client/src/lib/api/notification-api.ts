@@ -0,0 +1,120 @@
+/**
+ * Notification API Functions
+ * Handles the signed-in user's in-app notifications and the tickets and
+ * address of the server-sent event stream that pushes new ones as they happen
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  notificationFeedResponseSchema,
+  notificationResponseSchema,
+  notificationStreamTicketResponseSchema,
+} from "./schemas/notification-schema";
+import type {
+  AppNotification,
+  NotificationFeed,
+  NotificationStreamTicket,
+} from "./schemas/notification-schema";
+import type { ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  AppNotification,
+  NotificationFeed,
+  NotificationStreamTicket,
+} from "./schemas/notification-schema";
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+/**
+ * Fetch the latest notifications with the unread count
+ */
+export async function fetchNotifications(): Promise<ApiResponse<NotificationFeed>> {
+  const response = await apiRequest<ApiResponse<NotificationFeed>>(
+    API_ENDPOINTS.notifications.list,
+    {
+      method: "GET",
+      schema: notificationFeedResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch notifications");
+  }
+
+  return response;
+}
+
+export async function markNotificationRead(
+  publicId: string
+): Promise<ApiResponse<AppNotification>> {
+  const response = await apiRequest<ApiResponse<AppNotification>>(
+    API_ENDPOINTS.notifications.read(publicId),
+    {
+      method: "POST",
+      schema: notificationResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to mark notification as read");
+  }
+
+  return response;
+}
+
+export async function markAllNotificationsRead(): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(API_ENDPOINTS.notifications.readAll, {
+    method: "POST",
+    schema: emptyResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to mark notifications as read");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Live Stream
+// ============================================================================
+
+/**
+ * Issue a short-lived, single-use ticket for opening the notification stream.
+ * The request itself is authenticated with the access token as usual.
+ */
+export async function createNotificationStreamTicket(): Promise<
+  ApiResponse<NotificationStreamTicket>
+> {
+  const response = await apiRequest<ApiResponse<NotificationStreamTicket>>(
+    API_ENDPOINTS.notifications.streamTicket,
+    {
+      method: "POST",
+      schema: notificationStreamTicketResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to open the notification stream");
+  }
+
+  return response;
+}
+
+/**
+ * Address of the notification stream. EventSource can't send headers, so a
+ * stream ticket travels in the query string instead of the access token,
+ * keeping the token out of server and proxy logs.
+ */
+export function getNotificationStreamUrl(ticket: string): string {
+  const url = new URL(API_ENDPOINTS.notifications.stream, window.location.origin);
+  url.searchParams.set("ticket", ticket);
+  return url.toString();
+}
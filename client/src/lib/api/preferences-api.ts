@@ -3,6 +3,16 @@
  */
 
 import { apiRequest } from "@/lib/api";
+import {
+  bulkUpdatePreferencesResponseSchema,
+  groupedPreferencesResponseSchema,
+  preferenceResponseSchema,
+} from "./schemas/preferences-schema";
+import type {
+  BulkUpdatePreferencesResult,
+  GroupedPreference,
+  Preference,
+} from "./schemas/preferences-schema";
 import type { ApiResponse } from "./types";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
@@ -11,23 +21,7 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000
 // Types & Interfaces
 // ============================================================================
 
-export interface Preference {
-  public_id: string;
-  display_name: string;
-  key: string;
-  category: string;
-  field_type: "string" | "number" | "radio" | "choice" | "multi-choice";
-  default_value: string;
-  applicable_values: string[] | null;
-  description: string;
-  value: string | string[];
-}
-
-export interface GroupedPreference {
-  category: string;
-  preferences: Preference[];
-  count: number;
-}
+export type { GroupedPreference, Preference } from "./schemas/preferences-schema";
 
 // Using standard API response types
 export type PreferencesResponse = ApiResponse<GroupedPreference[]>;
@@ -44,6 +38,7 @@ export async function fetchGroupedPreferences(): Promise<PreferencesResponse> {
   const url = `${API_BASE_URL}/api/organization-preferences/?grouped=true`;
   const response = await apiRequest<PreferencesResponse>(url, {
     method: "GET",
+    schema: groupedPreferencesResponseSchema,
   });
   
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -60,6 +55,7 @@ export async function fetchPreference(publicId: string): Promise<PreferenceRespo
   const url = `${API_BASE_URL}/api/organization-preferences/${publicId}/`;
   const response = await apiRequest<PreferenceResponse>(url, {
     method: "GET",
+    schema: preferenceResponseSchema,
   });
   
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -79,6 +75,7 @@ export async function updatePreference(
   const url = `${API_BASE_URL}/api/organization-preferences/${publicId}/`;
   const response = await apiRequest<PreferenceResponse>(url, {
     method: "PATCH",
+    schema: preferenceResponseSchema,
     body: JSON.stringify({ value }),
   });
   
@@ -94,10 +91,11 @@ export async function updatePreference(
  */
 export async function bulkUpdatePreferences(
   updates: { public_id: string; value: string | string[] }[]
-): Promise<ApiResponse<{ updated: number; failed: number }>> {
+): Promise<ApiResponse<BulkUpdatePreferencesResult>> {
   const url = `${API_BASE_URL}/api/organization-preferences/bulk-update/`;
-  const response = await apiRequest<ApiResponse<{ updated: number; failed: number }>>(url, {
+  const response = await apiRequest<ApiResponse<BulkUpdatePreferencesResult>>(url, {
     method: "POST",
+    schema: bulkUpdatePreferencesResponseSchema,
     body: JSON.stringify({ preferences: updates }),
   });
   
@@ -107,3 +105,23 @@ export async function bulkUpdatePreferences(
   
   return response;
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Find a preference value by key across grouped preferences
+ */
+export function findPreferenceValue(
+  groups: GroupedPreference[] | undefined,
+  key: string
+): Preference["value"] | undefined {
+  for (const group of groups ?? []) {
+    const preference = group.preferences.find((item) => item.key === key);
+    if (preference) {
+      return preference.value ?? preference.default_value;
+    }
+  }
+  return undefined;
+}
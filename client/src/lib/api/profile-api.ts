@@ -4,35 +4,15 @@
  */
 
 import { api } from "../api";
+import {
+  messageResponseSchema,
+  otpSentResponseSchema,
+  userProfileResponseSchema,
+} from "./schemas/profile-schema";
+import type { MessageResult, OtpSentResult, UserProfile } from "./schemas/profile-schema";
 import type { ApiResponse } from "./types";
 
-export interface UserProfile {
-  public_id: string;
-  username: string;
-  email: string;
-  first_name: string;
-  last_name: string;
-  full_name: string;
-  phone: string;
-  role: string;
-  gender: string;
-  blood_group?: string;
-  date_of_birth?: string;
-  organization_role: string;
-  is_active: boolean;
-  is_email_verified: boolean;
-  notification_opt_in: boolean;
-  address?: {
-    public_id: string;
-    street_address: string;
-    address_line_2?: string;
-    city: string;
-    state: string;
-    zip_code: string;
-    country: string;
-    full_address: string;
-  };
-}
+export type { UserProfile } from "./schemas/profile-schema";
 
 export interface UpdateProfilePayload {
   first_name?: string;
@@ -78,7 +58,9 @@ export interface SendOTPPayload {
  * Get current user profile
  */
 export async function getUserProfile(): Promise<ApiResponse<UserProfile>> {
-  return api.get<ApiResponse<UserProfile>>("/api/users/profile/me/");
+  return api.get<ApiResponse<UserProfile>>("/api/users/profile/me/", {
+    schema: userProfileResponseSchema,
+  });
 }
 
 /**
@@ -87,7 +69,9 @@ export async function getUserProfile(): Promise<ApiResponse<UserProfile>> {
 export async function updateProfile(
   payload: UpdateProfilePayload
 ): Promise<ApiResponse<UserProfile>> {
-  return api.patch<ApiResponse<UserProfile>>("/api/users/profile/me/", payload);
+  return api.patch<ApiResponse<UserProfile>>("/api/users/profile/me/", payload, {
+    schema: userProfileResponseSchema,
+  });
 }
 
 /**
@@ -95,32 +79,35 @@ export async function updateProfile(
  */
 export async function changePassword(
   payload: ChangePasswordPayload
-): Promise<ApiResponse<{ message: string }>> {
-  return api.post<ApiResponse<{ message: string }>>("/api/auth/change-password/", payload);
+): Promise<ApiResponse<MessageResult>> {
+  return api.post<ApiResponse<MessageResult>>("/api/auth/change-password/", payload, {
+    schema: messageResponseSchema,
+  });
 }
 
 /**
  * Send OTP for email/phone verification
  */
-export async function sendOTP(
-  payload: SendOTPPayload
-): Promise<ApiResponse<{ message: string; expires_in_minutes: number }>> {
-  return api.post<ApiResponse<{ message: string; expires_in_minutes: number }>>(
-    "/api/users/send-otp/",
-    payload
-  );
+export async function sendOTP(payload: SendOTPPayload): Promise<ApiResponse<OtpSentResult>> {
+  return api.post<ApiResponse<OtpSentResult>>("/api/users/send-otp/", payload, {
+    schema: otpSentResponseSchema,
+  });
 }
 
 /**
  * Update email with OTP verification
  */
 export async function updateEmail(payload: UpdateEmailPayload): Promise<ApiResponse<UserProfile>> {
-  return api.post<ApiResponse<UserProfile>>("/api/users/update-email/", payload);
+  return api.post<ApiResponse<UserProfile>>("/api/users/update-email/", payload, {
+    schema: userProfileResponseSchema,
+  });
 }
 
 /**
  * Update phone with OTP verification
  */
 export async function updatePhone(payload: UpdatePhonePayload): Promise<ApiResponse<UserProfile>> {
-  return api.post<ApiResponse<UserProfile>>("/api/users/update-phone/", payload);
+  return api.post<ApiResponse<UserProfile>>("/api/users/update-phone/", payload, {
+    schema: userProfileResponseSchema,
+  });
 }
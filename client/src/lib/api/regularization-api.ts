@@ -0,0 +1,197 @@
+/**
+ * Attendance Regularization API Functions
+ * Handles staff requests to correct past attendance and their supervisor review
+ */
+
+import type { RegularizationTypeValue } from "@/constants/attendance";
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import {
+  regularizationResponseSchema,
+  regularizationsResponseSchema,
+} from "./schemas/regularization-schema";
+import type { AttendanceRecord } from "./attendance-api";
+import type { AttendanceRegularization } from "./schemas/regularization-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+type AttendanceStatus = AttendanceRecord["status"];
+
+export type { AttendanceRegularization } from "./schemas/regularization-schema";
+
+export interface RegularizationRequestPayload {
+  date: string; // YYYY-MM-DD
+  regularization_type: RegularizationTypeValue;
+  requested_check_in_time?: string | null; // ISO datetime
+  requested_check_out_time?: string | null; // ISO datetime
+  requested_status?: AttendanceStatus | null;
+  reason: string;
+}
+
+export interface RegularizationReviewPayload {
+  comments: string;
+}
+
+export interface RegularizationFilters {
+  page?: number;
+  page_size?: number;
+  status?: string;
+  regularization_type?: string;
+  user?: string;
+  date__gte?: string;
+  date__lte?: string;
+  [key: string]: string | number | undefined;
+}
+
+export type RegularizationsResponse = ApiListResponse<AttendanceRegularization>;
+export type RegularizationResponse = ApiResponse<AttendanceRegularization>;
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+function buildQueryString(filters?: RegularizationFilters): string {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  return queryParams.toString() ? `?${queryParams.toString()}` : "";
+}
+
+/**
+ * Fetch the current user's regularization requests
+ */
+export async function fetchMyRegularizations(
+  filters?: RegularizationFilters
+): Promise<RegularizationsResponse> {
+  const response = await apiRequest<RegularizationsResponse>(
+    `${API_ENDPOINTS.attendance.regularizations}${buildQueryString(filters)}`,
+    {
+      method: "GET",
+      schema: regularizationsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch regularization requests");
+  }
+
+  return response;
+}
+
+/**
+ * Raise a regularization request for a past date
+ */
+export async function createRegularization(
+  payload: RegularizationRequestPayload
+): Promise<RegularizationResponse> {
+  const response = await apiRequest<RegularizationResponse>(
+    API_ENDPOINTS.attendance.regularizations,
+    {
+      method: "POST",
+      schema: regularizationResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to submit regularization request");
+  }
+
+  return response;
+}
+
+/**
+ * Cancel a pending regularization request
+ */
+export async function cancelRegularization(publicId: string): Promise<RegularizationResponse> {
+  const response = await apiRequest<RegularizationResponse>(
+    `${API_ENDPOINTS.attendance.regularizations}${publicId}/cancel/`,
+    {
+      method: "POST",
+      schema: regularizationResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to cancel regularization request");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch regularization requests awaiting the current user's review
+ */
+export async function fetchRegularizationReviews(
+  filters?: RegularizationFilters
+): Promise<RegularizationsResponse> {
+  const response = await apiRequest<RegularizationsResponse>(
+    `${API_ENDPOINTS.attendance.regularizationReviews}${buildQueryString(filters)}`,
+    {
+      method: "GET",
+      schema: regularizationsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch regularization reviews");
+  }
+
+  return response;
+}
+
+/**
+ * Approve a regularization request. The backend applies the requested values to the
+ * attendance record and stores the original values on the request for audit.
+ */
+export async function approveRegularization(
+  publicId: string,
+  payload: RegularizationReviewPayload
+): Promise<RegularizationResponse> {
+  const response = await apiRequest<RegularizationResponse>(
+    `${API_ENDPOINTS.attendance.regularizationReviews}${publicId}/approve/`,
+    {
+      method: "POST",
+      schema: regularizationResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to approve regularization request");
+  }
+
+  return response;
+}
+
+/**
+ * Reject a regularization request
+ */
+export async function rejectRegularization(
+  publicId: string,
+  payload: RegularizationReviewPayload
+): Promise<RegularizationResponse> {
+  const response = await apiRequest<RegularizationResponse>(
+    `${API_ENDPOINTS.attendance.regularizationReviews}${publicId}/reject/`,
+    {
+      method: "POST",
+      schema: regularizationResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to reject regularization request");
+  }
+
+  return response;
+}
@@ -0,0 +1,133 @@
+/**
+ * Report Card API Functions
+ * Handles the organization's report card layout and the report cards
+ * generated from an exam's results, attendance and class teacher remarks
+ */
+
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import {
+  reportCardBatchResponseSchema,
+  reportCardResponseSchema,
+  reportCardTemplateResponseSchema,
+} from "./schemas/report-card-schema";
+import type { ReportCard, ReportCardBatch, ReportCardTemplate } from "./schemas/report-card-schema";
+import type { ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  ReportCard,
+  ReportCardAttendance,
+  ReportCardBatch,
+  ReportCardTemplate,
+} from "./schemas/report-card-schema";
+
+export type ReportCardTemplatePayload = Omit<ReportCardTemplate, "updated_at" | "updated_by_name">;
+
+export interface ReportCardFilters {
+  class_id: string; // Section public_id
+  student_id?: string; // Limit to one student of the section
+}
+
+// ============================================================================
+// Template
+// ============================================================================
+
+/**
+ * Fetch the organization's report card layout
+ */
+export async function fetchReportCardTemplate(): Promise<ApiResponse<ReportCardTemplate>> {
+  const response = await apiRequest<ApiResponse<ReportCardTemplate>>(
+    API_ENDPOINTS.exams.reportCardTemplate,
+    {
+      method: "GET",
+      schema: reportCardTemplateResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch report card layout");
+  }
+
+  return response;
+}
+
+/**
+ * Update the organization's report card layout
+ */
+export async function saveReportCardTemplate(
+  payload: ReportCardTemplatePayload
+): Promise<ApiResponse<ReportCardTemplate>> {
+  const response = await apiRequest<ApiResponse<ReportCardTemplate>>(
+    API_ENDPOINTS.exams.reportCardTemplate,
+    {
+      method: "PUT",
+      schema: reportCardTemplateResponseSchema,
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save report card layout");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Report Cards
+// ============================================================================
+
+/**
+ * Fetch the report cards of a section (or one of its students) for an exam.
+ * Only available once the exam's marks are locked.
+ */
+export async function fetchReportCards(
+  examId: string,
+  filters: ReportCardFilters
+): Promise<ApiResponse<ReportCardBatch>> {
+  const queryParams = new URLSearchParams({ class_id: filters.class_id });
+  if (filters.student_id) {
+    queryParams.append("student_id", filters.student_id);
+  }
+
+  const response = await apiRequest<ApiResponse<ReportCardBatch>>(
+    `${API_ENDPOINTS.exams.reportCards(examId)}?${queryParams.toString()}`,
+    {
+      method: "GET",
+      schema: reportCardBatchResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch report cards");
+  }
+
+  return response;
+}
+
+/**
+ * Save the class teacher's remarks printed on a student's report card
+ */
+export async function saveReportCardRemarks(
+  examId: string,
+  studentId: string,
+  remarks: string
+): Promise<ApiResponse<ReportCard>> {
+  const response = await apiRequest<ApiResponse<ReportCard>>(
+    API_ENDPOINTS.exams.reportCardRemarks(examId, studentId),
+    {
+      method: "PUT",
+      schema: reportCardResponseSchema,
+      body: JSON.stringify({ remarks }),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save remarks");
+  }
+
+  return response;
+}
@@ -0,0 +1,107 @@
+/**
+ * API Response Validation
+ * Checks successful responses against the module schemas in development and
+ * logs a structured drift report when the backend no longer matches them.
+ * Responses are never modified or rejected; production builds skip the check.
+ */
+
+import type { ZodIssue, ZodTypeAny } from "zod";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface DriftIssue {
+  /** Dotted path into the response body, e.g. `data[0].class_teacher.email` */
+  path: string;
+  code: ZodIssue["code"];
+  message: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface DriftReport {
+  endpoint: string;
+  method: string;
+  issues: DriftIssue[];
+}
+
+const isValidationEnabled = import.meta.env.DEV;
+
+/** Reports already logged, so polling queries don't repeat the same drift */
+const reportedDrift = new Set<string>();
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === "number") {
+      return `${result}[${segment}]`;
+    }
+    return result ? `${result}.${segment}` : segment;
+  }, "");
+}
+
+function toDriftIssue(issue: ZodIssue): DriftIssue {
+  return {
+    path: formatPath(issue.path),
+    code: issue.code,
+    message: issue.message,
+    expected: "expected" in issue ? String(issue.expected) : undefined,
+    received: "received" in issue ? String(issue.received) : undefined,
+  };
+}
+
+/**
+ * Drop ids and query strings so every request to the same route shares a key
+ */
+function getEndpointKey(url: string): string {
+  const path = url.split("?")[0].replace(/^https?:\/\/[^/]+/, "");
+  return path
+    .replace(/\/[0-9a-f]{8}-[0-9a-f-]{27,}(?=\/|$)/gi, "/:id")
+    .replace(/\/\d+(?=\/|$)/g, "/:id");
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a response body and log drift. Returns the report, or null when
+ * the body matches or validation is disabled.
+ */
+export function validateResponse(
+  schema: ZodTypeAny,
+  body: unknown,
+  request: { url: string; method?: string }
+): DriftReport | null {
+  if (!isValidationEnabled) {
+    return null;
+  }
+
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return null;
+  }
+
+  const report: DriftReport = {
+    endpoint: getEndpointKey(request.url),
+    method: (request.method ?? "GET").toUpperCase(),
+    issues: result.error.issues.map(toDriftIssue),
+  };
+
+  const key = `${report.method} ${report.endpoint} ${report.issues
+    .map((issue) => `${issue.path}:${issue.code}`)
+    .join("|")}`;
+  if (!reportedDrift.has(key)) {
+    reportedDrift.add(key);
+    console.warn(
+      `[api-drift] ${report.method} ${report.endpoint} has ${report.issues.length} field(s) that no longer match the schema`,
+      report
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,52 @@
+/**
+ * Address API Schemas
+ * Response schemas for the generic user address endpoints.
+ */
+
+import { z } from "zod";
+import { apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const addressSchema = z.object({
+  public_id: z.string().optional(),
+  id: z.number().optional(),
+  address_type: z.string().optional(),
+  street_address: z.string(),
+  address_line_2: z.string().optional(),
+  city: z.string(),
+  state: z.string(),
+  zip_code: z.string().optional(),
+  postal_code: z.string().optional(),
+  country: z.string(),
+  latitude: z.union([z.number(), z.string()]).nullable().optional(),
+  longitude: z.union([z.number(), z.string()]).nullable().optional(),
+  full_address: z.string().optional(),
+  location: z.unknown().nullable().optional(),
+  is_primary: z.boolean().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const userWithAddressSchema = z.object({
+  public_id: z.string(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  address: addressSchema,
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const userWithAddressResponseSchema = apiResponseSchema(userWithAddressSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Address = z.infer<typeof addressSchema>;
+export type UserWithAddress = z.infer<typeof userWithAddressSchema>;
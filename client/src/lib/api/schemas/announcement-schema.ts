@@ -0,0 +1,104 @@
+/**
+ * Announcement API Schemas
+ * Response schemas for announcements and circulars, who they are addressed
+ * to and the read receipts their senders track.
+ */
+
+import { z } from "zod";
+import { AnnouncementStatus, ReceiptStatus } from "@/constants/announcements";
+import { apiListResponseSchema, apiResponseSchema, auditFieldsSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Who an announcement is for. A user receives it when they match any of the
+ * lists; classes reach their teachers and the parents of their students.
+ */
+export const announcementAudienceSchema = z.object({
+  roles: z.array(z.string()), // App roles, e.g. "teacher"
+  organization_role_codes: z.array(z.string()), // e.g. "HOD"
+  class_master_ids: z.array(z.number()), // Core class ids, every section
+  class_ids: z.array(z.string()), // Class (section) public_ids
+});
+
+/**
+ * An announcement as its sender sees it, with receipt counts
+ */
+export const announcementSchema = z
+  .object({
+    public_id: z.string(),
+    title: z.string(),
+    body: z.string(),
+    audience: announcementAudienceSchema,
+    audience_labels: z.array(z.string()), // e.g. ["Parents", "Class 5 - A"]
+    requires_acknowledgement: z.boolean(),
+    publish_at: z.string(),
+    expires_at: z.string().nullable(),
+    status: z.nativeEnum(AnnouncementStatus),
+    recipient_count: z.number(),
+    read_count: z.number(),
+    acknowledged_count: z.number(),
+  })
+  .merge(auditFieldsSchema);
+
+/**
+ * One recipient's row for an announcement, whether or not they opened it
+ */
+export const announcementReceiptSchema = z.object({
+  user: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    role: z.string(),
+    detail: z.string(), // Organization role, or the parent's children
+  }),
+  status: z.nativeEnum(ReceiptStatus),
+  read_at: z.string().nullable(),
+  acknowledged_at: z.string().nullable(),
+});
+
+/**
+ * An announcement with a row per recipient
+ */
+export const announcementReceiptsSchema = z.object({
+  announcement: announcementSchema,
+  receipts: z.array(announcementReceiptSchema),
+});
+
+/**
+ * A published announcement addressed to the signed-in user
+ */
+export const receivedAnnouncementSchema = z.object({
+  public_id: z.string(),
+  title: z.string(),
+  body: z.string(),
+  sender_name: z.string(),
+  requires_acknowledgement: z.boolean(),
+  publish_at: z.string(),
+  expires_at: z.string().nullable(),
+  read_at: z.string().nullable(),
+  acknowledged_at: z.string().nullable(),
+});
+
+// ============================================================================
+// Response Envelopes
+// ============================================================================
+
+export const announcementsResponseSchema = apiListResponseSchema(announcementSchema);
+export const announcementResponseSchema = apiResponseSchema(announcementSchema);
+export const announcementReceiptsResponseSchema = apiResponseSchema(announcementReceiptsSchema);
+export const receivedAnnouncementResponseSchema = apiResponseSchema(receivedAnnouncementSchema);
+export const receivedAnnouncementsResponseSchema = apiResponseSchema(
+  z.array(receivedAnnouncementSchema)
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AnnouncementAudience = z.infer<typeof announcementAudienceSchema>;
+export type Announcement = z.infer<typeof announcementSchema>;
+export type AnnouncementReceipt = z.infer<typeof announcementReceiptSchema>;
+export type AnnouncementReceipts = z.infer<typeof announcementReceiptsSchema>;
+export type ReceivedAnnouncement = z.infer<typeof receivedAnnouncementSchema>;
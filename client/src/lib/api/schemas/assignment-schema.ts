@@ -0,0 +1,129 @@
+/**
+ * Assignment API Schemas
+ * Response schemas for homework assignments, their attachments and the
+ * per-student submissions teachers track and grade.
+ */
+
+import { z } from "zod";
+import { SubmissionStatus } from "@/constants/assignments";
+import {
+  apiListResponseSchema,
+  apiResponseSchema,
+  attachmentSchema,
+  auditFieldsSchema,
+} from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+const assignmentClassInfoSchema = z.object({
+  public_id: z.string(),
+  class_master_name: z.string(),
+  name: z.string(),
+});
+
+/**
+ * A teacher's subject assignment (section + subject) homework can be set for
+ */
+export const assignmentSubjectSchema = z.object({
+  public_id: z.string(), // Subject assignment public_id
+  name: z.string(),
+  code: z.string(),
+  class_info: assignmentClassInfoSchema,
+});
+
+/**
+ * Homework set for one section in one subject
+ */
+export const assignmentSchema = z
+  .object({
+    public_id: z.string(),
+    title: z.string(),
+    instructions: z.string(),
+    due_date: z.string(), // YYYY-MM-DD
+    max_marks: z.number().nullable(), // Null when graded with feedback only
+    subject_info: z.object({
+      public_id: z.string(), // Subject assignment public_id
+      name: z.string(),
+      code: z.string(),
+    }),
+    class_info: assignmentClassInfoSchema,
+    teacher_info: z.object({
+      public_id: z.string(),
+      full_name: z.string(),
+    }),
+    attachments: z.array(attachmentSchema),
+    student_count: z.number(),
+    submitted_count: z.number(), // Handed in, graded or not
+    graded_count: z.number(),
+  })
+  .merge(auditFieldsSchema);
+
+/**
+ * One student's row for an assignment, whether or not they handed it in
+ */
+export const submissionSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  status: z.nativeEnum(SubmissionStatus),
+  submitted_at: z.string().nullable(),
+  content: z.string(), // Answer text sent with the submission
+  attachments: z.array(attachmentSchema),
+  marks_obtained: z.number().nullable(),
+  feedback: z.string(),
+  graded_at: z.string().nullable(),
+  graded_by_name: z.string().nullable(),
+});
+
+/**
+ * An assignment with a row per student of its section
+ */
+export const assignmentSubmissionsSchema = z.object({
+  assignment: assignmentSchema,
+  submissions: z.array(submissionSchema),
+});
+
+/**
+ * Homework of one of the signed-in parent's children, due soonest first
+ */
+export const childAssignmentsSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  class_info: assignmentClassInfoSchema,
+  assignments: z.array(
+    z.object({
+      assignment: assignmentSchema,
+      submission: submissionSchema,
+    })
+  ),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const assignmentsResponseSchema = apiListResponseSchema(assignmentSchema);
+export const assignmentResponseSchema = apiResponseSchema(assignmentSchema);
+export const assignmentSubjectsResponseSchema = apiResponseSchema(z.array(assignmentSubjectSchema));
+export const assignmentSubmissionsResponseSchema = apiResponseSchema(assignmentSubmissionsSchema);
+export const submissionResponseSchema = apiResponseSchema(submissionSchema);
+export const childrenAssignmentsResponseSchema = apiResponseSchema(z.array(childAssignmentsSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { Attachment } from "./common-schema";
+export type AssignmentSubject = z.infer<typeof assignmentSubjectSchema>;
+export type Assignment = z.infer<typeof assignmentSchema>;
+export type Submission = z.infer<typeof submissionSchema>;
+export type AssignmentSubmissions = z.infer<typeof assignmentSubmissionsSchema>;
+export type ChildAssignments = z.infer<typeof childAssignmentsSchema>;
+export type ChildAssignment = ChildAssignments["assignments"][number];
@@ -0,0 +1,158 @@
+/**
+ * Attendance API Schemas
+ * Response schemas for staff check-in/out, the staff register and student attendance.
+ */
+
+import { z } from "zod";
+import { StudentAttendanceStatus } from "@/constants/attendance";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Staff Attendance
+// ============================================================================
+
+export const attendanceStatusSchema = z.enum(["PRESENT", "ABSENT", "HALF_DAY", "ON_LEAVE"]);
+
+export const attendanceRecordSchema = z.object({
+  public_id: z.string(),
+  user: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    role: z.string(),
+  }),
+  date: z.string(),
+  check_in_time: z.string().nullable(),
+  check_out_time: z.string().nullable(),
+  status: attendanceStatusSchema,
+  work_hours: z.number(),
+  check_in_latitude: z.number().nullable().optional(),
+  check_in_longitude: z.number().nullable().optional(),
+  check_out_latitude: z.number().nullable().optional(),
+  check_out_longitude: z.number().nullable().optional(),
+  check_in_within_geofence: z.boolean().nullable().optional(), // null when no location was captured
+  check_out_within_geofence: z.boolean().nullable().optional(),
+  check_in_distance_meters: z.number().nullable().optional(), // Distance from the nearest geofence edge
+  remarks: z.string().nullable().optional(),
+  is_corrected: z.boolean().optional(),
+  corrected_by_name: z.string().nullable().optional(),
+  corrected_at: z.string().nullable().optional(),
+  is_regularized: z.boolean().optional(), // Updated through an approved regularization request
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const attendanceSummarySchema = z.object({
+  total_days: z.number(),
+  present_days: z.number(),
+  absent_days: z.number(),
+  half_days: z.number(),
+  leave_days: z.number(),
+  attendance_percentage: z.number(),
+});
+
+export const myAttendanceSchema = z.object({
+  records: z.array(attendanceRecordSchema),
+  summary: attendanceSummarySchema,
+});
+
+export const todayAttendanceSchema = z.object({
+  has_checked_in: z.boolean(),
+  has_checked_out: z.boolean(),
+  check_in_time: z.string().nullable(),
+  check_out_time: z.string().nullable(),
+  status: z.string().nullable(),
+  work_hours: z.number().nullable(),
+  check_in_within_geofence: z.boolean().nullable().optional(),
+});
+
+// ============================================================================
+// Student Attendance
+// ============================================================================
+
+export const studentAttendanceStatusSchema = z.nativeEnum(StudentAttendanceStatus);
+
+export const studentAttendanceRecordSchema = z.object({
+  public_id: z.string(),
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  date: z.string(),
+  status: studentAttendanceStatusSchema,
+  remarks: z.string(),
+  marked_by_name: z.string().nullable(),
+  marked_at: z.string().nullable(),
+});
+
+export const classAttendanceSchema = z.object({
+  class_id: z.string(),
+  date: z.string(),
+  is_marked: z.boolean(),
+  records: z.array(studentAttendanceRecordSchema),
+});
+
+export const markStudentAttendanceSchema = z.object({
+  created_count: z.number(),
+  updated_count: z.number(),
+  records: z.array(studentAttendanceRecordSchema),
+});
+
+/**
+ * A parent's child with every class roll call they were marked in, newest first
+ */
+export const childAttendanceSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  class_info: z.object({
+    public_id: z.string(),
+    class_master_name: z.string(),
+    name: z.string(),
+  }),
+  summary: z.object({
+    marked_days: z.number(),
+    present_days: z.number(),
+    absent_days: z.number(),
+    late_days: z.number(),
+    leave_days: z.number(),
+    attendance_rate: z.number().nullable(), // Present or late, as a percentage of marked days
+  }),
+  records: z.array(
+    z.object({
+      date: z.string(),
+      status: studentAttendanceStatusSchema,
+      remarks: z.string(),
+      marked_by_name: z.string().nullable(),
+    })
+  ),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const todayAttendanceResponseSchema = apiResponseSchema(todayAttendanceSchema);
+export const attendanceRecordResponseSchema = apiResponseSchema(attendanceRecordSchema);
+export const attendanceRecordsResponseSchema = apiListResponseSchema(attendanceRecordSchema);
+export const myAttendanceResponseSchema = apiResponseSchema(myAttendanceSchema);
+export const classAttendanceResponseSchema = apiResponseSchema(classAttendanceSchema);
+export const markStudentAttendanceResponseSchema = apiResponseSchema(markStudentAttendanceSchema);
+export const childrenAttendanceResponseSchema = apiResponseSchema(z.array(childAttendanceSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AttendanceRecord = z.infer<typeof attendanceRecordSchema>;
+export type AttendanceSummary = z.infer<typeof attendanceSummarySchema>;
+export type MyAttendanceResponse = z.infer<typeof myAttendanceSchema>;
+export type TodayAttendanceResponse = z.infer<typeof todayAttendanceSchema>;
+export type StudentAttendanceStatus = z.infer<typeof studentAttendanceStatusSchema>;
+export type StudentAttendanceRecord = z.infer<typeof studentAttendanceRecordSchema>;
+export type ClassAttendanceResponse = z.infer<typeof classAttendanceSchema>;
+export type MarkStudentAttendanceResponse = z.infer<typeof markStudentAttendanceSchema>;
+export type ChildAttendance = z.infer<typeof childAttendanceSchema>;
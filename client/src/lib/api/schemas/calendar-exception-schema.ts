@@ -0,0 +1,50 @@
+/**
+ * Calendar Exception API Schemas
+ * Response schemas for working/holiday overrides on specific dates.
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const overrideTypeSchema = z.enum(["FORCE_WORKING", "FORCE_HOLIDAY"]);
+
+export const calendarExceptionSchema = z.object({
+  public_id: z.string(),
+  organization: z.string(),
+  is_applicable_to_all_classes: z.boolean(),
+  classes: z.array(z.string()),
+  date: z.string(),
+  override_type: overrideTypeSchema,
+  reason: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const bulkCreateCalendarExceptionsSchema = z.object({
+  created_count: z.number(),
+  exceptions: z.array(calendarExceptionSchema),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const calendarExceptionsResponseSchema = apiListResponseSchema(calendarExceptionSchema);
+export const calendarExceptionResponseSchema = apiResponseSchema(calendarExceptionSchema);
+export const bulkCreateCalendarExceptionsResponseSchema = apiResponseSchema(
+  bulkCreateCalendarExceptionsSchema
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OverrideType = z.infer<typeof overrideTypeSchema>;
+export type CalendarException = z.infer<typeof calendarExceptionSchema>;
+export type BulkCreateCalendarExceptionsResponse = z.infer<
+  typeof bulkCreateCalendarExceptionsSchema
+>;
@@ -0,0 +1,82 @@
+/**
+ * Class API Schemas
+ * Response schemas for core classes (grades) and master classes (sections).
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema, auditFieldsSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Core Class (Grade/Level) from /api/core/classes/
+ * These are the base classes like Pre-KG, LKG, Class 1, etc.
+ */
+export const coreClassSchema = z.object({
+  id: z.number(),
+  name: z.string(), // e.g., "Pre-KG", "Class 1", "Class 10"
+  code: z.string(), // e.g., "PRE_KG", "CLASS_1", "CLASS_10"
+  display_order: z.number(),
+  description: z.string(),
+});
+
+/**
+ * Master Class (Section) from /api/classes/admin/
+ * These are the actual sections like "Class 1 - A", "Class 10 - B"
+ */
+export const masterClassSchema = z
+  .object({
+    public_id: z.string(),
+    class_master: z.object({
+      id: z.number(),
+      name: z.string(),
+      code: z.string(),
+      display_order: z.number(),
+    }),
+    name: z.string(),
+    organization: z.object({
+      public_id: z.string(),
+      name: z.string(),
+      email: z.string(),
+      phone: z.string(),
+      admin_name: z.string(),
+      admin_public_id: z.string(),
+    }),
+    class_teacher: z
+      .object({
+        public_id: z.string(),
+        email: z.string(),
+        full_name: z.string(),
+        first_name: z.string(),
+        last_name: z.string(),
+        employee_id: z.string(),
+        specialization: z.string(),
+        designation: z.string(),
+      })
+      .nullable(),
+    info: z.string().nullable(), // Description
+    capacity: z.number().nullable(),
+    student_count: z.number(),
+  })
+  .merge(auditFieldsSchema);
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const coreClassesResponseSchema = apiListResponseSchema(coreClassSchema);
+export const classesResponseSchema = apiListResponseSchema(masterClassSchema);
+export const classResponseSchema = apiResponseSchema(masterClassSchema);
+/** Single create returns one section, bulk create returns the list */
+export const createClassResponseSchema = apiResponseSchema(
+  z.union([masterClassSchema, z.array(masterClassSchema)])
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CoreClass = z.infer<typeof coreClassSchema>;
+export type MasterClass = z.infer<typeof masterClassSchema>;
@@ -0,0 +1,82 @@
+/**
+ * Common API Schemas
+ * Envelope and shared field schemas used by every API module schema.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// Envelopes
+// ============================================================================
+
+export const paginationSchema = z.object({
+  current_page: z.number(),
+  total_pages: z.number(),
+  count: z.number(),
+  page_size: z.number(),
+  has_next: z.boolean(),
+  has_previous: z.boolean(),
+  next_page: z.number().nullable(),
+  previous_page: z.number().nullable(),
+});
+
+/**
+ * Standard single item envelope around `data`
+ */
+export function apiResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.boolean(),
+    message: z.string(),
+    data,
+    code: z.number(),
+    errors: z.unknown().optional(),
+  });
+}
+
+/**
+ * Standard paginated list envelope around `item`
+ */
+export function apiListResponseSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    success: z.boolean(),
+    message: z.string(),
+    data: z.array(item),
+    pagination: paginationSchema,
+    code: z.number(),
+    errors: z.unknown().optional(),
+  });
+}
+
+/**
+ * Envelope for DELETE and other endpoints that return no data
+ */
+export const emptyResponseSchema = apiResponseSchema(z.null().optional());
+
+// ============================================================================
+// Shared Fields
+// ============================================================================
+
+/**
+ * Audit fields added by the backend's audit mixin
+ */
+export const auditFieldsSchema = z.object({
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_public_id: z.string().nullable(),
+  created_by_name: z.string().nullable(),
+  updated_by_public_id: z.string().nullable(),
+  updated_by_name: z.string().nullable(),
+});
+
+/**
+ * An uploaded file attached to a record
+ */
+export const attachmentSchema = z.object({
+  public_id: z.string(),
+  file_name: z.string(),
+  file_size: z.number(), // Bytes
+  content_type: z.string(),
+  url: z.string(),
+});
+
+export type Attachment = z.infer<typeof attachmentSchema>;
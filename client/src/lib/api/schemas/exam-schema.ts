@@ -0,0 +1,186 @@
+/**
+ * Exam API Schemas
+ * Response schemas for grade scales, exam terms, their per-subject papers,
+ * marks sheets and published results.
+ */
+
+import { z } from "zod";
+import { ExamStatus } from "@/constants/exams";
+import { apiListResponseSchema, apiResponseSchema, auditFieldsSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+const examClassInfoSchema = z.object({
+  public_id: z.string(),
+  class_master_name: z.string(),
+  name: z.string(),
+});
+
+/**
+ * One band of a grade scale: percentages from `min_percentage` up to the next
+ * band's minimum get this grade
+ */
+export const gradeBandSchema = z.object({
+  min_percentage: z.number(),
+  grade: z.string(),
+  grade_point: z.number(),
+  description: z.string(),
+});
+
+/**
+ * Percentage to grade/GPA conversion used by an exam term
+ */
+export const gradeScaleSchema = z
+  .object({
+    public_id: z.string(),
+    name: z.string(),
+    is_default: z.boolean(),
+    bands: z.array(gradeBandSchema), // Highest band first
+    exam_count: z.number(), // Exam terms using this scale
+  })
+  .merge(auditFieldsSchema);
+
+/**
+ * An exam term such as "Unit Test 1", sat by the selected sections
+ */
+export const examSchema = z
+  .object({
+    public_id: z.string(),
+    name: z.string(),
+    start_date: z.string(), // YYYY-MM-DD
+    end_date: z.string(), // YYYY-MM-DD
+    status: z.nativeEnum(ExamStatus),
+    grade_scale: z.object({
+      public_id: z.string(),
+      name: z.string(),
+    }),
+    classes: z.array(examClassInfoSchema),
+    paper_count: z.number(),
+    completed_paper_count: z.number(), // Papers with marks for every student
+    published_at: z.string().nullable(),
+  })
+  .merge(auditFieldsSchema);
+
+/**
+ * One subject assignment's paper in an exam term
+ */
+export const examPaperSchema = z.object({
+  public_id: z.string(),
+  exam: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    status: z.nativeEnum(ExamStatus),
+    start_date: z.string(),
+  }),
+  subject_info: z.object({
+    public_id: z.string(), // Subject assignment public_id
+    name: z.string(),
+    code: z.string(),
+  }),
+  class_info: examClassInfoSchema,
+  teacher_info: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+  }),
+  max_marks: z.number(),
+  pass_marks: z.number(),
+  exam_date: z.string().nullable(),
+  student_count: z.number(),
+  marks_entered: z.number(), // Students with marks or marked absent
+  average_percentage: z.number().nullable(),
+  pass_percentage: z.number().nullable(),
+});
+
+/**
+ * A student's row in a paper's marks sheet
+ */
+export const markEntrySchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  marks_obtained: z.number().nullable(), // null until entered
+  is_absent: z.boolean(),
+  remarks: z.string(),
+});
+
+export const marksSheetSchema = z.object({
+  paper: examPaperSchema,
+  grade_scale: gradeScaleSchema,
+  entries: z.array(markEntrySchema),
+});
+
+/**
+ * A child's result in one subject of a published exam
+ */
+export const subjectResultSchema = z.object({
+  subject_name: z.string(),
+  subject_code: z.string(),
+  max_marks: z.number(),
+  pass_marks: z.number(),
+  marks_obtained: z.number().nullable(),
+  is_absent: z.boolean(),
+  percentage: z.number().nullable(),
+  grade: z.string().nullable(),
+  grade_point: z.number().nullable(),
+  remarks: z.string(),
+});
+
+export const examResultSchema = z.object({
+  exam: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    start_date: z.string(),
+    end_date: z.string(),
+    published_at: z.string().nullable(),
+  }),
+  subjects: z.array(subjectResultSchema),
+  total_obtained: z.number(),
+  total_max: z.number(),
+  percentage: z.number(),
+  grade: z.string(),
+  gpa: z.number(),
+});
+
+/**
+ * Published results of one of the signed-in parent's children, latest exam first
+ */
+export const childResultsSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  class_info: examClassInfoSchema,
+  results: z.array(examResultSchema),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const gradeScalesResponseSchema = apiResponseSchema(z.array(gradeScaleSchema));
+export const gradeScaleResponseSchema = apiResponseSchema(gradeScaleSchema);
+export const examsResponseSchema = apiListResponseSchema(examSchema);
+export const examResponseSchema = apiResponseSchema(examSchema);
+export const examPapersResponseSchema = apiResponseSchema(z.array(examPaperSchema));
+export const examPaperResponseSchema = apiResponseSchema(examPaperSchema);
+export const marksSheetResponseSchema = apiResponseSchema(marksSheetSchema);
+export const childrenResultsResponseSchema = apiResponseSchema(z.array(childResultsSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GradeBand = z.infer<typeof gradeBandSchema>;
+export type GradeScale = z.infer<typeof gradeScaleSchema>;
+export type Exam = z.infer<typeof examSchema>;
+export type ExamPaper = z.infer<typeof examPaperSchema>;
+export type MarkEntry = z.infer<typeof markEntrySchema>;
+export type MarksSheet = z.infer<typeof marksSheetSchema>;
+export type SubjectResult = z.infer<typeof subjectResultSchema>;
+export type ExamResult = z.infer<typeof examResultSchema>;
+export type ChildResults = z.infer<typeof childResultsSchema>;
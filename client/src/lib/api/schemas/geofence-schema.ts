@@ -0,0 +1,37 @@
+/**
+ * Campus Geofence API Schemas
+ * Response schemas for the campus geofences used for check-in validation.
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const campusGeofenceSchema = z.object({
+  public_id: z.string(),
+  name: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  radius_meters: z.number(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_name: z.string().nullable(),
+  updated_by_name: z.string().nullable(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const campusGeofencesResponseSchema = apiListResponseSchema(campusGeofenceSchema);
+export const campusGeofenceResponseSchema = apiResponseSchema(campusGeofenceSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CampusGeofence = z.infer<typeof campusGeofenceSchema>;
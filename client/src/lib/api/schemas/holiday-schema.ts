@@ -0,0 +1,63 @@
+/**
+ * Holiday Calendar API Schemas
+ * Response schemas for organization holidays and working day policies.
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema, auditFieldsSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const holidayTypeSchema = z.enum([
+  "SUNDAY",
+  "SATURDAY",
+  "SECOND_SATURDAY",
+  "NATIONAL_HOLIDAY",
+  "FESTIVAL",
+  "ORGANIZATION_HOLIDAY",
+  "OTHER",
+]);
+
+export const holidaySchema = z.object({
+  public_id: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  holiday_type: holidayTypeSchema,
+  description: z.string(),
+});
+
+export const createHolidayResponseSchema = holidaySchema.merge(auditFieldsSchema);
+
+export const saturdayOffPatternSchema = z.enum(["NONE", "SECOND_ONLY", "SECOND_AND_FOURTH", "ALL"]);
+
+export const workingDayPolicySchema = z
+  .object({
+    public_id: z.string(),
+    sunday_off: z.boolean(),
+    saturday_off_pattern: saturdayOffPatternSchema,
+    effective_from: z.string(),
+    effective_to: z.string().nullable(),
+  })
+  .merge(auditFieldsSchema);
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const holidayCalendarResponseSchema = apiListResponseSchema(holidaySchema);
+export const holidayResponseSchema = apiResponseSchema(createHolidayResponseSchema);
+export const holidaysResponseSchema = apiResponseSchema(z.array(createHolidayResponseSchema));
+export const workingDayPoliciesResponseSchema = apiListResponseSchema(workingDayPolicySchema);
+export const workingDayPolicyResponseSchema = apiResponseSchema(workingDayPolicySchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HolidayType = z.infer<typeof holidayTypeSchema>;
+export type Holiday = z.infer<typeof holidaySchema>;
+export type CreateHolidayResponse = z.infer<typeof createHolidayResponseSchema>;
+export type SaturdayOffPattern = z.infer<typeof saturdayOffPatternSchema>;
+export type WorkingDayPolicy = z.infer<typeof workingDayPolicySchema>;
@@ -0,0 +1,540 @@
+/**
+ * Leave API Schemas
+ * Response schemas for leave types, allocations, approval workflows, balances
+ * and their ledgers, accruals, year-end rollovers and requests.
+ */
+
+import { z } from "zod";
+import {
+  apiListResponseSchema,
+  apiResponseSchema,
+  attachmentSchema,
+  auditFieldsSchema,
+} from "./common-schema";
+
+// ============================================================================
+// Core Reference Data
+// ============================================================================
+
+export const leaveTypeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string(),
+  description: z.string(),
+  display_order: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const organizationRoleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string(),
+  description: z.string(),
+  display_order: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// ============================================================================
+// Allocations & Balances
+// ============================================================================
+
+/**
+ * When an allocation's days are credited: all at the start, or spread evenly
+ * and credited at the start of each month or quarter
+ */
+export const accrualFrequencySchema = z.enum(["upfront", "monthly", "quarterly"]);
+
+export const leaveAllocationSchema = z
+  .object({
+    public_id: z.string(),
+    leave_type_id: z.number(),
+    leave_type_name: z.string(),
+    name: z.string().nullable(),
+    description: z.string().nullable(),
+    total_days: z.string(),
+    max_carry_forward_days: z.string(),
+    roles: z.string(), // Comma-separated string of role names
+    role_ids: z.array(z.number()).optional(),
+    effective_from: z.string().nullable(),
+    effective_to: z.string().nullable(),
+    accrual_frequency: accrualFrequencySchema.default("upfront"),
+    is_prorated: z.boolean().default(false), // Only credit months from the joining date
+    // Requests longer than this many days need a supporting document; null for never
+    attachment_required_above_days: z.number().nullable().default(null),
+  })
+  .merge(auditFieldsSchema);
+
+export const leaveBalanceSchema = z.object({
+  public_id: z.string(),
+  user: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    email: z.string(),
+    role: z.string(),
+  }),
+  leave_allocation: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    display_name: z.string(),
+    leave_type: z.object({
+      id: z.number(),
+      name: z.string(),
+      code: z.string(),
+    }),
+    attachment_required_above_days: z.number().nullable().default(null),
+  }),
+  total_allocated: z.number(),
+  used: z.number(),
+  pending: z.number(),
+  available: z.number(),
+  carried_forward: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Lightweight leave balance for the dashboard
+export const leaveBalanceSummarySchema = z.object({
+  public_id: z.string(),
+  leave_type_name: z.string(),
+  leave_type_code: z.string(),
+  total_allocated: z.number(),
+  used: z.number(),
+  pending: z.number(),
+  available: z.number(),
+  carried_forward: z.number(),
+});
+
+// ============================================================================
+// Balance Ledger
+// ============================================================================
+
+/**
+ * What moved a balance: days credited (allocation, accrual, carry_forward,
+ * cancellation of approved leave), debited (approval) or changed by hand
+ * (adjustment, either way)
+ */
+export const leaveLedgerEntryTypeSchema = z.enum([
+  "allocation",
+  "accrual",
+  "approval",
+  "cancellation",
+  "adjustment",
+  "carry_forward",
+]);
+
+export const leaveLedgerEntrySchema = z.object({
+  public_id: z.string(),
+  entry_type: leaveLedgerEntryTypeSchema,
+  days: z.number(), // Positive for credits, negative for debits
+  balance_after: z.number(),
+  created_at: z.string(),
+  actor_name: z.string().nullable(), // Null for system postings
+  request_public_id: z.string().nullable(),
+  request_summary: z.string().nullable(), // e.g. "3 Mar – 5 Mar (3 days)"
+  note: z.string(),
+});
+
+/**
+ * A balance's entries, newest first. The latest balance_after equals the
+ * balance's allocated plus carried forward days less the days used; pending
+ * days are held outside the ledger until approved.
+ */
+export const leaveBalanceLedgerSchema = z.object({
+  balance_public_id: z.string(),
+  user_name: z.string(),
+  leave_type_name: z.string(),
+  leave_type_code: z.string(),
+  pending: z.number(),
+  entries: z.array(leaveLedgerEntrySchema),
+});
+
+// ============================================================================
+// Accruals
+// ============================================================================
+
+/**
+ * One balance on an accruing allocation: what the user has earned by the
+ * as-of date against what their balance has been credited so far
+ */
+export const leaveAccrualRowSchema = z.object({
+  balance_public_id: z.string(),
+  user_public_id: z.string(),
+  user_name: z.string(),
+  joining_date: z.string().nullable(),
+  allocation_name: z.string(),
+  leave_type_code: z.string(),
+  accrual_frequency: accrualFrequencySchema,
+  is_prorated: z.boolean(),
+  entitlement: z.number(), // Days for the whole period, after pro-rating
+  accrued: z.number(),
+  credited: z.number(), // The balance's current total_allocated
+  credit: z.number(), // Days the next run posts
+});
+
+export const leaveAccrualPreviewSchema = z.object({
+  as_of: z.string(),
+  rows: z.array(leaveAccrualRowSchema),
+  credits_due: z.number(),
+  days_due: z.number(),
+});
+
+export const leaveAccrualRunSchema = z.object({
+  public_id: z.string(),
+  as_of: z.string(),
+  run_at: z.string(),
+  run_by_name: z.string(),
+  credits_posted: z.number(),
+  days_credited: z.number(),
+});
+
+// ============================================================================
+// Year-End Rollover
+// ============================================================================
+
+/**
+ * One balance of the closing year: its unused days, how many carry forward
+ * (capped by the allocation's max_carry_forward_days) and how many lapse.
+ * Pending days count as used.
+ */
+export const leaveRolloverRowSchema = z.object({
+  balance_public_id: z.string(),
+  user_public_id: z.string(),
+  user_name: z.string(),
+  organization_role: z.string(),
+  leave_type_name: z.string(),
+  leave_type_code: z.string(),
+  allocated: z.number(), // Allocated plus carried into the closing year
+  used: z.number(),
+  pending: z.number(),
+  unused: z.number(),
+  max_carry_forward: z.number(),
+  carry_forward: z.number(),
+  lapsed: z.number(),
+});
+
+export const leaveRolloverTotalsSchema = z.object({
+  users: z.number(),
+  unused: z.number(),
+  carry_forward: z.number(),
+  lapsed: z.number(),
+});
+
+export const leaveRolloverPreviewSchema = z.object({
+  from_year: z.number(),
+  to_year: z.number(),
+  already_processed: z.boolean(),
+  rows: z.array(leaveRolloverRowSchema),
+  totals: leaveRolloverTotalsSchema,
+  pending_requests: z.number(),
+  skipped_allocations: z.array(z.string()), // Allocations without an end date in the year
+});
+
+/**
+ * A processed rollover. Its summary is kept as it was on the day it ran.
+ */
+export const leaveRolloverSchema = z.object({
+  public_id: z.string(),
+  from_year: z.number(),
+  to_year: z.number(),
+  processed_at: z.string(),
+  processed_by_name: z.string(),
+  allocations_created: z.number(),
+  balances_created: z.number(),
+  totals: leaveRolloverTotalsSchema,
+});
+
+// ============================================================================
+// Approval Workflows
+// ============================================================================
+
+/**
+ * Who acts on an approval step: whoever manages the applicant (their
+ * supervisor, class teacher or an admin), anyone holding an organization role,
+ * or any admin
+ */
+export const approverTypeSchema = z.enum(["supervisor", "organization_role", "admin"]);
+
+export const approvalWorkflowStepSchema = z.object({
+  approver_type: approverTypeSchema,
+  organization_role_code: z.string().nullable(), // Set for organization_role steps
+  label: z.string(), // e.g. "Supervisor", "Head of Department"
+});
+
+/**
+ * An ordered approval chain. A request uses the most specific active workflow
+ * that matches it; requests no workflow matches need their supervisor only.
+ */
+export const leaveApprovalWorkflowSchema = z
+  .object({
+    public_id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    role_ids: z.array(z.number()), // Applicants' organization roles; empty for every role
+    role_names: z.array(z.string()),
+    leave_type_ids: z.array(z.number()), // Empty for every leave type
+    leave_type_names: z.array(z.string()),
+    min_days: z.number(), // Applies to requests of at least this many days; 0 for any length
+    steps: z.array(approvalWorkflowStepSchema),
+    is_active: z.boolean(),
+  })
+  .merge(auditFieldsSchema);
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+export const leaveRequestStatusSchema = z.enum(["pending", "approved", "rejected", "cancelled"]);
+
+/**
+ * A step of a request's approval chain. Later steps wait until the pending
+ * one is approved; a rejection skips the rest.
+ */
+export const leaveApprovalStepSchema = approvalWorkflowStepSchema.extend({
+  order: z.number(),
+  status: z.enum(["waiting", "pending", "approved", "rejected", "skipped"]),
+  approvers: z.array(z.string()), // Who can act on a waiting or pending step
+  acted_by_name: z.string().nullable(),
+  acted_at: z.string().nullable(),
+  comments: z.string(),
+});
+
+export const leaveRequestSchema = z.object({
+  public_id: z.string(),
+  user_public_id: z.string(),
+  user_name: z.string(),
+  user_role: z.string(),
+  organization_role: z.string(),
+  email: z.string(),
+  supervisor_name: z.string(),
+  supervisor_public_id: z.string(),
+  leave_balance_public_id: z.string(),
+  leave_balance: z.object({
+    public_id: z.string(),
+  }),
+  leave_type_code: z.string(),
+  leave_name: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  number_of_days: z.string(),
+  total_days: z.number(),
+  is_half_day: z.boolean(),
+  reason: z.string(),
+  remarks: z.string().optional(),
+  attachments: z.array(attachmentSchema).default([]),
+  attachment_required: z.boolean().default(false), // The allocation's rule applies to this request
+  status: leaveRequestStatusSchema,
+  applied_at: z.string(),
+  reviewed_by_name: z.string().nullable(),
+  reviewed_by: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  review_comments: z.string(),
+  workflow_name: z.string().nullable(), // null when no workflow matched
+  approval_steps: z.array(leaveApprovalStepSchema),
+  current_step: z.number().nullable(), // Order of the step awaiting action
+  can_be_cancelled: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_public_id: z.string(),
+  created_by_name: z.string(),
+  updated_by_public_id: z.string(),
+  updated_by_name: z.string(),
+});
+
+export const leaveDashboardSchema = z.object({
+  user: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    role: z.string(),
+  }),
+  leave_balances: z.array(leaveBalanceSchema),
+  leave_requests: z.array(leaveRequestSchema),
+  summary: z.object({
+    total_leave_types: z.number(),
+    total_requests: z.number(),
+    pending_requests: z.number(),
+  }),
+});
+
+export const holidayInfoSchema = z.object({
+  date: z.string(),
+  description: z.string(),
+  type: z.string(),
+});
+
+export const calculateWorkingDaysSchema = z.object({
+  working_days: z.number(),
+  total_days: z.number(),
+  start_date: z.string(),
+  end_date: z.string(),
+  holidays: z.array(holidayInfoSchema),
+});
+
+// ============================================================================
+// Children (Parent)
+// ============================================================================
+
+/**
+ * Leave requests of one of the signed-in parent's children, newest first
+ */
+export const childLeaveRequestsSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  requests: z.array(leaveRequestSchema),
+});
+
+// ============================================================================
+// Team Calendar
+// ============================================================================
+
+/**
+ * An approved or pending leave of someone the user manages, as plotted on
+ * the team calendar
+ */
+export const teamLeaveSchema = z.object({
+  request_public_id: z.string(),
+  user_public_id: z.string(),
+  user_name: z.string(),
+  user_role: z.string(),
+  organization_role: z.string(), // Empty when the user has none
+  department: z.string().nullable(), // Teacher's specialization
+  leave_name: z.string(),
+  leave_type_code: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  is_half_day: z.boolean(),
+  status: z.enum(["approved", "pending"]),
+});
+
+/**
+ * Staff leave overlapping the requested range. More than
+ * max_concurrent_absences people of one role or department off on the same
+ * day counts as short-staffed; null when the organization has not set a
+ * limit.
+ */
+export const teamLeaveCalendarSchema = z.object({
+  from_date: z.string(),
+  to_date: z.string(),
+  max_concurrent_absences: z.number().nullable(),
+  leaves: z.array(teamLeaveSchema),
+});
+
+// ============================================================================
+// Users
+// ============================================================================
+
+// User for selection
+export const leaveUserSchema = z.object({
+  public_id: z.string(),
+  full_name: z.string(),
+  email: z.string(),
+  role: z.string(),
+  organization_role: z.string().optional(),
+  department: z.string().nullable().optional(), // Teacher's specialization
+});
+
+export const userLeaveBalancesSchema = z.object({
+  user: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    role: z.string(),
+    gender: z.string().optional(),
+  }),
+  balances: z.array(leaveBalanceSchema),
+  total_count: z.number(),
+});
+
+export const manageableUserSchema = z.object({
+  public_id: z.string(),
+  full_name: z.string(),
+  email: z.string(),
+  role: z.string(),
+  role_display: z.string(),
+  organization_role: z.string().optional(),
+  gender: z.string().optional(),
+  employee_id: z.string().optional(),
+  subjects: z.array(z.string()).optional(),
+  roll_number: z.string().optional(),
+});
+
+export const manageableUsersSchema = z.object({
+  users: z.array(manageableUserSchema),
+  total_users: z.number(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const leaveTypesResponseSchema = apiListResponseSchema(leaveTypeSchema);
+export const leaveAllocationsResponseSchema = apiListResponseSchema(leaveAllocationSchema);
+export const leaveAllocationResponseSchema = apiResponseSchema(leaveAllocationSchema);
+export const leaveApprovalWorkflowsResponseSchema = apiResponseSchema(
+  z.array(leaveApprovalWorkflowSchema)
+);
+export const leaveApprovalWorkflowResponseSchema = apiResponseSchema(leaveApprovalWorkflowSchema);
+export const leaveBalanceLedgerResponseSchema = apiResponseSchema(leaveBalanceLedgerSchema);
+export const leaveAccrualPreviewResponseSchema = apiResponseSchema(leaveAccrualPreviewSchema);
+export const leaveAccrualRunsResponseSchema = apiResponseSchema(z.array(leaveAccrualRunSchema));
+export const leaveAccrualRunResponseSchema = apiResponseSchema(leaveAccrualRunSchema);
+export const leaveRolloverPreviewResponseSchema = apiResponseSchema(leaveRolloverPreviewSchema);
+export const leaveRolloversResponseSchema = apiResponseSchema(z.array(leaveRolloverSchema));
+export const leaveRolloverResponseSchema = apiResponseSchema(leaveRolloverSchema);
+export const childrenLeaveRequestsResponseSchema = apiResponseSchema(
+  z.array(childLeaveRequestsSchema)
+);
+export const teamLeaveCalendarResponseSchema = apiResponseSchema(teamLeaveCalendarSchema);
+export const leaveDashboardResponseSchema = apiResponseSchema(leaveDashboardSchema);
+export const leaveBalancesResponseSchema = apiListResponseSchema(leaveBalanceSchema);
+export const leaveBalanceResponseSchema = apiResponseSchema(leaveBalanceSchema);
+export const leaveBalanceSummaryResponseSchema = apiResponseSchema(
+  z.array(leaveBalanceSummarySchema)
+);
+export const leaveRequestsResponseSchema = apiListResponseSchema(leaveRequestSchema);
+export const leaveRequestResponseSchema = apiResponseSchema(leaveRequestSchema);
+export const calculateWorkingDaysResponseSchema = apiResponseSchema(calculateWorkingDaysSchema);
+export const leaveUsersResponseSchema = apiListResponseSchema(leaveUserSchema);
+export const userLeaveBalancesResponseSchema = apiResponseSchema(userLeaveBalancesSchema);
+export const manageableUsersResponseSchema = apiResponseSchema(manageableUsersSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LeaveType = z.infer<typeof leaveTypeSchema>;
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+export type AccrualFrequency = z.infer<typeof accrualFrequencySchema>;
+export type LeaveAllocation = z.infer<typeof leaveAllocationSchema>;
+export type ApproverType = z.infer<typeof approverTypeSchema>;
+export type ApprovalWorkflowStep = z.infer<typeof approvalWorkflowStepSchema>;
+export type LeaveApprovalWorkflow = z.infer<typeof leaveApprovalWorkflowSchema>;
+export type LeaveApprovalStep = z.infer<typeof leaveApprovalStepSchema>;
+export type LeaveBalance = z.infer<typeof leaveBalanceSchema>;
+export type LeaveBalanceSummary = z.infer<typeof leaveBalanceSummarySchema>;
+export type LeaveLedgerEntryType = z.infer<typeof leaveLedgerEntryTypeSchema>;
+export type LeaveLedgerEntry = z.infer<typeof leaveLedgerEntrySchema>;
+export type LeaveBalanceLedger = z.infer<typeof leaveBalanceLedgerSchema>;
+export type LeaveAccrualRow = z.infer<typeof leaveAccrualRowSchema>;
+export type LeaveAccrualPreview = z.infer<typeof leaveAccrualPreviewSchema>;
+export type LeaveAccrualRun = z.infer<typeof leaveAccrualRunSchema>;
+export type LeaveRolloverRow = z.infer<typeof leaveRolloverRowSchema>;
+export type LeaveRolloverTotals = z.infer<typeof leaveRolloverTotalsSchema>;
+export type LeaveRolloverPreview = z.infer<typeof leaveRolloverPreviewSchema>;
+export type LeaveRollover = z.infer<typeof leaveRolloverSchema>;
+export type LeaveRequest = z.infer<typeof leaveRequestSchema>;
+export type ChildLeaveRequests = z.infer<typeof childLeaveRequestsSchema>;
+export type TeamLeave = z.infer<typeof teamLeaveSchema>;
+export type TeamLeaveCalendar = z.infer<typeof teamLeaveCalendarSchema>;
+export type LeaveDashboard = z.infer<typeof leaveDashboardSchema>;
+export type HolidayInfo = z.infer<typeof holidayInfoSchema>;
+export type CalculateWorkingDaysResponse = z.infer<typeof calculateWorkingDaysSchema>;
+export type User = z.infer<typeof leaveUserSchema>;
+export type UserLeaveBalances = z.infer<typeof userLeaveBalancesSchema>;
+export type ManageableUser = z.infer<typeof manageableUserSchema>;
+export type ManageableUsers = z.infer<typeof manageableUsersSchema>;
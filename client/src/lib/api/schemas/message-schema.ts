@@ -0,0 +1,123 @@
+/**
+ * Message API Schemas
+ * Response schemas for parent–teacher conversations, the teachers a parent
+ * can write to and the organization's messaging quiet hours.
+ */
+
+import { z } from "zod";
+import { apiResponseSchema, attachmentSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+const messageClassInfoSchema = z.object({
+  public_id: z.string(),
+  class_master_name: z.string(),
+  name: z.string(),
+});
+
+const messageStudentSchema = z.object({
+  public_id: z.string(),
+  full_name: z.string(),
+  roll_number: z.string(),
+});
+
+/**
+ * A teacher of the child, with why they teach them
+ */
+export const messageTeacherSchema = z.object({
+  public_id: z.string(), // Teacher public_id
+  full_name: z.string(),
+  roles: z.array(z.string()), // e.g. ["Class Teacher", "Mathematics"]
+});
+
+/**
+ * A conversation between a parent and one of their child's teachers
+ */
+export const messageThreadSchema = z.object({
+  public_id: z.string(),
+  subject: z.string(),
+  student: messageStudentSchema,
+  class_info: messageClassInfoSchema,
+  parent: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+  }),
+  teacher: messageTeacherSchema,
+  last_message: z
+    .object({
+      body: z.string(),
+      sender_name: z.string(),
+      is_own: z.boolean(),
+      sent_at: z.string(),
+    })
+    .nullable(),
+  unread_count: z.number(),
+  created_at: z.string(),
+  updated_at: z.string(), // When the latest message visible to the user was sent
+});
+
+export const messageSchema = z.object({
+  public_id: z.string(),
+  sender: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+  }),
+  is_own: z.boolean(),
+  body: z.string(),
+  attachments: z.array(attachmentSchema),
+  sent_at: z.string(),
+  delivered_at: z.string(), // Later than sent_at when held for quiet hours
+  is_delivered: z.boolean(),
+  read_at: z.string().nullable(),
+});
+
+export const messageThreadDetailSchema = z.object({
+  thread: messageThreadSchema,
+  messages: z.array(messageSchema), // Oldest first
+});
+
+/**
+ * The teachers a parent can write to about each of their children
+ */
+export const messageContactsSchema = z.object({
+  student: messageStudentSchema,
+  class_info: messageClassInfoSchema,
+  teachers: z.array(messageTeacherSchema),
+});
+
+export const quietHoursSchema = z.object({
+  enabled: z.boolean(),
+  start_time: z.string(), // HH:MM
+  end_time: z.string(), // HH:MM
+  is_active: z.boolean(), // Whether it is quiet hours right now
+  resumes_at: z.string().nullable(), // When held messages go out, while active
+});
+
+export const unreadMessagesSchema = z.object({
+  unread_count: z.number(),
+});
+
+// ============================================================================
+// Response Envelopes
+// ============================================================================
+
+export const messageThreadsResponseSchema = apiResponseSchema(z.array(messageThreadSchema));
+export const messageThreadDetailResponseSchema = apiResponseSchema(messageThreadDetailSchema);
+export const messageResponseSchema = apiResponseSchema(messageSchema);
+export const messageContactsResponseSchema = apiResponseSchema(z.array(messageContactsSchema));
+export const quietHoursResponseSchema = apiResponseSchema(quietHoursSchema);
+export const unreadMessagesResponseSchema = apiResponseSchema(unreadMessagesSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MessageTeacher = z.infer<typeof messageTeacherSchema>;
+export type MessageThread = z.infer<typeof messageThreadSchema>;
+export type Message = z.infer<typeof messageSchema>;
+export type MessageThreadDetail = z.infer<typeof messageThreadDetailSchema>;
+export type MessageContacts = z.infer<typeof messageContactsSchema>;
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+export type UnreadMessages = z.infer<typeof unreadMessagesSchema>;
@@ -0,0 +1,58 @@
+/**
+ * Notification API Schemas
+ * Response schemas for the signed-in user's in-app notifications. The live
+ * stream sends the same notification shape as the list.
+ */
+
+import { z } from "zod";
+import { NotificationType } from "@/constants/notifications";
+import { apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const notificationSchema = z.object({
+  public_id: z.string(),
+  type: z.nativeEnum(NotificationType),
+  title: z.string(),
+  body: z.string(),
+  link: z.string().nullable(), // In-app path to open, e.g. /leave-requests/<id>
+  read_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+/**
+ * The latest notifications, newest first, with the total unread count
+ */
+export const notificationFeedSchema = z.object({
+  notifications: z.array(notificationSchema),
+  unread_count: z.number(),
+});
+
+/**
+ * Single-use ticket that opens one notification stream. EventSource can't send
+ * headers, so the stream URL carries this instead of the access token.
+ */
+export const notificationStreamTicketSchema = z.object({
+  ticket: z.string(),
+  expires_at: z.string(),
+});
+
+// ============================================================================
+// Response Envelopes
+// ============================================================================
+
+export const notificationFeedResponseSchema = apiResponseSchema(notificationFeedSchema);
+export const notificationResponseSchema = apiResponseSchema(notificationSchema);
+export const notificationStreamTicketResponseSchema = apiResponseSchema(
+  notificationStreamTicketSchema
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AppNotification = z.infer<typeof notificationSchema>;
+export type NotificationFeed = z.infer<typeof notificationFeedSchema>;
+export type NotificationStreamTicket = z.infer<typeof notificationStreamTicketSchema>;
@@ -0,0 +1,50 @@
+/**
+ * Organization Preferences API Schemas
+ * Response schemas for organization-level preference settings.
+ */
+
+import { z } from "zod";
+import { apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const preferenceSchema = z.object({
+  public_id: z.string(),
+  display_name: z.string(),
+  key: z.string(),
+  category: z.string(),
+  field_type: z.enum(["string", "number", "radio", "choice", "multi-choice"]),
+  default_value: z.string(),
+  applicable_values: z.array(z.string()).nullable(),
+  description: z.string(),
+  value: z.union([z.string(), z.array(z.string())]),
+});
+
+export const groupedPreferenceSchema = z.object({
+  category: z.string(),
+  preferences: z.array(preferenceSchema),
+  count: z.number(),
+});
+
+export const bulkUpdatePreferencesSchema = z.object({
+  updated: z.number(),
+  failed: z.number(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const groupedPreferencesResponseSchema = apiResponseSchema(z.array(groupedPreferenceSchema));
+export const preferenceResponseSchema = apiResponseSchema(preferenceSchema);
+export const bulkUpdatePreferencesResponseSchema = apiResponseSchema(bulkUpdatePreferencesSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Preference = z.infer<typeof preferenceSchema>;
+export type GroupedPreference = z.infer<typeof groupedPreferenceSchema>;
+export type BulkUpdatePreferencesResult = z.infer<typeof bulkUpdatePreferencesSchema>;
@@ -0,0 +1,65 @@
+/**
+ * Profile API Schemas
+ * Response schemas for the signed-in user's profile and account settings.
+ */
+
+import { z } from "zod";
+import { apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const userProfileSchema = z.object({
+  public_id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  full_name: z.string(),
+  phone: z.string(),
+  role: z.string(),
+  gender: z.string(),
+  blood_group: z.string().optional(),
+  date_of_birth: z.string().optional(),
+  organization_role: z.string(),
+  is_active: z.boolean(),
+  is_email_verified: z.boolean(),
+  notification_opt_in: z.boolean(),
+  address: z
+    .object({
+      public_id: z.string(),
+      street_address: z.string(),
+      address_line_2: z.string().optional(),
+      city: z.string(),
+      state: z.string(),
+      zip_code: z.string(),
+      country: z.string(),
+      full_address: z.string(),
+    })
+    .optional(),
+});
+
+export const messageSchema = z.object({
+  message: z.string(),
+});
+
+export const otpSentSchema = messageSchema.extend({
+  expires_in_minutes: z.number(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const userProfileResponseSchema = apiResponseSchema(userProfileSchema);
+export const messageResponseSchema = apiResponseSchema(messageSchema);
+export const otpSentResponseSchema = apiResponseSchema(otpSentSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+export type MessageResult = z.infer<typeof messageSchema>;
+export type OtpSentResult = z.infer<typeof otpSentSchema>;
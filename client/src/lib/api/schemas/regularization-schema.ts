@@ -0,0 +1,55 @@
+/**
+ * Attendance Regularization API Schemas
+ * Response schemas for regularization requests and their supervisor review.
+ */
+
+import { z } from "zod";
+import { RegularizationStatus, RegularizationType } from "@/constants/attendance";
+import { attendanceStatusSchema } from "./attendance-schema";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const attendanceRegularizationSchema = z.object({
+  public_id: z.string(),
+  user_public_id: z.string(),
+  user_name: z.string(),
+  user_role: z.string(),
+  email: z.string(),
+  supervisor_name: z.string().nullable(),
+  supervisor_public_id: z.string().nullable(),
+  attendance_record_public_id: z.string().nullable(), // null when no record existed for the date
+  date: z.string(),
+  regularization_type: z.nativeEnum(RegularizationType),
+  // Values on the attendance record when the request was raised (kept for audit)
+  original_check_in_time: z.string().nullable(),
+  original_check_out_time: z.string().nullable(),
+  original_status: attendanceStatusSchema.nullable(),
+  // Values requested by the staff member
+  requested_check_in_time: z.string().nullable(),
+  requested_check_out_time: z.string().nullable(),
+  requested_status: attendanceStatusSchema.nullable(),
+  reason: z.string(),
+  status: z.nativeEnum(RegularizationStatus),
+  applied_at: z.string(),
+  reviewed_by_name: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  review_comments: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const regularizationsResponseSchema = apiListResponseSchema(attendanceRegularizationSchema);
+export const regularizationResponseSchema = apiResponseSchema(attendanceRegularizationSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AttendanceRegularization = z.infer<typeof attendanceRegularizationSchema>;
@@ -0,0 +1,102 @@
+/**
+ * Report Card API Schemas
+ * Response schemas for the organization's report card layout and the report
+ * cards generated for a section from an exam's results.
+ */
+
+import { z } from "zod";
+import { apiResponseSchema } from "./common-schema";
+import { examResultSchema, gradeBandSchema } from "./exam-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Organization-wide layout of the printed report card: branding and the
+ * optional sections to include
+ */
+export const reportCardTemplateSchema = z.object({
+  title: z.string(), // e.g. "Progress Report"
+  logo_url: z.string(),
+  address_line: z.string(), // Printed under the school name
+  accent_color: z.string(), // Hex color of headings and table headers
+  show_grade_point: z.boolean(),
+  show_subject_remarks: z.boolean(),
+  show_attendance: z.boolean(),
+  show_grade_scale: z.boolean(),
+  signatory_title: z.string(), // e.g. "Principal"
+  footer_note: z.string(),
+  updated_at: z.string().nullable(),
+  updated_by_name: z.string().nullable(),
+});
+
+/**
+ * Student attendance up to the end of the exam term
+ */
+export const reportCardAttendanceSchema = z.object({
+  working_days: z.number(), // Days attendance was taken
+  present_days: z.number(), // Present or late
+  percentage: z.number(),
+});
+
+/**
+ * One student's report card for an exam term
+ */
+export const reportCardSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+    admission_number: z.string(),
+    date_of_birth: z.string().nullable(),
+    guardian_name: z.string(),
+  }),
+  result: examResultSchema,
+  attendance: reportCardAttendanceSchema.nullable(), // null when none was taken
+  class_teacher_remarks: z.string(),
+});
+
+/**
+ * Everything needed to print the report cards of one section
+ */
+export const reportCardBatchSchema = z.object({
+  organization: z.object({
+    name: z.string(),
+    board_affiliation: z.string(),
+    email: z.string(),
+    phone: z.string(),
+    website_url: z.string(),
+  }),
+  template: reportCardTemplateSchema,
+  exam: z.object({
+    public_id: z.string(),
+    name: z.string(),
+    status: z.string(),
+  }),
+  class_info: z.object({
+    public_id: z.string(),
+    class_master_name: z.string(),
+    name: z.string(),
+    class_teacher_name: z.string().nullable(),
+  }),
+  grade_bands: z.array(gradeBandSchema), // Highest band first
+  cards: z.array(reportCardSchema), // In roll number order
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const reportCardTemplateResponseSchema = apiResponseSchema(reportCardTemplateSchema);
+export const reportCardBatchResponseSchema = apiResponseSchema(reportCardBatchSchema);
+export const reportCardResponseSchema = apiResponseSchema(reportCardSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReportCardTemplate = z.infer<typeof reportCardTemplateSchema>;
+export type ReportCardAttendance = z.infer<typeof reportCardAttendanceSchema>;
+export type ReportCard = z.infer<typeof reportCardSchema>;
+export type ReportCardBatch = z.infer<typeof reportCardBatchSchema>;
@@ -0,0 +1,149 @@
+/**
+ * Student API Schemas
+ * Response schemas for the student list and student detail views.
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+const studentAuditFieldsSchema = z.object({
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_public_id: z.string(),
+  created_by_name: z.string(),
+  updated_by_public_id: z.string(),
+  updated_by_name: z.string(),
+});
+
+// Student for list view
+export const studentSchema = z
+  .object({
+    public_id: z.string(),
+    user_info: z.object({
+      public_id: z.string(),
+      username: z.string(),
+      full_name: z.string(),
+    }),
+    class_info: z.object({
+      public_id: z.string(),
+      class_master_name: z.string(),
+      name: z.string(),
+    }),
+    roll_number: z.string(),
+    admission_number: z.string(),
+    admission_date: z.string(),
+    guardian_name: z.string().optional(),
+  })
+  .merge(studentAuditFieldsSchema);
+
+// Detailed student for individual student view/edit
+export const studentDetailSchema = z
+  .object({
+    public_id: z.string(),
+    user_info: z.object({
+      public_id: z.string(),
+      username: z.string(),
+      first_name: z.string(),
+      last_name: z.string(),
+      full_name: z.string(),
+      email: z.string(),
+      phone: z.string(),
+      role: z.string(),
+      gender: z.string(),
+      blood_group: z.string().optional(),
+      date_of_birth: z.string().optional(),
+      organization_role: z.string(),
+      supervisor: z
+        .object({
+          email: z.string(),
+          full_name: z.string(),
+        })
+        .nullable(),
+      address: z
+        .object({
+          public_id: z.string(),
+          address_type: z.string(),
+          street_address: z.string(),
+          address_line_2: z.string().optional(),
+          city: z.string(),
+          state: z.string(),
+          zip_code: z.string(),
+          country: z.string(),
+          latitude: z.string().optional(),
+          longitude: z.string().optional(),
+          full_address: z.string(),
+          created_at: z.string(),
+          updated_at: z.string(),
+        })
+        .optional(),
+      notification_opt_in: z.boolean(),
+      is_active: z.boolean(),
+      is_email_verified: z.boolean(),
+      full_address: z.string().optional(),
+      location: z
+        .object({
+          lat: z.number(),
+          lng: z.number(),
+        })
+        .optional(),
+    }),
+    class_info: z
+      .object({
+        public_id: z.string(),
+        class_master: z.object({
+          id: z.number(),
+          name: z.string(),
+          code: z.string(),
+          display_order: z.number(),
+        }),
+        name: z.string(),
+        class_teacher: z
+          .object({
+            public_id: z.string(),
+            full_name: z.string(),
+            email: z.string(),
+          })
+          .nullable(),
+        info: z.string(),
+        capacity: z.number(),
+        student_count: z.number(),
+        is_full: z.boolean(),
+        available_seats: z.number(),
+      })
+      .merge(studentAuditFieldsSchema),
+    full_name: z.string(),
+    roll_number: z.string(),
+    admission_number: z.string(),
+    admission_date: z.string(),
+    guardian_name: z.string().optional(),
+    guardian_phone: z.string().optional(),
+    guardian_email: z.string().optional(),
+    guardian_relationship: z.string().optional(),
+    description: z.string().optional(),
+    medical_conditions: z.string().optional(),
+    emergency_contact_name: z.string().optional(),
+    emergency_contact_phone: z.string().optional(),
+    previous_school_name: z.string().optional(),
+    previous_school_address: z.string().optional(),
+    previous_school_class: z.string().optional(),
+  })
+  .merge(studentAuditFieldsSchema);
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const studentsResponseSchema = apiListResponseSchema(studentSchema);
+export const studentDetailResponseSchema = apiResponseSchema(studentDetailSchema);
+export const childrenResponseSchema = apiResponseSchema(z.array(studentDetailSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Student = z.infer<typeof studentSchema>;
+export type StudentDetail = z.infer<typeof studentDetailSchema>;
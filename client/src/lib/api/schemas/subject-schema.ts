@@ -0,0 +1,84 @@
+/**
+ * Subject API Schemas
+ * Response schemas for core subjects and subject assignments.
+ */
+
+import { z } from "zod";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * CoreSubject - Master subject data from core API
+ * Uses numeric ID (not public_id)
+ */
+export const coreSubjectSchema = z.object({
+  id: z.number(), // Core subjects use numeric ID
+  public_id: z.string(), // Also has public_id but ID is primary
+  name: z.string(),
+  code: z.string(),
+  description: z.string().optional(),
+  is_deleted: z.boolean().optional(),
+});
+
+/**
+ * SubjectInfo - Core subject information embedded in Subject assignment
+ */
+export const subjectInfoSchema = z.object({
+  id: z.number(), // Core subject numeric ID
+  public_id: z.string(),
+  name: z.string(),
+  code: z.string(),
+});
+
+export const subjectClassInfoSchema = z.object({
+  public_id: z.string(),
+  class_master_name: z.string(),
+  name: z.string(),
+});
+
+export const subjectTeacherInfoSchema = z.object({
+  public_id: z.string(),
+  employee_id: z.string(),
+  full_name: z.string(),
+  email: z.string(),
+  specialization: z.string().optional(),
+  designation: z.string().optional(),
+});
+
+/**
+ * Subject - Assignment model linking Class + CoreSubject + Teacher
+ * Uses public_id for the assignment itself
+ */
+export const subjectSchema = z.object({
+  public_id: z.string(), // Subject assignment public_id
+  class_info: subjectClassInfoSchema,
+  subject_info: subjectInfoSchema, // Core subject data
+  teacher_info: subjectTeacherInfoSchema,
+  description: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_public_id: z.string(),
+  created_by_name: z.string(),
+  updated_by_public_id: z.string(),
+  updated_by_name: z.string(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const subjectsResponseSchema = apiListResponseSchema(subjectSchema);
+export const subjectResponseSchema = apiResponseSchema(subjectSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CoreSubject = z.infer<typeof coreSubjectSchema>;
+export type SubjectInfo = z.infer<typeof subjectInfoSchema>;
+export type ClassInfo = z.infer<typeof subjectClassInfoSchema>;
+export type TeacherInfo = z.infer<typeof subjectTeacherInfoSchema>;
+export type Subject = z.infer<typeof subjectSchema>;
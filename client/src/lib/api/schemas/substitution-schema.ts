@@ -0,0 +1,88 @@
+/**
+ * Substitution API Schemas
+ * Response schemas for periods left uncovered by approved teacher leave and
+ * the substitute teachers assigned to them.
+ */
+
+import { z } from "zod";
+import { SubstitutionStatus } from "@/constants/timetable";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+import { timetablePeriodSchema } from "./timetable-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+const substitutionTeacherSchema = z.object({
+  public_id: z.string(),
+  full_name: z.string(),
+});
+
+/**
+ * A timetabled period on a specific date whose teacher is on approved leave,
+ * with the substitute covering it once one is assigned
+ */
+export const substitutionSchema = z.object({
+  public_id: z.string().nullable(), // null until a substitute is assigned
+  entry_id: z.string(), // Timetable entry public_id
+  leave_request_id: z.string(),
+  date: z.string(), // YYYY-MM-DD
+  period: timetablePeriodSchema,
+  class_info: z.object({
+    public_id: z.string(),
+    class_master_name: z.string(),
+    name: z.string(),
+  }),
+  subject_info: z.object({
+    public_id: z.string(), // Subject assignment public_id
+    name: z.string(),
+    code: z.string(),
+  }),
+  room: z.string().nullable(),
+  absent_teacher: substitutionTeacherSchema,
+  substitute_teacher: substitutionTeacherSchema.nullable(),
+  status: z.nativeEnum(SubstitutionStatus),
+  notes: z.string(),
+  assigned_by_name: z.string().nullable(),
+  assigned_at: z.string().nullable(),
+});
+
+/**
+ * A teacher who could cover a period, ranked by the backend
+ */
+export const substituteSuggestionSchema = z.object({
+  teacher: z.object({
+    public_id: z.string(),
+    employee_id: z.string(),
+    full_name: z.string(),
+  }),
+  teaches_subject: z.boolean(), // Teaches the same core subject
+  periods_that_day: z.number(), // Timetabled lessons plus cover already assigned
+});
+
+/**
+ * Cover duties of the signed-in teacher
+ */
+export const mySubstitutionsSchema = z.object({
+  covering: z.array(substitutionSchema), // Periods I cover for an absent colleague
+  covered: z.array(substitutionSchema), // My periods covered while I'm on leave
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const substitutionsResponseSchema = apiListResponseSchema(substitutionSchema);
+export const substitutionResponseSchema = apiResponseSchema(substitutionSchema);
+export const substituteSuggestionsResponseSchema = apiResponseSchema(
+  z.array(substituteSuggestionSchema)
+);
+export const mySubstitutionsResponseSchema = apiResponseSchema(mySubstitutionsSchema);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Substitution = z.infer<typeof substitutionSchema>;
+export type SubstituteSuggestion = z.infer<typeof substituteSuggestionSchema>;
+export type MySubstitutions = z.infer<typeof mySubstitutionsSchema>;
@@ -0,0 +1,111 @@
+/**
+ * Teacher API Schemas
+ * Response schemas for teachers and the core data used by the teacher forms.
+ */
+
+import { z } from "zod";
+import { addressSchema } from "./address-schema";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+export const teacherSchema = z.object({
+  public_id: z.string(),
+  user: z
+    .object({
+      public_id: z.string(),
+      username: z.string().optional(),
+      first_name: z.string().optional(),
+      last_name: z.string().optional(),
+      full_name: z.string().optional(),
+      email: z.string().optional(),
+      phone: z.string().optional(),
+      role: z.string().optional(),
+      gender: z.string().optional(),
+      blood_group: z.string().optional(),
+      date_of_birth: z.string().optional(),
+      organization_role: z.string().optional(),
+      supervisor: z
+        .object({
+          email: z.string(),
+          full_name: z.string(),
+        })
+        .optional(),
+      address: addressSchema.optional(),
+    })
+    .optional(),
+  employee_id: z.string(),
+  full_name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  highest_qualification: z.string().optional(),
+  joining_date: z.string().optional(),
+  specialization: z.string().optional(),
+  designation: z.string().optional(),
+  experience_years: z.number().optional(),
+  subjects: z
+    .array(
+      z.object({
+        public_id: z.string(),
+        name: z.string(),
+        code: z.string().optional(),
+      })
+    )
+    .optional(),
+  emergency_contact_name: z.string().optional(),
+  emergency_contact_number: z.string().optional(),
+  is_first_login: z.boolean().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Core subject option for the teacher subject picker
+export const teacherSubjectOptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string(),
+  description: z.string().optional(),
+});
+
+export const organizationRoleOptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string(),
+  description: z.string().optional(),
+  display_order: z.number(),
+});
+
+// Admin or teacher that can be picked as a supervisor
+export const supervisorSchema = z.object({
+  public_id: z.string(),
+  email: z.string(),
+  full_name: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  role: z.string(),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const teachersResponseSchema = apiListResponseSchema(teacherSchema);
+export const teacherResponseSchema = apiResponseSchema(teacherSchema);
+export const teacherSubjectOptionsResponseSchema = apiResponseSchema(
+  z.array(teacherSubjectOptionSchema)
+);
+export const organizationRoleOptionsResponseSchema = apiResponseSchema(
+  z.array(organizationRoleOptionSchema)
+);
+export const supervisorsResponseSchema = apiResponseSchema(z.array(supervisorSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Teacher = z.infer<typeof teacherSchema>;
+export type Subject = z.infer<typeof teacherSubjectOptionSchema>;
+export type OrganizationRole = z.infer<typeof organizationRoleOptionSchema>;
+export type User = z.infer<typeof supervisorSchema>;
@@ -0,0 +1,82 @@
+/**
+ * Timetable API Schemas
+ * Response schemas for the bell schedule (periods) and weekly timetable entries.
+ */
+
+import { z } from "zod";
+import { DayOfWeek } from "@/constants/timetable";
+import { apiListResponseSchema, apiResponseSchema } from "./common-schema";
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * A slot in the school day's bell schedule, e.g. "Period 1" or "Lunch"
+ */
+export const timetablePeriodSchema = z.object({
+  public_id: z.string(),
+  name: z.string(),
+  start_time: z.string(), // HH:MM
+  end_time: z.string(), // HH:MM
+  order: z.number(),
+  is_break: z.boolean(),
+});
+
+/**
+ * A subject assignment (class + subject + teacher) placed in a day/period slot
+ */
+export const timetableEntrySchema = z.object({
+  public_id: z.string(),
+  class_info: z.object({
+    public_id: z.string(),
+    class_master_name: z.string(),
+    name: z.string(),
+  }),
+  day_of_week: z.nativeEnum(DayOfWeek),
+  period_id: z.string(), // Period public_id
+  subject_info: z.object({
+    public_id: z.string(), // Subject assignment public_id
+    name: z.string(),
+    code: z.string(),
+  }),
+  teacher_info: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+  }),
+  room: z.string().nullable(),
+});
+
+/**
+ * Timetable of a student linked to the signed-in parent
+ */
+export const childTimetableSchema = z.object({
+  student: z.object({
+    public_id: z.string(),
+    full_name: z.string(),
+    roll_number: z.string(),
+  }),
+  class_info: z.object({
+    public_id: z.string(),
+    class_master_name: z.string(),
+    name: z.string(),
+  }),
+  entries: z.array(timetableEntrySchema),
+});
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+export const timetablePeriodsResponseSchema = apiResponseSchema(z.array(timetablePeriodSchema));
+export const timetableEntriesResponseSchema = apiListResponseSchema(timetableEntrySchema);
+export const classTimetableResponseSchema = apiResponseSchema(z.array(timetableEntrySchema));
+export const childrenTimetableResponseSchema = apiResponseSchema(z.array(childTimetableSchema));
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TimetablePeriod = z.infer<typeof timetablePeriodSchema>;
+export type TimetableEntry = z.infer<typeof timetableEntrySchema>;
+export type ChildTimetable = z.infer<typeof childTimetableSchema>;
@@ -4,8 +4,14 @@
  */
 
 import type { BulkUploadResponse } from "@/common/components/dialogs/bulk-upload-dialog";
-import { api, API_ENDPOINTS, getAccessToken } from "../api";
+import { api, API_ENDPOINTS, authorizedFetch } from "../api";
 import { ERROR_MESSAGES } from "../constants";
+import {
+  childrenResponseSchema,
+  studentDetailResponseSchema,
+  studentsResponseSchema,
+} from "./schemas/student-schema";
+import type { Student, StudentDetail } from "./schemas/student-schema";
 import type { ApiListResponse, ApiResponse } from "./types";
 
 // Student interface for list view (matching API response structure)
@@ -23,122 +29,7 @@ export interface ClassMaster {
   name: string;
 }
 
-export interface Student {
-  public_id: string;
-  user_info: {
-    public_id: string;
-    username: string;
-    full_name: string;
-  };
-  class_info: {
-    public_id: string;
-    class_master_name: string;
-    name: string;
-  };
-  roll_number: string;
-  admission_number: string;
-  admission_date: string;
-  guardian_name?: string;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string;
-  created_by_name: string;
-  updated_by_public_id: string;
-  updated_by_name: string;
-}
-
-// Detailed student interface for individual student view/edit
-export interface StudentDetail {
-  public_id: string;
-  user_info: {
-    public_id: string;
-    username: string;
-    first_name: string;
-    last_name: string;
-    full_name: string;
-    email: string;
-    phone: string;
-    role: string;
-    gender: string;
-    blood_group?: string;
-    date_of_birth?: string;
-    organization_role: string;
-    supervisor: {
-      email: string;
-      full_name: string;
-    } | null;
-    address?: {
-      public_id: string;
-      address_type: string;
-      street_address: string;
-      address_line_2?: string;
-      city: string;
-      state: string;
-      zip_code: string;
-      country: string;
-      latitude?: string;
-      longitude?: string;
-      full_address: string;
-      created_at: string;
-      updated_at: string;
-    };
-    notification_opt_in: boolean;
-    is_active: boolean;
-    is_email_verified: boolean;
-    full_address?: string;
-    location?: {
-      lat: number;
-      lng: number;
-    };
-  };
-  class_info: {
-    public_id: string;
-    class_master: {
-      id: number;
-      name: string;
-      code: string;
-      display_order: number;
-    };
-    name: string;
-    class_teacher: {
-      public_id: string;
-      full_name: string;
-      email: string;
-    } | null;
-    info: string;
-    capacity: number;
-    student_count: number;
-    is_full: boolean;
-    available_seats: number;
-    created_at: string;
-    updated_at: string;
-    created_by_public_id: string;
-    created_by_name: string;
-    updated_by_public_id: string;
-    updated_by_name: string;
-  };
-  full_name: string;
-  roll_number: string;
-  admission_number: string;
-  admission_date: string;
-  guardian_name?: string;
-  guardian_phone?: string;
-  guardian_email?: string;
-  guardian_relationship?: string;
-  description?: string;
-  medical_conditions?: string;
-  emergency_contact_name?: string;
-  emergency_contact_phone?: string;
-  previous_school_name?: string;
-  previous_school_address?: string;
-  previous_school_class?: string;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string;
-  created_by_name: string;
-  updated_by_public_id: string;
-  updated_by_name: string;
-}
+export type { Student, StudentDetail } from "./schemas/student-schema";
 
 export interface StudentCreatePayload {
   user: {
@@ -250,7 +141,7 @@ export async function getStudents(params?: StudentListParams): Promise<ApiListRe
   }
 
   const url = `${API_ENDPOINTS.students.list}?${queryParams.toString()}`;
-  return api.get<ApiListResponse<Student>>(url);
+  return api.get<ApiListResponse<Student>>(url, { schema: studentsResponseSchema });
 }
 
 /**
@@ -262,7 +153,7 @@ export async function createStudent(
   forceCreate = false
 ): Promise<StudentDetail> {
   const url = `${API_ENDPOINTS.students.classLevel(classId)}${forceCreate ? "?force_create=true" : ""}`;
-  return api.post<StudentDetail>(url, payload);
+  return api.post<StudentDetail>(url, payload, { schema: studentDetailResponseSchema });
 }
 
 /**
@@ -270,7 +161,8 @@ export async function createStudent(
  */
 export async function getStudent(classId: string, publicId: string): Promise<StudentDetail> {
   const response = await api.get<ApiResponse<StudentDetail>>(
-    API_ENDPOINTS.students.classDetail(classId, publicId)
+    API_ENDPOINTS.students.classDetail(classId, publicId),
+    { schema: studentDetailResponseSchema }
   );
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -280,6 +172,21 @@ export async function getStudent(classId: string, publicId: string): Promise<Stu
   return response.data;
 }
 
+/**
+ * Get the students linked to the signed-in parent as their guardian
+ */
+export async function getChildren(): Promise<StudentDetail[]> {
+  const response = await api.get<ApiResponse<StudentDetail[]>>(API_ENDPOINTS.students.children, {
+    schema: childrenResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || ERROR_MESSAGES.STUDENT_FETCH_FAILED);
+  }
+
+  return response.data;
+}
+
 /**
  * Update a student
  */
@@ -290,7 +197,8 @@ export async function updateStudent(
 ): Promise<StudentDetail> {
   const response = await api.patch<ApiResponse<StudentDetail>>(
     API_ENDPOINTS.students.classDetail(classId, publicId),
-    payload
+    payload,
+    { schema: studentDetailResponseSchema }
   );
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -312,7 +220,9 @@ export async function deleteStudent(classId: string, publicId: string): Promise<
  */
 export async function reactivateStudent(classId: string, publicId: string): Promise<StudentDetail> {
   const response = await api.post<ApiResponse<StudentDetail>>(
-    API_ENDPOINTS.students.activate(classId, publicId)
+    API_ENDPOINTS.students.activate(classId, publicId),
+    undefined,
+    { schema: studentDetailResponseSchema }
   );
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -328,16 +238,9 @@ export async function reactivateStudent(classId: string, publicId: string): Prom
 export async function bulkUploadStudents(file: File): Promise<BulkUploadResponse> {
   const formData = new FormData();
   formData.append("file", file);
-  const accessToken = getAccessToken();
-
-  const headers: HeadersInit = {};
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
 
-  const response = await fetch(API_ENDPOINTS.students.bulkUpload, {
+  const response = await authorizedFetch(API_ENDPOINTS.students.bulkUpload, {
     method: "POST",
-    headers,
     body: formData,
     credentials: "include",
   });
@@ -356,13 +259,8 @@ export async function bulkUploadStudents(file: File): Promise<BulkUploadResponse
 export async function downloadStudentTemplate(isLimitedFields: boolean = false): Promise<Blob> {
   const queryParams = isLimitedFields ? "?is_limited_fields_only=true" : "";
   const url = `${API_ENDPOINTS.students.downloadTemplate}${queryParams}`;
-  const accessToken = getAccessToken();
-
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "GET",
-    headers: {
-      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
-    },
     credentials: "include",
   });
 
@@ -381,11 +279,8 @@ export async function exportStudentsData(params?: Record<string, string>): Promi
   const queryParams = new URLSearchParams(params);
   const url = `${API_ENDPOINTS.students.exportData}${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
 
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${localStorage.getItem("access_token")}`,
-    },
   });
 
   if (!response.ok) {
@@ -3,65 +3,18 @@
  * Handles subject assignment operations (linking classes, subjects, and teachers)
  */
 
-import { api, API_ENDPOINTS, getAccessToken } from "../api";
+import { api, API_ENDPOINTS, authorizedFetch } from "../api";
+import { subjectResponseSchema, subjectsResponseSchema } from "./schemas/subject-schema";
+import type { Subject } from "./schemas/subject-schema";
 import type { ApiListResponse } from "./types";
 
-/**
- * CoreSubject - Master subject data from core API
- * Uses numeric ID (not public_id)
- */
-export interface CoreSubject {
-  id: number; // Core subjects use numeric ID
-  public_id: string; // Also has public_id but ID is primary
-  name: string;
-  code: string;
-  description?: string;
-  is_deleted?: boolean;
-}
-
-/**
- * SubjectInfo - Core subject information embedded in Subject assignment
- * This is CoreSubject data returned with the Subject assignment
- */
-export interface SubjectInfo {
-  id: number; // Core subject numeric ID
-  public_id: string;
-  name: string;
-  code: string;
-}
-
-export interface ClassInfo {
-  public_id: string;
-  class_master_name: string;
-  name: string;
-}
-
-export interface TeacherInfo {
-  public_id: string;
-  employee_id: string;
-  full_name: string;
-  email: string;
-  specialization?: string;
-  designation?: string;
-}
-
-/**
- * Subject - Assignment model linking Class + CoreSubject + Teacher
- * Uses public_id for the assignment itself
- */
-export interface Subject {
-  public_id: string; // Subject assignment public_id
-  class_info: ClassInfo;
-  subject_info: SubjectInfo; // Core subject data
-  teacher_info: TeacherInfo;
-  description?: string;
-  created_at: string;
-  updated_at: string;
-  created_by_public_id: string;
-  created_by_name: string;
-  updated_by_public_id: string;
-  updated_by_name: string;
-}
+export type {
+  ClassInfo,
+  CoreSubject,
+  Subject,
+  SubjectInfo,
+  TeacherInfo,
+} from "./schemas/subject-schema";
 
 export interface SubjectCreatePayload {
   class_id: string; // Class public_id
@@ -102,14 +55,16 @@ export async function getSubjects(
   if (filters?.page_size) {params.append("page_size", filters.page_size.toString());}
 
   const url = `${API_ENDPOINTS.subjects.list}${params.toString() ? `?${params.toString()}` : ""}`;
-  return api.get<ApiListResponse<Subject>>(url);
+  return api.get<ApiListResponse<Subject>>(url, { schema: subjectsResponseSchema });
 }
 
 /**
  * Get a single subject by public_id
  */
 export async function getSubject(publicId: string): Promise<Subject> {
-  return api.get<Subject>(API_ENDPOINTS.subjects.detail(publicId));
+  return api.get<Subject>(API_ENDPOINTS.subjects.detail(publicId), {
+    schema: subjectResponseSchema,
+  });
 }
 
 /**
@@ -117,7 +72,7 @@ export async function getSubject(publicId: string): Promise<Subject> {
  */
 export async function createSubject(data: SubjectCreatePayload, forceCreate?: boolean): Promise<Subject> {
   const url = forceCreate ? `${API_ENDPOINTS.subjects.list}?force_create=true` : API_ENDPOINTS.subjects.list;
-  return api.post<Subject>(url, data);
+  return api.post<Subject>(url, data, { schema: subjectResponseSchema });
 }
 
 /**
@@ -127,7 +82,9 @@ export async function updateSubject(
   publicId: string,
   data: SubjectUpdatePayload
 ): Promise<Subject> {
-  return api.patch<Subject>(API_ENDPOINTS.subjects.detail(publicId), data);
+  return api.patch<Subject>(API_ENDPOINTS.subjects.detail(publicId), data, {
+    schema: subjectResponseSchema,
+  });
 }
 
 /**
@@ -141,7 +98,11 @@ export async function deleteSubject(publicId: string): Promise<void> {
  * Reactivate a deleted subject assignment
  */
 export async function reactivateSubject(publicId: string): Promise<Subject> {
-  return api.post<Subject>(API_ENDPOINTS.subjects.activate(publicId), {});
+  return api.post<Subject>(
+    API_ENDPOINTS.subjects.activate(publicId),
+    {},
+    { schema: subjectResponseSchema }
+  );
 }
 
 /**
@@ -149,13 +110,8 @@ export async function reactivateSubject(publicId: string): Promise<Subject> {
  */
 export async function downloadSubjectTemplate(): Promise<Blob> {
   const url = API_ENDPOINTS.subjects.downloadTemplate;
-  const accessToken = getAccessToken();
-
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "GET",
-    headers: {
-      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
-    },
     credentials: "include",
   });
 
@@ -173,16 +129,9 @@ export async function downloadSubjectTemplate(): Promise<Blob> {
 export async function bulkUploadSubjects(file: File): Promise<unknown> {
   const formData = new FormData();
   formData.append("file", file);
-  const accessToken = getAccessToken();
-
-  const headers: HeadersInit = {};
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
 
-  const response = await fetch(API_ENDPOINTS.subjects.bulkUpload, {
+  const response = await authorizedFetch(API_ENDPOINTS.subjects.bulkUpload, {
     method: "POST",
-    headers,
     body: formData,
     credentials: "include",
   });
@@ -0,0 +1,170 @@
+/**
+ * Substitution API Functions
+ * Periods left uncovered by approved teacher leave and the substitute teachers
+ * assigned to cover them
+ */
+
+import type { SubstitutionStatusValue } from "@/constants/timetable";
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import { emptyResponseSchema } from "./schemas/common-schema";
+import {
+  mySubstitutionsResponseSchema,
+  substituteSuggestionsResponseSchema,
+  substitutionResponseSchema,
+  substitutionsResponseSchema,
+} from "./schemas/substitution-schema";
+import type {
+  MySubstitutions,
+  SubstituteSuggestion,
+  Substitution,
+} from "./schemas/substitution-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type {
+  MySubstitutions,
+  SubstituteSuggestion,
+  Substitution,
+} from "./schemas/substitution-schema";
+
+export interface SubstitutionFilters {
+  from_date?: string; // YYYY-MM-DD
+  to_date?: string; // YYYY-MM-DD
+  status?: SubstitutionStatusValue;
+  page?: number;
+  page_size?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface AssignSubstitutePayload {
+  entry_id: string; // Timetable entry public_id
+  date: string; // YYYY-MM-DD
+  substitute_teacher_id: string; // Teacher public_id
+  notes?: string;
+}
+
+function buildQueryString(filters: Record<string, string | number | undefined>): string {
+  const queryParams = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      queryParams.append(key, value.toString());
+    }
+  });
+
+  return queryParams.toString() ? `?${queryParams.toString()}` : "";
+}
+
+// ============================================================================
+// Substitution Board
+// ============================================================================
+
+/**
+ * Fetch the periods affected by approved teacher leave in a date range,
+ * covered or not
+ */
+export async function fetchSubstitutions(
+  filters: SubstitutionFilters = {}
+): Promise<ApiListResponse<Substitution>> {
+  const url = `${API_ENDPOINTS.substitutions.list}${buildQueryString(filters)}`;
+
+  const response = await apiRequest<ApiListResponse<Substitution>>(url, {
+    method: "GET",
+    schema: substitutionsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch substitutions");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch teachers free to cover a period on a date. Teachers of the same
+ * subject come first, then those with the lightest load that day.
+ */
+export async function fetchSubstituteSuggestions(
+  entryId: string,
+  date: string
+): Promise<ApiResponse<SubstituteSuggestion[]>> {
+  const url = `${API_ENDPOINTS.substitutions.suggestions}${buildQueryString({ entry_id: entryId, date })}`;
+
+  const response = await apiRequest<ApiResponse<SubstituteSuggestion[]>>(url, {
+    method: "GET",
+    schema: substituteSuggestionsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch substitute suggestions");
+  }
+
+  return response;
+}
+
+/**
+ * Assign (or reassign) a substitute to a period. The backend notifies the
+ * substitute teacher.
+ */
+export async function assignSubstitute(
+  payload: AssignSubstitutePayload
+): Promise<ApiResponse<Substitution>> {
+  const response = await apiRequest<ApiResponse<Substitution>>(API_ENDPOINTS.substitutions.list, {
+    method: "POST",
+    schema: substitutionResponseSchema,
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to assign substitute");
+  }
+
+  return response;
+}
+
+/**
+ * Remove a substitute, leaving the period uncovered again
+ */
+export async function removeSubstitute(publicId: string): Promise<ApiResponse<null>> {
+  const response = await apiRequest<ApiResponse<null>>(
+    API_ENDPOINTS.substitutions.detail(publicId),
+    {
+      method: "DELETE",
+      schema: emptyResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to remove substitute");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Personal View
+// ============================================================================
+
+/**
+ * Fetch the signed-in teacher's cover duties and own periods being covered
+ */
+export async function fetchMySubstitutions(
+  fromDate: string,
+  toDate: string
+): Promise<ApiResponse<MySubstitutions>> {
+  const url = `${API_ENDPOINTS.substitutions.mine}${buildQueryString({ from_date: fromDate, to_date: toDate })}`;
+
+  const response = await apiRequest<ApiResponse<MySubstitutions>>(url, {
+    method: "GET",
+    schema: mySubstitutionsResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch your substitutions");
+  }
+
+  return response;
+}
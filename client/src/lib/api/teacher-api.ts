@@ -3,56 +3,27 @@
  * Using generic API service utilities for consistent CRUD operations
  */
 
-import { apiRequest, API_ENDPOINTS, getAccessToken } from "../api";
+import { apiRequest, API_ENDPOINTS, authorizedFetch } from "../api";
 import { ERROR_MESSAGES } from "../constants";
 import { createEntityService } from "../utils/api-service-utils";
+import {
+  organizationRoleOptionsResponseSchema,
+  supervisorsResponseSchema,
+  teacherResponseSchema,
+  teacherSchema,
+  teachersResponseSchema,
+  teacherSubjectOptionsResponseSchema,
+} from "./schemas/teacher-schema";
 import type { Address } from "./address-api";
+import type { OrganizationRole, Subject, Teacher, User } from "./schemas/teacher-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
 
 // Re-export Address type for convenience
 export type { Address } from "./address-api";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
 
-/**
- * Teacher interfaces
- */
-export interface Teacher {
-  public_id: string;
-  user?: {
-    public_id: string;
-    username?: string;
-    first_name?: string;
-    last_name?: string;
-    full_name?: string;
-    email?: string;
-    phone?: string;
-    role?: string;
-    gender?: string;
-    blood_group?: string;
-    date_of_birth?: string;
-    organization_role?: string;
-    supervisor?: {
-      email: string;
-      full_name: string;
-    };
-    address?: Address;
-  };
-  employee_id: string;
-  full_name: string;
-  email: string;
-  phone: string;
-  highest_qualification?: string;
-  joining_date?: string;
-  specialization?: string;
-  designation?: string;
-  experience_years?: number;
-  subjects?: Array<{ public_id: string; name: string; code?: string }>;
-  emergency_contact_name?: string;
-  emergency_contact_number?: string;
-  is_first_login?: boolean;
-  created_at: string;
-  updated_at: string;
-}
+export type { OrganizationRole, Subject, Teacher, User } from "./schemas/teacher-schema";
 
 export interface TeacherCreatePayload {
   employee_id: string;
@@ -102,53 +73,6 @@ export interface TeacherUpdatePayload {
   };
 }
 
-export interface Subject {
-  id: number;
-  name: string;
-  code: string;
-  description?: string;
-}
-
-export interface OrganizationRole {
-  id: number;
-  name: string;
-  code: string;
-  description?: string;
-  display_order: number;
-}
-
-export interface User {
-  public_id: string;
-  email: string;
-  full_name: string;
-  first_name: string;
-  last_name: string;
-  role: string;
-}
-
-interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: T;
-  code: number;
-  pagination?: unknown;
-}
-
-interface TeachersResponse {
-  success: boolean;
-  message: string;
-  data: Teacher[];
-  code: number;
-  pagination?: {
-    count: number;
-    next: string | null;
-    previous: string | null;
-    page_size: number;
-    current_page: number;
-    total_pages: number;
-  };
-}
-
 /**
  * Fetch all teachers with pagination and filters
  */
@@ -159,7 +83,7 @@ export async function fetchTeachers(params?: {
   designation?: string;
   search?: string;
   is_deleted?: boolean;
-}): Promise<TeachersResponse> {
+}): Promise<ApiListResponse<Teacher>> {
   const queryParams = new URLSearchParams();
 
   if (params?.page) {
@@ -185,14 +109,15 @@ export async function fetchTeachers(params?: {
     queryParams.toString() ? `?${queryParams.toString()}` : ""
   }`;
 
-  const response = await apiRequest<TeachersResponse>(url, {
+  const response = await apiRequest<ApiListResponse<Teacher>>(url, {
     method: "GET",
+    schema: teachersResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
     throw new Error(response.message || ERROR_MESSAGES.TEACHER_FETCH_FAILED);
   }
-  
+
   return response;
 }
 
@@ -201,7 +126,8 @@ export async function fetchTeachers(params?: {
  */
 const teacherService = createEntityService<Teacher, TeacherCreatePayload, TeacherUpdatePayload>(
   `${API_BASE_URL}/api/teacher/admin/`,
-  (publicId: string) => `${API_BASE_URL}/api/teacher/admin/${publicId}/`
+  (publicId: string) => `${API_BASE_URL}/api/teacher/admin/${publicId}/`,
+  teacherSchema
 );
 
 /**
@@ -221,6 +147,7 @@ export async function reactivateTeacher(publicId: string): Promise<ApiResponse<T
     API_ENDPOINTS.teacher.activate(publicId),
     {
       method: "POST",
+      schema: teacherResponseSchema,
     }
   );
 
@@ -240,6 +167,7 @@ export async function fetchSubjects(): Promise<Subject[]> {
       `${API_BASE_URL}/api/core/subjects/`,
       {
         method: "GET",
+        schema: teacherSubjectOptionsResponseSchema,
       }
     );
 
@@ -283,6 +211,7 @@ export async function fetchOrganizationRoles(): Promise<OrganizationRole[]> {
       `${API_BASE_URL}/api/core/organization-role-types/`,
       {
         method: "GET",
+        schema: organizationRoleOptionsResponseSchema,
       }
     );
 
@@ -317,15 +246,13 @@ export async function fetchOrganizationRoles(): Promise<OrganizationRole[]> {
  */
 export async function fetchOrganizationUsers(): Promise<User[]> {
   try {
-    const response = await apiRequest<{
-      success: boolean;
-      message: string;
-      data: User[];
-      pagination?: unknown;
-      code: number;
-    }>(`${API_BASE_URL}/api/users/supervisors/`, {
-      method: "GET",
-    });
+    const response = await apiRequest<ApiResponse<User[]>>(
+      `${API_BASE_URL}/api/users/supervisors/`,
+      {
+        method: "GET",
+        schema: supervisorsResponseSchema,
+      }
+    );
 
     if (!response || typeof response !== "object") {
       return [];
@@ -354,13 +281,8 @@ export async function fetchOrganizationUsers(): Promise<User[]> {
 export async function downloadTeacherTemplate(isLimitedFields: boolean = false): Promise<Blob> {
   const queryParams = isLimitedFields ? "?is_limited_fields_only=true" : "";
   const url = `${API_BASE_URL}/api/teacher/admin/download-template${queryParams}`;
-  const accessToken = getAccessToken();
-
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "GET",
-    headers: {
-      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
-    },
     credentials: "include",
   });
 
@@ -378,16 +300,9 @@ export async function downloadTeacherTemplate(isLimitedFields: boolean = false):
 export async function bulkUploadTeachers(file: File): Promise<unknown> {
   const formData = new FormData();
   formData.append("file", file);
-  const accessToken = getAccessToken();
-
-  const headers: HeadersInit = {};
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
 
-  const response = await fetch(`${API_BASE_URL}/api/teacher/admin/bulk-upload/`, {
+  const response = await authorizedFetch(`${API_BASE_URL}/api/teacher/admin/bulk-upload/`, {
     method: "POST",
-    headers,
     body: formData,
     credentials: "include",
   });
@@ -0,0 +1,227 @@
+/**
+ * Timetable API Functions
+ * Handles the bell schedule (periods) and the weekly timetable of each section
+ */
+
+import type { DayOfWeekValue } from "@/constants/timetable";
+import { apiRequest, API_ENDPOINTS } from "@/lib/api";
+import {
+  childrenTimetableResponseSchema,
+  classTimetableResponseSchema,
+  timetableEntriesResponseSchema,
+  timetablePeriodsResponseSchema,
+} from "./schemas/timetable-schema";
+import type { ChildTimetable, TimetableEntry, TimetablePeriod } from "./schemas/timetable-schema";
+import type { ApiListResponse, ApiResponse } from "./types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type { ChildTimetable, TimetableEntry, TimetablePeriod } from "./schemas/timetable-schema";
+
+export interface TimetablePeriodPayload {
+  public_id?: string; // Omit to create a new period
+  name: string;
+  start_time: string; // HH:MM
+  end_time: string; // HH:MM
+  is_break: boolean;
+}
+
+export interface TimetableEntryPayload {
+  day_of_week: DayOfWeekValue;
+  period_id: string; // Period public_id
+  subject_id: string; // Subject assignment public_id
+  room?: string | null;
+}
+
+export interface TimetableEntryFilters {
+  class_id?: string;
+  teacher_id?: string;
+  day_of_week?: number;
+  page?: number;
+  page_size?: number;
+  [key: string]: string | number | undefined;
+}
+
+// ============================================================================
+// Bell Schedule
+// ============================================================================
+
+/**
+ * Fetch the organization's periods in day order
+ */
+export async function fetchTimetablePeriods(): Promise<ApiResponse<TimetablePeriod[]>> {
+  const response = await apiRequest<ApiResponse<TimetablePeriod[]>>(
+    API_ENDPOINTS.timetable.periods,
+    {
+      method: "GET",
+      schema: timetablePeriodsResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch periods");
+  }
+
+  return response;
+}
+
+/**
+ * Replace the bell schedule. Periods are ordered as sent; periods left out are
+ * removed along with the timetable entries placed in them.
+ */
+export async function saveTimetablePeriods(
+  periods: TimetablePeriodPayload[]
+): Promise<ApiResponse<TimetablePeriod[]>> {
+  const response = await apiRequest<ApiResponse<TimetablePeriod[]>>(
+    API_ENDPOINTS.timetable.periods,
+    {
+      method: "PUT",
+      schema: timetablePeriodsResponseSchema,
+      body: JSON.stringify({ periods }),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save periods");
+  }
+
+  return response;
+}
+
+// ============================================================================
+// Timetable Entries
+// ============================================================================
+
+/**
+ * Fetch timetable entries across sections, e.g. to check a teacher's other classes
+ */
+export async function fetchTimetableEntries(
+  filters?: TimetableEntryFilters
+): Promise<ApiListResponse<TimetableEntry>> {
+  const queryParams = new URLSearchParams();
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        queryParams.append(key, value.toString());
+      }
+    });
+  }
+
+  const url = `${API_ENDPOINTS.timetable.entries}${
+    queryParams.toString() ? `?${queryParams.toString()}` : ""
+  }`;
+
+  const response = await apiRequest<ApiListResponse<TimetableEntry>>(url, {
+    method: "GET",
+    schema: timetableEntriesResponseSchema,
+  });
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch timetable entries");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch every timetable entry in the organization, page by page. The builder
+ * needs all of them to detect teacher and room clashes across sections.
+ */
+export async function fetchAllTimetableEntries(pageSize: number): Promise<TimetableEntry[]> {
+  const entries: TimetableEntry[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetchTimetableEntries({ page, page_size: pageSize });
+    entries.push(...response.data);
+    totalPages = response.pagination.total_pages;
+    page += 1;
+  } while (page <= totalPages);
+
+  return entries;
+}
+
+/**
+ * Fetch the weekly timetable of a section
+ */
+export async function fetchClassTimetable(classId: string): Promise<ApiResponse<TimetableEntry[]>> {
+  const response = await apiRequest<ApiResponse<TimetableEntry[]>>(
+    API_ENDPOINTS.timetable.classTimetable(classId),
+    {
+      method: "GET",
+      schema: classTimetableResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch class timetable");
+  }
+
+  return response;
+}
+
+/**
+ * Replace the weekly timetable of a section. The backend rejects the whole
+ * timetable if any entry double-books a teacher or room.
+ */
+export async function saveClassTimetable(
+  classId: string,
+  entries: TimetableEntryPayload[]
+): Promise<ApiResponse<TimetableEntry[]>> {
+  const response = await apiRequest<ApiResponse<TimetableEntry[]>>(
+    API_ENDPOINTS.timetable.classTimetable(classId),
+    {
+      method: "PUT",
+      schema: classTimetableResponseSchema,
+      body: JSON.stringify({ entries }),
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to save class timetable");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the signed-in teacher's weekly schedule across all sections
+ */
+export async function fetchMySchedule(): Promise<ApiResponse<TimetableEntry[]>> {
+  const response = await apiRequest<ApiResponse<TimetableEntry[]>>(
+    API_ENDPOINTS.timetable.mySchedule,
+    {
+      method: "GET",
+      schema: classTimetableResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch your schedule");
+  }
+
+  return response;
+}
+
+/**
+ * Fetch the class timetables of the signed-in parent's children
+ */
+export async function fetchChildrenTimetables(): Promise<ApiResponse<ChildTimetable[]>> {
+  const response = await apiRequest<ApiResponse<ChildTimetable[]>>(
+    API_ENDPOINTS.timetable.children,
+    {
+      method: "GET",
+      schema: childrenTimetableResponseSchema,
+    }
+  );
+
+  if (!response.success || response.code < 200 || response.code >= 300) {
+    throw new Error(response.message || "Failed to fetch timetables");
+  }
+
+  return response;
+}
@@ -3,20 +3,14 @@
  * These types are used across all API endpoints for consistency
  */
 
+import type { paginationSchema } from "./schemas/common-schema";
+import type { z } from "zod";
+
 // ============================================================================
 // Pagination Types
 // ============================================================================
 
-export interface Pagination {
-  current_page: number;
-  total_pages: number;
-  count: number;
-  page_size: number;
-  has_next: boolean;
-  has_previous: boolean;
-  next_page: number | null;
-  previous_page: number | null;
-}
+export type Pagination = z.infer<typeof paginationSchema>;
 
 // ============================================================================
 // Standard API Response Types
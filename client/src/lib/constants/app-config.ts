@@ -19,3 +19,15 @@ export const COMPANY_NAME = "Educard";
  * Application version
  */
 export const APP_VERSION = "1.0.0";
+
+/**
+ * Session timeout settings
+ * The idle timeout itself comes from the organization preference below; when it
+ * is missing or 0 users stay signed in until their refresh token expires.
+ */
+export const SESSION_CONFIG = {
+  IDLE_TIMEOUT_PREFERENCE_KEY: "session_idle_timeout_minutes",
+  WARNING_SECONDS: 60,
+  ACTIVITY_THROTTLE_MS: 5_000,
+  TOKEN_REFRESH_LEEWAY_SECONDS: 60,
+} as const;
@@ -17,6 +17,7 @@ export const LeaveAllocationValidationMessages = {
   CARRY_FORWARD_DAYS_REQUIRED: "Carry forward days is required",
   CARRY_FORWARD_DAYS_POSITIVE: "Must be a positive number",
   CARRY_FORWARD_EXCEEDS_TOTAL: "Carry forward days cannot be greater than Total days",
+  ATTACHMENT_DAYS_POSITIVE: "Must be a positive number, or blank for no requirement",
   
   // Roles validation
   ROLES_REQUIRED: "Please select at least one role",
@@ -8,6 +8,7 @@ export const QUERY_KEYS = {
   // Students
   STUDENTS: 'students',
   STUDENT_DETAILS: 'studentDetails',
+  CHILDREN: 'children',
   
   // Teachers
   TEACHERS: 'teachers',
@@ -20,6 +21,55 @@ export const QUERY_KEYS = {
   // Attendance
   ATTENDANCE: 'attendance',
   ATTENDANCE_DETAILS: 'attendanceDetails',
+  STUDENT_ATTENDANCE: 'studentAttendance',
+  CHILDREN_ATTENDANCE: 'childrenAttendance',
+  STAFF_ATTENDANCE: 'staffAttendance',
+  USER_ATTENDANCE: 'userAttendance',
+  CAMPUS_GEOFENCES: 'campusGeofences',
+  MY_REGULARIZATIONS: 'myRegularizations',
+  REGULARIZATION_REVIEWS: 'regularizationReviews',
+  
+  // Timetable
+  TIMETABLE_PERIODS: 'timetablePeriods',
+  TIMETABLE_ENTRIES: 'timetableEntries',
+  CLASS_TIMETABLE: 'classTimetable',
+  MY_SCHEDULE: 'mySchedule',
+  CHILDREN_TIMETABLES: 'childrenTimetables',
+  SUBSTITUTIONS: 'substitutions',
+  SUBSTITUTE_SUGGESTIONS: 'substituteSuggestions',
+  MY_SUBSTITUTIONS: 'mySubstitutions',
+  
+  // Exams
+  EXAMS: 'exams',
+  EXAM_DETAILS: 'examDetails',
+  EXAM_PAPERS: 'examPapers',
+  MY_EXAM_PAPERS: 'myExamPapers',
+  MARKS_SHEET: 'marksSheet',
+  GRADE_SCALES: 'gradeScales',
+  CHILDREN_RESULTS: 'childrenResults',
+  REPORT_CARD_TEMPLATE: 'reportCardTemplate',
+  REPORT_CARDS: 'reportCards',
+  
+  // Assignments
+  ASSIGNMENTS: 'assignments',
+  ASSIGNMENT_SUBJECTS: 'assignmentSubjects',
+  ASSIGNMENT_SUBMISSIONS: 'assignmentSubmissions',
+  CHILDREN_ASSIGNMENTS: 'childrenAssignments',
+  
+  // Messages
+  MESSAGE_THREADS: 'messageThreads',
+  MESSAGE_THREAD_DETAILS: 'messageThreadDetails',
+  MESSAGE_CONTACTS: 'messageContacts',
+  UNREAD_MESSAGES: 'unreadMessages',
+  QUIET_HOURS: 'quietHours',
+  
+  // Announcements
+  ANNOUNCEMENTS: 'announcements',
+  ANNOUNCEMENT_RECEIPTS: 'announcementReceipts',
+  RECEIVED_ANNOUNCEMENTS: 'receivedAnnouncements',
+  
+  // Notifications
+  NOTIFICATIONS: 'notifications',
   
   // Calendar Exceptions
   CALENDAR_EXCEPTIONS: 'calendarExceptions',
@@ -28,6 +78,14 @@ export const QUERY_KEYS = {
   // Leave
   LEAVE_REQUESTS: 'leaveRequests',
   LEAVE_REQUEST_DETAILS: 'leaveRequestDetails',
+  LEAVE_APPROVAL_WORKFLOWS: 'leaveApprovalWorkflows',
+  LEAVE_BALANCE_LEDGER: 'leaveBalanceLedger',
+  LEAVE_ACCRUAL_PREVIEW: 'leaveAccrualPreview',
+  LEAVE_ACCRUAL_RUNS: 'leaveAccrualRuns',
+  LEAVE_ROLLOVER_PREVIEW: 'leaveRolloverPreview',
+  LEAVE_ROLLOVERS: 'leaveRollovers',
+  TEAM_LEAVE_CALENDAR: 'teamLeaveCalendar',
+  CHILDREN_LEAVE_REQUESTS: 'childrenLeaveRequests',
   
   // Organization
   ORGANIZATION: 'organization',
@@ -3,6 +3,7 @@
  * Provides user-friendly error messages and error parsing
  */
 
+import { ApiError } from "./api/errors";
 import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
 
 // ============================================================================
@@ -68,6 +69,11 @@ export function parseApiError(error: unknown): ParsedError {
     }
   }
 
+  // API errors carry field errors and a status code, so parse them as objects
+  if (error instanceof ApiError) {
+    return parseErrorObject(error);
+  }
+
   if (error instanceof Error) {
     return {
       title: "Error",
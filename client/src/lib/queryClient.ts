@@ -1,59 +1,19 @@
 import { QueryClient } from "@tanstack/react-query";
-import { getAccessToken } from "@/lib/api";
+import { apiRequest, isApiError } from "@/lib/api";
 import type { QueryFunction } from "@tanstack/react-query";
 
-async function throwIfResNotOk(res: Response) {
-  if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
-  }
-}
-
-export async function apiRequest(
-  method: string,
-  url: string,
-  data?: unknown | undefined
-): Promise<Response> {
-  const accessToken = getAccessToken();
-  const headers: HeadersInit = {
-    "Content-Type": "application/json",
-  };
-
-  if (accessToken) {
-    headers["Authorization"] = `Bearer ${accessToken}`;
-  }
-
-  const res = await fetch(url, {
-    method,
-    headers,
-    body: data ? JSON.stringify(data) : undefined,
-  });
-
-  await throwIfResNotOk(res);
-  return res;
-}
-
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: { on401: UnauthorizedBehavior }) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior }) =>
-  async ({ queryKey }) => {
-    const accessToken = getAccessToken();
-    const headers: HeadersInit = {};
-
-    if (accessToken) {
-      headers["Authorization"] = `Bearer ${accessToken}`;
+  <T>({ on401: unauthorizedBehavior }: { on401: UnauthorizedBehavior }): QueryFunction<T> =>
+  async ({ queryKey, signal }) => {
+    try {
+      return await apiRequest<T>(queryKey.join("/") as string, { signal });
+    } catch (error) {
+      if (unauthorizedBehavior === "returnNull" && isApiError(error) && error.code === 401) {
+        return null as T;
+      }
+      throw error;
     }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-    });
-
-    if (unauthorizedBehavior === "returnNull" && res.status === 401) {
-      return null;
-    }
-
-    await throwIfResNotOk(res);
-    return await res.json();
   };
 
 export const queryClient = new QueryClient({
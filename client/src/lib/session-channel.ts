@@ -0,0 +1,47 @@
+/**
+ * Session Channel
+ * Cross-tab messaging for session events over BroadcastChannel, so activity in
+ * one tab keeps every tab alive and signing out in one tab signs out all of them.
+ * Falls back to a no-op where BroadcastChannel is unavailable.
+ */
+
+export type SessionEvent = { type: "activity"; at: number } | { type: "logout" };
+
+const CHANNEL_NAME = "educard-session";
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Send a session event to every other open tab
+ */
+export function broadcastSessionEvent(event: SessionEvent): void {
+  getChannel()?.postMessage(event);
+}
+
+/**
+ * Listen for session events from other tabs.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToSessionEvents(listener: (event: SessionEvent) => void): () => void {
+  const activeChannel = getChannel();
+  if (!activeChannel) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent<SessionEvent>) => listener(event.data);
+  activeChannel.addEventListener("message", handleMessage);
+
+  return () => {
+    activeChannel.removeEventListener("message", handleMessage);
+  };
+}
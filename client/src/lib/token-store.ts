@@ -0,0 +1,122 @@
+/**
+ * Token Store
+ * Single source of truth for the auth tokens. Both the HTTP client and the
+ * user context read and write tokens through this module so they never drift
+ * apart, and subscribers are told whenever the tokens change (in this tab or
+ * in another one).
+ */
+
+/**
+ * Storage keys for tokens
+ */
+export const STORAGE_KEYS = {
+  ACCESS_TOKEN: "access_token",
+  REFRESH_TOKEN: "refresh_token",
+} as const;
+
+/**
+ * Keys written by older builds of the user context, migrated on first read
+ */
+const LEGACY_STORAGE_KEYS = {
+  ACCESS_TOKEN: "accessToken",
+  REFRESH_TOKEN: "refreshToken",
+} as const;
+
+export interface StoredTokens {
+  access: string;
+  refresh: string;
+}
+
+type TokenListener = (tokens: StoredTokens | null) => void;
+
+const listeners = new Set<TokenListener>();
+
+function migrateLegacyTokens(): void {
+  const legacyAccess = localStorage.getItem(LEGACY_STORAGE_KEYS.ACCESS_TOKEN);
+  const legacyRefresh = localStorage.getItem(LEGACY_STORAGE_KEYS.REFRESH_TOKEN);
+
+  if (legacyAccess && legacyRefresh && !localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)) {
+    localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, legacyAccess);
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, legacyRefresh);
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEYS.ACCESS_TOKEN);
+  localStorage.removeItem(LEGACY_STORAGE_KEYS.REFRESH_TOKEN);
+}
+
+migrateLegacyTokens();
+
+function notify(): void {
+  const tokens = getTokens();
+  listeners.forEach((listener) => listener(tokens));
+}
+
+/**
+ * Get access token from storage
+ */
+export function getAccessToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+}
+
+/**
+ * Get refresh token from storage
+ */
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+}
+
+/**
+ * Get both tokens, or null when the user is not signed in
+ */
+export function getTokens(): StoredTokens | null {
+  const access = getAccessToken();
+  const refresh = getRefreshToken();
+  return access && refresh ? { access, refresh } : null;
+}
+
+/**
+ * Save tokens to storage
+ */
+export function saveTokens(accessToken: string, refreshToken: string): void {
+  localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+  localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
+  notify();
+}
+
+/**
+ * Replace the access token after a refresh, keeping the refresh token
+ */
+export function setAccessToken(accessToken: string): void {
+  localStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
+  notify();
+}
+
+/**
+ * Clear tokens from storage
+ */
+export function clearTokens(): void {
+  localStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN);
+  localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+  notify();
+}
+
+/**
+ * Subscribe to token changes. Fires for changes made in this tab and, through
+ * the storage event, for changes made in other tabs.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToTokens(listener: TokenListener): () => void {
+  const handleStorageChange = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEYS.ACCESS_TOKEN || event.key === STORAGE_KEYS.REFRESH_TOKEN) {
+      listener(getTokens());
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorageChange);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorageChange);
+  };
+}
@@ -3,39 +3,28 @@
  * Reusable CRUD functions that handle standard API response unwrapping and error handling
  */
 
-import { apiRequest } from "../api";
+import { apiRequest, authorizedFetch } from "../api";
+import {
+  apiListResponseSchema,
+  apiResponseSchema,
+  emptyResponseSchema,
+} from "../api/schemas/common-schema";
 import { ERROR_MESSAGES } from "../constants";
+import type { ApiListResponse, ApiResponse } from "../api/types";
+import type { ZodTypeAny } from "zod";
 
-/**
- * Generic API Response Types
- */
-export interface ApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: T;
-  code: number;
-}
-
-export interface PaginatedApiResponse<T> {
-  success: boolean;
-  message: string;
-  data: {
-    count: number;
-    next: string | null;
-    previous: string | null;
-    results: T[];
-  };
-  code: number;
-}
+// Generic API Response Types
+export type { ApiListResponse, ApiResponse } from "../api/types";
 
 /**
  * Generic fetch list function
- * Unwraps paginated response structure (data.results) and validates success
+ * Unwraps paginated response structure (data) and validates success
  */
-export async function fetchList<T>(url: string): Promise<T[]> {
+export async function fetchList<T>(url: string, schema?: ZodTypeAny): Promise<T[]> {
   try {
-    const response = await apiRequest<PaginatedApiResponse<T>>(url, {
+    const response = await apiRequest<ApiListResponse<T>>(url, {
       method: "GET",
+      schema,
     });
 
     // Check if response is valid
@@ -49,13 +38,13 @@ export async function fetchList<T>(url: string): Promise<T[]> {
       throw new Error(response.message || ERROR_MESSAGES.FETCH_DATA_FAILED);
     }
 
-    // Ensure data and results exist
-    if (!response.data || !response.data.results) {
+    // Ensure the data array exists
+    if (!Array.isArray(response.data)) {
       console.error("Fetch list: Invalid response structure", response);
       return [];
     }
 
-    return response.data.results;
+    return response.data;
   } catch (error) {
     console.error("Fetch list exception:", error);
     throw error;
@@ -66,10 +55,11 @@ export async function fetchList<T>(url: string): Promise<T[]> {
  * Unwraps single-entity response structure (data) and validates success
  * Generic fetch detail function
  */
-export async function fetchDetail<T>(url: string): Promise<T> {
+export async function fetchDetail<T>(url: string, schema?: ZodTypeAny): Promise<T> {
   try {
     const response = await apiRequest<ApiResponse<T>>(url, {
       method: "GET",
+      schema,
     });
 
     if (!response) {
@@ -95,11 +85,17 @@ export async function fetchDetail<T>(url: string): Promise<T> {
  * Sends POST request with JSON payload, unwraps response
  * Generic create function
  */
-export async function createEntity<T, P = unknown>(url: string, payload: P, forceCreate?: boolean): Promise<T> {
+export async function createEntity<T, P = unknown>(
+  url: string,
+  payload: P,
+  forceCreate?: boolean,
+  schema?: ZodTypeAny
+): Promise<T> {
   const finalUrl = forceCreate ? `${url}?force_create=true` : url;
   const response = await apiRequest<ApiResponse<T>>(finalUrl, {
     method: "POST",
     body: JSON.stringify(payload),
+    schema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -112,10 +108,15 @@ export async function createEntity<T, P = unknown>(url: string, payload: P, forc
 /**
  * Generic update function
  */
-export async function updateEntity<T, P = unknown>(url: string, payload: Partial<P>): Promise<T> {
+export async function updateEntity<T, P = unknown>(
+  url: string,
+  payload: Partial<P>,
+  schema?: ZodTypeAny
+): Promise<T> {
   const response = await apiRequest<ApiResponse<T>>(url, {
     method: "PATCH",
     body: JSON.stringify(payload),
+    schema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -131,6 +132,7 @@ export async function updateEntity<T, P = unknown>(url: string, payload: Partial
 export async function deleteEntity(url: string): Promise<void> {
   const response = await apiRequest<ApiResponse<null>>(url, {
     method: "DELETE",
+    schema: emptyResponseSchema,
   });
 
   if (!response.success || response.code < 200 || response.code >= 300) {
@@ -145,11 +147,8 @@ export async function bulkUpload<T>(url: string, file: File): Promise<T> {
   const formData = new FormData();
   formData.append("file", file);
 
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     method: "POST",
-    headers: {
-      Authorization: `Bearer ${localStorage.getItem("access_token")}`,
-    },
     body: formData,
   });
 
@@ -172,16 +171,24 @@ export interface EntityService<T, CreatePayload = unknown, UpdatePayload = unkno
   delete: (id: string) => Promise<void>;
 }
 
+/**
+ * Pass the entity schema to validate responses against it in development
+ */
 export function createEntityService<T, CreatePayload = unknown, UpdatePayload = unknown>(
   baseUrl: string,
-  detailUrl: (id: string) => string
+  detailUrl: (id: string) => string,
+  entitySchema?: ZodTypeAny
 ): EntityService<T, CreatePayload, UpdatePayload> {
+  const listSchema = entitySchema && apiListResponseSchema(entitySchema);
+  const detailSchema = entitySchema && apiResponseSchema(entitySchema);
+
   return {
-    fetchList: () => fetchList<T>(baseUrl),
-    fetchDetail: (id: string) => fetchDetail<T>(detailUrl(id)),
-    create: (payload: CreatePayload, forceCreate?: boolean) => createEntity<T, CreatePayload>(baseUrl, payload, forceCreate),
+    fetchList: () => fetchList<T>(baseUrl, listSchema),
+    fetchDetail: (id: string) => fetchDetail<T>(detailUrl(id), detailSchema),
+    create: (payload: CreatePayload, forceCreate?: boolean) =>
+      createEntity<T, CreatePayload>(baseUrl, payload, forceCreate, detailSchema),
     update: (id: string, payload: Partial<UpdatePayload>) =>
-      updateEntity<T, UpdatePayload>(detailUrl(id), payload),
+      updateEntity<T, UpdatePayload>(detailUrl(id), payload, detailSchema),
     delete: (id: string) => deleteEntity(detailUrl(id)),
   };
 }
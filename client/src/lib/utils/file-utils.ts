@@ -0,0 +1,31 @@
+/**
+ * File Utility Functions
+ * Size formatting and upload checks for attachments, matching the limits the
+ * backend enforces.
+ */
+
+import { MAX_ATTACHMENT_SIZE_MB, MAX_ATTACHMENTS } from "@/constants/attachments";
+
+/**
+ * Human readable file size, e.g. "240 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Why the selected files can't be uploaded, or null when they can
+ */
+export function getAttachmentError(files: File[], existingCount = 0): string | null {
+  if (existingCount + files.length > MAX_ATTACHMENTS) {
+    return `Attach at most ${MAX_ATTACHMENTS} files`;
+  }
+  const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+  return tooLarge ? `${tooLarge.name} is larger than ${MAX_ATTACHMENT_SIZE_MB} MB` : null;
+}
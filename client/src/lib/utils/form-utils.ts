@@ -6,10 +6,10 @@
 // Import date utilities
 import { formatDateForInput, parseLocalDate } from "./date-utils";
 // Import types from specialized utils
-import type { ApiResponse, PaginatedApiResponse } from "./api-service-utils";
+import type { ApiListResponse, ApiResponse } from "./api-service-utils";
 
 // Re-export for convenience
-export type { ApiResponse, PaginatedApiResponse };
+export type { ApiListResponse, ApiResponse };
 export { formatDateForInput, parseLocalDate };
 
 /**
@@ -3,3 +3,5 @@ export * from "./api-service-utils";
 export * from "./holiday-utils";
 export * from "./date-utils";
 export * from "./validation-utils";
+export * from "./jwt-utils";
+export * from "./file-utils";
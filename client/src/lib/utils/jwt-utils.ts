@@ -0,0 +1,46 @@
+/**
+ * JWT Utility Functions
+ * Read claims from access tokens on the client. The signature is not verified
+ * here; the backend remains the authority, this is only used for scheduling.
+ */
+
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  user_id?: string | number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload segment of a JWT
+ * @returns The decoded claims, or null if the token is malformed
+ */
+export function decodeJwtPayload(token: string): JwtPayload | null {
+  const segment = token.split(".")[1];
+  if (!segment) {
+    return null;
+  }
+
+  try {
+    const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const json = decodeURIComponent(
+      atob(padded)
+        .split("")
+        .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`)
+        .join("")
+    );
+    return JSON.parse(json) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the expiry of a JWT as epoch milliseconds
+ * @returns Expiry time, or null if the token has no `exp` claim
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
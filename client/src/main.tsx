@@ -8,8 +8,17 @@ if (!rootElement) {
   throw new Error("Failed to find the root element");
 }
 
-createRoot(rootElement).render(
-  <UserProvider>
-    <App />
-  </UserProvider>
-);
+// The mock backend must patch fetch before the first request is made; it is
+// loaded lazily so it never ships in builds that don't enable it
+const mockBackendReady =
+  import.meta.env.VITE_USE_MOCK_API === "true"
+    ? import("./mocks").then(({ installMockBackend }) => installMockBackend())
+    : Promise.resolve();
+
+void mockBackendReady.then(() => {
+  createRoot(rootElement).render(
+    <UserProvider>
+      <App />
+    </UserProvider>
+  );
+});
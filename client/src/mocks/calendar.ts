@@ -0,0 +1,108 @@
+/**
+ * Mock Working-Day Calendar
+ * Applies the working day policy, holidays and calendar exceptions the way
+ * the backend does when counting leave days and generating attendance.
+ */
+
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import type { MockDb, MockHoliday } from "./db";
+
+export const DATE_FORMAT = "yyyy-MM-dd";
+
+export function toDateString(date: Date): string {
+  return format(date, DATE_FORMAT);
+}
+
+/**
+ * Weekend holiday generated by the working day policy, if any
+ */
+function getWeekendHolidayType(db: MockDb, date: Date): MockHoliday["holiday_type"] | null {
+  const dateString = toDateString(date);
+  const policy = db.workingDayPolicies.find(
+    (item) =>
+      item.effective_from <= dateString && (!item.effective_to || item.effective_to >= dateString)
+  );
+  if (!policy) {
+    return date.getDay() === 0 ? "SUNDAY" : null;
+  }
+
+  if (date.getDay() === 0) {
+    return policy.sunday_off ? "SUNDAY" : null;
+  }
+  if (date.getDay() !== 6) {
+    return null;
+  }
+
+  const weekOfMonth = Math.ceil(date.getDate() / 7);
+  switch (policy.saturday_off_pattern) {
+    case "ALL":
+      return "SATURDAY";
+    case "SECOND_ONLY":
+      return weekOfMonth === 2 ? "SECOND_SATURDAY" : null;
+    case "SECOND_AND_FOURTH":
+      return weekOfMonth === 2 || weekOfMonth === 4 ? "SECOND_SATURDAY" : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Holidays (declared or from the weekend policy) that fall on the given date
+ */
+export function getHolidaysOn(
+  db: MockDb,
+  date: Date
+): Array<{ date: string; description: string; type: string }> {
+  const dateString = toDateString(date);
+  const holidays = db.holidays
+    .filter((holiday) => holiday.start_date <= dateString && holiday.end_date >= dateString)
+    .map((holiday) => ({
+      date: dateString,
+      description: holiday.description,
+      type: holiday.holiday_type,
+    }));
+
+  const weekendType = getWeekendHolidayType(db, date);
+  if (weekendType) {
+    holidays.push({
+      date: dateString,
+      description: weekendType === "SUNDAY" ? "Sunday" : "Saturday Off",
+      type: weekendType,
+    });
+  }
+
+  return holidays;
+}
+
+/**
+ * Whether the organization works on the given date. Organization-wide
+ * calendar exceptions override both holidays and the weekend policy.
+ */
+export function isWorkingDay(db: MockDb, date: Date): boolean {
+  const dateString = toDateString(date);
+  const exception = db.calendarExceptions.find(
+    (item) => item.date === dateString && item.is_applicable_to_all_classes
+  );
+  if (exception) {
+    return exception.override_type === "FORCE_WORKING";
+  }
+  return getHolidaysOn(db, date).length === 0;
+}
+
+/**
+ * Count working days and list the holidays between two dates (inclusive)
+ */
+export function summarizeRange(db: MockDb, startDate: string, endDate: string) {
+  const days = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) });
+  const holidays = days
+    .filter((day) => !isWorkingDay(db, day))
+    .flatMap((day) => getHolidaysOn(db, day));
+
+  return {
+    working_days: days.filter((day) => isWorkingDay(db, day)).length,
+    total_days: days.length,
+    start_date: startDate,
+    end_date: endDate,
+    holidays,
+  };
+}
@@ -0,0 +1,657 @@
+/**
+ * Mock Database
+ * In-memory store behind the mock backend. Records are kept normalized (ids
+ * instead of nested objects) and shaped into API responses by the handlers,
+ * the same split the backend has between models and serializers.
+ */
+
+import type { ExamStatusValue } from "@/constants/exams";
+import type { NotificationTypeValue } from "@/constants/notifications";
+import type { OverrideType } from "@/lib/api/calendar-exception-types";
+import type { CoreClass } from "@/lib/api/class-api";
+import type { HolidayType, SaturdayOffPattern } from "@/lib/api/holiday-api";
+import type {
+  AccrualFrequency,
+  ApproverType,
+  LeaveLedgerEntryType,
+  LeaveRolloverRow,
+  LeaveType,
+  OrganizationRole,
+} from "@/lib/api/leave-api";
+import type { Preference } from "@/lib/api/preferences-api";
+import type { CoreSubject } from "@/lib/api/subject-api";
+
+// ============================================================================
+// Record Types
+// ============================================================================
+
+export type MockUserRole = "admin" | "teacher" | "student" | "parent";
+
+export interface AuditFields {
+  created_at: string;
+  updated_at: string;
+  created_by: string | null; // User public_id
+  updated_by: string | null;
+}
+
+export interface MockAddress {
+  public_id: string;
+  address_type: string;
+  street_address: string;
+  address_line_2?: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  country: string;
+  latitude?: string;
+  longitude?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockUser {
+  public_id: string;
+  username: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  role: MockUserRole;
+  organization_role_code: string;
+  gender: string;
+  blood_group?: string;
+  date_of_birth?: string;
+  supervisor_id: string | null;
+  address: MockAddress | null;
+  is_active: boolean;
+  notification_opt_in: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockOrganization {
+  public_id: string;
+  name: string;
+  organization_type: string;
+  email: string;
+  phone: string;
+  website_url: string;
+  board_affiliation: string;
+  legal_entity: string;
+  is_active: boolean;
+  is_verified: boolean;
+  is_approved: boolean;
+  admin_id: string;
+}
+
+export interface MockClass extends AuditFields {
+  public_id: string;
+  class_master_id: number;
+  name: string;
+  class_teacher_id: string | null; // Teacher public_id
+  info: string | null;
+  capacity: number | null;
+  is_deleted: boolean;
+}
+
+export interface MockTeacher extends AuditFields {
+  public_id: string;
+  user_id: string;
+  employee_id: string;
+  highest_qualification: string;
+  joining_date: string;
+  specialization: string;
+  designation: string;
+  experience_years: number;
+  subject_ids: number[];
+  emergency_contact_name: string;
+  emergency_contact_number: string;
+  is_deleted: boolean;
+}
+
+export interface MockStudent extends AuditFields {
+  public_id: string;
+  user_id: string;
+  class_id: string;
+  roll_number: string;
+  admission_number: string;
+  admission_date: string;
+  guardian_name: string;
+  guardian_phone: string;
+  guardian_email: string;
+  guardian_relationship: string;
+  description: string;
+  medical_conditions: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  previous_school_name: string;
+  previous_school_address: string;
+  previous_school_class: string;
+  is_deleted: boolean;
+}
+
+export interface MockSubject extends AuditFields {
+  public_id: string;
+  class_id: string;
+  subject_id: number; // Core subject id
+  teacher_id: string; // Teacher public_id
+  description: string;
+  is_deleted: boolean;
+}
+
+export interface MockLeaveAllocation extends AuditFields {
+  public_id: string;
+  leave_type_id: number;
+  name: string;
+  description: string;
+  total_days: string;
+  max_carry_forward_days: string;
+  role_ids: number[];
+  effective_from: string;
+  effective_to: string | null;
+  accrual_frequency: AccrualFrequency;
+  is_prorated: boolean;
+  attachment_required_above_days: number | null;
+}
+
+export interface MockLeaveBalance {
+  public_id: string;
+  user_id: string;
+  allocation_id: string;
+  total_allocated: number;
+  carried_forward: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One credit or debit on a balance; entries always sum to its available days */
+export interface MockLeaveLedgerEntry {
+  public_id: string;
+  balance_id: string;
+  entry_type: LeaveLedgerEntryType;
+  days: number; // Negative for debits
+  created_at: string;
+  created_by: string | null; // User public_id, null for system postings
+  request_id: string | null; // Leave request public_id
+  note: string;
+}
+
+export interface MockApprovalWorkflowStep {
+  approver_type: ApproverType;
+  organization_role_code: string | null; // Set when approver_type is "organization_role"
+}
+
+export interface MockLeaveApprovalWorkflow extends AuditFields {
+  public_id: string;
+  name: string;
+  description: string;
+  role_ids: number[]; // Empty for every role
+  leave_type_ids: number[]; // Empty for every leave type
+  min_days: number;
+  steps: MockApprovalWorkflowStep[];
+  is_active: boolean;
+}
+
+/** A posting of accrued leave; each balance is raised to what it had accrued by as_of */
+export interface MockLeaveAccrualRun {
+  public_id: string;
+  as_of: string;
+  run_at: string;
+  run_by: string | null; // User public_id
+  credits_posted: number;
+  days_credited: number;
+}
+
+/** A processed year-end rollover; rows are the preview as it stood when confirmed */
+export interface MockLeaveRollover {
+  public_id: string;
+  from_year: number;
+  to_year: number;
+  processed_at: string;
+  processed_by: string | null; // User public_id
+  allocations_created: number;
+  balances_created: number;
+  rows: LeaveRolloverRow[];
+}
+
+export type MockLeaveStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export type MockApprovalStepStatus = "waiting" | "pending" | "approved" | "rejected" | "skipped";
+
+/** One step of a request's approval chain, copied from its workflow on submit */
+export interface MockApprovalStep extends MockApprovalWorkflowStep {
+  status: MockApprovalStepStatus;
+  acted_by: string | null; // User public_id
+  acted_at: string | null;
+  comments: string;
+}
+
+export interface MockLeaveRequest extends AuditFields {
+  public_id: string;
+  user_id: string;
+  balance_id: string;
+  start_date: string;
+  end_date: string;
+  number_of_days: number;
+  is_half_day: boolean;
+  reason: string;
+  remarks: string;
+  attachments: MockAttachment[];
+  status: MockLeaveStatus;
+  applied_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comments: string;
+  workflow_id: string | null; // Null when the default supervisor review applies
+  approval_steps: MockApprovalStep[];
+}
+
+export interface MockHoliday extends AuditFields {
+  public_id: string;
+  start_date: string;
+  end_date: string;
+  holiday_type: HolidayType;
+  description: string;
+}
+
+export interface MockWorkingDayPolicy extends AuditFields {
+  public_id: string;
+  sunday_off: boolean;
+  saturday_off_pattern: SaturdayOffPattern;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+export interface MockCalendarException {
+  public_id: string;
+  is_applicable_to_all_classes: boolean;
+  classes: string[];
+  date: string;
+  override_type: OverrideType;
+  reason: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockGeofence extends AuditFields {
+  public_id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  is_active: boolean;
+}
+
+export type MockAttendanceStatus = "PRESENT" | "ABSENT" | "HALF_DAY" | "ON_LEAVE";
+
+export interface MockStaffAttendance {
+  public_id: string;
+  user_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  status: MockAttendanceStatus;
+  check_in_latitude: number | null;
+  check_in_longitude: number | null;
+  check_out_latitude: number | null;
+  check_out_longitude: number | null;
+  check_in_within_geofence: boolean | null;
+  check_out_within_geofence: boolean | null;
+  check_in_distance_meters: number | null;
+  remarks: string | null;
+  corrected_by: string | null;
+  corrected_at: string | null;
+  is_regularized: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockRegularization {
+  public_id: string;
+  user_id: string;
+  attendance_record_id: string | null;
+  date: string;
+  regularization_type: string;
+  original_check_in_time: string | null;
+  original_check_out_time: string | null;
+  original_status: MockAttendanceStatus | null;
+  requested_check_in_time: string | null;
+  requested_check_out_time: string | null;
+  requested_status: MockAttendanceStatus | null;
+  reason: string;
+  status: string;
+  applied_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MockStudentAttendanceStatus = "PRESENT" | "ABSENT" | "LATE" | "ON_LEAVE";
+
+export interface MockStudentAttendance {
+  public_id: string;
+  student_id: string;
+  class_id: string;
+  date: string;
+  status: MockStudentAttendanceStatus;
+  remarks: string;
+  marked_by: string | null;
+  marked_at: string | null;
+}
+
+export interface MockTimetablePeriod {
+  public_id: string;
+  name: string;
+  start_time: string; // HH:MM
+  end_time: string; // HH:MM
+  order: number;
+  is_break: boolean;
+}
+
+export interface MockTimetableEntry {
+  public_id: string;
+  class_id: string;
+  day_of_week: number; // 1 (Monday) - 6 (Saturday)
+  period_id: string;
+  subject_id: string; // Subject assignment public_id
+  room: string | null;
+}
+
+export interface MockSubstitution {
+  public_id: string;
+  entry_id: string; // Timetable entry covered
+  date: string;
+  leave_request_id: string;
+  substitute_teacher_id: string; // Teacher public_id
+  notes: string;
+  assigned_by: string; // User public_id
+  assigned_at: string;
+}
+
+export interface MockGradeScale extends AuditFields {
+  public_id: string;
+  name: string;
+  is_default: boolean;
+  bands: Array<{
+    min_percentage: number;
+    grade: string;
+    grade_point: number;
+    description: string;
+  }>; // Highest band first
+}
+
+export interface MockExam extends AuditFields {
+  public_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: ExamStatusValue;
+  grade_scale_id: string;
+  class_ids: string[];
+  published_at: string | null;
+}
+
+export interface MockExamPaper {
+  public_id: string;
+  exam_id: string;
+  subject_id: string; // Subject assignment public_id
+  max_marks: number;
+  pass_marks: number;
+  exam_date: string | null;
+}
+
+export interface MockExamMark {
+  paper_id: string;
+  student_id: string;
+  marks_obtained: number | null;
+  is_absent: boolean;
+  remarks: string;
+}
+
+export interface MockReportCardTemplate {
+  title: string;
+  logo_url: string;
+  address_line: string;
+  accent_color: string;
+  show_grade_point: boolean;
+  show_subject_remarks: boolean;
+  show_attendance: boolean;
+  show_grade_scale: boolean;
+  signatory_title: string;
+  footer_note: string;
+  updated_at: string | null;
+  updated_by: string | null; // User public_id
+}
+
+export interface MockReportCardRemark {
+  exam_id: string;
+  student_id: string;
+  remarks: string;
+  updated_by: string | null; // User public_id
+  updated_at: string;
+}
+
+/**
+ * An uploaded file; `url` is an object URL for files uploaded this session
+ */
+export interface MockAttachment {
+  public_id: string;
+  file_name: string;
+  file_size: number;
+  content_type: string;
+  url: string;
+}
+
+export interface MockAssignment extends AuditFields {
+  public_id: string;
+  subject_id: string; // Subject assignment public_id
+  title: string;
+  instructions: string;
+  due_date: string;
+  max_marks: number | null;
+  attachments: MockAttachment[];
+}
+
+export interface MockAssignmentSubmission {
+  assignment_id: string;
+  student_id: string;
+  submitted_at: string | null; // Null until handed in
+  content: string;
+  attachments: MockAttachment[];
+  marks_obtained: number | null;
+  feedback: string;
+  graded_by: string | null; // User public_id
+  graded_at: string | null;
+}
+
+/**
+ * A conversation between a parent and one of their child's teachers
+ */
+export interface MockMessageThread {
+  public_id: string;
+  student_id: string; // Student public_id the conversation is about
+  parent_id: string; // User public_id
+  teacher_id: string; // Teacher public_id
+  subject: string;
+  created_at: string;
+}
+
+export interface MockMessage {
+  public_id: string;
+  thread_id: string;
+  sender_id: string; // User public_id
+  body: string;
+  attachments: MockAttachment[];
+  sent_at: string;
+  delivered_at: string; // Held until quiet hours end when sent during them
+  read_at: string | null; // When the other participant opened it
+}
+
+/**
+ * An announcement or circular. Recipients are worked out from the audience
+ * whenever it is read, so new staff and parents pick up live announcements.
+ */
+export interface MockAnnouncement extends AuditFields {
+  public_id: string;
+  title: string;
+  body: string;
+  audience: {
+    roles: string[]; // App roles
+    organization_role_codes: string[];
+    class_master_ids: number[];
+    class_ids: string[];
+  };
+  requires_acknowledgement: boolean;
+  publish_at: string;
+  expires_at: string | null;
+}
+
+export interface MockAnnouncementReceipt {
+  announcement_id: string;
+  user_id: string;
+  read_at: string;
+  acknowledged_at: string | null;
+}
+
+/**
+ * An in-app notification for one user, pushed to their open notification
+ * streams when it is created
+ */
+export interface MockNotification {
+  public_id: string;
+  user_id: string;
+  type: NotificationTypeValue;
+  title: string;
+  body: string;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A single-use ticket that opens one notification stream, so the access token
+ * never appears in the stream URL
+ */
+export interface MockStreamTicket {
+  user_id: string;
+  expires_at: number; // Epoch milliseconds
+}
+
+export interface MockDb {
+  organization: MockOrganization;
+  users: MockUser[];
+  organizationRoles: OrganizationRole[];
+  coreClasses: CoreClass[];
+  coreSubjects: CoreSubject[];
+  leaveTypes: LeaveType[];
+  classes: MockClass[];
+  teachers: MockTeacher[];
+  students: MockStudent[];
+  subjects: MockSubject[];
+  leaveAllocations: MockLeaveAllocation[];
+  leaveBalances: MockLeaveBalance[];
+  leaveLedgerEntries: MockLeaveLedgerEntry[];
+  leaveRequests: MockLeaveRequest[];
+  leaveApprovalWorkflows: MockLeaveApprovalWorkflow[];
+  leaveAccrualRuns: MockLeaveAccrualRun[];
+  leaveRollovers: MockLeaveRollover[];
+  holidays: MockHoliday[];
+  workingDayPolicies: MockWorkingDayPolicy[];
+  calendarExceptions: MockCalendarException[];
+  geofences: MockGeofence[];
+  staffAttendance: MockStaffAttendance[];
+  regularizations: MockRegularization[];
+  studentAttendance: MockStudentAttendance[];
+  timetablePeriods: MockTimetablePeriod[];
+  timetableEntries: MockTimetableEntry[];
+  substitutions: MockSubstitution[];
+  gradeScales: MockGradeScale[];
+  exams: MockExam[];
+  examPapers: MockExamPaper[];
+  examMarks: MockExamMark[];
+  reportCardTemplate: MockReportCardTemplate;
+  reportCardRemarks: MockReportCardRemark[];
+  assignments: MockAssignment[];
+  assignmentSubmissions: MockAssignmentSubmission[];
+  messageThreads: MockMessageThread[];
+  messages: MockMessage[];
+  announcements: MockAnnouncement[];
+  announcementReceipts: MockAnnouncementReceipt[];
+  notifications: MockNotification[];
+  preferences: Preference[];
+  /** Refresh tokens revoked through logout */
+  revokedTokens: Set<string>;
+  /** Unredeemed notification stream tickets, by ticket */
+  streamTickets: Map<string, MockStreamTicket>;
+  /** Counter behind every generated public_id */
+  sequence: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generate the next public_id. Ids come from a single counter, so the seed
+ * and everything created afterwards get the same ids on every run.
+ */
+export function nextPublicId(db: MockDb, prefix: string): string {
+  db.sequence += 1;
+  const hex = db.sequence.toString(16).padStart(12, "0");
+  return `${prefix.padEnd(8, "0").slice(0, 8)}-0000-4000-8000-${hex}`;
+}
+
+export function nowIso(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * Audit fields for a record created by `userId`
+ */
+export function createAudit(userId: string | null, at: string = nowIso()): AuditFields {
+  return { created_at: at, updated_at: at, created_by: userId, updated_by: userId };
+}
+
+/**
+ * Stamp an update on a record
+ */
+export function touch(
+  record: { updated_at: string; updated_by?: string | null },
+  userId: string | null
+): void {
+  record.updated_at = nowIso();
+  if ("updated_by" in record) {
+    record.updated_by = userId;
+  }
+}
+
+export function findUser(db: MockDb, publicId: string | null | undefined): MockUser | undefined {
+  return publicId ? db.users.find((user) => user.public_id === publicId) : undefined;
+}
+
+export function fullName(user: Pick<MockUser, "first_name" | "last_name"> | undefined): string {
+  return user ? `${user.first_name} ${user.last_name}`.trim() : "";
+}
+
+/**
+ * `created_by_*` / `updated_by_*` fields as the serializers expose them
+ */
+export function serializeAudit(db: MockDb, record: AuditFields) {
+  const createdBy = findUser(db, record.created_by);
+  const updatedBy = findUser(db, record.updated_by);
+  return {
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    created_by_public_id: createdBy?.public_id ?? null,
+    created_by_name: createdBy ? fullName(createdBy) : null,
+    updated_by_public_id: updatedBy?.public_id ?? null,
+    updated_by_name: updatedBy ? fullName(updatedBy) : null,
+  };
+}
+
+export function findOrganizationRole(db: MockDb, code: string): OrganizationRole | undefined {
+  return db.organizationRoles.find((role) => role.code === code);
+}
@@ -0,0 +1,106 @@
+/**
+ * Mock Event Stream
+ * Stand-in for `window.EventSource` while the mock backend is enabled, so the
+ * notification stream works offline. Opening the stream redeems the ticket in
+ * its query string, like the backend does, then relays the user's
+ * new notifications as `notification` events. Streams outside the API are
+ * passed through to the real EventSource.
+ */
+
+import { NOTIFICATION_STREAM_EVENT } from "@/constants/notifications";
+import { redeemStreamTicket } from "./handlers/notifications";
+import { subscribeToNotifications } from "./notifications";
+import { normalizePath } from "./router";
+import type { MockDb } from "./db";
+
+const STREAM_PATH = "/api/notifications/stream";
+/** Simulated time to open the connection, matching the fetch mock's latency */
+const CONNECT_DELAY_MS = 150;
+
+type EventHandler = ((event: Event) => void) | null;
+type MessageHandler = ((event: MessageEvent) => void) | null;
+
+/**
+ * Replace `window.EventSource` with one answered from the mock database.
+ * `isApiUrl` decides which streams belong to the mock backend.
+ */
+export function installMockEventSource(db: MockDb, isApiUrl: (url: URL) => boolean): void {
+  const OriginalEventSource = window.EventSource;
+
+  class MockEventSource extends EventTarget {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 2;
+    readonly CONNECTING = 0;
+    readonly OPEN = 1;
+    readonly CLOSED = 2;
+
+    readonly url: string = "";
+    readonly withCredentials: boolean = false;
+    readyState: number = MockEventSource.CONNECTING;
+    onopen: EventHandler = null;
+    onerror: EventHandler = null;
+    onmessage: MessageHandler = null;
+
+    private timer = 0;
+    private unsubscribe: () => void = () => {};
+
+    constructor(url: string | URL, init?: EventSourceInit) {
+      super();
+      const streamUrl = new URL(url.toString(), window.location.origin);
+      if (!isApiUrl(streamUrl)) {
+        // Hand non-API streams to the browser untouched
+        return new OriginalEventSource(url, init) as unknown as MockEventSource;
+      }
+
+      this.url = streamUrl.toString();
+      this.withCredentials = init?.withCredentials ?? false;
+      this.timer = window.setTimeout(() => this.connect(streamUrl), CONNECT_DELAY_MS);
+    }
+
+    close(): void {
+      window.clearTimeout(this.timer);
+      this.unsubscribe();
+      this.readyState = MockEventSource.CLOSED;
+    }
+
+    private connect(streamUrl: URL): void {
+      const user =
+        normalizePath(streamUrl.pathname) === STREAM_PATH
+          ? redeemStreamTicket(db, streamUrl.searchParams.get("ticket"))
+          : null;
+
+      // A refused stream closes for good, as EventSource does on a 401 or 404
+      if (!user) {
+        this.readyState = MockEventSource.CLOSED;
+        this.emit(new Event("error"));
+        return;
+      }
+
+      this.readyState = MockEventSource.OPEN;
+      this.unsubscribe = subscribeToNotifications(user.public_id, (notification) =>
+        this.emit(
+          new MessageEvent(NOTIFICATION_STREAM_EVENT, {
+            data: JSON.stringify(notification),
+            origin: streamUrl.origin,
+          })
+        )
+      );
+      this.emit(new Event("open"));
+    }
+
+    /** Dispatch to listeners and to the matching `on<type>` property */
+    private emit(event: Event): void {
+      this.dispatchEvent(event);
+      if (event.type === "open") {
+        this.onopen?.(event);
+      } else if (event.type === "error") {
+        this.onerror?.(event);
+      } else if (event.type === "message") {
+        this.onmessage?.(event as MessageEvent);
+      }
+    }
+  }
+
+  window.EventSource = MockEventSource as unknown as typeof EventSource;
+}
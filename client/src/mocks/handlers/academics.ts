@@ -0,0 +1,878 @@
+/**
+ * Mock Academics Handlers
+ * Classes (sections), teachers, subject assignments and students, including
+ * soft delete / activate, deleted-duplicate detection and the template,
+ * bulk upload and export endpoints, and the children linked to a parent.
+ */
+
+import { createAudit, findUser, fullName, nextPublicId, nowIso, touch } from "../db";
+import { applyOrdering, asPayload, getBooleanParam, matchesSearch } from "../query";
+import {
+  created,
+  file,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import {
+  countStudents,
+  findStudentUser,
+  findTeacherUser,
+  getClassLabel,
+  serializeClass,
+  serializeStudent,
+  serializeStudentDetail,
+  serializeSubject,
+  serializeTeacher,
+} from "../serializers";
+import type { MockDb, MockUser, MockUserRole } from "../db";
+import type { Payload } from "../query";
+import type { FieldErrors, MockResponse } from "../responses";
+import type { MockRequest, MockRouter } from "../router";
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+function isForceCreate(request: MockRequest): boolean {
+  return getBooleanParam(request.query, "force_create") === true;
+}
+
+/**
+ * Errors returned when the record matches a soft-deleted one; the client
+ * offers to reactivate it or to retry with `?force_create=true`
+ */
+function deletedDuplicateErrors(resource: string): FieldErrors {
+  return {
+    non_field_errors: [`A deleted ${resource} with these details already exists.`],
+    has_deleted_duplicate: ["True"],
+  };
+}
+
+function deletedDuplicate(resource: string): MockResponse {
+  const errors = deletedDuplicateErrors(resource);
+  return validationError(errors, errors.non_field_errors[0]);
+}
+
+function bulkUploadResult(resource: string): MockResponse {
+  return ok(
+    { success: true, created_count: 0, failed_count: 0, total_rows: 0, errors: [] },
+    `Spreadsheet import is not available in mock mode; no ${resource} were imported`
+  );
+}
+
+/**
+ * Create the user behind a teacher or student from the nested `user` payload
+ */
+function createPersonUser(
+  db: MockDb,
+  payload: Payload,
+  role: MockUserRole,
+  defaultRoleCode: string
+): MockUser {
+  const at = nowIso();
+  const email = String(payload.email ?? "");
+  const supervisor = db.users.find((user) => user.email === payload.supervisor_email);
+  const user: MockUser = {
+    public_id: nextPublicId(db, "user"),
+    username: String(payload.username ?? email.split("@")[0]),
+    password: "password123",
+    first_name: String(payload.first_name ?? ""),
+    last_name: String(payload.last_name ?? ""),
+    email,
+    phone: String(payload.phone ?? ""),
+    role,
+    organization_role_code: String(
+      payload.organization_role_code ?? payload.organization_role ?? defaultRoleCode
+    ),
+    gender: String(payload.gender ?? ""),
+    blood_group: payload.blood_group ? String(payload.blood_group) : undefined,
+    date_of_birth: payload.date_of_birth ? String(payload.date_of_birth) : undefined,
+    supervisor_id: supervisor?.public_id ?? db.organization.admin_id,
+    address: null,
+    is_active: true,
+    notification_opt_in: true,
+    created_at: at,
+    updated_at: at,
+  };
+  db.users.push(user);
+  return user;
+}
+
+function updatePersonUser(db: MockDb, user: MockUser, payload: Payload): void {
+  const fields = [
+    "first_name",
+    "last_name",
+    "email",
+    "phone",
+    "gender",
+    "blood_group",
+    "date_of_birth",
+  ];
+  fields.forEach((field) => {
+    if (payload[field] !== undefined) {
+      Object.assign(user, { [field]: payload[field] });
+    }
+  });
+  if (payload.organization_role !== undefined) {
+    user.organization_role_code = String(payload.organization_role);
+  }
+  if (payload.supervisor_email !== undefined) {
+    user.supervisor_id =
+      db.users.find((item) => item.email === payload.supervisor_email)?.public_id ?? null;
+  }
+  user.updated_at = nowIso();
+}
+
+function validatePersonUser(db: MockDb, payload: Payload, excludeUserId?: string): FieldErrors {
+  const errors = requireFields(payload, ["first_name", "last_name", "email"]);
+  if (
+    payload.email &&
+    db.users.some((user) => user.email === payload.email && user.public_id !== excludeUserId)
+  ) {
+    errors.email = ["A user with this email already exists."];
+  }
+  return errors;
+}
+
+/**
+ * Nest the errors for `user.*` fields the way DRF nested serializers do
+ */
+function withUserErrors(errors: FieldErrors, userErrors: FieldErrors): FieldErrors {
+  Object.entries(userErrors).forEach(([field, messages]) => {
+    errors[`user.${field}`] = messages;
+  });
+  return errors;
+}
+
+// ============================================================================
+// Classes
+// ============================================================================
+
+function validateClass(db: MockDb, payload: Payload, excludeId?: string): FieldErrors {
+  const errors = requireFields(payload, ["class_master", "name"]);
+  if (
+    payload.class_master &&
+    !db.coreClasses.some((item) => item.id === Number(payload.class_master))
+  ) {
+    errors.class_master = [`Invalid pk "${payload.class_master}" - object does not exist.`];
+  }
+  if (
+    payload.class_teacher &&
+    !db.teachers.some((item) => item.public_id === payload.class_teacher)
+  ) {
+    errors.class_teacher = ["Teacher not found."];
+  }
+  if (payload.capacity !== undefined && payload.capacity !== null && Number(payload.capacity) < 1) {
+    errors.capacity = ["Ensure this value is greater than or equal to 1."];
+  }
+  const duplicate = db.classes.find(
+    (item) =>
+      item.public_id !== excludeId &&
+      !item.is_deleted &&
+      item.class_master_id === Number(payload.class_master) &&
+      item.name.toLowerCase() === String(payload.name ?? "").toLowerCase()
+  );
+  if (duplicate) {
+    errors.non_field_errors = ["A class with this name already exists for this grade."];
+  }
+  return errors;
+}
+
+function createClassRecord(request: MockRequest, payload: Payload): FieldErrors | string {
+  const { db, user } = request;
+  const errors = validateClass(db, payload);
+  if (hasErrors(errors)) {
+    return errors;
+  }
+
+  const hasDeletedDuplicate = db.classes.some(
+    (item) =>
+      item.is_deleted &&
+      item.class_master_id === Number(payload.class_master) &&
+      item.name.toLowerCase() === String(payload.name).toLowerCase()
+  );
+  if (hasDeletedDuplicate && !isForceCreate(request)) {
+    return deletedDuplicateErrors("class");
+  }
+
+  const publicId = nextPublicId(db, "class");
+  db.classes.push({
+    public_id: publicId,
+    class_master_id: Number(payload.class_master),
+    name: String(payload.name),
+    class_teacher_id: payload.class_teacher ? String(payload.class_teacher) : null,
+    info: payload.info ? String(payload.info) : null,
+    capacity: payload.capacity ? Number(payload.capacity) : null,
+    is_deleted: false,
+    ...createAudit(user?.public_id ?? null),
+  });
+  return publicId;
+}
+
+function registerClassHandlers(router: MockRouter): void {
+  router.get("/api/classes/admin/", ({ db, query }) => {
+    const isDeleted = getBooleanParam(query, "is_deleted") ?? false;
+    const classMaster = query.get("class_master");
+    const classTeacher = query.get("class_teacher");
+
+    const classes = db.classes
+      .filter((item) => item.is_deleted === isDeleted)
+      .filter((item) => !classMaster || item.class_master_id === Number(classMaster))
+      .filter((item) => !classTeacher || item.class_teacher_id === classTeacher)
+      .map((item) => serializeClass(db, item))
+      .filter((item) =>
+        matchesSearch(query, [
+          item.name,
+          item.class_master.name,
+          item.class_teacher?.full_name,
+          item.info,
+        ])
+      );
+
+    const ordered = applyOrdering(
+      classes,
+      query,
+      (item, field) => (field === "name" ? item.name : item.class_master.display_order),
+      "class_master__display_order"
+    );
+    return paginated(ordered, query);
+  });
+
+  router.post("/api/classes/admin/", (request) => {
+    const { db, body } = request;
+
+    if (Array.isArray(body)) {
+      const results = body.map((item) => createClassRecord(request, asPayload(item)));
+      const failures = results.filter(
+        (result): result is FieldErrors => typeof result !== "string"
+      );
+      if (failures.length > 0) {
+        // Nothing is saved when any row fails, like the backend's atomic bulk create
+        const createdIds = results.filter((result): result is string => typeof result === "string");
+        db.classes = db.classes.filter((item) => !createdIds.includes(item.public_id));
+        return validationError({ detail: failures }, "Failed to create classes");
+      }
+
+      const createdClasses = db.classes
+        .filter((item) => results.includes(item.public_id))
+        .map((item) => serializeClass(db, item));
+      return created(createdClasses, `${createdClasses.length} classes created successfully`);
+    }
+
+    const result = createClassRecord(request, asPayload(body));
+    if (typeof result !== "string") {
+      return validationError(result);
+    }
+    const masterClass = db.classes.find((item) => item.public_id === result);
+    return created(masterClass && serializeClass(db, masterClass), "Class created successfully");
+  });
+
+  router.get("/api/classes/admin/download-template/", () =>
+    file("class_master,name,class_teacher_email,info,capacity\n", "classes_template.csv")
+  );
+
+  router.post("/api/classes/admin/bulk-upload/", () => bulkUploadResult("classes"));
+
+  router.get("/api/classes/admin/:publicId/", ({ db, params }) => {
+    const masterClass = db.classes.find((item) => item.public_id === params.publicId);
+    return masterClass ? ok(serializeClass(db, masterClass)) : notFound("Class");
+  });
+
+  router.patch("/api/classes/admin/:publicId/", ({ db, params, body, user }) => {
+    const masterClass = db.classes.find((item) => item.public_id === params.publicId);
+    if (!masterClass) {
+      return notFound("Class");
+    }
+
+    const payload = asPayload(body);
+    const errors = validateClass(
+      db,
+      {
+        class_master: masterClass.class_master_id,
+        name: masterClass.name,
+        ...payload,
+      },
+      masterClass.public_id
+    );
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    if (payload.class_master !== undefined) {
+      masterClass.class_master_id = Number(payload.class_master);
+    }
+    if (payload.name !== undefined) {
+      masterClass.name = String(payload.name);
+    }
+    if (payload.class_teacher !== undefined) {
+      masterClass.class_teacher_id = payload.class_teacher ? String(payload.class_teacher) : null;
+    }
+    if (payload.info !== undefined) {
+      masterClass.info = payload.info ? String(payload.info) : null;
+    }
+    if (payload.capacity !== undefined) {
+      masterClass.capacity = payload.capacity ? Number(payload.capacity) : null;
+    }
+    touch(masterClass, user?.public_id ?? null);
+    return ok(serializeClass(db, masterClass), "Class updated successfully");
+  });
+
+  router.delete("/api/classes/admin/:publicId/", ({ db, params, user }) => {
+    const masterClass = db.classes.find((item) => item.public_id === params.publicId);
+    if (!masterClass || masterClass.is_deleted) {
+      return notFound("Class");
+    }
+    if (countStudents(db, masterClass.public_id) > 0) {
+      return validationError(
+        { non_field_errors: ["Cannot delete a class that still has students."] },
+        "Cannot delete a class that still has students."
+      );
+    }
+    masterClass.is_deleted = true;
+    touch(masterClass, user?.public_id ?? null);
+    return ok(null, "Class deleted successfully");
+  });
+
+  router.post("/api/classes/admin/:publicId/activate/", ({ db, params, user }) => {
+    const masterClass = db.classes.find((item) => item.public_id === params.publicId);
+    if (!masterClass) {
+      return notFound("Class");
+    }
+    masterClass.is_deleted = false;
+    touch(masterClass, user?.public_id ?? null);
+    return ok(serializeClass(db, masterClass), "Class activated successfully");
+  });
+}
+
+// ============================================================================
+// Teachers
+// ============================================================================
+
+function registerTeacherHandlers(router: MockRouter): void {
+  router.get("/api/teacher/admin/", ({ db, query }) => {
+    const isDeleted = getBooleanParam(query, "is_deleted") ?? false;
+    const specialization = query.get("specialization");
+    const designation = query.get("designation");
+
+    const teachers = db.teachers
+      .filter((item) => item.is_deleted === isDeleted)
+      .filter((item) => !specialization || item.specialization === specialization)
+      .filter((item) => !designation || item.designation === designation)
+      .filter((item) => {
+        const user = findTeacherUser(db, item);
+        return matchesSearch(query, [fullName(user), user.email, item.employee_id, user.phone]);
+      })
+      .map((item) => serializeTeacher(db, item));
+
+    return paginated(teachers, query);
+  });
+
+  router.post("/api/teacher/admin/", (request) => {
+    const { db, body, user } = request;
+    const payload = asPayload(body);
+    const userPayload = asPayload(payload.user);
+
+    const errors = withUserErrors(
+      requireFields(payload, ["employee_id"]),
+      validatePersonUser(db, userPayload)
+    );
+    const duplicate = db.teachers.find((item) => item.employee_id === payload.employee_id);
+    if (duplicate && !duplicate.is_deleted) {
+      errors.employee_id = ["A teacher with this employee ID already exists."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    if (duplicate?.is_deleted && !isForceCreate(request)) {
+      return deletedDuplicate("teacher");
+    }
+
+    const teacherUser = createPersonUser(db, userPayload, "teacher", "TEACHER");
+    const teacher = {
+      public_id: nextPublicId(db, "teacher"),
+      user_id: teacherUser.public_id,
+      employee_id: String(payload.employee_id),
+      highest_qualification: String(payload.highest_qualification ?? ""),
+      joining_date: String(payload.joining_date ?? ""),
+      specialization: String(payload.specialization ?? ""),
+      designation: String(payload.designation ?? ""),
+      experience_years: Number(payload.experience_years ?? 0),
+      subject_ids: Array.isArray(payload.subjects) ? payload.subjects.map(Number) : [],
+      emergency_contact_name: String(payload.emergency_contact_name ?? ""),
+      emergency_contact_number: String(payload.emergency_contact_number ?? ""),
+      is_deleted: false,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.teachers.push(teacher);
+    return created(serializeTeacher(db, teacher), "Teacher created successfully");
+  });
+
+  router.get("/api/teacher/admin/download-template/", () =>
+    file(
+      "employee_id,first_name,last_name,email,phone,gender,designation,specialization,joining_date\n",
+      "teachers_template.csv"
+    )
+  );
+
+  router.post("/api/teacher/admin/bulk-upload/", () => bulkUploadResult("teachers"));
+
+  router.get("/api/teacher/admin/:publicId/", ({ db, params }) => {
+    const teacher = db.teachers.find((item) => item.public_id === params.publicId);
+    return teacher ? ok(serializeTeacher(db, teacher)) : notFound("Teacher");
+  });
+
+  router.patch("/api/teacher/admin/:publicId/", ({ db, params, body, user }) => {
+    const teacher = db.teachers.find((item) => item.public_id === params.publicId);
+    if (!teacher) {
+      return notFound("Teacher");
+    }
+
+    const payload = asPayload(body);
+    const teacherUser = findTeacherUser(db, teacher);
+    const errors: FieldErrors = {};
+    if (
+      payload.employee_id &&
+      db.teachers.some((item) => item.employee_id === payload.employee_id && item !== teacher)
+    ) {
+      errors.employee_id = ["A teacher with this employee ID already exists."];
+    }
+    const userPayload = asPayload(payload.user);
+    if (
+      userPayload.email &&
+      db.users.some((item) => item.email === userPayload.email && item !== teacherUser)
+    ) {
+      errors["user.email"] = ["A user with this email already exists."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const fields = [
+      "employee_id",
+      "highest_qualification",
+      "joining_date",
+      "specialization",
+      "designation",
+      "experience_years",
+      "emergency_contact_name",
+      "emergency_contact_number",
+    ];
+    fields.forEach((field) => {
+      if (payload[field] !== undefined) {
+        Object.assign(teacher, { [field]: payload[field] });
+      }
+    });
+    if (Array.isArray(payload.subjects)) {
+      teacher.subject_ids = payload.subjects.map(Number);
+    }
+    if (payload.user) {
+      updatePersonUser(db, teacherUser, userPayload);
+    }
+    touch(teacher, user?.public_id ?? null);
+    return ok(serializeTeacher(db, teacher), "Teacher updated successfully");
+  });
+
+  router.delete("/api/teacher/admin/:publicId/", ({ db, params, user }) => {
+    const teacher = db.teachers.find((item) => item.public_id === params.publicId);
+    if (!teacher || teacher.is_deleted) {
+      return notFound("Teacher");
+    }
+    teacher.is_deleted = true;
+    findTeacherUser(db, teacher).is_active = false;
+    touch(teacher, user?.public_id ?? null);
+    return ok(null, "Teacher deleted successfully");
+  });
+
+  router.post("/api/teacher/admin/:publicId/activate/", ({ db, params, user }) => {
+    const teacher = db.teachers.find((item) => item.public_id === params.publicId);
+    if (!teacher) {
+      return notFound("Teacher");
+    }
+    teacher.is_deleted = false;
+    findTeacherUser(db, teacher).is_active = true;
+    touch(teacher, user?.public_id ?? null);
+    return ok(serializeTeacher(db, teacher), "Teacher activated successfully");
+  });
+}
+
+// ============================================================================
+// Subjects
+// ============================================================================
+
+function registerSubjectHandlers(router: MockRouter): void {
+  router.get("/api/subjects/", ({ db, query }) => {
+    const isDeleted = getBooleanParam(query, "is_deleted") ?? false;
+    const classId = query.get("class_assigned__public_id");
+    const subjectId = query.get("subject_master__id");
+    const teacherId = query.get("teacher__public_id");
+
+    const subjects = db.subjects
+      .filter((item) => item.is_deleted === isDeleted)
+      .filter((item) => !classId || item.class_id === classId)
+      .filter((item) => !subjectId || item.subject_id === Number(subjectId))
+      .filter((item) => !teacherId || item.teacher_id === teacherId)
+      .map((item) => serializeSubject(db, item))
+      .filter((item) =>
+        matchesSearch(query, [
+          item.subject_info.name,
+          item.subject_info.code,
+          item.teacher_info.full_name,
+          item.class_info.class_master_name,
+        ])
+      );
+
+    return paginated(subjects, query);
+  });
+
+  router.post("/api/subjects/", (request) => {
+    const { db, body, user } = request;
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["class_id", "subject_id", "teacher_id"]);
+    if (payload.class_id && !db.classes.some((item) => item.public_id === payload.class_id)) {
+      errors.class_id = ["Class not found."];
+    }
+    if (
+      payload.subject_id &&
+      !db.coreSubjects.some((item) => item.id === Number(payload.subject_id))
+    ) {
+      errors.subject_id = ["Subject not found."];
+    }
+    if (payload.teacher_id && !db.teachers.some((item) => item.public_id === payload.teacher_id)) {
+      errors.teacher_id = ["Teacher not found."];
+    }
+
+    const duplicate = db.subjects.find(
+      (item) => item.class_id === payload.class_id && item.subject_id === Number(payload.subject_id)
+    );
+    if (duplicate && !duplicate.is_deleted) {
+      errors.non_field_errors = ["This subject is already assigned to the class."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    if (duplicate?.is_deleted && !isForceCreate(request)) {
+      return deletedDuplicate("subject assignment");
+    }
+
+    const subject = {
+      public_id: nextPublicId(db, "csubject"),
+      class_id: String(payload.class_id),
+      subject_id: Number(payload.subject_id),
+      teacher_id: String(payload.teacher_id),
+      description: String(payload.description ?? ""),
+      is_deleted: false,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.subjects.push(subject);
+    return created(serializeSubject(db, subject), "Subject assigned successfully");
+  });
+
+  router.get("/api/subjects/download_template/", () =>
+    file("class,subject_code,teacher_employee_id,description\n", "subjects_template.csv")
+  );
+
+  router.post("/api/subjects/bulk_upload/", () => bulkUploadResult("subjects"));
+
+  router.get("/api/subjects/:publicId/", ({ db, params }) => {
+    const subject = db.subjects.find((item) => item.public_id === params.publicId);
+    return subject ? ok(serializeSubject(db, subject)) : notFound("Subject");
+  });
+
+  router.patch("/api/subjects/:publicId/", ({ db, params, body, user }) => {
+    const subject = db.subjects.find((item) => item.public_id === params.publicId);
+    if (!subject) {
+      return notFound("Subject");
+    }
+    const payload = asPayload(body);
+    if (payload.teacher_id && !db.teachers.some((item) => item.public_id === payload.teacher_id)) {
+      return validationError({ teacher_id: ["Teacher not found."] });
+    }
+    if (payload.teacher_id) {
+      subject.teacher_id = String(payload.teacher_id);
+    }
+    if (payload.description !== undefined) {
+      subject.description = String(payload.description);
+    }
+    touch(subject, user?.public_id ?? null);
+    return ok(serializeSubject(db, subject), "Subject updated successfully");
+  });
+
+  router.delete("/api/subjects/:publicId/", ({ db, params, user }) => {
+    const subject = db.subjects.find((item) => item.public_id === params.publicId);
+    if (!subject || subject.is_deleted) {
+      return notFound("Subject");
+    }
+    subject.is_deleted = true;
+    touch(subject, user?.public_id ?? null);
+    return ok(null, "Subject deleted successfully");
+  });
+
+  router.post("/api/subjects/:publicId/activate/", ({ db, params, user }) => {
+    const subject = db.subjects.find((item) => item.public_id === params.publicId);
+    if (!subject) {
+      return notFound("Subject");
+    }
+    subject.is_deleted = false;
+    touch(subject, user?.public_id ?? null);
+    return ok(serializeSubject(db, subject), "Subject activated successfully");
+  });
+}
+
+// ============================================================================
+// Students
+// ============================================================================
+
+const STUDENT_FIELDS = [
+  "roll_number",
+  "admission_number",
+  "admission_date",
+  "guardian_name",
+  "guardian_phone",
+  "guardian_email",
+  "guardian_relationship",
+  "description",
+  "medical_conditions",
+  "emergency_contact_name",
+  "emergency_contact_phone",
+  "previous_school_name",
+  "previous_school_address",
+  "previous_school_class",
+] as const;
+
+function findClassStudent(db: MockDb, classId: string, publicId: string) {
+  return db.students.find((item) => item.public_id === publicId && item.class_id === classId);
+}
+
+function validateStudent(
+  db: MockDb,
+  classId: string,
+  payload: Payload,
+  excludeId?: string
+): FieldErrors {
+  const errors: FieldErrors = {};
+  const siblings = db.students.filter(
+    (item) => item.class_id === classId && !item.is_deleted && item.public_id !== excludeId
+  );
+  if (payload.roll_number && siblings.some((item) => item.roll_number === payload.roll_number)) {
+    errors.roll_number = ["A student with this roll number already exists in the class."];
+  }
+  if (
+    payload.admission_number &&
+    db.students.some(
+      (item) => item.admission_number === payload.admission_number && item.public_id !== excludeId
+    )
+  ) {
+    errors.admission_number = ["A student with this admission number already exists."];
+  }
+  return errors;
+}
+
+function registerStudentHandlers(router: MockRouter): void {
+  router.get("/api/students/", ({ db, query }) => {
+    const isDeleted = getBooleanParam(query, "is_deleted") ?? false;
+    const classId = query.get("class_id");
+    const classMasterId = query.get("class_master_id");
+
+    const students = db.students
+      .filter((item) => item.is_deleted === isDeleted)
+      .filter((item) => !classId || item.class_id === classId)
+      .filter(
+        (item) =>
+          !classMasterId ||
+          db.classes.some(
+            (masterClass) =>
+              masterClass.public_id === item.class_id &&
+              masterClass.class_master_id === Number(classMasterId)
+          )
+      )
+      .filter((item) => {
+        const user = findStudentUser(db, item);
+        return matchesSearch(query, [
+          fullName(user),
+          user.email,
+          item.roll_number,
+          item.admission_number,
+          item.guardian_name,
+        ]);
+      });
+
+    const ordered = applyOrdering(students, query, (item) => item.roll_number, "roll_number");
+    return paginated(
+      ordered.map((item) => serializeStudent(db, item)),
+      query
+    );
+  });
+
+  router.post("/api/students/classes/:classId/students/", (request) => {
+    const { db, params, body, user } = request;
+    const masterClass = db.classes.find((item) => item.public_id === params.classId);
+    if (!masterClass) {
+      return notFound("Class");
+    }
+
+    const payload = asPayload(body);
+    const userPayload = asPayload(payload.user);
+    const errors = withUserErrors(
+      {
+        ...requireFields(payload, ["roll_number", "admission_number", "admission_date"]),
+        ...validateStudent(db, masterClass.public_id, payload),
+      },
+      validatePersonUser(db, userPayload)
+    );
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    if (masterClass.capacity && countStudents(db, masterClass.public_id) >= masterClass.capacity) {
+      return validationError(
+        { non_field_errors: [`${getClassLabel(db, masterClass)} is full.`] },
+        `${getClassLabel(db, masterClass)} is full.`
+      );
+    }
+
+    const studentUser = createPersonUser(db, userPayload, "student", "STUDENT");
+    const student = {
+      public_id: nextPublicId(db, "student"),
+      user_id: studentUser.public_id,
+      class_id: masterClass.public_id,
+      roll_number: "",
+      admission_number: "",
+      admission_date: "",
+      guardian_name: "",
+      guardian_phone: "",
+      guardian_email: "",
+      guardian_relationship: "",
+      description: "",
+      medical_conditions: "",
+      emergency_contact_name: "",
+      emergency_contact_phone: "",
+      previous_school_name: "",
+      previous_school_address: "",
+      previous_school_class: "",
+      is_deleted: false,
+      ...createAudit(user?.public_id ?? null),
+    };
+    STUDENT_FIELDS.forEach((field) => {
+      if (payload[field] !== undefined) {
+        student[field] = String(payload[field]);
+      }
+    });
+    db.students.push(student);
+    return created(serializeStudentDetail(db, student), "Student created successfully");
+  });
+
+  router.get("/api/students/children/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+    return ok(children.map((student) => serializeStudentDetail(db, student)));
+  });
+
+  router.get("/api/students/classes/:classId/students/:publicId/", ({ db, params }) => {
+    const student = findClassStudent(db, params.classId, params.publicId);
+    return student ? ok(serializeStudentDetail(db, student)) : notFound("Student");
+  });
+
+  router.patch(
+    "/api/students/classes/:classId/students/:publicId/",
+    ({ db, params, body, user }) => {
+      const student = findClassStudent(db, params.classId, params.publicId);
+      if (!student) {
+        return notFound("Student");
+      }
+
+      const payload = asPayload(body);
+      const studentUser = findUser(db, student.user_id);
+      const userPayload = asPayload(payload.user);
+      const errors = validateStudent(db, student.class_id, payload, student.public_id);
+      if (
+        userPayload.email &&
+        db.users.some((item) => item.email === userPayload.email && item !== studentUser)
+      ) {
+        errors["user.email"] = ["A user with this email already exists."];
+      }
+      if (hasErrors(errors)) {
+        return validationError(errors);
+      }
+
+      STUDENT_FIELDS.forEach((field) => {
+        if (payload[field] !== undefined) {
+          student[field] = String(payload[field]);
+        }
+      });
+      if (studentUser && payload.user) {
+        updatePersonUser(db, studentUser, userPayload);
+      }
+      touch(student, user?.public_id ?? null);
+      return ok(serializeStudentDetail(db, student), "Student updated successfully");
+    }
+  );
+
+  router.delete("/api/students/classes/:classId/students/:publicId/", ({ db, params, user }) => {
+    const student = findClassStudent(db, params.classId, params.publicId);
+    if (!student || student.is_deleted) {
+      return notFound("Student");
+    }
+    student.is_deleted = true;
+    touch(student, user?.public_id ?? null);
+    return ok(null, "Student deleted successfully");
+  });
+
+  router.post(
+    "/api/students/classes/:classId/students/:publicId/activate/",
+    ({ db, params, user }) => {
+      const student = findClassStudent(db, params.classId, params.publicId);
+      if (!student) {
+        return notFound("Student");
+      }
+      student.is_deleted = false;
+      touch(student, user?.public_id ?? null);
+      return ok(serializeStudentDetail(db, student), "Student activated successfully");
+    }
+  );
+
+  router.post("/api/students/bulk-operations/bulk_upload/", () => bulkUploadResult("students"));
+
+  router.get("/api/students/bulk-operations/download_template/", () =>
+    file(
+      "roll_number,admission_number,admission_date,first_name,last_name,email,phone,gender,date_of_birth,guardian_name,guardian_phone\n",
+      "students_template.csv"
+    )
+  );
+
+  router.post("/api/students/bulk-operations/export_students_data/", ({ db, query }) => {
+    const classId = query.get("class_id");
+    const rows = db.students
+      .filter((item) => !item.is_deleted && (!classId || item.class_id === classId))
+      .map((item) => {
+        const student = serializeStudent(db, item);
+        return [
+          student.class_info.class_master_name,
+          student.class_info.name,
+          student.roll_number,
+          student.admission_number,
+          student.user_info.full_name,
+          student.guardian_name ?? "",
+        ].join(",");
+      });
+    return file(
+      ["class,section,roll_number,admission_number,full_name,guardian_name", ...rows].join("\n"),
+      "students_export.csv"
+    );
+  });
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+export function registerAcademicsHandlers(router: MockRouter): void {
+  registerClassHandlers(router);
+  registerTeacherHandlers(router);
+  registerSubjectHandlers(router);
+  registerStudentHandlers(router);
+}
@@ -0,0 +1,547 @@
+/**
+ * Mock Announcement Handlers
+ * Announcements and circulars addressed to app roles, organization roles,
+ * whole classes or single sections, with scheduled publishing and expiry.
+ * Status and recipients are worked out on every call, so scheduled
+ * announcements go live and expire without a job. A receipt is stored when a
+ * recipient opens an announcement, and updated when they acknowledge it.
+ * Recipients get a notification when an announcement is published straight
+ * away; scheduled ones simply appear on their dashboard when they go live.
+ */
+
+import {
+  AnnouncementAudienceRoles,
+  AnnouncementStatus,
+  ReceiptStatus,
+} from "@/constants/announcements";
+import type { AnnouncementStatusValue, ReceiptStatusValue } from "@/constants/announcements";
+import { NotificationType } from "@/constants/notifications";
+import type {
+  Announcement,
+  AnnouncementReceipt,
+  ReceivedAnnouncement,
+} from "@/lib/api/announcement-api";
+import { ORGANIZATION_ROLE_CODES } from "@/lib/constants/organization-roles";
+import {
+  createAudit,
+  findOrganizationRole,
+  findUser,
+  fullName,
+  nextPublicId,
+  nowIso,
+  serializeAudit,
+  touch,
+} from "../db";
+import { notify } from "../notifications";
+import { asPayload, matchesSearch } from "../query";
+import {
+  created,
+  forbidden,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import { findStudentUser, serializeClassInfo } from "../serializers";
+import type { MockAnnouncement, MockAnnouncementReceipt, MockDb, MockUser } from "../db";
+import type { Payload } from "../query";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+/** Organization roles that may send announcements, as for announcements.manage */
+const SCHOOL_LEADERSHIP_CODES: string[] = [
+  ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+];
+
+/** App roles that sign in and so can receive announcements */
+const AUDIENCE_ROLES: string[] = AnnouncementAudienceRoles.map((role) => role.value);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function canManage(user: MockUser | null): boolean {
+  return (
+    user?.role === "admin" || SCHOOL_LEADERSHIP_CODES.includes(user?.organization_role_code ?? "")
+  );
+}
+
+function getStatus(announcement: MockAnnouncement): AnnouncementStatusValue {
+  const now = nowIso();
+  if (announcement.publish_at > now) {
+    return AnnouncementStatus.SCHEDULED;
+  }
+  if (announcement.expires_at && announcement.expires_at <= now) {
+    return AnnouncementStatus.EXPIRED;
+  }
+  return AnnouncementStatus.PUBLISHED;
+}
+
+/**
+ * Sections the announcement reaches: those picked one by one plus every
+ * section of the picked classes
+ */
+function getAudienceClassIds(db: MockDb, announcement: MockAnnouncement): Set<string> {
+  const { class_ids, class_master_ids } = announcement.audience;
+  return new Set(
+    db.classes
+      .filter(
+        (item) =>
+          !item.is_deleted &&
+          (class_ids.includes(item.public_id) || class_master_ids.includes(item.class_master_id))
+      )
+      .map((item) => item.public_id)
+  );
+}
+
+/**
+ * Sections a teacher is class teacher of or teaches a subject in
+ */
+function getTeacherClassIds(db: MockDb, user: MockUser): string[] {
+  const teacher = db.teachers.find((item) => item.user_id === user.public_id && !item.is_deleted);
+  if (!teacher) {
+    return [];
+  }
+  return [
+    ...db.classes
+      .filter((item) => item.class_teacher_id === teacher.public_id)
+      .map((item) => item.public_id),
+    ...db.subjects
+      .filter((item) => item.teacher_id === teacher.public_id && !item.is_deleted)
+      .map((item) => item.class_id),
+  ];
+}
+
+function findChildren(db: MockDb, user: MockUser) {
+  return db.students.filter(
+    (student) => student.guardian_email === user.email && !student.is_deleted
+  );
+}
+
+function isRecipient(db: MockDb, announcement: MockAnnouncement, user: MockUser): boolean {
+  const { audience } = announcement;
+  if (
+    !user.is_active ||
+    !AUDIENCE_ROLES.includes(user.role) ||
+    user.public_id === announcement.created_by
+  ) {
+    return false;
+  }
+  if (
+    audience.roles.includes(user.role) ||
+    audience.organization_role_codes.includes(user.organization_role_code)
+  ) {
+    return true;
+  }
+
+  const classIds = getAudienceClassIds(db, announcement);
+  if (classIds.size === 0) {
+    return false;
+  }
+  if (user.role === "teacher") {
+    return getTeacherClassIds(db, user).some((classId) => classIds.has(classId));
+  }
+  if (user.role === "parent") {
+    return findChildren(db, user).some((student) => classIds.has(student.class_id));
+  }
+  return false;
+}
+
+function getRecipients(db: MockDb, announcement: MockAnnouncement): MockUser[] {
+  return db.users.filter((user) => isRecipient(db, announcement, user));
+}
+
+function notifyRecipients(db: MockDb, announcement: MockAnnouncement): void {
+  notify(
+    db,
+    getRecipients(db, announcement).map((user) => user.public_id),
+    {
+      type: NotificationType.ANNOUNCEMENT,
+      title: announcement.title,
+      body: announcement.body,
+      link: "/dashboard",
+    }
+  );
+}
+
+function findReceipt(
+  db: MockDb,
+  announcementId: string,
+  userId: string
+): MockAnnouncementReceipt | undefined {
+  return db.announcementReceipts.find(
+    (item) => item.announcement_id === announcementId && item.user_id === userId
+  );
+}
+
+function getReceiptStatus(receipt: MockAnnouncementReceipt | undefined): ReceiptStatusValue {
+  if (receipt?.acknowledged_at) {
+    return ReceiptStatus.ACKNOWLEDGED;
+  }
+  return receipt ? ReceiptStatus.READ : ReceiptStatus.UNREAD;
+}
+
+/**
+ * Readable audience, e.g. ["Parents", "HOD", "Class 5 (all sections)", "Class 6 - A"]
+ */
+function getAudienceLabels(db: MockDb, announcement: MockAnnouncement): string[] {
+  const { audience } = announcement;
+  return [
+    ...AnnouncementAudienceRoles.filter((role) => audience.roles.includes(role.value)).map(
+      (role) => role.label
+    ),
+    ...audience.organization_role_codes.map((code) => findOrganizationRole(db, code)?.name ?? code),
+    ...audience.class_master_ids.map((id) => {
+      const coreClass = db.coreClasses.find((item) => item.id === id);
+      return `${coreClass?.name ?? id} (all sections)`;
+    }),
+    ...audience.class_ids.map((classId) => {
+      const classInfo = serializeClassInfo(
+        db,
+        db.classes.find((item) => item.public_id === classId)
+      );
+      return `${classInfo.class_master_name} - ${classInfo.name}`;
+    }),
+  ];
+}
+
+/**
+ * What tells recipients with the same name apart: a parent's children, or
+ * the organization role of staff
+ */
+function getRecipientDetail(db: MockDb, user: MockUser): string {
+  if (user.role === "parent") {
+    return findChildren(db, user)
+      .map((student) => {
+        const classInfo = serializeClassInfo(
+          db,
+          db.classes.find((item) => item.public_id === student.class_id)
+        );
+        return `${fullName(findStudentUser(db, student))} (${classInfo.class_master_name} - ${classInfo.name})`;
+      })
+      .join(", ");
+  }
+  return findOrganizationRole(db, user.organization_role_code)?.name ?? "";
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeAnnouncement(db: MockDb, announcement: MockAnnouncement): Announcement {
+  const receipts = getRecipients(db, announcement).map((user) =>
+    findReceipt(db, announcement.public_id, user.public_id)
+  );
+
+  return {
+    public_id: announcement.public_id,
+    title: announcement.title,
+    body: announcement.body,
+    audience: {
+      roles: [...announcement.audience.roles],
+      organization_role_codes: [...announcement.audience.organization_role_codes],
+      class_master_ids: [...announcement.audience.class_master_ids],
+      class_ids: [...announcement.audience.class_ids],
+    },
+    audience_labels: getAudienceLabels(db, announcement),
+    requires_acknowledgement: announcement.requires_acknowledgement,
+    publish_at: announcement.publish_at,
+    expires_at: announcement.expires_at,
+    status: getStatus(announcement),
+    recipient_count: receipts.length,
+    read_count: receipts.filter((receipt) => !!receipt).length,
+    acknowledged_count: receipts.filter((receipt) => !!receipt?.acknowledged_at).length,
+    ...serializeAudit(db, announcement),
+  };
+}
+
+function serializeReceipt(
+  db: MockDb,
+  announcement: MockAnnouncement,
+  user: MockUser
+): AnnouncementReceipt {
+  const receipt = findReceipt(db, announcement.public_id, user.public_id);
+  return {
+    user: {
+      public_id: user.public_id,
+      full_name: fullName(user),
+      role: user.role,
+      detail: getRecipientDetail(db, user),
+    },
+    status: getReceiptStatus(receipt),
+    read_at: receipt?.read_at ?? null,
+    acknowledged_at: receipt?.acknowledged_at ?? null,
+  };
+}
+
+function serializeReceived(
+  db: MockDb,
+  user: MockUser | null,
+  announcement: MockAnnouncement
+): ReceivedAnnouncement {
+  const receipt = findReceipt(db, announcement.public_id, user?.public_id ?? "");
+  return {
+    public_id: announcement.public_id,
+    title: announcement.title,
+    body: announcement.body,
+    sender_name: fullName(findUser(db, announcement.created_by)),
+    requires_acknowledgement: announcement.requires_acknowledgement,
+    publish_at: announcement.publish_at,
+    expires_at: announcement.expires_at,
+    read_at: receipt?.read_at ?? null,
+    acknowledged_at: receipt?.acknowledged_at ?? null,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function toAudience(payload: Payload): MockAnnouncement["audience"] {
+  const audience =
+    payload.audience && typeof payload.audience === "object"
+      ? (payload.audience as Record<string, unknown>)
+      : {};
+  return {
+    roles: toStringList(audience.roles),
+    organization_role_codes: toStringList(audience.organization_role_codes),
+    class_master_ids: toStringList(audience.class_master_ids).map(Number),
+    class_ids: toStringList(audience.class_ids),
+  };
+}
+
+function validateAnnouncement(
+  db: MockDb,
+  payload: Payload,
+  audience: MockAnnouncement["audience"],
+  publishAt: string
+): FieldErrors {
+  const errors = requireFields(payload, ["title", "body"]);
+
+  if (
+    audience.roles.length +
+      audience.organization_role_codes.length +
+      audience.class_master_ids.length +
+      audience.class_ids.length ===
+    0
+  ) {
+    errors.audience = ["Choose at least one role, organization role, class or section."];
+  } else if (
+    audience.roles.some((role) => !AUDIENCE_ROLES.includes(role)) ||
+    audience.organization_role_codes.some((code) => !findOrganizationRole(db, code)) ||
+    audience.class_master_ids.some((id) => !db.coreClasses.some((item) => item.id === id)) ||
+    audience.class_ids.some(
+      (classId) => !db.classes.some((item) => item.public_id === classId && !item.is_deleted)
+    )
+  ) {
+    errors.audience = ["The audience includes a role, class or section that does not exist."];
+  }
+  if (payload.expires_at && String(payload.expires_at) <= publishAt) {
+    errors.expires_at = ["Must expire after it is published."];
+  }
+  return errors;
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerAnnouncementHandlers(router: MockRouter): void {
+  router.get("/api/announcements/", ({ db, query, user }) => {
+    if (!canManage(user)) {
+      return forbidden("Only admins and school leadership can manage announcements.");
+    }
+
+    const status = query.get("status");
+    const items = db.announcements
+      .filter((announcement) => !status || getStatus(announcement) === status)
+      .filter((announcement) => matchesSearch(query, [announcement.title, announcement.body]))
+      .sort((a, b) => b.publish_at.localeCompare(a.publish_at))
+      .map((announcement) => serializeAnnouncement(db, announcement));
+    return paginated(items, query);
+  });
+
+  router.post("/api/announcements/", ({ db, body, user }) => {
+    if (!canManage(user)) {
+      return forbidden("Only admins and school leadership can send announcements.");
+    }
+
+    const payload = asPayload(body);
+    const audience = toAudience(payload);
+    const publishAt = payload.publish_at ? String(payload.publish_at) : nowIso();
+    const errors = validateAnnouncement(db, payload, audience, publishAt);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const announcement: MockAnnouncement = {
+      public_id: nextPublicId(db, "announce"),
+      title: String(payload.title).trim(),
+      body: String(payload.body).trim(),
+      audience,
+      requires_acknowledgement: !!payload.requires_acknowledgement,
+      publish_at: publishAt,
+      expires_at: payload.expires_at ? String(payload.expires_at) : null,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.announcements.push(announcement);
+    if (getStatus(announcement) === AnnouncementStatus.PUBLISHED) {
+      notifyRecipients(db, announcement);
+    }
+    return created(
+      serializeAnnouncement(db, announcement),
+      getStatus(announcement) === AnnouncementStatus.SCHEDULED
+        ? "Announcement scheduled successfully"
+        : "Announcement published successfully"
+    );
+  });
+
+  router.get("/api/announcements/received/", ({ db, user }) =>
+    ok(
+      db.announcements
+        .filter(
+          (announcement) =>
+            !!user &&
+            getStatus(announcement) === AnnouncementStatus.PUBLISHED &&
+            isRecipient(db, announcement, user)
+        )
+        .sort((a, b) => b.publish_at.localeCompare(a.publish_at))
+        .map((announcement) => serializeReceived(db, user, announcement))
+    )
+  );
+
+  router.patch("/api/announcements/:publicId/", ({ db, params, body, user }) => {
+    const announcement = db.announcements.find((item) => item.public_id === params.publicId);
+    if (!announcement) {
+      return notFound("Announcement");
+    }
+    if (!canManage(user)) {
+      return forbidden("Only admins and school leadership can change announcements.");
+    }
+
+    const wasScheduled = getStatus(announcement) === AnnouncementStatus.SCHEDULED;
+    const payload = asPayload(body);
+    const audience = toAudience(payload);
+    // Clearing the publish time of a live announcement keeps when it went out
+    let publishAt = payload.publish_at ? String(payload.publish_at) : announcement.publish_at;
+    if (!payload.publish_at && wasScheduled) {
+      publishAt = nowIso();
+    }
+    const errors = validateAnnouncement(db, payload, audience, publishAt);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    announcement.title = String(payload.title).trim();
+    announcement.body = String(payload.body).trim();
+    announcement.audience = audience;
+    announcement.requires_acknowledgement = !!payload.requires_acknowledgement;
+    announcement.publish_at = publishAt;
+    announcement.expires_at = payload.expires_at ? String(payload.expires_at) : null;
+    touch(announcement, user?.public_id ?? null);
+    if (wasScheduled && getStatus(announcement) === AnnouncementStatus.PUBLISHED) {
+      notifyRecipients(db, announcement);
+    }
+    return ok(serializeAnnouncement(db, announcement), "Announcement updated successfully");
+  });
+
+  router.delete("/api/announcements/:publicId/", ({ db, params, user }) => {
+    const announcement = db.announcements.find((item) => item.public_id === params.publicId);
+    if (!announcement) {
+      return notFound("Announcement");
+    }
+    if (!canManage(user)) {
+      return forbidden("Only admins and school leadership can delete announcements.");
+    }
+    db.announcementReceipts = db.announcementReceipts.filter(
+      (item) => item.announcement_id !== announcement.public_id
+    );
+    db.announcements = db.announcements.filter((item) => item !== announcement);
+    return ok(null, "Announcement deleted successfully");
+  });
+
+  router.get("/api/announcements/:publicId/receipts/", ({ db, params, user }) => {
+    const announcement = db.announcements.find((item) => item.public_id === params.publicId);
+    if (!announcement) {
+      return notFound("Announcement");
+    }
+    if (!canManage(user)) {
+      return forbidden("Only admins and school leadership can view read receipts.");
+    }
+
+    const statusOrder: ReceiptStatusValue[] = [
+      ReceiptStatus.UNREAD,
+      ReceiptStatus.READ,
+      ReceiptStatus.ACKNOWLEDGED,
+    ];
+    return ok({
+      announcement: serializeAnnouncement(db, announcement),
+      receipts: getRecipients(db, announcement)
+        .map((recipient) => serializeReceipt(db, announcement, recipient))
+        .sort(
+          (a, b) =>
+            statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) ||
+            a.user.full_name.localeCompare(b.user.full_name)
+        ),
+    });
+  });
+
+  router.post("/api/announcements/:publicId/read/", ({ db, params, user }) => {
+    const announcement = db.announcements.find((item) => item.public_id === params.publicId);
+    if (
+      !announcement ||
+      !user ||
+      getStatus(announcement) !== AnnouncementStatus.PUBLISHED ||
+      !isRecipient(db, announcement, user)
+    ) {
+      return notFound("Announcement");
+    }
+
+    if (!findReceipt(db, announcement.public_id, user.public_id)) {
+      db.announcementReceipts.push({
+        announcement_id: announcement.public_id,
+        user_id: user.public_id,
+        read_at: nowIso(),
+        acknowledged_at: null,
+      });
+    }
+    return ok(serializeReceived(db, user, announcement), "Announcement marked as read");
+  });
+
+  router.post("/api/announcements/:publicId/acknowledge/", ({ db, params, user }) => {
+    const announcement = db.announcements.find((item) => item.public_id === params.publicId);
+    if (
+      !announcement ||
+      !user ||
+      getStatus(announcement) !== AnnouncementStatus.PUBLISHED ||
+      !isRecipient(db, announcement, user)
+    ) {
+      return notFound("Announcement");
+    }
+    if (!announcement.requires_acknowledgement) {
+      const message = "This announcement does not ask for an acknowledgement.";
+      return validationError({ non_field_errors: [message] }, message);
+    }
+
+    const now = nowIso();
+    const receipt = findReceipt(db, announcement.public_id, user.public_id);
+    if (receipt) {
+      receipt.acknowledged_at = receipt.acknowledged_at ?? now;
+    } else {
+      db.announcementReceipts.push({
+        announcement_id: announcement.public_id,
+        user_id: user.public_id,
+        read_at: now,
+        acknowledged_at: now,
+      });
+    }
+    return ok(serializeReceived(db, user, announcement), "Thank you for acknowledging");
+  });
+}
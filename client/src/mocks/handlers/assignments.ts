@@ -0,0 +1,540 @@
+/**
+ * Mock Assignment Handlers
+ * Homework set per subject assignment with file attachments, submission
+ * tracking and grading by the subject teacher, and the homework parents see
+ * and hand in for their children. Submission status is derived from the due
+ * date on every call, so homework turns overdue without a scheduled job.
+ */
+
+import { SubmissionStatus } from "@/constants/assignments";
+import type { SubmissionStatusValue } from "@/constants/assignments";
+import { MAX_ATTACHMENT_SIZE_MB, MAX_ATTACHMENTS } from "@/constants/attachments";
+import type {
+  Assignment,
+  AssignmentSubject,
+  ChildAssignments,
+  Submission,
+} from "@/lib/api/assignment-api";
+import { toDateString } from "../calendar";
+import {
+  createAudit,
+  findUser,
+  fullName,
+  nextPublicId,
+  nowIso,
+  serializeAudit,
+  touch,
+} from "../db";
+import { matchesSearch, readFormData } from "../query";
+import {
+  created,
+  forbidden,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import { findStudentUser, findTeacherUser, serializeClassInfo } from "../serializers";
+import { classStudents } from "./exams";
+import type {
+  MockAssignment,
+  MockAssignmentSubmission,
+  MockAttachment,
+  MockDb,
+  MockStudent,
+  MockSubject,
+  MockUser,
+} from "../db";
+import type { Payload } from "../query";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function businessRuleError(message: string) {
+  return validationError({ non_field_errors: [message] }, message);
+}
+
+function findSubject(db: MockDb, assignment: MockAssignment): MockSubject | undefined {
+  return db.subjects.find((item) => item.public_id === assignment.subject_id);
+}
+
+/**
+ * Subject assignments the user may set homework for: all of them for admins,
+ * their own for teachers
+ */
+function manageableSubjects(db: MockDb, user: MockUser | null): MockSubject[] {
+  const active = db.subjects.filter((subject) => !subject.is_deleted);
+  if (user?.role === "admin") {
+    return active;
+  }
+  const teacher = db.teachers.find((item) => item.user_id === user?.public_id);
+  return teacher ? active.filter((subject) => subject.teacher_id === teacher.public_id) : [];
+}
+
+function canManage(db: MockDb, user: MockUser | null, assignment: MockAssignment): boolean {
+  return manageableSubjects(db, user).some(
+    (subject) => subject.public_id === assignment.subject_id
+  );
+}
+
+function findChild(db: MockDb, user: MockUser | null, studentId: string): MockStudent | undefined {
+  const email = findUser(db, user?.public_id)?.email;
+  return db.students.find(
+    (student) =>
+      student.public_id === studentId &&
+      !!email &&
+      student.guardian_email === email &&
+      !student.is_deleted
+  );
+}
+
+function findSubmission(
+  db: MockDb,
+  assignmentId: string,
+  studentId: string
+): MockAssignmentSubmission | undefined {
+  return db.assignmentSubmissions.find(
+    (item) => item.assignment_id === assignmentId && item.student_id === studentId
+  );
+}
+
+function getStatus(
+  assignment: MockAssignment,
+  submission: MockAssignmentSubmission | undefined
+): SubmissionStatusValue {
+  if (submission?.graded_at) {
+    return SubmissionStatus.GRADED;
+  }
+  if (submission?.submitted_at) {
+    return toDateString(new Date(submission.submitted_at)) > assignment.due_date
+      ? SubmissionStatus.LATE
+      : SubmissionStatus.SUBMITTED;
+  }
+  return assignment.due_date < toDateString(new Date())
+    ? SubmissionStatus.OVERDUE
+    : SubmissionStatus.PENDING;
+}
+
+/**
+ * Turn uploaded files into attachments, or return the problem with them
+ */
+export function toAttachments(
+  db: MockDb,
+  files: File[],
+  existingCount = 0
+): MockAttachment[] | string {
+  if (existingCount + files.length > MAX_ATTACHMENTS) {
+    return `Attach at most ${MAX_ATTACHMENTS} files.`;
+  }
+  const tooLarge = files.find((item) => item.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+  if (tooLarge) {
+    return `${tooLarge.name} is larger than ${MAX_ATTACHMENT_SIZE_MB} MB.`;
+  }
+  return files.map((item) => ({
+    public_id: nextPublicId(db, "attach"),
+    file_name: item.name,
+    file_size: item.size,
+    content_type: item.type || "application/octet-stream",
+    url: URL.createObjectURL(item),
+  }));
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeAssignment(db: MockDb, assignment: MockAssignment): Assignment {
+  const subject = findSubject(db, assignment);
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject?.subject_id);
+  const teacher = db.teachers.find((item) => item.public_id === subject?.teacher_id);
+  const students = subject ? classStudents(db, subject.class_id) : [];
+  const statuses = students.map((student) =>
+    getStatus(assignment, findSubmission(db, assignment.public_id, student.public_id))
+  );
+
+  return {
+    public_id: assignment.public_id,
+    title: assignment.title,
+    instructions: assignment.instructions,
+    due_date: assignment.due_date,
+    max_marks: assignment.max_marks,
+    subject_info: {
+      public_id: subject?.public_id ?? "",
+      name: coreSubject?.name ?? "",
+      code: coreSubject?.code ?? "",
+    },
+    class_info: serializeClassInfo(
+      db,
+      db.classes.find((item) => item.public_id === subject?.class_id)
+    ),
+    teacher_info: {
+      public_id: teacher?.public_id ?? "",
+      full_name: teacher ? fullName(findTeacherUser(db, teacher)) : "",
+    },
+    attachments: assignment.attachments.map((item) => ({ ...item })),
+    student_count: students.length,
+    submitted_count: statuses.filter(
+      (status) => status !== SubmissionStatus.PENDING && status !== SubmissionStatus.OVERDUE
+    ).length,
+    graded_count: statuses.filter((status) => status === SubmissionStatus.GRADED).length,
+    ...serializeAudit(db, assignment),
+  };
+}
+
+function serializeSubmission(
+  db: MockDb,
+  assignment: MockAssignment,
+  student: MockStudent
+): Submission {
+  const submission = findSubmission(db, assignment.public_id, student.public_id);
+  const gradedBy = findUser(db, submission?.graded_by);
+
+  return {
+    student: {
+      public_id: student.public_id,
+      full_name: fullName(findStudentUser(db, student)),
+      roll_number: student.roll_number,
+    },
+    status: getStatus(assignment, submission),
+    submitted_at: submission?.submitted_at ?? null,
+    content: submission?.content ?? "",
+    attachments: (submission?.attachments ?? []).map((item) => ({ ...item })),
+    marks_obtained: submission?.marks_obtained ?? null,
+    feedback: submission?.feedback ?? "",
+    graded_at: submission?.graded_at ?? null,
+    graded_by_name: gradedBy ? fullName(gradedBy) : null,
+  };
+}
+
+function serializeAssignmentSubject(db: MockDb, subject: MockSubject): AssignmentSubject {
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject.subject_id);
+  return {
+    public_id: subject.public_id,
+    name: coreSubject?.name ?? "",
+    code: coreSubject?.code ?? "",
+    class_info: serializeClassInfo(
+      db,
+      db.classes.find((item) => item.public_id === subject.class_id)
+    ),
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateAssignment(db: MockDb, user: MockUser | null, payload: Payload): FieldErrors {
+  const errors = requireFields(payload, ["subject_id", "title", "due_date"]);
+
+  if (
+    payload.subject_id &&
+    !manageableSubjects(db, user).some((subject) => subject.public_id === payload.subject_id)
+  ) {
+    errors.subject_id = ["You can only set homework for subjects you teach."];
+  }
+  if (payload.max_marks !== undefined && payload.max_marks !== null && payload.max_marks !== "") {
+    const maxMarks = Number(payload.max_marks);
+    if (!(maxMarks > 0)) {
+      errors.max_marks = ["Max marks must be greater than 0."];
+    }
+  }
+  return errors;
+}
+
+function toMaxMarks(payload: Payload): number | null {
+  return payload.max_marks === undefined || payload.max_marks === null || payload.max_marks === ""
+    ? null
+    : Number(payload.max_marks);
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerAssignmentHandlers(router: MockRouter): void {
+  router.get("/api/assignments/", ({ db, query, user }) => {
+    const classId = query.get("class_id");
+    const subjectId = query.get("subject_id");
+    const subjectIds = new Set(
+      manageableSubjects(db, user)
+        .filter((subject) => !classId || subject.class_id === classId)
+        .filter((subject) => !subjectId || subject.public_id === subjectId)
+        .map((subject) => subject.public_id)
+    );
+
+    const items = db.assignments
+      .filter((assignment) => subjectIds.has(assignment.subject_id))
+      .sort((a, b) => b.due_date.localeCompare(a.due_date) || a.title.localeCompare(b.title))
+      .map((assignment) => serializeAssignment(db, assignment))
+      .filter((item) =>
+        matchesSearch(query, [
+          item.title,
+          item.subject_info.name,
+          item.class_info.class_master_name,
+        ])
+      );
+    return paginated(items, query);
+  });
+
+  router.post("/api/assignments/", ({ db, body, user }) => {
+    const { payload, files } = readFormData(body);
+    const errors = validateAssignment(db, user, payload);
+    const attachments = toAttachments(db, files.attachments ?? []);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string") {
+      return validationError(errors);
+    }
+
+    const assignment: MockAssignment = {
+      public_id: nextPublicId(db, "assign"),
+      subject_id: String(payload.subject_id),
+      title: String(payload.title).trim(),
+      instructions: payload.instructions ? String(payload.instructions).trim() : "",
+      due_date: String(payload.due_date),
+      max_marks: toMaxMarks(payload),
+      attachments,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.assignments.push(assignment);
+    return created(serializeAssignment(db, assignment), "Assignment created successfully");
+  });
+
+  router.get("/api/assignments/my-subjects/", ({ db, user }) =>
+    ok(
+      manageableSubjects(db, user)
+        .map((subject) => serializeAssignmentSubject(db, subject))
+        .sort(
+          (a, b) =>
+            a.class_info.class_master_name.localeCompare(b.class_info.class_master_name) ||
+            a.class_info.name.localeCompare(b.class_info.name) ||
+            a.name.localeCompare(b.name)
+        )
+    )
+  );
+
+  router.get("/api/assignments/children/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+
+    const results: ChildAssignments[] = children.map((student) => {
+      const subjectIds = new Set(
+        db.subjects
+          .filter((subject) => subject.class_id === student.class_id && !subject.is_deleted)
+          .map((subject) => subject.public_id)
+      );
+      return {
+        student: {
+          public_id: student.public_id,
+          full_name: fullName(findStudentUser(db, student)),
+          roll_number: student.roll_number,
+        },
+        class_info: serializeClassInfo(
+          db,
+          db.classes.find((item) => item.public_id === student.class_id)
+        ),
+        assignments: db.assignments
+          .filter((assignment) => subjectIds.has(assignment.subject_id))
+          .sort((a, b) => a.due_date.localeCompare(b.due_date))
+          .map((assignment) => ({
+            assignment: serializeAssignment(db, assignment),
+            submission: serializeSubmission(db, assignment, student),
+          })),
+      };
+    });
+    return ok(results);
+  });
+
+  router.patch("/api/assignments/:publicId/", ({ db, params, body, user }) => {
+    const assignment = db.assignments.find((item) => item.public_id === params.publicId);
+    if (!assignment) {
+      return notFound("Assignment");
+    }
+    if (!canManage(db, user, assignment)) {
+      return forbidden("You can only change homework for subjects you teach.");
+    }
+
+    const { payload, files } = readFormData(body);
+    const errors = validateAssignment(db, user, payload);
+    const hasSubmissions = db.assignmentSubmissions.some(
+      (item) => item.assignment_id === assignment.public_id && item.submitted_at
+    );
+    if (!errors.subject_id && payload.subject_id !== assignment.subject_id && hasSubmissions) {
+      errors.subject_id = ["Students have already handed this in; the class cannot change."];
+    }
+    const removedIds = ([] as unknown[]).concat(payload.removed_attachment_ids ?? []).map(String);
+    const kept = assignment.attachments.filter((item) => !removedIds.includes(item.public_id));
+    const attachments = toAttachments(db, files.attachments ?? [], kept.length);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string") {
+      return validationError(errors);
+    }
+
+    assignment.subject_id = String(payload.subject_id);
+    assignment.title = String(payload.title).trim();
+    assignment.instructions = payload.instructions ? String(payload.instructions).trim() : "";
+    assignment.due_date = String(payload.due_date);
+    assignment.max_marks = toMaxMarks(payload);
+    assignment.attachments = [...kept, ...attachments];
+    touch(assignment, user?.public_id ?? null);
+    return ok(serializeAssignment(db, assignment), "Assignment updated successfully");
+  });
+
+  router.delete("/api/assignments/:publicId/", ({ db, params, user }) => {
+    const assignment = db.assignments.find((item) => item.public_id === params.publicId);
+    if (!assignment) {
+      return notFound("Assignment");
+    }
+    if (!canManage(db, user, assignment)) {
+      return forbidden("You can only delete homework for subjects you teach.");
+    }
+    db.assignmentSubmissions = db.assignmentSubmissions.filter(
+      (item) => item.assignment_id !== assignment.public_id
+    );
+    db.assignments = db.assignments.filter((item) => item !== assignment);
+    return ok(null, "Assignment deleted successfully");
+  });
+
+  // Submissions
+  router.get("/api/assignments/:publicId/submissions/", ({ db, params, user }) => {
+    const assignment = db.assignments.find((item) => item.public_id === params.publicId);
+    if (!assignment) {
+      return notFound("Assignment");
+    }
+    if (!canManage(db, user, assignment)) {
+      return forbidden("You can only view submissions for subjects you teach.");
+    }
+    const classId = findSubject(db, assignment)?.class_id ?? "";
+    return ok({
+      assignment: serializeAssignment(db, assignment),
+      submissions: classStudents(db, classId).map((student) =>
+        serializeSubmission(db, assignment, student)
+      ),
+    });
+  });
+
+  router.put("/api/assignments/:publicId/submissions/:studentId/", ({ db, params, body, user }) => {
+    const assignment = db.assignments.find((item) => item.public_id === params.publicId);
+    if (!assignment) {
+      return notFound("Assignment");
+    }
+    if (!canManage(db, user, assignment)) {
+      return forbidden("You can only grade homework for subjects you teach.");
+    }
+    const student = classStudents(db, findSubject(db, assignment)?.class_id ?? "").find(
+      (item) => item.public_id === params.studentId
+    );
+    if (!student) {
+      return notFound("Student");
+    }
+
+    const payload = readFormData(body).payload;
+    const isSubmitted = Boolean(payload.is_submitted);
+    const marks =
+      payload.marks_obtained === null || payload.marks_obtained === undefined
+        ? null
+        : Number(payload.marks_obtained);
+    const feedback = payload.feedback ? String(payload.feedback).trim() : "";
+    const existing = findSubmission(db, assignment.public_id, student.public_id);
+
+    if (marks !== null && assignment.max_marks === null) {
+      return validationError({ marks_obtained: ["This assignment is graded with feedback only."] });
+    }
+    if (
+      marks !== null &&
+      (Number.isNaN(marks) || marks < 0 || marks > (assignment.max_marks ?? 0))
+    ) {
+      return validationError({
+        marks_obtained: [`Marks must be between 0 and ${assignment.max_marks}.`],
+      });
+    }
+    if (!isSubmitted && (marks !== null || feedback)) {
+      return businessRuleError("Only handed-in work can be graded.");
+    }
+    if (!isSubmitted && (existing?.content || existing?.attachments.length)) {
+      return businessRuleError("This work was handed in online and cannot be marked missing.");
+    }
+
+    if (!isSubmitted) {
+      db.assignmentSubmissions = db.assignmentSubmissions.filter((item) => item !== existing);
+    } else {
+      const isGraded = marks !== null || !!feedback;
+      const submission: MockAssignmentSubmission = existing ?? {
+        assignment_id: assignment.public_id,
+        student_id: student.public_id,
+        submitted_at: null,
+        content: "",
+        attachments: [],
+        marks_obtained: null,
+        feedback: "",
+        graded_by: null,
+        graded_at: null,
+      };
+      submission.submitted_at = submission.submitted_at ?? nowIso();
+      submission.marks_obtained = marks;
+      submission.feedback = feedback;
+      submission.graded_by = isGraded ? (user?.public_id ?? null) : null;
+      submission.graded_at = isGraded ? nowIso() : null;
+      if (!existing) {
+        db.assignmentSubmissions.push(submission);
+      }
+    }
+    return ok(
+      serializeSubmission(db, assignment, student),
+      isSubmitted ? "Submission saved successfully" : "Marked as not handed in"
+    );
+  });
+
+  router.post(
+    "/api/assignments/:publicId/submissions/:studentId/submit/",
+    ({ db, params, body, user }) => {
+      const assignment = db.assignments.find((item) => item.public_id === params.publicId);
+      if (!assignment) {
+        return notFound("Assignment");
+      }
+      const student = findChild(db, user, params.studentId);
+      if (!student || student.class_id !== findSubject(db, assignment)?.class_id) {
+        return forbidden("You can only hand in homework for your own children.");
+      }
+      const existing = findSubmission(db, assignment.public_id, student.public_id);
+      if (existing?.graded_at) {
+        return businessRuleError("This homework has already been graded.");
+      }
+
+      const { payload, files } = readFormData(body);
+      const content = payload.content ? String(payload.content).trim() : "";
+      const uploads = files.attachments ?? [];
+      if (!content && uploads.length === 0) {
+        return validationError({ content: ["Write an answer or attach a file."] });
+      }
+      const attachments = toAttachments(db, uploads);
+      if (typeof attachments === "string") {
+        return validationError({ attachments: [attachments] });
+      }
+
+      db.assignmentSubmissions = db.assignmentSubmissions.filter((item) => item !== existing);
+      db.assignmentSubmissions.push({
+        assignment_id: assignment.public_id,
+        student_id: student.public_id,
+        submitted_at: nowIso(),
+        content,
+        attachments,
+        marks_obtained: null,
+        feedback: "",
+        graded_by: null,
+        graded_at: null,
+      });
+      return created(serializeSubmission(db, assignment, student), "Homework submitted");
+    }
+  );
+}
@@ -0,0 +1,1116 @@
+/**
+ * Mock Attendance Handlers
+ * Holiday calendar, working day policy, calendar exceptions, geofences, staff
+ * check-in/out with regularizations, and the student roll call with the
+ * attendance parents see for their children.
+ */
+
+import { differenceInMinutes, parseISO, subDays } from "date-fns";
+import { checkGeofences } from "@/features/attendance/helpers/geofence-helpers";
+import type {
+  AttendanceRecord,
+  AttendanceSummary,
+  ChildAttendance,
+  StudentAttendanceRecord,
+} from "@/lib/api/attendance-api";
+import type { CalendarException } from "@/lib/api/calendar-exception-types";
+import type { CampusGeofence } from "@/lib/api/geofence-api";
+import type { AttendanceRegularization } from "@/lib/api/regularization-api";
+import { toDateString } from "../calendar";
+import {
+  createAudit,
+  findUser,
+  fullName,
+  nextPublicId,
+  nowIso,
+  serializeAudit,
+  touch,
+} from "../db";
+import { applyOrdering, asPayload, getBooleanParam, inDateRange, matchesSearch } from "../query";
+import {
+  created,
+  file,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import { findStudentUser, serializeClassInfo } from "../serializers";
+import { getManageableUsers } from "./organization";
+import type {
+  MockAttendanceStatus,
+  MockCalendarException,
+  MockDb,
+  MockGeofence,
+  MockHoliday,
+  MockRegularization,
+  MockStaffAttendance,
+  MockStudent,
+  MockStudentAttendance,
+  MockUser,
+  MockWorkingDayPolicy,
+} from "../db";
+import type { Payload } from "../query";
+import type { MockRequest, MockRouter } from "../router";
+
+const HOLIDAY_TEMPLATE =
+  "start_date,end_date,holiday_type,description\n2025-01-26,2025-01-26,NATIONAL_HOLIDAY,Republic Day\n";
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeHoliday(db: MockDb, holiday: MockHoliday) {
+  return { ...holiday, ...serializeAudit(db, holiday) };
+}
+
+function serializeCalendarException(
+  db: MockDb,
+  exception: MockCalendarException
+): CalendarException {
+  return { ...exception, organization: db.organization.public_id };
+}
+
+function serializeGeofence(db: MockDb, geofence: MockGeofence): CampusGeofence {
+  const audit = serializeAudit(db, geofence);
+  return {
+    public_id: geofence.public_id,
+    name: geofence.name,
+    latitude: geofence.latitude,
+    longitude: geofence.longitude,
+    radius_meters: geofence.radius_meters,
+    is_active: geofence.is_active,
+    created_at: audit.created_at,
+    updated_at: audit.updated_at,
+    created_by_name: audit.created_by_name,
+    updated_by_name: audit.updated_by_name,
+  };
+}
+
+function getWorkHours(record: MockStaffAttendance): number {
+  if (!record.check_in_time || !record.check_out_time) {
+    return 0;
+  }
+  const minutes = differenceInMinutes(
+    parseISO(record.check_out_time),
+    parseISO(record.check_in_time)
+  );
+  return Math.max(0, Math.round((minutes / 60) * 100) / 100);
+}
+
+function serializeAttendance(db: MockDb, record: MockStaffAttendance): AttendanceRecord {
+  const user = findUser(db, record.user_id);
+  const corrector = findUser(db, record.corrected_by);
+  const { user_id: _userId, corrected_by: _correctedBy, ...fields } = record;
+  return {
+    ...fields,
+    user: {
+      public_id: user?.public_id ?? "",
+      name: fullName(user),
+      email: user?.email ?? "",
+      role: user?.role ?? "",
+    },
+    work_hours: getWorkHours(record),
+    is_corrected: record.corrected_by !== null,
+    corrected_by_name: corrector ? fullName(corrector) : null,
+  };
+}
+
+function summarizeAttendance(records: MockStaffAttendance[]): AttendanceSummary {
+  const count = (status: MockAttendanceStatus) =>
+    records.filter((record) => record.status === status).length;
+  const presentDays = count("PRESENT");
+  const halfDays = count("HALF_DAY");
+
+  return {
+    total_days: records.length,
+    present_days: presentDays,
+    absent_days: count("ABSENT"),
+    half_days: halfDays,
+    leave_days: count("ON_LEAVE"),
+    attendance_percentage: records.length
+      ? Math.round(((presentDays + halfDays * 0.5) / records.length) * 10000) / 100
+      : 0,
+  };
+}
+
+function serializeRegularization(
+  db: MockDb,
+  regularization: MockRegularization
+): AttendanceRegularization {
+  const user = findUser(db, regularization.user_id);
+  const supervisor = findUser(db, user?.supervisor_id);
+  const reviewer = findUser(db, regularization.reviewed_by);
+  return {
+    public_id: regularization.public_id,
+    user_public_id: user?.public_id ?? "",
+    user_name: fullName(user),
+    user_role: user?.role ?? "",
+    email: user?.email ?? "",
+    supervisor_name: supervisor ? fullName(supervisor) : null,
+    supervisor_public_id: supervisor?.public_id ?? null,
+    attendance_record_public_id: regularization.attendance_record_id,
+    date: regularization.date,
+    regularization_type:
+      regularization.regularization_type as AttendanceRegularization["regularization_type"],
+    original_check_in_time: regularization.original_check_in_time,
+    original_check_out_time: regularization.original_check_out_time,
+    original_status: regularization.original_status,
+    requested_check_in_time: regularization.requested_check_in_time,
+    requested_check_out_time: regularization.requested_check_out_time,
+    requested_status: regularization.requested_status,
+    reason: regularization.reason,
+    status: regularization.status as AttendanceRegularization["status"],
+    applied_at: regularization.applied_at,
+    reviewed_by_name: reviewer ? fullName(reviewer) : null,
+    reviewed_at: regularization.reviewed_at,
+    review_comments: regularization.review_comments,
+    created_at: regularization.created_at,
+    updated_at: regularization.updated_at,
+  };
+}
+
+function serializeStudentAttendance(
+  db: MockDb,
+  record: MockStudentAttendance
+): StudentAttendanceRecord {
+  const student = db.students.find((item) => item.public_id === record.student_id);
+  const marker = findUser(db, record.marked_by);
+  return {
+    public_id: record.public_id,
+    student: {
+      public_id: student?.public_id ?? "",
+      full_name: student ? fullName(findStudentUser(db, student)) : "",
+      roll_number: student?.roll_number ?? "",
+    },
+    date: record.date,
+    status: record.status,
+    remarks: record.remarks,
+    marked_by_name: marker ? fullName(marker) : null,
+    marked_at: record.marked_at,
+  };
+}
+
+function serializeChildAttendance(db: MockDb, student: MockStudent): ChildAttendance {
+  const records = db.studentAttendance
+    .filter((record) => record.student_id === student.public_id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const count = (status: MockStudentAttendance["status"]) =>
+    records.filter((record) => record.status === status).length;
+  const attendedDays = count("PRESENT") + count("LATE");
+
+  return {
+    student: {
+      public_id: student.public_id,
+      full_name: fullName(findStudentUser(db, student)),
+      roll_number: student.roll_number,
+    },
+    class_info: serializeClassInfo(
+      db,
+      db.classes.find((item) => item.public_id === student.class_id)
+    ),
+    summary: {
+      marked_days: records.length,
+      present_days: count("PRESENT"),
+      absent_days: count("ABSENT"),
+      late_days: count("LATE"),
+      leave_days: count("ON_LEAVE"),
+      attendance_rate:
+        records.length > 0 ? Math.round((attendedDays / records.length) * 1000) / 10 : null,
+    },
+    records: records.map((record) => {
+      const marker = findUser(db, record.marked_by);
+      return {
+        date: record.date,
+        status: record.status,
+        remarks: record.remarks,
+        marked_by_name: marker ? fullName(marker) : null,
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function getPreferenceValue(db: MockDb, key: string): string | string[] | undefined {
+  return db.preferences.find((item) => item.key === key)?.value;
+}
+
+/**
+ * Check a punch location against the active geofences. `error` is set when
+ * the organization enforces the geofence and the position is outside every
+ * fence; punches without coordinates are accepted with unknown geofence state.
+ */
+function checkPunchLocation(db: MockDb, payload: Payload) {
+  const latitude = typeof payload.latitude === "number" ? payload.latitude : null;
+  const longitude = typeof payload.longitude === "number" ? payload.longitude : null;
+  if (latitude === null || longitude === null) {
+    return { latitude, longitude, withinGeofence: null, distance: null, error: null };
+  }
+
+  const result = checkGeofences(
+    db.geofences.map((item) => serializeGeofence(db, item)),
+    { latitude, longitude }
+  );
+  const enforced = getPreferenceValue(db, "enforce_check_in_geofence") === "true";
+  const distance = result.distanceMeters === null ? null : Math.round(result.distanceMeters);
+  return {
+    latitude,
+    longitude,
+    withinGeofence: result.isInside,
+    distance,
+    error:
+      enforced && !result.isInside
+        ? `You are ${distance ?? 0} m outside the campus geofence. Check-in is not allowed.`
+        : null,
+  };
+}
+
+function createAttendanceRecord(db: MockDb, userId: string, date: string): MockStaffAttendance {
+  const at = nowIso();
+  const record: MockStaffAttendance = {
+    public_id: nextPublicId(db, "attend"),
+    user_id: userId,
+    date,
+    check_in_time: null,
+    check_out_time: null,
+    status: "ABSENT",
+    check_in_latitude: null,
+    check_in_longitude: null,
+    check_out_latitude: null,
+    check_out_longitude: null,
+    check_in_within_geofence: null,
+    check_out_within_geofence: null,
+    check_in_distance_meters: null,
+    remarks: null,
+    corrected_by: null,
+    corrected_at: null,
+    is_regularized: false,
+    created_at: at,
+    updated_at: at,
+  };
+  db.staffAttendance.push(record);
+  return record;
+}
+
+function filterAttendanceByDate(records: MockStaffAttendance[], query: URLSearchParams) {
+  const status = query.get("status");
+  return records
+    .filter((record) => inDateRange(record.date, query.get("start_date"), query.get("end_date")))
+    .filter((record) => !status || record.status === status)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function filterRegularizations(regularizations: MockRegularization[], query: URLSearchParams) {
+  const status = query.get("status");
+  const type = query.get("regularization_type");
+  const userId = query.get("user");
+  return regularizations
+    .filter((item) => !status || item.status === status)
+    .filter((item) => !type || item.regularization_type === type)
+    .filter((item) => !userId || item.user_id === userId)
+    .filter((item) => inDateRange(item.date, query.get("date__gte"), query.get("date__lte")))
+    .sort((a, b) => b.applied_at.localeCompare(a.applied_at));
+}
+
+function getReviewableRegularizations(db: MockDb, user: MockUser | null): MockRegularization[] {
+  const userIds = getManageableUsers(db, user).map((item) => item.public_id);
+  return db.regularizations.filter((item) => userIds.includes(item.user_id));
+}
+
+function validateException(payload: Payload): Record<string, string[]> {
+  const errors = requireFields(payload, ["date", "override_type", "reason"]);
+  if (
+    payload.override_type &&
+    !["FORCE_WORKING", "FORCE_HOLIDAY"].includes(String(payload.override_type))
+  ) {
+    errors.override_type = [`"${String(payload.override_type)}" is not a valid choice.`];
+  }
+  if (
+    payload.is_applicable_to_all_classes === false &&
+    !(Array.isArray(payload.classes) && payload.classes.length)
+  ) {
+    errors.classes = ["Select at least one class or apply the exception to all classes."];
+  }
+  return errors;
+}
+
+function buildException(db: MockDb, payload: Payload): MockCalendarException {
+  const at = nowIso();
+  const isAllClasses = payload.is_applicable_to_all_classes !== false;
+  return {
+    public_id: nextPublicId(db, "calexcp"),
+    is_applicable_to_all_classes: isAllClasses,
+    classes: isAllClasses ? [] : (payload.classes as string[]),
+    date: String(payload.date),
+    override_type: payload.override_type as MockCalendarException["override_type"],
+    reason: String(payload.reason),
+    created_at: at,
+    updated_at: at,
+  };
+}
+
+function validateHoliday(payload: Payload): Record<string, string[]> {
+  const errors = requireFields(payload, ["start_date", "holiday_type", "description"]);
+  if (
+    payload.end_date &&
+    payload.start_date &&
+    String(payload.end_date) < String(payload.start_date)
+  ) {
+    errors.end_date = ["End date must be on or after the start date."];
+  }
+  if (payload.holiday_type === "SUNDAY" || payload.holiday_type === "SATURDAY") {
+    errors.holiday_type = ["Weekend holidays are generated from the working day policy."];
+  }
+  return errors;
+}
+
+function buildHoliday(db: MockDb, payload: Payload, userId: string | null): MockHoliday {
+  return {
+    public_id: nextPublicId(db, "holiday"),
+    start_date: String(payload.start_date),
+    end_date: String(payload.end_date || payload.start_date),
+    holiday_type: payload.holiday_type as MockHoliday["holiday_type"],
+    description: String(payload.description),
+    ...createAudit(userId),
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function registerAttendanceHandlers(router: MockRouter): void {
+  // Holiday calendar ---------------------------------------------------------
+
+  router.get("/api/attendance/admin/holiday-calendar/", ({ db, query }) => {
+    const holidays = db.holidays.filter(
+      (holiday) =>
+        (!query.get("from_date") || holiday.end_date >= String(query.get("from_date"))) &&
+        (!query.get("to_date") || holiday.start_date <= String(query.get("to_date")))
+    );
+    return paginated(
+      applyOrdering(
+        holidays,
+        query,
+        (holiday, field) => holiday[field as keyof MockHoliday] as string,
+        "start_date"
+      ).map((holiday) => serializeHoliday(db, holiday)),
+      query
+    );
+  });
+
+  router.post("/api/attendance/admin/holiday-calendar/", ({ db, body, user }) => {
+    const userId = user?.public_id ?? null;
+    if (Array.isArray(body)) {
+      const errors = body.map((item) => validateHoliday(asPayload(item)));
+      if (errors.some(hasErrors)) {
+        return validationError({ detail: errors });
+      }
+      const holidays = body.map((item) => buildHoliday(db, asPayload(item), userId));
+      db.holidays.push(...holidays);
+      return created(
+        holidays.map((holiday) => serializeHoliday(db, holiday)),
+        `${holidays.length} holiday(s) created successfully`
+      );
+    }
+
+    const payload = asPayload(body);
+    const errors = validateHoliday(payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    const holiday = buildHoliday(db, payload, userId);
+    db.holidays.push(holiday);
+    return created(serializeHoliday(db, holiday), "Holiday created successfully");
+  });
+
+  router.get("/api/attendance/admin/holiday-calendar/download-template/", () =>
+    file(HOLIDAY_TEMPLATE, "holiday_calendar_template.csv")
+  );
+
+  router.post("/api/attendance/admin/holiday-calendar/bulk-upload/", () =>
+    ok(
+      { success: true, created_count: 0, failed_count: 0, total_rows: 0, errors: [] },
+      "Bulk upload is not available in mock mode; no holidays were imported"
+    )
+  );
+
+  router.patch(
+    "/api/attendance/admin/holiday-calendar/:publicId/",
+    ({ db, params, body, user }) => {
+      const holiday = db.holidays.find((item) => item.public_id === params.publicId);
+      if (!holiday) {
+        return notFound("Holiday");
+      }
+      const payload = { ...holiday, ...asPayload(body) };
+      const errors = validateHoliday(payload);
+      if (hasErrors(errors)) {
+        return validationError(errors);
+      }
+      holiday.start_date = String(payload.start_date);
+      holiday.end_date = String(payload.end_date || payload.start_date);
+      holiday.holiday_type = payload.holiday_type as MockHoliday["holiday_type"];
+      holiday.description = String(payload.description);
+      touch(holiday, user?.public_id ?? null);
+      return ok(serializeHoliday(db, holiday), "Holiday updated successfully");
+    }
+  );
+
+  router.delete("/api/attendance/admin/holiday-calendar/:publicId/", ({ db, params }) => {
+    const holiday = db.holidays.find((item) => item.public_id === params.publicId);
+    if (!holiday) {
+      return notFound("Holiday");
+    }
+    db.holidays = db.holidays.filter((item) => item !== holiday);
+    return ok(null, "Holiday deleted successfully");
+  });
+
+  // Working day policy -------------------------------------------------------
+
+  router.get("/api/attendance/admin/working-day-policy/", ({ db, query }) =>
+    paginated(
+      db.workingDayPolicies.map((policy) => ({ ...policy, ...serializeAudit(db, policy) })),
+      query
+    )
+  );
+
+  router.post("/api/attendance/admin/working-day-policy/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["saturday_off_pattern", "effective_from"]);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    const policy = {
+      public_id: nextPublicId(db, "workpol"),
+      sunday_off: payload.sunday_off !== false,
+      saturday_off_pattern:
+        payload.saturday_off_pattern as MockWorkingDayPolicy["saturday_off_pattern"],
+      effective_from: String(payload.effective_from),
+      effective_to: payload.effective_to ? String(payload.effective_to) : null,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.workingDayPolicies.push(policy);
+    return created(
+      { ...policy, ...serializeAudit(db, policy) },
+      "Working day policy created successfully"
+    );
+  });
+
+  router.patch(
+    "/api/attendance/admin/working-day-policy/:publicId/",
+    ({ db, params, body, user }) => {
+      const policy = db.workingDayPolicies.find((item) => item.public_id === params.publicId);
+      if (!policy) {
+        return notFound("Working day policy");
+      }
+      const payload = asPayload(body);
+      (["sunday_off", "saturday_off_pattern", "effective_from", "effective_to"] as const).forEach(
+        (field) => {
+          if (payload[field] !== undefined) {
+            Object.assign(policy, { [field]: payload[field] });
+          }
+        }
+      );
+      touch(policy, user?.public_id ?? null);
+      return ok(
+        { ...policy, ...serializeAudit(db, policy) },
+        "Working day policy updated successfully"
+      );
+    }
+  );
+
+  // Calendar exceptions ------------------------------------------------------
+
+  router.get("/api/attendance/calendar-exception/", ({ db, query }) => {
+    const overrideType = query.get("override_type");
+    const classIds = query.getAll("classes");
+    const isAllClasses = getBooleanParam(query, "is_applicable_to_all_classes");
+
+    const exceptions = db.calendarExceptions
+      .filter((item) => !overrideType || item.override_type === overrideType)
+      .filter((item) => inDateRange(item.date, query.get("from_date"), query.get("to_date")))
+      .filter(
+        (item) => isAllClasses === undefined || item.is_applicable_to_all_classes === isAllClasses
+      )
+      .filter(
+        (item) =>
+          classIds.length === 0 ||
+          item.is_applicable_to_all_classes ||
+          item.classes.some((classId) => classIds.includes(classId))
+      )
+      .filter((item) => matchesSearch(query, [item.reason]));
+
+    return paginated(
+      applyOrdering(
+        exceptions,
+        query,
+        (item, field) => item[field as keyof MockCalendarException] as string,
+        "-date"
+      ).map((item) => serializeCalendarException(db, item)),
+      query
+    );
+  });
+
+  router.post("/api/attendance/calendar-exception/", ({ db, body }) => {
+    const payload = asPayload(body);
+    const errors = validateException(payload);
+    if (
+      db.calendarExceptions.some(
+        (item) => item.date === payload.date && item.is_applicable_to_all_classes
+      )
+    ) {
+      errors.date = ["An organization-wide exception already exists for this date."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    const exception = buildException(db, payload);
+    db.calendarExceptions.push(exception);
+    return created(
+      serializeCalendarException(db, exception),
+      "Calendar exception created successfully"
+    );
+  });
+
+  router.post("/api/attendance/calendar-exception/bulk_create_exceptions/", ({ db, body }) => {
+    const items = (body as { exceptions?: unknown[] } | null)?.exceptions;
+    if (!Array.isArray(items) || items.length === 0) {
+      return validationError({ exceptions: ["This field is required."] });
+    }
+    const errors = items.map((item) => validateException(asPayload(item)));
+    if (errors.some(hasErrors)) {
+      return validationError({ exceptions: errors });
+    }
+    const exceptions = items.map((item) => buildException(db, asPayload(item)));
+    db.calendarExceptions.push(...exceptions);
+    return created(
+      {
+        created_count: exceptions.length,
+        exceptions: exceptions.map((item) => serializeCalendarException(db, item)),
+      },
+      `${exceptions.length} calendar exception(s) created successfully`
+    );
+  });
+
+  router.get("/api/attendance/calendar-exception/:publicId/", ({ db, params }) => {
+    const exception = db.calendarExceptions.find((item) => item.public_id === params.publicId);
+    return exception
+      ? ok(serializeCalendarException(db, exception))
+      : notFound("Calendar exception");
+  });
+
+  const updateException = ({ db, params, body }: MockRequest) => {
+    const exception = db.calendarExceptions.find((item) => item.public_id === params.publicId);
+    if (!exception) {
+      return notFound("Calendar exception");
+    }
+    const payload = { ...exception, ...asPayload(body) };
+    const errors = validateException(payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    Object.assign(exception, {
+      is_applicable_to_all_classes: payload.is_applicable_to_all_classes,
+      classes: payload.is_applicable_to_all_classes ? [] : payload.classes,
+      date: payload.date,
+      override_type: payload.override_type,
+      reason: payload.reason,
+      updated_at: nowIso(),
+    });
+    return ok(serializeCalendarException(db, exception), "Calendar exception updated successfully");
+  };
+  router.put("/api/attendance/calendar-exception/:publicId/", updateException);
+  router.patch("/api/attendance/calendar-exception/:publicId/", updateException);
+
+  router.delete("/api/attendance/calendar-exception/:publicId/", ({ db, params }) => {
+    const exception = db.calendarExceptions.find((item) => item.public_id === params.publicId);
+    if (!exception) {
+      return notFound("Calendar exception");
+    }
+    db.calendarExceptions = db.calendarExceptions.filter((item) => item !== exception);
+    return { status: 204 };
+  });
+
+  // My attendance ------------------------------------------------------------
+
+  router.get("/api/attendance/my-attendance/", ({ db, query, user }) => {
+    const records = filterAttendanceByDate(
+      db.staffAttendance.filter((record) => record.user_id === user?.public_id),
+      query
+    );
+    return ok({
+      records: records.map((record) => serializeAttendance(db, record)),
+      summary: summarizeAttendance(records),
+    });
+  });
+
+  router.get("/api/attendance/my-attendance/today/", ({ db, user }) => {
+    const today = toDateString(new Date());
+    const record = db.staffAttendance.find(
+      (item) => item.user_id === user?.public_id && item.date === today
+    );
+    return ok({
+      has_checked_in: Boolean(record?.check_in_time),
+      has_checked_out: Boolean(record?.check_out_time),
+      check_in_time: record?.check_in_time ?? null,
+      check_out_time: record?.check_out_time ?? null,
+      status: record?.status ?? null,
+      work_hours: record ? getWorkHours(record) : null,
+      check_in_within_geofence: record?.check_in_within_geofence ?? null,
+    });
+  });
+
+  router.post("/api/attendance/my-attendance/check-in/", ({ db, body, user }) => {
+    if (!user) {
+      return notFound("User");
+    }
+    const today = toDateString(new Date());
+    const existing = db.staffAttendance.find(
+      (item) => item.user_id === user.public_id && item.date === today
+    );
+    if (existing?.check_in_time) {
+      return validationError(
+        { non_field_errors: ["You have already checked in today."] },
+        "You have already checked in today."
+      );
+    }
+
+    const location = checkPunchLocation(db, asPayload(body));
+    if (location.error) {
+      return validationError({ non_field_errors: [location.error] }, location.error);
+    }
+
+    const record = existing ?? createAttendanceRecord(db, user.public_id, today);
+    Object.assign(record, {
+      check_in_time: nowIso(),
+      status: "PRESENT",
+      check_in_latitude: location.latitude,
+      check_in_longitude: location.longitude,
+      check_in_within_geofence: location.withinGeofence,
+      check_in_distance_meters: location.distance,
+      remarks: asPayload(body).notes ? String(asPayload(body).notes) : record.remarks,
+      updated_at: nowIso(),
+    });
+    return ok(serializeAttendance(db, record), "Checked in successfully");
+  });
+
+  router.post("/api/attendance/my-attendance/check-out/", ({ db, body, user }) => {
+    const today = toDateString(new Date());
+    const record = db.staffAttendance.find(
+      (item) => item.user_id === user?.public_id && item.date === today
+    );
+    if (!record?.check_in_time) {
+      return validationError(
+        { non_field_errors: ["You have not checked in today."] },
+        "You have not checked in today."
+      );
+    }
+    if (record.check_out_time) {
+      return validationError(
+        { non_field_errors: ["You have already checked out today."] },
+        "You have already checked out today."
+      );
+    }
+
+    const location = checkPunchLocation(db, asPayload(body));
+    if (location.error) {
+      return validationError({ non_field_errors: [location.error] }, location.error);
+    }
+
+    Object.assign(record, {
+      check_out_time: nowIso(),
+      check_out_latitude: location.latitude,
+      check_out_longitude: location.longitude,
+      check_out_within_geofence: location.withinGeofence,
+      updated_at: nowIso(),
+    });
+    record.status = getWorkHours(record) < 4 ? "HALF_DAY" : "PRESENT";
+    return ok(serializeAttendance(db, record), "Checked out successfully");
+  });
+
+  // Geofences ----------------------------------------------------------------
+
+  router.get("/api/attendance/geofences/", ({ db, query }) =>
+    paginated(
+      db.geofences.filter((item) => item.is_active).map((item) => serializeGeofence(db, item)),
+      query
+    )
+  );
+
+  router.get("/api/attendance/admin/geofences/", ({ db, query }) =>
+    paginated(
+      db.geofences.map((item) => serializeGeofence(db, item)),
+      query
+    )
+  );
+
+  router.post("/api/attendance/admin/geofences/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["name", "latitude", "longitude", "radius_meters"]);
+    if (payload.radius_meters !== undefined && Number(payload.radius_meters) <= 0) {
+      errors.radius_meters = ["Radius must be greater than zero."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    const geofence: MockGeofence = {
+      public_id: nextPublicId(db, "geofence"),
+      name: String(payload.name),
+      latitude: Number(payload.latitude),
+      longitude: Number(payload.longitude),
+      radius_meters: Number(payload.radius_meters),
+      is_active: payload.is_active !== false,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.geofences.push(geofence);
+    return created(serializeGeofence(db, geofence), "Campus geofence created successfully");
+  });
+
+  router.patch("/api/attendance/admin/geofences/:publicId/", ({ db, params, body, user }) => {
+    const geofence = db.geofences.find((item) => item.public_id === params.publicId);
+    if (!geofence) {
+      return notFound("Campus geofence");
+    }
+    const payload = asPayload(body);
+    if (payload.radius_meters !== undefined && Number(payload.radius_meters) <= 0) {
+      return validationError({ radius_meters: ["Radius must be greater than zero."] });
+    }
+    (["name", "latitude", "longitude", "radius_meters", "is_active"] as const).forEach((field) => {
+      if (payload[field] !== undefined) {
+        Object.assign(geofence, { [field]: payload[field] });
+      }
+    });
+    touch(geofence, user?.public_id ?? null);
+    return ok(serializeGeofence(db, geofence), "Campus geofence updated successfully");
+  });
+
+  router.delete("/api/attendance/admin/geofences/:publicId/", ({ db, params }) => {
+    const geofence = db.geofences.find((item) => item.public_id === params.publicId);
+    if (!geofence) {
+      return notFound("Campus geofence");
+    }
+    db.geofences = db.geofences.filter((item) => item !== geofence);
+    return ok(null, "Campus geofence deleted successfully");
+  });
+
+  // Staff attendance (admin) -------------------------------------------------
+
+  router.get("/api/attendance/admin/staff-attendance/", ({ db, query }) => {
+    const role = query.get("role");
+    const userId = query.get("user");
+    const outsideGeofence = getBooleanParam(query, "outside_geofence");
+
+    const records = filterAttendanceByDate(db.staffAttendance, query).filter((record) => {
+      const user = findUser(db, record.user_id);
+      return (
+        (!role || user?.role === role) &&
+        (!userId || record.user_id === userId) &&
+        (!outsideGeofence || record.check_in_within_geofence === false) &&
+        matchesSearch(query, [fullName(user), user?.email])
+      );
+    });
+    const ordered = query.get("ordering")
+      ? applyOrdering(
+          records,
+          query,
+          (record, field) => record[field as keyof MockStaffAttendance] as string
+        )
+      : records;
+    return paginated(
+      ordered.map((record) => serializeAttendance(db, record)),
+      query
+    );
+  });
+
+  router.get(
+    "/api/attendance/admin/staff-attendance/user/:userPublicId/",
+    ({ db, params, query }) => {
+      if (!findUser(db, params.userPublicId)) {
+        return notFound("User");
+      }
+      const records = filterAttendanceByDate(
+        db.staffAttendance.filter((record) => record.user_id === params.userPublicId),
+        query
+      );
+      return ok({
+        records: records.map((record) => serializeAttendance(db, record)),
+        summary: summarizeAttendance(records),
+      });
+    }
+  );
+
+  router.patch(
+    "/api/attendance/admin/staff-attendance/:publicId/",
+    ({ db, params, body, user }) => {
+      const record = db.staffAttendance.find((item) => item.public_id === params.publicId);
+      if (!record) {
+        return notFound("Attendance record");
+      }
+      const payload = asPayload(body);
+      const errors = requireFields(payload, ["remarks"]);
+      const checkIn =
+        payload.check_in_time === undefined
+          ? record.check_in_time
+          : (payload.check_in_time as string | null);
+      const checkOut =
+        payload.check_out_time === undefined
+          ? record.check_out_time
+          : (payload.check_out_time as string | null);
+      if (checkIn && checkOut && checkOut <= checkIn) {
+        errors.check_out_time = ["Check-out time must be after check-in time."];
+      }
+      if (hasErrors(errors)) {
+        return validationError(errors);
+      }
+
+      Object.assign(record, {
+        status: payload.status ?? record.status,
+        check_in_time: checkIn,
+        check_out_time: checkOut,
+        remarks: String(payload.remarks),
+        corrected_by: user?.public_id ?? null,
+        corrected_at: nowIso(),
+        updated_at: nowIso(),
+      });
+      return ok(serializeAttendance(db, record), "Attendance record corrected successfully");
+    }
+  );
+
+  // Regularizations ----------------------------------------------------------
+
+  router.get("/api/attendance/regularization-requests/", ({ db, query, user }) =>
+    paginated(
+      filterRegularizations(
+        db.regularizations.filter((item) => item.user_id === user?.public_id),
+        query
+      ).map((item) => serializeRegularization(db, item)),
+      query
+    )
+  );
+
+  router.post("/api/attendance/regularization-requests/", ({ db, body, user }) => {
+    if (!user) {
+      return notFound("User");
+    }
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["date", "regularization_type", "reason"]);
+    const date = String(payload.date ?? "");
+    if (date && date >= toDateString(new Date())) {
+      errors.date = ["Regularization can only be requested for past dates."];
+    }
+    if (date && date < toDateString(subDays(new Date(), 30))) {
+      errors.date = ["Regularization can only be requested for the last 30 days."];
+    }
+    if (
+      db.regularizations.some(
+        (item) => item.user_id === user.public_id && item.date === date && item.status === "pending"
+      )
+    ) {
+      errors.non_field_errors = ["A pending regularization request already exists for this date."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const record = db.staffAttendance.find(
+      (item) => item.user_id === user.public_id && item.date === date
+    );
+    const at = nowIso();
+    const regularization: MockRegularization = {
+      public_id: nextPublicId(db, "regular"),
+      user_id: user.public_id,
+      attendance_record_id: record?.public_id ?? null,
+      date,
+      regularization_type: String(payload.regularization_type),
+      original_check_in_time: record?.check_in_time ?? null,
+      original_check_out_time: record?.check_out_time ?? null,
+      original_status: record?.status ?? null,
+      requested_check_in_time: (payload.requested_check_in_time as string | null) ?? null,
+      requested_check_out_time: (payload.requested_check_out_time as string | null) ?? null,
+      requested_status: (payload.requested_status as MockAttendanceStatus | null) ?? null,
+      reason: String(payload.reason),
+      status: "pending",
+      applied_at: at,
+      reviewed_by: null,
+      reviewed_at: null,
+      review_comments: null,
+      created_at: at,
+      updated_at: at,
+    };
+    db.regularizations.push(regularization);
+    return created(
+      serializeRegularization(db, regularization),
+      "Regularization request submitted successfully"
+    );
+  });
+
+  router.post(
+    "/api/attendance/regularization-requests/:publicId/cancel/",
+    ({ db, params, user }) => {
+      const regularization = db.regularizations.find(
+        (item) => item.public_id === params.publicId && item.user_id === user?.public_id
+      );
+      if (!regularization) {
+        return notFound("Regularization request");
+      }
+      if (regularization.status !== "pending") {
+        return validationError(
+          { non_field_errors: ["Only pending requests can be cancelled."] },
+          "Only pending requests can be cancelled."
+        );
+      }
+      regularization.status = "cancelled";
+      regularization.updated_at = nowIso();
+      return ok(
+        serializeRegularization(db, regularization),
+        "Regularization request cancelled successfully"
+      );
+    }
+  );
+
+  router.get("/api/attendance/regularization-reviews/", ({ db, query, user }) =>
+    paginated(
+      filterRegularizations(getReviewableRegularizations(db, user), query).map((item) =>
+        serializeRegularization(db, item)
+      ),
+      query
+    )
+  );
+
+  const reviewRegularization =
+    (status: "approved" | "rejected") =>
+    ({ db, params, body, user }: MockRequest) => {
+      const regularization = getReviewableRegularizations(db, user).find(
+        (item) => item.public_id === params.publicId
+      );
+      if (!regularization) {
+        return notFound("Regularization request");
+      }
+      if (regularization.status !== "pending") {
+        return validationError(
+          { non_field_errors: [`This request is already ${regularization.status}.`] },
+          `This request is already ${regularization.status}.`
+        );
+      }
+      const comments = asPayload(body).comments;
+      if (status === "rejected" && !comments) {
+        return validationError({ comments: ["Comments are required when rejecting a request."] });
+      }
+
+      if (status === "approved") {
+        const record =
+          db.staffAttendance.find(
+            (item) => item.public_id === regularization.attendance_record_id
+          ) ?? createAttendanceRecord(db, regularization.user_id, regularization.date);
+        regularization.attendance_record_id = record.public_id;
+        record.check_in_time = regularization.requested_check_in_time ?? record.check_in_time;
+        record.check_out_time = regularization.requested_check_out_time ?? record.check_out_time;
+        record.status =
+          regularization.requested_status ?? (record.check_in_time ? "PRESENT" : record.status);
+        record.is_regularized = true;
+        record.updated_at = nowIso();
+      }
+
+      regularization.status = status;
+      regularization.reviewed_by = user?.public_id ?? null;
+      regularization.reviewed_at = nowIso();
+      regularization.review_comments = comments ? String(comments) : null;
+      regularization.updated_at = nowIso();
+      return ok(
+        serializeRegularization(db, regularization),
+        `Regularization request ${status} successfully`
+      );
+    };
+  router.post(
+    "/api/attendance/regularization-reviews/:publicId/approve/",
+    reviewRegularization("approved")
+  );
+  router.post(
+    "/api/attendance/regularization-reviews/:publicId/reject/",
+    reviewRegularization("rejected")
+  );
+
+  // Student attendance -------------------------------------------------------
+
+  router.get("/api/attendance/student-attendance/classes/:classId/", ({ db, params, query }) => {
+    const masterClass = db.classes.find((item) => item.public_id === params.classId);
+    if (!masterClass) {
+      return notFound("Class");
+    }
+    const date = query.get("date") ?? toDateString(new Date());
+    const records = db.studentAttendance.filter(
+      (record) => record.class_id === masterClass.public_id && record.date === date
+    );
+    return ok({
+      class_id: masterClass.public_id,
+      date,
+      is_marked: records.length > 0,
+      records: records.map((record) => serializeStudentAttendance(db, record)),
+    });
+  });
+
+  router.get("/api/attendance/student-attendance/children/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+    return ok(children.map((student) => serializeChildAttendance(db, student)));
+  });
+
+  router.post("/api/attendance/student-attendance/bulk-mark/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["class_id", "date"]);
+    const entries = Array.isArray(payload.records) ? payload.records.map(asPayload) : [];
+    if (entries.length === 0) {
+      errors.records = ["Mark at least one student."];
+    }
+    if (payload.date && String(payload.date) > toDateString(new Date())) {
+      errors.date = ["Attendance cannot be marked for a future date."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const classId = String(payload.class_id);
+    const date = String(payload.date);
+    const at = nowIso();
+    let createdCount = 0;
+    let updatedCount = 0;
+    const records = entries.map((entry) => {
+      const existing = db.studentAttendance.find(
+        (record) => record.student_id === entry.student && record.date === date
+      );
+      const record: MockStudentAttendance = existing ?? {
+        public_id: nextPublicId(db, "stuatt"),
+        student_id: String(entry.student),
+        class_id: classId,
+        date,
+        status: "PRESENT",
+        remarks: "",
+        marked_by: null,
+        marked_at: null,
+      };
+      if (existing) {
+        updatedCount += 1;
+      } else {
+        createdCount += 1;
+        db.studentAttendance.push(record);
+      }
+      record.status = entry.status as MockStudentAttendance["status"];
+      record.remarks = String(entry.remarks ?? "");
+      record.marked_by = user?.public_id ?? null;
+      record.marked_at = at;
+      return serializeStudentAttendance(db, record);
+    });
+
+    return ok(
+      { created_count: createdCount, updated_count: updatedCount, records },
+      "Attendance saved successfully"
+    );
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * Mock Auth Handlers
+ * Login, logout, token refresh and password reset. Tokens are unsigned JWTs
+ * with real `exp` claims, so the client's refresh-on-401, proactive refresh
+ * and idle timeout all run exactly as they do against the backend.
+ */
+
+import { decodeJwtPayload } from "@/lib/utils/jwt-utils";
+import { findUser, fullName, nowIso } from "../db";
+import { hasErrors, ok, raw, requireFields, unauthorized, validationError } from "../responses";
+import type { MockDb, MockUser } from "../db";
+import type { MockRouter } from "../router";
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+/** Any six digits are accepted as an OTP, except this one */
+const INVALID_OTP = "000000";
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+function base64UrlEncode(value: unknown): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function createToken(user: MockUser, tokenType: "access" | "refresh", ttlSeconds: number): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode({ alg: "none", typ: "JWT" });
+  const payload = base64UrlEncode({
+    token_type: tokenType,
+    user_id: user.public_id,
+    iat: issuedAt,
+    exp: issuedAt + ttlSeconds,
+    jti: `${tokenType}-${user.public_id}-${issuedAt}-${Math.random().toString(36).slice(2)}`,
+  });
+  return `${header}.${payload}.mock`;
+}
+
+/**
+ * Resolve the user behind a token, or null when it is malformed, expired,
+ * revoked or of the wrong type
+ */
+export function verifyToken(
+  db: MockDb,
+  token: string | null | undefined,
+  tokenType: "access" | "refresh"
+): MockUser | null {
+  if (!token || db.revokedTokens.has(token)) {
+    return null;
+  }
+
+  const payload = decodeJwtPayload(token);
+  if (
+    !payload ||
+    payload.token_type !== tokenType ||
+    !payload.exp ||
+    payload.exp * 1000 <= Date.now()
+  ) {
+    return null;
+  }
+
+  const user = findUser(db, String(payload.user_id));
+  return user?.is_active ? user : null;
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+export function serializeSessionUser(db: MockDb, user: MockUser) {
+  return {
+    public_id: user.public_id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    full_name: fullName(user),
+    organization_role_code: user.organization_role_code,
+    teacher_public_id:
+      db.teachers.find((teacher) => teacher.user_id === user.public_id)?.public_id ?? null,
+  };
+}
+
+export function serializeOrganization(db: MockDb) {
+  const { admin_id: _adminId, ...organization } = db.organization;
+  return organization;
+}
+
+function findByIdentifier(db: MockDb, body: Record<string, unknown>): MockUser | undefined {
+  const identifier = String(body.username ?? body.email ?? "").toLowerCase();
+  return db.users.find(
+    (user) => user.username.toLowerCase() === identifier || user.email.toLowerCase() === identifier
+  );
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function registerAuthHandlers(router: MockRouter): void {
+  router.post(
+    "/api/auth/login/",
+    ({ db, body }) => {
+      const payload = (body ?? {}) as Record<string, unknown>;
+      const errors = requireFields(payload, ["username", "password"]);
+      if (hasErrors(errors)) {
+        return validationError(errors);
+      }
+
+      const user = findByIdentifier(db, payload);
+      if (!user || user.password !== payload.password || !user.is_active) {
+        return validationError(
+          { non_field_errors: ["Invalid username or password."] },
+          "Invalid username or password."
+        );
+      }
+
+      return raw({
+        message: "Login successful",
+        user: serializeSessionUser(db, user),
+        organization: serializeOrganization(db),
+        tokens: {
+          access: createToken(user, "access", ACCESS_TOKEN_TTL_SECONDS),
+          refresh: createToken(user, "refresh", REFRESH_TOKEN_TTL_SECONDS),
+        },
+      });
+    },
+    { isPublic: true }
+  );
+
+  router.post("/api/auth/logout/", ({ db, body }) => {
+    const refresh = (body as { refresh?: string } | null)?.refresh;
+    if (refresh) {
+      db.revokedTokens.add(refresh);
+    }
+    return ok(null, "Logged out successfully");
+  });
+
+  router.post(
+    "/api/auth/token/refresh/",
+    ({ db, body }) => {
+      const refresh = (body as { refresh?: string } | null)?.refresh;
+      const user = verifyToken(db, refresh, "refresh");
+      if (!user) {
+        return unauthorized("Token is invalid or expired");
+      }
+      return raw({ access: createToken(user, "access", ACCESS_TOKEN_TTL_SECONDS) });
+    },
+    { isPublic: true }
+  );
+
+  router.get("/api/auth/me/", ({ db, user }) =>
+    ok({ user: user && serializeSessionUser(db, user), organization: serializeOrganization(db) })
+  );
+
+  router.post("/api/auth/change-password/", ({ body, user }) => {
+    const payload = (body ?? {}) as Record<string, unknown>;
+    const errors = requireFields(payload, ["old_password", "new_password", "confirm_password"]);
+    if (user && payload.old_password && payload.old_password !== user.password) {
+      errors.old_password = ["Old password is incorrect."];
+    }
+    if (payload.new_password && payload.new_password !== payload.confirm_password) {
+      errors.confirm_password = ["Passwords do not match."];
+    }
+    if (hasErrors(errors) || !user) {
+      return validationError(errors);
+    }
+
+    user.password = String(payload.new_password);
+    user.updated_at = nowIso();
+    return ok({ message: "Password changed successfully" }, "Password changed successfully");
+  });
+
+  router.post(
+    "/api/auth/password-reset-request/",
+    ({ db, body }) => {
+      const user = findByIdentifier(db, (body ?? {}) as Record<string, unknown>);
+      if (!user) {
+        return validationError({ non_field_errors: ["No account found with these details."] });
+      }
+      return raw({ message: `An OTP has been sent to ${user.email}`, expires_in_minutes: 10 });
+    },
+    { isPublic: true }
+  );
+
+  router.post(
+    "/api/auth/password-reset-verify/",
+    ({ db, body }) => {
+      const payload = (body ?? {}) as Record<string, unknown>;
+      const user = findByIdentifier(db, payload);
+      const errors = requireFields(payload, ["otp", "new_password", "confirm_password"]);
+      if (!user) {
+        errors.non_field_errors = ["No account found with these details."];
+      }
+      if (payload.otp === INVALID_OTP) {
+        errors.otp = ["Invalid or expired OTP."];
+      }
+      if (payload.new_password !== payload.confirm_password) {
+        errors.confirm_password = ["Passwords do not match."];
+      }
+      if (hasErrors(errors) || !user) {
+        return validationError(errors);
+      }
+
+      user.password = String(payload.new_password);
+      return raw({ message: "Password has been reset successfully" });
+    },
+    { isPublic: true }
+  );
+}
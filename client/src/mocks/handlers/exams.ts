@@ -0,0 +1,722 @@
+/**
+ * Mock Exam Handlers
+ * Grade scales, exam terms with a paper per subject assignment, marks entry
+ * scoped to the paper's teacher, and the published results parents see.
+ * Paper statistics and grades are computed from the stored marks on every
+ * call, the same way the backend annotates its querysets.
+ */
+
+import { DEFAULT_MAX_MARKS, DEFAULT_PASS_PERCENTAGE, ExamStatus } from "@/constants/exams";
+import type { ExamStatusValue } from "@/constants/exams";
+import type {
+  ChildResults,
+  Exam,
+  ExamPaper,
+  ExamResult,
+  GradeScale,
+  MarksSheet,
+} from "@/lib/api/exam-api";
+import {
+  createAudit,
+  findUser,
+  fullName,
+  nextPublicId,
+  nowIso,
+  serializeAudit,
+  touch,
+} from "../db";
+import { asPayload, matchesSearch } from "../query";
+import {
+  created,
+  forbidden,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import { findStudentUser, findTeacherUser, serializeClassInfo } from "../serializers";
+import type {
+  MockDb,
+  MockExam,
+  MockExamMark,
+  MockExamPaper,
+  MockGradeScale,
+  MockStudent,
+  MockUser,
+} from "../db";
+import type { Payload } from "../query";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+/** Status an exam must be in for each transition, and the status it moves to */
+const TRANSITIONS: Record<string, { from: ExamStatusValue; to: ExamStatusValue; message: string }> =
+  {
+    lock: { from: ExamStatus.DRAFT, to: ExamStatus.LOCKED, message: "Marks locked" },
+    unlock: { from: ExamStatus.LOCKED, to: ExamStatus.DRAFT, message: "Marks entry reopened" },
+    publish: {
+      from: ExamStatus.LOCKED,
+      to: ExamStatus.PUBLISHED,
+      message: "Results published to parents",
+    },
+    unpublish: { from: ExamStatus.PUBLISHED, to: ExamStatus.LOCKED, message: "Results withdrawn" },
+  };
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function getBand(scale: MockGradeScale | undefined, percentage: number) {
+  return scale?.bands.find((band) => percentage >= band.min_percentage);
+}
+
+function businessRuleError(message: string) {
+  return validationError({ non_field_errors: [message] }, message);
+}
+
+export function classStudents(db: MockDb, classId: string): MockStudent[] {
+  return db.students
+    .filter((student) => student.class_id === classId && !student.is_deleted)
+    .sort((a, b) => a.roll_number.localeCompare(b.roll_number));
+}
+
+function paperMarks(db: MockDb, paper: MockExamPaper): MockExamMark[] {
+  return db.examMarks.filter((mark) => mark.paper_id === paper.public_id);
+}
+
+function paperClassId(db: MockDb, paper: MockExamPaper): string {
+  return db.subjects.find((item) => item.public_id === paper.subject_id)?.class_id ?? "";
+}
+
+function isMarkEntered(mark: MockExamMark): boolean {
+  return mark.is_absent || mark.marks_obtained !== null;
+}
+
+function isPaperComplete(db: MockDb, paper: MockExamPaper): boolean {
+  const entered = new Set(
+    paperMarks(db, paper)
+      .filter(isMarkEntered)
+      .map((mark) => mark.student_id)
+  );
+  return classStudents(db, paperClassId(db, paper)).every((student) =>
+    entered.has(student.public_id)
+  );
+}
+
+/**
+ * Teachers may only see and enter marks for papers of their own subject assignments
+ */
+function canEnterMarks(db: MockDb, user: MockUser | null, paper: MockExamPaper): boolean {
+  if (user?.role === "admin") {
+    return true;
+  }
+  const teacherId = db.subjects.find((item) => item.public_id === paper.subject_id)?.teacher_id;
+  const teacher = db.teachers.find((item) => item.public_id === teacherId);
+  return user?.role === "teacher" && teacher?.user_id === user.public_id;
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeGradeScale(db: MockDb, scale: MockGradeScale): GradeScale {
+  return {
+    public_id: scale.public_id,
+    name: scale.name,
+    is_default: scale.is_default,
+    bands: scale.bands.map((band) => ({ ...band })),
+    exam_count: db.exams.filter((exam) => exam.grade_scale_id === scale.public_id).length,
+    ...serializeAudit(db, scale),
+  };
+}
+
+function serializeExam(db: MockDb, exam: MockExam): Exam {
+  const scale = db.gradeScales.find((item) => item.public_id === exam.grade_scale_id);
+  const papers = db.examPapers.filter((paper) => paper.exam_id === exam.public_id);
+
+  return {
+    public_id: exam.public_id,
+    name: exam.name,
+    start_date: exam.start_date,
+    end_date: exam.end_date,
+    status: exam.status,
+    grade_scale: { public_id: scale?.public_id ?? "", name: scale?.name ?? "" },
+    classes: exam.class_ids.map((classId) =>
+      serializeClassInfo(
+        db,
+        db.classes.find((item) => item.public_id === classId)
+      )
+    ),
+    paper_count: papers.length,
+    completed_paper_count: papers.filter((paper) => isPaperComplete(db, paper)).length,
+    published_at: exam.published_at,
+    ...serializeAudit(db, exam),
+  };
+}
+
+function serializePaper(db: MockDb, paper: MockExamPaper): ExamPaper {
+  const exam = db.exams.find((item) => item.public_id === paper.exam_id);
+  const subject = db.subjects.find((item) => item.public_id === paper.subject_id);
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject?.subject_id);
+  const masterClass = db.classes.find((item) => item.public_id === subject?.class_id);
+  const teacher = db.teachers.find((item) => item.public_id === subject?.teacher_id);
+  const marks = paperMarks(db, paper);
+  const sat = marks.filter((mark) => !mark.is_absent && mark.marks_obtained !== null);
+  const total = sat.reduce((sum, mark) => sum + (mark.marks_obtained ?? 0), 0);
+
+  return {
+    public_id: paper.public_id,
+    exam: {
+      public_id: exam?.public_id ?? "",
+      name: exam?.name ?? "",
+      status: exam?.status ?? ExamStatus.DRAFT,
+      start_date: exam?.start_date ?? "",
+    },
+    subject_info: {
+      public_id: subject?.public_id ?? "",
+      name: coreSubject?.name ?? "",
+      code: coreSubject?.code ?? "",
+    },
+    class_info: serializeClassInfo(db, masterClass),
+    teacher_info: {
+      public_id: teacher?.public_id ?? "",
+      full_name: teacher ? fullName(findTeacherUser(db, teacher)) : "",
+    },
+    max_marks: paper.max_marks,
+    pass_marks: paper.pass_marks,
+    exam_date: paper.exam_date,
+    student_count: subject ? classStudents(db, subject.class_id).length : 0,
+    marks_entered: marks.filter(isMarkEntered).length,
+    average_percentage:
+      sat.length > 0 ? roundOne((total / sat.length / paper.max_marks) * 100) : null,
+    pass_percentage:
+      sat.length > 0
+        ? roundOne(
+            (sat.filter((mark) => (mark.marks_obtained ?? 0) >= paper.pass_marks).length /
+              sat.length) *
+              100
+          )
+        : null,
+  };
+}
+
+function serializeMarksSheet(db: MockDb, paper: MockExamPaper): MarksSheet {
+  const exam = db.exams.find((item) => item.public_id === paper.exam_id);
+  const scale = db.gradeScales.find((item) => item.public_id === exam?.grade_scale_id);
+  const marks = paperMarks(db, paper);
+
+  return {
+    paper: serializePaper(db, paper),
+    grade_scale: serializeGradeScale(db, scale ?? db.gradeScales[0]),
+    entries: classStudents(db, paperClassId(db, paper)).map((student) => {
+      const mark = marks.find((item) => item.student_id === student.public_id);
+      return {
+        student: {
+          public_id: student.public_id,
+          full_name: fullName(findStudentUser(db, student)),
+          roll_number: student.roll_number,
+        },
+        marks_obtained: mark?.marks_obtained ?? null,
+        is_absent: mark?.is_absent ?? false,
+        remarks: mark?.remarks ?? "",
+      };
+    }),
+  };
+}
+
+export function serializeResult(db: MockDb, exam: MockExam, student: MockStudent): ExamResult {
+  const scale = db.gradeScales.find((item) => item.public_id === exam.grade_scale_id);
+  const papers = db.examPapers.filter(
+    (paper) => paper.exam_id === exam.public_id && paperClassId(db, paper) === student.class_id
+  );
+
+  const subjects = papers.map((paper) => {
+    const subject = db.subjects.find((item) => item.public_id === paper.subject_id);
+    const coreSubject = db.coreSubjects.find((item) => item.id === subject?.subject_id);
+    const mark = paperMarks(db, paper).find((item) => item.student_id === student.public_id);
+    const marksObtained = mark?.is_absent ? null : (mark?.marks_obtained ?? null);
+    const percentage =
+      marksObtained !== null ? roundOne((marksObtained / paper.max_marks) * 100) : null;
+    const band = percentage !== null ? getBand(scale, percentage) : undefined;
+
+    return {
+      subject_name: coreSubject?.name ?? "",
+      subject_code: coreSubject?.code ?? "",
+      max_marks: paper.max_marks,
+      pass_marks: paper.pass_marks,
+      marks_obtained: marksObtained,
+      is_absent: mark?.is_absent ?? false,
+      percentage,
+      grade: band?.grade ?? null,
+      grade_point: band?.grade_point ?? null,
+      remarks: mark?.remarks ?? "",
+    };
+  });
+
+  const totalObtained = subjects.reduce((sum, item) => sum + (item.marks_obtained ?? 0), 0);
+  const totalMax = subjects.reduce((sum, item) => sum + item.max_marks, 0);
+  const percentage = totalMax > 0 ? roundOne((totalObtained / totalMax) * 100) : 0;
+  const graded = subjects.filter((item) => item.grade_point !== null);
+
+  return {
+    exam: {
+      public_id: exam.public_id,
+      name: exam.name,
+      start_date: exam.start_date,
+      end_date: exam.end_date,
+      published_at: exam.published_at,
+    },
+    subjects,
+    total_obtained: totalObtained,
+    total_max: totalMax,
+    percentage,
+    grade: getBand(scale, percentage)?.grade ?? "",
+    gpa:
+      graded.length > 0
+        ? roundOne(graded.reduce((sum, item) => sum + (item.grade_point ?? 0), 0) / graded.length)
+        : 0,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateGradeScale(payload: Payload): FieldErrors {
+  const errors = requireFields(payload, ["name"]);
+  const bands = Array.isArray(payload.bands) ? payload.bands.map(asPayload) : [];
+
+  if (bands.length === 0) {
+    errors.bands = ["Add at least one grade band."];
+    return errors;
+  }
+  const minimums = bands.map((band) => Number(band.min_percentage));
+  const grades = bands.map((band) => String(band.grade ?? "").trim());
+  if (minimums.some((value) => Number.isNaN(value) || value < 0 || value > 100)) {
+    errors.bands = ["Minimum percentages must be between 0 and 100."];
+  } else if (!minimums.includes(0)) {
+    errors.bands = ["The lowest band must start at 0% so every score gets a grade."];
+  } else if (new Set(minimums).size !== minimums.length) {
+    errors.bands = ["Two bands cannot start at the same percentage."];
+  } else if (grades.some((grade) => !grade) || new Set(grades).size !== grades.length) {
+    errors.bands = ["Every band needs a unique grade."];
+  }
+  return errors;
+}
+
+function toBands(payload: Payload): MockGradeScale["bands"] {
+  return (Array.isArray(payload.bands) ? payload.bands.map(asPayload) : [])
+    .map((band) => ({
+      min_percentage: Number(band.min_percentage),
+      grade: String(band.grade).trim(),
+      grade_point: Number(band.grade_point) || 0,
+      description: band.description ? String(band.description).trim() : "",
+    }))
+    .sort((a, b) => b.min_percentage - a.min_percentage);
+}
+
+function validateExam(db: MockDb, payload: Payload): FieldErrors {
+  const errors = requireFields(payload, ["name", "start_date", "end_date", "grade_scale_id"]);
+  const classIds = Array.isArray(payload.class_ids) ? payload.class_ids.map(String) : [];
+
+  if (classIds.length === 0) {
+    errors.class_ids = ["Select at least one class."];
+  } else if (
+    classIds.some(
+      (classId) => !db.classes.some((item) => item.public_id === classId && !item.is_deleted)
+    )
+  ) {
+    errors.class_ids = ["One or more classes do not exist."];
+  }
+  if (payload.start_date && payload.end_date && payload.end_date < payload.start_date) {
+    errors.end_date = ["End date cannot be before the start date."];
+  }
+  if (
+    payload.grade_scale_id &&
+    !db.gradeScales.some((item) => item.public_id === payload.grade_scale_id)
+  ) {
+    errors.grade_scale_id = ["Grade scale not found."];
+  }
+  return errors;
+}
+
+/**
+ * Add a paper for every subject of newly selected sections and drop the
+ * papers (and marks) of sections no longer sitting the exam
+ */
+function syncPapers(db: MockDb, exam: MockExam, payload: Payload): void {
+  const maxMarks = Number(payload.max_marks) || DEFAULT_MAX_MARKS;
+  const passMarks =
+    Number(payload.pass_marks) || Math.ceil((maxMarks * DEFAULT_PASS_PERCENTAGE) / 100);
+
+  const removed = db.examPapers
+    .filter((paper) => paper.exam_id === exam.public_id)
+    .filter((paper) => !exam.class_ids.includes(paperClassId(db, paper)))
+    .map((paper) => paper.public_id);
+  db.examPapers = db.examPapers.filter((paper) => !removed.includes(paper.public_id));
+  db.examMarks = db.examMarks.filter((mark) => !removed.includes(mark.paper_id));
+
+  db.subjects
+    .filter((subject) => exam.class_ids.includes(subject.class_id) && !subject.is_deleted)
+    .filter(
+      (subject) =>
+        !db.examPapers.some(
+          (paper) => paper.exam_id === exam.public_id && paper.subject_id === subject.public_id
+        )
+    )
+    .forEach((subject) => {
+      db.examPapers.push({
+        public_id: nextPublicId(db, "paper"),
+        exam_id: exam.public_id,
+        subject_id: subject.public_id,
+        max_marks: maxMarks,
+        pass_marks: passMarks,
+        exam_date: null,
+      });
+    });
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerExamHandlers(router: MockRouter): void {
+  // Grade scales
+  router.get("/api/exams/grade-scales/", ({ db }) =>
+    ok(db.gradeScales.map((scale) => serializeGradeScale(db, scale)))
+  );
+
+  router.post("/api/exams/grade-scales/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = validateGradeScale(payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const isDefault = Boolean(payload.is_default) || db.gradeScales.length === 0;
+    if (isDefault) {
+      db.gradeScales.forEach((scale) => (scale.is_default = false));
+    }
+    const scale: MockGradeScale = {
+      public_id: nextPublicId(db, "gscale"),
+      name: String(payload.name).trim(),
+      is_default: isDefault,
+      bands: toBands(payload),
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.gradeScales.push(scale);
+    return created(serializeGradeScale(db, scale), "Grade scale created successfully");
+  });
+
+  router.put("/api/exams/grade-scales/:publicId/", ({ db, params, body, user }) => {
+    const scale = db.gradeScales.find((item) => item.public_id === params.publicId);
+    if (!scale) {
+      return notFound("Grade scale");
+    }
+    const payload = asPayload(body);
+    const errors = validateGradeScale(payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    if (payload.is_default) {
+      db.gradeScales.forEach((item) => (item.is_default = false));
+      scale.is_default = true;
+    }
+    scale.name = String(payload.name).trim();
+    scale.bands = toBands(payload);
+    touch(scale, user?.public_id ?? null);
+    return ok(serializeGradeScale(db, scale), "Grade scale updated successfully");
+  });
+
+  router.delete("/api/exams/grade-scales/:publicId/", ({ db, params }) => {
+    const scale = db.gradeScales.find((item) => item.public_id === params.publicId);
+    if (!scale) {
+      return notFound("Grade scale");
+    }
+    if (scale.is_default) {
+      return businessRuleError("Make another scale the default before deleting this one.");
+    }
+    if (db.exams.some((exam) => exam.grade_scale_id === scale.public_id)) {
+      return businessRuleError("Cannot delete a grade scale that exams are using.");
+    }
+    db.gradeScales = db.gradeScales.filter((item) => item !== scale);
+    return ok(null, "Grade scale deleted successfully");
+  });
+
+  // Exam terms
+  router.get("/api/exams/", ({ db, query }) => {
+    const status = query.get("status");
+    const items = db.exams
+      .filter((exam) => !status || exam.status === status)
+      .filter((exam) => matchesSearch(query, [exam.name]))
+      .sort((a, b) => b.start_date.localeCompare(a.start_date))
+      .map((exam) => serializeExam(db, exam));
+    return paginated(items, query);
+  });
+
+  router.post("/api/exams/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = validateExam(db, payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const exam: MockExam = {
+      public_id: nextPublicId(db, "exam"),
+      name: String(payload.name).trim(),
+      start_date: String(payload.start_date),
+      end_date: String(payload.end_date),
+      status: ExamStatus.DRAFT,
+      grade_scale_id: String(payload.grade_scale_id),
+      class_ids: (payload.class_ids as unknown[]).map(String),
+      published_at: null,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.exams.push(exam);
+    syncPapers(db, exam, payload);
+    return created(serializeExam(db, exam), "Exam created successfully");
+  });
+
+  router.get("/api/exams/my-papers/", ({ db, user }) => {
+    const teacher = db.teachers.find((item) => item.user_id === user?.public_id);
+    const subjectIds = new Set(
+      db.subjects
+        .filter((subject) => subject.teacher_id === teacher?.public_id && !subject.is_deleted)
+        .map((subject) => subject.public_id)
+    );
+    return ok(
+      db.examPapers
+        .filter((paper) => subjectIds.has(paper.subject_id))
+        .map((paper) => serializePaper(db, paper))
+        .sort(
+          (a, b) =>
+            b.exam.start_date.localeCompare(a.exam.start_date) ||
+            a.class_info.class_master_name.localeCompare(b.class_info.class_master_name) ||
+            a.class_info.name.localeCompare(b.class_info.name)
+        )
+    );
+  });
+
+  router.get("/api/exams/children-results/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+    const published = db.exams
+      .filter((exam) => exam.status === ExamStatus.PUBLISHED)
+      .sort((a, b) => b.start_date.localeCompare(a.start_date));
+
+    const results: ChildResults[] = children.map((student) => ({
+      student: {
+        public_id: student.public_id,
+        full_name: fullName(findStudentUser(db, student)),
+        roll_number: student.roll_number,
+      },
+      class_info: serializeClassInfo(
+        db,
+        db.classes.find((item) => item.public_id === student.class_id)
+      ),
+      results: published
+        .filter((exam) => exam.class_ids.includes(student.class_id))
+        .map((exam) => serializeResult(db, exam, student)),
+    }));
+    return ok(results);
+  });
+
+  router.get("/api/exams/:publicId/", ({ db, params }) => {
+    const exam = db.exams.find((item) => item.public_id === params.publicId);
+    return exam ? ok(serializeExam(db, exam)) : notFound("Exam");
+  });
+
+  router.put("/api/exams/:publicId/", ({ db, params, body, user }) => {
+    const exam = db.exams.find((item) => item.public_id === params.publicId);
+    if (!exam) {
+      return notFound("Exam");
+    }
+    if (exam.status !== ExamStatus.DRAFT) {
+      return businessRuleError("Unlock the exam before changing it.");
+    }
+    const payload = asPayload(body);
+    const errors = validateExam(db, payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    exam.name = String(payload.name).trim();
+    exam.start_date = String(payload.start_date);
+    exam.end_date = String(payload.end_date);
+    exam.grade_scale_id = String(payload.grade_scale_id);
+    exam.class_ids = (payload.class_ids as unknown[]).map(String);
+    touch(exam, user?.public_id ?? null);
+    syncPapers(db, exam, payload);
+    return ok(serializeExam(db, exam), "Exam updated successfully");
+  });
+
+  router.delete("/api/exams/:publicId/", ({ db, params }) => {
+    const exam = db.exams.find((item) => item.public_id === params.publicId);
+    if (!exam) {
+      return notFound("Exam");
+    }
+    if (exam.status !== ExamStatus.DRAFT) {
+      return businessRuleError("Only exams with marks entry open can be deleted.");
+    }
+    const paperIds = db.examPapers
+      .filter((paper) => paper.exam_id === exam.public_id)
+      .map((paper) => paper.public_id);
+    db.examMarks = db.examMarks.filter((mark) => !paperIds.includes(mark.paper_id));
+    db.examPapers = db.examPapers.filter((paper) => paper.exam_id !== exam.public_id);
+    db.exams = db.exams.filter((item) => item !== exam);
+    return ok(null, "Exam deleted successfully");
+  });
+
+  router.post("/api/exams/:publicId/:action/", ({ db, params, user }) => {
+    const exam = db.exams.find((item) => item.public_id === params.publicId);
+    const transition = TRANSITIONS[params.action];
+    if (!exam || !transition) {
+      return notFound("Exam");
+    }
+    if (exam.status !== transition.from) {
+      return businessRuleError(
+        `Cannot ${params.action} an exam that is ${exam.status.toLowerCase()}.`
+      );
+    }
+
+    exam.status = transition.to;
+    if (transition.to === ExamStatus.PUBLISHED) {
+      exam.published_at = nowIso();
+    } else if (params.action === "unpublish") {
+      exam.published_at = null;
+    }
+    touch(exam, user?.public_id ?? null);
+    return ok(serializeExam(db, exam), transition.message);
+  });
+
+  // Papers and marks
+  router.get("/api/exams/:publicId/papers/", ({ db, params }) => {
+    if (!db.exams.some((item) => item.public_id === params.publicId)) {
+      return notFound("Exam");
+    }
+    return ok(
+      db.examPapers
+        .filter((paper) => paper.exam_id === params.publicId)
+        .map((paper) => serializePaper(db, paper))
+        .sort(
+          (a, b) =>
+            a.class_info.class_master_name.localeCompare(b.class_info.class_master_name) ||
+            a.class_info.name.localeCompare(b.class_info.name) ||
+            a.subject_info.name.localeCompare(b.subject_info.name)
+        )
+    );
+  });
+
+  router.patch("/api/exams/papers/:paperId/", ({ db, params, body }) => {
+    const paper = db.examPapers.find((item) => item.public_id === params.paperId);
+    if (!paper) {
+      return notFound("Paper");
+    }
+    const exam = db.exams.find((item) => item.public_id === paper.exam_id);
+    if (exam?.status !== ExamStatus.DRAFT) {
+      return businessRuleError("Unlock the exam before changing its papers.");
+    }
+
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["max_marks", "pass_marks"]);
+    const maxMarks = Number(payload.max_marks);
+    const passMarks = Number(payload.pass_marks);
+    if (!errors.max_marks && !(maxMarks > 0)) {
+      errors.max_marks = ["Max marks must be greater than 0."];
+    }
+    if (!errors.pass_marks && (passMarks < 0 || passMarks > maxMarks)) {
+      errors.pass_marks = ["Pass marks must be between 0 and the max marks."];
+    }
+    const highest = Math.max(0, ...paperMarks(db, paper).map((mark) => mark.marks_obtained ?? 0));
+    if (!errors.max_marks && highest > maxMarks) {
+      errors.max_marks = [`A student already has ${highest} marks in this paper.`];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    paper.max_marks = maxMarks;
+    paper.pass_marks = passMarks;
+    paper.exam_date = payload.exam_date ? String(payload.exam_date) : null;
+    return ok(serializePaper(db, paper), "Paper updated successfully");
+  });
+
+  router.get("/api/exams/papers/:paperId/marks/", ({ db, params, user }) => {
+    const paper = db.examPapers.find((item) => item.public_id === params.paperId);
+    if (!paper) {
+      return notFound("Paper");
+    }
+    if (!canEnterMarks(db, user, paper)) {
+      return forbidden("You can only view marks of papers for your own subjects.");
+    }
+    return ok(serializeMarksSheet(db, paper));
+  });
+
+  router.put("/api/exams/papers/:paperId/marks/", ({ db, params, body, user }) => {
+    const paper = db.examPapers.find((item) => item.public_id === params.paperId);
+    if (!paper) {
+      return notFound("Paper");
+    }
+    if (!canEnterMarks(db, user, paper)) {
+      return forbidden("You can only enter marks for your own subjects.");
+    }
+    const exam = db.exams.find((item) => item.public_id === paper.exam_id);
+    if (exam?.status !== ExamStatus.DRAFT) {
+      return businessRuleError("Marks are locked for this exam.");
+    }
+
+    const payload = asPayload(body);
+    const entries = Array.isArray(payload.entries) ? payload.entries.map(asPayload) : [];
+    const students = classStudents(db, paperClassId(db, paper));
+    const problems: string[] = [];
+    entries.forEach((entry) => {
+      const student = students.find((item) => item.public_id === entry.student_id);
+      const marks = entry.marks_obtained;
+      if (!student) {
+        problems.push(`Student ${String(entry.student_id)} is not in this class.`);
+      } else if (
+        !entry.is_absent &&
+        marks !== null &&
+        marks !== undefined &&
+        (typeof marks !== "number" || marks < 0 || marks > paper.max_marks)
+      ) {
+        problems.push(
+          `Roll ${student.roll_number}: marks must be between 0 and ${paper.max_marks}.`
+        );
+      }
+    });
+    if (problems.length > 0) {
+      return validationError({ entries: problems }, problems[0]);
+    }
+
+    entries.forEach((entry) => {
+      const studentId = String(entry.student_id);
+      const isAbsent = Boolean(entry.is_absent);
+      const marks =
+        isAbsent || typeof entry.marks_obtained !== "number" ? null : entry.marks_obtained;
+      const remarks = entry.remarks ? String(entry.remarks).trim() : "";
+      db.examMarks = db.examMarks.filter(
+        (mark) => !(mark.paper_id === paper.public_id && mark.student_id === studentId)
+      );
+      if (isAbsent || marks !== null || remarks) {
+        db.examMarks.push({
+          paper_id: paper.public_id,
+          student_id: studentId,
+          marks_obtained: marks,
+          is_absent: isAbsent,
+          remarks,
+        });
+      }
+    });
+    touch(exam, user?.public_id ?? null);
+    return ok(serializeMarksSheet(db, paper), "Marks saved successfully");
+  });
+}
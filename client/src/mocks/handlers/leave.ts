@@ -0,0 +1,1800 @@
+/**
+ * Mock Leave Handlers
+ * Leave allocations, balances, accruals, requests, approval workflows,
+ * reviews and year-end rollovers.
+ * Balances are derived from the requests (approved days are used, pending
+ * days are held) so applying, cancelling and reviewing move the numbers like
+ * the backend. Reviews walk each request's approval chain one step at a time.
+ */
+
+import { format, parseISO } from "date-fns";
+import { NotificationType } from "@/constants/notifications";
+import type {
+  AccrualFrequency,
+  ApprovalWorkflowStep,
+  ApproverType,
+  LeaveAccrualPreview,
+  LeaveAccrualRow,
+  LeaveAccrualRun,
+  LeaveAllocation,
+  LeaveApprovalStep,
+  LeaveApprovalWorkflow,
+  LeaveBalance,
+  LeaveBalanceLedger,
+  LeaveBalanceSummary,
+  LeaveLedgerEntry,
+  LeaveRequest,
+  LeaveRollover,
+  LeaveRolloverPreview,
+  LeaveRolloverRow,
+  LeaveRolloverTotals,
+  TeamLeaveCalendar,
+} from "@/lib/api/leave-api";
+import { summarizeRange } from "../calendar";
+import {
+  createAudit,
+  findUser,
+  fullName,
+  nextPublicId,
+  nowIso,
+  serializeAudit,
+  touch,
+} from "../db";
+import { calculateAccrual, getJoiningDate, getOpeningDays, isAccruing } from "../leave-accruals";
+import {
+  getCurrentStep,
+  getStepApprovers,
+  isAwaitingUser,
+  startApprovalChain,
+} from "../leave-approvals";
+import { deleteLedgerEntries, getLedgerEntries, recordLedgerEntry } from "../leave-ledger";
+import { notify } from "../notifications";
+import { applyOrdering, asPayload, getBooleanParam, inDateRange, readFormData } from "../query";
+import {
+  created,
+  file,
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  validationError,
+} from "../responses";
+import { getOrganizationRoleName, serializeUserSummary } from "../serializers";
+import { toAttachments } from "./assignments";
+import { getPreferenceValue } from "./attendance";
+import { getManageableUsers } from "./organization";
+import type {
+  MockApprovalStep,
+  MockLeaveAccrualRun,
+  MockApprovalWorkflowStep,
+  MockDb,
+  MockLeaveApprovalWorkflow,
+  MockLeaveBalance,
+  MockLeaveRequest,
+  MockLeaveRollover,
+  MockUser,
+} from "../db";
+import type { Payload } from "../query";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeAllocation(
+  db: MockDb,
+  allocation: MockDb["leaveAllocations"][number]
+): LeaveAllocation {
+  const leaveType = db.leaveTypes.find((item) => item.id === allocation.leave_type_id);
+  return {
+    public_id: allocation.public_id,
+    leave_type_id: allocation.leave_type_id,
+    leave_type_name: leaveType?.name ?? "",
+    name: allocation.name,
+    description: allocation.description,
+    total_days: allocation.total_days,
+    max_carry_forward_days: allocation.max_carry_forward_days,
+    roles: db.organizationRoles
+      .filter((role) => allocation.role_ids.includes(role.id))
+      .map((role) => role.name)
+      .join(", "),
+    role_ids: allocation.role_ids,
+    effective_from: allocation.effective_from,
+    effective_to: allocation.effective_to,
+    accrual_frequency: allocation.accrual_frequency,
+    is_prorated: allocation.is_prorated,
+    attachment_required_above_days: allocation.attachment_required_above_days,
+    ...serializeAudit(db, allocation),
+  };
+}
+
+function sumDays(db: MockDb, balanceId: string, status: MockLeaveRequest["status"]): number {
+  return db.leaveRequests
+    .filter((request) => request.balance_id === balanceId && request.status === status)
+    .reduce((total, request) => total + request.number_of_days, 0);
+}
+
+function serializeBalance(db: MockDb, balance: MockLeaveBalance): LeaveBalance {
+  const user = findUser(db, balance.user_id);
+  const allocation = db.leaveAllocations.find((item) => item.public_id === balance.allocation_id);
+  const leaveType = db.leaveTypes.find((item) => item.id === allocation?.leave_type_id);
+  const used = sumDays(db, balance.public_id, "approved");
+  const pending = sumDays(db, balance.public_id, "pending");
+
+  return {
+    public_id: balance.public_id,
+    user: {
+      public_id: user?.public_id ?? "",
+      full_name: fullName(user),
+      email: user?.email ?? "",
+      role: user?.role ?? "",
+    },
+    leave_allocation: {
+      public_id: allocation?.public_id ?? "",
+      name: allocation?.name ?? "",
+      display_name: allocation?.name ?? leaveType?.name ?? "",
+      leave_type: {
+        id: leaveType?.id ?? 0,
+        name: leaveType?.name ?? "",
+        code: leaveType?.code ?? "",
+      },
+      attachment_required_above_days: allocation?.attachment_required_above_days ?? null,
+    },
+    total_allocated: balance.total_allocated,
+    used,
+    pending,
+    available: balance.total_allocated + balance.carried_forward - used - pending,
+    carried_forward: balance.carried_forward,
+    created_at: balance.created_at,
+    updated_at: balance.updated_at,
+  };
+}
+
+function serializeBalanceSummary(db: MockDb, balance: MockLeaveBalance): LeaveBalanceSummary {
+  const serialized = serializeBalance(db, balance);
+  return {
+    public_id: serialized.public_id,
+    leave_type_name: serialized.leave_allocation.leave_type.name,
+    leave_type_code: serialized.leave_allocation.leave_type.code,
+    total_allocated: serialized.total_allocated,
+    used: serialized.used,
+    pending: serialized.pending,
+    available: serialized.available,
+    carried_forward: serialized.carried_forward,
+  };
+}
+
+const APPROVER_TYPES: ApproverType[] = ["supervisor", "organization_role", "admin"];
+
+const ACCRUAL_FREQUENCIES: AccrualFrequency[] = ["upfront", "monthly", "quarterly"];
+
+function serializeWorkflowStep(db: MockDb, step: MockApprovalWorkflowStep): ApprovalWorkflowStep {
+  let label = step.approver_type === "supervisor" ? "Supervisor" : "Admin";
+  if (step.approver_type === "organization_role") {
+    const role = db.organizationRoles.find((item) => item.code === step.organization_role_code);
+    label = role?.name ?? step.organization_role_code ?? "";
+  }
+  return {
+    approver_type: step.approver_type,
+    organization_role_code: step.organization_role_code,
+    label,
+  };
+}
+
+function serializeApprovalWorkflow(
+  db: MockDb,
+  workflow: MockLeaveApprovalWorkflow
+): LeaveApprovalWorkflow {
+  return {
+    public_id: workflow.public_id,
+    name: workflow.name,
+    description: workflow.description,
+    role_ids: workflow.role_ids,
+    role_names: db.organizationRoles
+      .filter((role) => workflow.role_ids.includes(role.id))
+      .map((role) => role.name),
+    leave_type_ids: workflow.leave_type_ids,
+    leave_type_names: db.leaveTypes
+      .filter((leaveType) => workflow.leave_type_ids.includes(leaveType.id))
+      .map((leaveType) => leaveType.name),
+    min_days: workflow.min_days,
+    steps: workflow.steps.map((step) => serializeWorkflowStep(db, step)),
+    is_active: workflow.is_active,
+    ...serializeAudit(db, workflow),
+  };
+}
+
+function serializeApprovalStep(
+  db: MockDb,
+  request: MockLeaveRequest,
+  step: MockApprovalStep,
+  index: number
+): LeaveApprovalStep {
+  const isOpen = step.status === "waiting" || step.status === "pending";
+  return {
+    ...serializeWorkflowStep(db, step),
+    order: index + 1,
+    status: step.status,
+    approvers: isOpen ? getStepApprovers(db, request, step).map((user) => fullName(user)) : [],
+    acted_by_name: step.acted_by ? fullName(findUser(db, step.acted_by)) : null,
+    acted_at: step.acted_at,
+    comments: step.comments,
+  };
+}
+
+function canBeCancelled(request: MockLeaveRequest): boolean {
+  const today = format(new Date(), "yyyy-MM-dd");
+  return (
+    request.status === "pending" || (request.status === "approved" && request.start_date > today)
+  );
+}
+
+function serializeRequest(db: MockDb, request: MockLeaveRequest): LeaveRequest {
+  const user = findUser(db, request.user_id);
+  const supervisor = findUser(db, user?.supervisor_id);
+  const reviewer = findUser(db, request.reviewed_by);
+  const balance = db.leaveBalances.find((item) => item.public_id === request.balance_id);
+  const serializedBalance = balance ? serializeBalance(db, balance) : null;
+  const audit = serializeAudit(db, request);
+  const workflow = db.leaveApprovalWorkflows.find((item) => item.public_id === request.workflow_id);
+  const currentStep = getCurrentStep(request);
+
+  return {
+    public_id: request.public_id,
+    user_public_id: user?.public_id ?? "",
+    user_name: fullName(user),
+    user_role: user?.role ?? "",
+    organization_role: user ? getOrganizationRoleName(db, user) : "",
+    email: user?.email ?? "",
+    supervisor_name: fullName(supervisor),
+    supervisor_public_id: supervisor?.public_id ?? "",
+    leave_balance_public_id: request.balance_id,
+    leave_balance: { public_id: request.balance_id },
+    leave_type_code: serializedBalance?.leave_allocation.leave_type.code ?? "",
+    leave_name: serializedBalance?.leave_allocation.display_name ?? "",
+    start_date: request.start_date,
+    end_date: request.end_date,
+    number_of_days: request.number_of_days.toFixed(1),
+    total_days: request.number_of_days,
+    is_half_day: request.is_half_day,
+    reason: request.reason,
+    remarks: request.remarks,
+    attachments: request.attachments,
+    attachment_required:
+      getAttachmentThreshold(db, request.balance_id, request.number_of_days) !== null,
+    status: request.status,
+    applied_at: request.applied_at,
+    reviewed_by_name: reviewer ? fullName(reviewer) : null,
+    reviewed_by: reviewer?.public_id ?? null,
+    reviewed_at: request.reviewed_at,
+    review_comments: request.review_comments,
+    can_be_cancelled: canBeCancelled(request),
+    workflow_name: workflow?.name ?? null,
+    approval_steps: request.approval_steps.map((step, index) =>
+      serializeApprovalStep(db, request, step, index)
+    ),
+    current_step: currentStep ? request.approval_steps.indexOf(currentStep) + 1 : null,
+    created_at: audit.created_at,
+    updated_at: audit.updated_at,
+    created_by_public_id: audit.created_by_public_id ?? "",
+    created_by_name: audit.created_by_name ?? "",
+    updated_by_public_id: audit.updated_by_public_id ?? "",
+    updated_by_name: audit.updated_by_name ?? "",
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * The allocation's supporting-document threshold when `numberOfDays` of leave
+ * on the balance goes over it, otherwise null
+ */
+function getAttachmentThreshold(
+  db: MockDb,
+  balanceId: string,
+  numberOfDays: number
+): number | null {
+  const balance = db.leaveBalances.find((item) => item.public_id === balanceId);
+  const allocation = db.leaveAllocations.find((item) => item.public_id === balance?.allocation_id);
+  const threshold = allocation?.attachment_required_above_days ?? null;
+  return threshold !== null && numberOfDays > threshold ? threshold : null;
+}
+
+/**
+ * Read an allocation's supporting-document threshold; blank means no rule and
+ * anything other than zero or more days is NaN
+ */
+function toAttachmentRule(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const days = Number(value);
+  return days >= 0 ? days : NaN;
+}
+
+function attachmentRequiredMessage(threshold: number): string {
+  return `Attach a supporting document, such as a medical certificate, for leave longer than ${threshold} day(s).`;
+}
+
+/**
+ * Leave request list filters shared by "my requests" and the review queue
+ */
+function filterRequests(db: MockDb, requests: MockLeaveRequest[], query: URLSearchParams) {
+  const status = query.get("status");
+  const leaveType = query.get("leave_type");
+  const leaveTypeName = query.get("leave_type__name");
+  const numberOfDays = query.get("number_of_days");
+  const minDays = query.get("number_of_days__gte");
+  const maxDays = query.get("number_of_days__lte");
+  const isReviewed = getBooleanParam(query, "is_reviewed");
+
+  const filtered = requests.filter((request) => {
+    const serialized = serializeRequest(db, request);
+    return (
+      (!status || request.status === status) &&
+      inDateRange(request.start_date, query.get("start_date__gte"), null) &&
+      inDateRange(request.end_date, null, query.get("end_date__lte")) &&
+      (!leaveType || serialized.leave_type_code === leaveType) &&
+      (!leaveTypeName ||
+        serialized.leave_name.toLowerCase().includes(leaveTypeName.toLowerCase())) &&
+      (!numberOfDays || request.number_of_days === Number(numberOfDays)) &&
+      (!minDays || request.number_of_days >= Number(minDays)) &&
+      (!maxDays || request.number_of_days <= Number(maxDays)) &&
+      (isReviewed === undefined || (request.reviewed_at !== null) === isReviewed)
+    );
+  });
+
+  return applyOrdering(
+    filtered,
+    query,
+    (request, field) => request[field as keyof MockLeaveRequest] as string,
+    "-applied_at"
+  );
+}
+
+/**
+ * The user's review queue: pending requests waiting on their step, and the
+ * decided requests they took part in or manage
+ */
+function getReviewableRequests(db: MockDb, user: MockUser | null): MockLeaveRequest[] {
+  if (!user) {
+    return [];
+  }
+  const userIds = getManageableUsers(db, user).map((item) => item.public_id);
+  return db.leaveRequests.filter((request) =>
+    request.status === "pending"
+      ? isAwaitingUser(db, request, user)
+      : userIds.includes(request.user_id) ||
+        request.approval_steps.some((step) => step.acted_by === user.public_id)
+  );
+}
+
+/**
+ * Whether the user may open the request: their own, one they manage or one
+ * in their part of its approval chain
+ */
+function canViewRequest(db: MockDb, request: MockLeaveRequest, user: MockUser | null): boolean {
+  if (!user) {
+    return false;
+  }
+  return (
+    request.user_id === user.public_id ||
+    getManageableUsers(db, user).some((item) => item.public_id === request.user_id) ||
+    request.approval_steps.some((step) => step.acted_by === user.public_id) ||
+    isAwaitingUser(db, request, user)
+  );
+}
+
+/**
+ * Approved and pending leave of the staff the user manages that overlaps the
+ * range, with the organization's limit on how many people of one role or
+ * department may be off together
+ */
+function buildTeamCalendar(
+  db: MockDb,
+  user: MockUser | null,
+  fromDate: string,
+  toDate: string
+): TeamLeaveCalendar {
+  const staffIds = getManageableUsers(db, user)
+    .filter((item) => item.role === "admin" || item.role === "teacher")
+    .map((item) => item.public_id);
+  const leaves = db.leaveRequests
+    .filter(
+      (request) =>
+        staffIds.includes(request.user_id) &&
+        (request.status === "approved" || request.status === "pending") &&
+        request.start_date <= toDate &&
+        request.end_date >= fromDate
+    )
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .map((request) => {
+      const balance = db.leaveBalances.find((item) => item.public_id === request.balance_id);
+      const allocation = balance ? serializeBalance(db, balance).leave_allocation : null;
+      const member = findUser(db, request.user_id);
+      return {
+        request_public_id: request.public_id,
+        user_public_id: request.user_id,
+        user_name: fullName(member),
+        user_role: member?.role ?? "",
+        organization_role: member ? getOrganizationRoleName(db, member) : "",
+        department:
+          db.teachers.find((teacher) => teacher.user_id === request.user_id)?.specialization ??
+          null,
+        leave_name: allocation?.display_name ?? "",
+        leave_type_code: allocation?.leave_type.code ?? "",
+        start_date: request.start_date,
+        end_date: request.end_date,
+        is_half_day: request.is_half_day,
+        status: request.status as "approved" | "pending",
+      };
+    });
+
+  const limit = getPreferenceValue(db, "leave_max_concurrent_absences");
+  return {
+    from_date: fromDate,
+    to_date: toDate,
+    max_concurrent_absences: limit === undefined || limit === "" ? null : Number(limit),
+    leaves,
+  };
+}
+
+/**
+ * Ask the approvers of the request's current step to review it
+ */
+function notifyCurrentApprovers(db: MockDb, request: MockLeaveRequest, at: string = nowIso()) {
+  const step = getCurrentStep(request);
+  if (!step) {
+    return;
+  }
+  const requester = findUser(db, request.user_id);
+  notify(
+    db,
+    getStepApprovers(db, request, step).map((item) => item.public_id),
+    {
+      type: NotificationType.LEAVE_REVIEW_REQUESTED,
+      title: "New leave request to review",
+      body: `${fullName(requester)} applied for ${describeRequest(db, request)}.`,
+      link: "/leave-request-reviews",
+    },
+    at
+  );
+}
+
+/**
+ * Leave name and dates for notifications, e.g. "Casual Leave from 3 Mar to 5 Mar"
+ */
+function describeRequest(db: MockDb, request: MockLeaveRequest): string {
+  const { leave_name } = serializeRequest(db, request);
+  const start = format(parseISO(request.start_date), "d MMM");
+  const end = format(parseISO(request.end_date), "d MMM");
+  return start === end ? `${leave_name} on ${start}` : `${leave_name} from ${start} to ${end}`;
+}
+
+function notifyBalanceChanged(db: MockDb, balance: MockLeaveBalance): void {
+  const { leave_allocation, available } = serializeBalance(db, balance);
+  notify(db, [balance.user_id], {
+    type: NotificationType.LEAVE_BALANCE_CHANGED,
+    title: "Leave balance updated",
+    body: `Your ${leave_allocation.display_name} balance now has ${available} day(s) available.`,
+    link: "/leave-requests",
+  });
+}
+
+/**
+ * Post a new balance's opening days to its ledger: the allocation itself
+ * and any days carried over from an earlier balance
+ */
+function recordOpeningEntries(
+  db: MockDb,
+  balance: MockLeaveBalance,
+  createdBy: string | null,
+  carryForwardNote: string
+): void {
+  const allocation = db.leaveAllocations.find((item) => item.public_id === balance.allocation_id);
+  recordLedgerEntry(db, balance.public_id, {
+    entry_type: "allocation",
+    days: balance.total_allocated,
+    created_by: createdBy,
+    note: `Opening balance from ${allocation?.name ?? "allocation"}`,
+    at: balance.created_at,
+  });
+  recordLedgerEntry(db, balance.public_id, {
+    entry_type: "carry_forward",
+    days: balance.carried_forward,
+    created_by: createdBy,
+    note: carryForwardNote,
+    at: balance.created_at,
+  });
+}
+
+/**
+ * Dates and length of a request for ledger lines, e.g. "3 Mar – 5 Mar (3 days)"
+ */
+function summarizeRequestDates(request: MockLeaveRequest): string {
+  const start = format(parseISO(request.start_date), "d MMM");
+  const end = format(parseISO(request.end_date), "d MMM");
+  const dates = start === end ? start : `${start} – ${end}`;
+  return `${dates} (${request.number_of_days} day${request.number_of_days === 1 ? "" : "s"})`;
+}
+
+/**
+ * The balance's ledger, newest first, with the running balance after each
+ * entry worked out oldest first
+ */
+function serializeLedger(db: MockDb, balance: MockLeaveBalance): LeaveBalanceLedger {
+  const serialized = serializeBalance(db, balance);
+  let running = 0;
+  const entries = getLedgerEntries(db, balance.public_id).map((entry): LeaveLedgerEntry => {
+    running += entry.days;
+    const request = db.leaveRequests.find((item) => item.public_id === entry.request_id);
+    const actor = entry.created_by ? findUser(db, entry.created_by) : undefined;
+    return {
+      public_id: entry.public_id,
+      entry_type: entry.entry_type,
+      days: entry.days,
+      balance_after: running,
+      created_at: entry.created_at,
+      actor_name: actor ? fullName(actor) : null,
+      request_public_id: entry.request_id,
+      request_summary: request ? summarizeRequestDates(request) : null,
+      note: entry.note,
+    };
+  });
+
+  return {
+    balance_public_id: balance.public_id,
+    user_name: serialized.user.full_name,
+    leave_type_name: serialized.leave_allocation.display_name,
+    leave_type_code: serialized.leave_allocation.leave_type.code,
+    pending: serialized.pending,
+    entries: entries.reverse(),
+  };
+}
+
+function validateRequest(
+  db: MockDb,
+  user: MockUser,
+  payload: Payload,
+  attachmentCount: number,
+  existing?: MockLeaveRequest
+): { errors: FieldErrors; numberOfDays: number } {
+  const errors = requireFields(payload, ["leave_balance", "start_date", "end_date", "reason"]);
+  const startDate = String(payload.start_date ?? "");
+  const endDate = String(payload.end_date ?? "");
+  const balance = db.leaveBalances.find(
+    (item) => item.public_id === payload.leave_balance && item.user_id === user.public_id
+  );
+
+  if (payload.leave_balance && !balance) {
+    errors.leave_balance = ["Leave balance not found."];
+  }
+  if (startDate && endDate && endDate < startDate) {
+    errors.end_date = ["End date must be on or after the start date."];
+  }
+  if (hasErrors(errors) || !balance) {
+    return { errors, numberOfDays: 0 };
+  }
+
+  const isHalfDay = payload.is_half_day === true || payload.is_half_day === "true";
+  if (isHalfDay && startDate !== endDate) {
+    errors.is_half_day = ["A half day leave must start and end on the same date."];
+  }
+
+  const numberOfDays = isHalfDay ? 0.5 : summarizeRange(db, startDate, endDate).working_days;
+  if (numberOfDays === 0) {
+    errors.non_field_errors = ["The selected dates contain no working days."];
+  }
+
+  const overlapping = db.leaveRequests.some(
+    (request) =>
+      request.user_id === user.public_id &&
+      request.public_id !== existing?.public_id &&
+      (request.status === "pending" || request.status === "approved") &&
+      request.start_date <= endDate &&
+      request.end_date >= startDate
+  );
+  if (overlapping) {
+    errors.non_field_errors = ["You already have a leave request for these dates."];
+  }
+
+  const threshold = getAttachmentThreshold(db, balance.public_id, numberOfDays);
+  if (threshold !== null && attachmentCount === 0) {
+    errors.attachments = [attachmentRequiredMessage(threshold)];
+  }
+
+  const serialized = serializeBalance(db, balance);
+  const heldByExisting = existing?.status === "pending" ? existing.number_of_days : 0;
+  if (numberOfDays > serialized.available + heldByExisting) {
+    errors.non_field_errors = [
+      `Insufficient leave balance. Available: ${serialized.available + heldByExisting} day(s).`,
+    ];
+  }
+
+  return { errors, numberOfDays };
+}
+
+/**
+ * Validate an approval workflow payload and read its steps
+ */
+function validateWorkflow(
+  db: MockDb,
+  payload: Payload
+): { errors: FieldErrors; steps: MockApprovalWorkflowStep[] } {
+  const errors = requireFields(payload, ["name"]);
+  const steps = (Array.isArray(payload.steps) ? payload.steps : []).map((item) => {
+    const step = asPayload(item);
+    const approverType = step.approver_type as ApproverType;
+    return {
+      approver_type: approverType,
+      organization_role_code:
+        approverType === "organization_role" ? String(step.organization_role_code ?? "") : null,
+    };
+  });
+
+  if (steps.length === 0) {
+    errors.steps = ["Add at least one approval step."];
+  } else if (steps.some((step) => !APPROVER_TYPES.includes(step.approver_type))) {
+    errors.steps = ["Choose who approves each step."];
+  } else if (
+    steps.some(
+      (step) =>
+        step.approver_type === "organization_role" &&
+        !db.organizationRoles.some((role) => role.code === step.organization_role_code)
+    )
+  ) {
+    errors.steps = ["Choose the organization role for each role step."];
+  }
+  if (Number(payload.min_days ?? 0) < 0) {
+    errors.min_days = ["Minimum days cannot be negative."];
+  }
+  if (
+    Array.isArray(payload.role_ids) &&
+    payload.role_ids.some((id) => !db.organizationRoles.some((role) => role.id === Number(id)))
+  ) {
+    errors.role_ids = ["Organization role not found."];
+  }
+  if (
+    Array.isArray(payload.leave_type_ids) &&
+    payload.leave_type_ids.some((id) => !db.leaveTypes.some((item) => item.id === Number(id)))
+  ) {
+    errors.leave_type_ids = ["Leave type not found."];
+  }
+
+  return { errors, steps };
+}
+
+function reviewRequest(
+  db: MockDb,
+  reviewer: MockUser | null,
+  publicId: string,
+  status: "approved" | "rejected",
+  comments: unknown
+) {
+  const request = db.leaveRequests.find((item) => item.public_id === publicId);
+  if (!request || !reviewer || !canViewRequest(db, request, reviewer)) {
+    return notFound("Leave request");
+  }
+  if (request.status !== "pending") {
+    return validationError(
+      { non_field_errors: [`This leave request is already ${request.status}.`] },
+      `This leave request is already ${request.status}.`
+    );
+  }
+  const step = getCurrentStep(request);
+  if (!step || !isAwaitingUser(db, request, reviewer)) {
+    return validationError(
+      { non_field_errors: ["This leave request is waiting on another approver."] },
+      "This leave request is waiting on another approver."
+    );
+  }
+  if (status === "rejected" && !comments) {
+    return validationError({ comments: ["Comments are required when rejecting a request."] });
+  }
+  // The rule may have been added after the request was submitted
+  const threshold = getAttachmentThreshold(db, request.balance_id, request.number_of_days);
+  if (status === "approved" && threshold !== null && request.attachments.length === 0) {
+    const message = `Leave longer than ${threshold} day(s) needs a supporting document before it can be approved.`;
+    return validationError({ attachments: [message] }, message);
+  }
+
+  const at = nowIso();
+  step.status = status;
+  step.acted_by = reviewer.public_id;
+  step.acted_at = at;
+  step.comments = String(comments ?? "");
+  touch(request, reviewer.public_id);
+
+  // Approving an intermediate step hands the request to the next approver
+  const nextStep = request.approval_steps.find((item) => item.status === "waiting");
+  if (status === "approved" && nextStep) {
+    nextStep.status = "pending";
+    notifyCurrentApprovers(db, request, at);
+    return ok(
+      serializeRequest(db, request),
+      "Leave request approved and sent to the next approver"
+    );
+  }
+
+  request.approval_steps
+    .filter((item) => item.status === "waiting")
+    .forEach((item) => {
+      item.status = "skipped";
+    });
+  request.status = status;
+  request.reviewed_by = reviewer.public_id;
+  request.reviewed_at = at;
+  request.review_comments = step.comments;
+  if (status === "approved") {
+    recordLedgerEntry(db, request.balance_id, {
+      entry_type: "approval",
+      days: -request.number_of_days,
+      created_by: reviewer.public_id,
+      request_id: request.public_id,
+      note: "Leave approved",
+      at,
+    });
+  }
+  notify(db, [request.user_id], {
+    type: status === "approved" ? NotificationType.LEAVE_APPROVED : NotificationType.LEAVE_REJECTED,
+    title: status === "approved" ? "Leave approved" : "Leave rejected",
+    body: `Your ${describeRequest(db, request)} was ${status} by ${fullName(reviewer)}.`,
+    link: `/leave-requests/${request.public_id}`,
+  });
+  return ok(serializeRequest(db, request), `Leave request ${status} successfully`);
+}
+
+/**
+ * Balances on accruing allocations in effect on `asOf`, with what each user
+ * has earned so far. Balances raised by hand beyond their accrual are left
+ * alone.
+ */
+function buildAccrualRows(db: MockDb, asOf: string): LeaveAccrualRow[] {
+  return db.leaveBalances
+    .filter((balance) => findUser(db, balance.user_id)?.is_active)
+    .flatMap((balance) => {
+      const allocation = db.leaveAllocations.find(
+        (item) => item.public_id === balance.allocation_id
+      );
+      if (
+        !allocation ||
+        !isAccruing(allocation) ||
+        allocation.effective_from > asOf ||
+        (allocation.effective_to !== null && allocation.effective_to < asOf)
+      ) {
+        return [];
+      }
+      const { entitlement, accrued } = calculateAccrual(db, allocation, balance.user_id, asOf);
+      const leaveType = db.leaveTypes.find((item) => item.id === allocation.leave_type_id);
+      return [
+        {
+          balance_public_id: balance.public_id,
+          user_public_id: balance.user_id,
+          user_name: fullName(findUser(db, balance.user_id)),
+          joining_date: getJoiningDate(db, balance.user_id),
+          allocation_name: allocation.name || leaveType?.name || "",
+          leave_type_code: leaveType?.code ?? "",
+          accrual_frequency: allocation.accrual_frequency,
+          is_prorated: allocation.is_prorated,
+          entitlement,
+          accrued,
+          credited: balance.total_allocated,
+          credit: Math.max(0, accrued - balance.total_allocated),
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        a.user_name.localeCompare(b.user_name) || a.allocation_name.localeCompare(b.allocation_name)
+    );
+}
+
+function buildAccrualPreview(db: MockDb, asOf: string): LeaveAccrualPreview {
+  const rows = buildAccrualRows(db, asOf);
+  const due = rows.filter((row) => row.credit > 0);
+  return {
+    as_of: asOf,
+    rows,
+    credits_due: due.length,
+    days_due: due.reduce((total, row) => total + row.credit, 0),
+  };
+}
+
+function serializeAccrualRun(db: MockDb, run: MockLeaveAccrualRun): LeaveAccrualRun {
+  return {
+    public_id: run.public_id,
+    as_of: run.as_of,
+    run_at: run.run_at,
+    run_by_name: fullName(findUser(db, run.run_by)),
+    credits_posted: run.credits_posted,
+    days_credited: run.days_credited,
+  };
+}
+
+/**
+ * Allocations that close in the year: ones ending within it. Open-ended
+ * allocations carry on into the next year and are not rolled over.
+ */
+function getClosingAllocations(db: MockDb, year: number) {
+  return db.leaveAllocations.filter(
+    (allocation) =>
+      allocation.effective_to !== null && parseISO(allocation.effective_to).getFullYear() === year
+  );
+}
+
+function buildRolloverRows(db: MockDb, year: number): LeaveRolloverRow[] {
+  const closing = getClosingAllocations(db, year);
+  return db.leaveBalances
+    .filter((balance) => findUser(db, balance.user_id)?.is_active)
+    .flatMap((balance) => {
+      const allocation = closing.find((item) => item.public_id === balance.allocation_id);
+      if (!allocation) {
+        return [];
+      }
+      const user = findUser(db, balance.user_id);
+      const serialized = serializeBalance(db, balance);
+      const unused = Math.max(0, serialized.available);
+      const maxCarryForward = Number(allocation.max_carry_forward_days);
+      const carryForward = Math.min(unused, maxCarryForward);
+      return [
+        {
+          balance_public_id: balance.public_id,
+          user_public_id: balance.user_id,
+          user_name: fullName(user),
+          organization_role: user ? getOrganizationRoleName(db, user) : "",
+          leave_type_name: serialized.leave_allocation.leave_type.name,
+          leave_type_code: serialized.leave_allocation.leave_type.code,
+          allocated: balance.total_allocated + balance.carried_forward,
+          used: serialized.used,
+          pending: serialized.pending,
+          unused,
+          max_carry_forward: maxCarryForward,
+          carry_forward: carryForward,
+          lapsed: unused - carryForward,
+        },
+      ];
+    })
+    .sort(
+      (a, b) =>
+        a.user_name.localeCompare(b.user_name) || a.leave_type_name.localeCompare(b.leave_type_name)
+    );
+}
+
+function sumRolloverRows(rows: LeaveRolloverRow[]): LeaveRolloverTotals {
+  return {
+    users: new Set(rows.map((row) => row.user_public_id)).size,
+    unused: rows.reduce((total, row) => total + row.unused, 0),
+    carry_forward: rows.reduce((total, row) => total + row.carry_forward, 0),
+    lapsed: rows.reduce((total, row) => total + row.lapsed, 0),
+  };
+}
+
+function buildRolloverPreview(db: MockDb, year: number): LeaveRolloverPreview {
+  const rows = buildRolloverRows(db, year);
+  const balanceIds = new Set(rows.map((row) => row.balance_public_id));
+  const skipped = db.leaveAllocations.filter(
+    (allocation) =>
+      allocation.effective_to === null && parseISO(allocation.effective_from).getFullYear() <= year
+  );
+  return {
+    from_year: year,
+    to_year: year + 1,
+    already_processed: db.leaveRollovers.some((item) => item.from_year === year),
+    rows,
+    totals: sumRolloverRows(rows),
+    pending_requests: db.leaveRequests.filter(
+      (request) => request.status === "pending" && balanceIds.has(request.balance_id)
+    ).length,
+    skipped_allocations: skipped.map(
+      (allocation) =>
+        allocation.name ||
+        db.leaveTypes.find((item) => item.id === allocation.leave_type_id)?.name ||
+        ""
+    ),
+  };
+}
+
+function serializeRollover(db: MockDb, rollover: MockLeaveRollover): LeaveRollover {
+  return {
+    public_id: rollover.public_id,
+    from_year: rollover.from_year,
+    to_year: rollover.to_year,
+    processed_at: rollover.processed_at,
+    processed_by_name: fullName(findUser(db, rollover.processed_by)),
+    allocations_created: rollover.allocations_created,
+    balances_created: rollover.balances_created,
+    totals: sumRolloverRows(rollover.rows),
+  };
+}
+
+function rolloverSummaryCsv(rows: LeaveRolloverRow[]): string {
+  const escape = (value: string | number) =>
+    /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+  return [
+    "user,role,leave_type,allocated,used,pending,unused,max_carry_forward,carried_forward,lapsed",
+    ...rows.map((row) =>
+      [
+        row.user_name,
+        row.organization_role,
+        row.leave_type_name,
+        row.allocated,
+        row.used,
+        row.pending,
+        row.unused,
+        row.max_carry_forward,
+        row.carry_forward,
+        row.lapsed,
+      ]
+        .map(escape)
+        .join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Close the year in one batch: copy each closing allocation into the next
+ * year (unless one for the same leave type already exists there) and open a
+ * balance per row with its carry-forward.
+ */
+function processRollover(db: MockDb, year: number, userId: string | null): MockLeaveRollover {
+  const rows = buildRolloverRows(db, year);
+  const nextYear = year + 1;
+  let allocationsCreated = 0;
+  let balancesCreated = 0;
+
+  const nextAllocations = new Map<string, MockDb["leaveAllocations"][number]>();
+  getClosingAllocations(db, year).forEach((allocation) => {
+    let next = db.leaveAllocations.find(
+      (item) =>
+        item.leave_type_id === allocation.leave_type_id &&
+        parseISO(item.effective_from).getFullYear() === nextYear
+    );
+    if (!next) {
+      next = {
+        ...allocation,
+        public_id: nextPublicId(db, "leavealloc"),
+        role_ids: [...allocation.role_ids],
+        effective_from: `${nextYear}-01-01`,
+        effective_to: `${nextYear}-12-31`,
+        ...createAudit(userId),
+      };
+      db.leaveAllocations.push(next);
+      allocationsCreated += 1;
+    }
+    nextAllocations.set(allocation.public_id, next);
+  });
+
+  rows.forEach((row) => {
+    const balance = db.leaveBalances.find((item) => item.public_id === row.balance_public_id);
+    const next = balance && nextAllocations.get(balance.allocation_id);
+    if (
+      !next ||
+      db.leaveBalances.some(
+        (item) => item.user_id === row.user_public_id && item.allocation_id === next.public_id
+      )
+    ) {
+      return;
+    }
+    const at = nowIso();
+    const nextBalance = {
+      public_id: nextPublicId(db, "leavebal"),
+      user_id: row.user_public_id,
+      allocation_id: next.public_id,
+      total_allocated: getOpeningDays(db, next, row.user_public_id, next.effective_from),
+      carried_forward: row.carry_forward,
+      created_at: at,
+      updated_at: at,
+    };
+    db.leaveBalances.push(nextBalance);
+    recordOpeningEntries(db, nextBalance, userId, `Carried forward from ${year}`);
+    balancesCreated += 1;
+  });
+
+  const rollover: MockLeaveRollover = {
+    public_id: nextPublicId(db, "leaveroll"),
+    from_year: year,
+    to_year: nextYear,
+    processed_at: nowIso(),
+    processed_by: userId,
+    allocations_created: allocationsCreated,
+    balances_created: balancesCreated,
+    rows,
+  };
+  db.leaveRollovers.push(rollover);
+
+  const carriedByUser = new Map<string, number>();
+  rows.forEach((row) =>
+    carriedByUser.set(
+      row.user_public_id,
+      (carriedByUser.get(row.user_public_id) ?? 0) + row.carry_forward
+    )
+  );
+  carriedByUser.forEach((carried, recipient) =>
+    notify(db, [recipient], {
+      type: NotificationType.LEAVE_BALANCE_CHANGED,
+      title: `${nextYear} leave balances ready`,
+      body: `Your ${nextYear} leave balances are ready with ${carried} day(s) carried forward from ${year}.`,
+      link: "/leave-requests",
+    })
+  );
+
+  return rollover;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function registerLeaveHandlers(router: MockRouter): void {
+  // Allocations --------------------------------------------------------------
+
+  router.get("/api/leave/leave-allocations/", ({ db, query }) => {
+    const leaveType = query.get("leave_type");
+    const role = query.get("role");
+    const search = query.get("search")?.toLowerCase();
+
+    const allocations = db.leaveAllocations
+      .filter((item) => !leaveType || item.leave_type_id === Number(leaveType))
+      .filter((item) => !role || item.role_ids.includes(Number(role)))
+      .map((item) => serializeAllocation(db, item))
+      .filter(
+        (item) =>
+          !search ||
+          item.leave_type_name.toLowerCase().includes(search) ||
+          (item.name ?? "").toLowerCase().includes(search)
+      );
+    return paginated(allocations, query);
+  });
+
+  router.post("/api/leave/leave-allocations/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["leave_type", "total_days", "effective_from"]);
+    if (!Array.isArray(payload.roles) || payload.roles.length === 0) {
+      errors.roles = ["Select at least one role."];
+    }
+    if (
+      payload.leave_type &&
+      !db.leaveTypes.some((item) => item.id === Number(payload.leave_type))
+    ) {
+      errors.leave_type = ["Leave type not found."];
+    }
+    if (Number(payload.max_carry_forward_days ?? 0) > Number(payload.total_days ?? 0)) {
+      errors.max_carry_forward_days = ["Carry forward days cannot exceed total days."];
+    }
+    if (
+      payload.accrual_frequency !== undefined &&
+      !ACCRUAL_FREQUENCIES.includes(payload.accrual_frequency as AccrualFrequency)
+    ) {
+      errors.accrual_frequency = ["Select a valid accrual frequency."];
+    }
+    const attachmentRule = toAttachmentRule(payload.attachment_required_above_days);
+    if (Number.isNaN(attachmentRule)) {
+      errors.attachment_required_above_days = ["Enter zero or more days, or leave blank."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const allocation = {
+      public_id: nextPublicId(db, "leavealloc"),
+      leave_type_id: Number(payload.leave_type),
+      name: String(payload.name ?? ""),
+      description: String(payload.description ?? ""),
+      total_days: Number(payload.total_days).toFixed(2),
+      max_carry_forward_days: Number(payload.max_carry_forward_days ?? 0).toFixed(2),
+      role_ids: (payload.roles as unknown[]).map(Number),
+      effective_from: String(payload.effective_from),
+      effective_to: payload.effective_to ? String(payload.effective_to) : null,
+      accrual_frequency: (payload.accrual_frequency as AccrualFrequency | undefined) ?? "upfront",
+      is_prorated: payload.is_prorated === true,
+      attachment_required_above_days: attachmentRule,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.leaveAllocations.push(allocation);
+    return created(serializeAllocation(db, allocation), "Leave allocation created successfully");
+  });
+
+  router.get("/api/leave/leave-allocations/for-user/", ({ db, query }) => {
+    const target = findUser(db, query.get("user_public_id"));
+    if (!target) {
+      return notFound("User");
+    }
+    const roleId = db.organizationRoles.find(
+      (role) => role.code === target.organization_role_code
+    )?.id;
+    const allocations = db.leaveAllocations
+      .filter((item) => roleId !== undefined && item.role_ids.includes(roleId))
+      .map((item) => serializeAllocation(db, item));
+    return paginated(allocations, query);
+  });
+
+  router.get("/api/leave/leave-allocations/:publicId/", ({ db, params }) => {
+    const allocation = db.leaveAllocations.find((item) => item.public_id === params.publicId);
+    return allocation ? ok(serializeAllocation(db, allocation)) : notFound("Leave allocation");
+  });
+
+  router.patch("/api/leave/leave-allocations/:publicId/", ({ db, params, body, user }) => {
+    const allocation = db.leaveAllocations.find((item) => item.public_id === params.publicId);
+    if (!allocation) {
+      return notFound("Leave allocation");
+    }
+    const payload = asPayload(body);
+    if (payload.total_days !== undefined) {
+      allocation.total_days = Number(payload.total_days).toFixed(2);
+    }
+    if (payload.max_carry_forward_days !== undefined) {
+      allocation.max_carry_forward_days = Number(payload.max_carry_forward_days).toFixed(2);
+    }
+    if (Number(allocation.max_carry_forward_days) > Number(allocation.total_days)) {
+      return validationError({
+        max_carry_forward_days: ["Carry forward days cannot exceed total days."],
+      });
+    }
+    if (payload.leave_type !== undefined) {
+      allocation.leave_type_id = Number(payload.leave_type);
+    }
+    if (Array.isArray(payload.roles)) {
+      allocation.role_ids = payload.roles.map(Number);
+    }
+    if (payload.accrual_frequency !== undefined) {
+      if (!ACCRUAL_FREQUENCIES.includes(payload.accrual_frequency as AccrualFrequency)) {
+        return validationError({ accrual_frequency: ["Select a valid accrual frequency."] });
+      }
+      allocation.accrual_frequency = payload.accrual_frequency as AccrualFrequency;
+    }
+    if (payload.is_prorated !== undefined) {
+      allocation.is_prorated = payload.is_prorated === true;
+    }
+    if (payload.attachment_required_above_days !== undefined) {
+      const attachmentRule = toAttachmentRule(payload.attachment_required_above_days);
+      if (Number.isNaN(attachmentRule)) {
+        return validationError({
+          attachment_required_above_days: ["Enter zero or more days, or leave blank."],
+        });
+      }
+      allocation.attachment_required_above_days = attachmentRule;
+    }
+    (["name", "description", "effective_from", "effective_to"] as const).forEach((field) => {
+      if (payload[field] !== undefined) {
+        Object.assign(allocation, {
+          [field]: payload[field] || (field === "effective_to" ? null : ""),
+        });
+      }
+    });
+    touch(allocation, user?.public_id ?? null);
+    return ok(serializeAllocation(db, allocation), "Leave allocation updated successfully");
+  });
+
+  router.delete("/api/leave/leave-allocations/:publicId/", ({ db, params }) => {
+    const allocation = db.leaveAllocations.find((item) => item.public_id === params.publicId);
+    if (!allocation) {
+      return notFound("Leave allocation");
+    }
+    if (db.leaveBalances.some((balance) => balance.allocation_id === allocation.public_id)) {
+      return validationError(
+        { non_field_errors: ["This allocation has leave balances and cannot be deleted."] },
+        "This allocation has leave balances and cannot be deleted."
+      );
+    }
+    db.leaveAllocations = db.leaveAllocations.filter((item) => item !== allocation);
+    return ok(null, "Leave allocation deleted successfully");
+  });
+
+  // Approval workflows -------------------------------------------------------
+
+  router.get("/api/leave/approval-workflows/", ({ db }) =>
+    ok(db.leaveApprovalWorkflows.map((item) => serializeApprovalWorkflow(db, item)))
+  );
+
+  router.post("/api/leave/approval-workflows/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const { errors, steps } = validateWorkflow(db, payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const workflow: MockLeaveApprovalWorkflow = {
+      public_id: nextPublicId(db, "leaveflow"),
+      name: String(payload.name),
+      description: String(payload.description ?? ""),
+      role_ids: Array.isArray(payload.role_ids) ? payload.role_ids.map(Number) : [],
+      leave_type_ids: Array.isArray(payload.leave_type_ids)
+        ? payload.leave_type_ids.map(Number)
+        : [],
+      min_days: Number(payload.min_days ?? 0),
+      steps,
+      is_active: payload.is_active !== false,
+      ...createAudit(user?.public_id ?? null),
+    };
+    db.leaveApprovalWorkflows.push(workflow);
+    return created(
+      serializeApprovalWorkflow(db, workflow),
+      "Approval workflow created successfully"
+    );
+  });
+
+  router.put("/api/leave/approval-workflows/:publicId/", ({ db, params, body, user }) => {
+    const workflow = db.leaveApprovalWorkflows.find((item) => item.public_id === params.publicId);
+    if (!workflow) {
+      return notFound("Approval workflow");
+    }
+    const payload = asPayload(body);
+    const { errors, steps } = validateWorkflow(db, payload);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    // Requests already submitted keep the steps they were given
+    workflow.name = String(payload.name);
+    workflow.description = String(payload.description ?? "");
+    workflow.role_ids = Array.isArray(payload.role_ids) ? payload.role_ids.map(Number) : [];
+    workflow.leave_type_ids = Array.isArray(payload.leave_type_ids)
+      ? payload.leave_type_ids.map(Number)
+      : [];
+    workflow.min_days = Number(payload.min_days ?? 0);
+    workflow.steps = steps;
+    workflow.is_active = payload.is_active !== false;
+    touch(workflow, user?.public_id ?? null);
+    return ok(serializeApprovalWorkflow(db, workflow), "Approval workflow updated successfully");
+  });
+
+  router.delete("/api/leave/approval-workflows/:publicId/", ({ db, params }) => {
+    const workflow = db.leaveApprovalWorkflows.find((item) => item.public_id === params.publicId);
+    if (!workflow) {
+      return notFound("Approval workflow");
+    }
+    if (
+      db.leaveRequests.some(
+        (request) => request.workflow_id === workflow.public_id && request.status === "pending"
+      )
+    ) {
+      return validationError(
+        {
+          non_field_errors: [
+            "Pending requests are following this workflow. Deactivate it instead.",
+          ],
+        },
+        "Pending requests are following this workflow. Deactivate it instead."
+      );
+    }
+    db.leaveApprovalWorkflows = db.leaveApprovalWorkflows.filter((item) => item !== workflow);
+    return ok(null, "Approval workflow deleted successfully");
+  });
+
+  // Accruals -----------------------------------------------------------------
+
+  router.get("/api/leave/accruals/", ({ db }) =>
+    ok(
+      [...db.leaveAccrualRuns]
+        .sort((a, b) => b.run_at.localeCompare(a.run_at))
+        .map((item) => serializeAccrualRun(db, item))
+    )
+  );
+
+  router.get("/api/leave/accruals/preview/", ({ db, query }) => {
+    const asOf = query.get("as_of") || format(new Date(), "yyyy-MM-dd");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return validationError({ as_of: ["Enter a valid date."] });
+    }
+    return ok(buildAccrualPreview(db, asOf));
+  });
+
+  router.post("/api/leave/accruals/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const asOf = String(payload.as_of ?? "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return validationError({ as_of: ["Enter a valid date."] });
+    }
+    if (asOf > format(new Date(), "yyyy-MM-dd")) {
+      return validationError({ as_of: ["Accruals cannot be posted for a future date."] });
+    }
+    const due = buildAccrualRows(db, asOf).filter((row) => row.credit > 0);
+    if (due.length === 0) {
+      const message = "No accrued leave is due to be credited.";
+      return validationError({ non_field_errors: [message] }, message);
+    }
+
+    due.forEach((row) => {
+      const balance = db.leaveBalances.find((item) => item.public_id === row.balance_public_id);
+      if (balance) {
+        recordLedgerEntry(db, balance.public_id, {
+          entry_type: "accrual",
+          days: row.accrued - balance.total_allocated,
+          created_by: user?.public_id ?? null,
+          note: `Accrued as of ${format(parseISO(asOf), "d MMM yyyy")}`,
+        });
+        balance.total_allocated = row.accrued;
+        balance.updated_at = nowIso();
+      }
+    });
+    const run: MockLeaveAccrualRun = {
+      public_id: nextPublicId(db, "leaveacc"),
+      as_of: asOf,
+      run_at: nowIso(),
+      run_by: user?.public_id ?? null,
+      credits_posted: due.length,
+      days_credited: due.reduce((total, row) => total + row.credit, 0),
+    };
+    db.leaveAccrualRuns.push(run);
+
+    const creditedByUser = new Map<string, LeaveAccrualRow[]>();
+    due.forEach((row) =>
+      creditedByUser.set(row.user_public_id, [
+        ...(creditedByUser.get(row.user_public_id) ?? []),
+        row,
+      ])
+    );
+    creditedByUser.forEach((rows, recipient) =>
+      notify(db, [recipient], {
+        type: NotificationType.LEAVE_BALANCE_CHANGED,
+        title: "Leave credited",
+        body: `${rows
+          .map((row) => `${row.credit} day(s) of ${row.allocation_name}`)
+          .join(", ")} credited to your balance.`,
+        link: "/leave-requests",
+      })
+    );
+
+    return created(
+      serializeAccrualRun(db, run),
+      `${run.days_credited} day(s) credited to ${run.credits_posted} balance(s)`
+    );
+  });
+
+  // Year-end rollovers -------------------------------------------------------
+
+  router.get("/api/leave/rollovers/", ({ db }) =>
+    ok(
+      [...db.leaveRollovers]
+        .sort((a, b) => b.processed_at.localeCompare(a.processed_at))
+        .map((item) => serializeRollover(db, item))
+    )
+  );
+
+  router.get("/api/leave/rollovers/preview/", ({ db, query }) => {
+    const year = Number(query.get("year"));
+    if (!Number.isInteger(year) || year < 2000) {
+      return validationError({ year: ["Enter a valid year."] });
+    }
+    return ok(buildRolloverPreview(db, year));
+  });
+
+  router.post("/api/leave/rollovers/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const year = Number(payload.year);
+    if (!Number.isInteger(year) || year < 2000) {
+      return validationError({ year: ["Enter a valid year."] });
+    }
+    if (db.leaveRollovers.some((item) => item.from_year === year)) {
+      const message = `Leave for ${year} has already been rolled over.`;
+      return validationError({ non_field_errors: [message] }, message);
+    }
+    if (buildRolloverRows(db, year).length === 0) {
+      const message = `No leave balances close in ${year}.`;
+      return validationError({ non_field_errors: [message] }, message);
+    }
+
+    const rollover = processRollover(db, year, user?.public_id ?? null);
+    return created(
+      serializeRollover(db, rollover),
+      `Leave rolled over from ${rollover.from_year} to ${rollover.to_year}`
+    );
+  });
+
+  router.get("/api/leave/rollovers/:publicId/summary/", ({ db, params }) => {
+    const rollover = db.leaveRollovers.find((item) => item.public_id === params.publicId);
+    if (!rollover) {
+      return notFound("Leave rollover");
+    }
+    return file(
+      rolloverSummaryCsv(rollover.rows),
+      `leave_rollover_${rollover.from_year}_${rollover.to_year}.csv`
+    );
+  });
+
+  // Balances -----------------------------------------------------------------
+
+  router.post("/api/leave/leave-balances/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["user", "leave_allocation"]);
+    const allocation = db.leaveAllocations.find(
+      (item) => item.public_id === payload.leave_allocation
+    );
+    if (payload.user && !findUser(db, String(payload.user))) {
+      errors.user = ["User not found."];
+    }
+    if (payload.leave_allocation && !allocation) {
+      errors.leave_allocation = ["Leave allocation not found."];
+    }
+    if (
+      db.leaveBalances.some(
+        (item) => item.user_id === payload.user && item.allocation_id === payload.leave_allocation
+      )
+    ) {
+      errors.non_field_errors = ["This user already has a balance for this leave allocation."];
+    }
+    if (hasErrors(errors) || !allocation) {
+      return validationError(errors);
+    }
+
+    const at = nowIso();
+    const balance = {
+      public_id: nextPublicId(db, "leavebal"),
+      user_id: String(payload.user),
+      allocation_id: allocation.public_id,
+      total_allocated: Number(
+        payload.total_allocated ??
+          getOpeningDays(db, allocation, String(payload.user), format(new Date(), "yyyy-MM-dd"))
+      ),
+      carried_forward: Number(payload.carried_forward ?? 0),
+      created_at: at,
+      updated_at: at,
+    };
+    db.leaveBalances.push(balance);
+    recordOpeningEntries(
+      db,
+      balance,
+      user?.public_id ?? null,
+      "Carried forward from a previous balance"
+    );
+    notifyBalanceChanged(db, balance);
+    return created(serializeBalance(db, balance), "Leave balance created successfully");
+  });
+
+  router.get("/api/leave/leave-balances/my-dashboard/", ({ db, user }) => {
+    if (!user) {
+      return notFound("User");
+    }
+    const balances = db.leaveBalances.filter((item) => item.user_id === user.public_id);
+    const requests = db.leaveRequests
+      .filter((item) => item.user_id === user.public_id)
+      .sort((a, b) => b.applied_at.localeCompare(a.applied_at));
+
+    return ok({
+      user: serializeUserSummary(user),
+      leave_balances: balances.map((item) => serializeBalance(db, item)),
+      leave_requests: requests.slice(0, 5).map((item) => serializeRequest(db, item)),
+      summary: {
+        total_leave_types: balances.length,
+        total_requests: requests.length,
+        pending_requests: requests.filter((item) => item.status === "pending").length,
+      },
+    });
+  });
+
+  router.get("/api/leave/leave-balances/my-balance/", ({ db, query, user }) =>
+    paginated(
+      db.leaveBalances
+        .filter((item) => item.user_id === user?.public_id)
+        .map((item) => serializeBalance(db, item)),
+      query
+    )
+  );
+
+  router.get("/api/leave/leave-balances/summary/", ({ db, query, user }) => {
+    const userId = query.get("user") ?? user?.public_id;
+    return ok(
+      db.leaveBalances
+        .filter((item) => item.user_id === userId)
+        .map((item) => serializeBalanceSummary(db, item))
+    );
+  });
+
+  router.get("/api/leave/leave-balances/user/:userPublicId/", ({ db, params }) => {
+    const target = findUser(db, params.userPublicId);
+    if (!target) {
+      return notFound("User");
+    }
+    const balances = db.leaveBalances
+      .filter((item) => item.user_id === target.public_id)
+      .map((item) => serializeBalance(db, item));
+    return ok({
+      user: { ...serializeUserSummary(target), gender: target.gender },
+      balances,
+      total_count: balances.length,
+    });
+  });
+
+  router.get("/api/leave/leave-balances/:publicId/ledger/", ({ db, params }) => {
+    const balance = db.leaveBalances.find((item) => item.public_id === params.publicId);
+    if (!balance) {
+      return notFound("Leave balance");
+    }
+    return ok(serializeLedger(db, balance));
+  });
+
+  router.patch("/api/leave/leave-balances/:publicId/", ({ db, params, body, user }) => {
+    const balance = db.leaveBalances.find((item) => item.public_id === params.publicId);
+    if (!balance) {
+      return notFound("Leave balance");
+    }
+    const payload = asPayload(body);
+    const serialized = serializeBalance(db, balance);
+    const totalAllocated = Number(payload.total_allocated ?? balance.total_allocated);
+    const carriedForward = Number(payload.carried_forward ?? balance.carried_forward);
+    if (totalAllocated + carriedForward < serialized.used + serialized.pending) {
+      return validationError({
+        total_allocated: ["Allocated days cannot be less than the days already used or pending."],
+      });
+    }
+
+    recordLedgerEntry(db, balance.public_id, {
+      entry_type: "adjustment",
+      days: totalAllocated - balance.total_allocated,
+      created_by: user?.public_id ?? null,
+      note: `Allocated days changed from ${balance.total_allocated} to ${totalAllocated}`,
+    });
+    recordLedgerEntry(db, balance.public_id, {
+      entry_type: "adjustment",
+      days: carriedForward - balance.carried_forward,
+      created_by: user?.public_id ?? null,
+      note: `Carried forward days changed from ${balance.carried_forward} to ${carriedForward}`,
+    });
+    balance.total_allocated = totalAllocated;
+    balance.carried_forward = carriedForward;
+    balance.updated_at = nowIso();
+    notifyBalanceChanged(db, balance);
+    return ok(serializeBalance(db, balance), "Leave balance updated successfully");
+  });
+
+  router.delete("/api/leave/leave-balances/:publicId/", ({ db, params }) => {
+    const balance = db.leaveBalances.find((item) => item.public_id === params.publicId);
+    if (!balance) {
+      return notFound("Leave balance");
+    }
+    if (db.leaveRequests.some((request) => request.balance_id === balance.public_id)) {
+      return validationError(
+        { non_field_errors: ["This balance has leave requests and cannot be deleted."] },
+        "This balance has leave requests and cannot be deleted."
+      );
+    }
+    db.leaveBalances = db.leaveBalances.filter((item) => item !== balance);
+    deleteLedgerEntries(db, balance.public_id);
+    return ok(null, "Leave balance deleted successfully");
+  });
+
+  // Requests -----------------------------------------------------------------
+
+  router.get("/api/leave/leave-requests/", ({ db, query, user }) => {
+    const targetId = query.get("user") ?? user?.public_id;
+    const requests = db.leaveRequests.filter((item) => item.user_id === targetId);
+    return paginated(
+      filterRequests(db, requests, query).map((item) => serializeRequest(db, item)),
+      query
+    );
+  });
+
+  router.post("/api/leave/leave-requests/", ({ db, body, user }) => {
+    if (!user) {
+      return notFound("User");
+    }
+    const { payload, files } = readFormData(body);
+    const { errors, numberOfDays } = validateRequest(
+      db,
+      user,
+      payload,
+      files.attachments?.length ?? 0
+    );
+    const attachments = toAttachments(db, files.attachments ?? []);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string") {
+      return validationError(errors);
+    }
+
+    const at = nowIso();
+    const request: MockLeaveRequest = {
+      public_id: nextPublicId(db, "leavereq"),
+      user_id: user.public_id,
+      balance_id: String(payload.leave_balance),
+      start_date: String(payload.start_date),
+      end_date: String(payload.end_date),
+      number_of_days: numberOfDays,
+      is_half_day: payload.is_half_day === true || payload.is_half_day === "true",
+      reason: String(payload.reason),
+      remarks: String(payload.remarks ?? ""),
+      attachments,
+      status: "pending" as const,
+      applied_at: at,
+      reviewed_by: null,
+      reviewed_at: null,
+      review_comments: "",
+      workflow_id: null,
+      approval_steps: [],
+      ...createAudit(user.public_id, at),
+    };
+    startApprovalChain(db, request);
+    db.leaveRequests.push(request);
+    notifyCurrentApprovers(db, request, at);
+    return created(serializeRequest(db, request), "Leave request submitted successfully");
+  });
+
+  router.post("/api/leave/leave-requests/calculate-working-days/", ({ db, body }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["start_date", "end_date"]);
+    if (!hasErrors(errors) && String(payload.end_date) < String(payload.start_date)) {
+      errors.end_date = ["End date must be on or after the start date."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    return ok(summarizeRange(db, String(payload.start_date), String(payload.end_date)));
+  });
+
+  router.get("/api/leave/leave-requests/:publicId/", ({ db, params, user }) => {
+    const request = db.leaveRequests.find((item) => item.public_id === params.publicId);
+    return request && canViewRequest(db, request, user)
+      ? ok(serializeRequest(db, request))
+      : notFound("Leave request");
+  });
+
+  router.patch("/api/leave/leave-requests/:publicId/", ({ db, params, body, user }) => {
+    const request = db.leaveRequests.find(
+      (item) => item.public_id === params.publicId && item.user_id === user?.public_id
+    );
+    if (!request || !user) {
+      return notFound("Leave request");
+    }
+    if (request.status !== "pending") {
+      return validationError(
+        { non_field_errors: ["Only pending leave requests can be edited."] },
+        "Only pending leave requests can be edited."
+      );
+    }
+
+    const { payload: changes, files } = readFormData(body);
+    const payload: Payload = {
+      leave_balance: request.balance_id,
+      start_date: request.start_date,
+      end_date: request.end_date,
+      reason: request.reason,
+      is_half_day: request.is_half_day,
+      ...changes,
+    };
+    const removedIds = ([] as unknown[]).concat(changes.removed_attachment_ids ?? []).map(String);
+    const kept = request.attachments.filter((item) => !removedIds.includes(item.public_id));
+    const { errors, numberOfDays } = validateRequest(
+      db,
+      user,
+      payload,
+      kept.length + (files.attachments?.length ?? 0),
+      request
+    );
+    const attachments = toAttachments(db, files.attachments ?? [], kept.length);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string") {
+      return validationError(errors);
+    }
+
+    request.balance_id = String(payload.leave_balance);
+    request.start_date = String(payload.start_date);
+    request.end_date = String(payload.end_date);
+    request.reason = String(payload.reason);
+    request.is_half_day = payload.is_half_day === true || payload.is_half_day === "true";
+    request.remarks = String(payload.remarks ?? request.remarks);
+    request.attachments = [...kept, ...attachments];
+    request.number_of_days = numberOfDays;
+    touch(request, user.public_id);
+    // The edited request may need a different chain; approvals start over
+    startApprovalChain(db, request);
+    notifyCurrentApprovers(db, request);
+    return ok(serializeRequest(db, request), "Leave request updated successfully");
+  });
+
+  router.post("/api/leave/leave-requests/:publicId/cancel/", ({ db, params, user }) => {
+    const request = db.leaveRequests.find(
+      (item) => item.public_id === params.publicId && item.user_id === user?.public_id
+    );
+    if (!request) {
+      return notFound("Leave request");
+    }
+    if (!canBeCancelled(request)) {
+      return validationError(
+        { non_field_errors: ["This leave request can no longer be cancelled."] },
+        "This leave request can no longer be cancelled."
+      );
+    }
+    if (request.status === "approved") {
+      recordLedgerEntry(db, request.balance_id, {
+        entry_type: "cancellation",
+        days: request.number_of_days,
+        created_by: user?.public_id ?? null,
+        request_id: request.public_id,
+        note: "Approved leave cancelled",
+      });
+    }
+    request.status = "cancelled";
+    request.approval_steps
+      .filter((step) => step.status === "waiting" || step.status === "pending")
+      .forEach((step) => {
+        step.status = "skipped";
+      });
+    touch(request, user?.public_id ?? null);
+    return ok(serializeRequest(db, request), "Leave request cancelled successfully");
+  });
+
+  // Reviews ------------------------------------------------------------------
+
+  router.get("/api/leave/leave-request-reviews/", ({ db, query, user }) => {
+    const role = query.get("role");
+    const requests = getReviewableRequests(db, user).filter((request) => {
+      const requester = findUser(db, request.user_id);
+      if (role === "staff") {
+        return requester?.role === "admin" || requester?.role === "teacher";
+      }
+      if (role === "student") {
+        return requester?.role === "student";
+      }
+      return true;
+    });
+    const userFilter = query.get("user");
+    return paginated(
+      filterRequests(db, requests, query)
+        .filter((item) => !userFilter || item.user_id === userFilter)
+        .map((item) => serializeRequest(db, item)),
+      query
+    );
+  });
+
+  router.get("/api/leave/leave-request-reviews/:publicId/", ({ db, params, user }) => {
+    const request = db.leaveRequests.find((item) => item.public_id === params.publicId);
+    return request && canViewRequest(db, request, user)
+      ? ok(serializeRequest(db, request))
+      : notFound("Leave request");
+  });
+
+  router.post("/api/leave/leave-request-reviews/:publicId/approve/", ({ db, params, body, user }) =>
+    reviewRequest(db, user, params.publicId, "approved", asPayload(body).comments)
+  );
+
+  router.post("/api/leave/leave-request-reviews/:publicId/reject/", ({ db, params, body, user }) =>
+    reviewRequest(db, user, params.publicId, "rejected", asPayload(body).comments)
+  );
+
+  // Children (parent) --------------------------------------------------------
+
+  router.get("/api/leave/children/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+    return ok(
+      children.map((student) => ({
+        student: {
+          public_id: student.public_id,
+          full_name: fullName(findUser(db, student.user_id)),
+          roll_number: student.roll_number,
+        },
+        requests: db.leaveRequests
+          .filter((request) => request.user_id === student.user_id)
+          .sort((a, b) => b.start_date.localeCompare(a.start_date))
+          .map((request) => serializeRequest(db, request)),
+      }))
+    );
+  });
+
+  // Team calendar ------------------------------------------------------------
+
+  router.get("/api/leave/team-calendar/", ({ db, query, user }) => {
+    const fromDate = query.get("from_date") ?? "";
+    const toDate = query.get("to_date") ?? "";
+    const errors = requireFields({ from_date: fromDate, to_date: toDate }, [
+      "from_date",
+      "to_date",
+    ]);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+    if (toDate < fromDate) {
+      return validationError({ to_date: ["End date must be on or after the start date."] });
+    }
+    return ok(buildTeamCalendar(db, user, fromDate, toDate));
+  });
+}
@@ -0,0 +1,426 @@
+/**
+ * Mock Message Handlers
+ * Conversations between a parent and their child's class teacher or subject
+ * teachers, with attachments and read tracking. Messages sent during the
+ * organization's quiet hours are held and reach the recipient when they end;
+ * delivery is worked out from the clock on every call, so no job releases them.
+ */
+
+import { format } from "date-fns";
+import type {
+  Message,
+  MessageContacts,
+  MessageTeacher,
+  MessageThread,
+  MessageThreadDetail,
+  QuietHours,
+} from "@/lib/api/message-api";
+import { findUser, fullName, nextPublicId, nowIso } from "../db";
+import { readFormData } from "../query";
+import {
+  created,
+  forbidden,
+  hasErrors,
+  notFound,
+  ok,
+  requireFields,
+  validationError,
+} from "../responses";
+import { findStudentUser, findTeacherUser, serializeClassInfo } from "../serializers";
+import { toAttachments } from "./assignments";
+import { getPreferenceValue } from "./attendance";
+import type { MockDb, MockMessage, MockMessageThread, MockStudent, MockUser } from "../db";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+// ============================================================================
+// Quiet Hours
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function getQuietHours(db: MockDb) {
+  return {
+    enabled: getPreferenceValue(db, "message_quiet_hours_enabled") === "true",
+    start: String(getPreferenceValue(db, "message_quiet_hours_start") ?? "20:00"),
+    end: String(getPreferenceValue(db, "message_quiet_hours_end") ?? "07:00"),
+  };
+}
+
+/**
+ * When a message sent at `at` reaches the recipient: straight away, or when
+ * quiet hours end. The window may run past midnight, e.g. 20:00 - 07:00.
+ */
+function getDeliveryTime(db: MockDb, at: Date): Date {
+  const { enabled, start, end } = getQuietHours(db);
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const isQuiet =
+    enabled &&
+    startMinutes !== endMinutes &&
+    (startMinutes < endMinutes
+      ? minutes >= startMinutes && minutes < endMinutes
+      : minutes >= startMinutes || minutes < endMinutes);
+  if (!isQuiet) {
+    return at;
+  }
+
+  const resumesAt = new Date(at);
+  resumesAt.setHours(Math.floor(endMinutes / 60), endMinutes % 60, 0, 0);
+  if (resumesAt <= at) {
+    resumesAt.setDate(resumesAt.getDate() + 1);
+  }
+  return resumesAt;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function findOwnTeacherId(db: MockDb, user: MockUser | null): string | undefined {
+  return db.teachers.find((item) => item.user_id === user?.public_id && !item.is_deleted)
+    ?.public_id;
+}
+
+function findChildren(db: MockDb, user: MockUser | null): MockStudent[] {
+  const email = findUser(db, user?.public_id)?.email;
+  return db.students.filter(
+    (student) => !!email && student.guardian_email === email && !student.is_deleted
+  );
+}
+
+function isParticipant(db: MockDb, user: MockUser | null, thread: MockMessageThread): boolean {
+  return (
+    !!user &&
+    (thread.parent_id === user.public_id || findOwnTeacherId(db, user) === thread.teacher_id)
+  );
+}
+
+/**
+ * The class teacher and subject teachers of the student's section, each with
+ * every reason they teach the student
+ */
+function getChildTeachers(db: MockDb, student: MockStudent): MessageTeacher[] {
+  const roles = new Map<string, string[]>();
+  const addRole = (teacherId: string, role: string) =>
+    roles.set(teacherId, [...(roles.get(teacherId) ?? []), role]);
+
+  const masterClass = db.classes.find((item) => item.public_id === student.class_id);
+  if (masterClass?.class_teacher_id) {
+    addRole(masterClass.class_teacher_id, "Class Teacher");
+  }
+  db.subjects
+    .filter((subject) => subject.class_id === student.class_id && !subject.is_deleted)
+    .forEach((subject) => {
+      const coreSubject = db.coreSubjects.find((item) => item.id === subject.subject_id);
+      addRole(subject.teacher_id, coreSubject?.name ?? "Subject Teacher");
+    });
+
+  return Array.from(roles).flatMap(([teacherId, teacherRoles]) => {
+    const teacher = db.teachers.find((item) => item.public_id === teacherId && !item.is_deleted);
+    return teacher
+      ? [
+          {
+            public_id: teacher.public_id,
+            full_name: fullName(findTeacherUser(db, teacher)),
+            roles: teacherRoles,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Messages of a thread the user can see, oldest first: everything they sent,
+ * and what the other participant sent once it has been delivered
+ */
+function visibleMessages(db: MockDb, user: MockUser | null, threadId: string): MockMessage[] {
+  const now = nowIso();
+  return db.messages
+    .filter(
+      (message) =>
+        message.thread_id === threadId &&
+        (message.sender_id === user?.public_id || message.delivered_at <= now)
+    )
+    .sort((a, b) => a.sent_at.localeCompare(b.sent_at));
+}
+
+function isUnread(user: MockUser | null, message: MockMessage): boolean {
+  return (
+    message.sender_id !== user?.public_id &&
+    message.read_at === null &&
+    message.delivered_at <= nowIso()
+  );
+}
+
+function createMessage(
+  db: MockDb,
+  user: MockUser | null,
+  threadId: string,
+  body: string,
+  attachments: MockMessage["attachments"]
+): MockMessage {
+  const sentAt = new Date();
+  const message: MockMessage = {
+    public_id: nextPublicId(db, "message"),
+    thread_id: threadId,
+    sender_id: user?.public_id ?? "",
+    body,
+    attachments,
+    sent_at: sentAt.toISOString(),
+    delivered_at: getDeliveryTime(db, sentAt).toISOString(),
+    read_at: null,
+  };
+  db.messages.push(message);
+  return message;
+}
+
+function getSentMessage(message: MockMessage): string {
+  return message.delivered_at > message.sent_at
+    ? `Sent during quiet hours; it will be delivered at ${format(new Date(message.delivered_at), "HH:mm")}`
+    : "Message sent";
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeMessage(db: MockDb, user: MockUser | null, message: MockMessage): Message {
+  return {
+    public_id: message.public_id,
+    sender: {
+      public_id: message.sender_id,
+      full_name: fullName(findUser(db, message.sender_id)),
+    },
+    is_own: message.sender_id === user?.public_id,
+    body: message.body,
+    attachments: message.attachments.map((item) => ({ ...item })),
+    sent_at: message.sent_at,
+    delivered_at: message.delivered_at,
+    is_delivered: message.delivered_at <= nowIso(),
+    read_at: message.read_at,
+  };
+}
+
+function serializeThread(
+  db: MockDb,
+  user: MockUser | null,
+  thread: MockMessageThread
+): MessageThread {
+  const student = db.students.find((item) => item.public_id === thread.student_id);
+  const teacher = db.teachers.find((item) => item.public_id === thread.teacher_id);
+  const messages = visibleMessages(db, user, thread.public_id);
+  const lastMessage = messages[messages.length - 1];
+
+  return {
+    public_id: thread.public_id,
+    subject: thread.subject,
+    student: {
+      public_id: student?.public_id ?? "",
+      full_name: student ? fullName(findStudentUser(db, student)) : "",
+      roll_number: student?.roll_number ?? "",
+    },
+    class_info: serializeClassInfo(
+      db,
+      db.classes.find((item) => item.public_id === student?.class_id)
+    ),
+    parent: {
+      public_id: thread.parent_id,
+      full_name: fullName(findUser(db, thread.parent_id)),
+    },
+    teacher: {
+      public_id: thread.teacher_id,
+      full_name: teacher ? fullName(findTeacherUser(db, teacher)) : "",
+      roles:
+        (student &&
+          getChildTeachers(db, student).find((item) => item.public_id === thread.teacher_id)
+            ?.roles) ||
+        [],
+    },
+    last_message: lastMessage
+      ? {
+          body: lastMessage.body,
+          sender_name: fullName(findUser(db, lastMessage.sender_id)),
+          is_own: lastMessage.sender_id === user?.public_id,
+          sent_at: lastMessage.sent_at,
+        }
+      : null,
+    unread_count: messages.filter((message) => isUnread(user, message)).length,
+    created_at: thread.created_at,
+    updated_at: lastMessage?.sent_at ?? thread.created_at,
+  };
+}
+
+function serializeThreadDetail(
+  db: MockDb,
+  user: MockUser | null,
+  thread: MockMessageThread
+): MessageThreadDetail {
+  return {
+    thread: serializeThread(db, user, thread),
+    messages: visibleMessages(db, user, thread.public_id).map((message) =>
+      serializeMessage(db, user, message)
+    ),
+  };
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerMessageHandlers(router: MockRouter): void {
+  router.get("/api/messages/threads/", ({ db, user }) =>
+    ok(
+      db.messageThreads
+        .filter((thread) => isParticipant(db, user, thread))
+        .map((thread) => serializeThread(db, user, thread))
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    )
+  );
+
+  router.post("/api/messages/threads/", ({ db, body, user }) => {
+    if (user?.role !== "parent") {
+      return forbidden("Only parents can start a conversation. Reply in an existing one.");
+    }
+
+    const { payload, files } = readFormData(body);
+    const errors = requireFields(payload, ["student_id", "teacher_id", "subject"]);
+    const child = findChildren(db, user).find((item) => item.public_id === payload.student_id);
+    if (payload.student_id && !child) {
+      errors.student_id = ["You can only write about your own children."];
+    }
+    if (
+      child &&
+      payload.teacher_id &&
+      !getChildTeachers(db, child).some((item) => item.public_id === payload.teacher_id)
+    ) {
+      errors.teacher_id = ["Choose one of your child's teachers."];
+    }
+    const messageBody = payload.body ? String(payload.body).trim() : "";
+    if (!messageBody && !files.attachments?.length) {
+      errors.body = ["Write a message or attach a file."];
+    }
+    const attachments = toAttachments(db, files.attachments ?? []);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string" || !child) {
+      return validationError(errors);
+    }
+
+    const thread: MockMessageThread = {
+      public_id: nextPublicId(db, "thread"),
+      student_id: child.public_id,
+      parent_id: user.public_id,
+      teacher_id: String(payload.teacher_id),
+      subject: String(payload.subject).trim(),
+      created_at: nowIso(),
+    };
+    db.messageThreads.push(thread);
+    const message = createMessage(db, user, thread.public_id, messageBody, attachments);
+    return created(serializeThreadDetail(db, user, thread), getSentMessage(message));
+  });
+
+  router.get("/api/messages/threads/:publicId/", ({ db, params, user }) => {
+    const thread = db.messageThreads.find((item) => item.public_id === params.publicId);
+    if (!thread) {
+      return notFound("Conversation");
+    }
+    if (!isParticipant(db, user, thread)) {
+      return forbidden("You can only open your own conversations.");
+    }
+    return ok(serializeThreadDetail(db, user, thread));
+  });
+
+  router.post("/api/messages/threads/:publicId/messages/", ({ db, params, body, user }) => {
+    const thread = db.messageThreads.find((item) => item.public_id === params.publicId);
+    if (!thread) {
+      return notFound("Conversation");
+    }
+    if (!isParticipant(db, user, thread)) {
+      return forbidden("You can only reply in your own conversations.");
+    }
+
+    const { payload, files } = readFormData(body);
+    const errors: FieldErrors = {};
+    const messageBody = payload.body ? String(payload.body).trim() : "";
+    if (!messageBody && !files.attachments?.length) {
+      errors.body = ["Write a message or attach a file."];
+    }
+    const attachments = toAttachments(db, files.attachments ?? []);
+    if (typeof attachments === "string") {
+      errors.attachments = [attachments];
+    }
+    if (hasErrors(errors) || typeof attachments === "string") {
+      return validationError(errors);
+    }
+
+    const message = createMessage(db, user, thread.public_id, messageBody, attachments);
+    return created(serializeMessage(db, user, message), getSentMessage(message));
+  });
+
+  router.post("/api/messages/threads/:publicId/read/", ({ db, params, user }) => {
+    const thread = db.messageThreads.find((item) => item.public_id === params.publicId);
+    if (!thread) {
+      return notFound("Conversation");
+    }
+    if (!isParticipant(db, user, thread)) {
+      return forbidden("You can only open your own conversations.");
+    }
+
+    const readAt = nowIso();
+    visibleMessages(db, user, thread.public_id)
+      .filter((message) => isUnread(user, message))
+      .forEach((message) => {
+        message.read_at = readAt;
+      });
+    return ok(null, "Conversation marked as read");
+  });
+
+  router.get("/api/messages/contacts/", ({ db, user }) => {
+    const results: MessageContacts[] = findChildren(db, user).map((student) => ({
+      student: {
+        public_id: student.public_id,
+        full_name: fullName(findStudentUser(db, student)),
+        roll_number: student.roll_number,
+      },
+      class_info: serializeClassInfo(
+        db,
+        db.classes.find((item) => item.public_id === student.class_id)
+      ),
+      teachers: getChildTeachers(db, student),
+    }));
+    return ok(results);
+  });
+
+  router.get("/api/messages/unread-count/", ({ db, user }) => {
+    const threadIds = new Set(
+      db.messageThreads
+        .filter((thread) => isParticipant(db, user, thread))
+        .map((thread) => thread.public_id)
+    );
+    return ok({
+      unread_count: db.messages.filter(
+        (message) => threadIds.has(message.thread_id) && isUnread(user, message)
+      ).length,
+    });
+  });
+
+  router.get("/api/messages/quiet-hours/", ({ db }) => {
+    const { enabled, start, end } = getQuietHours(db);
+    const now = new Date();
+    const resumesAt = getDeliveryTime(db, now);
+    const quietHours: QuietHours = {
+      enabled,
+      start_time: start,
+      end_time: end,
+      is_active: resumesAt > now,
+      resumes_at: resumesAt > now ? resumesAt.toISOString() : null,
+    };
+    return ok(quietHours);
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Mock Notification Handlers
+ * The signed-in user's in-app notifications and marking them read. New
+ * notifications are created by the other handlers through notify() and
+ * reach open streams through the stand-in EventSource, which is opened with a
+ * short-lived ticket issued here.
+ */
+
+import { findUser, nowIso } from "../db";
+import { serializeNotification } from "../notifications";
+import { notFound, ok, unauthorized } from "../responses";
+import type { MockDb, MockUser } from "../db";
+import type { MockRouter } from "../router";
+
+/** How many of the latest notifications the feed returns */
+const FEED_SIZE = 30;
+/** How long a stream ticket stays valid once issued */
+const STREAM_TICKET_TTL_MS = 30_000;
+
+// ============================================================================
+// Stream Tickets
+// ============================================================================
+
+/**
+ * Resolve and consume a stream ticket. Returns null when it is unknown,
+ * already used or expired.
+ */
+export function redeemStreamTicket(db: MockDb, ticket: string | null): MockUser | null {
+  const entry = ticket ? db.streamTickets.get(ticket) : undefined;
+  if (!ticket || !entry) {
+    return null;
+  }
+
+  db.streamTickets.delete(ticket);
+  if (entry.expires_at <= Date.now()) {
+    return null;
+  }
+
+  const user = findUser(db, entry.user_id);
+  return user?.is_active ? user : null;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function registerNotificationHandlers(router: MockRouter): void {
+  router.post("/api/notifications/stream-ticket/", ({ db, user }) => {
+    if (!user) {
+      return unauthorized();
+    }
+
+    const now = Date.now();
+    // Drop expired tickets that were never redeemed
+    db.streamTickets.forEach((entry, ticket) => {
+      if (entry.expires_at <= now) {
+        db.streamTickets.delete(ticket);
+      }
+    });
+
+    const ticket = `stream-${user.public_id}-${now}-${Math.random().toString(36).slice(2)}`;
+    const expiresAt = now + STREAM_TICKET_TTL_MS;
+    db.streamTickets.set(ticket, { user_id: user.public_id, expires_at: expiresAt });
+    return ok({ ticket, expires_at: new Date(expiresAt).toISOString() });
+  });
+
+  router.get("/api/notifications/", ({ db, user }) => {
+    const notifications = db.notifications
+      .filter((item) => item.user_id === user?.public_id)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return ok({
+      notifications: notifications.slice(0, FEED_SIZE).map(serializeNotification),
+      unread_count: notifications.filter((item) => !item.read_at).length,
+    });
+  });
+
+  router.post("/api/notifications/read-all/", ({ db, user }) => {
+    const readAt = nowIso();
+    db.notifications
+      .filter((item) => item.user_id === user?.public_id && !item.read_at)
+      .forEach((item) => {
+        item.read_at = readAt;
+      });
+    return ok(null, "All notifications marked as read");
+  });
+
+  router.post("/api/notifications/:publicId/read/", ({ db, params, user }) => {
+    const notification = db.notifications.find(
+      (item) => item.public_id === params.publicId && item.user_id === user?.public_id
+    );
+    if (!notification) {
+      return notFound("Notification");
+    }
+    if (!notification.read_at) {
+      notification.read_at = nowIso();
+    }
+    return ok(serializeNotification(notification), "Notification marked as read");
+  });
+}
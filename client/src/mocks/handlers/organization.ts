@@ -0,0 +1,388 @@
+/**
+ * Mock Organization Handlers
+ * Organizations, users and profiles, core reference data and organization
+ * preferences.
+ */
+
+import { findUser, fullName, nowIso } from "../db";
+import { matchesSearch } from "../query";
+import {
+  hasErrors,
+  notFound,
+  ok,
+  paginated,
+  raw,
+  requireFields,
+  validationError,
+} from "../responses";
+import {
+  getOrganizationRoleName,
+  serializeAddress,
+  serializeUserProfile,
+  serializeUserSummary,
+} from "../serializers";
+import { serializeOrganization } from "./auth";
+import type { MockDb, MockUser } from "../db";
+import type { MockRouter } from "../router";
+
+const STAFF_ROLES = ["admin", "teacher"];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Users the current user manages: everyone for admins, their supervisees
+ * and the students of their classes for teachers
+ */
+export function getManageableUsers(db: MockDb, user: MockUser | null): MockUser[] {
+  if (!user) {
+    return [];
+  }
+  if (user.role === "admin") {
+    return db.users.filter((item) => item.public_id !== user.public_id && item.role !== "parent");
+  }
+
+  const teacher = db.teachers.find((item) => item.user_id === user.public_id);
+  const classIds = db.classes
+    .filter((item) => item.class_teacher_id === teacher?.public_id)
+    .map((item) => item.public_id);
+  const studentUserIds = db.students
+    .filter((student) => classIds.includes(student.class_id) && !student.is_deleted)
+    .map((student) => student.user_id);
+
+  return db.users.filter(
+    (item) => item.supervisor_id === user.public_id || studentUserIds.includes(item.public_id)
+  );
+}
+
+function serializeManageableUser(db: MockDb, user: MockUser) {
+  const teacher = db.teachers.find((item) => item.user_id === user.public_id);
+  const student = db.students.find((item) => item.user_id === user.public_id);
+  return {
+    ...serializeUserSummary(user),
+    role_display: user.role.charAt(0).toUpperCase() + user.role.slice(1),
+    organization_role: getOrganizationRoleName(db, user),
+    gender: user.gender,
+    employee_id: teacher?.employee_id,
+    subjects: teacher
+      ? db.coreSubjects
+          .filter((subject) => teacher.subject_ids.includes(subject.id))
+          .map((subject) => subject.name)
+      : undefined,
+    roll_number: student?.roll_number,
+  };
+}
+
+function applyUserUpdate(user: MockUser, payload: Record<string, unknown>): void {
+  const editable = [
+    "first_name",
+    "last_name",
+    "phone",
+    "gender",
+    "blood_group",
+    "date_of_birth",
+    "notification_opt_in",
+  ] as const;
+  editable.forEach((field) => {
+    if (payload[field] !== undefined) {
+      Object.assign(user, { [field]: payload[field] });
+    }
+  });
+  user.updated_at = nowIso();
+}
+
+function upsertAddress(user: MockUser, address: Record<string, unknown>): void {
+  const at = nowIso();
+  user.address = {
+    public_id: user.address?.public_id ?? `${user.public_id}-address`,
+    address_type: String(address.address_type ?? user.address?.address_type ?? "HOME"),
+    street_address: String(address.street_address ?? ""),
+    address_line_2: address.address_line_2 ? String(address.address_line_2) : undefined,
+    city: String(address.city ?? ""),
+    state: String(address.state ?? ""),
+    zip_code: String(address.zip_code ?? address.postal_code ?? ""),
+    country: String(address.country ?? ""),
+    latitude: address.latitude ? String(address.latitude) : undefined,
+    longitude: address.longitude ? String(address.longitude) : undefined,
+    created_at: user.address?.created_at ?? at,
+    updated_at: at,
+  };
+  user.updated_at = at;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function registerOrganizationHandlers(router: MockRouter): void {
+  // Organizations ------------------------------------------------------------
+
+  router.get("/api/organizations/", ({ db, query }) =>
+    paginated([serializeOrganization(db)], query)
+  );
+
+  router.get("/api/organizations/:publicId/", ({ db, params }) =>
+    params.publicId === db.organization.public_id
+      ? ok(serializeOrganization(db))
+      : notFound("Organization")
+  );
+
+  router.post(
+    "/api/organizations/otp/send/",
+    ({ body }) => {
+      const emails = Array.isArray(body) ? body : [];
+      return ok(
+        { sent: emails.length, expires_in_minutes: 10 },
+        `OTP sent to ${emails.length} email(s)`
+      );
+    },
+    { isPublic: true }
+  );
+
+  router.post(
+    "/api/organizations/otp/verify/",
+    ({ body }) => {
+      const otp = (body as { otp_code?: string } | null)?.otp_code;
+      if (!otp || otp === "000000") {
+        return validationError(
+          { otp_code: ["Invalid or expired OTP."] },
+          "Invalid or expired OTP."
+        );
+      }
+      return ok({ verified: true }, "OTP verified successfully");
+    },
+    { isPublic: true }
+  );
+
+  router.post(
+    "/api/organizations/register/",
+    ({ body }) => {
+      const payload = (body ?? {}) as Record<string, Record<string, unknown> | undefined>;
+      const adminInfo = payload.admin_info ?? {};
+      const organizationInfo = payload.organization_info ?? {};
+      const errors = requireFields(adminInfo, ["first_name", "email", "password"]);
+      if (hasErrors(errors)) {
+        return validationError(errors);
+      }
+
+      // Registration is acknowledged but not persisted; demos sign in with the
+      // seeded accounts instead
+      return raw(
+        {
+          status: "success",
+          message: "Organization registered successfully.",
+          admin_info: {
+            username: String(adminInfo.email).split("@")[0],
+            email: adminInfo.email,
+          },
+          organization_info: { name: organizationInfo.name },
+        },
+        201
+      );
+    },
+    { isPublic: true }
+  );
+
+  // Users --------------------------------------------------------------------
+
+  router.get("/api/users/", ({ db, query, user }) => {
+    const role = query.get("role");
+    const users = getManageableUsers(db, user)
+      .filter((item) => !role || item.role === role)
+      .filter((item) => matchesSearch(query, [fullName(item), item.email, item.username]))
+      .map((item) => ({
+        ...serializeUserSummary(item),
+        organization_role: getOrganizationRoleName(db, item),
+        department:
+          db.teachers.find((teacher) => teacher.user_id === item.public_id)?.specialization ?? null,
+      }));
+    return paginated(users, query);
+  });
+
+  router.get("/api/users/supervisors/", ({ db }) =>
+    ok(
+      db.users
+        .filter((item) => STAFF_ROLES.includes(item.role) && item.is_active)
+        .map((item) => ({
+          public_id: item.public_id,
+          email: item.email,
+          full_name: fullName(item),
+          first_name: item.first_name,
+          last_name: item.last_name,
+          role: item.role,
+        }))
+    )
+  );
+
+  router.get("/api/users/profile/manageable-users/", ({ db, query, user }) => {
+    const role = query.get("role");
+    const classId = query.get("class_id");
+    const studentUserIds = classId
+      ? db.students.filter((item) => item.class_id === classId).map((item) => item.user_id)
+      : null;
+
+    const users = getManageableUsers(db, user)
+      .filter((item) => {
+        if (role === "staff") {
+          return STAFF_ROLES.includes(item.role);
+        }
+        if (role === "student") {
+          return (
+            item.role === "student" && (!studentUserIds || studentUserIds.includes(item.public_id))
+          );
+        }
+        return true;
+      })
+      .map((item) => serializeManageableUser(db, item));
+
+    return ok({ users, total_users: users.length });
+  });
+
+  router.get("/api/users/profile/me/", ({ db, user }) =>
+    user ? ok(serializeUserProfile(db, user)) : notFound("User")
+  );
+
+  router.patch("/api/users/profile/me/", ({ db, body, user }) => {
+    if (!user) {
+      return notFound("User");
+    }
+    const payload = (body ?? {}) as Record<string, unknown>;
+    applyUserUpdate(user, payload);
+    if (payload.address && typeof payload.address === "object") {
+      upsertAddress(user, payload.address as Record<string, unknown>);
+    }
+    return ok(serializeUserProfile(db, user), "Profile updated successfully");
+  });
+
+  router.patch("/api/users/profile/:userPublicId/update-address/", ({ db, params, body }) => {
+    const target = findUser(db, params.userPublicId);
+    if (!target) {
+      return notFound("User");
+    }
+    const address = (body as { address?: Record<string, unknown> } | null)?.address;
+    const errors = requireFields(address ?? {}, ["street_address", "city", "state", "country"]);
+    if (hasErrors(errors)) {
+      return validationError({ address: Object.values(errors).flat() });
+    }
+
+    upsertAddress(target, address ?? {});
+    return ok(
+      {
+        public_id: target.public_id,
+        username: target.username,
+        first_name: target.first_name,
+        last_name: target.last_name,
+        address: target.address ? serializeAddress(target.address) : null,
+      },
+      "Address updated successfully"
+    );
+  });
+
+  router.post("/api/users/send-otp/", () =>
+    ok({ message: "OTP sent successfully", expires_in_minutes: 10 }, "OTP sent successfully")
+  );
+
+  router.post("/api/users/update-email/", ({ db, body, user }) => {
+    const payload = (body ?? {}) as Record<string, unknown>;
+    const errors = requireFields(payload, ["new_email", "otp"]);
+    if (hasErrors(errors) || !user) {
+      return validationError(errors);
+    }
+    user.email = String(payload.new_email);
+    user.updated_at = nowIso();
+    return ok(serializeUserProfile(db, user), "Email updated successfully");
+  });
+
+  router.post("/api/users/update-phone/", ({ db, body, user }) => {
+    const payload = (body ?? {}) as Record<string, unknown>;
+    const errors = requireFields(payload, ["new_phone", "otp"]);
+    if (hasErrors(errors) || !user) {
+      return validationError(errors);
+    }
+    user.phone = String(payload.new_phone);
+    user.updated_at = nowIso();
+    return ok(serializeUserProfile(db, user), "Phone updated successfully");
+  });
+
+  router.get("/api/users/:publicId/", ({ db, params }) => {
+    const target = findUser(db, params.publicId);
+    return target ? ok(serializeUserProfile(db, target)) : notFound("User");
+  });
+
+  // Core reference data ------------------------------------------------------
+
+  router.get("/api/core/leave-types/", ({ db, query }) => paginated(db.leaveTypes, query));
+
+  router.get("/api/core/organization-role-types/", ({ db }) => ok(db.organizationRoles));
+
+  router.get("/api/core/subjects/", ({ db }) =>
+    ok(db.coreSubjects.filter((subject) => !subject.is_deleted))
+  );
+
+  router.get("/api/core/classes/", ({ db, query }) => paginated(db.coreClasses, query));
+
+  // Organization preferences -------------------------------------------------
+
+  router.get("/api/organization-preferences/", ({ db, query }) => {
+    if (query.get("grouped") !== "true") {
+      return ok(db.preferences);
+    }
+
+    const categories = Array.from(new Set(db.preferences.map((item) => item.category)));
+    return ok(
+      categories.map((category) => {
+        const preferences = db.preferences.filter((item) => item.category === category);
+        return { category, preferences, count: preferences.length };
+      })
+    );
+  });
+
+  router.post("/api/organization-preferences/bulk-update/", ({ db, body }) => {
+    const updates = (body as { preferences?: Array<{ public_id: string; value: unknown }> } | null)
+      ?.preferences;
+    if (!Array.isArray(updates)) {
+      return validationError({ preferences: ["This field is required."] });
+    }
+
+    let updated = 0;
+    updates.forEach((update) => {
+      const preference = db.preferences.find((item) => item.public_id === update.public_id);
+      if (preference) {
+        preference.value = update.value as string | string[];
+        updated += 1;
+      }
+    });
+    return ok({ updated, failed: updates.length - updated }, "Preferences updated successfully");
+  });
+
+  router.get("/api/organization-preferences/:publicId/", ({ db, params }) => {
+    const preference = db.preferences.find((item) => item.public_id === params.publicId);
+    return preference ? ok(preference) : notFound("Preference");
+  });
+
+  router.patch("/api/organization-preferences/:publicId/", ({ db, params, body }) => {
+    const preference = db.preferences.find((item) => item.public_id === params.publicId);
+    if (!preference) {
+      return notFound("Preference");
+    }
+
+    const value = (body as { value?: string | string[] } | null)?.value;
+    if (value === undefined) {
+      return validationError({ value: ["This field is required."] });
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (
+      preference.applicable_values &&
+      values.some((item) => !preference.applicable_values?.includes(item))
+    ) {
+      return validationError({ value: [`"${values.join(", ")}" is not a valid choice.`] });
+    }
+    if (preference.field_type === "number" && Number.isNaN(Number(value))) {
+      return validationError({ value: ["A valid number is required."] });
+    }
+
+    preference.value = value;
+    return ok(preference, "Preference updated successfully");
+  });
+}
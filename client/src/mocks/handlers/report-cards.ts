@@ -0,0 +1,258 @@
+/**
+ * Mock Report Card Handlers
+ * The organization's report card layout, and report cards assembled on every
+ * call from an exam's results, the student attendance taken up to the end of
+ * the exam and the class teacher's remarks. Only the layout and remarks are
+ * stored. Parents can open their own child's card once results are published.
+ */
+
+import { ExamStatus } from "@/constants/exams";
+import type { ReportCard, ReportCardBatch, ReportCardTemplate } from "@/lib/api/report-card-api";
+import { ORGANIZATION_ROLE_CODES } from "@/lib/constants/organization-roles";
+import { findUser, fullName, nowIso } from "../db";
+import { asPayload } from "../query";
+import { forbidden, hasErrors, notFound, ok, validationError } from "../responses";
+import { findStudentUser, findTeacherUser, serializeClassInfo } from "../serializers";
+import { serializeOrganization } from "./auth";
+import { classStudents, serializeResult } from "./exams";
+import type { MockClass, MockDb, MockExam, MockStudent, MockUser } from "../db";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+/** Organization roles that may print report cards for any section, as for exams.manage */
+const ACADEMIC_LEADERSHIP_CODES: string[] = [
+  ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.HOD,
+  ORGANIZATION_ROLE_CODES.COORDINATOR,
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function classTeacherOf(db: MockDb, masterClass: MockClass): MockUser | undefined {
+  const teacher = db.teachers.find((item) => item.public_id === masterClass.class_teacher_id);
+  return teacher ? findTeacherUser(db, teacher) : undefined;
+}
+
+/**
+ * Admins and academic leadership see every section; other teachers only the
+ * sections they are class teacher of
+ */
+function canManageReportCards(db: MockDb, user: MockUser | null, masterClass: MockClass): boolean {
+  if (
+    user?.role === "admin" ||
+    ACADEMIC_LEADERSHIP_CODES.includes(user?.organization_role_code ?? "")
+  ) {
+    return true;
+  }
+  return user?.role === "teacher" && classTeacherOf(db, masterClass)?.public_id === user.public_id;
+}
+
+/**
+ * Parents see only the published report cards of their own children
+ */
+function isParentOf(db: MockDb, user: MockUser, studentId: string | null): boolean {
+  const email = findUser(db, user.public_id)?.email;
+  return db.students.some(
+    (student) => student.public_id === studentId && !!email && student.guardian_email === email
+  );
+}
+
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializeTemplate(db: MockDb): ReportCardTemplate {
+  const { updated_by: updatedBy, ...template } = db.reportCardTemplate;
+  return {
+    ...template,
+    updated_by_name: updatedBy ? fullName(findUser(db, updatedBy)) : null,
+  };
+}
+
+function serializeReportCard(db: MockDb, exam: MockExam, student: MockStudent): ReportCard {
+  const user = findStudentUser(db, student);
+  const records = db.studentAttendance.filter(
+    (record) => record.student_id === student.public_id && record.date <= exam.end_date
+  );
+  const presentDays = records.filter(
+    (record) => record.status === "PRESENT" || record.status === "LATE"
+  ).length;
+
+  return {
+    student: {
+      public_id: student.public_id,
+      full_name: fullName(user),
+      roll_number: student.roll_number,
+      admission_number: student.admission_number,
+      date_of_birth: user.date_of_birth ?? null,
+      guardian_name: student.guardian_name,
+    },
+    result: serializeResult(db, exam, student),
+    attendance:
+      records.length > 0
+        ? {
+            working_days: records.length,
+            present_days: presentDays,
+            percentage: roundOne((presentDays / records.length) * 100),
+          }
+        : null,
+    class_teacher_remarks:
+      db.reportCardRemarks.find(
+        (item) => item.exam_id === exam.public_id && item.student_id === student.public_id
+      )?.remarks ?? "",
+  };
+}
+
+function serializeBatch(
+  db: MockDb,
+  exam: MockExam,
+  masterClass: MockClass,
+  students: MockStudent[]
+): ReportCardBatch {
+  const organization = serializeOrganization(db);
+  const scale = db.gradeScales.find((item) => item.public_id === exam.grade_scale_id);
+  const classTeacher = classTeacherOf(db, masterClass);
+
+  return {
+    organization: {
+      name: organization.name,
+      board_affiliation: organization.board_affiliation,
+      email: organization.email,
+      phone: organization.phone,
+      website_url: organization.website_url,
+    },
+    template: serializeTemplate(db),
+    exam: { public_id: exam.public_id, name: exam.name, status: exam.status },
+    class_info: {
+      ...serializeClassInfo(db, masterClass),
+      class_teacher_name: classTeacher ? fullName(classTeacher) : null,
+    },
+    grade_bands: (scale?.bands ?? []).map((band) => ({ ...band })),
+    cards: students.map((student) => serializeReportCard(db, exam, student)),
+  };
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerReportCardHandlers(router: MockRouter): void {
+  router.get("/api/exams/report-card-template/", ({ db }) => ok(serializeTemplate(db)));
+
+  router.put("/api/exams/report-card-template/", ({ db, body, user }) => {
+    if (user?.role !== "admin") {
+      return forbidden("Only admins can change the report card layout.");
+    }
+    const payload = asPayload(body);
+    const title = String(payload.title ?? "").trim();
+    const accentColor = String(payload.accent_color ?? "").trim();
+    const errors: FieldErrors = {};
+    if (!title) {
+      errors.title = ["This field is required."];
+    }
+    if (!HEX_COLOR.test(accentColor)) {
+      errors.accent_color = ["Enter a color such as #4f46e5."];
+    }
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    db.reportCardTemplate = {
+      title,
+      logo_url: String(payload.logo_url ?? "").trim(),
+      address_line: String(payload.address_line ?? "").trim(),
+      accent_color: accentColor,
+      show_grade_point: Boolean(payload.show_grade_point),
+      show_subject_remarks: Boolean(payload.show_subject_remarks),
+      show_attendance: Boolean(payload.show_attendance),
+      show_grade_scale: Boolean(payload.show_grade_scale),
+      signatory_title: String(payload.signatory_title ?? "").trim(),
+      footer_note: String(payload.footer_note ?? "").trim(),
+      updated_at: nowIso(),
+      updated_by: user.public_id,
+    };
+    return ok(serializeTemplate(db), "Report card layout saved");
+  });
+
+  router.get("/api/exams/:publicId/report-cards/", ({ db, params, query, user }) => {
+    const exam = db.exams.find((item) => item.public_id === params.publicId);
+    if (!exam) {
+      return notFound("Exam");
+    }
+    const classId = query.get("class_id") ?? "";
+    const masterClass = db.classes.find((item) => item.public_id === classId);
+    if (!masterClass || !exam.class_ids.includes(classId)) {
+      return validationError({ class_id: ["Select a class that sat this exam."] });
+    }
+    const studentId = query.get("student_id");
+    if (user?.role === "parent") {
+      if (!isParentOf(db, user, studentId)) {
+        return forbidden("You can only view report cards of your own children.");
+      }
+      if (exam.status !== ExamStatus.PUBLISHED) {
+        return forbidden("Results of this exam have not been published yet.");
+      }
+    } else if (!canManageReportCards(db, user, masterClass)) {
+      return forbidden("Only the class teacher can generate report cards for this class.");
+    }
+    if (exam.status === ExamStatus.DRAFT) {
+      return validationError(
+        { non_field_errors: ["Lock the exam's marks before generating report cards."] },
+        "Lock the exam's marks before generating report cards."
+      );
+    }
+
+    const students = classStudents(db, classId).filter(
+      (student) => !studentId || student.public_id === studentId
+    );
+    if (studentId && students.length === 0) {
+      return notFound("Student");
+    }
+    return ok(serializeBatch(db, exam, masterClass, students));
+  });
+
+  router.put(
+    "/api/exams/:publicId/report-cards/:studentId/remarks/",
+    ({ db, params, body, user }) => {
+      const exam = db.exams.find((item) => item.public_id === params.publicId);
+      const student = db.students.find((item) => item.public_id === params.studentId);
+      const masterClass = db.classes.find((item) => item.public_id === student?.class_id);
+      if (!exam || !student || !masterClass) {
+        return notFound(exam ? "Student" : "Exam");
+      }
+      if (!canManageReportCards(db, user, masterClass)) {
+        return forbidden("Only the class teacher can write remarks for this class.");
+      }
+      if (exam.status === ExamStatus.PUBLISHED) {
+        return validationError(
+          { non_field_errors: ["Withdraw the results before changing remarks."] },
+          "Withdraw the results before changing remarks."
+        );
+      }
+
+      const remarks = String(asPayload(body).remarks ?? "").trim();
+      db.reportCardRemarks = db.reportCardRemarks.filter(
+        (item) => !(item.exam_id === exam.public_id && item.student_id === student.public_id)
+      );
+      if (remarks) {
+        db.reportCardRemarks.push({
+          exam_id: exam.public_id,
+          student_id: student.public_id,
+          remarks,
+          updated_by: user?.public_id ?? null,
+          updated_at: nowIso(),
+        });
+      }
+      return ok(serializeReportCard(db, exam, student), "Remarks saved");
+    }
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Mock Substitution Handlers
+ * Periods left uncovered by approved teacher leave are derived from the leave
+ * requests and the timetable on every call, so approving or cancelling leave
+ * updates the board straight away. Only the assigned substitutes are stored.
+ */
+
+import { addDays, eachDayOfInterval, format, parseISO } from "date-fns";
+import { NotificationType } from "@/constants/notifications";
+import { SubstitutionStatus } from "@/constants/timetable";
+import type { SubstituteSuggestion, Substitution } from "@/lib/api/substitution-api";
+import { isWorkingDay, toDateString } from "../calendar";
+import { findUser, fullName, nextPublicId, nowIso } from "../db";
+import { notify } from "../notifications";
+import { asPayload } from "../query";
+import { hasErrors, notFound, ok, paginated, requireFields, validationError } from "../responses";
+import { findTeacherUser, serializeClassInfo } from "../serializers";
+import type {
+  MockDb,
+  MockLeaveRequest,
+  MockSubstitution,
+  MockTeacher,
+  MockTimetableEntry,
+} from "../db";
+import type { MockRouter } from "../router";
+
+/** Days shown when the board is opened without a date range */
+const DEFAULT_RANGE_DAYS = 7;
+
+interface AffectedSlot {
+  entry: MockTimetableEntry;
+  date: string;
+  leave: MockLeaveRequest;
+  absentTeacher: MockTeacher;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function teacherOfEntry(db: MockDb, entry: MockTimetableEntry): MockTeacher | undefined {
+  const subject = db.subjects.find((item) => item.public_id === entry.subject_id);
+  return db.teachers.find((item) => item.public_id === subject?.teacher_id);
+}
+
+function isOnApprovedLeave(db: MockDb, teacher: MockTeacher, date: string): boolean {
+  return db.leaveRequests.some(
+    (request) =>
+      request.user_id === teacher.user_id &&
+      request.status === "approved" &&
+      request.start_date <= date &&
+      request.end_date >= date
+  );
+}
+
+/**
+ * Every timetabled period between `from` and `to` whose teacher is on
+ * approved leave, in date and period order
+ */
+function getAffectedSlots(db: MockDb, from: string, to: string): AffectedSlot[] {
+  const periodOrder = new Map(
+    db.timetablePeriods.map((period) => [period.public_id, period.order])
+  );
+  const slots: AffectedSlot[] = [];
+
+  db.leaveRequests
+    .filter(
+      (request) =>
+        request.status === "approved" && request.start_date <= to && request.end_date >= from
+    )
+    .forEach((leave) => {
+      const absentTeacher = db.teachers.find(
+        (teacher) => teacher.user_id === leave.user_id && !teacher.is_deleted
+      );
+      if (!absentTeacher) {
+        return;
+      }
+      const subjectIds = new Set(
+        db.subjects
+          .filter(
+            (subject) => subject.teacher_id === absentTeacher.public_id && !subject.is_deleted
+          )
+          .map((subject) => subject.public_id)
+      );
+
+      eachDayOfInterval({
+        start: parseISO(leave.start_date > from ? leave.start_date : from),
+        end: parseISO(leave.end_date < to ? leave.end_date : to),
+      })
+        .filter((day) => isWorkingDay(db, day))
+        .forEach((day) => {
+          const date = toDateString(day);
+          db.timetableEntries
+            .filter(
+              (entry) => entry.day_of_week === day.getDay() && subjectIds.has(entry.subject_id)
+            )
+            .forEach((entry) => {
+              if (!slots.some((slot) => slot.entry === entry && slot.date === date)) {
+                slots.push({ entry, date, leave, absentTeacher });
+              }
+            });
+        });
+    });
+
+  return slots.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      (periodOrder.get(a.entry.period_id) ?? 0) - (periodOrder.get(b.entry.period_id) ?? 0)
+  );
+}
+
+function findAffectedSlot(db: MockDb, entryId: string, date: string): AffectedSlot | undefined {
+  return getAffectedSlots(db, date, date).find((slot) => slot.entry.public_id === entryId);
+}
+
+function findSubstitution(db: MockDb, entryId: string, date: string) {
+  return db.substitutions.find((item) => item.entry_id === entryId && item.date === date);
+}
+
+/**
+ * Lessons a teacher has on a date: their own timetabled periods plus cover
+ */
+function getTeacherLoad(db: MockDb, teacher: MockTeacher, date: string) {
+  const day = parseISO(date).getDay();
+  const lessons = db.timetableEntries.filter(
+    (entry) => entry.day_of_week === day && teacherOfEntry(db, entry) === teacher
+  );
+  const cover = db.substitutions.filter(
+    (item) => item.date === date && item.substitute_teacher_id === teacher.public_id
+  );
+  return { lessons, cover };
+}
+
+function serializeTeacherInfo(db: MockDb, teacher: MockTeacher) {
+  return { public_id: teacher.public_id, full_name: fullName(findTeacherUser(db, teacher)) };
+}
+
+function serializeSlot(db: MockDb, slot: AffectedSlot): Substitution {
+  const record = findSubstitution(db, slot.entry.public_id, slot.date);
+  const substitute = db.teachers.find((item) => item.public_id === record?.substitute_teacher_id);
+  const period = db.timetablePeriods.find((item) => item.public_id === slot.entry.period_id);
+  const subject = db.subjects.find((item) => item.public_id === slot.entry.subject_id);
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject?.subject_id);
+  const masterClass = db.classes.find((item) => item.public_id === slot.entry.class_id);
+  const assignedBy = findUser(db, record?.assigned_by);
+
+  return {
+    public_id: record?.public_id ?? null,
+    entry_id: slot.entry.public_id,
+    leave_request_id: slot.leave.public_id,
+    date: slot.date,
+    period: period
+      ? { ...period }
+      : { public_id: "", name: "", start_time: "", end_time: "", order: 0, is_break: false },
+    class_info: serializeClassInfo(db, masterClass),
+    subject_info: {
+      public_id: subject?.public_id ?? "",
+      name: coreSubject?.name ?? "",
+      code: coreSubject?.code ?? "",
+    },
+    room: slot.entry.room,
+    absent_teacher: serializeTeacherInfo(db, slot.absentTeacher),
+    substitute_teacher: substitute ? serializeTeacherInfo(db, substitute) : null,
+    status: record ? SubstitutionStatus.ASSIGNED : SubstitutionStatus.UNCOVERED,
+    notes: record?.notes ?? "",
+    assigned_by_name: assignedBy ? fullName(assignedBy) : null,
+    assigned_at: record?.assigned_at ?? null,
+  };
+}
+
+/**
+ * Teachers free in the slot's period who are not on leave themselves.
+ * Teachers of the same core subject come first, then the least busy.
+ */
+function getSuggestions(db: MockDb, slot: AffectedSlot): SubstituteSuggestion[] {
+  const coreSubjectId = db.subjects.find(
+    (item) => item.public_id === slot.entry.subject_id
+  )?.subject_id;
+  const current = findSubstitution(db, slot.entry.public_id, slot.date);
+
+  return db.teachers
+    .filter((teacher) => !teacher.is_deleted && teacher !== slot.absentTeacher)
+    .filter((teacher) => !isOnApprovedLeave(db, teacher, slot.date))
+    .map((teacher) => ({ teacher, ...getTeacherLoad(db, teacher, slot.date) }))
+    .filter(
+      ({ lessons, cover }) =>
+        !lessons.some((entry) => entry.period_id === slot.entry.period_id) &&
+        !cover.some(
+          (item) =>
+            item !== current &&
+            db.timetableEntries.find((entry) => entry.public_id === item.entry_id)?.period_id ===
+              slot.entry.period_id
+        )
+    )
+    .map(({ teacher, lessons, cover }) => ({
+      teacher: {
+        ...serializeTeacherInfo(db, teacher),
+        employee_id: teacher.employee_id,
+      },
+      teaches_subject:
+        coreSubjectId !== undefined &&
+        (teacher.subject_ids.includes(coreSubjectId) ||
+          db.subjects.some(
+            (subject) =>
+              subject.teacher_id === teacher.public_id &&
+              subject.subject_id === coreSubjectId &&
+              !subject.is_deleted
+          )),
+      periods_that_day: lessons.length + cover.length,
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.teaches_subject) - Number(a.teaches_subject) ||
+        a.periods_that_day - b.periods_that_day ||
+        a.teacher.full_name.localeCompare(b.teacher.full_name)
+    );
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerSubstitutionHandlers(router: MockRouter): void {
+  router.get("/api/timetable/substitutions/", ({ db, query }) => {
+    const today = new Date();
+    const from = query.get("from_date") || toDateString(today);
+    const to = query.get("to_date") || toDateString(addDays(today, DEFAULT_RANGE_DAYS - 1));
+    const status = query.get("status");
+
+    const items = getAffectedSlots(db, from, to)
+      .map((slot) => serializeSlot(db, slot))
+      .filter((item) => !status || item.status === status);
+    return paginated(items, query);
+  });
+
+  router.get("/api/timetable/substitutions/suggestions/", ({ db, query }) => {
+    const slot = findAffectedSlot(db, query.get("entry_id") ?? "", query.get("date") ?? "");
+    if (!slot) {
+      return notFound("Uncovered period");
+    }
+    return ok(getSuggestions(db, slot));
+  });
+
+  router.get("/api/timetable/substitutions/mine/", ({ db, query, user }) => {
+    const teacher = db.teachers.find((item) => item.user_id === user?.public_id);
+    const today = toDateString(new Date());
+    const slots = teacher
+      ? getAffectedSlots(db, query.get("from_date") || today, query.get("to_date") || today)
+      : [];
+
+    return ok({
+      covering: slots
+        .filter(
+          (slot) =>
+            findSubstitution(db, slot.entry.public_id, slot.date)?.substitute_teacher_id ===
+            teacher?.public_id
+        )
+        .map((slot) => serializeSlot(db, slot)),
+      covered: slots
+        .filter((slot) => slot.absentTeacher === teacher)
+        .map((slot) => serializeSlot(db, slot)),
+    });
+  });
+
+  router.post("/api/timetable/substitutions/", ({ db, body, user }) => {
+    const payload = asPayload(body);
+    const errors = requireFields(payload, ["entry_id", "date", "substitute_teacher_id"]);
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const slot = findAffectedSlot(db, String(payload.entry_id), String(payload.date));
+    if (!slot) {
+      return validationError({
+        entry_id: ["This period's teacher is not on approved leave on this date."],
+      });
+    }
+    const substituteId = String(payload.substitute_teacher_id);
+    if (!getSuggestions(db, slot).some((item) => item.teacher.public_id === substituteId)) {
+      return validationError({
+        substitute_teacher_id: ["This teacher is not free to cover this period."],
+      });
+    }
+
+    const existing = findSubstitution(db, slot.entry.public_id, slot.date);
+    const record: MockSubstitution = {
+      public_id: existing?.public_id ?? nextPublicId(db, "substitution"),
+      entry_id: slot.entry.public_id,
+      date: slot.date,
+      leave_request_id: slot.leave.public_id,
+      substitute_teacher_id: substituteId,
+      notes: payload.notes ? String(payload.notes).trim() : "",
+      assigned_by: user?.public_id ?? "",
+      assigned_at: nowIso(),
+    };
+    db.substitutions = [...db.substitutions.filter((item) => item !== existing), record];
+
+    const substitution = serializeSlot(db, slot);
+    const substitute = db.teachers.find((item) => item.public_id === substituteId);
+    if (substitute) {
+      notify(db, [substitute.user_id], {
+        type: NotificationType.SUBSTITUTION_ASSIGNED,
+        title: "Cover assigned",
+        body: `You are covering ${substitution.subject_info.name} for ${substitution.class_info.class_master_name} - ${substitution.class_info.name} in ${substitution.period.name} on ${format(parseISO(slot.date), "EEE, d MMM")} while ${substitution.absent_teacher.full_name} is on leave.`,
+        link: "/schedule",
+      });
+    }
+    return ok(
+      substitution,
+      `Cover assigned. ${substitution.substitute_teacher?.full_name} has been notified.`
+    );
+  });
+
+  router.delete("/api/timetable/substitutions/:publicId/", ({ db, params }) => {
+    if (!db.substitutions.some((item) => item.public_id === params.publicId)) {
+      return notFound("Substitution");
+    }
+    db.substitutions = db.substitutions.filter((item) => item.public_id !== params.publicId);
+    return ok(null, "Substitute removed");
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * Mock Timetable Handlers
+ * Bell schedule, section timetables (rejecting teacher and room clashes the
+ * way the backend does), the teacher's own schedule and parents' view of
+ * their children's timetables.
+ */
+
+import type { DayOfWeekValue } from "@/constants/timetable";
+import type { TimetableEntry, TimetablePeriod } from "@/lib/api/timetable-api";
+import { findUser, fullName, nextPublicId } from "../db";
+import { asPayload } from "../query";
+import { hasErrors, notFound, ok, paginated, requireFields, validationError } from "../responses";
+import {
+  findStudentUser,
+  findTeacherUser,
+  getClassLabel,
+  serializeClassInfo,
+} from "../serializers";
+import type { MockDb, MockTimetableEntry, MockTimetablePeriod } from "../db";
+import type { FieldErrors } from "../responses";
+import type { MockRouter } from "../router";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// ============================================================================
+// Serializers
+// ============================================================================
+
+function serializePeriod(period: MockTimetablePeriod): TimetablePeriod {
+  return { ...period };
+}
+
+function serializeEntry(db: MockDb, entry: MockTimetableEntry): TimetableEntry {
+  const subject = db.subjects.find((item) => item.public_id === entry.subject_id);
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject?.subject_id);
+  const teacher = db.teachers.find((item) => item.public_id === subject?.teacher_id);
+  const masterClass = db.classes.find((item) => item.public_id === entry.class_id);
+
+  return {
+    public_id: entry.public_id,
+    class_info: serializeClassInfo(db, masterClass),
+    day_of_week: entry.day_of_week as DayOfWeekValue,
+    period_id: entry.period_id,
+    subject_info: {
+      public_id: subject?.public_id ?? "",
+      name: coreSubject?.name ?? "",
+      code: coreSubject?.code ?? "",
+    },
+    teacher_info: {
+      public_id: teacher?.public_id ?? "",
+      full_name: teacher ? fullName(findTeacherUser(db, teacher)) : "",
+    },
+    room: entry.room,
+  };
+}
+
+function sortedPeriods(db: MockDb): MockTimetablePeriod[] {
+  return [...db.timetablePeriods].sort((a, b) => a.order - b.order);
+}
+
+function serializeEntries(db: MockDb, entries: MockTimetableEntry[]): TimetableEntry[] {
+  const periodOrder = new Map(
+    db.timetablePeriods.map((period) => [period.public_id, period.order])
+  );
+  return [...entries]
+    .sort(
+      (a, b) =>
+        a.day_of_week - b.day_of_week ||
+        (periodOrder.get(a.period_id) ?? 0) - (periodOrder.get(b.period_id) ?? 0)
+    )
+    .map((entry) => serializeEntry(db, entry));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a section's new timetable against its subjects and every other
+ * section's bookings. Errors are keyed by the entry's index.
+ */
+function validateEntries(db: MockDb, classId: string, entries: MockTimetableEntry[]): FieldErrors {
+  const errors: FieldErrors = {};
+  const others = db.timetableEntries.filter((entry) => entry.class_id !== classId);
+  const teacherOf = (subjectId: string) =>
+    db.subjects.find((subject) => subject.public_id === subjectId)?.teacher_id;
+  const seenSlots = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const messages: string[] = [];
+    const period = db.timetablePeriods.find((item) => item.public_id === entry.period_id);
+    const subject = db.subjects.find(
+      (item) => item.public_id === entry.subject_id && item.class_id === classId && !item.is_deleted
+    );
+    const slotKey = `${entry.day_of_week}:${entry.period_id}`;
+
+    if (!period || period.is_break) {
+      messages.push("Select a teaching period.");
+    }
+    if (entry.day_of_week < 1 || entry.day_of_week > 6) {
+      messages.push("Day must be Monday to Saturday.");
+    }
+    if (!subject) {
+      messages.push("Subject is not assigned to this section.");
+    }
+    if (seenSlots.has(slotKey)) {
+      messages.push("Only one lesson can be scheduled per period.");
+    }
+    seenSlots.add(slotKey);
+
+    const sameSlot = others.filter(
+      (other) => other.day_of_week === entry.day_of_week && other.period_id === entry.period_id
+    );
+    const teacherClash =
+      subject && sameSlot.find((other) => teacherOf(other.subject_id) === subject.teacher_id);
+    if (teacherClash) {
+      const masterClass = db.classes.find((item) => item.public_id === teacherClash.class_id);
+      messages.push(
+        `Teacher is already scheduled with ${masterClass ? getClassLabel(db, masterClass) : "another section"} in this period.`
+      );
+    }
+    const room = entry.room?.trim().toLowerCase();
+    if (room && sameSlot.some((other) => other.room?.trim().toLowerCase() === room)) {
+      messages.push(`${entry.room} is already booked in this period.`);
+    }
+
+    if (messages.length > 0) {
+      errors[`entries.${index}`] = messages;
+    }
+  });
+
+  return errors;
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export function registerTimetableHandlers(router: MockRouter): void {
+  // Bell schedule -------------------------------------------------------------
+
+  router.get("/api/timetable/periods/", ({ db }) => ok(sortedPeriods(db).map(serializePeriod)));
+
+  router.put("/api/timetable/periods/", ({ db, body }) => {
+    const payload = asPayload(body);
+    const items = Array.isArray(payload.periods) ? payload.periods.map(asPayload) : [];
+    const errors: FieldErrors = {};
+    if (items.length === 0) {
+      errors.periods = ["Add at least one period."];
+    }
+    items.forEach((item, index) => {
+      const itemErrors = requireFields(item, ["name", "start_time", "end_time"]);
+      if (
+        !TIME_PATTERN.test(String(item.start_time)) ||
+        !TIME_PATTERN.test(String(item.end_time)) ||
+        String(item.start_time) >= String(item.end_time)
+      ) {
+        itemErrors.end_time = ["End time must be after start time."];
+      }
+      if (hasErrors(itemErrors)) {
+        errors[`periods.${index}`] = Object.values(itemErrors).flat();
+      }
+    });
+    if (hasErrors(errors)) {
+      return validationError(errors);
+    }
+
+    const periods: MockTimetablePeriod[] = items.map((item, index) => ({
+      public_id:
+        db.timetablePeriods.find((period) => period.public_id === item.public_id)?.public_id ??
+        nextPublicId(db, "period"),
+      name: String(item.name).trim(),
+      start_time: String(item.start_time),
+      end_time: String(item.end_time),
+      order: index + 1,
+      is_break: item.is_break === true,
+    }));
+
+    // Lessons in removed periods, or periods turned into breaks, go with them
+    const teachingIds = new Set(
+      periods.filter((period) => !period.is_break).map((period) => period.public_id)
+    );
+    db.timetablePeriods = periods;
+    db.timetableEntries = db.timetableEntries.filter((entry) => teachingIds.has(entry.period_id));
+
+    return ok(periods.map(serializePeriod), "Bell schedule saved successfully");
+  });
+
+  // Entries -------------------------------------------------------------------
+
+  router.get("/api/timetable/entries/", ({ db, query }) => {
+    const classId = query.get("class_id");
+    const teacherId = query.get("teacher_id");
+    const day = Number(query.get("day_of_week")) || null;
+    const entries = db.timetableEntries.filter((entry) => {
+      const subject = db.subjects.find((item) => item.public_id === entry.subject_id);
+      return (
+        (!classId || entry.class_id === classId) &&
+        (!teacherId || subject?.teacher_id === teacherId) &&
+        (!day || entry.day_of_week === day)
+      );
+    });
+    return paginated(serializeEntries(db, entries), query);
+  });
+
+  router.get("/api/timetable/classes/:classId/", ({ db, params }) => {
+    if (!db.classes.some((item) => item.public_id === params.classId)) {
+      return notFound("Class");
+    }
+    const entries = db.timetableEntries.filter((entry) => entry.class_id === params.classId);
+    return ok(serializeEntries(db, entries));
+  });
+
+  router.put("/api/timetable/classes/:classId/", ({ db, params, body }) => {
+    if (!db.classes.some((item) => item.public_id === params.classId)) {
+      return notFound("Class");
+    }
+    const payload = asPayload(body);
+    const items = Array.isArray(payload.entries) ? payload.entries.map(asPayload) : [];
+    const entries: MockTimetableEntry[] = items.map((item) => ({
+      public_id: nextPublicId(db, "ttentry"),
+      class_id: params.classId,
+      day_of_week: Number(item.day_of_week),
+      period_id: String(item.period_id ?? ""),
+      subject_id: String(item.subject_id ?? ""),
+      room: item.room ? String(item.room).trim() : null,
+    }));
+
+    const errors = validateEntries(db, params.classId, entries);
+    if (hasErrors(errors)) {
+      return validationError(errors, "The timetable has scheduling conflicts.");
+    }
+
+    db.timetableEntries = [
+      ...db.timetableEntries.filter((entry) => entry.class_id !== params.classId),
+      ...entries,
+    ];
+    return ok(serializeEntries(db, entries), "Timetable saved successfully");
+  });
+
+  // Personal views ------------------------------------------------------------
+
+  router.get("/api/timetable/my-schedule/", ({ db, user }) => {
+    const teacher = db.teachers.find((item) => item.user_id === user?.public_id);
+    const subjectIds = new Set(
+      db.subjects
+        .filter((subject) => !!teacher && subject.teacher_id === teacher.public_id)
+        .map((subject) => subject.public_id)
+    );
+    const entries = db.timetableEntries.filter((entry) => subjectIds.has(entry.subject_id));
+    return ok(serializeEntries(db, entries));
+  });
+
+  router.get("/api/timetable/children/", ({ db, user }) => {
+    const email = findUser(db, user?.public_id)?.email;
+    const children = db.students.filter(
+      (student) => !!email && student.guardian_email === email && !student.is_deleted
+    );
+    return ok(
+      children.map((student) => {
+        const masterClass = db.classes.find((item) => item.public_id === student.class_id);
+        return {
+          student: {
+            public_id: student.public_id,
+            full_name: fullName(findStudentUser(db, student)),
+            roll_number: student.roll_number,
+          },
+          class_info: serializeClassInfo(db, masterClass),
+          entries: serializeEntries(
+            db,
+            db.timetableEntries.filter((entry) => entry.class_id === student.class_id)
+          ),
+        };
+      })
+    );
+  });
+}
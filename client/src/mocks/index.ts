@@ -0,0 +1,189 @@
+/**
+ * In-Browser Mock Backend
+ * Intercepts `fetch` calls to the API and answers them from a seeded
+ * in-memory database, so the app can be developed and demoed without the
+ * Django backend. Enabled with `VITE_USE_MOCK_API=true`; the data resets on
+ * every page load. Set `VITE_MOCK_TODAY=yyyy-MM-dd` to seed around a fixed
+ * date instead of the real one.
+ */
+
+import { isValid, parseISO } from "date-fns";
+import { installMockEventSource } from "./event-stream";
+import { registerAcademicsHandlers } from "./handlers/academics";
+import { registerAnnouncementHandlers } from "./handlers/announcements";
+import { registerAssignmentHandlers } from "./handlers/assignments";
+import { registerAttendanceHandlers } from "./handlers/attendance";
+import { registerAuthHandlers, verifyToken } from "./handlers/auth";
+import { registerExamHandlers } from "./handlers/exams";
+import { registerLeaveHandlers } from "./handlers/leave";
+import { registerMessageHandlers } from "./handlers/messages";
+import { registerNotificationHandlers } from "./handlers/notifications";
+import { registerOrganizationHandlers } from "./handlers/organization";
+import { registerReportCardHandlers } from "./handlers/report-cards";
+import { registerSubstitutionHandlers } from "./handlers/substitutions";
+import { registerTimetableHandlers } from "./handlers/timetable";
+import { notFound, unauthorized } from "./responses";
+import { createRouter } from "./router";
+import { createMockDb, MOCK_CREDENTIALS } from "./seed";
+import type { MockResponse } from "./responses";
+import type { HttpMethod } from "./router";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
+/** Simulated network latency so loading states stay visible */
+const RESPONSE_DELAY_MS = 150;
+
+export interface MockBackendOptions {
+  /** Date the seeded data is built around; defaults to `VITE_MOCK_TODAY`, then the real date */
+  today?: Date;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** `VITE_MOCK_TODAY` as a date, or undefined when unset or not a yyyy-MM-dd date */
+function getPinnedToday(): Date | undefined {
+  const value = import.meta.env.VITE_MOCK_TODAY;
+  if (!value) {
+    return undefined;
+  }
+  const today = parseISO(value);
+  if (!isValid(today)) {
+    console.warn(`[mock-api] Ignoring VITE_MOCK_TODAY="${value}"; expected a yyyy-MM-dd date.`);
+    return undefined;
+  }
+  return today;
+}
+
+function getRequestUrl(input: RequestInfo | URL): URL {
+  if (input instanceof Request) {
+    return new URL(input.url);
+  }
+  return new URL(input.toString(), window.location.origin);
+}
+
+function isApiRequest(url: URL): boolean {
+  const apiOrigin = new URL(API_BASE_URL, window.location.origin).origin;
+  return (
+    url.pathname.startsWith("/api/") &&
+    (url.origin === apiOrigin || url.origin === window.location.origin)
+  );
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (body instanceof FormData) {
+    return body;
+  }
+  if (typeof body !== "string" || body === "") {
+    return null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function getBearerToken(headers: HeadersInit | undefined): string | null {
+  const authorization = new Headers(headers).get("Authorization");
+  return authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : null;
+}
+
+function toResponse(mock: MockResponse): Response {
+  if (mock.blob) {
+    return new Response(mock.blob, { status: mock.status, headers: mock.headers });
+  }
+
+  const hasBody = mock.body !== undefined && mock.status !== 204;
+  return new Response(hasBody ? JSON.stringify(mock.body) : null, {
+    status: mock.status,
+    headers: { ...(hasBody ? { "Content-Type": "application/json" } : {}), ...mock.headers },
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    });
+  });
+}
+
+// ============================================================================
+// Installation
+// ============================================================================
+
+/**
+ * Replace `window.fetch` (and `window.EventSource`, for the notification
+ * stream) with the mock backend. Requests outside the API are passed through
+ * to the real ones. Pass `today` (or set `VITE_MOCK_TODAY`) to pin the seeded
+ * data to a fixed date, e.g. for screenshots or end-to-end tests.
+ */
+export function installMockBackend({ today = getPinnedToday() }: MockBackendOptions = {}): void {
+  const db = createMockDb(today);
+  const router = createRouter();
+  registerAuthHandlers(router);
+  registerOrganizationHandlers(router);
+  registerAcademicsHandlers(router);
+  registerLeaveHandlers(router);
+  registerAttendanceHandlers(router);
+  registerTimetableHandlers(router);
+  registerSubstitutionHandlers(router);
+  registerExamHandlers(router);
+  registerReportCardHandlers(router);
+  registerAssignmentHandlers(router);
+  registerMessageHandlers(router);
+  registerAnnouncementHandlers(router);
+  registerNotificationHandlers(router);
+  installMockEventSource(db, isApiRequest);
+
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = getRequestUrl(input);
+    if (!isApiRequest(url)) {
+      return originalFetch(input, init);
+    }
+
+    const request = input instanceof Request ? input : null;
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase() as HttpMethod;
+    const signal = init?.signal ?? request?.signal;
+    const body = init?.body ?? (request ? await request.clone().text() : null);
+
+    await delay(RESPONSE_DELAY_MS, signal);
+
+    const route = router.match(method, url.pathname);
+    if (!route) {
+      return toResponse(notFound(`${method} ${url.pathname}`));
+    }
+
+    const user = verifyToken(db, getBearerToken(init?.headers ?? request?.headers), "access");
+    if (!route.isPublic && !user) {
+      return toResponse(unauthorized());
+    }
+
+    const response = route.handler({
+      method,
+      path: url.pathname,
+      params: route.params,
+      query: url.searchParams,
+      body: parseBody(body),
+      user,
+      db,
+    });
+    return toResponse(response);
+  };
+
+  console.warn(
+    `[mock-api] Mock backend enabled. Sign in as "${MOCK_CREDENTIALS.admin}", ` +
+      `"${MOCK_CREDENTIALS.teacher}" or "${MOCK_CREDENTIALS.parent}" with password ` +
+      `"${MOCK_CREDENTIALS.password}".`
+  );
+}
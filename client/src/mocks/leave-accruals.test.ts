@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculateAccrual, getOpeningDays } from "./leave-accruals";
+import { createMockDb } from "./seed";
+import type { MockLeaveAllocation, MockTeacher } from "./db";
+
+const db = createMockDb(new Date(2026, 0, 15));
+const teacher: MockTeacher = db.teachers[0];
+const TEACHER_ID = teacher.user_id;
+const NON_TEACHER_ID = db.users.find(
+  (user) => !db.teachers.some((item) => item.user_id === user.public_id)
+)?.public_id;
+
+function allocation(overrides: Partial<MockLeaveAllocation> = {}): MockLeaveAllocation {
+  return {
+    public_id: "allocation-1",
+    leave_type_id: 1,
+    name: "Casual Leave 2026",
+    description: "",
+    total_days: "12.00",
+    max_carry_forward_days: "0.00",
+    role_ids: [],
+    effective_from: "2026-01-01",
+    effective_to: "2026-12-31",
+    accrual_frequency: "monthly",
+    is_prorated: false,
+    attachment_required_above_days: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    created_by: null,
+    updated_by: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  teacher.joining_date = "2020-06-01";
+});
+
+describe("calculateAccrual", () => {
+  it("credits upfront allocations in full on the start date", () => {
+    const upfront = allocation({ accrual_frequency: "upfront" });
+
+    expect(calculateAccrual(db, upfront, TEACHER_ID, "2026-01-01")).toEqual({
+      entitlement: 12,
+      accrued: 12,
+    });
+    expect(calculateAccrual(db, upfront, TEACHER_ID, "2025-12-31").accrued).toBe(0);
+  });
+
+  it("credits monthly allocations at the start of each month", () => {
+    const monthly = allocation();
+
+    expect(calculateAccrual(db, monthly, TEACHER_ID, "2026-01-01").accrued).toBe(1);
+    expect(calculateAccrual(db, monthly, TEACHER_ID, "2026-03-15").accrued).toBe(3);
+    expect(calculateAccrual(db, monthly, TEACHER_ID, "2026-12-31")).toEqual({
+      entitlement: 12,
+      accrued: 12,
+    });
+  });
+
+  it("credits quarterly allocations a quarter at a time", () => {
+    const quarterly = allocation({ accrual_frequency: "quarterly" });
+
+    expect(calculateAccrual(db, quarterly, TEACHER_ID, "2026-03-31").accrued).toBe(3);
+    expect(calculateAccrual(db, quarterly, TEACHER_ID, "2026-04-01").accrued).toBe(6);
+  });
+
+  it("rounds credits down to half days", () => {
+    const monthly = allocation({ total_days: "10.00" });
+
+    // 10 / 12 = 0.83 days a month
+    expect(calculateAccrual(db, monthly, TEACHER_ID, "2026-01-01").accrued).toBe(0.5);
+    expect(calculateAccrual(db, monthly, TEACHER_ID, "2026-02-01").accrued).toBe(1.5);
+  });
+
+  it("pro-rates from the month the user joined", () => {
+    const prorated = allocation({ is_prorated: true });
+    teacher.joining_date = "2026-07-10";
+
+    expect(calculateAccrual(db, prorated, TEACHER_ID, "2026-08-01")).toEqual({
+      entitlement: 6,
+      accrued: 2,
+    });
+    expect(calculateAccrual(db, prorated, NON_TEACHER_ID ?? "", "2026-08-01")).toEqual({
+      entitlement: 12,
+      accrued: 8,
+    });
+  });
+
+  it("credits nothing before the joining date", () => {
+    const prorated = allocation({ is_prorated: true });
+    teacher.joining_date = "2026-07-10";
+
+    expect(calculateAccrual(db, prorated, TEACHER_ID, "2026-07-09").accrued).toBe(0);
+    expect(calculateAccrual(db, prorated, TEACHER_ID, "2026-07-10").accrued).toBe(1);
+  });
+
+  it("credits a mid-quarter joiner's share of the quarter from the joining date", () => {
+    const quarterly = allocation({ accrual_frequency: "quarterly", is_prorated: true });
+    teacher.joining_date = "2026-02-10";
+
+    expect(calculateAccrual(db, quarterly, TEACHER_ID, "2026-02-09")).toEqual({
+      entitlement: 11,
+      accrued: 0,
+    });
+    // February and March, not the whole quarter
+    expect(calculateAccrual(db, quarterly, TEACHER_ID, "2026-02-10").accrued).toBe(2);
+    expect(calculateAccrual(db, quarterly, TEACHER_ID, "2026-04-01").accrued).toBe(5);
+  });
+
+  it("ignores the joining date unless the allocation is pro-rated", () => {
+    teacher.joining_date = "2026-07-10";
+
+    expect(calculateAccrual(db, allocation(), TEACHER_ID, "2026-08-01")).toEqual({
+      entitlement: 12,
+      accrued: 8,
+    });
+  });
+
+  it("spreads allocations without an end date over twelve months", () => {
+    const openEnded = allocation({ effective_from: "2026-04-01", effective_to: null });
+
+    expect(calculateAccrual(db, openEnded, TEACHER_ID, "2026-04-01").accrued).toBe(1);
+    expect(calculateAccrual(db, openEnded, TEACHER_ID, "2027-03-01").accrued).toBe(12);
+  });
+});
+
+describe("getOpeningDays", () => {
+  it("opens accruing balances with what has been earned so far", () => {
+    expect(getOpeningDays(db, allocation(), TEACHER_ID, "2026-03-15")).toBe(3);
+    expect(
+      getOpeningDays(db, allocation({ accrual_frequency: "upfront" }), TEACHER_ID, "2026-03-15")
+    ).toBe(12);
+  });
+});
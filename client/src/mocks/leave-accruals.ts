@@ -0,0 +1,101 @@
+/**
+ * Mock Leave Accruals
+ * Works out how many days of an allocation a user has earned by a date, the
+ * way the backend's accrual job does. An allocation's days are spread evenly
+ * over the months it covers and credited upfront, at the start of each month
+ * or at the start of each quarter. Pro-rated allocations only credit the
+ * months from the user's joining date onwards.
+ */
+
+import { addMonths, endOfMonth, format, parseISO, subDays } from "date-fns";
+import type { MockDb, MockLeaveAllocation } from "./db";
+
+export interface Accrual {
+  /** Days for the whole allocation period, after pro-rating */
+  entitlement: number;
+  /** Days credited by the as-of date */
+  accrued: number;
+}
+
+const MONTHS_PER_PERIOD = { upfront: 0, monthly: 1, quarterly: 3 } as const;
+
+/** Credits are posted in half days, rounded down */
+function toHalfDays(days: number): number {
+  return Math.floor(days * 2) / 2;
+}
+
+/**
+ * Whether the allocation credits anything other than its full total on day one
+ */
+export function isAccruing(allocation: MockLeaveAllocation): boolean {
+  return allocation.accrual_frequency !== "upfront" || allocation.is_prorated;
+}
+
+/**
+ * Joining date of the user's teacher record; other staff count as having
+ * joined before any allocation started
+ */
+export function getJoiningDate(db: MockDb, userId: string): string | null {
+  return db.teachers.find((teacher) => teacher.user_id === userId)?.joining_date || null;
+}
+
+/**
+ * The days of `allocation` the user has earned on `asOf` (yyyy-MM-dd).
+ * Allocations without an end date accrue over the twelve months from their
+ * start.
+ */
+export function calculateAccrual(
+  db: MockDb,
+  allocation: MockLeaveAllocation,
+  userId: string,
+  asOf: string
+): Accrual {
+  const start = parseISO(allocation.effective_from);
+  const end = allocation.effective_to
+    ? parseISO(allocation.effective_to)
+    : subDays(addMonths(start, 12), 1);
+  const months: Date[] = [];
+  for (let month = start; month <= end; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  if (months.length === 0) {
+    return { entitlement: 0, accrued: 0 };
+  }
+
+  const perMonth = Number(allocation.total_days) / months.length;
+  const joiningDate = allocation.is_prorated ? getJoiningDate(db, userId) : null;
+  const eligible = months
+    .map((month, index) => ({ month, index }))
+    .filter(({ month }) => !joiningDate || format(endOfMonth(month), "yyyy-MM-dd") >= joiningDate);
+
+  // Each month is credited at the start of its period: the allocation start
+  // for upfront credits, otherwise its own month or the quarter it falls in.
+  // Someone who joins mid-period is credited from their joining date instead.
+  const periodMonths = MONTHS_PER_PERIOD[allocation.accrual_frequency];
+  const credited = eligible.filter(({ index }) => {
+    const creditIndex = periodMonths === 0 ? 0 : index - (index % periodMonths);
+    const periodStart = format(months[creditIndex], "yyyy-MM-dd");
+    const creditDate = joiningDate && joiningDate > periodStart ? joiningDate : periodStart;
+    return creditDate <= asOf;
+  });
+
+  return {
+    entitlement: toHalfDays(perMonth * eligible.length),
+    accrued: toHalfDays(perMonth * credited.length),
+  };
+}
+
+/**
+ * Days a new balance on the allocation starts with: everything for upfront
+ * allocations, otherwise what has accrued by `asOf`
+ */
+export function getOpeningDays(
+  db: MockDb,
+  allocation: MockLeaveAllocation,
+  userId: string,
+  asOf: string
+): number {
+  return isAccruing(allocation)
+    ? calculateAccrual(db, allocation, userId, asOf).accrued
+    : Number(allocation.total_days);
+}
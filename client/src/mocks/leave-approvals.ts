@@ -0,0 +1,130 @@
+/**
+ * Mock Leave Approvals
+ * Picks the approval workflow for a leave request and resolves who may act
+ * on each step of its chain, the way the backend does on submit and review.
+ * Requests no workflow matches get a single supervisor review, the behaviour
+ * from before workflows existed.
+ */
+
+import { getManageableUsers } from "./handlers/organization";
+import type {
+  MockApprovalStep,
+  MockApprovalWorkflowStep,
+  MockDb,
+  MockLeaveApprovalWorkflow,
+  MockLeaveRequest,
+  MockUser,
+} from "./db";
+
+const DEFAULT_STEPS: MockApprovalWorkflowStep[] = [
+  { approver_type: "supervisor", organization_role_code: null },
+];
+
+/**
+ * The active workflow for the request, preferring the most specific match:
+ * one limited to leave types, then the highest minimum length, then one
+ * limited to roles
+ */
+export function findApprovalWorkflow(
+  db: MockDb,
+  request: MockLeaveRequest
+): MockLeaveApprovalWorkflow | undefined {
+  const requester = db.users.find((user) => user.public_id === request.user_id);
+  const roleId = db.organizationRoles.find(
+    (role) => role.code === requester?.organization_role_code
+  )?.id;
+  const balance = db.leaveBalances.find((item) => item.public_id === request.balance_id);
+  const leaveTypeId = db.leaveAllocations.find(
+    (item) => item.public_id === balance?.allocation_id
+  )?.leave_type_id;
+
+  const specificity = (workflow: MockLeaveApprovalWorkflow) => [
+    workflow.leave_type_ids.length > 0 ? 1 : 0,
+    workflow.min_days,
+    workflow.role_ids.length > 0 ? 1 : 0,
+  ];
+
+  return db.leaveApprovalWorkflows
+    .filter(
+      (workflow) =>
+        workflow.is_active &&
+        workflow.steps.length > 0 &&
+        (workflow.role_ids.length === 0 ||
+          (roleId !== undefined && workflow.role_ids.includes(roleId))) &&
+        (workflow.leave_type_ids.length === 0 ||
+          (leaveTypeId !== undefined && workflow.leave_type_ids.includes(leaveTypeId))) &&
+        request.number_of_days >= workflow.min_days
+    )
+    .sort((a, b) => {
+      const [left, right] = [specificity(a), specificity(b)];
+      const index = left.findIndex((value, position) => value !== right[position]);
+      return index === -1 ? 0 : right[index] - left[index];
+    })[0];
+}
+
+/**
+ * Copy the matching workflow's steps onto the request with the first step
+ * awaiting review. Resubmitting an edited request restarts the chain.
+ */
+export function startApprovalChain(db: MockDb, request: MockLeaveRequest): void {
+  const workflow = findApprovalWorkflow(db, request);
+  request.workflow_id = workflow?.public_id ?? null;
+  request.approval_steps = (workflow?.steps ?? DEFAULT_STEPS).map((step, index) => ({
+    approver_type: step.approver_type,
+    organization_role_code: step.organization_role_code,
+    status: index === 0 ? "pending" : "waiting",
+    acted_by: null,
+    acted_at: null,
+    comments: "",
+  }));
+}
+
+/**
+ * The step awaiting review, if the request is still in its chain
+ */
+export function getCurrentStep(request: MockLeaveRequest): MockApprovalStep | undefined {
+  return request.status === "pending"
+    ? request.approval_steps.find((step) => step.status === "pending")
+    : undefined;
+}
+
+/**
+ * Staff who may act on a step. The requester never reviews their own leave;
+ * a step nobody else can act on falls to the admins.
+ */
+export function getStepApprovers(
+  db: MockDb,
+  request: MockLeaveRequest,
+  step: MockApprovalWorkflowStep
+): MockUser[] {
+  const staff = db.users.filter(
+    (user) =>
+      user.is_active &&
+      (user.role === "admin" || user.role === "teacher") &&
+      user.public_id !== request.user_id
+  );
+
+  let approvers: MockUser[];
+  if (step.approver_type === "supervisor") {
+    approvers = staff.filter((user) =>
+      getManageableUsers(db, user).some((managed) => managed.public_id === request.user_id)
+    );
+  } else if (step.approver_type === "organization_role") {
+    approvers = staff.filter((user) => user.organization_role_code === step.organization_role_code);
+  } else {
+    approvers = staff.filter((user) => user.role === "admin");
+  }
+
+  return approvers.length > 0 ? approvers : staff.filter((user) => user.role === "admin");
+}
+
+/**
+ * Whether the request is waiting on the user's step of its chain
+ */
+export function isAwaitingUser(db: MockDb, request: MockLeaveRequest, user: MockUser): boolean {
+  const step = getCurrentStep(request);
+  return (
+    step !== undefined &&
+    getStepApprovers(db, request, step).some((approver) => approver.public_id === user.public_id)
+  );
+}
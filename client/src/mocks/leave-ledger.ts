@@ -0,0 +1,52 @@
+/**
+ * Mock Leave Ledger
+ * Every change to a leave balance is posted as a ledger entry: opening
+ * allocations, accrual credits, carry-forward, approved leave, cancellations
+ * and manual adjustments. A balance's entries always add up to its allocated
+ * and carried forward days less the days taken; pending requests are only
+ * posted once approved.
+ */
+
+import { nextPublicId, nowIso } from "./db";
+import type { MockDb, MockLeaveLedgerEntry } from "./db";
+
+export interface LedgerPosting {
+  entry_type: MockLeaveLedgerEntry["entry_type"];
+  days: number;
+  created_by: string | null;
+  request_id?: string | null;
+  note: string;
+  at?: string;
+}
+
+/**
+ * Post an entry to the balance's ledger. Zero-day postings are skipped.
+ */
+export function recordLedgerEntry(db: MockDb, balanceId: string, posting: LedgerPosting): void {
+  if (posting.days === 0) {
+    return;
+  }
+  db.leaveLedgerEntries.push({
+    public_id: nextPublicId(db, "leaveledger"),
+    balance_id: balanceId,
+    entry_type: posting.entry_type,
+    days: posting.days,
+    created_at: posting.at ?? nowIso(),
+    created_by: posting.created_by,
+    request_id: posting.request_id ?? null,
+    note: posting.note,
+  });
+}
+
+/**
+ * The balance's entries, oldest first
+ */
+export function getLedgerEntries(db: MockDb, balanceId: string): MockLeaveLedgerEntry[] {
+  return db.leaveLedgerEntries
+    .filter((entry) => entry.balance_id === balanceId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export function deleteLedgerEntries(db: MockDb, balanceId: string): void {
+  db.leaveLedgerEntries = db.leaveLedgerEntries.filter((entry) => entry.balance_id !== balanceId);
+}
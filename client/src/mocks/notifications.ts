@@ -0,0 +1,73 @@
+/**
+ * Mock Notifications
+ * Creates in-app notifications from the mock handlers and pushes each one to
+ * the recipient's open notification streams (see event-stream.ts). The mock
+ * database lives in the tab, so a stream only hears about events caused in
+ * that same tab.
+ */
+
+import type { AppNotification } from "@/lib/api/notification-api";
+import { nextPublicId, nowIso } from "./db";
+import type { MockDb, MockNotification } from "./db";
+
+type NotificationContent = Pick<MockNotification, "type" | "title" | "body" | "link">;
+type NotificationListener = (notification: AppNotification) => void;
+
+/** Open streams by the user public_id they belong to */
+const listeners = new Map<string, Set<NotificationListener>>();
+
+export function serializeNotification(notification: MockNotification): AppNotification {
+  return {
+    public_id: notification.public_id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    read_at: notification.read_at,
+    created_at: notification.created_at,
+  };
+}
+
+/**
+ * Notify each user once, skipping duplicates, and push the notification to
+ * their open streams
+ */
+export function notify(
+  db: MockDb,
+  userIds: string[],
+  content: NotificationContent,
+  at: string = nowIso()
+): MockNotification[] {
+  return Array.from(new Set(userIds)).map((userId) => {
+    const notification: MockNotification = {
+      public_id: nextPublicId(db, "notification"),
+      user_id: userId,
+      ...content,
+      read_at: null,
+      created_at: at,
+    };
+    db.notifications.push(notification);
+    listeners.get(userId)?.forEach((listener) => listener(serializeNotification(notification)));
+    return notification;
+  });
+}
+
+/**
+ * Listen for notifications created for a user.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToNotifications(
+  userId: string,
+  listener: NotificationListener
+): () => void {
+  const userListeners = listeners.get(userId) ?? new Set();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Mock Query Helpers
+ * Small equivalents of the DRF filter backends used by the list endpoints.
+ */
+
+export type Payload = Record<string, unknown>;
+
+/**
+ * Treat a parsed request body as an object payload (arrays and FormData
+ * bodies become an empty payload)
+ */
+export function asPayload(body: unknown): Payload {
+  return body && typeof body === "object" && !Array.isArray(body) && !(body instanceof FormData)
+    ? (body as Payload)
+    : {};
+}
+
+/**
+ * Split a multipart body into its text fields and uploaded files. Fields sent
+ * more than once become arrays; a JSON body is returned as the payload.
+ */
+export function readFormData(body: unknown): { payload: Payload; files: Record<string, File[]> } {
+  if (!(body instanceof FormData)) {
+    return { payload: asPayload(body), files: {} };
+  }
+
+  const payload: Payload = {};
+  const files: Record<string, File[]> = {};
+  body.forEach((value, key) => {
+    if (value instanceof File) {
+      files[key] = [...(files[key] ?? []), value];
+    } else if (key in payload) {
+      payload[key] = ([] as unknown[]).concat(payload[key], value);
+    } else {
+      payload[key] = value;
+    }
+  });
+  return { payload, files };
+}
+
+/**
+ * Case-insensitive `search` across the given values (SearchFilter)
+ */
+export function matchesSearch(
+  query: URLSearchParams,
+  values: Array<string | null | undefined>
+): boolean {
+  const search = query.get("search")?.trim().toLowerCase();
+  if (!search) {
+    return true;
+  }
+  return values.some((value) => value?.toLowerCase().includes(search));
+}
+
+/**
+ * Read a boolean query param; returns undefined when absent
+ */
+export function getBooleanParam(query: URLSearchParams, key: string): boolean | undefined {
+  const value = query.get(key);
+  if (value === null || value === "") {
+    return undefined;
+  }
+  return value === "true" || value === "1" || value === "True";
+}
+
+/**
+ * Apply `?ordering=field` / `?ordering=-field` (OrderingFilter)
+ */
+export function applyOrdering<T>(
+  items: T[],
+  query: URLSearchParams,
+  getValue: (item: T, field: string) => string | number | null | undefined,
+  defaultOrdering?: string
+): T[] {
+  const ordering = query.get("ordering") || defaultOrdering;
+  if (!ordering) {
+    return items;
+  }
+
+  const descending = ordering.startsWith("-");
+  const field = descending ? ordering.slice(1) : ordering;
+  return [...items].sort((a, b) => {
+    const left = getValue(a, field) ?? "";
+    const right = getValue(b, field) ?? "";
+    if (left === right) {
+      return 0;
+    }
+    const result = left < right ? -1 : 1;
+    return descending ? -result : result;
+  });
+}
+
+/**
+ * Date range filter on ISO date strings; both bounds are inclusive
+ */
+export function inDateRange(date: string, from?: string | null, to?: string | null): boolean {
+  return (!from || date >= from) && (!to || date <= to);
+}
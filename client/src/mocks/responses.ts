@@ -0,0 +1,151 @@
+/**
+ * Mock Response Builders
+ * Produce the same envelopes as the Django backend (see lib/api/types.ts) so
+ * the HTTP client and error parsers behave exactly as they do against the
+ * real API.
+ */
+
+import type { ApiErrorResponse, ApiListResponse, ApiResponse, Pagination } from "@/lib/api/types";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  /** Raw body for file downloads; takes precedence over `body` */
+  blob?: Blob;
+  headers?: Record<string, string>;
+}
+
+export type FieldErrors = Record<string, string[]>;
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// ============================================================================
+// Success Responses
+// ============================================================================
+
+/**
+ * Standard single item envelope
+ */
+export function ok<T>(data: T, message = "Request successful", code = 200): MockResponse {
+  const body: ApiResponse<T> = { success: true, message, data, code };
+  return { status: code, body };
+}
+
+/**
+ * Standard envelope for a newly created item
+ */
+export function created<T>(data: T, message = "Created successfully"): MockResponse {
+  return ok(data, message, 201);
+}
+
+/**
+ * Paginated list envelope. Reads `page` and `page_size` from the query string
+ * and slices the items the same way DRF's page number pagination does.
+ */
+export function paginated<T>(
+  items: T[],
+  query: URLSearchParams,
+  message = "Request successful"
+): MockResponse {
+  const pageSize = Math.max(1, Number(query.get("page_size")) || DEFAULT_PAGE_SIZE);
+  const page = Math.max(1, Number(query.get("page")) || 1);
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+
+  const pagination: Pagination = {
+    current_page: page,
+    total_pages: totalPages,
+    count: items.length,
+    page_size: pageSize,
+    has_next: page < totalPages,
+    has_previous: page > 1,
+    next_page: page < totalPages ? page + 1 : null,
+    previous_page: page > 1 ? page - 1 : null,
+  };
+
+  const body: ApiListResponse<T> = {
+    success: true,
+    message,
+    data: items.slice((page - 1) * pageSize, page * pageSize),
+    pagination,
+    code: 200,
+  };
+  return { status: 200, body };
+}
+
+/**
+ * Plain body without the envelope, for the few endpoints that skip it
+ * (login, token refresh, organization registration)
+ */
+export function raw(body: unknown, status = 200): MockResponse {
+  return { status, body };
+}
+
+/**
+ * File download
+ */
+export function file(content: string, filename: string, contentType = "text/csv"): MockResponse {
+  return {
+    status: 200,
+    blob: new Blob([content], { type: contentType }),
+    headers: { "Content-Disposition": `attachment; filename="${filename}"` },
+  };
+}
+
+// ============================================================================
+// Error Responses
+// ============================================================================
+
+export function error(code: number, message: string, errors: unknown = null): MockResponse {
+  const body: ApiErrorResponse = { success: false, message, errors, code, data: null };
+  return { status: code, body };
+}
+
+/**
+ * 400 with DRF style field errors: `{ field: ["message"] }`
+ */
+export function validationError(
+  errors: FieldErrors | Record<string, unknown>,
+  message = "Validation failed"
+): MockResponse {
+  return error(400, message, errors);
+}
+
+export function notFound(resource = "Resource"): MockResponse {
+  return error(404, `${resource} not found.`, { detail: `${resource} not found.` });
+}
+
+export function unauthorized(message = "Given token not valid for any token type"): MockResponse {
+  return error(401, message, { detail: message, code: "token_not_valid" });
+}
+
+export function forbidden(
+  message = "You do not have permission to perform this action."
+): MockResponse {
+  return error(403, message, { detail: message });
+}
+
+// ============================================================================
+// Validation Helpers
+// ============================================================================
+
+/**
+ * Collect "This field is required." errors for missing or blank fields
+ */
+export function requireFields(body: Record<string, unknown>, fields: string[]): FieldErrors {
+  const errors: FieldErrors = {};
+  fields.forEach((field) => {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") {
+      errors[field] = ["This field is required."];
+    }
+  });
+  return errors;
+}
+
+export function hasErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
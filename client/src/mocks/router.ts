@@ -0,0 +1,143 @@
+/**
+ * Mock Router
+ * Minimal path matcher for the mock backend. Patterns use `:param` segments,
+ * e.g. `/api/classes/admin/:publicId/`. When several routes match, the one
+ * with the fewest params wins, so `/leave-balances/summary/` beats
+ * `/leave-balances/:publicId/` regardless of registration order.
+ */
+
+import type { MockDb, MockUser } from "./db";
+import type { MockResponse } from "./responses";
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** Parsed JSON body, or the FormData for uploads */
+  body: unknown;
+  /** Signed in user resolved from the bearer token (null on public routes) */
+  user: MockUser | null;
+  db: MockDb;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse;
+
+export interface RouteOptions {
+  /** Reachable without an access token */
+  isPublic?: boolean;
+}
+
+interface Route {
+  method: HttpMethod;
+  segments: string[];
+  paramCount: number;
+  handler: MockHandler;
+  isPublic: boolean;
+}
+
+export interface RouteMatch {
+  handler: MockHandler;
+  params: Record<string, string>;
+  isPublic: boolean;
+}
+
+export interface MockRouter {
+  get: (pattern: string, handler: MockHandler, options?: RouteOptions) => void;
+  post: (pattern: string, handler: MockHandler, options?: RouteOptions) => void;
+  put: (pattern: string, handler: MockHandler, options?: RouteOptions) => void;
+  patch: (pattern: string, handler: MockHandler, options?: RouteOptions) => void;
+  delete: (pattern: string, handler: MockHandler, options?: RouteOptions) => void;
+  match: (method: HttpMethod, path: string) => RouteMatch | null;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Collapse duplicate slashes and drop the trailing one, so `/a//b/` and
+ * `/a/b` resolve to the same route
+ */
+export function normalizePath(path: string): string {
+  return path.replace(/\/{2,}/g, "/").replace(/\/$/, "") || "/";
+}
+
+function splitPath(path: string): string[] {
+  return normalizePath(path).split("/").filter(Boolean);
+}
+
+function matchSegments(
+  routeSegments: string[],
+  pathSegments: string[]
+): Record<string, string> | null {
+  if (routeSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const routeSegment = routeSegments[i];
+    if (routeSegment.startsWith(":")) {
+      params[routeSegment.slice(1)] = decodeURIComponent(pathSegments[i]);
+    } else if (routeSegment !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+export function createRouter(): MockRouter {
+  const routes: Route[] = [];
+
+  const register =
+    (method: HttpMethod) =>
+    (pattern: string, handler: MockHandler, options: RouteOptions = {}) => {
+      const segments = splitPath(pattern);
+      routes.push({
+        method,
+        segments,
+        paramCount: segments.filter((segment) => segment.startsWith(":")).length,
+        handler,
+        isPublic: options.isPublic ?? false,
+      });
+    };
+
+  const match = (method: HttpMethod, path: string): RouteMatch | null => {
+    const pathSegments = splitPath(path);
+    let best: RouteMatch | null = null;
+    let bestParamCount = Infinity;
+
+    for (const route of routes) {
+      if (route.method !== method || route.paramCount >= bestParamCount) {
+        continue;
+      }
+      const params = matchSegments(route.segments, pathSegments);
+      if (params) {
+        best = { handler: route.handler, params, isPublic: route.isPublic };
+        bestParamCount = route.paramCount;
+      }
+    }
+
+    return best;
+  };
+
+  return {
+    get: register("GET"),
+    post: register("POST"),
+    put: register("PUT"),
+    patch: register("PATCH"),
+    delete: register("DELETE"),
+    match,
+  };
+}
@@ -0,0 +1,1793 @@
+/**
+ * Mock Seed Data
+ * Builds the demo organization behind the mock backend. Every value comes
+ * from a fixed-seed random generator, so a given day always produces the same
+ * people, classes and history; only attendance and leave dates move with
+ * today's date so the dashboards stay populated.
+ */
+
+import { addDays, addMonths, format, parseISO, subDays, subMonths } from "date-fns";
+import { DEFAULT_PASS_PERCENTAGE, ExamStatus } from "@/constants/exams";
+import { NotificationType } from "@/constants/notifications";
+import { ORGANIZATION_ROLE_CODES } from "@/lib/constants/organization-roles";
+import { isWorkingDay, toDateString } from "./calendar";
+import { createAudit, findOrganizationRole, findUser, fullName, nextPublicId } from "./db";
+import { calculateAccrual, getOpeningDays, isAccruing } from "./leave-accruals";
+import { getCurrentStep, getStepApprovers, startApprovalChain } from "./leave-approvals";
+import { recordLedgerEntry } from "./leave-ledger";
+import { notify } from "./notifications";
+import type {
+  MockApprovalWorkflowStep,
+  MockAttendanceStatus,
+  MockDb,
+  MockLeaveAllocation,
+  MockLeaveApprovalWorkflow,
+  MockLeaveBalance,
+  MockLeaveRequest,
+  MockStudentAttendanceStatus,
+  MockTeacher,
+  MockUser,
+  MockUserRole,
+} from "./db";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SEED = 20240601;
+/** Timestamp used for records that exist "before" the demo starts */
+const SEED_TIMESTAMP = "2024-06-01T09:00:00.000Z";
+
+/**
+ * Sign-in accounts for demos (password is the same for all of them)
+ */
+export const MOCK_CREDENTIALS = {
+  password: "password123",
+  admin: "admin",
+  teacher: "teacher",
+  parent: "parent",
+} as const;
+
+const FIRST_NAMES_MALE = [
+  "Aarav",
+  "Vivaan",
+  "Aditya",
+  "Arjun",
+  "Rohan",
+  "Kabir",
+  "Ishaan",
+  "Rahul",
+  "Karan",
+  "Dev",
+  "Nikhil",
+  "Siddharth",
+  "Manish",
+  "Vikram",
+  "Yash",
+  "Harsh",
+];
+const FIRST_NAMES_FEMALE = [
+  "Ananya",
+  "Diya",
+  "Saanvi",
+  "Aditi",
+  "Priya",
+  "Meera",
+  "Kavya",
+  "Riya",
+  "Neha",
+  "Pooja",
+  "Sneha",
+  "Ishita",
+  "Tanvi",
+  "Nisha",
+  "Shreya",
+  "Lakshmi",
+];
+const LAST_NAMES = [
+  "Sharma",
+  "Verma",
+  "Iyer",
+  "Reddy",
+  "Nair",
+  "Patel",
+  "Gupta",
+  "Rao",
+  "Menon",
+  "Kulkarni",
+  "Joshi",
+  "Das",
+  "Singh",
+  "Pillai",
+  "Bose",
+  "Chopra",
+];
+const BLOOD_GROUPS = ["A+", "A-", "B+", "B-", "O+", "O-", "AB+", "AB-"];
+
+const CORE_CLASS_NAMES = [
+  "Pre-KG",
+  "LKG",
+  "UKG",
+  "Class 1",
+  "Class 2",
+  "Class 3",
+  "Class 4",
+  "Class 5",
+  "Class 6",
+  "Class 7",
+  "Class 8",
+  "Class 9",
+  "Class 10",
+  "Class 11",
+  "Class 12",
+];
+const CORE_SUBJECT_NAMES = [
+  "English",
+  "Hindi",
+  "Mathematics",
+  "Science",
+  "Social Studies",
+  "Computer Science",
+  "Physics",
+  "Chemistry",
+  "Biology",
+  "Art",
+  "Physical Education",
+];
+/** Core subject ids (1-based) taught in every seeded section */
+const SECTION_SUBJECT_IDS = [1, 3, 4, 5];
+
+const ORGANIZATION_ROLE_NAMES: Record<string, string> = {
+  TEACHER: "Teacher",
+  STUDENT: "Student",
+  PRINCIPAL: "Principal",
+  VICE_PRINCIPAL: "Vice Principal",
+  HOD: "Head of Department",
+  ADMIN: "Administrator",
+  COORDINATOR: "Coordinator",
+  COUNSELOR: "Counselor",
+  LIBRARIAN: "Librarian",
+  LAB_ASST: "Lab Assistant",
+  ACCOUNTANT: "Accountant",
+  PARENT: "Parent",
+};
+
+const STAFF_ROLE_CODES = [
+  ORGANIZATION_ROLE_CODES.TEACHER,
+  ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+  ORGANIZATION_ROLE_CODES.HOD,
+  ORGANIZATION_ROLE_CODES.ADMIN,
+];
+
+const TEACHER_COUNT = 12;
+const SECTIONS = ["A", "B"];
+/** Core class ids for Class 1 to Class 6 */
+const SEEDED_CORE_CLASS_IDS = [4, 5, 6, 7, 8, 9];
+const STUDENTS_PER_SECTION = 8;
+const ATTENDANCE_HISTORY_DAYS = 30;
+const STUDENT_ATTENDANCE_HISTORY_DAYS = 30;
+
+/** Bell schedule: [name, start, end, is_break] */
+const BELL_SCHEDULE: [string, string, string, boolean][] = [
+  ["Period 1", "08:30", "09:15", false],
+  ["Period 2", "09:15", "10:00", false],
+  ["Period 3", "10:00", "10:45", false],
+  ["Short Break", "10:45", "11:00", true],
+  ["Period 4", "11:00", "11:45", false],
+  ["Period 5", "11:45", "12:30", false],
+  ["Lunch", "12:30", "13:15", true],
+  ["Period 6", "13:15", "14:00", false],
+  ["Period 7", "14:00", "14:45", false],
+];
+const TIMETABLE_DAY_COUNT = 6; // Monday - Saturday
+const MAX_SEEDED_SUBJECT_PERIODS_PER_DAY = 2;
+/**
+ * Every section gets a self-study period roughly this often, which also
+ * leaves teachers free to cover colleagues on leave
+ */
+const SELF_STUDY_PERIOD_INTERVAL = 4;
+
+/** Default grade scale: [min %, grade, grade point, description] */
+const GRADE_BANDS: [number, string, number, string][] = [
+  [91, "A1", 10, "Outstanding"],
+  [81, "A2", 9, "Excellent"],
+  [71, "B1", 8, "Very Good"],
+  [61, "B2", 7, "Good"],
+  [51, "C1", 6, "Above Average"],
+  [41, "C2", 5, "Average"],
+  [33, "D", 4, "Pass"],
+  [0, "E", 0, "Needs Improvement"],
+];
+
+/** Class teacher remarks for published report cards: [min ability, remark] */
+const REPORT_CARD_REMARKS: [number, string][] = [
+  [85, "Excellent work this term. Keep it up!"],
+  [70, "Consistent effort. Can aim higher with regular revision."],
+  [55, "Steady progress. Needs to practise more at home."],
+  [0, "Needs closer attention to studies. Please meet the class teacher."],
+];
+
+/** Homework seeded for every section of a core subject: title and instructions */
+const HOMEWORK: Record<number, [string, string][]> = {
+  1: [
+    ["Letter Writing", "Write a formal letter to the principal requesting a school library visit."],
+    [
+      "Comprehension Worksheet",
+      "Read the attached passage and answer all questions in full sentences.",
+    ],
+    ["Book Review", "Review a book you read this month in about 200 words."],
+  ],
+  3: [
+    ["Fractions Practice", "Solve exercise 4.2, questions 1 to 15. Show all working."],
+    ["Word Problems", "Solve the word problems on the attached sheet."],
+    ["Geometry Construction", "Construct the triangles in exercise 7.1 using a compass and ruler."],
+  ],
+  4: [
+    ["Plant Cell Diagram", "Draw and label a plant cell. Colour the chloroplasts green."],
+    ["Experiment Report", "Write up the magnet experiment from class using the attached template."],
+    ["Water Cycle Model", "Make a poster of the water cycle with the four stages labelled."],
+  ],
+  5: [
+    ["Map Work", "Mark the major rivers of India on an outline map."],
+    ["Chapter Questions", "Answer the back exercise questions of chapter 3."],
+    ["Local History Project", "Interview an elder about how your area has changed in 30 years."],
+  ],
+};
+/** Due date of each seeded homework, in days from today */
+const HOMEWORK_DUE_OFFSETS = [-10, -2, 4];
+const HOMEWORK_MAX_MARKS = [10, null, 20];
+/** Share of the section handing in each seeded homework */
+const HOMEWORK_SUBMISSION_RATES = [0.9, 0.7, 0.25];
+const HOMEWORK_FEEDBACK = [
+  "Well done, neat and complete.",
+  "Good attempt. Check your working on the last few questions.",
+  "Incomplete. Please redo the missing parts.",
+];
+
+/** Seeded parent–teacher conversations: subject and [sent by parent, message] lines */
+const SEEDED_CONVERSATIONS: [string, [boolean, string][]][] = [
+  [
+    "Absence next week",
+    [
+      [true, "Good evening. We have a family function next Thursday, so our child will be absent."],
+      [false, "Thank you for letting me know. Please send a leave note in her diary."],
+      [true, "Will do. Is there any class work to catch up on?"],
+    ],
+  ],
+  [
+    "Maths practice at home",
+    [
+      [true, "Our child finds fractions difficult. Could you suggest some practice at home?"],
+      [false, "Exercise 4.2 is a good start. I will also share a worksheet this week."],
+      [false, "The worksheet went home today. Please go through it together."],
+    ],
+  ],
+];
+
+/**
+ * Seeded announcements: title, body, audience, whether it asks for an
+ * acknowledgement, and when it is published and expires in days from today
+ */
+const SEEDED_ANNOUNCEMENTS: [
+  string,
+  string,
+  { roles?: string[]; organization_role_codes?: string[]; class_master_ids?: number[] },
+  boolean,
+  number,
+  number | null,
+][] = [
+  [
+    "Parent–Teacher Meeting this Saturday",
+    "Parent–teacher meetings will be held this Saturday from 9:00 to 13:00 in the classrooms. Please acknowledge that you have seen this circular.",
+    { roles: ["parent", "teacher"] },
+    true,
+    -3,
+    4,
+  ],
+  [
+    "Revised exam duty roster",
+    "The revised invigilation roster for the term exams is on the staff room notice board.",
+    { roles: ["teacher"] },
+    false,
+    -1,
+    null,
+  ],
+  [
+    "Science centre field trip",
+    "Class 1 will visit the science centre next Friday. Please acknowledge to give consent for your child to attend.",
+    { class_master_ids: [4] },
+    true,
+    -2,
+    7,
+  ],
+  [
+    "Heads of department meeting",
+    "Heads of department will meet on Monday at 15:30 to plan next term's syllabus.",
+    {
+      organization_role_codes: [
+        ORGANIZATION_ROLE_CODES.HOD,
+        ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+      ],
+    },
+    false,
+    2,
+    null,
+  ],
+  [
+    "Sports day results",
+    "Thank you for cheering at sports day. Results and photos are on the school website.",
+    { roles: ["parent"] },
+    false,
+    -20,
+    -5,
+  ],
+];
+/** Share of the other recipients who have opened a seeded announcement, and acknowledged it */
+const ANNOUNCEMENT_READ_RATE = 0.6;
+const ANNOUNCEMENT_ACKNOWLEDGE_RATE = 0.7;
+
+// ============================================================================
+// Random Generator
+// ============================================================================
+
+/**
+ * mulberry32: tiny, fast and good enough for demo data
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, "0");
+}
+
+function atTime(date: Date, hours: number, minutes: number): string {
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result.toISOString();
+}
+
+// ============================================================================
+// Seeders
+// ============================================================================
+
+function seedReferenceData(db: MockDb): void {
+  db.organizationRoles = Object.values(ORGANIZATION_ROLE_CODES).map((code, index) => ({
+    id: index + 1,
+    name: ORGANIZATION_ROLE_NAMES[code] ?? code,
+    code,
+    description: `${ORGANIZATION_ROLE_NAMES[code] ?? code} role`,
+    display_order: index + 1,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+
+  db.coreClasses = CORE_CLASS_NAMES.map((name, index) => ({
+    id: index + 1,
+    name,
+    code: name.toUpperCase().replace(/[^A-Z0-9]+/g, "_"),
+    display_order: index + 1,
+    description: name,
+  }));
+
+  db.coreSubjects = CORE_SUBJECT_NAMES.map((name, index) => ({
+    id: index + 1,
+    public_id: nextPublicId(db, "subject"),
+    name,
+    code: name.slice(0, 3).toUpperCase() + pad(index + 1, 2),
+    description: `${name} curriculum`,
+    is_deleted: false,
+  }));
+
+  db.leaveTypes = [
+    { name: "Casual Leave", code: "CL", description: "Short personal leave" },
+    { name: "Sick Leave", code: "SL", description: "Leave on medical grounds" },
+    { name: "Earned Leave", code: "EL", description: "Leave earned through service" },
+    { name: "Maternity Leave", code: "ML", description: "Leave for childbirth" },
+  ].map((leaveType, index) => ({
+    ...leaveType,
+    id: index + 1,
+    display_order: index + 1,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+}
+
+function createUser(
+  db: MockDb,
+  random: Random,
+  options: {
+    username: string;
+    role: MockUserRole;
+    organizationRoleCode: string;
+    supervisorId?: string | null;
+    email?: string;
+  }
+): MockUser {
+  const gender = random.chance(0.5) ? "M" : "F";
+  const firstName = random.pick(gender === "M" ? FIRST_NAMES_MALE : FIRST_NAMES_FEMALE);
+  const lastName = random.pick(LAST_NAMES);
+  const birthYear = options.role === "student" ? random.int(2012, 2018) : random.int(1970, 1995);
+
+  const user: MockUser = {
+    public_id: nextPublicId(db, "user"),
+    username: options.username,
+    password: MOCK_CREDENTIALS.password,
+    first_name: firstName,
+    last_name: lastName,
+    email: options.email ?? `${options.username}@greenwood.example.com`,
+    phone: `98${pad(random.int(0, 99999999), 8)}`,
+    role: options.role,
+    organization_role_code: options.organizationRoleCode,
+    gender,
+    blood_group: random.pick(BLOOD_GROUPS),
+    date_of_birth: `${birthYear}-${pad(random.int(1, 12), 2)}-${pad(random.int(1, 28), 2)}`,
+    supervisor_id: options.supervisorId ?? null,
+    address: {
+      public_id: nextPublicId(db, "address"),
+      address_type: "HOME",
+      street_address: `${random.int(1, 250)} ${random.pick(LAST_NAMES)} Street`,
+      city: "Bengaluru",
+      state: "Karnataka",
+      zip_code: `5600${pad(random.int(1, 99), 2)}`,
+      country: "India",
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    },
+    is_active: true,
+    notification_opt_in: true,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  };
+
+  db.users.push(user);
+  return user;
+}
+
+function seedPeople(db: MockDb, random: Random): void {
+  const admin = createUser(db, random, {
+    username: MOCK_CREDENTIALS.admin,
+    role: "admin",
+    organizationRoleCode: ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  });
+
+  db.organization = {
+    public_id: nextPublicId(db, "org"),
+    name: "Greenwood International School",
+    organization_type: "SCHOOL",
+    email: "office@greenwood.example.com",
+    phone: "08041234567",
+    website_url: "https://greenwood.example.com",
+    board_affiliation: "CBSE",
+    legal_entity: "Greenwood Education Trust",
+    is_active: true,
+    is_verified: true,
+    is_approved: true,
+    admin_id: admin.public_id,
+  };
+
+  const teacherRoleCodes: string[] = [
+    ORGANIZATION_ROLE_CODES.TEACHER,
+    ORGANIZATION_ROLE_CODES.HOD,
+    ORGANIZATION_ROLE_CODES.VICE_PRINCIPAL,
+  ];
+  const designations = ["PGT", "TGT", "PRT"];
+
+  for (let i = 0; i < TEACHER_COUNT; i++) {
+    const user = createUser(db, random, {
+      username: i === 0 ? MOCK_CREDENTIALS.teacher : `teacher${pad(i + 1, 2)}`,
+      role: "teacher",
+      organizationRoleCode: teacherRoleCodes[i] ?? ORGANIZATION_ROLE_CODES.TEACHER,
+      supervisorId: admin.public_id,
+    });
+    const subjectId = SECTION_SUBJECT_IDS[i % SECTION_SUBJECT_IDS.length];
+    const joiningYear = random.int(2010, 2023);
+
+    db.teachers.push({
+      public_id: nextPublicId(db, "teacher"),
+      user_id: user.public_id,
+      employee_id: `EMP${pad(i + 1, 3)}`,
+      highest_qualification: random.pick(["B.Ed", "M.Ed", "M.Sc, B.Ed", "M.A, B.Ed"]),
+      joining_date: `${joiningYear}-06-01`,
+      specialization: CORE_SUBJECT_NAMES[subjectId - 1],
+      designation: random.pick(designations),
+      experience_years: 2024 - joiningYear + random.int(0, 5),
+      subject_ids: [subjectId],
+      emergency_contact_name: `${random.pick(FIRST_NAMES_FEMALE)} ${user.last_name}`,
+      emergency_contact_number: `97${pad(random.int(0, 99999999), 8)}`,
+      is_deleted: false,
+      ...createAudit(admin.public_id, SEED_TIMESTAMP),
+    });
+  }
+
+  // The demo parent is the guardian of the first two students seeded below
+  createUser(db, random, {
+    username: MOCK_CREDENTIALS.parent,
+    role: "parent",
+    organizationRoleCode: ORGANIZATION_ROLE_CODES.PARENT,
+  });
+}
+
+function seedClasses(db: MockDb, random: Random): void {
+  const adminId = db.organization.admin_id;
+  const parent = db.users.find((user) => user.role === "parent");
+  let admissionSequence = 0;
+
+  SEEDED_CORE_CLASS_IDS.forEach((coreClassId, gradeIndex) => {
+    SECTIONS.forEach((section, sectionIndex) => {
+      const classTeacher: MockTeacher | undefined =
+        db.teachers[(gradeIndex * SECTIONS.length + sectionIndex) % db.teachers.length];
+
+      const masterClass = {
+        public_id: nextPublicId(db, "class"),
+        class_master_id: coreClassId,
+        name: section,
+        class_teacher_id: classTeacher?.public_id ?? null,
+        info: `Section ${section}`,
+        capacity: 40,
+        is_deleted: false,
+        ...createAudit(adminId, SEED_TIMESTAMP),
+      };
+      db.classes.push(masterClass);
+
+      SECTION_SUBJECT_IDS.forEach((subjectId, subjectIndex) => {
+        const teacher = db.teachers[(gradeIndex + subjectIndex * 3) % db.teachers.length];
+        db.subjects.push({
+          public_id: nextPublicId(db, "csubject"),
+          class_id: masterClass.public_id,
+          subject_id: subjectId,
+          teacher_id: teacher.public_id,
+          description: "",
+          is_deleted: false,
+          ...createAudit(adminId, SEED_TIMESTAMP),
+        });
+      });
+
+      for (let roll = 1; roll <= STUDENTS_PER_SECTION; roll++) {
+        admissionSequence += 1;
+        const user = createUser(db, random, {
+          username: `stu${pad(admissionSequence, 4)}`,
+          role: "student",
+          organizationRoleCode: ORGANIZATION_ROLE_CODES.STUDENT,
+          supervisorId: classTeacher ? classTeacher.user_id : adminId,
+        });
+        const isParentsChild = parent && admissionSequence <= 2;
+
+        db.students.push({
+          public_id: nextPublicId(db, "student"),
+          user_id: user.public_id,
+          class_id: masterClass.public_id,
+          roll_number: pad(roll, 2),
+          admission_number: `ADM${pad(admissionSequence, 4)}`,
+          admission_date: `${random.int(2019, 2024)}-04-01`,
+          guardian_name: isParentsChild
+            ? `${parent.first_name} ${parent.last_name}`
+            : `${random.pick(FIRST_NAMES_MALE)} ${user.last_name}`,
+          guardian_phone: isParentsChild ? parent.phone : `99${pad(random.int(0, 99999999), 8)}`,
+          guardian_email: isParentsChild ? parent.email : `guardian.${user.username}@example.com`,
+          guardian_relationship: isParentsChild ? "Parent" : random.pick(["Father", "Mother"]),
+          description: "",
+          medical_conditions: "",
+          emergency_contact_name: "",
+          emergency_contact_phone: "",
+          previous_school_name: "",
+          previous_school_address: "",
+          previous_school_class: "",
+          is_deleted: false,
+          ...createAudit(adminId, SEED_TIMESTAMP),
+        });
+      }
+    });
+  });
+}
+
+function seedCalendar(db: MockDb, today: Date): void {
+  const adminId = db.organization.admin_id;
+  const year = today.getFullYear();
+
+  db.workingDayPolicies.push({
+    public_id: nextPublicId(db, "policy"),
+    sunday_off: true,
+    saturday_off_pattern: "SECOND_AND_FOURTH",
+    effective_from: `${year - 1}-01-01`,
+    effective_to: null,
+    ...createAudit(adminId, SEED_TIMESTAMP),
+  });
+
+  const holidays: Array<
+    [string, string, "NATIONAL_HOLIDAY" | "FESTIVAL" | "ORGANIZATION_HOLIDAY"]
+  > = [
+    ["01-26", "Republic Day", "NATIONAL_HOLIDAY"],
+    ["03-14", "Holi", "FESTIVAL"],
+    ["05-01", "Labour Day", "ORGANIZATION_HOLIDAY"],
+    ["08-15", "Independence Day", "NATIONAL_HOLIDAY"],
+    ["10-02", "Gandhi Jayanti", "NATIONAL_HOLIDAY"],
+    ["11-01", "Karnataka Rajyotsava", "ORGANIZATION_HOLIDAY"],
+    ["12-25", "Christmas", "FESTIVAL"],
+  ];
+  [year - 1, year].forEach((holidayYear) => {
+    holidays.forEach(([monthDay, description, holidayType]) => {
+      db.holidays.push({
+        public_id: nextPublicId(db, "holiday"),
+        start_date: `${holidayYear}-${monthDay}`,
+        end_date: `${holidayYear}-${monthDay}`,
+        holiday_type: holidayType,
+        description,
+        ...createAudit(adminId, SEED_TIMESTAMP),
+      });
+    });
+  });
+
+  const firstClass = db.classes[0];
+  db.calendarExceptions.push(
+    {
+      public_id: nextPublicId(db, "calexc"),
+      is_applicable_to_all_classes: true,
+      classes: [],
+      date: `${year}-12-24`,
+      override_type: "FORCE_HOLIDAY",
+      reason: "Christmas Eve celebrations",
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    },
+    {
+      public_id: nextPublicId(db, "calexc"),
+      is_applicable_to_all_classes: false,
+      classes: firstClass ? [firstClass.public_id] : [],
+      date: `${year}-11-08`,
+      override_type: "FORCE_WORKING",
+      reason: "Remedial classes",
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    }
+  );
+
+  db.geofences.push({
+    public_id: nextPublicId(db, "geofence"),
+    name: "Main Campus",
+    latitude: 12.9716,
+    longitude: 77.5946,
+    radius_meters: 200,
+    is_active: true,
+    ...createAudit(adminId, SEED_TIMESTAMP),
+  });
+}
+
+function seedLeave(db: MockDb, random: Random, today: Date): void {
+  const adminId = db.organization.admin_id;
+  const staffRoleIds = STAFF_ROLE_CODES.map((code) => findOrganizationRole(db, code)?.id).filter(
+    (id): id is number => id !== undefined
+  );
+  const year = today.getFullYear();
+
+  // Earned leave accrues monthly and is pro-rated for joiners; sick leave of
+  // more than two days needs a medical certificate
+  const allocations = [
+    {
+      leaveTypeId: 1,
+      name: "Casual Leave",
+      totalDays: 12,
+      carryForward: 0,
+      monthly: false,
+      attachmentAboveDays: null,
+    },
+    {
+      leaveTypeId: 2,
+      name: "Sick Leave",
+      totalDays: 10,
+      carryForward: 0,
+      monthly: false,
+      attachmentAboveDays: 2,
+    },
+    {
+      leaveTypeId: 3,
+      name: "Earned Leave",
+      totalDays: 15,
+      carryForward: 5,
+      monthly: true,
+      attachmentAboveDays: null,
+    },
+  ].map((allocation) => {
+    const record = {
+      public_id: nextPublicId(db, "leavealloc"),
+      leave_type_id: allocation.leaveTypeId,
+      name: allocation.name,
+      description: `${allocation.name} for all staff`,
+      total_days: allocation.totalDays.toFixed(2),
+      max_carry_forward_days: allocation.carryForward.toFixed(2),
+      role_ids: staffRoleIds,
+      effective_from: `${year}-01-01`,
+      effective_to: `${year}-12-31`,
+      accrual_frequency: allocation.monthly ? ("monthly" as const) : ("upfront" as const),
+      is_prorated: allocation.monthly,
+      attachment_required_above_days: allocation.attachmentAboveDays,
+      ...createAudit(adminId, SEED_TIMESTAMP),
+    };
+    db.leaveAllocations.push(record);
+    return record;
+  });
+
+  // Accruing balances were last credited a month ago, so this month's
+  // credits are waiting to be posted
+  const lastAccrual = toDateString(subMonths(today, 1));
+  const staff = db.users.filter((user) => user.role === "admin" || user.role === "teacher");
+  staff.forEach((user) => {
+    allocations.forEach((allocation) => {
+      const balance = {
+        public_id: nextPublicId(db, "leavebal"),
+        user_id: user.public_id,
+        allocation_id: allocation.public_id,
+        total_allocated: getOpeningDays(db, allocation, user.public_id, lastAccrual),
+        carried_forward: Number(allocation.max_carry_forward_days) > 0 ? random.int(0, 5) : 0,
+        created_at: SEED_TIMESTAMP,
+        updated_at: SEED_TIMESTAMP,
+      };
+      db.leaveBalances.push(balance);
+      seedLedgerHistory(db, balance, allocation, lastAccrual);
+    });
+  });
+
+  const teacherRoleId = findOrganizationRole(db, ORGANIZATION_ROLE_CODES.TEACHER)?.id;
+  const principalStep: MockApprovalWorkflowStep = {
+    approver_type: "organization_role",
+    organization_role_code: ORGANIZATION_ROLE_CODES.PRINCIPAL,
+  };
+  const workflows: Array<
+    Pick<
+      MockLeaveApprovalWorkflow,
+      "name" | "description" | "role_ids" | "leave_type_ids" | "min_days" | "steps"
+    >
+  > = [
+    {
+      name: "Teaching staff",
+      description: "Teachers' leave goes to their head of department, then the principal",
+      role_ids: teacherRoleId === undefined ? [] : [teacherRoleId],
+      leave_type_ids: [],
+      min_days: 0,
+      steps: [
+        { approver_type: "organization_role", organization_role_code: ORGANIZATION_ROLE_CODES.HOD },
+        principalStep,
+      ],
+    },
+    {
+      name: "Long leave",
+      description: "Leave of five days or more also needs the principal's approval",
+      role_ids: [],
+      leave_type_ids: [],
+      min_days: 5,
+      steps: [{ approver_type: "supervisor", organization_role_code: null }, principalStep],
+    },
+    {
+      name: "Earned leave",
+      description: "Earned leave is approved by the principal",
+      role_ids: [],
+      leave_type_ids: [3],
+      min_days: 0,
+      steps: [principalStep],
+    },
+  ];
+  workflows.forEach((workflow) => {
+    db.leaveApprovalWorkflows.push({
+      public_id: nextPublicId(db, "leaveflow"),
+      ...workflow,
+      is_active: true,
+      ...createAudit(adminId, SEED_TIMESTAMP),
+    });
+  });
+
+  // A little history per teacher: one approved leave in the past, and for
+  // every third teacher a pending request in the coming weeks, some already
+  // through their first approval step
+  const teachers = staff.filter((user) => user.role === "teacher");
+  teachers.forEach((user, index) => {
+    const balances = db.leaveBalances.filter((balance) => balance.user_id === user.public_id);
+
+    const pastStart = subDays(today, random.int(10, 60));
+    const pastDays = random.int(1, 2);
+    const pastBalance = random.pick(balances);
+    const appliedAt = subDays(pastStart, 5).toISOString();
+    const isRejected = index % 5 === 4;
+    const pastRequest: MockLeaveRequest = {
+      public_id: nextPublicId(db, "leavereq"),
+      user_id: user.public_id,
+      balance_id: pastBalance.public_id,
+      start_date: toDateString(pastStart),
+      end_date: toDateString(addDays(pastStart, pastDays - 1)),
+      number_of_days: pastDays,
+      is_half_day: false,
+      reason: random.pick(["Family function", "Medical appointment", "Personal work"]),
+      remarks: "",
+      attachments: [],
+      status: "pending",
+      applied_at: appliedAt,
+      reviewed_by: null,
+      reviewed_at: null,
+      review_comments: "",
+      workflow_id: null,
+      approval_steps: [],
+      ...createAudit(user.public_id, appliedAt),
+    };
+    startApprovalChain(db, pastRequest);
+    // Every step approves, except that the last one may reject
+    const stepCount = pastRequest.approval_steps.length;
+    for (let stepIndex = 0; stepIndex < stepCount; stepIndex++) {
+      const isLast = stepIndex === stepCount - 1;
+      reviewSeededStep(db, pastRequest, isLast && isRejected ? "rejected" : "approved", {
+        at: subDays(pastStart, stepCount - stepIndex + 2).toISOString(),
+        comments: isLast && isRejected ? "Exams are scheduled on these dates" : "Approved",
+      });
+    }
+    db.leaveRequests.push(pastRequest);
+
+    if (index % 3 === 0) {
+      const futureStart = addDays(today, random.int(5, 25));
+      const appliedToday = subDays(today, random.int(0, 3)).toISOString();
+      const pendingRequest: MockLeaveRequest = {
+        public_id: nextPublicId(db, "leavereq"),
+        user_id: user.public_id,
+        balance_id: balances[0].public_id,
+        start_date: toDateString(futureStart),
+        end_date: toDateString(futureStart),
+        number_of_days: 1,
+        is_half_day: false,
+        reason: "Personal work",
+        remarks: "",
+        attachments: [],
+        status: "pending",
+        applied_at: appliedToday,
+        reviewed_by: null,
+        reviewed_at: null,
+        review_comments: "",
+        workflow_id: null,
+        approval_steps: [],
+        ...createAudit(user.public_id, appliedToday),
+      };
+      startApprovalChain(db, pendingRequest);
+      if (index % 2 === 1 && pendingRequest.approval_steps.length > 1) {
+        reviewSeededStep(db, pendingRequest, "approved", { at: appliedToday, comments: "" });
+      }
+      db.leaveRequests.push(pendingRequest);
+    }
+  });
+}
+
+/**
+ * Leave for the demo parent's children: a student allocation with a balance
+ * each, one approved absence in the past per child and, for the first child,
+ * a request still waiting on the class teacher
+ */
+function seedStudentLeave(db: MockDb, today: Date): void {
+  const adminId = db.organization.admin_id;
+  const parent = db.users.find((user) => user.role === "parent");
+  const children = db.students.filter((student) => student.guardian_email === parent?.email);
+  const studentRoleId = findOrganizationRole(db, ORGANIZATION_ROLE_CODES.STUDENT)?.id;
+  if (children.length === 0 || studentRoleId === undefined) {
+    return;
+  }
+
+  const year = today.getFullYear();
+  const allocation: MockLeaveAllocation = {
+    public_id: nextPublicId(db, "leavealloc"),
+    leave_type_id: 1,
+    name: "Student Leave",
+    description: "Casual leave for students",
+    total_days: "10.00",
+    max_carry_forward_days: "0.00",
+    role_ids: [studentRoleId],
+    effective_from: `${year}-01-01`,
+    effective_to: `${year}-12-31`,
+    accrual_frequency: "upfront",
+    is_prorated: false,
+    attachment_required_above_days: null,
+    ...createAudit(adminId, SEED_TIMESTAMP),
+  };
+  db.leaveAllocations.push(allocation);
+
+  children.forEach((student, index) => {
+    const balance: MockLeaveBalance = {
+      public_id: nextPublicId(db, "leavebal"),
+      user_id: student.user_id,
+      allocation_id: allocation.public_id,
+      total_allocated: Number(allocation.total_days),
+      carried_forward: 0,
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    };
+    db.leaveBalances.push(balance);
+    seedLedgerHistory(db, balance, allocation, toDateString(today));
+
+    const requests = [
+      { start: subDays(today, 12 + index * 9), days: 2, reason: "Fever", approve: true },
+      ...(index === 0
+        ? [{ start: addDays(today, 6), days: 1, reason: "Family wedding", approve: false }]
+        : []),
+    ];
+    requests.forEach((item) => {
+      const appliedAt = subDays(item.start, 2).toISOString();
+      const request: MockLeaveRequest = {
+        public_id: nextPublicId(db, "leavereq"),
+        user_id: student.user_id,
+        balance_id: balance.public_id,
+        start_date: toDateString(item.start),
+        end_date: toDateString(addDays(item.start, item.days - 1)),
+        number_of_days: item.days,
+        is_half_day: false,
+        reason: item.reason,
+        remarks: "",
+        attachments: [],
+        status: "pending",
+        applied_at: appliedAt,
+        reviewed_by: null,
+        reviewed_at: null,
+        review_comments: "",
+        workflow_id: null,
+        approval_steps: [],
+        ...createAudit(student.user_id, appliedAt),
+      };
+      startApprovalChain(db, request);
+      if (item.approve) {
+        reviewSeededStep(db, request, "approved", { at: appliedAt, comments: "Get well soon" });
+      }
+      db.leaveRequests.push(request);
+    });
+  });
+}
+
+/**
+ * Opening entries for a seeded balance: the carry-forward from last year,
+ * then either the full allocation or one credit per accrual period up to
+ * `lastAccrual`
+ */
+function seedLedgerHistory(
+  db: MockDb,
+  balance: MockLeaveBalance,
+  allocation: MockLeaveAllocation,
+  lastAccrual: string
+): void {
+  const openedAt = `${allocation.effective_from}T00:00:00.000Z`;
+  const year = parseISO(allocation.effective_from).getFullYear();
+  recordLedgerEntry(db, balance.public_id, {
+    entry_type: "carry_forward",
+    days: balance.carried_forward,
+    created_by: null,
+    note: `Carried forward from ${year - 1}`,
+    at: openedAt,
+  });
+
+  if (!isAccruing(allocation)) {
+    recordLedgerEntry(db, balance.public_id, {
+      entry_type: "allocation",
+      days: balance.total_allocated,
+      created_by: null,
+      note: `Opening balance from ${allocation.name}`,
+      at: openedAt,
+    });
+    return;
+  }
+
+  // Credits only change at the start of a month, so replaying each month
+  // start adds up to the accrual as of lastAccrual
+  let credited = 0;
+  for (
+    let month = parseISO(allocation.effective_from);
+    toDateString(month) <= lastAccrual;
+    month = addMonths(month, 1)
+  ) {
+    const { accrued } = calculateAccrual(db, allocation, balance.user_id, toDateString(month));
+    recordLedgerEntry(db, balance.public_id, {
+      entry_type: "accrual",
+      days: accrued - credited,
+      created_by: null,
+      note: `Accrued as of ${format(month, "d MMM yyyy")}`,
+      at: `${toDateString(month)}T00:00:00.000Z`,
+    });
+    credited = accrued;
+  }
+}
+
+/**
+ * Act on the request's current step as its first eligible approver, moving
+ * the chain on like a review does
+ */
+function reviewSeededStep(
+  db: MockDb,
+  request: MockLeaveRequest,
+  status: "approved" | "rejected",
+  review: { at: string; comments: string }
+): void {
+  const step = getCurrentStep(request);
+  if (!step) {
+    return;
+  }
+  step.status = status;
+  step.acted_by = getStepApprovers(db, request, step)[0]?.public_id ?? null;
+  step.acted_at = review.at;
+  step.comments = review.comments;
+
+  const nextStep = request.approval_steps.find((item) => item.status === "waiting");
+  if (status === "approved" && nextStep) {
+    nextStep.status = "pending";
+    return;
+  }
+  request.approval_steps
+    .filter((item) => item.status === "waiting")
+    .forEach((item) => {
+      item.status = "skipped";
+    });
+  request.status = status;
+  request.reviewed_by = step.acted_by;
+  request.reviewed_at = review.at;
+  request.review_comments = review.comments;
+  if (status === "approved") {
+    recordLedgerEntry(db, request.balance_id, {
+      entry_type: "approval",
+      days: -request.number_of_days,
+      created_by: step.acted_by,
+      request_id: request.public_id,
+      note: "Leave approved",
+      at: review.at,
+    });
+  }
+}
+
+/**
+ * Attendance outcome for a working day the staff member was not on leave
+ */
+function pickAttendanceStatus(random: Random): MockAttendanceStatus {
+  const roll = random.next();
+  if (roll < 0.9) {
+    return "PRESENT";
+  }
+  return roll < 0.95 ? "HALF_DAY" : "ABSENT";
+}
+
+function seedAttendance(db: MockDb, random: Random, today: Date): void {
+  const geofence = db.geofences[0];
+  const staff = db.users.filter((user) => user.role === "admin" || user.role === "teacher");
+
+  for (let offset = ATTENDANCE_HISTORY_DAYS; offset >= 1; offset--) {
+    const day = subDays(today, offset);
+    if (!isWorkingDay(db, day)) {
+      continue;
+    }
+    const date = toDateString(day);
+
+    staff.forEach((user) => {
+      const onLeave = db.leaveRequests.some(
+        (request) =>
+          request.user_id === user.public_id &&
+          request.status === "approved" &&
+          request.start_date <= date &&
+          request.end_date >= date
+      );
+      const status: MockAttendanceStatus = onLeave ? "ON_LEAVE" : pickAttendanceStatus(random);
+      const attended = status === "PRESENT" || status === "HALF_DAY";
+      const withinGeofence = attended ? random.chance(0.92) : null;
+      const latitude =
+        geofence && attended ? geofence.latitude + (withinGeofence ? 0.0005 : 0.01) : null;
+      const longitude = geofence && attended ? geofence.longitude : null;
+      const stamp = atTime(day, 18, 0);
+
+      db.staffAttendance.push({
+        public_id: nextPublicId(db, "attend"),
+        user_id: user.public_id,
+        date,
+        check_in_time: attended ? atTime(day, 8, random.int(15, 59)) : null,
+        check_out_time: attended
+          ? atTime(day, status === "HALF_DAY" ? 12 : random.int(15, 16), random.int(0, 59))
+          : null,
+        status,
+        check_in_latitude: latitude,
+        check_in_longitude: longitude,
+        check_out_latitude: latitude,
+        check_out_longitude: longitude,
+        check_in_within_geofence: withinGeofence,
+        check_out_within_geofence: withinGeofence,
+        check_in_distance_meters: withinGeofence === false ? random.int(300, 1200) : null,
+        remarks: null,
+        corrected_by: null,
+        corrected_at: null,
+        is_regularized: false,
+        created_at: stamp,
+        updated_at: stamp,
+      });
+    });
+  }
+
+  // Pending regularizations for the demo teacher so the review queue has work
+  const demoTeacher = db.users.find((user) => user.username === MOCK_CREDENTIALS.teacher);
+  const regularized = db.staffAttendance
+    .filter((record) => record.user_id === demoTeacher?.public_id)
+    .slice(-10, -8);
+  regularized.forEach((record) => {
+    const appliedAt = subDays(today, 1).toISOString();
+    db.regularizations.push({
+      public_id: nextPublicId(db, "regular"),
+      user_id: record.user_id,
+      attendance_record_id: record.public_id,
+      date: record.date,
+      regularization_type: "WRONG_PUNCH_TIME",
+      original_check_in_time: record.check_in_time,
+      original_check_out_time: record.check_out_time,
+      original_status: record.status,
+      requested_check_in_time: atTime(new Date(`${record.date}T00:00:00`), 8, 30),
+      requested_check_out_time: atTime(new Date(`${record.date}T00:00:00`), 16, 0),
+      requested_status: "PRESENT",
+      reason: "Biometric device was not working",
+      status: "pending",
+      applied_at: appliedAt,
+      reviewed_by: null,
+      reviewed_at: null,
+      review_comments: null,
+      created_at: appliedAt,
+      updated_at: appliedAt,
+    });
+  });
+
+  // Class roll calls for the last six weeks or so of school days
+  const studentStatuses: MockStudentAttendanceStatus[] = ["PRESENT", "ABSENT", "LATE", "ON_LEAVE"];
+  let markedDays = 0;
+  for (let offset = 1; markedDays < STUDENT_ATTENDANCE_HISTORY_DAYS && offset <= 60; offset++) {
+    const day = subDays(today, offset);
+    if (!isWorkingDay(db, day)) {
+      continue;
+    }
+    markedDays += 1;
+
+    db.classes.forEach((masterClass) => {
+      const classTeacher = db.teachers.find(
+        (teacher) => teacher.public_id === masterClass.class_teacher_id
+      );
+      db.students
+        .filter((student) => student.class_id === masterClass.public_id)
+        .forEach((student) => {
+          const status = random.chance(0.9) ? "PRESENT" : random.pick(studentStatuses.slice(1));
+          db.studentAttendance.push({
+            public_id: nextPublicId(db, "stuattend"),
+            student_id: student.public_id,
+            class_id: masterClass.public_id,
+            date: toDateString(day),
+            status,
+            remarks: status === "ON_LEAVE" ? "Informed by guardian" : "",
+            marked_by: classTeacher?.user_id ?? null,
+            marked_at: atTime(day, 9, 15),
+          });
+        });
+    });
+  }
+}
+
+/**
+ * Fill each section's week by rotating through its subjects, skipping any
+ * subject whose teacher is already busy in that slot so the seed is clash-free
+ */
+function seedTimetable(db: MockDb): void {
+  BELL_SCHEDULE.forEach(([name, startTime, endTime, isBreak], index) => {
+    db.timetablePeriods.push({
+      public_id: nextPublicId(db, "period"),
+      name,
+      start_time: startTime,
+      end_time: endTime,
+      order: index + 1,
+      is_break: isBreak,
+    });
+  });
+  const teachingPeriods = db.timetablePeriods.filter((period) => !period.is_break);
+
+  for (let day = 1; day <= TIMETABLE_DAY_COUNT; day++) {
+    teachingPeriods.forEach((period, periodIndex) => {
+      const busyTeachers = new Set<string>();
+
+      db.classes.forEach((masterClass, classIndex) => {
+        if ((day + periodIndex + classIndex) % SELF_STUDY_PERIOD_INTERVAL === 0) {
+          return;
+        }
+        const subjects = db.subjects.filter(
+          (subject) => subject.class_id === masterClass.public_id
+        );
+        for (let attempt = 0; attempt < subjects.length; attempt++) {
+          const subject = subjects[(day + periodIndex + classIndex + attempt) % subjects.length];
+          const periodsToday = db.timetableEntries.filter(
+            (entry) =>
+              entry.class_id === masterClass.public_id &&
+              entry.day_of_week === day &&
+              entry.subject_id === subject.public_id
+          ).length;
+          if (
+            busyTeachers.has(subject.teacher_id) ||
+            periodsToday >= MAX_SEEDED_SUBJECT_PERIODS_PER_DAY
+          ) {
+            continue;
+          }
+
+          busyTeachers.add(subject.teacher_id);
+          db.timetableEntries.push({
+            public_id: nextPublicId(db, "ttentry"),
+            class_id: masterClass.public_id,
+            day_of_week: day,
+            period_id: period.public_id,
+            subject_id: subject.public_id,
+            room: `Room ${101 + classIndex}`,
+          });
+          break;
+        }
+      });
+    });
+  }
+}
+
+/**
+ * A published unit test with every mark in, and a half-yearly exam whose marks
+ * entry is still under way. Marks follow a per-student ability so each child's
+ * results look consistent across subjects and exams.
+ */
+function seedExams(db: MockDb, random: Random, today: Date): void {
+  const adminId = db.organization.admin_id;
+  const gradeScale = {
+    public_id: nextPublicId(db, "gscale"),
+    name: "CBSE 9-Point Scale",
+    is_default: true,
+    bands: GRADE_BANDS.map(([minPercentage, grade, gradePoint, description]) => ({
+      min_percentage: minPercentage,
+      grade,
+      grade_point: gradePoint,
+      description,
+    })),
+    ...createAudit(adminId, SEED_TIMESTAMP),
+  };
+  db.gradeScales.push(gradeScale);
+
+  const ability = new Map(db.students.map((student) => [student.public_id, random.int(45, 95)]));
+  const classIds = db.classes.map((masterClass) => masterClass.public_id);
+  const exams = [
+    { name: "Unit Test 1", startsDaysAgo: 60, maxMarks: 25, published: true },
+    { name: "Half-Yearly Examination", startsDaysAgo: 10, maxMarks: 100, published: false },
+  ];
+
+  exams.forEach(({ name, startsDaysAgo, maxMarks, published }) => {
+    const startDate = subDays(today, startsDaysAgo);
+    const exam = {
+      public_id: nextPublicId(db, "exam"),
+      name,
+      start_date: toDateString(startDate),
+      end_date: toDateString(addDays(startDate, 5)),
+      status: published ? ExamStatus.PUBLISHED : ExamStatus.DRAFT,
+      grade_scale_id: gradeScale.public_id,
+      class_ids: classIds,
+      published_at: published ? atTime(addDays(startDate, 14), 16, 0) : null,
+      ...createAudit(adminId, atTime(subDays(startDate, 14), 10, 0)),
+    };
+    db.exams.push(exam);
+
+    db.subjects.forEach((subject, subjectIndex) => {
+      const paper = {
+        public_id: nextPublicId(db, "paper"),
+        exam_id: exam.public_id,
+        subject_id: subject.public_id,
+        max_marks: maxMarks,
+        pass_marks: Math.ceil((maxMarks * DEFAULT_PASS_PERCENTAGE) / 100),
+        exam_date: toDateString(addDays(startDate, subjectIndex % SECTION_SUBJECT_IDS.length)),
+      };
+      db.examPapers.push(paper);
+
+      // Half of the half-yearly papers are still waiting for marks
+      if (!published && subjectIndex % 2 === 1) {
+        return;
+      }
+      db.students
+        .filter((student) => student.class_id === subject.class_id)
+        .forEach((student) => {
+          const isAbsent = random.chance(0.03);
+          const percentage = Math.min(
+            100,
+            Math.max(0, (ability.get(student.public_id) ?? 60) + random.int(-15, 10))
+          );
+          db.examMarks.push({
+            paper_id: paper.public_id,
+            student_id: student.public_id,
+            marks_obtained: isAbsent ? null : Math.round((percentage * maxMarks) / 100),
+            is_absent: isAbsent,
+            remarks: "",
+          });
+        });
+    });
+
+    if (published) {
+      db.students
+        .filter((student) => classIds.includes(student.class_id))
+        .forEach((student) => {
+          const studentAbility = ability.get(student.public_id) ?? 60;
+          const classTeacherId = db.classes.find(
+            (item) => item.public_id === student.class_id
+          )?.class_teacher_id;
+          db.reportCardRemarks.push({
+            exam_id: exam.public_id,
+            student_id: student.public_id,
+            remarks: REPORT_CARD_REMARKS.find(([min]) => studentAbility >= min)?.[1] ?? "",
+            updated_by:
+              db.teachers.find((teacher) => teacher.public_id === classTeacherId)?.user_id ?? null,
+            updated_at: atTime(addDays(startDate, 12), 15, 0),
+          });
+        });
+    }
+  });
+}
+
+/**
+ * Three homework assignments per subject: one graded, one just past due with
+ * a few students still to hand in, and one due later this week
+ */
+function seedAssignments(db: MockDb, random: Random, today: Date): void {
+  db.subjects.forEach((subject) => {
+    const teacherUserId =
+      db.teachers.find((teacher) => teacher.public_id === subject.teacher_id)?.user_id ?? null;
+    const students = db.students.filter((student) => student.class_id === subject.class_id);
+
+    (HOMEWORK[subject.subject_id] ?? []).forEach(([title, instructions], index) => {
+      const dueDate = addDays(today, HOMEWORK_DUE_OFFSETS[index]);
+      const assignment = {
+        public_id: nextPublicId(db, "assign"),
+        subject_id: subject.public_id,
+        title,
+        instructions,
+        due_date: toDateString(dueDate),
+        max_marks: HOMEWORK_MAX_MARKS[index],
+        attachments: instructions.includes("attached")
+          ? [
+              {
+                public_id: nextPublicId(db, "attach"),
+                file_name: `${title.toLowerCase().replace(/\s+/g, "-")}.txt`,
+                file_size: instructions.length,
+                content_type: "text/plain",
+                url: `data:text/plain;charset=utf-8,${encodeURIComponent(instructions)}`,
+              },
+            ]
+          : [],
+        ...createAudit(teacherUserId, atTime(subDays(dueDate, 7), 14, 0)),
+      };
+      db.assignments.push(assignment);
+
+      const isGraded = dueDate < subDays(today, 7);
+      students.forEach((student) => {
+        if (!random.chance(HOMEWORK_SUBMISSION_RATES[index])) {
+          return;
+        }
+        const isLate = dueDate < today && random.chance(0.15);
+        const submittedOn = isLate ? addDays(dueDate, 1) : subDays(dueDate, random.int(0, 2));
+        const marks =
+          isGraded && assignment.max_marks !== null
+            ? random.int(Math.ceil(assignment.max_marks / 2), assignment.max_marks)
+            : null;
+        db.assignmentSubmissions.push({
+          assignment_id: assignment.public_id,
+          student_id: student.public_id,
+          submitted_at: atTime(submittedOn < today ? submittedOn : subDays(today, 1), 19, 30),
+          content: "",
+          attachments: [],
+          marks_obtained: marks,
+          feedback: isGraded ? random.pick(HOMEWORK_FEEDBACK) : "",
+          graded_by: isGraded ? teacherUserId : null,
+          graded_at: isGraded ? atTime(addDays(dueDate, 3), 16, 0) : null,
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Conversations of the demo parent: one with the class teacher (the demo
+ * teacher) awaiting their reply, and one with a subject teacher the parent
+ * has not read yet
+ */
+function seedMessages(db: MockDb, today: Date): void {
+  const parent = db.users.find((user) => user.role === "parent");
+  const children = db.students.filter((student) => student.guardian_email === parent?.email);
+  if (!parent || children.length === 0) {
+    return;
+  }
+
+  SEEDED_CONVERSATIONS.forEach(([subject, lines], index) => {
+    const student = children[index % children.length];
+    const masterClass = db.classes.find((item) => item.public_id === student.class_id);
+    const teacherId =
+      index === 0
+        ? masterClass?.class_teacher_id
+        : db.subjects.find(
+            (item) =>
+              item.class_id === student.class_id && item.subject_id === SECTION_SUBJECT_IDS[1]
+          )?.teacher_id;
+    const teacherUserId = db.teachers.find((item) => item.public_id === teacherId)?.user_id;
+    if (!teacherId || !teacherUserId) {
+      return;
+    }
+
+    const thread = {
+      public_id: nextPublicId(db, "thread"),
+      student_id: student.public_id,
+      parent_id: parent.public_id,
+      teacher_id: teacherId,
+      subject,
+      created_at: atTime(subDays(today, lines.length), 17, 30),
+    };
+    db.messageThreads.push(thread);
+
+    lines.forEach(([fromParent, body], lineIndex) => {
+      const isLast = lineIndex === lines.length - 1;
+      const sentAt = atTime(subDays(today, lines.length - lineIndex), 17, 30 + lineIndex);
+      db.messages.push({
+        public_id: nextPublicId(db, "message"),
+        thread_id: thread.public_id,
+        sender_id: fromParent ? parent.public_id : teacherUserId,
+        body,
+        attachments: [],
+        sent_at: sentAt,
+        delivered_at: sentAt,
+        read_at: isLast ? null : sentAt,
+      });
+    });
+  });
+}
+
+/**
+ * Announcements from the admin, with receipts from a share of the staff and
+ * parents addressed by role. The demo accounts are left unread so their
+ * dashboards have announcements to open.
+ */
+function seedAnnouncements(db: MockDb, random: Random, today: Date): void {
+  const adminId = db.organization.admin_id;
+  const demoUsernames: string[] = [MOCK_CREDENTIALS.teacher, MOCK_CREDENTIALS.parent];
+
+  SEEDED_ANNOUNCEMENTS.forEach(
+    ([title, body, audience, requiresAcknowledgement, publishOffset, expiresOffset]) => {
+      const publishAt = atTime(addDays(today, publishOffset), 8, 0);
+      const announcement = {
+        public_id: nextPublicId(db, "announce"),
+        title,
+        body,
+        audience: {
+          roles: audience.roles ?? [],
+          organization_role_codes: audience.organization_role_codes ?? [],
+          class_master_ids: audience.class_master_ids ?? [],
+          class_ids: [],
+        },
+        requires_acknowledgement: requiresAcknowledgement,
+        publish_at: publishAt,
+        expires_at: expiresOffset === null ? null : atTime(addDays(today, expiresOffset), 18, 0),
+        ...createAudit(adminId, atTime(addDays(today, Math.min(publishOffset, 0) - 1), 16, 0)),
+      };
+      db.announcements.push(announcement);
+      if (publishOffset > 0) {
+        return;
+      }
+
+      db.users
+        .filter(
+          (user) =>
+            announcement.audience.roles.includes(user.role) &&
+            !demoUsernames.includes(user.username) &&
+            random.chance(ANNOUNCEMENT_READ_RATE)
+        )
+        .forEach((user) => {
+          const readAt = atTime(
+            addDays(today, publishOffset),
+            random.int(9, 20),
+            random.int(0, 59)
+          );
+          db.announcementReceipts.push({
+            announcement_id: announcement.public_id,
+            user_id: user.public_id,
+            read_at: readAt,
+            acknowledged_at:
+              requiresAcknowledgement && random.chance(ANNOUNCEMENT_ACKNOWLEDGE_RATE)
+                ? readAt
+                : null,
+          });
+        });
+    }
+  );
+}
+
+/**
+ * Notifications for the seeded history: leave decisions for the requesters,
+ * pending requests for the admin to review and the published announcements
+ * addressed by role. Anything the user has already dealt with is read.
+ */
+function seedNotifications(db: MockDb, today: Date): void {
+  const describeLeave = (request: MockLeaveRequest) => {
+    const balance = db.leaveBalances.find((item) => item.public_id === request.balance_id);
+    const allocation = db.leaveAllocations.find(
+      (item) => item.public_id === balance?.allocation_id
+    );
+    const start = format(parseISO(request.start_date), "d MMM");
+    const end = format(parseISO(request.end_date), "d MMM");
+    return start === end
+      ? `${allocation?.name} on ${start}`
+      : `${allocation?.name} from ${start} to ${end}`;
+  };
+
+  db.leaveRequests.forEach((request) => {
+    const currentStep = getCurrentStep(request);
+    if (currentStep) {
+      notify(
+        db,
+        getStepApprovers(db, request, currentStep).map((user) => user.public_id),
+        {
+          type: NotificationType.LEAVE_REVIEW_REQUESTED,
+          title: "New leave request to review",
+          body: `${fullName(findUser(db, request.user_id))} applied for ${describeLeave(request)}.`,
+          link: "/leave-request-reviews",
+        },
+        request.applied_at
+      );
+      return;
+    }
+
+    const isApproved = request.status === "approved";
+    const [notification] = notify(
+      db,
+      [request.user_id],
+      {
+        type: isApproved ? NotificationType.LEAVE_APPROVED : NotificationType.LEAVE_REJECTED,
+        title: isApproved ? "Leave approved" : "Leave rejected",
+        body: `Your ${describeLeave(request)} was ${request.status} by ${fullName(findUser(db, request.reviewed_by))}.`,
+        link: `/leave-requests/${request.public_id}`,
+      },
+      request.reviewed_at ?? request.applied_at
+    );
+    notification.read_at = notification.created_at;
+  });
+
+  const now = today.toISOString();
+  db.announcements
+    .filter((announcement) => announcement.publish_at <= now)
+    .forEach((announcement) => {
+      const recipients = db.users.filter(
+        (user) =>
+          user.is_active &&
+          user.public_id !== announcement.created_by &&
+          announcement.audience.roles.includes(user.role)
+      );
+      notify(
+        db,
+        recipients.map((user) => user.public_id),
+        {
+          type: NotificationType.ANNOUNCEMENT,
+          title: announcement.title,
+          body: announcement.body,
+          link: "/dashboard",
+        },
+        announcement.publish_at
+      ).forEach((notification) => {
+        notification.read_at =
+          db.announcementReceipts.find(
+            (receipt) =>
+              receipt.announcement_id === announcement.public_id &&
+              receipt.user_id === notification.user_id
+          )?.read_at ?? null;
+      });
+    });
+}
+
+function seedPreferences(db: MockDb): void {
+  const preference = (
+    category: string,
+    key: string,
+    displayName: string,
+    fieldType: "string" | "number" | "radio" | "choice" | "multi-choice",
+    defaultValue: string,
+    applicableValues: string[] | null,
+    description: string
+  ) => ({
+    public_id: nextPublicId(db, "pref"),
+    display_name: displayName,
+    key,
+    category,
+    field_type: fieldType,
+    default_value: defaultValue,
+    applicable_values: applicableValues,
+    description,
+    value: defaultValue,
+  });
+
+  db.preferences = [
+    preference(
+      "attendance",
+      "student_attendance_marked_by",
+      "Student Attendance Marked By",
+      "radio",
+      "CLASS_TEACHER_ONLY",
+      ["CLASS_TEACHER_ONLY", "ANY_TEACHER"],
+      "Who is allowed to mark the daily class roll call"
+    ),
+    preference(
+      "attendance",
+      "enforce_check_in_geofence",
+      "Enforce Campus Geofence",
+      "choice",
+      "false",
+      ["true", "false"],
+      "Reject staff check-ins made outside every campus geofence"
+    ),
+    preference(
+      "leave",
+      "leave_year_start_month",
+      "Leave Year Start Month",
+      "choice",
+      "1",
+      ["1", "4", "6"],
+      "Month in which leave balances are reset"
+    ),
+    preference(
+      "leave",
+      "leave_max_concurrent_absences",
+      "Maximum Staff Off Together",
+      "number",
+      "2",
+      null,
+      "Warn reviewers when more staff than this in one role or department are on leave the same day"
+    ),
+    preference(
+      "security",
+      "session_idle_timeout_minutes",
+      "Idle Session Timeout (minutes)",
+      "number",
+      "30",
+      null,
+      "Sign users out after this many minutes without activity"
+    ),
+    preference(
+      "messaging",
+      "message_quiet_hours_enabled",
+      "Enforce Messaging Quiet Hours",
+      "choice",
+      "true",
+      ["true", "false"],
+      "Hold parent and teacher messages sent during quiet hours until they end"
+    ),
+    preference(
+      "messaging",
+      "message_quiet_hours_start",
+      "Quiet Hours Start Time",
+      "string",
+      "20:00",
+      null,
+      "Messages sent from this time (HH:MM) are held until quiet hours end"
+    ),
+    preference(
+      "messaging",
+      "message_quiet_hours_end",
+      "Quiet Hours End Time",
+      "string",
+      "07:00",
+      null,
+      "Held messages are delivered at this time (HH:MM)"
+    ),
+    preference(
+      "general",
+      "working_days",
+      "Working Days",
+      "multi-choice",
+      "MON,TUE,WED,THU,FRI,SAT",
+      ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"],
+      "Days of the week the school is open"
+    ),
+  ];
+  const workingDays = db.preferences[db.preferences.length - 1];
+  workingDays.value = workingDays.default_value.split(",");
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Build a fresh database from the deterministic seed
+ */
+export function createMockDb(today: Date = new Date()): MockDb {
+  const random = createRandom(SEED);
+  const db: MockDb = {
+    organization: {
+      public_id: "",
+      name: "",
+      organization_type: "",
+      email: "",
+      phone: "",
+      website_url: "",
+      board_affiliation: "",
+      legal_entity: "",
+      is_active: true,
+      is_verified: true,
+      is_approved: true,
+      admin_id: "",
+    },
+    users: [],
+    organizationRoles: [],
+    coreClasses: [],
+    coreSubjects: [],
+    leaveTypes: [],
+    classes: [],
+    teachers: [],
+    students: [],
+    subjects: [],
+    leaveAllocations: [],
+    leaveBalances: [],
+    leaveRequests: [],
+    leaveApprovalWorkflows: [],
+    leaveLedgerEntries: [],
+    leaveAccrualRuns: [],
+    leaveRollovers: [],
+    holidays: [],
+    workingDayPolicies: [],
+    calendarExceptions: [],
+    geofences: [],
+    staffAttendance: [],
+    regularizations: [],
+    studentAttendance: [],
+    timetablePeriods: [],
+    timetableEntries: [],
+    substitutions: [],
+    gradeScales: [],
+    exams: [],
+    examPapers: [],
+    examMarks: [],
+    reportCardTemplate: {
+      title: "Progress Report",
+      logo_url: "",
+      address_line: "12 Lake View Road, Bengaluru 560034",
+      accent_color: "#4f46e5",
+      show_grade_point: true,
+      show_subject_remarks: true,
+      show_attendance: true,
+      show_grade_scale: true,
+      signatory_title: "Principal",
+      footer_note: "This is a computer-generated report card.",
+      updated_at: null,
+      updated_by: null,
+    },
+    reportCardRemarks: [],
+    assignments: [],
+    assignmentSubmissions: [],
+    messageThreads: [],
+    messages: [],
+    announcements: [],
+    announcementReceipts: [],
+    notifications: [],
+    preferences: [],
+    revokedTokens: new Set(),
+    streamTickets: new Map(),
+    sequence: 0,
+  };
+
+  seedReferenceData(db);
+  seedPeople(db, random);
+  seedClasses(db, random);
+  seedCalendar(db, today);
+  seedLeave(db, random, today);
+  seedStudentLeave(db, today);
+  seedAttendance(db, random, today);
+  seedTimetable(db);
+  seedPreferences(db);
+  seedExams(db, random, today);
+  seedAssignments(db, random, today);
+  seedMessages(db, today);
+  seedAnnouncements(db, random, today);
+  seedNotifications(db, today);
+
+  return db;
+}
@@ -0,0 +1,354 @@
+/**
+ * Mock Serializers
+ * Shape normalized mock records into the response types the client declares
+ * in lib/api, so the compiler flags any drift between the two.
+ */
+
+import type { MasterClass } from "@/lib/api/class-api";
+import type { UserProfile } from "@/lib/api/profile-api";
+import type { Student, StudentDetail } from "@/lib/api/student-api";
+import type { Subject } from "@/lib/api/subject-api";
+import type { Teacher } from "@/lib/api/teacher-api";
+import { findUser, fullName, serializeAudit } from "./db";
+import type {
+  MockAddress,
+  MockClass,
+  MockDb,
+  MockStudent,
+  MockSubject,
+  MockTeacher,
+  MockUser,
+} from "./db";
+
+// ============================================================================
+// Users
+// ============================================================================
+
+export function formatAddress(address: MockAddress): string {
+  return [
+    address.street_address,
+    address.address_line_2,
+    address.city,
+    address.state,
+    address.zip_code,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function serializeAddress(address: MockAddress) {
+  return { ...address, full_address: formatAddress(address) };
+}
+
+export function getOrganizationRoleName(db: MockDb, user: MockUser): string {
+  return (
+    db.organizationRoles.find((role) => role.code === user.organization_role_code)?.name ??
+    user.organization_role_code
+  );
+}
+
+/**
+ * Compact user used by leave and attendance payloads
+ */
+export function serializeUserSummary(user: MockUser) {
+  return {
+    public_id: user.public_id,
+    full_name: fullName(user),
+    name: fullName(user),
+    email: user.email,
+    role: user.role,
+  };
+}
+
+export function serializeUserProfile(db: MockDb, user: MockUser): UserProfile {
+  return {
+    public_id: user.public_id,
+    username: user.username,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    full_name: fullName(user),
+    phone: user.phone,
+    role: user.role,
+    gender: user.gender,
+    blood_group: user.blood_group,
+    date_of_birth: user.date_of_birth,
+    organization_role: getOrganizationRoleName(db, user),
+    is_active: user.is_active,
+    is_email_verified: true,
+    notification_opt_in: user.notification_opt_in,
+    address: user.address ? serializeAddress(user.address) : undefined,
+  };
+}
+
+function serializeSupervisor(db: MockDb, user: MockUser) {
+  const supervisor = findUser(db, user.supervisor_id);
+  return supervisor ? { email: supervisor.email, full_name: fullName(supervisor) } : null;
+}
+
+// ============================================================================
+// Teachers
+// ============================================================================
+
+export function findTeacherUser(db: MockDb, teacher: MockTeacher): MockUser {
+  const user = findUser(db, teacher.user_id);
+  if (!user) {
+    throw new Error(`Mock teacher ${teacher.public_id} has no user`);
+  }
+  return user;
+}
+
+export function serializeTeacher(db: MockDb, teacher: MockTeacher): Teacher {
+  const user = findTeacherUser(db, teacher);
+  return {
+    public_id: teacher.public_id,
+    user: {
+      public_id: user.public_id,
+      username: user.username,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      full_name: fullName(user),
+      email: user.email,
+      phone: user.phone,
+      role: user.role,
+      gender: user.gender,
+      blood_group: user.blood_group,
+      date_of_birth: user.date_of_birth,
+      organization_role: user.organization_role_code,
+      supervisor: serializeSupervisor(db, user) ?? undefined,
+      address: user.address ? serializeAddress(user.address) : undefined,
+    },
+    employee_id: teacher.employee_id,
+    full_name: fullName(user),
+    email: user.email,
+    phone: user.phone,
+    highest_qualification: teacher.highest_qualification,
+    joining_date: teacher.joining_date,
+    specialization: teacher.specialization,
+    designation: teacher.designation,
+    experience_years: teacher.experience_years,
+    subjects: db.coreSubjects
+      .filter((subject) => teacher.subject_ids.includes(subject.id))
+      .map((subject) => ({ public_id: subject.public_id, name: subject.name, code: subject.code })),
+    emergency_contact_name: teacher.emergency_contact_name,
+    emergency_contact_number: teacher.emergency_contact_number,
+    is_first_login: false,
+    created_at: teacher.created_at,
+    updated_at: teacher.updated_at,
+  };
+}
+
+// ============================================================================
+// Classes
+// ============================================================================
+
+export function getClassLabel(db: MockDb, masterClass: MockClass): string {
+  const coreClass = db.coreClasses.find((item) => item.id === masterClass.class_master_id);
+  return `${coreClass?.name ?? ""} - ${masterClass.name}`;
+}
+
+export function countStudents(db: MockDb, classId: string): number {
+  return db.students.filter((student) => student.class_id === classId && !student.is_deleted)
+    .length;
+}
+
+export function serializeClass(db: MockDb, masterClass: MockClass): MasterClass {
+  const coreClass = db.coreClasses.find((item) => item.id === masterClass.class_master_id);
+  const teacher = db.teachers.find((item) => item.public_id === masterClass.class_teacher_id);
+  const teacherUser = teacher ? findTeacherUser(db, teacher) : undefined;
+  const admin = findUser(db, db.organization.admin_id);
+
+  return {
+    public_id: masterClass.public_id,
+    class_master: {
+      id: coreClass?.id ?? masterClass.class_master_id,
+      name: coreClass?.name ?? "",
+      code: coreClass?.code ?? "",
+      display_order: coreClass?.display_order ?? 0,
+    },
+    name: masterClass.name,
+    organization: {
+      public_id: db.organization.public_id,
+      name: db.organization.name,
+      email: db.organization.email,
+      phone: db.organization.phone,
+      admin_name: fullName(admin),
+      admin_public_id: admin?.public_id ?? "",
+    },
+    class_teacher:
+      teacher && teacherUser
+        ? {
+            public_id: teacher.public_id,
+            email: teacherUser.email,
+            full_name: fullName(teacherUser),
+            first_name: teacherUser.first_name,
+            last_name: teacherUser.last_name,
+            employee_id: teacher.employee_id,
+            specialization: teacher.specialization,
+            designation: teacher.designation,
+          }
+        : null,
+    info: masterClass.info,
+    capacity: masterClass.capacity,
+    student_count: countStudents(db, masterClass.public_id),
+    ...serializeAudit(db, masterClass),
+  };
+}
+
+export function serializeClassInfo(db: MockDb, masterClass: MockClass | undefined) {
+  const coreClass = db.coreClasses.find((item) => item.id === masterClass?.class_master_id);
+  return {
+    public_id: masterClass?.public_id ?? "",
+    class_master_name: coreClass?.name ?? "",
+    name: masterClass?.name ?? "",
+  };
+}
+
+// ============================================================================
+// Students
+// ============================================================================
+
+export function findStudentUser(db: MockDb, student: MockStudent): MockUser {
+  const user = findUser(db, student.user_id);
+  if (!user) {
+    throw new Error(`Mock student ${student.public_id} has no user`);
+  }
+  return user;
+}
+
+export function serializeStudent(db: MockDb, student: MockStudent): Student {
+  const user = findStudentUser(db, student);
+  const masterClass = db.classes.find((item) => item.public_id === student.class_id);
+  const audit = serializeAudit(db, student);
+
+  return {
+    public_id: student.public_id,
+    user_info: {
+      public_id: user.public_id,
+      username: user.username,
+      full_name: fullName(user),
+    },
+    class_info: serializeClassInfo(db, masterClass),
+    roll_number: student.roll_number,
+    admission_number: student.admission_number,
+    admission_date: student.admission_date,
+    guardian_name: student.guardian_name,
+    created_at: audit.created_at,
+    updated_at: audit.updated_at,
+    created_by_public_id: audit.created_by_public_id ?? "",
+    created_by_name: audit.created_by_name ?? "",
+    updated_by_public_id: audit.updated_by_public_id ?? "",
+    updated_by_name: audit.updated_by_name ?? "",
+  };
+}
+
+export function serializeStudentDetail(db: MockDb, student: MockStudent): StudentDetail {
+  const user = findStudentUser(db, student);
+  const masterClass = db.classes.find((item) => item.public_id === student.class_id);
+  const serializedClass = masterClass ? serializeClass(db, masterClass) : null;
+  const summary = serializeStudent(db, student);
+  const capacity = serializedClass?.capacity ?? 0;
+  const studentCount = serializedClass?.student_count ?? 0;
+
+  return {
+    ...summary,
+    user_info: {
+      public_id: user.public_id,
+      username: user.username,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      full_name: fullName(user),
+      email: user.email,
+      phone: user.phone,
+      role: user.role,
+      gender: user.gender,
+      blood_group: user.blood_group,
+      date_of_birth: user.date_of_birth,
+      organization_role: user.organization_role_code,
+      supervisor: serializeSupervisor(db, user),
+      address: user.address ? serializeAddress(user.address) : undefined,
+      notification_opt_in: user.notification_opt_in,
+      is_active: user.is_active,
+      is_email_verified: true,
+      full_address: user.address ? formatAddress(user.address) : undefined,
+    },
+    class_info: {
+      public_id: serializedClass?.public_id ?? "",
+      class_master: serializedClass?.class_master ?? {
+        id: 0,
+        name: "",
+        code: "",
+        display_order: 0,
+      },
+      name: serializedClass?.name ?? "",
+      class_teacher: serializedClass?.class_teacher
+        ? {
+            public_id: serializedClass.class_teacher.public_id,
+            full_name: serializedClass.class_teacher.full_name,
+            email: serializedClass.class_teacher.email,
+          }
+        : null,
+      info: serializedClass?.info ?? "",
+      capacity,
+      student_count: studentCount,
+      is_full: capacity > 0 && studentCount >= capacity,
+      available_seats: Math.max(0, capacity - studentCount),
+      created_at: serializedClass?.created_at ?? "",
+      updated_at: serializedClass?.updated_at ?? "",
+      created_by_public_id: serializedClass?.created_by_public_id ?? "",
+      created_by_name: serializedClass?.created_by_name ?? "",
+      updated_by_public_id: serializedClass?.updated_by_public_id ?? "",
+      updated_by_name: serializedClass?.updated_by_name ?? "",
+    },
+    full_name: fullName(user),
+    guardian_phone: student.guardian_phone,
+    guardian_email: student.guardian_email,
+    guardian_relationship: student.guardian_relationship,
+    description: student.description,
+    medical_conditions: student.medical_conditions,
+    emergency_contact_name: student.emergency_contact_name,
+    emergency_contact_phone: student.emergency_contact_phone,
+    previous_school_name: student.previous_school_name,
+    previous_school_address: student.previous_school_address,
+    previous_school_class: student.previous_school_class,
+  };
+}
+
+// ============================================================================
+// Subjects
+// ============================================================================
+
+export function serializeSubject(db: MockDb, subject: MockSubject): Subject {
+  const coreSubject = db.coreSubjects.find((item) => item.id === subject.subject_id);
+  const masterClass = db.classes.find((item) => item.public_id === subject.class_id);
+  const teacher = db.teachers.find((item) => item.public_id === subject.teacher_id);
+  const teacherUser = teacher ? findTeacherUser(db, teacher) : undefined;
+  const audit = serializeAudit(db, subject);
+
+  return {
+    public_id: subject.public_id,
+    class_info: serializeClassInfo(db, masterClass),
+    subject_info: {
+      id: coreSubject?.id ?? subject.subject_id,
+      public_id: coreSubject?.public_id ?? "",
+      name: coreSubject?.name ?? "",
+      code: coreSubject?.code ?? "",
+    },
+    teacher_info: {
+      public_id: teacher?.public_id ?? "",
+      employee_id: teacher?.employee_id ?? "",
+      full_name: fullName(teacherUser),
+      email: teacherUser?.email ?? "",
+      specialization: teacher?.specialization,
+      designation: teacher?.designation,
+    },
+    description: subject.description,
+    created_at: audit.created_at,
+    updated_at: audit.updated_at,
+    created_by_public_id: audit.created_by_public_id ?? "",
+    created_by_name: audit.created_by_name ?? "",
+    updated_by_public_id: audit.updated_by_public_id ?? "",
+    updated_by_name: audit.updated_by_name ?? "",
+  };
+}
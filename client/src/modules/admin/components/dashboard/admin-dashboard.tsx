@@ -2,7 +2,9 @@
  * Admin Dashboard Component
  * Main overview dashboard displaying key metrics, charts, and recent activity.
  * Shows statistics for students, teachers, classes, attendance trends, and leave requests.
- * Uses mock data for demonstration - integrate with real API in production.
+ * Today's cover comes from the substitution board and announcements from those
+ * addressed to the admin; the remaining widgets use mock data for demonstration -
+ * integrate with real API in production.
  */
 
 import { Users, BookOpen, TrendingUp, AlertCircle, CheckCircle } from "lucide-react";
@@ -20,6 +22,8 @@ import {
   Cell,
 } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AnnouncementsCard } from "@/features/announcements";
+import { TodaysSubstitutions } from "@/features/timetable";
 
 const attendanceData = [
   { day: "Mon", present: 145, absent: 15, late: 8 },
@@ -210,6 +214,12 @@ export function DashboardContent() {
         </Card>
       </div>
 
+      {/* Cover for teachers on leave */}
+      <TodaysSubstitutions />
+
+      {/* Announcements */}
+      <AnnouncementsCard />
+
       {/* Bottom Section */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Recent Activities */}
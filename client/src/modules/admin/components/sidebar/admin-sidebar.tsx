@@ -13,19 +13,29 @@ import {
   BookOpen,
   Briefcase,
   Calendar,
+  CalendarRange,
+  CalendarSync,
   CheckCircle2,
+  Clock,
+  Coins,
   FileText,
   GraduationCap,
+  Megaphone,
   Menu,
+  ScrollText,
   Settings,
   Users,
   X,
   AlertOctagon,
   ClipboardCheck,
+  FileClock,
+  UserCheck,
   UserCog,
 } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { useUser } from "@/core/contexts";
+import { filterMenuItems } from "@/core/permissions";
 import { cn } from "@/lib/utils";
 import { ResizableSidebar } from "./resizable-sidebar";
 
@@ -34,12 +44,19 @@ const adminMenuItems = [
   { divider: true, label: "Administration" },
   { id: "organization", label: "Organization Leaves", icon: Calendar, section: "admin" },
   { id: "allocations", label: "Leave Allocations", icon: FileText, section: "admin" },
+  { id: "leave-accruals", label: "Leave Accruals", icon: Coins, section: "admin" },
+  { id: "leave-rollover", label: "Leave Year Rollover", icon: CalendarSync, section: "admin" },
   { id: "preferences", label: "Organization Preferences", icon: Settings, section: "admin" },
   { divider: true, label: "Management" },
   { id: "teachers", label: "Teachers", icon: Users, section: "admin" },
   { id: "classes", label: "Classes & Sections", icon: GraduationCap, section: "admin" },
   { id: "subjects", label: "Subjects", icon: BookOpen, section: "admin" },
   { id: "students", label: "Students", icon: Users, section: "admin" },
+  { id: "timetable", label: "Timetable", icon: CalendarRange, section: "admin" },
+  { id: "substitutions", label: "Substitutions", icon: UserCheck, section: "admin" },
+  { id: "exams", label: "Exams & Grades", icon: Award, section: "admin" },
+  { id: "report-cards", label: "Report Cards", icon: ScrollText, section: "admin" },
+  { id: "announcements", label: "Announcements", icon: Megaphone, section: "admin" },
   { divider: true, label: "Operations" },
   {
     id: "exceptional-work",
@@ -48,6 +65,13 @@ const adminMenuItems = [
     section: "admin",
   },
   { id: "attendance", label: "Attendance", icon: CheckCircle2, section: "admin" },
+  { id: "my-attendance", label: "My Attendance", icon: Clock, section: "admin" },
+  {
+    id: "regularization-reviews",
+    label: "Attendance Regularizations",
+    icon: FileClock,
+    section: "admin",
+  },
   {
     id: "leave-request-reviews",
     label: "Leave Request Reviews",
@@ -67,6 +91,8 @@ interface AdminSidebarProps {
 
 export function AdminSidebar({ activeMenu, onMenuChange }: AdminSidebarProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const { user } = useUser();
+  const menuItems = filterMenuItems(adminMenuItems, user);
   const navRef = useRef<HTMLElement>(null);
   const activeItemRef = useRef<HTMLButtonElement>(null);
 
@@ -144,7 +170,7 @@ export function AdminSidebar({ activeMenu, onMenuChange }: AdminSidebarProps) {
               className="flex-1 space-y-1 overflow-y-auto p-4"
               data-testid="sidebar-admin"
             >
-              {adminMenuItems.map((item, index) => {
+              {menuItems.map((item, index) => {
                 if ("divider" in item && item.divider) {
                   return (
                     <div key={index} className="mt-2 py-4">
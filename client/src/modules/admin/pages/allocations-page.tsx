@@ -10,7 +10,7 @@ import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { PageWrapper, SuccessDialog, DeleteConfirmationDialog } from "@/common/components";
 import { DashboardLayout } from "@/common/layouts";
-import { LeaveAllocationForm, LeaveAllocationsList } from "@/features/leave";
+import { ApprovalWorkflowList, LeaveAllocationForm, LeaveAllocationsList } from "@/features/leave";
 import { useDeleteMutation } from "@/hooks/use-delete-mutation";
 import { deleteLeaveAllocation, apiRequest, API_ENDPOINTS } from "@/lib/api/leave-api";
 import type { LeaveAllocation } from "@/lib/api/leave-api";
@@ -135,15 +135,18 @@ export default function AllocationsPage() {
     <DashboardLayout>
       <PageWrapper>
         {viewMode === "list" ? (
-          <LeaveAllocationsList
-            onCreateNew={() => {
-              setSelectedAllocation(null);
-              setViewMode("create");
-            }}
-            onView={handleView}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-          />
+          <div className="space-y-6">
+            <LeaveAllocationsList
+              onCreateNew={() => {
+                setSelectedAllocation(null);
+                setViewMode("create");
+              }}
+              onView={handleView}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+            <ApprovalWorkflowList />
+          </div>
         ) : (
           <LeaveAllocationForm
             mode={viewMode}
@@ -0,0 +1,25 @@
+/**
+ * Announcements Page
+ *
+ * Announcements and circulars, or one announcement's read receipts
+ *
+ * @route /announcements - Announcements with their audience and schedule
+ * @route /announcements/:id - Who has opened and acknowledged one announcement
+ */
+
+import { useParams } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { AnnouncementList, AnnouncementReceipts } from "@/features/announcements";
+
+export default function AnnouncementsPage() {
+  const params = useParams();
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        {params.id ? <AnnouncementReceipts announcementId={params.id} /> : <AnnouncementList />}
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Attendance Page
+ * Admin console for the staff attendance register and campus geofences
+ * @route /attendance
+ */
+
+import { useState } from "react";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Can, PERMISSIONS } from "@/core/permissions";
+import {
+  GeofenceManagement,
+  StaffAttendanceRegister,
+} from "@/features/attendance/components/admin";
+
+export default function AttendancePage() {
+  const [activeTab, setActiveTab] = useState("register");
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="register">Attendance Register</TabsTrigger>
+            <Can permission={PERMISSIONS.STAFF_ATTENDANCE_MANAGE}>
+              <TabsTrigger value="geofences">Campus Geofences</TabsTrigger>
+            </Can>
+          </TabsList>
+          <TabsContent value="register">
+            <StaffAttendanceRegister />
+          </TabsContent>
+          <Can permission={PERMISSIONS.STAFF_ATTENDANCE_MANAGE}>
+            <TabsContent value="geofences">
+              <GeofenceManagement />
+            </TabsContent>
+          </Can>
+        </Tabs>
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
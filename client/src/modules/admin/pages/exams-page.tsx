@@ -0,0 +1,35 @@
+/**
+ * Exams Page
+ *
+ * Exam terms and grade scales, one exam's papers, or one paper's marks sheet
+ *
+ * @route /exams - Exam terms and grade scales
+ * @route /exams/:id - Papers of one exam
+ * @route /exams/:id/papers/:paperId - Marks sheet of one paper
+ */
+
+import { useLocation, useParams } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ExamDetail, ExamManagement, MarksEntrySheet } from "@/features/exams";
+
+export default function ExamsPage() {
+  const [, setLocation] = useLocation();
+  const params = useParams();
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        {params.id && params.paperId && (
+          <MarksEntrySheet
+            paperId={params.paperId}
+            backLabel="Back to Exam"
+            onBack={() => setLocation(`/exams/${params.id}`)}
+          />
+        )}
+        {params.id && !params.paperId && <ExamDetail examId={params.id} />}
+        {!params.id && <ExamManagement />}
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -18,3 +18,12 @@ export { default as LeaveRequestsPage } from "./leave-requests-page";
 export { default as LeaveRequestFormPage } from "./leave-request-form-page";
 export { default as LeaveRequestReviewsPage } from "./leave-request-reviews-page";
 export { default as ManageLeaveBalancesPage } from "./manage-leave-balances-page";
+export { default as AttendancePage } from "./attendance-page";
+export { default as RegularizationReviewsPage } from "./regularization-reviews-page";
+export { default as TimetablePage } from "./timetable-page";
+export { default as SubstitutionsPage } from "./substitutions-page";
+export { default as ExamsPage } from "./exams-page";
+export { default as ReportCardsPage } from "./report-cards-page";
+export { default as AnnouncementsPage } from "./announcements-page";
+export { default as LeaveAccrualsPage } from "./leave-accruals-page";
+export { default as LeaveRolloverPage } from "./leave-rollover-page";
@@ -0,0 +1,21 @@
+/**
+ * Leave Accruals Page
+ *
+ * Monthly, quarterly and pro-rated leave credits
+ *
+ * @route /leave-accruals - Preview accrued-to-date balances and post the credits due
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { LeaveAccrualRun } from "@/features/leave";
+
+export default function LeaveAccrualsPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <LeaveAccrualRun />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
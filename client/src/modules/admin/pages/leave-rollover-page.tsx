@@ -0,0 +1,21 @@
+/**
+ * Leave Rollover Page
+ *
+ * Year-end processing of leave balances
+ *
+ * @route /leave-rollover - Preview and process carry-forward into the next leave year
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { LeaveRolloverWizard } from "@/features/leave";
+
+export default function LeaveRolloverPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <LeaveRolloverWizard />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Regularization Reviews Page
+ * Page wrapper for the attendance regularization review component
+ * @route /regularization-reviews
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { RegularizationReview } from "@/features/attendance/components/admin";
+
+export default function RegularizationReviewsPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <RegularizationReview />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Report Cards Page
+ * Page wrapper for the report card generator; `?exam=` preselects an exam
+ * @route /report-cards
+ */
+
+import { useSearch } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ReportCardGenerator } from "@/features/exams";
+
+export default function ReportCardsPage() {
+  const examId = new URLSearchParams(useSearch()).get("exam") ?? undefined;
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <ReportCardGenerator initialExamId={examId} />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
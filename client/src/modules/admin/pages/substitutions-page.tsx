@@ -0,0 +1,19 @@
+/**
+ * Substitutions Page
+ * Page wrapper for the substitution board
+ * @route /substitutions
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { SubstitutionBoard } from "@/features/timetable/components/admin";
+
+export default function SubstitutionsPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <SubstitutionBoard />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
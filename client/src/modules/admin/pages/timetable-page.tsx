@@ -0,0 +1,19 @@
+/**
+ * Timetable Page
+ * Page wrapper for the section timetable builder
+ * @route /timetable
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { TimetableBuilder } from "@/features/timetable/components/admin";
+
+export default function TimetablePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <TimetableBuilder />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
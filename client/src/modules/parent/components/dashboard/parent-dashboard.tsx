@@ -1,11 +1,15 @@
 /**
  * Parent Dashboard Component
  * Role-specific dashboard for parents showing their child's attendance trends,
- * academic performance, upcoming assignments, and recent activities.
- * Uses mock data for demonstration - integrate with real student data in production.
+ * academic performance, homework still to hand in and recent leave.
+ * Attendance comes from the child's class roll calls, scores from the latest
+ * published exam and homework from the child's assignments. Parents with
+ * several children switch between them at the top. School announcements
+ * addressed to the parent are listed below the stats.
  */
 
-import { TrendingUp, Calendar, BookOpen } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { TrendingUp, Calendar, NotebookPen, ArrowRight } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -17,59 +21,98 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import { useLocation } from "wouter";
+import { ChildSwitcher } from "@/common/components/child-switcher";
+import { useSelectedChildId } from "@/common/hooks/use-selected-child";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  SubmissionStatus,
+  SubmissionStatusColors,
+  SubmissionStatusLabels,
+} from "@/constants/assignments";
+import { AnnouncementsCard } from "@/features/announcements";
+import { isOutstanding, useChildrenAssignments } from "@/features/assignments";
+import { getWeeklyAttendance, useChildrenAttendance } from "@/features/attendance";
+import { useChildrenResults } from "@/features/exams";
+import { ChildLeaveRequestsCard } from "@/features/leave";
 
-const attendanceData = [
-  { week: "Week 1", attendance: 95 },
-  { week: "Week 2", attendance: 92 },
-  { week: "Week 3", attendance: 98 },
-  { week: "Week 4", attendance: 96 },
-  { week: "Week 5", attendance: 99 },
-];
+interface StatValues {
+  attendance: string;
+  attendanceNote: string;
+  averageScore: string;
+  grade: string;
+  homeworkDue: string;
+  homeworkNote: string;
+}
 
-const marksData = [
-  { subject: "Mathematics", marks: 85 },
-  { subject: "Science", marks: 88 },
-  { subject: "English", marks: 82 },
-  { subject: "History", marks: 79 },
-  { subject: "PE", marks: 90 },
-];
+function getStats(values: StatValues) {
+  return [
+    {
+      label: "Current Attendance",
+      value: values.attendance,
+      change: values.attendanceNote,
+      icon: Calendar,
+      color: "text-amber-600",
+      bg: "bg-gradient-to-br from-amber-50 to-amber-100",
+    },
+    {
+      label: "Average Score",
+      value: values.averageScore,
+      change: values.grade,
+      icon: TrendingUp,
+      color: "text-orange-600",
+      bg: "bg-gradient-to-br from-orange-50 to-orange-100",
+    },
+    {
+      label: "Homework Due",
+      value: values.homeworkDue,
+      change: values.homeworkNote,
+      icon: NotebookPen,
+      color: "text-amber-600",
+      bg: "bg-gradient-to-br from-amber-50 to-amber-100",
+    },
+  ];
+}
 
-const stats = [
-  {
-    label: "Current Attendance",
-    value: "95.2%",
-    change: "Good",
-    icon: Calendar,
-    color: "text-amber-600",
-    bg: "bg-gradient-to-br from-amber-50 to-amber-100",
-  },
-  {
-    label: "Average Score",
-    value: "84.8%",
-    change: "Excellent",
-    icon: TrendingUp,
-    color: "text-orange-600",
-    bg: "bg-gradient-to-br from-orange-50 to-orange-100",
-  },
-  {
-    label: "Classes",
-    value: "5",
-    change: "Active",
-    icon: BookOpen,
-    color: "text-amber-600",
-    bg: "bg-gradient-to-br from-amber-50 to-amber-100",
-  },
-];
+export function ParentDashboardContent({ username }: { username: string }) {
+  const [, setLocation] = useLocation();
+  const [selectedId, setSelectedId] = useSelectedChildId();
+  const { data: childrenResults = [] } = useChildrenResults();
+  const { data: childrenAttendance = [] } = useChildrenAttendance();
+  const { data: childrenAssignments = [] } = useChildrenAssignments();
 
-const recentUpdates = [
-  { title: "Science Project Submitted", date: "Today", status: "completed" },
-  { title: "Mathematics Test Results", date: "Yesterday", status: "completed" },
-  { title: "Parent-Teacher Meeting", date: "Dec 30", status: "upcoming" },
-  { title: "Sports Day Registration", date: "Jan 5", status: "upcoming" },
-];
+  // The children list is the same on every endpoint; results is the first to name them
+  const selectedResults =
+    childrenResults.find((child) => child.student.public_id === selectedId) ?? childrenResults[0];
+  const studentId = selectedResults?.student.public_id;
+  const attendance = childrenAttendance.find((child) => child.student.public_id === studentId);
+  const homework = (
+    childrenAssignments.find((child) => child.student.public_id === studentId)?.assignments || []
+  ).filter((item) => isOutstanding(item.submission.status));
+  const overdueCount = homework.filter(
+    (item) => item.submission.status === SubmissionStatus.OVERDUE
+  ).length;
+
+  const attendanceData = getWeeklyAttendance(attendance?.records || []);
+  const latestResult = selectedResults?.results[0];
+  const marksData = (latestResult?.subjects || []).map((subject) => ({
+    subject: subject.subject_name,
+    marks: subject.percentage ?? 0,
+  }));
+  const attendanceRate = attendance?.summary.attendance_rate ?? null;
+  const stats = getStats({
+    attendance: attendanceRate !== null ? `${attendanceRate}%` : "—",
+    attendanceNote: attendance
+      ? `${attendance.summary.present_days + attendance.summary.late_days} of ${attendance.summary.marked_days} school days`
+      : "No roll calls yet",
+    averageScore: latestResult ? `${latestResult.percentage}%` : "—",
+    grade: latestResult ? `Grade ${latestResult.grade}` : "No results yet",
+    homeworkDue: String(homework.length),
+    homeworkNote: overdueCount > 0 ? `${overdueCount} overdue` : "Nothing overdue",
+  });
 
-export function ParentDashboardContent({ username }: { username: string }) {
   return (
     <div className="space-y-8">
       <div className="space-y-2">
@@ -79,6 +122,19 @@ export function ParentDashboardContent({ username }: { username: string }) {
         <p className="text-gray-600">Track your child&apos;s progress and school activities.</p>
       </div>
 
+      {selectedResults && (
+        <ChildSwitcher
+          students={childrenResults.map((child) => ({
+            public_id: child.student.public_id,
+            full_name: child.student.full_name,
+            class_label: `${child.class_info.class_master_name} - ${child.class_info.name}`,
+            roll_number: child.student.roll_number,
+          }))}
+          value={selectedResults.student.public_id}
+          onValueChange={setSelectedId}
+        />
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
         {stats.map((stat, index) => {
@@ -106,13 +162,16 @@ export function ParentDashboardContent({ username }: { username: string }) {
         })}
       </div>
 
+      {/* Announcements */}
+      <AnnouncementsCard />
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
           <CardHeader className="border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50">
             <CardTitle className="text-amber-900">Weekly Attendance</CardTitle>
             <CardDescription className="text-amber-700">
-              Attendance trend over weeks
+              Share of school days attended each week
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
@@ -120,7 +179,7 @@ export function ParentDashboardContent({ username }: { username: string }) {
               <LineChart data={attendanceData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#fef3c7" />
                 <XAxis dataKey="week" />
-                <YAxis />
+                <YAxis domain={[0, 100]} unit="%" />
                 <Tooltip />
                 <Line
                   type="monotone"
@@ -138,7 +197,9 @@ export function ParentDashboardContent({ username }: { username: string }) {
           <CardHeader className="border-b border-orange-100 bg-gradient-to-r from-orange-50 to-amber-50">
             <CardTitle className="text-orange-900">Subject-wise Scores</CardTitle>
             <CardDescription className="text-orange-700">
-              Current academic performance
+              {latestResult
+                ? `Percentage in ${latestResult.exam.name}`
+                : "No published results yet"}
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
@@ -146,7 +207,7 @@ export function ParentDashboardContent({ username }: { username: string }) {
               <BarChart data={marksData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#fef3c7" />
                 <XAxis dataKey="subject" />
-                <YAxis />
+                <YAxis domain={[0, 100]} unit="%" />
                 <Tooltip />
                 <Bar dataKey="marks" fill="#d97706" radius={[8, 8, 0, 0]} />
               </BarChart>
@@ -155,46 +216,61 @@ export function ParentDashboardContent({ username }: { username: string }) {
         </Card>
       </div>
 
-      {/* Recent Updates */}
+      {/* Homework */}
       <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
-        <CardHeader className="border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50">
-          <CardTitle className="text-amber-900">Recent Updates</CardTitle>
-          <CardDescription className="text-amber-700">
-            Latest school activities and results
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 border-b border-amber-100 bg-gradient-to-r from-amber-50 to-orange-50">
+          <div className="space-y-1.5">
+            <CardTitle className="text-amber-900">Homework</CardTitle>
+            <CardDescription className="text-amber-700">
+              Pending and overdue assignments, due soonest first
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-amber-700"
+            onClick={() => setLocation("/homework")}
+          >
+            View all
+            <ArrowRight className="ml-1 h-4 w-4" />
+          </Button>
         </CardHeader>
         <CardContent className="pt-6">
-          <div className="space-y-4">
-            {recentUpdates.map((update, index) => (
-              <div
-                key={index}
-                className="flex items-start space-x-4 border-b border-gray-100 pb-4 last:border-0"
-              >
-                <div className="mt-1">
-                  {update.status === "completed" ? (
-                    <div className="h-2 w-2 rounded-full bg-green-500" />
-                  ) : (
-                    <div className="h-2 w-2 rounded-full bg-amber-500" />
-                  )}
-                </div>
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-900">{update.title}</p>
-                  <p className="mt-1 text-xs text-gray-500">{update.date}</p>
-                </div>
-                <span
-                  className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                    update.status === "completed"
-                      ? "bg-green-100 text-green-700"
-                      : "bg-amber-100 text-amber-700"
-                  }`}
+          {homework.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing due. All homework has been handed in.</p>
+          ) : (
+            <div className="space-y-4">
+              {homework.map(({ assignment, submission }) => (
+                <div
+                  key={assignment.public_id}
+                  className="flex items-start space-x-4 border-b border-gray-100 pb-4 last:border-0"
                 >
-                  {update.status === "completed" ? "Done" : "Upcoming"}
-                </span>
-              </div>
-            ))}
-          </div>
+                  <div className="mt-1">
+                    {submission.status === SubmissionStatus.OVERDUE ? (
+                      <div className="h-2 w-2 rounded-full bg-red-500" />
+                    ) : (
+                      <div className="h-2 w-2 rounded-full bg-amber-500" />
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-gray-900">{assignment.title}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {assignment.subject_info.name} • Due{" "}
+                      {format(parseISO(assignment.due_date), "EEE, MMM dd")}
+                    </p>
+                  </div>
+                  <Badge className={SubmissionStatusColors[submission.status]}>
+                    {SubmissionStatusLabels[submission.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {/* Leave */}
+      <ChildLeaveRequestsCard limit={5} />
     </div>
   );
 }
@@ -1,6 +1,19 @@
-import { Menu, X, BarChart3, User, Calendar, FileText, MessageSquare, Heart } from "lucide-react";
+import {
+  Menu,
+  X,
+  BarChart3,
+  User,
+  Calendar,
+  CalendarRange,
+  FileText,
+  MessageSquare,
+  Heart,
+  NotebookPen,
+} from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { useUser } from "@/core/contexts";
+import { filterMenuItems } from "@/core/permissions";
 import { cn } from "@/lib/utils";
 import { ResizableSidebar } from "./resizable-sidebar";
 
@@ -8,11 +21,13 @@ const parentMenuItems = [
   { id: "overview", label: "Overview", icon: BarChart3, section: "main" },
   { divider: true, label: "Child Information" },
   { id: "child-profile", label: "Child Profile", icon: User, section: "parent" },
-  { id: "attendance", label: "Attendance", icon: Calendar, section: "parent" },
+  { id: "child-attendance", label: "Attendance", icon: Calendar, section: "parent" },
+  { id: "child-timetable", label: "Class Timetable", icon: CalendarRange, section: "parent" },
   { id: "progress", label: "Academic Progress", icon: FileText, section: "parent" },
+  { id: "homework", label: "Homework", icon: NotebookPen, section: "parent" },
   { divider: true, label: "Communication" },
   { id: "messages", label: "Messages", icon: MessageSquare, section: "parent" },
-  { id: "reports", label: "Reports", icon: FileText, section: "parent" },
+  { id: "child-reports", label: "Report Cards", icon: FileText, section: "parent" },
 ];
 
 interface ParentSidebarProps {
@@ -22,6 +37,8 @@ interface ParentSidebarProps {
 
 export function ParentSidebar({ activeMenu, onMenuChange }: ParentSidebarProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const { user } = useUser();
+  const menuItems = filterMenuItems(parentMenuItems, user);
 
   return (
     <>
@@ -70,7 +87,7 @@ export function ParentSidebar({ activeMenu, onMenuChange }: ParentSidebarProps)
             </div>
 
             <nav className="flex-1 space-y-1 overflow-y-auto p-4" data-testid="sidebar-parent">
-              {parentMenuItems.map((item, index) => {
+              {menuItems.map((item, index) => {
                 if ("divider" in item && item.divider) {
                   return (
                     <div key={index} className="mt-2 py-4">
@@ -0,0 +1,21 @@
+/**
+ * Academic Progress Page
+ *
+ * Published exam results of the parent's children.
+ *
+ * @route /progress
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { AcademicProgress } from "@/features/exams";
+
+export default function AcademicProgressPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <AcademicProgress />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
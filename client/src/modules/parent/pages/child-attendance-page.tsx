@@ -0,0 +1,21 @@
+/**
+ * Child Attendance Page
+ *
+ * Class attendance of the parent's children, with the weekly trend and days on leave.
+ *
+ * @route /child-attendance
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ChildAttendance } from "@/features/attendance";
+
+export default function ChildAttendancePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <ChildAttendance />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Child Profile Page
+ *
+ * School record of the parent's children: class, guardian, health and address details,
+ * followed by the leave requested for the selected child.
+ *
+ * @route /child-profile
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ChildLeaveRequestsCard } from "@/features/leave";
+import { ChildProfile } from "@/features/students";
+
+export default function ChildProfilePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <div className="space-y-6">
+          <ChildProfile />
+          <ChildLeaveRequestsCard />
+        </div>
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Child Report Cards Page
+ *
+ * Report cards of the parent's children for each published exam, ready to print.
+ *
+ * @route /child-reports
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ChildReportCards } from "@/features/exams";
+
+export default function ChildReportCardsPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <ChildReportCards />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Child Timetable Page
+ *
+ * Read-only weekly class timetable of the parent's children.
+ *
+ * @route /child-timetable
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ChildTimetable } from "@/features/timetable";
+
+export default function ChildTimetablePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <ChildTimetable />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
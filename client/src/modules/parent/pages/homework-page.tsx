@@ -0,0 +1,21 @@
+/**
+ * Homework Page
+ *
+ * Homework of the parent's children, with submitting it and the teacher's grades.
+ *
+ * @route /homework
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { ChildrenHomework } from "@/features/assignments";
+
+export default function HomeworkPage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <ChildrenHomework />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
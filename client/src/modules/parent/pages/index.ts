@@ -0,0 +1,12 @@
+/**
+ * Parent Module - Page Components
+ *
+ * Complete page views for parent-only functionality.
+ */
+
+export { default as ChildTimetablePage } from "./child-timetable-page";
+export { default as AcademicProgressPage } from "./academic-progress-page";
+export { default as HomeworkPage } from "./homework-page";
+export { default as ChildProfilePage } from "./child-profile-page";
+export { default as ChildAttendancePage } from "./child-attendance-page";
+export { default as ChildReportCardsPage } from "./child-report-cards-page";
@@ -1,7 +1,11 @@
 /**
  * Teacher Dashboard Component
  * Role-specific dashboard for teachers showing their classes, student performance,
- * attendance statistics, and upcoming schedule. Uses mock data for demonstration.
+ * attendance statistics, and today's schedule. Today's classes come from the
+ * teacher's timetable plus any cover assigned to them on the substitution board,
+ * class performance from the marks on their latest exam papers, and
+ * announcements from those addressed to the teacher; the remaining widgets
+ * use mock data for demonstration.
  */
 
 import { Users, BookOpen, Clock, TrendingUp } from "lucide-react";
@@ -18,14 +22,22 @@ import {
   Pie,
   Cell,
 } from "recharts";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-
-const classPerformance = [
-  { class: "Class 9A", avg: 78, present: 38, absent: 2 },
-  { class: "Class 9B", avg: 82, present: 40, absent: 0 },
-  { class: "Class 10A", avg: 75, present: 35, absent: 5 },
-  { class: "Class 10B", avg: 88, present: 42, absent: 0 },
-];
+import { AnnouncementsCard } from "@/features/announcements";
+import { useMyExamPapers } from "@/features/exams";
+import {
+  formatPeriodTime,
+  getDayLessons,
+  getTimetableDay,
+  useMySchedule,
+  useMySubstitutions,
+  useTimetablePeriods,
+} from "@/features/timetable";
+import type { ExamPaper } from "@/lib/api/exam-api";
+import type { MySubstitutions } from "@/lib/api/substitution-api";
+import type { TimetableEntry, TimetablePeriod } from "@/lib/api/timetable-api";
+import { getCurrentDateString } from "@/lib/utils/date-utils";
 
 const studentProgress = [
   { name: "Excellent", value: 45, color: "#10b981" },
@@ -69,13 +81,117 @@ const stats = [
   },
 ];
 
-const upcomingClasses = [
-  { class: "Class 9A - Mathematics", time: "10:00 AM", room: "Room 102" },
-  { class: "Class 10B - Science", time: "1:00 PM", room: "Lab 1" },
-  { class: "Class 9B - Mathematics", time: "2:30 PM", room: "Room 105" },
-];
+function getLessonStatus(startTime: string, endTime: string): string {
+  const now = new Date().toTimeString().slice(0, 5);
+  if (now >= endTime.slice(0, 5)) {
+    return "Completed";
+  }
+  return now >= startTime.slice(0, 5) ? "In Progress" : "Scheduled";
+}
+
+interface ClassPerformance {
+  class: string;
+  avg: number;
+  pass: number;
+}
+
+/**
+ * Average and pass percentage per section on the latest exam the teacher has
+ * entered marks for. Papers arrive latest exam first.
+ */
+function getClassPerformance(papers: ExamPaper[]): {
+  examName: string | null;
+  data: ClassPerformance[];
+} {
+  const latest = papers.find((paper) => paper.average_percentage !== null);
+  if (!latest) {
+    return { examName: null, data: [] };
+  }
+
+  const byClass = new Map<string, { avg: number[]; pass: number[] }>();
+  papers
+    .filter((paper) => paper.exam.public_id === latest.exam.public_id)
+    .forEach((paper) => {
+      if (paper.average_percentage === null) {
+        return;
+      }
+      const label = `${paper.class_info.class_master_name} ${paper.class_info.name}`;
+      const scores = byClass.get(label) ?? { avg: [], pass: [] };
+      scores.avg.push(paper.average_percentage);
+      scores.pass.push(paper.pass_percentage ?? 0);
+      byClass.set(label, scores);
+    });
+
+  const mean = (values: number[]) =>
+    Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+  return {
+    examName: latest.exam.name,
+    data: Array.from(byClass, ([label, scores]) => ({
+      class: label,
+      avg: mean(scores.avg),
+      pass: mean(scores.pass),
+    })),
+  };
+}
+
+interface TodaysLesson {
+  key: string;
+  period: TimetablePeriod;
+  title: string;
+  room: string | null;
+  /** Set when the teacher covers this lesson for a colleague on leave */
+  coverFor: string | null;
+  /** Set when the teacher is on leave and someone else takes this lesson */
+  coveredBy: string | null;
+}
+
+/**
+ * Today's own lessons merged with the cover lessons assigned to the teacher,
+ * in period order
+ */
+function getTodaysLessons(
+  lessons: Array<{ period: TimetablePeriod; entry: TimetableEntry }>,
+  substitutions: MySubstitutions | undefined
+): TodaysLesson[] {
+  const covered = new Map(
+    (substitutions?.covered || []).map((substitution) => [substitution.entry_id, substitution])
+  );
+
+  return [
+    ...lessons.map(({ period, entry }) => ({
+      key: entry.public_id,
+      period,
+      title: `${entry.class_info.class_master_name} ${entry.class_info.name} - ${entry.subject_info.name}`,
+      room: entry.room,
+      coverFor: null,
+      coveredBy: covered.has(entry.public_id)
+        ? (covered.get(entry.public_id)?.substitute_teacher?.full_name ?? "No substitute yet")
+        : null,
+    })),
+    ...(substitutions?.covering || []).map((substitution) => ({
+      key: `cover:${substitution.entry_id}`,
+      period: substitution.period,
+      title: `${substitution.class_info.class_master_name} ${substitution.class_info.name} - ${substitution.subject_info.name}`,
+      room: substitution.room,
+      coverFor: substitution.absent_teacher.full_name,
+      coveredBy: null,
+    })),
+  ].sort((a, b) => a.period.order - b.period.order);
+}
 
 export function TeacherDashboardContent({ username }: { username: string }) {
+  const { data: periods } = useTimetablePeriods();
+  const { data: scheduleData, isLoading: isLoadingSchedule } = useMySchedule();
+  const today = getCurrentDateString();
+  const { data: substitutions } = useMySubstitutions(today, today);
+  const todaysClasses = getTodaysLessons(
+    getDayLessons(scheduleData?.data || [], periods || [], getTimetableDay()),
+    substitutions
+  );
+  const { data: examPapers, isLoading: isLoadingPapers } = useMyExamPapers();
+  const classPerformance = getClassPerformance(examPapers || []);
+
   return (
     <div className="space-y-8">
       <div className="space-y-2">
@@ -114,25 +230,36 @@ export function TeacherDashboardContent({ username }: { username: string }) {
         })}
       </div>
 
+      {/* Announcements */}
+      <AnnouncementsCard />
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
         <Card className="border-0 bg-white/80 shadow-lg backdrop-blur lg:col-span-2">
           <CardHeader className="border-b border-purple-100 bg-gradient-to-r from-purple-50 to-pink-50">
             <CardTitle className="text-purple-900">Class Performance</CardTitle>
-            <CardDescription className="text-purple-700">Average scores by class</CardDescription>
+            <CardDescription className="text-purple-700">
+              {classPerformance.examName
+                ? `Average and pass % by class in ${classPerformance.examName}`
+                : "Average scores by class"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="pt-6">
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={classPerformance}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
-                <XAxis dataKey="class" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="avg" fill="#a855f7" name="Avg Score" radius={[8, 8, 0, 0]} />
-                <Bar dataKey="present" fill="#ec4899" name="Present" radius={[8, 8, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
+            {!isLoadingPapers && classPerformance.data.length === 0 ? (
+              <p className="text-sm text-gray-500">No marks entered for your papers yet</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={classPerformance.data}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                  <XAxis dataKey="class" />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="avg" fill="#a855f7" name="Avg Score %" radius={[8, 8, 0, 0]} />
+                  <Bar dataKey="pass" fill="#ec4899" name="Pass %" radius={[8, 8, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
 
@@ -167,33 +294,53 @@ export function TeacherDashboardContent({ username }: { username: string }) {
         </Card>
       </div>
 
-      {/* Upcoming Classes */}
+      {/* Today's Classes */}
       <Card className="border-0 bg-white/80 shadow-lg backdrop-blur">
         <CardHeader className="border-b border-purple-100 bg-gradient-to-r from-purple-50 to-pink-50">
           <CardTitle className="text-purple-900">Today&apos;s Classes</CardTitle>
           <CardDescription className="text-purple-700">
-            Your scheduled classes for today
+            Your scheduled classes and cover lessons for today
           </CardDescription>
         </CardHeader>
         <CardContent className="pt-6">
-          <div className="space-y-4">
-            {upcomingClasses.map((cls, index) => (
-              <div
-                key={index}
-                className="flex items-start space-x-4 border-b border-gray-100 pb-4 last:border-0"
-              >
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-900">{cls.class}</p>
-                  <p className="mt-1 text-xs text-gray-500">
-                    {cls.time} • {cls.room}
-                  </p>
+          {!isLoadingSchedule && todaysClasses.length === 0 ? (
+            <p className="text-sm text-gray-500">No classes scheduled for today</p>
+          ) : (
+            <div className="space-y-4">
+              {todaysClasses.map((lesson) => (
+                <div
+                  key={lesson.key}
+                  className="flex items-start space-x-4 border-b border-gray-100 pb-4 last:border-0"
+                >
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-gray-900">
+                      {lesson.title}
+                      {lesson.coverFor && (
+                        <Badge variant="outline" className="ml-2 border-amber-200 text-amber-700">
+                          Cover
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {lesson.period.name} • {formatPeriodTime(lesson.period)}
+                      {lesson.room && ` • ${lesson.room}`}
+                    </p>
+                    {lesson.coverFor && (
+                      <p className="mt-1 text-xs text-amber-700">Covering for {lesson.coverFor}</p>
+                    )}
+                    {lesson.coveredBy && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        You are on leave • Covered by {lesson.coveredBy}
+                      </p>
+                    )}
+                  </div>
+                  <span className="inline-flex items-center rounded-full bg-gradient-to-r from-purple-100 to-pink-100 px-2.5 py-0.5 text-xs font-medium text-purple-700">
+                    {getLessonStatus(lesson.period.start_time, lesson.period.end_time)}
+                  </span>
                 </div>
-                <span className="inline-flex items-center rounded-full bg-gradient-to-r from-purple-100 to-pink-100 px-2.5 py-0.5 text-xs font-medium text-purple-700">
-                  Scheduled
-                </span>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,16 +1,28 @@
 import {
+  Award,
   Menu,
   X,
   BarChart3,
   Users,
   BookOpen,
   Calendar,
+  CalendarRange,
   CheckCircle2,
+  Clock,
+  FileSpreadsheet,
   FileText,
   GraduationCap,
+  ClipboardCheck,
+  FileClock,
+  Megaphone,
+  MessageSquare,
+  ScrollText,
+  UserCheck,
 } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { useUser } from "@/core/contexts";
+import { filterMenuItems } from "@/core/permissions";
 import { cn } from "@/lib/utils";
 import { ResizableSidebar } from "./resizable-sidebar";
 
@@ -21,9 +33,38 @@ const teacherMenuItems = [
   { id: "students", label: "Students", icon: Users, section: "teacher" },
   { id: "subjects", label: "Subjects", icon: BookOpen, section: "teacher" },
   { divider: true, label: "Operations" },
-  { id: "attendance", label: "Mark Attendance", icon: CheckCircle2, section: "teacher" },
+  { id: "mark-attendance", label: "Mark Attendance", icon: CheckCircle2, section: "teacher" },
+  { id: "my-attendance", label: "My Attendance", icon: Clock, section: "teacher" },
+  { id: "marks-entry", label: "Marks Entry", icon: FileSpreadsheet, section: "teacher" },
+  { id: "report-cards", label: "Report Cards", icon: ScrollText, section: "teacher" },
   { id: "assignments", label: "Assignments", icon: FileText, section: "teacher" },
   { id: "schedule", label: "Class Schedule", icon: Calendar, section: "teacher" },
+  { id: "messages", label: "Messages", icon: MessageSquare, section: "teacher" },
+  { divider: true, label: "Management" },
+  { id: "teachers", label: "Teachers", icon: Users, section: "teacher" },
+  { id: "timetable", label: "Timetable Builder", icon: CalendarRange, section: "teacher" },
+  { id: "substitutions", label: "Substitutions", icon: UserCheck, section: "teacher" },
+  { id: "exams", label: "Exams & Grades", icon: Award, section: "teacher" },
+  { id: "announcements", label: "Announcements", icon: Megaphone, section: "teacher" },
+  { id: "attendance", label: "Staff Attendance", icon: CheckCircle2, section: "teacher" },
+  {
+    id: "regularization-reviews",
+    label: "Attendance Regularizations",
+    icon: FileClock,
+    section: "teacher",
+  },
+  {
+    id: "leave-request-reviews",
+    label: "Leave Request Reviews",
+    icon: ClipboardCheck,
+    section: "teacher",
+  },
+  {
+    id: "manage-leave-balances",
+    label: "Manage Leave Balances",
+    icon: FileText,
+    section: "teacher",
+  },
 ];
 
 interface TeacherSidebarProps {
@@ -33,6 +74,8 @@ interface TeacherSidebarProps {
 
 export function TeacherSidebar({ activeMenu, onMenuChange }: TeacherSidebarProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const { user } = useUser();
+  const menuItems = filterMenuItems(teacherMenuItems, user);
 
   return (
     <>
@@ -81,7 +124,7 @@ export function TeacherSidebar({ activeMenu, onMenuChange }: TeacherSidebarProps
             </div>
 
             <nav className="flex-1 space-y-1 overflow-y-auto p-4" data-testid="sidebar-teacher">
-              {teacherMenuItems.map((item, index) => {
+              {menuItems.map((item, index) => {
                 if ("divider" in item && item.divider) {
                   return (
                     <div key={index} className="mt-2 py-4">
@@ -0,0 +1,25 @@
+/**
+ * Assignments Page
+ *
+ * Homework set by the signed-in teacher and the submissions of one assignment.
+ *
+ * @route /assignments - Assignments of the teacher's sections
+ * @route /assignments/:id - Submissions and grading of one assignment
+ */
+
+import { useParams } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { AssignmentList, AssignmentSubmissions } from "@/features/assignments";
+
+export default function AssignmentsPage() {
+  const params = useParams();
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        {params.id ? <AssignmentSubmissions assignmentId={params.id} /> : <AssignmentList />}
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Teacher Module - Page Components
+ *
+ * Complete page views for teacher-only functionality.
+ */
+
+export { default as MarkAttendancePage } from "./mark-attendance-page";
+export { default as SchedulePage } from "./schedule-page";
+export { default as MarksEntryPage } from "./marks-entry-page";
+export { default as AssignmentsPage } from "./assignments-page";
@@ -0,0 +1,21 @@
+/**
+ * Mark Attendance Page
+ *
+ * Class teacher roll call for their sections.
+ *
+ * @route /mark-attendance
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { MarkAttendance } from "@/features/attendance";
+
+export default function MarkAttendancePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <MarkAttendance />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Marks Entry Page
+ *
+ * Exam papers of the signed-in teacher and the marks sheet of one paper.
+ *
+ * @route /marks-entry - Papers awaiting marks
+ * @route /marks-entry/:paperId - Marks sheet of one paper
+ */
+
+import { useLocation, useParams } from "wouter";
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { MarksEntrySheet, MyExamPapers } from "@/features/exams";
+
+export default function MarksEntryPage() {
+  const [, setLocation] = useLocation();
+  const params = useParams();
+
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        {params.paperId ? (
+          <MarksEntrySheet
+            paperId={params.paperId}
+            backLabel="My Papers"
+            onBack={() => setLocation("/marks-entry")}
+          />
+        ) : (
+          <MyExamPapers />
+        )}
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Class Schedule Page
+ *
+ * Read-only weekly timetable of the signed-in teacher.
+ *
+ * @route /schedule
+ */
+
+import { PageWrapper } from "@/common/components";
+import { DashboardLayout } from "@/common/layouts";
+import { MySchedule } from "@/features/timetable";
+
+export default function SchedulePage() {
+  return (
+    <DashboardLayout>
+      <PageWrapper>
+        <MySchedule />
+      </PageWrapper>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,33 @@
+import { ShieldAlert } from "lucide-react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+export default function Forbidden() {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-gray-50">
+      <Card className="mx-4 w-full max-w-md">
+        <CardContent className="pt-6">
+          <div className="mb-4 flex gap-2">
+            <ShieldAlert className="h-8 w-8 text-amber-500" />
+            <h1 className="text-2xl font-bold text-gray-900">403 Access Denied</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            You don&apos;t have permission to view this page. If you think this is a mistake, please
+            contact your administrator.
+          </p>
+
+          <div className="mt-6 flex gap-2">
+            <Button onClick={() => setLocation("/dashboard")}>Go to Dashboard</Button>
+            <Button variant="outline" onClick={() => window.history.back()}>
+              Go Back
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
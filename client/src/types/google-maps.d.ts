@@ -1,6 +1,65 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 declare namespace google {
   namespace maps {
+    class LatLng {
+      lat(): number;
+      lng(): number;
+    }
+
+    interface LatLngLiteral {
+      lat: number;
+      lng: number;
+    }
+
+    interface MapOptions {
+      center?: LatLngLiteral;
+      zoom?: number;
+      mapTypeControl?: boolean;
+      streetViewControl?: boolean;
+      fullscreenControl?: boolean;
+    }
+
+    interface MapMouseEvent {
+      latLng: LatLng | null;
+    }
+
+    interface MapsEventListener {
+      remove(): void;
+    }
+
+    class Map {
+      constructor(element: HTMLElement, options?: MapOptions);
+      setCenter(center: LatLngLiteral): void;
+      panTo(center: LatLngLiteral): void;
+      fitBounds(bounds: LatLngBounds | null): void;
+      addListener(eventName: string, handler: (event: MapMouseEvent) => void): MapsEventListener;
+    }
+
+    class LatLngBounds {}
+
+    interface CircleOptions {
+      map?: Map;
+      center?: LatLngLiteral;
+      radius?: number;
+      editable?: boolean;
+      draggable?: boolean;
+      fillColor?: string;
+      fillOpacity?: number;
+      strokeColor?: string;
+      strokeWeight?: number;
+    }
+
+    class Circle {
+      constructor(options?: CircleOptions);
+      getCenter(): LatLng | null;
+      getRadius(): number;
+      getBounds(): LatLngBounds | null;
+      setCenter(center: LatLngLiteral): void;
+      setRadius(radius: number): void;
+      setMap(map: Map | null): void;
+      addListener(eventName: string, handler: () => void): MapsEventListener;
+    }
+
     namespace places {
       class Autocomplete {
         constructor(input: HTMLInputElement, options?: AutocompleteOptions);
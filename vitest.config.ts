@@ -0,0 +1,15 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@assets": path.resolve(import.meta.dirname, "attached_assets"),
+    },
+  },
+  test: {
+    environment: "jsdom",
+    include: ["client/src/**/*.test.ts"],
+  },
+});